@@ -3,6 +3,7 @@ import {
     analyzeMultipleTimeframes,
     type MultiTimeframeAnalysis,
 } from "@/backend/analysis/multiTimeframe";
+import { getSignalLedger } from "@/backend/data/signalLedger";
 
 // ============================================================================
 // Cache Configuration
@@ -62,6 +63,33 @@ function setCachedAnalysis(symbol: string, mode: "scalping" | "swing", data: Mul
     console.log(`[MTF API] Cache SET for ${key}`);
 }
 
+/**
+ * Record a BUY/SELL confluence call in the signal ledger so its forward
+ * returns can be evaluated. Never fails the request.
+ */
+function recordSignal(result: MultiTimeframeAnalysis, mode: "scalping" | "swing") {
+    const { recommendation, confluence, timeframes } = result;
+    if (recommendation.action === "WAIT") return;
+
+    const direction = recommendation.action;
+    const trend = direction === "BUY" ? "BULLISH" : "BEARISH";
+
+    getSignalLedger().record({
+        source: "MULTI_TIMEFRAME",
+        symbol: result.symbol,
+        mode,
+        direction,
+        action: direction,
+        // The entry zone is centred on the last price
+        price: (recommendation.entry_zone.min + recommendation.entry_zone.max) / 2,
+        confidence: recommendation.confidence,
+        reasons: [confluence.agreement, ...recommendation.limit_warnings],
+        indicators: timeframes.filter((tf) => tf.trend === trend).map((tf) => `${tf.interval} trend`),
+        stopLoss: recommendation.stop_loss,
+        target: recommendation.take_profit[0] ?? null,
+    }).catch((error) => console.error("[MTF API] Failed to record signal:", error));
+}
+
 // ============================================================================
 // POST Handler
 // ============================================================================
@@ -102,6 +130,7 @@ export async function POST(request: NextRequest) {
 
         // 4. Update Cache
         setCachedAnalysis(normalizedSymbol, normalizedMode, result);
+        recordSignal(result, normalizedMode);
 
         // 5. Return Result
         return NextResponse.json(result);
@@ -7,6 +7,7 @@ import {
 } from "@/backend/analysis/multiTimeframe";
 import {
 } from "@/backend/analysis/indicators";
+import { formatChartPattern } from "@/backend/analysis/chartPatterns";
 import { EnhancedStockData } from "@/shared/types";
 
 // Initialize Gemini (for Image Analysis)
@@ -133,6 +134,28 @@ function formatRupiah(num: number | null | undefined): string {
     return `Rp ${num.toLocaleString("id-ID")}`;
 }
 
+function describeChartPatterns(data: EnhancedStockData): string {
+    const patterns = data.chartPatterns || [];
+    return patterns.length > 0
+        ? patterns.map((p) => `  └─ ${formatChartPattern(p)}`).join("\n")
+        : "  └─ No structural pattern detected";
+}
+
+function describeVolumeProfile(data: EnhancedStockData): string {
+    const profile = data.supportResistance.volumeProfile;
+    const avwaps = data.supportResistance.anchoredVwaps || [];
+    const lines = profile
+        ? [
+            `POC: ${formatRupiah(profile.poc)} | Value Area: ${formatRupiah(profile.val)} - ${formatRupiah(profile.vah)}`,
+            `HVN: ${profile.hvn.map((p) => formatRupiah(p)).join(", ") || "N/A"} | LVN: ${profile.lvn.map((p) => formatRupiah(p)).join(", ") || "N/A"}`,
+        ]
+        : ["Volume profile unavailable"];
+    if (avwaps.length > 0) {
+        lines.push(`Anchored VWAP: ${avwaps.map((a) => `${formatRupiah(a.value)} (from swing ${a.anchorType.toLowerCase()} ${formatRupiah(a.anchorPrice)})`).join(", ")}`);
+    }
+    return lines.join("\n");
+}
+
 function createScalpingPrompt(
     symbol: string,
     data: EnhancedStockData,
@@ -152,6 +175,8 @@ function createScalpingPrompt(
     const bbSignal = data.indicators.bollingerBands?.position || "N/A";
 
     const volumeSpike = data.indicators.volumeAnalysis?.isSpike ? "⚠️ SPIKE" : "";
+    const chartPatternText = describeChartPatterns(data);
+    const volumeProfileText = describeVolumeProfile(data);
     const volumeRatio = data.indicators.volumeAnalysis?.ratio
         ? `(${(data.indicators.volumeAnalysis.ratio * 100).toFixed(0)}% of avg)`
         : "";
@@ -177,7 +202,8 @@ ATR (Volatility): ${data.atr?.toFixed(2) || "N/A"}
 
 === MULTI-TIMEFRAME ANALYSIS ===
 ${mtf.timeframes.map((tf) =>
-        `${tf.interval}: ${tf.trend} (${tf.strength}%) | S: ${formatRupiah(tf.key_levels.support)} | R: ${formatRupiah(tf.key_levels.resistance)}`
+        `${tf.interval}: ${tf.trend} (${tf.strength}%) | S: ${formatRupiah(tf.key_levels.support)} | R: ${formatRupiah(tf.key_levels.resistance)}` +
+        (tf.divergences?.length ? ` | Divergence: ${tf.divergences.map((d) => `${d.label} (${d.strength})`).join(", ")}` : "")
     ).join("\n")}
 
 CONFLUENCE: ${mtf.confluence.direction} - ${mtf.confluence.strength}% (${mtf.confluence.agreement})
@@ -187,10 +213,16 @@ ${data.signals.length > 0
             ? data.signals.map((s) => `[${s.strength}] ${s.type} - ${s.indicator}: ${s.reason}`).join("\n")
             : "No strong signals detected"}
 
+=== CHART PATTERNS ===
+${chartPatternText}
+
 === SUPPORT & RESISTANCE ===
 Support Levels: ${data.supportResistance.support.map((s) => formatRupiah(s)).join(", ") || "N/A"}
 Resistance Levels: ${data.supportResistance.resistance.map((r) => formatRupiah(r)).join(", ") || "N/A"}
 
+=== VOLUME PROFILE ===
+${volumeProfileText}
+
 === ALGORITHMIC RECOMMENDATION ===
 Action: ${data.recommendation.action}
 Confidence: ${data.recommendation.confidence}%
@@ -203,7 +235,7 @@ TASK: Provide your expert SCALPING analysis covering:
 1. **ENTRY DECISION** (BUY/SELL/WAIT):
    - Specific entry price in Rupiah
    - Entry trigger condition (e.g., "if price breaks above Rp X with volume")
-   - Why this price level is optimal
+   - Why this price level is optimal (prefer POC / value area low or anchored VWAP for pullback entries)
 
 2. **RISK MANAGEMENT**:
    - Stop Loss: Exact price level (below nearest support for BUY, above resistance for SELL)
@@ -245,6 +277,7 @@ function createSwingPrompt(
         : "N/A";
 
     const dailyTF = mtf.timeframes.find((tf) => tf.interval === "1d");
+    const chartPatternText = describeChartPatterns(data);
     const dailyTrend = dailyTF?.trend || "N/A";
 
     const newsSection = news
@@ -275,6 +308,8 @@ Multi-TF Confluence: ${mtf.confluence.direction} (${mtf.confluence.strength}%)
 Key Levels:
   └─ Resistance: ${formatRupiah(data.supportResistance.resistance[0])}
   └─ Support: ${formatRupiah(data.supportResistance.support[0])}
+Chart Patterns:
+${chartPatternText}
 ${newsSection}
 
 === TECHNICAL INDICATORS ===
@@ -288,6 +323,7 @@ EMA50: ${formatRupiah(data.indicators.ema50)}
 ${mtf.timeframes.map((tf) =>
         `${tf.interval}: ${tf.trend} (${tf.strength}%)`
     ).join(" | ")}
+Divergences: ${mtf.timeframes.flatMap((tf) => (tf.divergences || []).map((d) => `${tf.interval} ${d.label} (${d.strength})`)).join(", ") || "None"}
 
 === ALGORITHMIC RECOMMENDATION ===
 Action: ${data.recommendation.action}
@@ -305,7 +341,7 @@ PROVIDE SWING TRADE ANALYSIS:
 2. **TECHNICAL SETUP**:
    - Trend alignment (daily + weekly)
    - Entry zone (support level or breakout point)
-   - Pattern recognition (ascending triangle, cup & handle, etc.)
+   - Validate the detected chart patterns (breakout level, target, invalidation) against the trend
 
 3. **SWING TRADE PLAN**:
    - Entry Price: Rp X - Rp Y (range)
@@ -414,6 +450,7 @@ export async function POST(request: NextRequest) {
                         entry_zone: { min: 0, max: 0 },
                         stop_loss: 0,
                         take_profit: [],
+                        limit_warnings: [],
                     },
                     timestamp: new Date().toISOString(),
                 };
@@ -0,0 +1,25 @@
+/**
+ * Company Lookup API Endpoint
+ *
+ * One company by symbol, including listed companies the master does not hold
+ * (named by the market data provider, without a sector).
+ *
+ * Route: GET /api/companies/:symbol
+ *
+ * @module app/api/companies/[symbol]
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { lookupCompany } from "@/backend/data/universeRegistry";
+
+export async function GET(
+    _request: NextRequest,
+    { params }: { params: Promise<{ symbol: string }> }
+) {
+    const { symbol } = await params;
+    const company = await lookupCompany(decodeURIComponent(symbol));
+    if (!company) {
+        return NextResponse.json({ error: "Company not found" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, company });
+}
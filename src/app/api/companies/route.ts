@@ -0,0 +1,18 @@
+/**
+ * Companies API Endpoint
+ *
+ * The company master (symbol, name, IDX-IC sector) that symbol search runs
+ * against. Partial: index and curated list members plus other liquid names,
+ * not every listed company; `/api/companies/:symbol` looks up the rest.
+ *
+ * Route: GET /api/companies
+ *
+ * @module app/api/companies
+ */
+
+import { NextResponse } from "next/server";
+import { getCompanyMasterVersion, listCompanies } from "@/backend/data/universeRegistry";
+
+export async function GET() {
+    return NextResponse.json({ success: true, version: getCompanyMasterVersion(), companies: listCompanies() });
+}
@@ -1,22 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
-import YahooFinance from "yahoo-finance2";
-const yahooFinance = new YahooFinance();
 import Groq from "groq-sdk";
 import { YAHOO_FINANCE, AI_MODELS } from "@/shared/constants";
-
-// Yahoo Finance Types
-interface YahooNewsItem {
-    title: string;
-    publisher: string;
-    link: string;
-    providerPublishTime?: number | Date;
-}
-// ... (skip down to mapping)
-
-
-interface YahooSearchResult {
-    news?: YahooNewsItem[];
-}
+import { getMarketDataProvider, type MarketNewsItem } from "@/backend/data/marketData";
 
 // Initialize Groq
 const getGroqClient = () => {
@@ -34,13 +19,13 @@ export async function POST(request: NextRequest) {
             return NextResponse.json({ error: "Ticker is required" }, { status: 400 });
         }
 
-        // 1. Fetch News from Yahoo Finance
-        let newsItems: YahooNewsItem[] = [];
+        // 1. Fetch News from the market data provider
+        let newsItems: MarketNewsItem[] = [];
         try {
-            const result = await yahooFinance.search(ticker, { newsCount: YAHOO_FINANCE.NEWS_COUNT }) as YahooSearchResult;
-            newsItems = result.news || [];
+            const result = await getMarketDataProvider().search(ticker, { newsCount: YAHOO_FINANCE.NEWS_COUNT });
+            newsItems = result.news;
         } catch (err) {
-            console.error("Yahoo News fetch failed:", err);
+            console.error("News fetch failed:", err);
         }
 
         if (newsItems.length === 0) {
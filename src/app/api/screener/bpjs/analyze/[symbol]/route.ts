@@ -10,7 +10,6 @@
  */
 
 import { NextRequest } from 'next/server';
-import YahooFinance from 'yahoo-finance2';
 import { calculateBPJSScore } from '@/lib/bpjs/scoring';
 import { generateAIAnalysis } from '@/lib/bpjs/aiAnalyst';
 import { getStockInfo } from '@/lib/bpjs/universe';
@@ -19,8 +18,9 @@ import {
     performTechnicalAnalysis,
     type TechnicalAnalysisResult,
 } from '@/backend/analysis/indicators';
-
-const yahooFinance = new YahooFinance();
+import { summarizeRecentPatterns, toOHLCBars } from '@/backend/analysis/candlestickPatterns';
+import { detectChartPatterns, summarizeChartPatterns } from '@/backend/analysis/chartPatterns';
+import { fetchChart, getMarketDataProvider } from '@/backend/data/marketData';
 
 export async function GET(
     request: NextRequest,
@@ -34,23 +34,14 @@ export async function GET(
 
         // Fetch stock data
         const symbolWithSuffix = `${symbol}.JK`;
-        const quote = await yahooFinance.quote(symbolWithSuffix);
+        const quote = await getMarketDataProvider().quote(symbolWithSuffix);
 
         if (!quote || !quote.regularMarketPrice) {
             throw new Error(`No quote data for ${symbol}`);
         }
 
         // Fetch historical data (90 days)
-        const endDate = new Date();
-        const startDate = new Date(Date.now() - 90 * 24 * 60 * 60 * 1000);
-
-        const chartResult = await yahooFinance.chart(symbolWithSuffix, {
-            period1: startDate,
-            period2: endDate,
-            interval: '1d',
-        });
-
-        const historicalData = chartResult.quotes || [];
+        const historicalData = await fetchChart(symbolWithSuffix, '1d', 90);
 
         if (historicalData.length < 20) {
             throw new Error(`Insufficient historical data for ${symbol}`);
@@ -72,6 +63,11 @@ export async function GET(
         // Perform technical analysis
         const analysis: TechnicalAnalysisResult = performTechnicalAnalysis(closes, volumes);
 
+        // Candlestick patterns on the last few daily bars, chart patterns over the window
+        const ohlcBars = toOHLCBars(historicalData);
+        const candlestickPatterns = summarizeRecentPatterns(ohlcBars);
+        const chartPatterns = summarizeChartPatterns(detectChartPatterns(ohlcBars));
+
         // Get stock info
         const stockInfo = getStockInfo(symbol);
 
@@ -124,6 +120,8 @@ export async function GET(
                 },
             },
             signals: [],
+            candlestickPatterns,
+            chartPatterns,
             supportResistance: {
                 support: [],
                 resistance: [],
@@ -2,12 +2,17 @@
  * BPJS Scanner API Endpoint
  * 
  * Main endpoint that orchestrates:
- * 1. Fetch stock universe (50 stocks)
+ * 1. Resolve the stock universe (default: the 50 BPJS stocks; any registry
+ *    name such as LQ45, KOMPAS100 or SECTOR:FINANCIALS via `universe`)
  * 2. Parallel fetch & score stocks (batches of 10)
  * 3. Filter & sort by score
  * 4. Generate AI analysis for top candidates (max 5 concurrent)
  * 5. Return ranked results with recommendations
  * 
+ * Send `Accept: text/event-stream` to receive progress, scored/rejected
+ * symbols and each analyzed candidate as Server-Sent Events
+ * (`shared/scanStream`) instead of one JSON body.
+ * 
  * Route: POST /api/screener/bpjs/scan
  * Cache: 5 minutes TTL
  * 
@@ -15,18 +20,22 @@
  */
 
 import { NextRequest } from 'next/server';
-import YahooFinance from 'yahoo-finance2';
-import { BPJS_UNIVERSE, getStockInfo } from '@/lib/bpjs/universe';
 import { calculateBPJSScore, type BPJSScore } from '@/lib/bpjs/scoring';
-import { generateAIAnalysis, type AIRecommendation } from '@/lib/bpjs/aiAnalyst';
+import { createFallbackStrategy, generateAIAnalysis, type AIRecommendation } from '@/lib/bpjs/aiAnalyst';
 import type { EnhancedStockData, MarketContext } from '@/shared/types';
-import {
-    performTechnicalAnalysis,
-    type TechnicalAnalysisResult,
-} from '@/backend/analysis/indicators';
+import { buildStockSnapshot } from '@/lib/bpjs/snapshot';
+import { toOHLCBars } from '@/backend/analysis/candlestickPatterns';
+import { detectChartPatterns, summarizeChartPatterns } from '@/backend/analysis/chartPatterns';
 import { fetchStockNews } from '@/lib/bpjs/news';
-
-const yahooFinance = new YahooFinance();
+import { fetchChart, getMarketDataProvider } from '@/backend/data/marketData';
+import { resolveUniverse } from '@/backend/data/universeRegistry';
+import { getMarketStatus, type MarketStatus } from '@/shared/marketClock';
+import {
+    createScanStreamResponse,
+    throwIfScanCancelled,
+    wantsScanStream,
+    type ScanEmitter,
+} from '@/shared/scanStream';
 
 interface ScanResult {
     rank: number;
@@ -41,148 +50,68 @@ interface ScanResponse {
     stocksScanned: number;
     candidatesFound: number;
     results: ScanResult[];
+    /** Universe id and version that was scanned */
+    universe?: { id: string; version: string | null };
+    market?: Pick<MarketStatus, 'phase' | 'label' | 'jakartaTime' | 'isTradingDay'>;
+    timingNote?: string;
     error?: string;
 }
 
-// Simple in-memory cache (5 minutes)
-const cache = new Map<string, { data: ScanResponse; timestamp: number }>();
+// Simple in-memory cache (5 minutes while the market moves, until the next
+// session change while it is closed or on break)
+const cache = new Map<string, { data: ScanResponse; expiresAt: number }>();
 const CACHE_TTL = 5 * 60 * 1000; // 5 minutes
 
+/**
+ * BPJS buys in session 1 and exits in session 2, so the scan is most useful
+ * before and early in the morning session.
+ */
+function getTimingNote(market: MarketStatus): string {
+    switch (market.phase) {
+        case 'PRE_OPENING':
+            return 'Pre-opening: ideal time to prepare BPJS entries';
+        case 'SESSION_1':
+            return market.jakartaTime < '10:00'
+                ? 'Session 1: BPJS entry window is open'
+                : 'Session 1: late entry, momentum may already be priced in';
+        case 'LUNCH_BREAK':
+        case 'SESSION_2':
+        case 'PRE_CLOSING':
+            return `${market.label}: too late for a BPJS entry today, use results for exits or tomorrow's plan`;
+        default:
+            return `${market.label}: results are based on the last close, plan for the next session`;
+    }
+}
+
+interface ScanOptions {
+    /** Universe registry name (default BPJS) */
+    universe: string;
+    universeSize: number;
+    minScore: number;
+    maxResults: number;
+}
+
 export async function POST(request: NextRequest) {
     const startTime = Date.now();
 
     try {
         const body = await request.json();
         const {
+            universe = 'BPJS',
             universeSize = 50,
             minScore = 50,
             maxResults = 10,
         } = body;
+        const options: ScanOptions = { universe, universeSize, minScore, maxResults };
 
-        console.log('[BPJS Scan] Starting scan...', { universeSize, minScore, maxResults });
-
-        // Check cache
-        const cacheKey = `scan-${universeSize}-${minScore}`;
-        const cached = cache.get(cacheKey);
-        if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
-            console.log('[BPJS Scan] Returning cached results');
-            return Response.json(cached.data);
-        }
-
-        // Fetch market context (IHSG & USD/IDR)
-        console.log('[BPJS Scan] Fetching market context...');
-        const marketContext = await fetchMarketContext();
-
-        // Get stock universe
-        const universe = BPJS_UNIVERSE.slice(0, universeSize);
-        console.log(`[BPJS Scan] Scanning ${universe.length} stocks`);
-
-        // Fetch and score stocks in parallel (batches of 10)
-        const batchSize = 10;
-        const scoredStocks: BPJSScore[] = [];
-
-        for (let i = 0; i < universe.length; i += batchSize) {
-            const batch = universe.slice(i, i + batchSize);
-            console.log(`[BPJS Scan] Processing batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(universe.length / batchSize)}`);
-
-            const batchResults = await Promise.allSettled(
-                batch.map(stock => fetchAndScoreStock(stock.symbol))
+        if (wantsScanStream(request)) {
+            return createScanStreamResponse<ScanResult, ScanResponse>(
+                (emit, signal) => runScan(options, startTime, emit, signal),
+                request.signal
             );
-
-            for (const result of batchResults) {
-                if (result.status === 'fulfilled' && result.value) {
-                    scoredStocks.push(result.value.score);
-                } else if (result.status === 'rejected') {
-                    console.warn('[BPJS Scan] Stock fetch failed:', result.reason);
-                }
-            }
         }
 
-        console.log(`[BPJS Scan] Scored ${scoredStocks.length} stocks successfully`);
-
-        // Filter and sort by score
-        const candidates = scoredStocks
-            .filter(stock => stock.totalScore >= minScore)
-            .sort((a, b) => b.totalScore - a.totalScore)
-            .slice(0, maxResults);
-
-        console.log(`[BPJS Scan] Found ${candidates.length} candidates above score ${minScore}`);
-
-        // Generate AI analysis for top candidates (parallel, max 5 concurrent)
-        const aiConcurrency = 5;
-        const results: ScanResult[] = [];
-
-        for (let i = 0; i < candidates.length; i += aiConcurrency) {
-            const batch = candidates.slice(i, i + aiConcurrency);
-            console.log(`[BPJS Scan] Generating AI analysis batch ${Math.floor(i / aiConcurrency) + 1}`);
-
-            const batchAnalysis = await Promise.allSettled(
-                batch.map(async (candidate, idx) => {
-                    try {
-                        // Fetch full stock data for AI analysis
-                        const fullDataResult = await fetchAndScoreStock(candidate.symbol);
-                        if (!fullDataResult) {
-                            throw new Error(`Failed to fetch data for ${candidate.symbol}`);
-                        }
-
-                        const aiAnalysis = await generateAIAnalysis(candidate, fullDataResult.stockData, marketContext);
-
-                        return {
-                            rank: i + idx + 1,
-                            score: candidate,
-                            aiAnalysis,
-                        };
-                    } catch (error) {
-                        console.error(`[BPJS Scan] AI analysis failed for ${candidate.symbol}:`, error);
-                        // Return with fallback AI analysis
-                        const fallbackAnalysis: AIRecommendation = {
-                            recommendation: candidate.totalScore >= 70 ? 'BUY' : candidate.totalScore >= 50 ? 'HOLD' : 'AVOID',
-                            confidence: Math.min(candidate.totalScore, 75),
-                            reasons: ['Analisis AI tidak tersedia'],
-                            strategy: {
-                                entryZone: { min: candidate.quote.currentPrice * 0.99, max: candidate.quote.currentPrice * 1.01 },
-                                targetProfit: { price: candidate.quote.currentPrice * 1.025, percent: 2.5 },
-                                stopLoss: { price: candidate.quote.currentPrice * 0.99, percent: 1.0 },
-                                riskReward: 2.5,
-                            },
-                            risks: ['Gunakan pertimbangan Anda sendiri'],
-                            additionalNotes: 'Fallback recommendation',
-                            rawResponse: 'AI unavailable',
-                            generatedAt: new Date().toISOString(),
-                        };
-
-                        return {
-                            rank: i + idx + 1,
-                            score: candidate,
-                            aiAnalysis: fallbackAnalysis,
-                        };
-                    }
-                })
-            );
-
-            for (const result of batchAnalysis) {
-                if (result.status === 'fulfilled') {
-                    results.push(result.value);
-                }
-            }
-        }
-
-        const scanDuration = Date.now() - startTime;
-        console.log(`[BPJS Scan] Completed in ${scanDuration}ms`);
-
-        const response: ScanResponse = {
-            success: true,
-            timestamp: new Date().toISOString(),
-            scanDuration,
-            stocksScanned: universe.length,
-            candidatesFound: results.length,
-            results,
-        };
-
-        // Cache the results
-        cache.set(cacheKey, { data: response, timestamp: Date.now() });
-
-        return Response.json(response);
+        return Response.json(await runScan(options, startTime, () => undefined, request.signal));
 
     } catch (error) {
         console.error('[BPJS Scan] Error:', error);
@@ -204,7 +133,172 @@ export async function POST(request: NextRequest) {
 }
 
 /**
- * Fetch stock data from Yahoo Finance and calculate BPJS score
+ * Score the universe, then add AI analysis for the best candidates.
+ * Progress goes to `emit`; the scan stops between batches once `signal` aborts.
+ */
+async function runScan(
+    { universe: universeName, universeSize, minScore, maxResults }: ScanOptions,
+    startTime: number,
+    emit: ScanEmitter<ScanResult, ScanResponse>,
+    signal: AbortSignal
+): Promise<ScanResponse> {
+    console.log('[BPJS Scan] Starting scan...', { universe: universeName, universeSize, minScore, maxResults });
+
+    // Get stock universe
+    const resolved = await resolveUniverse(universeName, { limit: universeSize });
+    const universe = resolved.symbols;
+
+    // Check cache (keyed by version, so an edited custom list is scanned afresh)
+    const cacheKey = `scan-${resolved.id}-${resolved.version}-${universeSize}-${minScore}`;
+    const cached = cache.get(cacheKey);
+    if (cached && Date.now() < cached.expiresAt) {
+        console.log('[BPJS Scan] Returning cached results');
+        return cached.data;
+    }
+
+    emit({ type: 'start', total: universe.length });
+
+    // Fetch market context (IHSG & USD/IDR)
+    console.log('[BPJS Scan] Fetching market context...');
+    const marketContext = await fetchMarketContext();
+
+    console.log(`[BPJS Scan] Scanning ${universe.length} stocks (${resolved.id})`);
+
+    // Fetch and score stocks in parallel (batches of 10)
+    const batchSize = 10;
+    const batches = Math.ceil(universe.length / batchSize);
+    const scoredStocks: BPJSScore[] = [];
+
+    for (let i = 0; i < universe.length; i += batchSize) {
+        const batch = universe.slice(i, i + batchSize);
+        const batchNumber = Math.floor(i / batchSize) + 1;
+        console.log(`[BPJS Scan] Processing batch ${batchNumber}/${batches}`);
+
+        const batchResults = await Promise.allSettled(
+            batch.map(symbol => fetchAndScoreStock(symbol))
+        );
+
+        batchResults.forEach((result, b) => {
+            const symbol = batch[b];
+            if (result.status === 'fulfilled' && result.value) {
+                const score = result.value.score;
+                scoredStocks.push(score);
+                if (score.totalScore >= minScore) {
+                    emit({ type: 'scored', symbol, score: score.totalScore });
+                } else {
+                    emit({ type: 'rejected', symbol, reason: `score ${score.totalScore} below ${minScore}`, score: score.totalScore });
+                }
+                return;
+            }
+            if (result.status === 'rejected') {
+                console.warn('[BPJS Scan] Stock fetch failed:', result.reason);
+            }
+            emit({ type: 'rejected', symbol, reason: 'data unavailable' });
+        });
+
+        emit({ type: 'batch', phase: 'scoring', batch: batchNumber, batches, completed: i + batch.length, total: universe.length });
+        throwIfScanCancelled(signal);
+    }
+
+    console.log(`[BPJS Scan] Scored ${scoredStocks.length} stocks successfully`);
+
+    // Filter and sort by score
+    const candidates = scoredStocks
+        .filter(stock => stock.totalScore >= minScore)
+        .sort((a, b) => b.totalScore - a.totalScore)
+        .slice(0, maxResults);
+
+    console.log(`[BPJS Scan] Found ${candidates.length} candidates above score ${minScore}`);
+
+    // Generate AI analysis for top candidates (parallel, max 5 concurrent)
+    const aiConcurrency = 5;
+    const aiBatches = Math.ceil(candidates.length / aiConcurrency);
+    const results: ScanResult[] = [];
+
+    for (let i = 0; i < candidates.length; i += aiConcurrency) {
+        const batch = candidates.slice(i, i + aiConcurrency);
+        const batchNumber = Math.floor(i / aiConcurrency) + 1;
+        console.log(`[BPJS Scan] Generating AI analysis batch ${batchNumber}`);
+
+        const batchAnalysis = await Promise.allSettled(
+            batch.map(async (candidate, idx) => {
+                let aiAnalysis: AIRecommendation;
+                try {
+                    // Fetch full stock data for AI analysis
+                    const fullDataResult = await fetchAndScoreStock(candidate.symbol);
+                    if (!fullDataResult) {
+                        throw new Error(`Failed to fetch data for ${candidate.symbol}`);
+                    }
+
+                    aiAnalysis = await generateAIAnalysis(candidate, fullDataResult.stockData, marketContext);
+                } catch (error) {
+                    console.error(`[BPJS Scan] AI analysis failed for ${candidate.symbol}:`, error);
+                    // Fall back to a score-based recommendation
+                    aiAnalysis = {
+                        recommendation: candidate.totalScore >= 70 ? 'BUY' : candidate.totalScore >= 50 ? 'HOLD' : 'AVOID',
+                        confidence: Math.min(candidate.totalScore, 75),
+                        reasons: ['Analisis AI tidak tersedia'],
+                        strategy: createFallbackStrategy(candidate.quote.currentPrice, candidate.quote.prevClose),
+                        risks: ['Gunakan pertimbangan Anda sendiri'],
+                        additionalNotes: 'Fallback recommendation',
+                        rawResponse: 'AI unavailable',
+                        generatedAt: new Date().toISOString(),
+                    };
+                }
+
+                const result: ScanResult = {
+                    rank: i + idx + 1,
+                    score: candidate,
+                    aiAnalysis,
+                };
+                emit({ type: 'analysis', symbol: candidate.symbol, recommendation: aiAnalysis.recommendation });
+                emit({ type: 'candidate', result });
+                return result;
+            })
+        );
+
+        for (const result of batchAnalysis) {
+            if (result.status === 'fulfilled') {
+                results.push(result.value);
+            }
+        }
+
+        emit({ type: 'batch', phase: 'analysis', batch: batchNumber, batches: aiBatches, completed: i + batch.length, total: candidates.length });
+        throwIfScanCancelled(signal);
+    }
+
+    const scanDuration = Date.now() - startTime;
+    console.log(`[BPJS Scan] Completed in ${scanDuration}ms`);
+
+    const market = getMarketStatus();
+    const response: ScanResponse = {
+        success: true,
+        timestamp: new Date().toISOString(),
+        scanDuration,
+        stocksScanned: universe.length,
+        universe: { id: resolved.id, version: resolved.version },
+        candidatesFound: results.length,
+        results,
+        market: {
+            phase: market.phase,
+            label: market.label,
+            jakartaTime: market.jakartaTime,
+            isTradingDay: market.isTradingDay,
+        },
+        timingNote: getTimingNote(market),
+    };
+
+    // Cache the results
+    const expiresAt = market.isActive
+        ? Date.now() + CACHE_TTL
+        : Math.max(Date.now() + CACHE_TTL, market.nextChangeAt.getTime());
+    cache.set(cacheKey, { data: response, expiresAt });
+
+    return response;
+}
+
+/**
+ * Fetch stock data from the market data provider and calculate BPJS score
  */
 async function fetchAndScoreStock(symbol: string): Promise<{ score: BPJSScore; stockData: EnhancedStockData } | null> {
     try {
@@ -241,115 +335,36 @@ async function fetchStockData(symbol: string): Promise<EnhancedStockData> {
     const symbolWithSuffix = `${symbol}.JK`;
 
     // Fetch quote data
-    const quote = await yahooFinance.quote(symbolWithSuffix);
+    const quote = await getMarketDataProvider().quote(symbolWithSuffix);
 
     if (!quote || !quote.regularMarketPrice) {
         throw new Error(`No quote data for ${symbol}`);
     }
 
     // Fetch historical data (90 days for proper indicator calculation)
-    const endDate = new Date();
-    const startDate = new Date(Date.now() - 90 * 24 * 60 * 60 * 1000);
-
-    const chartResult = await yahooFinance.chart(symbolWithSuffix, {
-        period1: startDate,
-        period2: endDate,
-        interval: '1d',
-    });
-
-    const historicalData = chartResult.quotes || [];
+    const historicalData = await fetchChart(symbolWithSuffix, '1d', 90);
 
     if (historicalData.length < 20) {
         throw new Error(`Insufficient historical data for ${symbol}`);
     }
 
-    // Extract price arrays
-    const closes = historicalData
-        .map(q => q.close)
-        .filter((c): c is number => c !== null && c !== undefined && !isNaN(c) && c > 0);
-
-    const volumes = historicalData
-        .map(q => q.volume)
-        .filter((v): v is number => v !== null && v !== undefined && !isNaN(v) && v >= 0);
-
-    const highs = historicalData
-        .map(q => q.high)
-        .filter((h): h is number => h !== null && h !== undefined && !isNaN(h) && h > 0);
-
-    const lows = historicalData
-        .map(q => q.low)
-        .filter((l): l is number => l !== null && l !== undefined && !isNaN(l) && l > 0);
-
-    if (closes.length < 20) {
-        throw new Error(`Insufficient valid price data for ${symbol}`);
-    }
+    // Indicators, candlestick patterns and the score inputs
+    const enhancedData = buildStockSnapshot(symbol, historicalData, {
+        price: quote.regularMarketPrice,
+        previousClose: quote.regularMarketPreviousClose || quote.regularMarketPrice,
+        volume: quote.regularMarketVolume || 0,
+        change: quote.regularMarketChange || 0,
+        changePercent: quote.regularMarketChangePercent || 0,
+        marketCap: quote.marketCap || null,
+        pe: quote.trailingPE || null,
+        pb: quote.priceToBook || null,
+        dayHigh: quote.regularMarketDayHigh || quote.regularMarketPrice,
+        dayLow: quote.regularMarketDayLow || quote.regularMarketPrice,
+        name: quote.longName || quote.shortName,
+    });
 
-    // Perform technical analysis
-    const analysis: TechnicalAnalysisResult = performTechnicalAnalysis(closes, volumes, highs, lows);
-
-    // Get stock info
-    const stockInfo = getStockInfo(symbol);
-
-    // Build EnhancedStockData
-    const enhancedData: EnhancedStockData = {
-        symbol: symbol,
-        name: stockInfo?.name || quote.longName || quote.shortName || symbol,
-        quote: {
-            price: quote.regularMarketPrice,
-            change: quote.regularMarketChange || 0,
-            changePercent: quote.regularMarketChangePercent || 0,
-            volume: quote.regularMarketVolume || 0,
-            marketCap: quote.marketCap || null,
-            pe: quote.trailingPE || null,
-            pb: quote.priceToBook || null,
-            sector: stockInfo?.sector || null,
-            previousClose: quote.regularMarketPreviousClose || quote.regularMarketPrice,
-            dayHigh: quote.regularMarketDayHigh || quote.regularMarketPrice,
-            dayLow: quote.regularMarketDayLow || quote.regularMarketPrice,
-        },
-        indicators: {
-            rsi: analysis.rsi ? {
-                value: analysis.rsi.current,
-                interpretation: analysis.rsi.current < 30 ? 'OVERSOLD' as const :
-                    analysis.rsi.current > 70 ? 'OVERBOUGHT' as const : 'NEUTRAL' as const,
-            } : { value: 50, interpretation: 'NEUTRAL' as const },
-            macd: analysis.macd ? {
-                macd: analysis.macd.current.macd,
-                signal: analysis.macd.current.signal,
-                histogram: analysis.macd.current.histogram,
-                crossover: analysis.macd.crossover,
-            } : { macd: 0, signal: 0, histogram: 0, crossover: 'NONE' as const },
-            bollingerBands: analysis.bollingerBands ? {
-                upper: analysis.bollingerBands.current.upper,
-                middle: analysis.bollingerBands.current.middle,
-                lower: analysis.bollingerBands.current.lower,
-                bandwidth: analysis.bollingerBands.current.bandwidth,
-                position: quote.regularMarketPrice > analysis.bollingerBands.current.upper ? 'ABOVE_UPPER' as const :
-                    quote.regularMarketPrice < analysis.bollingerBands.current.lower ? 'BELOW_LOWER' as const : 'WITHIN' as const,
-            } : null,
-            ema20: closes.length >= 20 ? closes.slice(-20).reduce((a, b) => a + b) / 20 : quote.regularMarketPrice,
-            ema50: closes.length >= 50 ? closes.slice(-50).reduce((a, b) => a + b) / 50 : quote.regularMarketPrice,
-            sma20: closes.length >= 20 ? closes.slice(-20).reduce((a, b) => a + b) / 20 : null,
-            volumeAnalysis: {
-                current: quote.regularMarketVolume || 0,
-                average: volumes.length > 0 ? volumes.reduce((a, b) => a + b) / volumes.length : 1,
-                ratio: volumes.length > 0 ? (quote.regularMarketVolume || 0) / (volumes.reduce((a, b) => a + b) / volumes.length) : 1,
-                isSpike: false,
-                trend: 'STABLE' as const,
-            },
-        },
-        signals: [],
-        supportResistance: {
-            support: [],
-            resistance: [],
-        },
-        atr: analysis.atr || 0,
-        recommendation: {
-            action: 'HOLD' as const,
-            confidence: 50,
-            reasoning: [],
-        },
-    };
+    // Chart patterns over the window (for the AI prompt)
+    enhancedData.chartPatterns = summarizeChartPatterns(detectChartPatterns(toOHLCBars(historicalData)));
 
     return enhancedData;
 }
@@ -359,9 +374,10 @@ async function fetchStockData(symbol: string): Promise<EnhancedStockData> {
  */
 async function fetchMarketContext(): Promise<MarketContext | undefined> {
     try {
+        const marketData = getMarketDataProvider();
         const [ihsg, usdidr] = await Promise.all([
-            yahooFinance.quote('^JKSE'),
-            yahooFinance.quote('USDIDR=X')
+            marketData.quote('^JKSE'),
+            marketData.quote('USDIDR=X')
         ]);
 
         return {
@@ -0,0 +1,51 @@
+/**
+ * Custom Screener API Endpoint
+ *
+ * Runs a filter expression over a universe and returns the matching symbols
+ * with one column per field the expression reads.
+ *
+ * Route: POST /api/screener/custom
+ * Body: { expression: string, universe: string (registry name, e.g. "LQ45", or "CUSTOM"), symbols?: string[] }
+ *
+ * @module app/api/screener/custom
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { runScreen, type ScreenRequest } from "@/backend/analysis/customScreener";
+import { parseScreenExpression } from "@/shared/screenExpression";
+
+export const maxDuration = 60; // Allow 1 minute for scanning
+
+export async function POST(request: NextRequest) {
+    let body: Partial<ScreenRequest>;
+    try {
+        body = await request.json();
+    } catch {
+        return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+
+    // Report expression mistakes as a bad request, before any data is fetched
+    try {
+        parseScreenExpression(body.expression ?? "");
+    } catch (error) {
+        return NextResponse.json(
+            { error: "Invalid filter expression", details: error instanceof Error ? error.message : String(error) },
+            { status: 400 }
+        );
+    }
+
+    try {
+        const result = await runScreen({
+            expression: body.expression as string,
+            universe: body.universe ?? "BPJS",
+            symbols: Array.isArray(body.symbols) ? body.symbols : undefined,
+        });
+        return NextResponse.json({ success: true, ...result });
+    } catch (error: unknown) {
+        console.error("[CustomScreener] Scan failed:", error);
+        return NextResponse.json(
+            { error: "Custom screen failed", details: error instanceof Error ? error.message : "Unknown error" },
+            { status: 500 }
+        );
+    }
+}
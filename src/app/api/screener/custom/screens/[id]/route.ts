@@ -0,0 +1,32 @@
+/**
+ * Saved Screen API Endpoint
+ *
+ * Route: GET    /api/screener/custom/screens/:id
+ * Route: DELETE /api/screener/custom/screens/:id
+ *
+ * @module app/api/screener/custom/screens/[id]
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getScreenStore } from "@/backend/data/screenStore";
+
+export async function GET(
+    _request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const { id } = await params;
+    const screen = await getScreenStore().get(id);
+    if (!screen) return NextResponse.json({ error: "Screen not found" }, { status: 404 });
+    return NextResponse.json({ success: true, screen });
+}
+
+export async function DELETE(
+    _request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const { id } = await params;
+    if (!(await getScreenStore().remove(id))) {
+        return NextResponse.json({ error: "Screen not found" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+}
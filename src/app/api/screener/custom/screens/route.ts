@@ -0,0 +1,30 @@
+/**
+ * Saved Screens API Endpoint
+ *
+ * Route: GET  /api/screener/custom/screens   → every saved screen
+ * Route: POST /api/screener/custom/screens   → save (insert, or update by id)
+ *
+ * @module app/api/screener/custom/screens
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getScreenStore, type ScreenDefinition } from "@/backend/data/screenStore";
+
+export async function GET() {
+    try {
+        return NextResponse.json({ success: true, screens: await getScreenStore().list() });
+    } catch (error: unknown) {
+        console.error("[ScreenStore] Failed to list screens:", error);
+        return NextResponse.json({ error: "Failed to load saved screens" }, { status: 500 });
+    }
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const definition: ScreenDefinition = await request.json();
+        return NextResponse.json({ success: true, screen: await getScreenStore().save(definition) });
+    } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        return NextResponse.json({ error: "Failed to save screen", details: message }, { status: 400 });
+    }
+}
@@ -1,10 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
-import YahooFinance from 'yahoo-finance2';
-import { getTrendingStocks, getStockInfo } from "@/lib/bpjs/universe";
 import { performTechnicalAnalysis, calculateEMA } from "@/backend/analysis/indicators";
-
-// Use singleton instance
-const yahooFinance = new YahooFinance();
+import { fetchChart, type HistoricalQuote } from "@/backend/data/marketData";
+import { getSignalLedger, type SignalInput, type SignalRecord } from "@/backend/data/signalLedger";
+import { resolveUniverse } from "@/backend/data/universeRegistry";
+import {
+    createScanStreamResponse,
+    throwIfScanCancelled,
+    wantsScanStream,
+    type ScanEmitter,
+} from "@/shared/scanStream";
 
 export const maxDuration = 60; // Allow 1 minute for scanning
 
@@ -25,193 +29,251 @@ interface ScalpingResult {
     };
 }
 
+interface ScalpingScanResponse {
+    success: true;
+    activeCount: number;
+    scanId: string;
+    results: ScalpingResult[];
+}
+
 // Helper to fetch history for a batch of stocks
 async function fetchBatchHistory(symbols: string[]) {
-    // Note: yahoo-finance2 doesn't support true batch chart fetching, so we run parallel promises
-    // We limit concurrency to avoid rate limits
-    const BATCH_SIZE = 5;
+    // Note: providers don't support true batch chart fetching, so we run parallel promises
+    // (callers keep batches small to avoid rate limits)
     const results = new Map<string, any>();
+    const batchResults = await Promise.all(symbols.map(async (symbol) => {
+        try {
+            // Fetch 5m data for analysis (5 days back)
+            const query = symbol.endsWith('.JK') ? symbol : `${symbol}.JK`;
+
+            const data = await fetchChart(query, '5m', 5);
+            return { symbol, data };
+        } catch (err) {
+            // console.warn(`Failed to fetch ${symbol}`, err);
+            return { symbol, data: [] };
+        }
+    }));
 
-    for (let i = 0; i < symbols.length; i += BATCH_SIZE) {
-        const batch = symbols.slice(i, i + BATCH_SIZE);
-        const promises = batch.map(async (symbol) => {
-            try {
-                // Fetch 5m data for analysis
-                const endDate = new Date();
-                const startDate = new Date(Date.now() - 5 * 24 * 60 * 60 * 1000); // 5 days back
-                const query = symbol.endsWith('.JK') ? symbol : `${symbol}.JK`;
-
-                const result = await yahooFinance.chart(query, {
-                    period1: startDate,
-                    period2: endDate,
-                    interval: '5m',
-                });
-                return { symbol, data: result?.quotes || [] };
-            } catch (err) {
-                // console.warn(`Failed to fetch ${symbol}`, err);
-                return { symbol, data: [] };
+    batchResults.forEach(r => {
+        if (r.data.length > 20) results.set(r.symbol, r.data);
+    });
+    return results;
+}
+
+// Score one stock's 5m history (null when it cannot be analyzed)
+function scoreStock(symbol: string, history: HistoricalQuote[]): ScalpingResult | null {
+    const closes = history.map((q: any) => q.close).filter((c: any) => typeof c === 'number');
+    const volumes = history.map((q: any) => q.volume).filter((v: any) => typeof v === 'number');
+    const highs = history.map((q: any) => q.high).filter((h: any) => typeof h === 'number');
+    const lows = history.map((q: any) => q.low).filter((l: any) => typeof l === 'number');
+
+    if (closes.length < 30) return null;
+
+    try {
+        // Run Technical Analysis
+        // We assume performTechnicalAnalysis handles null checks internally or throws
+        const analysis = performTechnicalAnalysis(closes, volumes, highs, lows);
+
+        if (!analysis) return null;
+
+        const currentPrice = closes[closes.length - 1];
+        const prevPrice = closes[closes.length - 2];
+        const changePercent = ((currentPrice - prevPrice) / prevPrice) * 100;
+
+        // --- Scoring Engine ---
+        let score = 0;
+        let signal: "BUY" | "SELL" | "HOLD" = "HOLD";
+        const reasons: string[] = [];
+
+        // 1. Volume Check (Stricter)
+        const volRatio = analysis.volume?.volumeRatio || 0;
+        if (volRatio > 2.0) {
+            score += 25; // Boost for huge volume
+            reasons.push(`Massive Vol (${volRatio.toFixed(1)}x)`);
+        } else if (volRatio > 1.3) {
+            score += 15;
+            reasons.push(`High Vol (${volRatio.toFixed(1)}x)`);
+        } else if (volRatio < 0.8) {
+            score -= 10;
+        }
+
+        // 2. Trend Strength (ADX) - NEW
+        const adx = analysis.adx?.adx || 0;
+        if (adx > 25) {
+            score += 10;
+        }
+        if (adx > 40) {
+            score += 10; // Very strong trend
+            reasons.push(`Strong Trend (ADX ${adx.toFixed(0)})`);
+        } else if (adx < 20) {
+            score -= 15; // Weak trend, likely chopping
+            reasons.push(`Weak Trend`);
+        }
+
+        // 3. Momentum (Stochastic)
+        const k = analysis.stochastic?.current.k || 50;
+        const d = analysis.stochastic?.current.d || 50;
+        const stochSignal = analysis.stochastic?.signal;
+
+        if (stochSignal === 'BUY' && k < 50) { // Golden cross in lower half is better
+            score += 25;
+            reasons.push('Stoch Bull Cross');
+        } else if (stochSignal === 'BUY') {
+            score += 15;
+        } else if (k > 85) {
+            score -= 5; // Risk of overbought
+        } else if (stochSignal === 'SELL') {
+            score -= 20;
+        }
+
+        // 4. Trend (EMA50) - 5m
+        const ema50 = analysis.ema50?.current || 0;
+        const trendAligned = currentPrice > ema50;
+
+        if (trendAligned) {
+            score += 15;
+            // Check pullback: Healthy dip
+            if (analysis.rsi && analysis.rsi.current >= 40 && analysis.rsi.current <= 55) {
+                score += 20;
+                reasons.push('Perf. Pullback');
+                signal = "BUY";
             }
-        });
+        } else {
+            score -= 20; // Don't scalp against 5m trend usually
+        }
 
-        const batchResults = await Promise.all(promises);
-        batchResults.forEach(r => {
-            if (r.data.length > 20) results.set(r.symbol, r.data);
-        });
+        // 5. Volatility (ATR)
+        const atr = analysis.atr || 0;
+        const volPct = (atr / currentPrice) * 100;
+        if (volPct > 0.5) {
+            score += 5;
+        } else {
+            score -= 50; // Dead stock (kill switch)
+            reasons.push('DEAD STOCK');
+        }
 
-        // Small delay to be polite
-        if (i + BATCH_SIZE < symbols.length) await new Promise(r => setTimeout(r, 200));
+        // Final Decision (Stricter Thresholds)
+        if (score >= 70 && volPct > 0.5 && adx > 20) {
+            signal = "BUY";
+        } else if (score <= 30) {
+            signal = "SELL";
+        }
+
+        return {
+            symbol,
+            price: currentPrice,
+            changePercent,
+            score,
+            signal,
+            reason: reasons,
+            metrics: {
+                rsi: analysis.rsi?.current || 50,
+                volumeRatio: volRatio,
+                stochasticK: k,
+                stochasticD: d,
+                volatility: volPct,
+                adx: adx
+            }
+        };
+
+    } catch (err) {
+        console.error(`Error analyzing ${symbol}:`, err);
+        return null;
     }
-    return results;
 }
 
-export async function POST(request: NextRequest) {
-    try {
-        console.log('[Scalper] Starting scan...');
-
-        // 1. Get Universe (Dynamic)
-        // Try getting trending first, fallback to static if needed happens inside getTrendingStocks
-        const universe = await getTrendingStocks(20); // Top 20 trending
-        console.log(`[Scalper] Screening ${universe.length} stocks:`, universe.join(', '));
+// Record BUY/SELL picks in the signal ledger so their forward returns can be evaluated
+function recordSignals(results: ScalpingResult[]): Promise<SignalRecord[]> {
+    return getSignalLedger().recordMany(results
+        .filter((r): r is ScalpingResult & { signal: "BUY" | "SELL" } => r.signal !== "HOLD")
+        .map((r): SignalInput => ({
+            source: "SCALPING_SCREENER",
+            symbol: r.symbol,
+            mode: "scalping",
+            direction: r.signal,
+            action: r.signal,
+            price: r.price,
+            // High scores back a BUY, low scores a SELL
+            confidence: Math.max(0, Math.min(100, r.signal === "BUY" ? r.score : 100 - r.score)),
+            reasons: r.reason,
+            indicators: [...new Set(r.reason.map((reason) => reason.replace(/\s*\(.*\)$/, "")))],
+            stopLoss: null,
+            target: null,
+        })));
+}
 
+/**
+ * Score a universe (default: today's trending stocks) on 5m bars, a batch at a time.
+ * Progress goes to `emit`; the scan stops between batches once `signal` aborts.
+ */
+async function runScalpingScan(
+    universeName: string,
+    emit: ScanEmitter<ScalpingResult, ScalpingScanResponse>,
+    signal: AbortSignal
+): Promise<ScalpingScanResponse> {
+    console.log(`[Scalper] Starting scan (${universeName})...`);
+
+    // 1. Get Universe (TRENDING falls back to a static index list inside the registry)
+    const { symbols: universe } = await resolveUniverse(universeName, { limit: 20 }); // Top 20
+    console.log(`[Scalper] Screening ${universe.length} stocks:`, universe.join(', '));
+    emit({ type: "start", total: universe.length });
+
+    const results: ScalpingResult[] = [];
+    const BATCH_SIZE = 5; // Limit concurrency to avoid rate limits
+    const batches = Math.ceil(universe.length / BATCH_SIZE);
+
+    for (let i = 0; i < universe.length; i += BATCH_SIZE) {
         // 2. Fetch Data (Parallel)
-        const historyMap = await fetchBatchHistory(universe);
-
-        const results: ScalpingResult[] = [];
+        const batch = universe.slice(i, i + BATCH_SIZE);
+        const historyMap = await fetchBatchHistory(batch);
 
         // 3. Analyze Each Stock
-        for (const symbol of universe) {
+        for (const symbol of batch) {
             const history = historyMap.get(symbol);
-            if (!history || history.length < 50) continue;
-
-            const closes = history.map((q: any) => q.close).filter((c: any) => typeof c === 'number');
-            const volumes = history.map((q: any) => q.volume).filter((v: any) => typeof v === 'number');
-            const highs = history.map((q: any) => q.high).filter((h: any) => typeof h === 'number');
-            const lows = history.map((q: any) => q.low).filter((l: any) => typeof l === 'number');
-
-            if (closes.length < 30) continue;
-
-            try {
-                // Run Technical Analysis
-                // We assume performTechnicalAnalysis handles null checks internally or throws
-                const analysis = performTechnicalAnalysis(closes, volumes, highs, lows);
-
-                if (!analysis) continue;
-
-                const currentPrice = closes[closes.length - 1];
-                const prevPrice = closes[closes.length - 2];
-                const changePercent = ((currentPrice - prevPrice) / prevPrice) * 100;
-
-                // --- Scoring Engine ---
-                let score = 0;
-                let signal: "BUY" | "SELL" | "HOLD" = "HOLD";
-                const reasons: string[] = [];
-
-                // 1. Volume Check (Stricter)
-                const volRatio = analysis.volume?.volumeRatio || 0;
-                if (volRatio > 2.0) {
-                    score += 25; // Boost for huge volume
-                    reasons.push(`Massive Vol (${volRatio.toFixed(1)}x)`);
-                } else if (volRatio > 1.3) {
-                    score += 15;
-                    reasons.push(`High Vol (${volRatio.toFixed(1)}x)`);
-                } else if (volRatio < 0.8) {
-                    score -= 10;
-                }
-
-                // 2. Trend Strength (ADX) - NEW
-                const adx = analysis.adx?.adx || 0;
-                if (adx > 25) {
-                    score += 10;
-                }
-                if (adx > 40) {
-                    score += 10; // Very strong trend
-                    reasons.push(`Strong Trend (ADX ${adx.toFixed(0)})`);
-                } else if (adx < 20) {
-                    score -= 15; // Weak trend, likely chopping
-                    reasons.push(`Weak Trend`);
-                }
-
-                // 3. Momentum (Stochastic)
-                const k = analysis.stochastic?.current.k || 50;
-                const d = analysis.stochastic?.current.d || 50;
-                const stochSignal = analysis.stochastic?.signal;
-
-                if (stochSignal === 'BUY' && k < 50) { // Golden cross in lower half is better
-                    score += 25;
-                    reasons.push('Stoch Bull Cross');
-                } else if (stochSignal === 'BUY') {
-                    score += 15;
-                } else if (k > 85) {
-                    score -= 5; // Risk of overbought
-                } else if (stochSignal === 'SELL') {
-                    score -= 20;
-                }
-
-                // 4. Trend (EMA50) - 5m
-                const ema50 = analysis.ema50?.current || 0;
-                const trendAligned = currentPrice > ema50;
-
-                if (trendAligned) {
-                    score += 15;
-                    // Check pullback: Healthy dip
-                    if (analysis.rsi && analysis.rsi.current >= 40 && analysis.rsi.current <= 55) {
-                        score += 20;
-                        reasons.push('Perf. Pullback');
-                        signal = "BUY";
-                    }
-                } else {
-                    score -= 20; // Don't scalp against 5m trend usually
-                }
-
-                // 5. Volatility (ATR)
-                const atr = analysis.atr || 0;
-                const volPct = (atr / currentPrice) * 100;
-                if (volPct > 0.5) {
-                    score += 5;
-                } else {
-                    score -= 50; // Dead stock (kill switch)
-                    reasons.push('DEAD STOCK');
-                }
-
-                // Final Decision (Stricter Thresholds)
-                if (score >= 70 && volPct > 0.5 && adx > 20) {
-                    signal = "BUY";
-                } else if (score <= 30) {
-                    signal = "SELL";
-                }
-
-                results.push({
-                    symbol,
-                    price: currentPrice,
-                    changePercent,
-                    score,
-                    signal,
-                    reason: reasons,
-                    metrics: {
-                        rsi: analysis.rsi?.current || 50,
-                        volumeRatio: volRatio,
-                        stochasticK: k,
-                        stochasticD: d,
-                        volatility: volPct,
-                        adx: adx
-                    }
-                });
-
-            } catch (err) {
-                console.error(`Error analyzing ${symbol}:`, err);
+            const result = history && history.length >= 50 ? scoreStock(symbol, history) : null;
+            if (!result) {
+                emit({ type: "rejected", symbol, reason: "not enough 5m data" });
+                continue;
             }
+            results.push(result);
+            emit({ type: "scored", symbol, score: result.score });
+            emit({ type: "candidate", result });
         }
 
-        // Sort by score (descending)
-        results.sort((a, b) => b.score - a.score);
+        emit({ type: "batch", phase: "scoring", batch: Math.floor(i / BATCH_SIZE) + 1, batches, completed: i + batch.length, total: universe.length });
+        throwIfScanCancelled(signal);
+
+        // Small delay to be polite
+        if (i + BATCH_SIZE < universe.length) await new Promise(r => setTimeout(r, 200));
+    }
+
+    // Sort by score (descending)
+    results.sort((a, b) => b.score - a.score);
+    // The response does not wait for the ledger write
+    recordSignals(results).catch((err) => console.error("[Scalper] Failed to record signals:", err));
+
+    return {
+        success: true,
+        activeCount: results.length,
+        scanId: Date.now().toString(),
+        results: results
+    };
+}
 
-        return NextResponse.json({
-            success: true,
-            activeCount: results.length,
-            scanId: Date.now().toString(),
-            results: results
-        });
+export async function POST(request: NextRequest) {
+    // The body is optional: { universe?: string }
+    const body: { universe?: string } = await request.json().catch(() => ({}));
+    const universe = body.universe || "TRENDING";
+
+    if (wantsScanStream(request)) {
+        return createScanStreamResponse<ScalpingResult, ScalpingScanResponse>(
+            (emit, signal) => runScalpingScan(universe, emit, signal),
+            request.signal
+        );
+    }
 
+    try {
+        return NextResponse.json(await runScalpingScan(universe, () => undefined, request.signal));
     } catch (error: any) {
         console.error('[Scalper] Scan failed:', error);
         return NextResponse.json(
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
-import YahooFinance from "yahoo-finance2";
-
-const yahooFinance = new YahooFinance();
+import {
+    fetchChart,
+    getMarketDataProvider,
+    type HistoricalQuote,
+} from "@/backend/data/marketData";
 import {
     calculateEMA,
     calculateSMA,
@@ -11,6 +13,23 @@ import {
     type VolumeAnalysisResult,
     type TechnicalAnalysisResult,
 } from "@/backend/analysis/indicators";
+import { atr, last } from "@/backend/analysis/series";
+import {
+    summarizeRecentPatterns,
+    toOHLCBars,
+    type PatternReliability,
+    type PatternSummary,
+} from "@/backend/analysis/candlestickPatterns";
+import {
+    detectChartPatterns,
+    summarizeChartPatterns,
+    type ChartPatternSummary,
+} from "@/backend/analysis/chartPatterns";
+import { summarizeQuoteDivergences, type DivergenceSummary } from "@/backend/analysis/divergence";
+import { analyzeVolumeLevels, toVolumeBars, type VolumeLevels } from "@/backend/analysis/volumeProfile";
+import { getSignalLedger, type SignalMode } from "@/backend/data/signalLedger";
+import { roundToTick } from "@/shared/idxMarketRules";
+import { formatJakartaTime, getMarketStatus } from "@/shared/marketClock";
 
 
 
@@ -27,35 +46,6 @@ interface Signal {
     price: number;
 }
 
-interface HistoricalQuote {
-    date: Date;
-    open: number | null;
-    high: number | null;
-    low: number | null;
-    close: number | null;
-    volume: number | null;
-}
-
-interface QuoteResult {
-    regularMarketPrice?: number;
-    regularMarketChange?: number;
-    regularMarketChangePercent?: number;
-    regularMarketVolume?: number;
-    regularMarketDayHigh?: number;
-    regularMarketDayLow?: number;
-    regularMarketPreviousClose?: number;
-    marketCap?: number;
-    trailingPE?: number;
-    priceToBook?: number;
-    longName?: string;
-    shortName?: string;
-}
-
-interface ChartResult {
-    quotes: HistoricalQuote[];
-}
-
-type ChartInterval = "1m" | "5m" | "1h" | "1d";
 
 // ============================================================================
 // Cache Implementation
@@ -70,50 +60,18 @@ const CACHE_DURATION_SWING = 60 * 60 * 1000; // 1 hour
 // Helper Functions
 // ============================================================================
 
-async function fetchChart(
-    symbolWithSuffix: string,
-    interval: ChartInterval,
-    daysBack: number
-): Promise<HistoricalQuote[]> {
-    const endDate = new Date();
-    const startDate = new Date(Date.now() - daysBack * 24 * 60 * 60 * 1000);
-
-    const chartResult = await yahooFinance.chart(symbolWithSuffix, {
-        period1: startDate,
-        period2: endDate,
-        interval,
-    }) as ChartResult;
-
-    return chartResult.quotes || [];
-}
-
 /**
- * Calculate Average True Range (ATR) for volatility measurement
+ * Wilder ATR over the bars that have a full high/low/close
  */
 function calculateATR(historical: HistoricalQuote[], period: number = 14): number {
-    if (historical.length < period + 1) return 0;
-
-    const trueRanges: number[] = [];
-
-    for (let i = 1; i < historical.length; i++) {
-        const high = historical[i].high;
-        const low = historical[i].low;
-        const prevClose = historical[i - 1].close;
-
-        if (high == null || low == null || prevClose == null) continue;
-
-        const tr = Math.max(
-            high - low,
-            Math.abs(high - prevClose),
-            Math.abs(low - prevClose)
-        );
-        trueRanges.push(tr);
-    }
-
-    if (trueRanges.length < period) return 0;
-
-    const recentTR = trueRanges.slice(-period);
-    return recentTR.reduce((sum, tr) => sum + tr, 0) / period;
+    const bars = historical.filter(q => q.high != null && q.low != null && q.close != null);
+    const values = atr(
+        bars.map(q => q.high as number),
+        bars.map(q => q.low as number),
+        bars.map(q => q.close as number),
+        period
+    );
+    return last(values) ?? 0;
 }
 
 /**
@@ -190,13 +148,49 @@ function findSupportResistance(historical: HistoricalQuote[]): {
     };
 }
 
+/**
+ * Merge swing levels with volume profile / anchored VWAP levels.
+ * Levels are rounded to the IDX tick, de-duplicated and kept nearest first.
+ */
+function mergeVolumeLevels(
+    swingLevels: { support: number[]; resistance: number[] },
+    volumeLevels: VolumeLevels,
+    currentPrice: number
+) {
+    const merge = (levels: number[]) =>
+        [...new Set(levels.map((p) => roundToTick(p)).filter((p) => p > 0))]
+            .sort((a, b) => Math.abs(currentPrice - a) - Math.abs(currentPrice - b))
+            .slice(0, 5);
+    const { profile } = volumeLevels;
+
+    return {
+        support: merge([...swingLevels.support, ...volumeLevels.support]),
+        resistance: merge([...swingLevels.resistance, ...volumeLevels.resistance]),
+        volumeProfile: profile ? {
+            poc: roundToTick(profile.poc),
+            vah: roundToTick(profile.vah),
+            val: roundToTick(profile.val),
+            hvn: profile.hvn.slice(0, 3).map((p) => roundToTick(p)),
+            lvn: profile.lvn.slice(0, 3).map((p) => roundToTick(p)),
+        } : null,
+        anchoredVwaps: volumeLevels.anchoredVwaps.map((a) => ({
+            anchorType: a.anchorType,
+            anchorPrice: a.anchorPrice,
+            value: roundToTick(a.value),
+        })),
+    };
+}
+
 /**
  * Generate trading signals based on indicator confluence
  */
 function generateSignals(
     analysis: TechnicalAnalysisResult,
     currentPrice: number,
-    volumeAnalysis: VolumeAnalysisResult | null
+    volumeAnalysis: VolumeAnalysisResult | null,
+    patterns: PatternSummary[] = [],
+    chartPatterns: ChartPatternSummary[] = [],
+    divergences: DivergenceSummary[] = []
 ): Signal[] {
     const signals: Signal[] = [];
 
@@ -295,6 +289,152 @@ function generateSignals(
         }
     }
 
+    // VWAP Signals (intraday anchor)
+    if (analysis.vwap && analysis.vwap.signal !== "NEUTRAL") {
+        const isBuy = analysis.vwap.signal === "BUY";
+        signals.push({
+            type: isBuy ? "BUY" : "SELL",
+            indicator: "VWAP",
+            reason: isBuy
+                ? `Price reclaimed VWAP (${analysis.vwap.current.toFixed(0)})`
+                : `Price lost VWAP (${analysis.vwap.current.toFixed(0)})`,
+            strength: volumeAnalysis?.isSpike ? "STRONG" : "MEDIUM",
+            price: currentPrice,
+        });
+    }
+
+    // OBV Divergence (accumulation / distribution)
+    if (analysis.obv && analysis.obv.signal !== "NEUTRAL") {
+        const isBuy = analysis.obv.signal === "BUY";
+        signals.push({
+            type: isBuy ? "BUY" : "SELL",
+            indicator: "OBV",
+            reason: isBuy
+                ? "OBV rising while price falls - accumulation"
+                : "OBV falling while price rises - distribution",
+            strength: "MEDIUM",
+            price: currentPrice,
+        });
+    }
+
+    // MFI Signals
+    if (analysis.mfi && analysis.mfi.signal !== "NEUTRAL") {
+        const isBuy = analysis.mfi.signal === "BUY";
+        signals.push({
+            type: isBuy ? "BUY" : "SELL",
+            indicator: "MFI",
+            reason: `MFI at ${analysis.mfi.current.toFixed(1)} - ${isBuy ? "Oversold money flow" : "Overbought money flow"}`,
+            strength: analysis.mfi.current < 10 || analysis.mfi.current > 90 ? "STRONG" : "MEDIUM",
+            price: currentPrice,
+        });
+    }
+
+    // Ichimoku Cloud
+    if (analysis.ichimoku && analysis.ichimoku.signal !== "NEUTRAL") {
+        const isBuy = analysis.ichimoku.signal === "BUY";
+        const freshCross = analysis.ichimoku.tkCross === (isBuy ? "BULLISH" : "BEARISH");
+        signals.push({
+            type: isBuy ? "BUY" : "SELL",
+            indicator: "Ichimoku",
+            reason: isBuy
+                ? `Price above the cloud with Tenkan > Kijun${freshCross ? " (fresh TK cross)" : ""}`
+                : `Price below the cloud with Tenkan < Kijun${freshCross ? " (fresh TK cross)" : ""}`,
+            strength: freshCross ? "STRONG" : "MEDIUM",
+            price: currentPrice,
+        });
+    }
+
+    // Supertrend Flip
+    if (analysis.supertrend && analysis.supertrend.flipped) {
+        const isBuy = analysis.supertrend.trend === "UP";
+        signals.push({
+            type: isBuy ? "BUY" : "SELL",
+            indicator: "Supertrend",
+            reason: `Supertrend flipped ${isBuy ? "bullish" : "bearish"} (stop ${analysis.supertrend.current.toFixed(0)})`,
+            strength: "STRONG",
+            price: currentPrice,
+        });
+    }
+
+    // Parabolic SAR Flip
+    if (analysis.parabolicSar && analysis.parabolicSar.flipped) {
+        const isBuy = analysis.parabolicSar.trend === "UP";
+        signals.push({
+            type: isBuy ? "BUY" : "SELL",
+            indicator: "Parabolic SAR",
+            reason: `SAR flipped ${isBuy ? "below" : "above"} price at ${analysis.parabolicSar.current.toFixed(0)}`,
+            strength: "WEAK",
+            price: currentPrice,
+        });
+    }
+
+    // Keltner Channel Breakout
+    if (analysis.keltner && analysis.keltner.signal !== "NEUTRAL") {
+        const isBuy = analysis.keltner.signal === "BUY";
+        signals.push({
+            type: isBuy ? "BUY" : "SELL",
+            indicator: "Keltner Channels",
+            reason: isBuy
+                ? "Close above upper Keltner Channel - momentum breakout"
+                : "Close below lower Keltner Channel - momentum breakdown",
+            strength: "MEDIUM",
+            price: currentPrice,
+        });
+    }
+
+    // Donchian Channel Breakout
+    if (analysis.donchian && analysis.donchian.signal !== "NEUTRAL") {
+        const isBuy = analysis.donchian.signal === "BUY";
+        signals.push({
+            type: isBuy ? "BUY" : "SELL",
+            indicator: "Donchian Channels",
+            reason: isBuy ? "Breakout above 20-bar high" : "Breakdown below 20-bar low",
+            strength: volumeAnalysis?.isSpike ? "STRONG" : "MEDIUM",
+            price: currentPrice,
+        });
+    }
+
+    // Candlestick Patterns (directional only; doji / inside bars are indecision)
+    const patternStrength: Record<PatternReliability, Signal["strength"]> = {
+        HIGH: "STRONG",
+        MEDIUM: "MEDIUM",
+        LOW: "WEAK",
+    };
+    for (const pattern of patterns) {
+        if (pattern.direction === "NEUTRAL") continue;
+        signals.push({
+            type: pattern.direction === "BULLISH" ? "BUY" : "SELL",
+            indicator: `Candlestick: ${pattern.label}`,
+            reason: `${pattern.label} ${pattern.barsAgo === 0 ? "on the latest bar" : `${pattern.barsAgo} bar(s) ago`}`,
+            strength: patternStrength[pattern.reliability],
+            price: currentPrice,
+        });
+    }
+
+    // Chart Pattern Breakouts (forming patterns are context, not signals)
+    for (const pattern of chartPatterns) {
+        if (pattern.status !== "BREAKOUT" || pattern.direction === "NEUTRAL") continue;
+        const isBuy = pattern.direction === "BULLISH";
+        signals.push({
+            type: isBuy ? "BUY" : "SELL",
+            indicator: `Chart: ${pattern.label}`,
+            reason: `${isBuy ? "Breakout above" : "Breakdown below"} ${pattern.breakoutLevel.toFixed(0)}, target ${pattern.target.toFixed(0)}`,
+            strength: volumeAnalysis?.isSpike ? "STRONG" : "MEDIUM",
+            price: currentPrice,
+        });
+    }
+
+    // Divergences (regular = reversal, hidden = trend continuation)
+    for (const divergence of divergences) {
+        signals.push({
+            type: divergence.direction === "BULLISH" ? "BUY" : "SELL",
+            indicator: `${divergence.indicator} Divergence`,
+            reason: `${divergence.label}${divergence.type === "REGULAR" ? " - possible reversal" : " - trend continuation"}`,
+            strength: divergence.strength,
+            price: currentPrice,
+        });
+    }
+
     // --- Trend Pullback Strategy (Phase 2) ---
     // Rule: Strong Uptrend (Price > EMA50) + RSI Healthy Dip (40-60) + Stochastic Bullish Cross
     if (analysis.ema50 && analysis.rsi && analysis.stochastic) {
@@ -449,14 +589,25 @@ function applyScalpingFilters(params: {
         }
     }
 
-    // --- 2. Time Filter (Liquidity Check) ---
-    // Avoid pre-lunch (11:30 - 13:30) and pre-close volatility/low volume
-    const now = new Date();
-    // Convert to WIB (UTC+7) roughly for server time check or assume server is local/UTC.
-    // Ideally use exchange time. For now, simple hour based check if running during market hours.
-    // If testing offline/weekend, this might block, so we'll make it soft or only apply if meaningful.
-    // SKIP implementation for now to avoid timezone complexities in this snippet without robust Timezone lib.
-    // Instead, we focus on technicals.
+    // --- 1.5 Time Filter (Session Check) ---
+    // No new scalping entries while the continuous market is not running
+    // (lunch break, pre-closing, after hours). Outside trading days the
+    // technical read is still shown, only softened.
+    const market = getMarketStatus();
+    if (recommendation.action !== "HOLD") {
+        if (market.phase === "LUNCH_BREAK") {
+            recommendation.reasoning.unshift(`Market on lunch break until ${formatJakartaTime(market.nextChangeAt)} WIB → HOLD`);
+            recommendation.action = "HOLD";
+            recommendation.confidence = Math.min(recommendation.confidence, 30);
+        } else if (market.phase === "PRE_CLOSING" || market.phase === "POST_TRADING") {
+            recommendation.reasoning.unshift(`${market.label}: too late for a scalping entry → HOLD`);
+            recommendation.action = "HOLD";
+            recommendation.confidence = Math.min(recommendation.confidence, 30);
+        } else if (!market.isContinuousTrading) {
+            recommendation.reasoning.push(`Market ${market.label.toLowerCase()} → signal is for the next session`);
+            recommendation.confidence = Math.min(recommendation.confidence, 50);
+        }
+    }
 
     // --- 2. Trend Bias Filter (5m) ---
     // Rule: BUY only if Price > EMA20 (5m) AND EMA20 is rising (optional, hard to check slope with single point, so Price > EMA20 is primary).
@@ -556,6 +707,42 @@ function applyScalpingFilters(params: {
     }
 }
 
+/**
+ * Record a BUY/SELL recommendation in the signal ledger so its forward
+ * returns can be evaluated. Stop and target are the nearest levels on either
+ * side of the price. Never fails the request.
+ */
+function recordSignal(params: {
+    symbol: string;
+    mode: SignalMode;
+    currentPrice: number;
+    recommendation: { action: string; confidence: number; reasoning: string[] };
+    signals: Signal[];
+    supportResistance: { support: number[]; resistance: number[] };
+}): void {
+    const { symbol, mode, currentPrice, recommendation, signals, supportResistance } = params;
+    if (recommendation.action === "HOLD") return;
+
+    const direction = recommendation.action.endsWith("BUY") ? "BUY" : "SELL";
+    // Levels are sorted nearest first
+    const below = supportResistance.support.find((p) => p < currentPrice) ?? null;
+    const above = supportResistance.resistance.find((p) => p > currentPrice) ?? null;
+
+    getSignalLedger().record({
+        source: "STOCK_API",
+        symbol,
+        mode,
+        direction,
+        action: recommendation.action,
+        price: currentPrice,
+        confidence: recommendation.confidence,
+        reasons: recommendation.reasoning,
+        indicators: [...new Set(signals.filter((s) => s.type === direction).map((s) => s.indicator))],
+        stopLoss: direction === "BUY" ? below : above,
+        target: direction === "BUY" ? above : below,
+    }).catch((error) => console.error("[Stock API] Failed to record signal:", error));
+}
+
 // ============================================================================
 // Main API Route Handler
 // ============================================================================
@@ -593,11 +780,10 @@ export async function POST(request: NextRequest) {
         console.log('[Stock API] Fetching symbol:', symbolWithSuffix);
 
         // Fetch quote and financials in parallel
+        const marketData = getMarketDataProvider();
         const [quote, quoteSummary] = await Promise.all([
-            yahooFinance.quote(symbolWithSuffix) as Promise<QuoteResult>,
-            yahooFinance.quoteSummary(symbolWithSuffix, {
-                modules: ['incomeStatementHistory', 'financialData', 'defaultKeyStatistics']
-            })
+            marketData.quote(symbolWithSuffix),
+            marketData.quoteSummary(symbolWithSuffix, ['incomeStatementHistory', 'financialData', 'defaultKeyStatistics'])
         ]);
 
         if (!quote || !quote.regularMarketPrice) {
@@ -660,6 +846,11 @@ export async function POST(request: NextRequest) {
                 return isValid;
             });
 
+        // Bar dates for the closes above (session-anchored VWAP)
+        const dates = historicalMain
+            .filter((q) => q.close !== null && q.close !== undefined && !isNaN(q.close) && q.close > 0)
+            .map((q) => q.date);
+
         const volumes = historicalMain
             .map((q) => q.volume)
             .filter((v): v is number => {
@@ -699,8 +890,8 @@ export async function POST(request: NextRequest) {
 
         if (closes.length >= 26) {
             try {
-                // Pass highs and lows for ADX/Stochastic calculations
-                analysis = performTechnicalAnalysis(closes, volumes, highs, lows);
+                // Pass highs and lows for ADX/Stochastic, dates for intraday VWAP
+                analysis = performTechnicalAnalysis(closes, volumes, highs, lows, dates);
                 console.log('[Stock API] ✓ Technical analysis completed:', {
                     rsi: analysis?.rsi?.current,
                     macdLine: analysis?.macd?.current?.macd,
@@ -752,10 +943,30 @@ export async function POST(request: NextRequest) {
 
         // Calculate ATR and support/resistance
         const atr = calculateATR(historicalMain);
-        const supportResistance = findSupportResistance(historicalMain);
+        const ohlcBars = toOHLCBars(historicalMain);
+        const candlestickPatterns = summarizeRecentPatterns(ohlcBars, 2);
+        const chartPatterns = summarizeChartPatterns(detectChartPatterns(ohlcBars));
+        const divergences = summarizeQuoteDivergences(historicalMain);
 
         // Generate signals and recommendation
         const currentPrice = quote.regularMarketPrice;
+
+        // Volume profile from intraday candles (5m for scalping, 1h for swing), AVWAPs from the main series
+        let profileQuotes: HistoricalQuote[] = historical5m;
+        if (!isScalping) {
+            try {
+                profileQuotes = await fetchChart(symbolWithSuffix, "1h", 30);
+            } catch (profileError: unknown) {
+                const profileErrorMessage = profileError instanceof Error ? profileError.message : 'Unknown error';
+                console.warn('[Stock API] Intraday candles for volume profile unavailable:', profileErrorMessage);
+            }
+        }
+        const volumeLevels = analyzeVolumeLevels(
+            toVolumeBars(profileQuotes.length >= 20 ? profileQuotes : historicalMain),
+            currentPrice,
+            toVolumeBars(historicalMain)
+        );
+        const supportResistance = mergeVolumeLevels(findSupportResistance(historicalMain), volumeLevels, currentPrice);
         let signals: Signal[] = [];
         let recommendation: {
             action: "STRONG_BUY" | "BUY" | "HOLD" | "SELL" | "STRONG_SELL";
@@ -768,7 +979,7 @@ export async function POST(request: NextRequest) {
         };
 
         if (analysis) {
-            signals = generateSignals(analysis, currentPrice, volumeAnalysisResult);
+            signals = generateSignals(analysis, currentPrice, volumeAnalysisResult, candlestickPatterns, chartPatterns, divergences);
             recommendation = generateRecommendation(signals, analysis);
 
             // Scalping-specific accuracy boosts:
@@ -893,8 +1104,49 @@ export async function POST(request: NextRequest) {
                     d: analysis.stochastic.current.d,
                     signal: analysis.stochastic.signal
                 } : null,
+                vwap: analysis?.vwap ? {
+                    value: analysis.vwap.current,
+                    distancePercent: analysis.vwap.distancePercent,
+                    position: analysis.vwap.position
+                } : null,
+                obv: analysis?.obv ? {
+                    value: analysis.obv.current,
+                    trend: analysis.obv.trend,
+                    divergence: analysis.obv.divergence
+                } : null,
+                mfi: analysis?.mfi ? {
+                    value: analysis.mfi.current,
+                    interpretation: analysis.mfi.current < 20 ? "OVERSOLD" as const :
+                        analysis.mfi.current > 80 ? "OVERBOUGHT" as const : "NEUTRAL" as const
+                } : null,
+                ichimoku: analysis?.ichimoku ? {
+                    ...analysis.ichimoku.current,
+                    cloudPosition: analysis.ichimoku.cloudPosition,
+                    tkCross: analysis.ichimoku.tkCross
+                } : null,
+                supertrend: analysis?.supertrend ? {
+                    value: analysis.supertrend.current,
+                    trend: analysis.supertrend.trend,
+                    flipped: analysis.supertrend.flipped
+                } : null,
+                parabolicSar: analysis?.parabolicSar ? {
+                    value: analysis.parabolicSar.current,
+                    trend: analysis.parabolicSar.trend,
+                    flipped: analysis.parabolicSar.flipped
+                } : null,
+                keltner: analysis?.keltner ? {
+                    ...analysis.keltner.current,
+                    position: analysis.keltner.position
+                } : null,
+                donchian: analysis?.donchian ? {
+                    ...analysis.donchian.current,
+                    position: analysis.donchian.position
+                } : null,
             },
             signals,
+            candlestickPatterns,
+            chartPatterns,
+            divergences,
             supportResistance,
             atr,
             recommendation,
@@ -911,6 +1163,14 @@ export async function POST(request: NextRequest) {
 
         // Update cache
         cache.set(cacheKey, { data: response, timestamp: Date.now() });
+        recordSignal({
+            symbol: normalizedSymbol,
+            mode: isScalping ? "scalping" : "swing",
+            currentPrice,
+            recommendation,
+            signals,
+            supportResistance,
+        });
 
         console.log('[Stock API] ✓ Response ready for:', normalizedSymbol, {
             hasRSI: !!response.indicators.rsi,
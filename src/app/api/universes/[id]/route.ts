@@ -0,0 +1,41 @@
+/**
+ * Stock Universe API Endpoint
+ *
+ * Route: GET    /api/universes/:id   → symbols with names and sectors
+ *                                      (`LQ45@2025-02` pins a version, `?asOf=YYYY-MM-DD`
+ *                                      picks the version in force on that day)
+ * Route: DELETE /api/universes/:id   → remove a custom list
+ *
+ * @module app/api/universes/[id]
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getCompany, removeCustomUniverse, resolveUniverse } from "@/backend/data/universeRegistry";
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const { id } = await params;
+    try {
+        const universe = await resolveUniverse(decodeURIComponent(id), {
+            asOf: request.nextUrl.searchParams.get("asOf") ?? undefined,
+        });
+        const companies = universe.symbols.map((symbol) => getCompany(symbol) ?? { symbol, name: null, sector: null });
+        return NextResponse.json({ success: true, universe: { ...universe, companies } });
+    } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        return NextResponse.json({ error: "Universe not found", details: message }, { status: 404 });
+    }
+}
+
+export async function DELETE(
+    _request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const { id } = await params;
+    if (!(await removeCustomUniverse(decodeURIComponent(id)))) {
+        return NextResponse.json({ error: "Custom universe not found" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+}
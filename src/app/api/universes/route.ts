@@ -0,0 +1,32 @@
+/**
+ * Stock Universes API Endpoint
+ *
+ * Route: GET  /api/universes   → every universe a screener can scan
+ * Route: POST /api/universes   → save a custom list (insert, or update by id)
+ * Body:  { id?: string, name: string, description?: string, symbols: string[], author?: string }
+ *
+ * @module app/api/universes
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { listUniverses, saveCustomUniverse } from "@/backend/data/universeRegistry";
+import type { CustomUniverseDefinition } from "@/backend/data/universeStore";
+
+export async function GET() {
+    try {
+        return NextResponse.json({ success: true, universes: await listUniverses() });
+    } catch (error: unknown) {
+        console.error("[Universe] Failed to list universes:", error);
+        return NextResponse.json({ error: "Failed to load universes" }, { status: 500 });
+    }
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const definition: CustomUniverseDefinition = await request.json();
+        return NextResponse.json({ success: true, universe: await saveCustomUniverse(definition) });
+    } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        return NextResponse.json({ error: "Failed to save universe", details: message }, { status: 400 });
+    }
+}
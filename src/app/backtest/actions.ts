@@ -1,34 +1,211 @@
 "use server";
 
-import { runBacktest, type BacktestResult } from "@/backend/analysis/backtesting";
+import {
+    runBacktest,
+    type BacktestResult,
+    type RunBacktestOptions,
+    type StrategyType,
+} from "@/backend/analysis/backtesting";
+import {
+    runOptimization,
+    type OptimizationOptions,
+    type OptimizationReport,
+    type WalkForwardOptions,
+} from "@/backend/analysis/optimization";
+import {
+    runPortfolioBacktest,
+    type PortfolioBacktestResult,
+    type PortfolioConfig,
+} from "@/backend/analysis/portfolioBacktest";
+import {
+    formatRunAsCsv,
+    getRunHistoryStore,
+    type BacktestRun,
+    type BacktestRunSummary,
+} from "@/backend/data/runHistoryStore";
+import { evaluatePendingSignals, summarizeSignals, type SignalPerformance } from "@/backend/analysis/signalEvaluation";
+import { getSignalLedger, type SignalHorizon } from "@/backend/data/signalLedger";
+import { getStrategyStore, type SavedStrategy } from "@/backend/data/strategyStore";
+import { runBPJSReplay, type BPJSReplayConfig, type BPJSReplayResult } from "@/lib/bpjs/replay";
+import { getAllSymbols } from "@/lib/bpjs/universe";
+import { runSwingReplay, type SwingReplayConfig, type SwingReplayResult } from "@/lib/swing/replay";
+import { isBuiltInStrategy, validateStrategySpec, type StrategySpec } from "@/shared/strategySpec";
 
+/**
+ * Built-in id, saved strategy id or unsaved builder spec → runnable strategy.
+ */
+async function resolveStrategy(strategy: string | StrategySpec): Promise<StrategyType | StrategySpec> {
+    if (typeof strategy === "string") {
+        if (isBuiltInStrategy(strategy)) return strategy;
+        const saved = await getStrategyStore().get(strategy);
+        if (!saved) throw new Error("Invalid strategy selected");
+        return saved.spec;
+    }
+
+    const errors = validateStrategySpec(strategy);
+    if (errors.length > 0) throw new Error(`Invalid strategy: ${errors.join("; ")}`);
+    return strategy;
+}
+
+/**
+ * Run a backtest for a built-in strategy id, a saved strategy id or an
+ * unsaved custom spec straight from the builder, optionally with a specific
+ * execution model, intraday bar size and BPJS rules. Every run is added to
+ * the run history.
+ */
 export async function executeBacktest(
     symbol: string,
-    strategy: string,
-    days: number
+    strategy: string | StrategySpec,
+    days: number,
+    options: RunBacktestOptions = {}
 ): Promise<BacktestResult> {
-    // Validate Strategy
-    const validStrategies = ["RSI", "MACD", "BOLLINGER", "MULTI"];
-    if (!validStrategies.includes(strategy)) {
-        throw new Error("Invalid strategy selected");
-    }
+    const spec = await resolveStrategy(strategy);
 
-    // Determine mode based on days (heuristic)
-    // Shorter periods usually imply scalping intent, longer swing intent
-    // This mostly affects how `runBacktest` might set defaults if customDays wasn't used,
-    // but since we pass customDays, it's less critical.
-    const mode = days <= 30 ? "scalping" : "swing";
+    // Intraday bars are a scalping test; daily bars a swing test
+    const interval = options.interval ?? "1d";
+    const mode = interval === "1d" ? "swing" : "scalping";
 
+    let result: BacktestResult;
     try {
-        const result = await runBacktest(
-            symbol,
-            strategy as "RSI" | "MACD" | "BOLLINGER" | "MULTI",
-            mode,
-            days
-        );
-        return result;
+        result = await runBacktest(symbol, spec, mode, days, { ...options, interval });
     } catch (error) {
         console.error("Backtest failed:", error);
         throw new Error(error instanceof Error ? error.message : "Backtest execution failed");
     }
+
+    // A failed save must not cost the user the result
+    try {
+        await getRunHistoryStore().save({ days, interval, bpjs: options.bpjs === true }, result);
+    } catch (error) {
+        console.error("Failed to save backtest run:", error);
+    }
+    return result;
+}
+
+/**
+ * Optimize a strategy's parameters, optionally with walk-forward validation.
+ */
+export async function executeOptimization(
+    symbol: string,
+    strategy: string | StrategySpec,
+    days: number,
+    options: OptimizationOptions,
+    walkForward?: WalkForwardOptions
+): Promise<OptimizationReport> {
+    const spec = await resolveStrategy(strategy);
+
+    try {
+        return await runOptimization(symbol, spec, days, options, walkForward);
+    } catch (error) {
+        console.error("Optimization failed:", error);
+        throw new Error(error instanceof Error ? error.message : "Optimization failed");
+    }
+}
+
+/**
+ * Run a strategy across several symbols with shared capital. Without a
+ * symbol list the BPJS universe is used.
+ */
+export async function executePortfolioBacktest(
+    strategy: string | StrategySpec,
+    symbols: string[] | null,
+    days: number,
+    config: PortfolioConfig
+): Promise<PortfolioBacktestResult> {
+    const spec = await resolveStrategy(strategy);
+
+    try {
+        return await runPortfolioBacktest(spec, symbols ?? getAllSymbols(), days, config);
+    } catch (error) {
+        console.error("Portfolio backtest failed:", error);
+        throw new Error(error instanceof Error ? error.message : "Portfolio backtest failed");
+    }
+}
+
+/**
+ * Replay the BPJS score over past days: hit rate and return by score bucket
+ * and by breakdown component, plus the top-N picks as a portfolio.
+ */
+export async function executeBPJSReplay(config: Partial<BPJSReplayConfig>): Promise<BPJSReplayResult> {
+    try {
+        return await runBPJSReplay(config);
+    } catch (error) {
+        console.error("BPJS replay failed:", error);
+        throw new Error(error instanceof Error ? error.message : "BPJS replay failed");
+    }
+}
+
+/**
+ * Replay the swing screener over past dates and track each qualified
+ * signal's targets and stop.
+ */
+export async function executeSwingReplay(config: Partial<SwingReplayConfig>): Promise<SwingReplayResult> {
+    try {
+        return await runSwingReplay(config);
+    } catch (error) {
+        console.error("Swing replay failed:", error);
+        throw new Error(error instanceof Error ? error.message : "Swing replay failed");
+    }
+}
+
+export async function listSavedStrategies(): Promise<SavedStrategy[]> {
+    return getStrategyStore().list();
+}
+
+export async function saveStrategy(spec: StrategySpec): Promise<SavedStrategy> {
+    return getStrategyStore().save(spec);
+}
+
+export async function deleteStrategy(id: string): Promise<boolean> {
+    return getStrategyStore().remove(id);
+}
+
+export async function listBacktestRuns(): Promise<BacktestRunSummary[]> {
+    return getRunHistoryStore().list();
+}
+
+export async function getBacktestRun(id: string): Promise<BacktestRun | null> {
+    return getRunHistoryStore().get(id);
+}
+
+export async function deleteBacktestRun(id: string): Promise<boolean> {
+    return getRunHistoryStore().remove(id);
+}
+
+/**
+ * A saved run as a downloadable file: CSV (metrics, trades, equity curve) or
+ * the full JSON record.
+ */
+export async function exportBacktestRun(
+    id: string,
+    format: "csv" | "json"
+): Promise<{ filename: string; content: string } | null> {
+    const run = await getRunHistoryStore().get(id);
+    if (!run) return null;
+    return {
+        filename: `backtest-${run.id}.${format}`,
+        content: format === "csv" ? formatRunAsCsv(run) : JSON.stringify(run, null, 2),
+    };
+}
+
+/**
+ * Hit rate and forward return of every recorded signal at one horizon, by
+ * source, indicator, confidence bucket and mode.
+ */
+export async function getSignalPerformance(horizon: SignalHorizon): Promise<SignalPerformance> {
+    return summarizeSignals(await getSignalLedger().list(), horizon);
+}
+
+/**
+ * Evaluate pending signals now instead of waiting for the background run.
+ *
+ * @returns Number of signals evaluated
+ */
+export async function evaluateSignalsNow(): Promise<number> {
+    try {
+        return await evaluatePendingSignals();
+    } catch (error) {
+        console.error("Signal evaluation failed:", error);
+        throw new Error(error instanceof Error ? error.message : "Signal evaluation failed");
+    }
 }
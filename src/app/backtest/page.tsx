@@ -1,29 +1,172 @@
 "use client";
 
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { toast } from "sonner";
-import { executeBacktest } from "./actions";
+import { deleteStrategy, executeBacktest, listSavedStrategies, saveStrategy } from "./actions";
 import { BacktestResults } from "@/frontend/components/BacktestResults";
+import { BacktestHistoryPanel } from "@/frontend/components/BacktestHistoryPanel";
+import { StrategyBuilder } from "@/frontend/components/StrategyBuilder";
+import { OptimizationPanel } from "@/frontend/components/OptimizationPanel";
+import { PortfolioBacktestPanel } from "@/frontend/components/PortfolioBacktestPanel";
+import { BPJSReplayPanel } from "@/frontend/components/BPJSReplayPanel";
+import { SwingReplayPanel } from "@/frontend/components/SwingReplayPanel";
+import { SignalPerformancePanel } from "@/frontend/components/SignalPerformancePanel";
 import { type BacktestResult } from "@/backend/analysis/backtesting";
+import { type SavedStrategy } from "@/backend/data/strategyStore";
+import {
+    BUILT_IN_STRATEGIES,
+    isBuiltInStrategy,
+    resolveParam,
+    type ParamValue,
+    type StrategySpec,
+} from "@/shared/strategySpec";
+import {
+    DEFAULT_EXECUTION_MODEL,
+    EXECUTION_MODELS,
+    describeExecutionModel,
+    type ExecutionModelId,
+} from "@/shared/executionModel";
+import {
+    BACKTEST_TIMEFRAMES,
+    isIntradayInterval,
+    type BacktestInterval,
+} from "@/shared/backtestTimeframes";
 import {
     Play,
     RefreshCw,
     Info,
     History,
     TrendingUp,
-    AlertTriangle
+    AlertTriangle,
+    Save,
+    Pencil,
+    Trash2
 } from "lucide-react";
 
+/** Strategy selector value for the unsaved spec in the builder */
+const CUSTOM_STRATEGY = "__custom__";
+
+const NEW_CUSTOM_SPEC: StrategySpec = {
+    name: "My Strategy",
+    parameters: { oversold: 30, overbought: 70 },
+    entry: { left: { indicator: "RSI", params: { period: 14 } }, op: "<", right: { param: "oversold" } },
+    exit: { left: { indicator: "RSI", params: { period: 14 } }, op: ">", right: { param: "overbought" } },
+    risk: { stopLossPercent: 2 },
+    sizing: { type: "PERCENT_EQUITY", percent: 95 },
+};
+
+/** Lookback choices per bar size (intraday history is limited) */
+const PERIOD_OPTIONS: Record<BacktestInterval, { days: number; label: string }[]> = {
+    "1d": [
+        { days: 30, label: "Last 30 Days (1 Month)" },
+        { days: 60, label: "Last 60 Days (2 Months)" },
+        { days: 90, label: "Last 90 Days (3 Months)" },
+        { days: 180, label: "Last 180 Days (6 Months)" },
+        { days: 365, label: "Last 365 Days (1 Year)" },
+    ],
+    "15m": [
+        { days: 14, label: "Last 14 Days" },
+        { days: 30, label: "Last 30 Days" },
+        { days: 59, label: "Last 59 Days (max)" },
+    ],
+    "5m": [
+        { days: 14, label: "Last 14 Days" },
+        { days: 30, label: "Last 30 Days" },
+        { days: 59, label: "Last 59 Days (max)" },
+    ],
+    "1m": [
+        { days: 3, label: "Last 3 Days" },
+        { days: 7, label: "Last 7 Days (max)" },
+    ],
+};
+
+/** Short "2%" style text for a risk rule, or null when the rule is not set */
+function describeRiskValue(spec: StrategySpec, value: ParamValue | undefined): string | null {
+    if (value === undefined) return null;
+    try {
+        return `${resolveParam(value, spec.parameters)}%`;
+    } catch {
+        return null;
+    }
+}
+
 export default function BacktestPage() {
     // Form State
     const [symbol, setSymbol] = useState("");
     const [strategy, setStrategy] = useState("RSI");
     const [period, setPeriod] = useState(30);
+    const [timeframe, setTimeframe] = useState<BacktestInterval>("1d");
+    const [bpjs, setBpjs] = useState(false);
+    const [compareLq45, setCompareLq45] = useState(false);
+    const [executionModel, setExecutionModel] = useState<ExecutionModelId>(DEFAULT_EXECUTION_MODEL);
+    const [customSpec, setCustomSpec] = useState<StrategySpec>(NEW_CUSTOM_SPEC);
+    const [savedStrategies, setSavedStrategies] = useState<SavedStrategy[]>([]);
 
     // Execution State
     const [backtestResults, setBacktestResults] = useState<BacktestResult | null>(null);
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    /** Bumped after each run so the history list picks up the saved run */
+    const [historyKey, setHistoryKey] = useState(0);
+
+    // Load saved strategies once
+    useEffect(() => {
+        listSavedStrategies()
+            .then(setSavedStrategies)
+            .catch((err) => console.error("Failed to load saved strategies:", err));
+    }, []);
+
+    const savedSelection = savedStrategies.find((s) => s.id === strategy);
+    const activeSpec: StrategySpec =
+        strategy === CUSTOM_STRATEGY
+            ? customSpec
+            : isBuiltInStrategy(strategy)
+                ? BUILT_IN_STRATEGIES[strategy]
+                : savedSelection?.spec ?? customSpec;
+
+    // Auto-append .JK if missing (UX helper)
+    const processedSymbol = !symbol
+        ? ""
+        : symbol.toUpperCase().endsWith(".JK") || symbol.includes(".")
+            ? symbol.toUpperCase()
+            : `${symbol.toUpperCase()}.JK`;
+
+    const handleTimeframeChange = (next: BacktestInterval) => {
+        setTimeframe(next);
+        // Keep the lookback when the new bar size offers it, else take its longest
+        const options = PERIOD_OPTIONS[next];
+        if (!options.some((o) => o.days === period)) setPeriod(options[options.length - 1].days);
+        if (!isIntradayInterval(next)) setBpjs(false);
+    };
+
+    const handleEditStrategy = (spec: StrategySpec) => {
+        // Built-in specs keep their id reserved; saving an edit creates a new strategy
+        const { id, ...rest } = spec;
+        setCustomSpec(id && isBuiltInStrategy(id) ? { ...rest, name: `${spec.name} (custom)` } : spec);
+        setStrategy(CUSTOM_STRATEGY);
+    };
+
+    const handleSaveStrategy = async () => {
+        try {
+            const saved = await saveStrategy(customSpec);
+            setSavedStrategies((prev) => [saved, ...prev.filter((s) => s.id !== saved.id)]);
+            setCustomSpec(saved.spec);
+            toast.success(`Saved "${saved.spec.name}"`);
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : "Failed to save strategy");
+        }
+    };
+
+    const handleDeleteStrategy = async (id: string) => {
+        try {
+            await deleteStrategy(id);
+            setSavedStrategies((prev) => prev.filter((s) => s.id !== id));
+            setStrategy("RSI");
+            toast.success("Strategy deleted");
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : "Failed to delete strategy");
+        }
+    };
 
     const handleRunBacktest = async (e: React.FormEvent) => {
         e.preventDefault();
@@ -33,21 +176,29 @@ export default function BacktestPage() {
             return;
         }
 
-        // Auto-append .JK if missing (UX helper)
-        const processedSymbol = symbol.toUpperCase().endsWith(".JK")
-            ? symbol.toUpperCase()
-            : symbol.includes(".") ? symbol.toUpperCase() : `${symbol.toUpperCase()}.JK`;
-
         setIsLoading(true);
         setBacktestResults(null);
         setError(null);
 
         // Display loading toast
-        const loadingToast = toast.loading(`Testing ${strategy} on ${processedSymbol} (${period} days)...`);
+        const loadingToast = toast.loading(
+            `Testing ${activeSpec.name} on ${processedSymbol} (${period} days, ${BACKTEST_TIMEFRAMES[timeframe].label.toLowerCase()} bars)...`
+        );
 
         try {
-            const result = await executeBacktest(processedSymbol, strategy, period);
+            const result = await executeBacktest(
+                processedSymbol,
+                strategy === CUSTOM_STRATEGY ? customSpec : strategy,
+                period,
+                {
+                    execution: EXECUTION_MODELS[executionModel],
+                    interval: timeframe,
+                    bpjs,
+                    benchmarks: compareLq45 ? ["IHSG", "LQ45"] : ["IHSG"],
+                }
+            );
             setBacktestResults(result);
+            setHistoryKey((key) => key + 1);
             toast.success("Backtest completed successfully", { id: loadingToast });
         } catch (err) {
             const message = err instanceof Error ? err.message : "Backtest failed";
@@ -121,11 +272,89 @@ export default function BacktestPage() {
                                         onChange={(e) => setStrategy(e.target.value)}
                                         disabled={isLoading}
                                     >
-                                        <option value="RSI">RSI Reversal (30/70)</option>
-                                        <option value="MACD">MACD Crossover</option>
-                                        <option value="BOLLINGER">Bollinger Bounce</option>
-                                        <option value="MULTI">Multi-Indicator Confluence</option>
+                                        <optgroup label="Built-in">
+                                            {Object.values(BUILT_IN_STRATEGIES).map((spec) => (
+                                                <option key={spec.id} value={spec.id}>{spec.description ?? spec.name}</option>
+                                            ))}
+                                        </optgroup>
+                                        {savedStrategies.length > 0 && (
+                                            <optgroup label="Saved">
+                                                {savedStrategies.map((s) => (
+                                                    <option key={s.id} value={s.id}>{s.spec.name}</option>
+                                                ))}
+                                            </optgroup>
+                                        )}
+                                        <option value={CUSTOM_STRATEGY}>Custom (builder)…</option>
+                                    </select>
+                                    <div className="flex items-center gap-3 text-xs">
+                                        {strategy !== CUSTOM_STRATEGY && (
+                                            <button
+                                                type="button"
+                                                onClick={() => handleEditStrategy(activeSpec)}
+                                                disabled={isLoading}
+                                                className="flex items-center gap-1 text-primary hover:text-primary/80 disabled:opacity-50"
+                                            >
+                                                <Pencil className="w-3 h-3" /> Edit as custom
+                                            </button>
+                                        )}
+                                        {savedSelection && (
+                                            <button
+                                                type="button"
+                                                onClick={() => handleDeleteStrategy(savedSelection.id)}
+                                                disabled={isLoading}
+                                                className="flex items-center gap-1 text-red-400 hover:text-red-300 disabled:opacity-50"
+                                            >
+                                                <Trash2 className="w-3 h-3" /> Delete
+                                            </button>
+                                        )}
+                                    </div>
+                                </div>
+
+                                {/* Strategy Builder */}
+                                {strategy === CUSTOM_STRATEGY && (
+                                    <div className="space-y-3 border border-border/10 rounded-lg p-3 bg-background/20">
+                                        <StrategyBuilder spec={customSpec} onChange={setCustomSpec} disabled={isLoading} />
+                                        <button
+                                            type="button"
+                                            onClick={handleSaveStrategy}
+                                            disabled={isLoading}
+                                            className="w-full text-xs font-medium border border-primary/30 text-primary hover:bg-primary/10 rounded-md py-2 flex items-center justify-center gap-1 disabled:opacity-50"
+                                        >
+                                            <Save className="w-3 h-3" /> {customSpec.id ? "Update Saved Strategy" : "Save Strategy"}
+                                        </button>
+                                    </div>
+                                )}
+
+                                {/* Timeframe Selector */}
+                                <div className="space-y-2">
+                                    <label className="text-xs font-bold uppercase text-muted-foreground tracking-wider block">Timeframe</label>
+                                    <select
+                                        className="w-full bg-background/50 border border-border/20 rounded-lg px-4 py-3 text-white focus:border-primary focus:ring-1 focus:ring-primary outline-none transition-all appearance-none"
+                                        value={timeframe}
+                                        onChange={(e) => handleTimeframeChange(e.target.value as BacktestInterval)}
+                                        disabled={isLoading}
+                                    >
+                                        {(Object.keys(BACKTEST_TIMEFRAMES) as BacktestInterval[]).map((id) => (
+                                            <option key={id} value={id}>{BACKTEST_TIMEFRAMES[id].label}</option>
+                                        ))}
                                     </select>
+                                    {isIntradayInterval(timeframe) && (
+                                        <>
+                                            <p className="text-xs text-muted-foreground">
+                                                Trades only during sessions 1 and 2 and closes every position at the end of the day.
+                                            </p>
+                                            <label className="flex items-center gap-2 text-xs text-white">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={bpjs}
+                                                    onChange={(e) => setBpjs(e.target.checked)}
+                                                    disabled={isLoading}
+                                                    className="accent-primary"
+                                                />
+                                                BPJS: buy in the morning session, sell by the close
+                                            </label>
+                                        </>
+                                    )}
                                 </div>
 
                                 {/* Period Selector */}
@@ -137,14 +366,40 @@ export default function BacktestPage() {
                                         onChange={(e) => setPeriod(Number(e.target.value))}
                                         disabled={isLoading}
                                     >
-                                        <option value={30}>Last 30 Days (1 Month)</option>
-                                        <option value={60}>Last 60 Days (2 Months)</option>
-                                        <option value={90}>Last 90 Days (3 Months)</option>
-                                        <option value={180}>Last 180 Days (6 Months)</option>
-                                        <option value={365}>Last 365 Days (1 Year)</option>
+                                        {PERIOD_OPTIONS[timeframe].map((o) => (
+                                            <option key={o.days} value={o.days}>{o.label}</option>
+                                        ))}
                                     </select>
                                 </div>
 
+                                {/* Execution Model */}
+                                <div className="space-y-2">
+                                    <label className="text-xs font-bold uppercase text-muted-foreground tracking-wider block">Execution Model</label>
+                                    <select
+                                        className="w-full bg-background/50 border border-border/20 rounded-lg px-4 py-3 text-white focus:border-primary focus:ring-1 focus:ring-primary outline-none transition-all appearance-none"
+                                        value={executionModel}
+                                        onChange={(e) => setExecutionModel(e.target.value as ExecutionModelId)}
+                                        disabled={isLoading}
+                                    >
+                                        {(Object.keys(EXECUTION_MODELS) as ExecutionModelId[]).map((id) => (
+                                            <option key={id} value={id}>{EXECUTION_MODELS[id].name}</option>
+                                        ))}
+                                    </select>
+                                    <p className="text-xs text-muted-foreground">{describeExecutionModel(EXECUTION_MODELS[executionModel])}</p>
+                                </div>
+
+                                {/* Benchmarks */}
+                                <label className="flex items-center gap-2 text-xs text-white">
+                                    <input
+                                        type="checkbox"
+                                        checked={compareLq45}
+                                        onChange={(e) => setCompareLq45(e.target.checked)}
+                                        disabled={isLoading}
+                                        className="accent-primary"
+                                    />
+                                    Compare with LQ45 as well as IHSG
+                                </label>
+
                                 <div className="pt-4">
                                     <button
                                         type="submit"
@@ -174,9 +429,25 @@ export default function BacktestPage() {
                             </h3>
                             <ul className="text-xs space-y-2 text-muted-foreground list-disc pl-4">
                                 <li>Initial Capital: <span className="text-foreground font-mono">Rp 100.000.000</span></li>
-                                <li>Position Size: <span className="text-foreground font-mono">95%</span> of equity</li>
+                                <li>Position Size: <span className="text-foreground font-mono">{
+                                    activeSpec.sizing?.type === "FIXED_AMOUNT" ? "Fixed amount"
+                                        : activeSpec.sizing?.type === "RISK_PERCENT" ? `${describeRiskValue(activeSpec, activeSpec.sizing.riskPercent)} risk`
+                                            : describeRiskValue(activeSpec, activeSpec.sizing?.percent) ?? "95%"
+                                }</span> of equity</li>
                                 <li>Trading Fees: <span className="text-foreground font-mono">0.15%</span> Buy, <span className="text-foreground font-mono">0.25%</span> Sell</li>
-                                <li>Stop Loss: <span className="text-foreground font-mono">2%</span> fixed</li>
+                                <li>Stop Loss: <span className="text-foreground font-mono">{describeRiskValue(activeSpec, activeSpec.risk?.stopLossPercent) ?? (activeSpec.risk?.atrStop ? "ATR-based" : "None")}</span></li>
+                                {activeSpec.risk?.takeProfitPercent !== undefined && (
+                                    <li>Take Profit: <span className="text-foreground font-mono">{describeRiskValue(activeSpec, activeSpec.risk.takeProfitPercent)}</span></li>
+                                )}
+                                {activeSpec.risk?.trailingStopPercent !== undefined && (
+                                    <li>Trailing Stop: <span className="text-foreground font-mono">{describeRiskValue(activeSpec, activeSpec.risk.trailingStopPercent)}</span></li>
+                                )}
+                                {activeSpec.risk?.takeProfitLevels && (
+                                    <li>Scale-Out: <span className="text-foreground font-mono">{activeSpec.risk.takeProfitLevels.length} targets</span>{activeSpec.risk.breakEvenAfterFirstTarget && ", breakeven after TP1"}</li>
+                                )}
+                                {activeSpec.risk?.atrTrailingStop && <li>ATR Trailing Stop</li>}
+                                {activeSpec.risk?.chandelierStop && <li>Chandelier Stop</li>}
+                                {activeSpec.risk?.timeStop && <li>Time Stop</li>}
                             </ul>
                         </div>
 
@@ -191,8 +462,14 @@ export default function BacktestPage() {
                             <div className="animate-in fade-in slide-in-from-bottom-4 duration-500 space-y-6">
                                 <BacktestResults results={backtestResults} />
 
-                                <div className="flex justify-end pt-4">
+                                <div className="flex justify-end items-center gap-4 pt-4">
                                     <p className="text-gray-400">&quot;Time in the market beats timing the market&quot; - but testing your strategy first beats losing money.</p>
+                                    <button
+                                        onClick={() => handleEditStrategy(backtestResults.spec)}
+                                        className="text-sm font-medium text-primary hover:text-primary/80 transition-colors"
+                                    >
+                                        Edit Strategy
+                                    </button>
                                     <button
                                         onClick={handleClear}
                                         className="text-sm font-medium text-muted-foreground hover:text-white transition-colors"
@@ -219,6 +496,35 @@ export default function BacktestPage() {
                         )}
                     </div>
                 </div>
+
+                <BacktestHistoryPanel
+                    refreshKey={historyKey}
+                    onOpen={(result) => {
+                        setBacktestResults(result);
+                        setError(null);
+                    }}
+                />
+
+                {/* Optimization: remounts when the strategy or its parameter set changes */}
+                <OptimizationPanel
+                    key={`${strategy}:${activeSpec.name}:${Object.keys(activeSpec.parameters ?? {}).join(",")}`}
+                    symbol={processedSymbol}
+                    strategy={strategy === CUSTOM_STRATEGY ? customSpec : strategy}
+                    spec={activeSpec}
+                    execution={EXECUTION_MODELS[executionModel]}
+                />
+
+                <PortfolioBacktestPanel
+                    strategy={strategy === CUSTOM_STRATEGY ? customSpec : strategy}
+                    spec={activeSpec}
+                    execution={EXECUTION_MODELS[executionModel]}
+                />
+
+                <BPJSReplayPanel execution={EXECUTION_MODELS[executionModel]} />
+
+                <SwingReplayPanel />
+
+                <SignalPerformancePanel />
             </div>
         </div>
     );
@@ -18,11 +18,13 @@ import type { MultiTimeframeAnalysis } from "@/backend/analysis/multiTimeframe";
 import { SettingsDialog } from "@/frontend/components/SettingsDialog";
 import { StockSearch } from "@/frontend/components/StockSearch";
 import { REFRESH_INTERVAL } from "@/shared/constants";
+import { getMarketStatus } from "@/shared/marketClock";
 import { ScalpingScreener } from "@/frontend/components/ScalpingScreener";
 import { AnimatedTabs } from "@/frontend/components/AnimatedTabs"; // New Import
 import { AnimatedNumber, AnimatedPriceChange } from "@/frontend/components/AnimatedNumber"; // New Import
 import { FinancialsPanel } from "@/frontend/components/FinancialsPanel"; // New Import
 import { SwingScreener } from "@/frontend/components/SwingScreener";
+import { CustomScreener } from "@/frontend/components/CustomScreener";
 
 export default function Home() {
     const [tradingMode, setTradingMode] = useState<TradingMode | null>(null);
@@ -154,7 +156,11 @@ export default function Home() {
         if (!activeSymbol || !tradingMode) return;
         const interval = tradingMode === "SCALPING" ? REFRESH_INTERVAL.SCALPING : tradingMode === "SWING" ? REFRESH_INTERVAL.SWING : 0;
         if (interval === 0) return;
-        refreshTimerRef.current = setInterval(() => loadStock(activeSymbol, true), interval);
+        refreshTimerRef.current = setInterval(() => {
+            // Prices don't move outside the session (or during the break); skip the fetch
+            if (!getMarketStatus().isActive) return;
+            loadStock(activeSymbol, true);
+        }, interval);
         return () => {
             if (refreshTimerRef.current) {
                 clearInterval(refreshTimerRef.current);
@@ -188,6 +194,7 @@ export default function Home() {
                     </div>
                 </div>
                 <ScalpingScreener onSelectStock={loadStock} />
+                <CustomScreener onSelectStock={loadStock} />
             </main>
         );
     }
@@ -207,6 +214,7 @@ export default function Home() {
                     </div>
                 </div>
                 <SwingScreener />
+                <CustomScreener onSelectStock={loadStock} />
             </main>
         );
     }
@@ -349,6 +357,8 @@ export default function Home() {
                                         <TechnicalIndicatorsPanel
                                             indicators={enhancedData?.indicators || null}
                                             currentPrice={enhancedData?.quote.price || 0}
+                                            volumeProfile={enhancedData?.supportResistance.volumeProfile}
+                                            anchoredVwaps={enhancedData?.supportResistance.anchoredVwaps}
                                             error={error}
                                             isLoading={isLoading}
                                         />
@@ -362,6 +372,7 @@ export default function Home() {
                                             <TradingSignalsPanel
                                                 signals={enhancedData.signals}
                                                 recommendation={enhancedData.recommendation}
+                                                patterns={enhancedData.candlestickPatterns}
                                                 isLoading={isLoading}
                                             />
                                         </div>
@@ -445,7 +456,7 @@ export default function Home() {
                                     {tradingMode === 'SCALPING' && stockData ? (
                                         <>
                                             <h3 className="text-sm font-bold text-gray-300 uppercase tracking-wider mb-4">💰 Scalping Calculator</h3>
-                                            <ScalpingCalculator currentPrice={stockData.price} />
+                                            <ScalpingCalculator currentPrice={stockData.price} previousClose={stockData.previousClose} />
                                         </>
                                     ) : (
                                         <div className="p-12 text-center text-muted-foreground">No tools available</div>
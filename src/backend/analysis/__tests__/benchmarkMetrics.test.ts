@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest'
+import { backtestStrategy, calculateCalmarRatio, calculateSortinoRatio, compareWithBenchmark, type EquityPoint } from '../backtesting'
+import type { HistoricalQuote } from '@/backend/data/marketData'
+import type { StrategySpec } from '@/shared/strategySpec'
+import { EXECUTION_MODELS } from '@/shared/executionModel'
+
+const day = (i: number) => new Date(Date.UTC(2025, 0, 1 + i)).toISOString().split('T')[0]
+
+/** Index closes wandering ±1% around a slow uptrend */
+const INDEX = Array.from({ length: 60 }, (_, i) => 7000 * (1 + 0.001 * i) * (1 + 0.01 * Math.sin(i)))
+const indexCloses = new Map(INDEX.map((close, i) => [day(i), close]))
+
+/** Equity that moves `beta` times the index every day, plus `drift` */
+const tracking = (beta: number, drift: number): EquityPoint[] => {
+    const points: EquityPoint[] = [{ date: day(0), equity: 100_000_000 }]
+    for (let i = 1; i < INDEX.length; i++) {
+        const r = beta * (INDEX[i] / INDEX[i - 1] - 1) + drift
+        points.push({ date: day(i), equity: points[i - 1].equity * (1 + r) })
+    }
+    return points
+}
+
+describe('Benchmark Metrics', () => {
+
+    it('should measure beta, correlation and alpha against the index', () => {
+        const result = compareWithBenchmark('IHSG', tracking(2, 0.001), indexCloses)!
+
+        expect(result).toMatchObject({ index: 'IHSG', symbol: '^JKSE', days: 60 })
+        expect(result.beta).toBeCloseTo(2, 8)
+        expect(result.correlation).toBeCloseTo(1, 8)
+        // 0.1% a day over what the beta explains, after the risk-free rate
+        expect(result.alpha).toBeCloseTo((0.001 + 0.06 / 252) * 252 * 100, 6)
+        expect(result.totalReturn).toBeCloseTo((INDEX[59] / INDEX[0] - 1) * 100, 8)
+
+        // Holding the index itself: no tracking error, nothing in excess
+        const index = compareWithBenchmark('IHSG', tracking(1, 0), indexCloses)!
+        expect(index.excessReturn).toBeCloseTo(0, 8)
+        expect(index.trackingError).toBeCloseTo(0, 8)
+
+        expect(compareWithBenchmark('LQ45', tracking(1, 0).slice(0, 2), indexCloses)).toBeNull()
+    })
+
+    it('should only count downside volatility in the Sortino ratio', () => {
+        expect(calculateSortinoRatio([0.01, 0.02, 0.03])).toBeNull()
+        expect(calculateSortinoRatio([0.02, -0.01, 0.02, -0.01])).toBeGreaterThan(0)
+    })
+
+    it('should divide the CAGR by the max drawdown in the Calmar ratio', () => {
+        // A year of steady gains compounding to +10%
+        const year = Array<number>(252).fill(1.1 ** (1 / 252) - 1)
+        expect(calculateCalmarRatio(year, 5)).toBeCloseTo(2)
+        expect(calculateCalmarRatio(year, 0)).toBeNull()
+    })
+
+    it('should report exposure and compare the run with each index', () => {
+        const quotes: HistoricalQuote[] = INDEX.map((close, i) => ({
+            date: new Date(Date.UTC(2025, 0, 1 + i)),
+            open: close, high: close, low: close, close, volume: 1_000_000,
+        }))
+        const spec: StrategySpec = {
+            name: 'Above 7100',
+            entry: { left: { indicator: 'CLOSE' }, op: 'crossesAbove', right: 7100 },
+            risk: { maxHoldingBars: 10 },
+        }
+        const result = backtestStrategy('BBRI', quotes, spec, {
+            execution: EXECUTION_MODELS.IDEAL_CLOSE,
+            benchmarks: [{ index: 'IHSG', quotes }],
+        })
+
+        expect(result.exposurePercent).toBeGreaterThan(0)
+        expect(result.exposurePercent).toBeLessThan(100)
+        expect(result.exposureAdjustedReturn).toBeCloseTo(result.totalReturn / (result.exposurePercent / 100), 8)
+        expect(result.benchmarks).toHaveLength(1)
+        expect(result.benchmarks[0].correlation).toBeGreaterThan(0)
+        expect(result.benchmarks[0].beta).toBeLessThan(1)
+    })
+})
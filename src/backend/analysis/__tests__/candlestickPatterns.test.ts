@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest'
+import {
+    detectCandlestickPatterns,
+    getPatternBias,
+    summarizeRecentPatterns,
+    toOHLCBars,
+    type OHLCBars,
+} from '../candlestickPatterns'
+
+type Bar = [open: number, high: number, low: number, close: number]
+
+const toBars = (rows: Bar[]): OHLCBars => ({
+    opens: rows.map(r => r[0]),
+    highs: rows.map(r => r[1]),
+    lows: rows.map(r => r[2]),
+    closes: rows.map(r => r[3]),
+})
+
+// Six small red candles stepping down from 110 to 100
+const DOWNTREND: Bar[] = Array.from({ length: 6 }, (_, k) => {
+    const close = 110 - 2 * k
+    return [close + 1, close + 1.5, close - 0.5, close]
+})
+
+const FLAT: Bar[] = Array.from({ length: 6 }, () => [100, 100.75, 99.75, 100.5])
+
+describe('Candlestick Patterns', () => {
+
+    it('should grade a bullish engulfing after a downtrend as high reliability', () => {
+        const bars = toBars([...DOWNTREND, [99.5, 100, 97.5, 98], [97.5, 101, 97, 100.5]])
+        const patterns = detectCandlestickPatterns(bars)
+
+        expect(patterns).toContainEqual(expect.objectContaining({
+            name: 'BULLISH_ENGULFING', index: 7, bars: 2, direction: 'BULLISH', reliability: 'HIGH',
+        }))
+    })
+
+    it('should only report a hammer after a decline', () => {
+        const hammer: Bar = [99, 99.6, 97, 99.5]
+
+        const afterDecline = detectCandlestickPatterns(toBars([...DOWNTREND, hammer]))
+        expect(afterDecline).toContainEqual(expect.objectContaining({ name: 'HAMMER', index: 6, direction: 'BULLISH' }))
+
+        const afterRange = detectCandlestickPatterns(toBars([...FLAT, hammer]))
+        expect(afterRange.some(p => p.name === 'HAMMER')).toBe(false)
+    })
+
+    it('should detect doji and inside bars as neutral', () => {
+        const bars = toBars([[100, 105, 95, 104], [100, 102, 98, 100]])
+        const names = detectCandlestickPatterns(bars).filter(p => p.index === 1).map(p => p.name)
+
+        expect(names).toEqual(['DOJI', 'INSIDE_BAR'])
+    })
+
+    it('should detect three white soldiers', () => {
+        const bars = toBars([
+            ...FLAT.slice(0, 5),
+            [100, 103.3, 99.8, 103],
+            [102, 105.3, 101.8, 105],
+            [104, 107.2, 103.8, 107],
+        ])
+
+        expect(detectCandlestickPatterns(bars)).toContainEqual(expect.objectContaining({
+            name: 'THREE_WHITE_SOLDIERS', index: 7, bars: 3, reliability: 'HIGH',
+        }))
+    })
+
+    it('should summarize recent patterns newest first', () => {
+        const bars = toBars([...DOWNTREND, [99.5, 100, 97.5, 98], [97.5, 101, 97, 100.5], [100, 100.2, 99.8, 100.02]])
+        const summary = summarizeRecentPatterns(bars, 2)
+
+        expect(summary[0]).toEqual({ name: 'DOJI', label: 'Doji', direction: 'NEUTRAL', reliability: 'LOW', barsAgo: 0 })
+        expect(summary.some(p => p.name === 'BULLISH_ENGULFING' && p.barsAgo === 1)).toBe(true)
+        expect(summary.every(p => p.barsAgo <= 1)).toBe(true)
+    })
+
+    it('should weight bias by reliability and skip incomplete quotes', () => {
+        expect(getPatternBias([
+            { direction: 'BULLISH', reliability: 'HIGH' },
+            { direction: 'BEARISH', reliability: 'LOW' },
+            { direction: 'NEUTRAL', reliability: 'LOW' },
+        ])).toBe(2)
+
+        const bars = toOHLCBars([
+            { open: 1, high: 2, low: 0.5, close: 1.5 },
+            { open: null, high: 2, low: 0.5, close: 1.5 },
+            { open: 1.5, high: 2.5, low: 1, close: 2 },
+        ])
+        expect(bars.closes).toEqual([1.5, 2])
+    })
+})
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest'
+import { detectChartPatterns, findSwingPoints, summarizeChartPatterns, type PriceBars } from '../chartPatterns'
+
+/** Straight-line closes through [bar, price] anchors, with a one-point bar range */
+const zigzag = (anchors: [number, number][]): PriceBars => {
+    const closes: number[] = []
+    for (let k = 1; k < anchors.length; k++) {
+        const [x0, y0] = anchors[k - 1]
+        const [x1, y1] = anchors[k]
+        for (let x = x0; x < x1; x++) closes.push(y0 + ((y1 - y0) * (x - x0)) / (x1 - x0))
+    }
+    closes.push(anchors[anchors.length - 1][1])
+    return { highs: closes.map(c => c + 0.5), lows: closes.map(c => c - 0.5), closes }
+}
+
+const find = (bars: PriceBars, type: string) => detectChartPatterns(bars).find(p => p.type === type)
+
+describe('Chart Patterns', () => {
+
+    it('should find confirmed swing points', () => {
+        const bars = zigzag([[0, 100], [6, 110], [12, 102], [16, 104]])
+        expect(findSwingPoints(bars.highs, bars.lows, 3)).toEqual([
+            { index: 6, price: 110.5, type: 'HIGH' },
+            { index: 12, price: 101.5, type: 'LOW' },
+        ])
+    })
+
+    it('should measure an ascending triangle from its flat top', () => {
+        const anchors: [number, number][] = [[0, 100], [6, 110], [12, 102], [18, 110], [24, 105], [30, 110], [36, 108], [40, 109]]
+        const forming = find(zigzag(anchors), 'ASCENDING_TRIANGLE')
+
+        expect(forming?.status).toBe('FORMING')
+        expect(forming?.direction).toBe('BULLISH')
+        expect(forming?.breakoutLevel).toBeCloseTo(110.5, 6)
+        // Height at the first pivot: 110.5 - 100
+        expect(forming?.target).toBeCloseTo(121, 6)
+        expect(forming?.invalidation).toBeCloseTo(108.5, 6)
+
+        const broken = find(zigzag([...anchors, [42, 113]]), 'ASCENDING_TRIANGLE')
+        expect(broken?.status).toBe('BREAKOUT')
+    })
+
+    it('should confirm a double bottom on a close above the neckline', () => {
+        const anchors: [number, number][] = [[0, 120], [8, 100], [16, 110], [24, 100.5], [30, 106]]
+        const forming = find(zigzag(anchors), 'DOUBLE_BOTTOM')
+
+        expect(forming).toMatchObject({ status: 'FORMING', breakoutLevel: 110.5, target: 121.5, invalidation: 99.5 })
+        expect(find(zigzag([...anchors, [33, 112]]), 'DOUBLE_BOTTOM')?.status).toBe('BREAKOUT')
+        // A close below the lows negates it
+        expect(find(zigzag([...anchors, [33, 97]]), 'DOUBLE_BOTTOM')).toBeUndefined()
+    })
+
+    it('should detect a head and shoulders breakdown', () => {
+        const bars = zigzag([[0, 100], [6, 110], [12, 104], [18, 116], [24, 104], [30, 110], [36, 103]])
+        const pattern = find(bars, 'HEAD_AND_SHOULDERS')
+
+        expect(pattern).toMatchObject({ direction: 'BEARISH', status: 'BREAKOUT', invalidation: 110.5 })
+        expect(pattern?.breakoutLevel).toBeCloseTo(103.5, 6)
+        expect(pattern?.target).toBeCloseTo(90.5, 6)
+    })
+
+    it('should detect a bull flag breakout with a pole-length target', () => {
+        const bars = zigzag([[0, 100], [10, 100], [18, 120], [25, 116.5]])
+        bars.closes.push(118)
+        bars.highs.push(118.5)
+        bars.lows.push(117.5)
+
+        const flag = find(bars, 'BULL_FLAG')
+        expect(flag?.status).toBe('BREAKOUT')
+        expect(flag?.breakoutLevel).toBeCloseTo(116.5, 6)
+        expect(flag?.target).toBeCloseTo(137.5, 6)
+        expect(flag?.invalidation).toBe(116)
+
+        expect(summarizeChartPatterns([flag!])[0]).toMatchObject({ type: 'BULL_FLAG', bars: 19 })
+    })
+})
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest'
+import { detectDivergence, detectDivergences, summarizeDivergences, type DivergenceBars } from '../divergence'
+
+/** Straight-line closes through [bar, price] anchors, with a one-point bar range */
+const zigzag = (anchors: [number, number][]): DivergenceBars => {
+    const closes: number[] = []
+    for (let k = 1; k < anchors.length; k++) {
+        const [x0, y0] = anchors[k - 1]
+        const [x1, y1] = anchors[k]
+        for (let x = x0; x < x1; x++) closes.push(y0 + ((y1 - y0) * (x - x0)) / (x1 - x0))
+    }
+    closes.push(anchors[anchors.length - 1][1])
+    return { highs: closes.map(c => c + 0.5), lows: closes.map(c => c - 0.5), closes }
+}
+
+/** Flat indicator with chosen values at the swing bars */
+const indicatorWith = (length: number, points: Record<number, number>) =>
+    Array.from({ length }, (_, i) => points[i] ?? 50)
+
+// Swing lows at bars 10 (99.5) and 26 (97.5): a lower low
+const LOWER_LOW = zigzag([[0, 110], [10, 100], [16, 106], [26, 98], [30, 100]])
+
+describe('Divergence Detection', () => {
+
+    it('should flag a regular bullish divergence on a higher indicator low', () => {
+        const result = detectDivergence(LOWER_LOW, indicatorWith(31, { 10: 20, 26: 30 }), 'RSI')
+
+        expect(result).toHaveLength(1)
+        expect(result[0]).toMatchObject({
+            indicator: 'RSI', type: 'REGULAR', direction: 'BULLISH', strength: 'STRONG',
+            indicatorFrom: 20, indicatorTo: 30,
+        })
+        expect(result[0].from.index).toBe(10)
+        expect(result[0].to.index).toBe(26)
+    })
+
+    it('should ignore swings the indicator confirms', () => {
+        expect(detectDivergence(LOWER_LOW, indicatorWith(31, { 10: 30, 26: 20 }), 'RSI')).toEqual([])
+    })
+
+    it('should flag a hidden bearish divergence on a lower high', () => {
+        // Swing highs at bars 10 (110.5) and 26 (106.5)
+        const bars = zigzag([[0, 90], [10, 110], [16, 100], [26, 106], [30, 103]])
+        const result = detectDivergence(bars, indicatorWith(31, { 10: 60, 26: 70 }), 'MACD')
+
+        expect(result).toMatchObject([{ type: 'HIDDEN', direction: 'BEARISH' }])
+    })
+
+    it('should skip divergences that are too old', () => {
+        const stale = zigzag([[0, 110], [10, 100], [16, 106], [26, 98], [45, 99]])
+        expect(detectDivergence(stale, indicatorWith(46, { 10: 20, 26: 30 }), 'RSI')).toEqual([])
+    })
+
+    it('should detect OBV accumulation into a lower price low', () => {
+        // Heavy volume on up bars, light on down bars: OBV rises while price makes a lower low
+        const volumes = LOWER_LOW.closes.map((c, i) => (i > 0 && c > LOWER_LOW.closes[i - 1] ? 10 : 1))
+        const found = detectDivergences({ ...LOWER_LOW, volumes })
+        const summary = summarizeDivergences(found.filter(d => d.indicator === 'OBV'), LOWER_LOW.closes.length)
+
+        expect(summary).toEqual([{
+            indicator: 'OBV', type: 'REGULAR', direction: 'BULLISH', strength: 'STRONG',
+            label: 'Regular bullish OBV divergence', barsAgo: 4,
+        }])
+    })
+})
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest'
+import { backtestStrategy } from '../backtesting'
+import type { HistoricalQuote } from '@/backend/data/marketData'
+import { SWING_SCALE_OUT, type StrategySpec } from '@/shared/strategySpec'
+import { EXECUTION_MODELS } from '@/shared/executionModel'
+
+/** Daily bars with a two-point range around each close */
+const daily = (closes: number[]): HistoricalQuote[] =>
+    closes.map((close, i) => ({
+        date: new Date(Date.UTC(2025, 0, 1 + i)),
+        open: close, high: close + 1, low: close - 1, close, volume: 1_000_000,
+    }))
+
+const flat = (value: number, count: number) => Array<number>(count).fill(value)
+
+/** Buys the close crossing above 105; exits only through the risk rules */
+const breakout = (risk: StrategySpec['risk']): StrategySpec => ({
+    name: 'Breakout',
+    entry: { left: { indicator: 'CLOSE' }, op: 'crossesAbove', right: 105 },
+    risk,
+})
+
+const run = (closes: number[], risk: StrategySpec['risk']) =>
+    backtestStrategy('BBRI', daily(closes), breakout(risk), { execution: EXECUTION_MODELS.IDEAL_CLOSE })
+
+describe('Exit Management', () => {
+
+    it('should scale out at the swing targets and stop the rest at breakeven', () => {
+        // Entry 106, 5% stop → 1R = 5.3: TP1 ≈ 113.95, TP2 = 116.6, TP3 ≈ 121.9
+        const result = run([...flat(100, 5), 106, 114, 117, 110, 104, ...flat(100, 3)], {
+            stopLossPercent: 5,
+            takeProfitLevels: SWING_SCALE_OUT,
+            breakEvenAfterFirstTarget: true,
+        })
+
+        const [buy, ...sells] = result.trades
+        expect(buy.type).toBe('BUY')
+        expect(sells.map(t => t.exitRule)).toEqual(['SCALE_OUT', 'SCALE_OUT', 'BREAKEVEN_STOP'])
+        expect(sells.map(t => t.shares)).toEqual([
+            Math.floor(buy.shares * 0.3),
+            Math.floor(buy.shares * 0.5),
+            buy.shares - Math.floor(buy.shares * 0.3) - Math.floor(buy.shares * 0.5),
+        ])
+        expect(sells[0].reason).toMatch(/^TP1 reached/)
+        expect(sells[1].reason).toMatch(/^TP2 reached/)
+        expect(sells[2].price).toBe(104)
+
+        // Three exits of one entry are one (winning) round trip
+        expect(result).toMatchObject({ winningTrades: 1, losingTrades: 0, winRate: 100 })
+        expect(result.largestWin).toBeCloseTo(sells.reduce((sum, t) => sum + t.profit!, 0))
+    })
+
+    it('should sell everything left when a close jumps past the last target', () => {
+        const result = run([...flat(100, 5), 106, 125, ...flat(125, 3)], {
+            stopLossPercent: 5,
+            takeProfitLevels: SWING_SCALE_OUT,
+        })
+
+        const sells = result.trades.filter(t => t.type === 'SELL')
+        expect(sells).toHaveLength(1)
+        expect(sells[0]).toMatchObject({ exitRule: 'SCALE_OUT', shares: result.trades[0].shares })
+        expect(sells[0].reason).toMatch(/^TP1 \+ TP2 \+ TP3 reached/)
+    })
+
+    it('should trail a chandelier stop that only rises', () => {
+        const closes = [...flat(100, 20), 106, 110, 114, 118, 122, 119, 116, ...flat(116, 3)]
+        const result = run(closes, { chandelierStop: { period: 5, multiplier: 1 } })
+
+        const sell = result.trades.find(t => t.type === 'SELL')
+        expect(sell?.exitRule).toBe('CHANDELIER_STOP')
+        expect(sell?.price).toBeGreaterThan(106)
+        expect(sell?.price).toBeLessThan(122)
+    })
+
+    it('should close a trade that has not moved enough within the time stop', () => {
+        const result = run([...flat(100, 5), 106, 107, 108, 107, 107, 107], {
+            timeStop: { bars: 3, minProfitPercent: 2 },
+        })
+
+        const sell = result.trades.find(t => t.type === 'SELL')
+        expect(sell).toMatchObject({ exitRule: 'TIME_STOP', date: '2025-01-09', price: 107 })
+    })
+})
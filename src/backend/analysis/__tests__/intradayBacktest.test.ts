@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest'
+import { backtestStrategy } from '../backtesting'
+import type { HistoricalQuote } from '@/backend/data/marketData'
+import { SWING_SCALE_OUT, type StrategySpec } from '@/shared/strategySpec'
+import { EXECUTION_MODELS } from '@/shared/executionModel'
+
+// 15-minute bar starts (minutes since midnight WIB): 09:00–11:45 and 13:30–15:45
+const BAR_STARTS = [
+    ...Array.from({ length: 12 }, (_, k) => 540 + 15 * k),
+    ...Array.from({ length: 10 }, (_, k) => 810 + 15 * k),
+]
+
+/** One trading day of 15m bars on 2025-01-`day` (Jakarta) */
+const dayOf = (day: number, closes: number[]): HistoricalQuote[] =>
+    closes.map((close, k) => ({
+        date: new Date(Date.UTC(2025, 0, day, 0, BAR_STARTS[k] - 7 * 60)),
+        open: close, high: close, low: close, close, volume: 1_000_000,
+    }))
+
+const flat = (value: number, count: number) => Array<number>(count).fill(value)
+
+const BREAKOUT_SPEC: StrategySpec = {
+    name: 'Breakout',
+    entry: { left: { indicator: 'CLOSE' }, op: 'crossesAbove', right: 105 },
+}
+
+const CLOSE_FILLS = EXECUTION_MODELS.IDEAL_CLOSE
+
+describe('Intraday Backtesting', () => {
+
+    it('should go flat at the close and report holding time by entry hour', () => {
+        const quotes = [
+            ...dayOf(6, [...flat(100, 5), ...flat(106, 17)]),   // breakout at 10:15, flat at 106 (loss after fees)
+            ...dayOf(7, [100, 100, 106, ...flat(112, 19)]),     // breakout at 09:30, closes at 112
+        ]
+        const result = backtestStrategy('BBRI', quotes, BREAKOUT_SPEC, {
+            execution: CLOSE_FILLS,
+            intraday: { interval: '15m' },
+        })
+
+        expect(result.trades.map(t => [t.type, t.date, t.reason.split(':')[0]])).toEqual([
+            ['BUY', '2025-01-06 10:15', 'Entry'],
+            ['SELL', '2025-01-06 15:45', 'End of day flat'],
+            ['BUY', '2025-01-07 09:30', 'Entry'],
+            ['SELL', '2025-01-07 15:45', 'End of day flat'],
+        ])
+        expect(result.period).toEqual({ start: '2025-01-06 09:15', end: '2025-01-07 15:45' })
+
+        // Filled on the 10:30 and 09:45 closes, both sold on the 16:00 close
+        const intraday = result.intraday!
+        expect(intraday.sessions).toBe(2)
+        expect(intraday.flatAtCloseExits).toBe(2)
+        expect(intraday.averageHoldingMinutes).toBe((330 + 375) / 2)
+        expect(intraday.timeOfDay.map(s => [s.slot, s.trades, s.winRate])).toEqual([
+            ['09:00', 1, 100],
+            ['10:00', 1, 0],
+        ])
+    })
+
+    it('should count a scaled-out position as one round trip', () => {
+        // Entry 106 with a 5% stop: TP1 ≈ 113.95 and TP2 = 116.6 fill, the rest goes flat at the close
+        const quotes = dayOf(6, [...flat(100, 5), 106, 114, 117, ...flat(117, 14)])
+        const result = backtestStrategy('BBRI', quotes, {
+            ...BREAKOUT_SPEC,
+            risk: { stopLossPercent: 5, takeProfitLevels: SWING_SCALE_OUT },
+        }, { execution: CLOSE_FILLS, intraday: { interval: '15m' } })
+
+        expect(result.trades.filter(t => t.type === 'SELL').map(t => t.exitRule)).toEqual(['SCALE_OUT', 'SCALE_OUT', 'END_OF_DAY'])
+        const intraday = result.intraday!
+        expect(intraday.flatAtCloseExits).toBe(1)
+        expect(intraday.averageHoldingMinutes).toBe(330)
+        expect(intraday.timeOfDay.map(s => [s.slot, s.trades, s.winRate])).toEqual([['10:00', 1, 100]])
+    })
+
+    it('should only enter during the morning session in BPJS mode', () => {
+        // Breakout at 14:15, in session 2
+        const quotes = dayOf(6, [...flat(100, 15), ...flat(106, 7)])
+
+        const anytime = backtestStrategy('BBRI', quotes, BREAKOUT_SPEC, { execution: CLOSE_FILLS, intraday: { interval: '15m' } })
+        const bpjs = backtestStrategy('BBRI', quotes, BREAKOUT_SPEC, { execution: CLOSE_FILLS, intraday: { interval: '15m', bpjs: true } })
+
+        expect(anytime.trades.map(t => t.date)).toEqual(['2025-01-06 14:15', '2025-01-06 15:45'])
+        expect(bpjs.trades).toHaveLength(0)
+    })
+
+    it('should not carry a next-open entry into the following day', () => {
+        // Signal on day one's last bar; the next open belongs to another session
+        const quotes = [
+            ...dayOf(6, [...flat(100, 21), 106]),
+            ...dayOf(7, flat(106, 22)),
+        ]
+        const result = backtestStrategy('BBRI', quotes, BREAKOUT_SPEC, {
+            execution: EXECUTION_MODELS.IDX_REALISTIC,
+            intraday: { interval: '15m', flatAtClose: false },
+        })
+
+        expect(result.trades).toHaveLength(0)
+        expect(result.intraday!.averageHoldingMinutes).toBe(0)
+    })
+})
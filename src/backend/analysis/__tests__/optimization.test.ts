@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest'
+import { optimizeStrategy, rangeValues, scoreMetrics, walkForwardAnalysis } from '../optimization'
+import { resolveStrategySpec } from '../backtesting'
+import type { HistoricalQuote } from '@/backend/data/marketData'
+
+const quotesFrom = (closes: number[]): HistoricalQuote[] =>
+    closes.map((close, i) => ({
+        date: new Date(Date.UTC(2025, 0, 1 + i)),
+        open: close, high: close + 5, low: close - 5, close, volume: 1000,
+    }))
+
+// Oscillating market with a gentle uptrend: RSI mean reversion trades often
+const WAVE = Array.from({ length: 240 }, (_, i) => 1000 + i + Math.round(120 * Math.sin(i / 4)))
+
+const RSI_RANGES = [
+    { name: 'oversold', min: 20, max: 40, step: 5 },
+    { name: 'overbought', min: 60, max: 80, step: 10 },
+]
+
+describe('Parameter Optimization', () => {
+
+    it('should expand ranges inclusively without float drift', () => {
+        expect(rangeValues({ name: 'x', min: 1.5, max: 2.5, step: 0.1 })).toHaveLength(11)
+        expect(rangeValues({ name: 'x', min: 1.5, max: 2.5, step: 0.1 })[10]).toBe(2.5)
+        expect(rangeValues({ name: 'x', min: 5, max: 1, step: 1 })).toEqual([5])
+    })
+
+    it('should score every grid combination and rank the best first', () => {
+        const result = optimizeStrategy('TEST', quotesFrom(WAVE), resolveStrategySpec('RSI'), {
+            ranges: RSI_RANGES,
+            objective: 'TOTAL_RETURN',
+            minTrades: 1,
+        })
+
+        expect(result.trials).toHaveLength(15)
+        expect(result.best).toBe(result.trials[0])
+        const scores = result.trials.map(t => t.score).filter((s): s is number => s !== null)
+        expect(scores).toEqual([...scores].sort((a, b) => b - a))
+
+        expect(result.heatmap?.xValues).toEqual([20, 25, 30, 35, 40])
+        expect(result.heatmap?.yValues).toEqual([60, 70, 80])
+        const { oversold, overbought } = result.best!.parameters
+        const x = result.heatmap!.xValues.indexOf(oversold)
+        const y = result.heatmap!.yValues.indexOf(overbought)
+        expect(result.heatmap!.cells[y][x]).toBe(result.best!.score)
+    })
+
+    it('should reproduce random searches from the same seed', () => {
+        const spec = resolveStrategySpec('RSI')
+        const options = { ranges: RSI_RANGES, method: 'RANDOM' as const, samples: 6, seed: 42 }
+        const first = optimizeStrategy('TEST', quotesFrom(WAVE), spec, options)
+        const second = optimizeStrategy('TEST', quotesFrom(WAVE), spec, options)
+
+        expect(first.trials).toHaveLength(6)
+        expect(second.trials.map(t => t.parameters)).toEqual(first.trials.map(t => t.parameters))
+    })
+
+    it('should reject unknown parameters and oversized grids', () => {
+        const spec = resolveStrategySpec('RSI')
+        expect(() => optimizeStrategy('TEST', quotesFrom(WAVE), spec, {
+            ranges: [{ name: 'missing', min: 1, max: 2, step: 1 }],
+        })).toThrow('Strategy "RSI" has no parameter "missing"')
+        expect(() => optimizeStrategy('TEST', quotesFrom(WAVE), spec, {
+            ranges: [{ name: 'oversold', min: 1, max: 50, step: 1 }, { name: 'overbought', min: 50, max: 99, step: 1 }],
+        })).toThrow(/2500 combinations .* use random search/)
+    })
+
+    it('should cap drawdown-adjusted returns for tiny drawdowns', () => {
+        const metrics = { totalReturn: 12, sharpeRatio: 1, profitFactor: 2, maxDrawdown: 0.1, winRate: 60, trades: 5 }
+        expect(scoreMetrics(metrics, 'RETURN_DRAWDOWN')).toBe(12)
+        expect(scoreMetrics({ ...metrics, maxDrawdown: 4 }, 'RETURN_DRAWDOWN')).toBe(3)
+    })
+})
+
+describe('Walk-Forward Analysis', () => {
+
+    it('should test each window out of sample after the bars it was fitted on', () => {
+        const result = walkForwardAnalysis('TEST', quotesFrom(WAVE), resolveStrategySpec('RSI'), {
+            ranges: RSI_RANGES,
+            objective: 'TOTAL_RETURN',
+            minTrades: 1,
+        }, { windows: 3, inSampleRatio: 0.7 })
+
+        expect(result.windows).toHaveLength(3)
+        for (const window of result.windows) {
+            expect(window.inSample.end < window.outOfSample.start).toBe(true)
+        }
+        // Windows roll forward by exactly one out-of-sample span
+        expect(result.windows[1].inSample.start > result.windows[0].inSample.start).toBe(true)
+        expect(result.windows[2].outOfSample.end).toBe('2025-08-28')
+        expect(['LOW', 'MEDIUM', 'HIGH']).toContain(result.overfitting.risk)
+    })
+
+    it('should refuse when the windows would be too short', () => {
+        expect(() => walkForwardAnalysis('TEST', quotesFrom(WAVE.slice(0, 60)), resolveStrategySpec('RSI'), {
+            ranges: RSI_RANGES,
+        }, { windows: 5 })).toThrow(/Not enough data for 5 walk-forward windows/)
+    })
+})
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest'
+import { backtestPortfolio } from '../portfolioBacktest'
+import type { HistoricalQuote } from '@/backend/data/marketData'
+import type { StrategySpec } from '@/shared/strategySpec'
+import { EXECUTION_MODELS } from '@/shared/executionModel'
+
+const quotesFrom = (closes: number[]): HistoricalQuote[] =>
+    closes.map((close, i) => ({
+        date: new Date(Date.UTC(2025, 0, 1 + i)),
+        open: close, high: close, low: close, close, volume: 1000,
+    }))
+
+// Breaks out above 105 on bar 3, then drifts up
+const BREAKOUT = [100, 100, 100, 110, 112, 114, 116]
+
+const BREAKOUT_SPEC: StrategySpec = {
+    name: 'Breakout',
+    entry: { left: { indicator: 'CLOSE' }, op: 'crossesAbove', right: 105 },
+    risk: { stopLossPercent: 5 },
+}
+
+const CLOSE_FILLS = EXECUTION_MODELS.IDEAL_CLOSE
+
+describe('Portfolio Backtesting', () => {
+
+    it('should size positions by risk in whole lots', () => {
+        const result = backtestPortfolio(BREAKOUT_SPEC, { BBRI: quotesFrom(BREAKOUT) }, { riskPerTradePercent: 0.5, execution: CLOSE_FILLS })
+        const [buy] = result.trades
+
+        // 0.5% of 100M at risk over a 5% stop → Rp 10M position → 909 lots at Rp 110
+        expect(buy.shares).toBe(90_900)
+        expect(buy.date).toBe('2025-01-04')
+        expect(result.trades[1].reason).toBe('End of backtest period')
+        expect(result.contributions[0]).toMatchObject({ symbol: 'BBRI', sector: 'Financials', trades: 1, winRate: 100 })
+    })
+
+    it('should cap concurrent positions and sector exposure', () => {
+        const histories = {
+            BBRI: quotesFrom(BREAKOUT),
+            BMRI: quotesFrom(BREAKOUT),
+            TLKM: quotesFrom(BREAKOUT),
+            ASII: quotesFrom(BREAKOUT),
+        }
+
+        const limited = backtestPortfolio(BREAKOUT_SPEC, histories, { maxPositions: 2, execution: CLOSE_FILLS })
+        expect(limited.trades.filter(t => t.type === 'BUY')).toHaveLength(2)
+        expect(limited.missedSignals).toBe(2)
+
+        // Two banks at 20% each would breach a 30% sector cap; the second gets only the room left
+        const sectorCapped = backtestPortfolio(BREAKOUT_SPEC, histories, { maxSectorPercent: 30, riskPerTradePercent: 5, execution: CLOSE_FILLS })
+        const banking = sectorCapped.sectorExposure.find(s => s.sector === 'Financials')
+        expect(banking!.maxPercent).toBeLessThanOrEqual(30.5)
+        expect(sectorCapped.trades.filter(t => t.type === 'BUY').map(t => t.symbol)).toEqual(['BBRI', 'BMRI', 'TLKM', 'ASII'])
+    })
+
+    it('should track exposure and compare against the benchmark', () => {
+        const result = backtestPortfolio(
+            BREAKOUT_SPEC,
+            { BBRI: quotesFrom(BREAKOUT), XXXX: quotesFrom([100]) },
+            { execution: CLOSE_FILLS },
+            quotesFrom([7000, 7000, 7000, 7000, 7035, 7035, 7035])
+        )
+
+        expect(result.skipped).toEqual([{ symbol: 'XXXX', reason: 'Insufficient data for strategy warm-up: 1 bars' }])
+        expect(result.period).toEqual({ start: '2025-01-02', end: '2025-01-07' })
+        expect(result.equityCurve[0].exposurePercent).toBe(0)
+        expect(result.equityCurve[2].exposurePercent).toBeGreaterThan(15)
+        expect(result.equityCurve[result.equityCurve.length - 1].openPositions).toBe(0)
+        expect(result.benchmark!.totalReturn).toBeCloseTo(0.5, 5)
+        expect(result.outperformsBenchmark).toBe(true)
+    })
+
+    it('should queue signals for the next open and cap them by bar volume', () => {
+        const quotes = quotesFrom(BREAKOUT).map((q, i) => ({ ...q, open: BREAKOUT[i] + 1, volume: 50_000 }))
+        const result = backtestPortfolio(BREAKOUT_SPEC, { BBRI: quotes }, {})
+        const [buy] = result.trades
+
+        // Signal on the 2025-01-04 close; 10% of 50,000 shares fills at the next open (113) plus one tick
+        expect([buy.date, buy.price, buy.shares]).toEqual(['2025-01-05', 114, 5_000])
+        expect(result.execution.model.fillTiming).toBe('NEXT_OPEN')
+    })
+})
@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest'
+import {
+    sma, ema, rsi, macd, bollinger, trueRange, atr, last, compact,
+    vwap, obv, mfi, ichimoku, supertrend, parabolicSar, donchian,
+} from '../series'
+import { calculateRSI, calculateEMA, calculateMACD, calculateATR, calculateVWAP } from '../indicators'
+
+// Wilder / StockCharts RSI reference closes
+const RSI_CLOSES = [
+    44.34, 44.09, 44.15, 43.61, 44.33, 44.83, 45.10, 45.42, 45.84, 46.08,
+    45.89, 46.03, 45.61, 46.28, 46.28, 46.00, 46.03, 46.41, 46.22, 45.64,
+]
+
+// StockCharts 10-day EMA reference closes
+const EMA_CLOSES = [
+    22.27, 22.19, 22.08, 22.17, 22.18, 22.13, 22.23, 22.43, 22.24, 22.29,
+    22.15, 22.39, 22.38, 22.61, 23.36,
+]
+
+const round = (series: (number | null)[], digits = 2) =>
+    series.map(v => (v === null ? null : Number(v.toFixed(digits))))
+
+describe('Indicator Series', () => {
+
+    it('should keep every series aligned with its input', () => {
+        expect(sma(EMA_CLOSES, 10)).toHaveLength(EMA_CLOSES.length)
+        expect(ema(EMA_CLOSES, 10)).toHaveLength(EMA_CLOSES.length)
+        expect(rsi(RSI_CLOSES, 14)).toHaveLength(RSI_CLOSES.length)
+        expect(ema([1, 2], 5)).toEqual([null, null])
+    })
+
+    it('should match the reference SMA and EMA', () => {
+        expect(sma([1, 2, 3, 4, 5], 3)).toEqual([null, null, 2, 3, 4])
+        // SMA seed on bar 9, then the StockCharts values
+        expect(round(ema(EMA_CLOSES, 10)).slice(9)).toEqual([22.22, 22.21, 22.24, 22.27, 22.33, 22.52])
+        expect(ema(EMA_CLOSES, 10).slice(0, 9).every(v => v === null)).toBe(true)
+    })
+
+    it('should match the reference Wilder RSI', () => {
+        const values = rsi(RSI_CLOSES, 14)
+        expect(values.slice(0, 14).every(v => v === null)).toBe(true)
+        expect(round(values).slice(14)).toEqual([70.46, 66.25, 66.48, 69.35, 66.29, 57.92])
+    })
+
+    it('should read 100 with no losses and 50 with no movement', () => {
+        expect(last(rsi([1, 2, 3, 4, 5, 6], 5))).toBe(100)
+        expect(last(rsi([5, 5, 5, 5, 5, 5], 5))).toBe(50)
+    })
+
+    it('should align MACD, signal and histogram', () => {
+        // On a straight line both EMAs lag by (period - 1) / 2, so MACD = (26 - 12) / 2
+        const ramp = Array.from({ length: 40 }, (_, i) => 100 + i)
+        const result = macd(ramp)
+
+        expect(result.macd.findIndex(v => v !== null)).toBe(25)
+        expect(result.signal.findIndex(v => v !== null)).toBe(33)
+        expect(last(result.macd)).toBeCloseTo(7, 10)
+        expect(last(result.histogram)).toBeCloseTo(0, 10)
+    })
+
+    it('should use the population deviation for Bollinger Bands', () => {
+        // mean 5, population stddev 2
+        const bands = bollinger([2, 4, 4, 4, 5, 5, 7, 9], 8, 2)
+        expect(last(bands.middle)).toBe(5)
+        expect(last(bands.upper)).toBe(9)
+        expect(last(bands.lower)).toBe(1)
+    })
+
+    it('should compute true range and Wilder ATR', () => {
+        const highs = [10, 12, 13, 12, 14]
+        const lows = [8, 9, 11, 10, 11]
+        const closes = [9, 11, 12, 11, 13]
+
+        expect(trueRange(highs, lows, closes)).toEqual([null, 3, 2, 2, 3])
+        const values = atr(highs, lows, closes, 3)
+        expect(values.slice(0, 3)).toEqual([null, null, null])
+        expect(values[3]).toBeCloseTo(7 / 3, 10)
+        expect(values[4]).toBeCloseTo((7 / 3 * 2 + 3) / 3, 10)
+    })
+
+    describe('volume indicators', () => {
+        it('should restart VWAP at each session', () => {
+            const highs = [11, 13, 21, 23]
+            const lows = [9, 11, 19, 21]
+            const closes = [10, 12, 20, 22]
+            const volumes = [100, 300, 200, 200]
+
+            // Day 1: (10*100 + 12*300) / 400, day 2 starts again from 20
+            expect(vwap(highs, lows, closes, volumes, ['d1', 'd1', 'd2', 'd2'])).toEqual([10, 11.5, 20, 21])
+            expect(last(vwap(highs, lows, closes, volumes))).toBeCloseTo((1000 + 3600 + 4000 + 4400) / 800, 10)
+        })
+
+        it('should not reset VWAP on daily bars', () => {
+            const closes = [10, 12, 11, 13]
+            const dates = closes.map((_, i) => new Date(Date.UTC(2026, 9, 19 + i, 9)))
+            const result = calculateVWAP(closes, closes, closes, [1, 1, 1, 1], dates)
+            expect(result?.current).toBe(11.5)
+        })
+
+        it('should accumulate OBV by close direction', () => {
+            expect(obv([10, 11, 11, 10, 12], [5, 10, 20, 30, 40])).toEqual([0, 10, 10, -20, 20])
+        })
+
+        it('should keep MFI inside 0-100', () => {
+            const closes = Array.from({ length: 30 }, (_, i) => 100 + Math.sin(i) * 5)
+            const values = compact(mfi(closes.map(c => c + 1), closes.map(c => c - 1), closes, closes.map(() => 1000), 14))
+            expect(values).toHaveLength(16)
+            expect(values.every(v => v >= 0 && v <= 100)).toBe(true)
+            expect(last(mfi([1, 2, 3, 4], [1, 2, 3, 4], [1, 2, 3, 4], [1, 1, 1, 1], 3))).toBe(100)
+        })
+    })
+
+    describe('trend and channel indicators', () => {
+        const up = Array.from({ length: 40 }, (_, i) => 100 + i)
+        const down = Array.from({ length: 50 }, (_, i) => 139 - i * 2)
+        const closes = [...up, ...down]
+        const highs = closes.map(c => c + 1)
+        const lows = closes.map(c => c - 1)
+
+        it('should displace the Ichimoku spans', () => {
+            const lines = ichimoku(highs, lows, closes)
+            // Span B needs 52 bars, then shifts 26 forward
+            expect(lines.senkouB.findIndex(v => v !== null)).toBe(77)
+            expect(lines.senkouA[60]).toBe(((lines.tenkan[34] as number) + (lines.kijun[34] as number)) / 2)
+            expect(lines.chikou[0]).toBe(closes[26])
+            expect(lines.chikou[closes.length - 1]).toBeNull()
+        })
+
+        it('should flip Supertrend and SAR when the trend turns', () => {
+            const st = supertrend(highs, lows, closes)
+            expect(st.direction[39]).toBe(1)
+            expect(st.direction[closes.length - 1]).toBe(-1)
+            expect(st.value[39]).toBeLessThan(closes[39])
+
+            const sar = parabolicSar(highs, lows)
+            expect(sar.direction[39]).toBe(1)
+            expect(sar.direction[closes.length - 1]).toBe(-1)
+            expect(sar.value[closes.length - 1]).toBeGreaterThan(highs[closes.length - 1])
+        })
+
+        it('should track the rolling Donchian range', () => {
+            const channel = donchian([5, 7, 6, 9, 8], [1, 3, 2, 4, 5], 3)
+            expect(channel.upper).toEqual([null, null, 7, 9, 9])
+            expect(channel.lower).toEqual([null, null, 1, 2, 2])
+            expect(channel.middle[4]).toBe(5.5)
+        })
+    })
+
+    describe('parity with indicators.ts', () => {
+        it('should return the same values once warm-up is trimmed', () => {
+            const prices = Array.from({ length: 60 }, (_, i) => 1000 + Math.sin(i / 3) * 50 + i * 2)
+            const highs = prices.map(p => p + 10)
+            const lows = prices.map(p => p - 10)
+
+            expect(calculateRSI(prices)?.values).toEqual(compact(rsi(prices)))
+            expect(calculateEMA(prices, 20)?.values).toEqual(compact(ema(prices, 20)))
+            expect(calculateMACD(prices)?.histogram).toEqual(compact(macd(prices).histogram))
+            expect(calculateATR(highs, lows, prices)?.current).toBe(last(atr(highs, lows, prices)))
+        })
+    })
+})
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest'
+import { evaluateSignal, summarizeSignals } from '../signalEvaluation'
+import type { SignalRecord } from '@/backend/data/signalLedger'
+import type { HistoricalQuote } from '@/backend/data/types'
+
+// Monday 2 March 2026, 09:00 WIB
+const EMITTED = new Date(Date.UTC(2026, 2, 2, 2))
+
+const bar = (date: Date, close: number, high = close, low = close): HistoricalQuote =>
+    ({ date, open: close, high, low, close, volume: 1000 })
+
+function signal(overrides: Partial<SignalRecord> = {}): SignalRecord {
+    return {
+        id: 'bbri-1',
+        source: 'STOCK_API',
+        symbol: 'BBRI',
+        mode: 'swing',
+        direction: 'BUY',
+        action: 'BUY',
+        price: 1000,
+        confidence: 65,
+        reasons: [],
+        indicators: ['RSI'],
+        stopLoss: 950,
+        target: 1100,
+        emittedAt: EMITTED.toISOString(),
+        outcome: { returns: {}, firstHit: 'PENDING', complete: false, evaluatedAt: null },
+        ...overrides,
+    }
+}
+
+// 15m bars from the signal on, drifting up 1 per bar
+const INTRADAY = Array.from({ length: 8 }, (_, i) =>
+    bar(new Date(EMITTED.getTime() + i * 15 * 60_000), 1001 + i))
+
+// Signal day close, then daily closes rising 5 per day
+const DAILY = Array.from({ length: 25 }, (_, i) =>
+    bar(new Date(Date.UTC(2026, 2, 2 + i, 2)), 1000 + i * 5, 1000 + i * 5 + 2, 1000 + i * 5 - 2))
+
+describe('Signal Evaluation', () => {
+
+    it('should measure forward returns in the direction of the call', () => {
+        const now = new Date(Date.UTC(2026, 2, 30))
+        const buy = evaluateSignal(signal(), INTRADAY, DAILY, now)
+
+        // 1h = 4th 15m bar; 1d/5d/20d = closes after the signal day
+        expect(buy.returns['1h']).toBeCloseTo(0.4, 8)
+        expect(buy.returns['1d']).toBeCloseTo(0.5, 8)
+        expect(buy.returns['5d']).toBeCloseTo(2.5, 8)
+        expect(buy.returns['20d']).toBeCloseTo(10, 8)
+        // Day 20 high reaches 1102 ≥ target, day 19 high 1097 does not
+        expect(buy.firstHit).toBe('TARGET')
+        expect(buy.complete).toBe(true)
+
+        const sell = evaluateSignal(signal({ direction: 'SELL', action: 'SELL', stopLoss: 1050, target: 900 }), INTRADAY, DAILY, now)
+        expect(sell.returns['5d']).toBeCloseTo(-2.5, 8)
+        // Day 10 high 1052 touches the stop
+        expect(sell.firstHit).toBe('STOP')
+    })
+
+    it('should stay pending until the horizons are reached', () => {
+        const now = new Date(Date.UTC(2026, 2, 4))
+        const outcome = evaluateSignal(signal({ target: 2000, stopLoss: 500 }), INTRADAY.slice(0, 2), DAILY.slice(0, 3), now)
+
+        expect(Object.keys(outcome.returns)).toEqual(['1d'])
+        expect(outcome.firstHit).toBe('PENDING')
+        expect(outcome.complete).toBe(false)
+
+        // A bar touching both levels counts as the stop
+        const both = evaluateSignal(signal(), [bar(EMITTED, 1000, 1100, 950)], [], now)
+        expect(both.firstHit).toBe('STOP')
+
+        // Gives up eventually (suspended stock, no new bars)
+        const stale = evaluateSignal(signal(), [], DAILY.slice(0, 2), new Date(Date.UTC(2026, 4, 1)))
+        expect(stale.complete).toBe(true)
+    })
+
+    it('should summarize hit rates by source, indicator, confidence and mode', () => {
+        const outcome = (ret: number, firstHit: SignalRecord['outcome']['firstHit']) =>
+            ({ returns: { '1d': ret }, firstHit, complete: true, evaluatedAt: null })
+        const summary = summarizeSignals([
+            signal({ id: 'a', confidence: 85, indicators: ['RSI', 'MACD'], outcome: outcome(2, 'TARGET') }),
+            signal({ id: 'b', confidence: 72, indicators: ['RSI'], outcome: outcome(-1, 'STOP') }),
+            signal({ id: 'c', source: 'SCALPING_SCREENER', mode: 'scalping', confidence: 40, indicators: ['MACD'], stopLoss: null, target: null, outcome: outcome(3, null) }),
+            signal({ id: 'd', confidence: 88 }),
+        ], '1d')
+
+        expect(summary.total).toBe(4)
+        expect(summary.pending).toBe(1)
+        expect(summary.overall).toMatchObject({ signals: 4, evaluated: 3, resolved: 2, targetFirstRate: 50 })
+        expect(summary.overall.hitRate).toBeCloseTo(200 / 3, 8)
+        expect(summary.overall.averageReturn).toBeCloseTo(4 / 3, 8)
+
+        expect(summary.bySource.map((g) => [g.key, g.signals])).toEqual([['STOCK_API', 3], ['SCALPING_SCREENER', 1]])
+        expect(summary.byIndicator.find((g) => g.key === 'MACD')).toMatchObject({ evaluated: 2, hitRate: 100, averageReturn: 2.5 })
+        expect(summary.byConfidence.map((g) => g.key)).toEqual(['80+', '70-79', '<50'])
+        expect(summary.byMode.find((g) => g.key === 'scalping')?.targetFirstRate).toBeNull()
+    })
+})
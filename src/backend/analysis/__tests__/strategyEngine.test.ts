@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest'
+import { compileStrategy, type StrategyBars } from '../strategyEngine'
+import { backtestStrategy, resolveStrategySpec } from '../backtesting'
+import type { HistoricalQuote } from '@/backend/data/marketData'
+import type { StrategySpec } from '@/shared/strategySpec'
+import { EXECUTION_MODELS } from '@/shared/executionModel'
+
+const barsFrom = (closes: number[]): StrategyBars => ({
+    opens: closes,
+    highs: closes,
+    lows: closes,
+    closes,
+    volumes: closes.map(() => 1000),
+})
+
+const quotesFrom = (closes: number[]): HistoricalQuote[] =>
+    closes.map((close, i) => ({
+        date: new Date(Date.UTC(2025, 0, 1 + i)),
+        open: close, high: close, low: close, close, volume: 1000,
+    }))
+
+const CLOSE_FILLS = { execution: EXECUTION_MODELS.IDEAL_CLOSE }
+
+// Flat at 100, a breakout to 110 on bar 5, then back down
+const BREAKOUT = [100, 100, 100, 100, 100, 110, 112, 114, 116, 118]
+
+describe('Strategy Engine', () => {
+
+    it('should resolve parameters and start after the indicator warm-up', () => {
+        const spec: StrategySpec = {
+            name: 'SMA test',
+            parameters: { level: 105 },
+            entry: { left: { indicator: 'SMA', params: { period: 3 } }, op: '>', right: { param: 'level' } },
+        }
+        const compiled = compileStrategy(spec, barsFrom(BREAKOUT))
+
+        expect(compiled.warmup).toBe(2)
+        // SMA(3) on bar 6 = (100 + 110 + 112) / 3 = 107.33
+        expect(compiled.entry(5).passed).toBe(false)
+        expect(compiled.entry(6)).toEqual({ passed: true, reasons: ['SMA(3) > 105 (SMA(3) = 107.33)'] })
+    })
+
+    it('should fire crosses only on the crossing bar', () => {
+        const spec: StrategySpec = {
+            name: 'Cross test',
+            entry: { left: { indicator: 'CLOSE' }, op: 'crossesAbove', right: 105, label: 'Breakout' },
+        }
+        const compiled = compileStrategy(spec, barsFrom(BREAKOUT))
+
+        expect(compiled.warmup).toBe(1)
+        expect(BREAKOUT.map((_, i) => compiled.entry(i).passed)).toEqual(
+            [false, false, false, false, false, true, false, false, false, false]
+        )
+    })
+
+    it('should combine groups and collect the reasons that held', () => {
+        const spec: StrategySpec = {
+            name: 'Group test',
+            entry: {
+                atLeast: 2,
+                of: [
+                    { left: { indicator: 'CLOSE' }, op: '>', right: 111, label: 'Above 111' },
+                    { left: { indicator: 'CLOSE', offset: 1 }, op: '>', right: 109, label: 'Prior bar above 109' },
+                    { not: { left: { indicator: 'CLOSE' }, op: '>', right: 200 } },
+                ],
+            },
+        }
+        const compiled = compileStrategy(spec, barsFrom(BREAKOUT))
+
+        expect(compiled.entry(4).passed).toBe(false)
+        expect(compiled.entry(6).reasons).toEqual([
+            'Above 111 (Close = 112.00)',
+            'Prior bar above 109 (Close[1 ago] = 110.00)',
+            'NOT (Close > 200)',
+        ])
+    })
+
+    it('should reject specs that reference unknown parameters', () => {
+        const spec: StrategySpec = {
+            name: 'Broken',
+            entry: { left: { indicator: 'RSI' }, op: '<', right: { param: 'missing' } },
+        }
+        expect(() => compileStrategy(spec, barsFrom(BREAKOUT)).entry(20)).toThrow('Unknown strategy parameter "missing"')
+        expect(() => resolveStrategySpec({ ...spec, exit: undefined })).toThrow(/unknown parameter "missing"/)
+    })
+})
+
+describe('Spec Backtesting', () => {
+
+    it('should exit on the percentage stop before the signal exit', () => {
+        const spec: StrategySpec = {
+            name: 'Breakout with stop',
+            entry: { left: { indicator: 'CLOSE' }, op: 'crossesAbove', right: 105 },
+            exit: { left: { indicator: 'CLOSE' }, op: '>', right: 1000 },
+            risk: { stopLossPercent: 5 },
+        }
+        const result = backtestStrategy('TEST', quotesFrom([100, 100, 100, 110, 108, 104, 103, 102]), spec, CLOSE_FILLS)
+
+        expect(result.strategy).toBe('Breakout with stop')
+        expect(result.trades.map(t => [t.type, t.date, t.price])).toEqual([
+            ['BUY', '2025-01-04', 110],
+            ['SELL', '2025-01-06', 104],
+        ])
+        expect(result.trades[1].reason).toBe('Stop loss triggered at 5%')
+    })
+
+    it('should take profit and size fixed-amount positions', () => {
+        const spec: StrategySpec = {
+            name: 'Fixed size',
+            entry: { left: { indicator: 'CLOSE' }, op: 'crossesAbove', right: 105 },
+            risk: { takeProfitPercent: 5 },
+            sizing: { type: 'FIXED_AMOUNT', amount: 10_000_000 },
+        }
+        const result = backtestStrategy('TEST', quotesFrom([100, 100, 100, 110, 112, 116, 117]), spec, CLOSE_FILLS)
+        const [buy, sell] = result.trades
+
+        // 10M less 0.15% fees at Rp 110 → 90,772 shares
+        expect(buy.shares).toBe(Math.floor((10_000_000 * (1 - 0.0015)) / 110))
+        expect(sell.date).toBe('2025-01-06')
+        expect(sell.reason).toBe('Take profit reached at 5%')
+        expect(result.winningTrades).toBe(1)
+    })
+
+    it('should keep running the built-in strategies by id', () => {
+        const closes = Array.from({ length: 80 }, (_, i) => 1000 + Math.round(100 * Math.sin(i / 5)))
+        const result = backtestStrategy('TEST', quotesFrom(closes), resolveStrategySpec('RSI'))
+
+        expect(result.strategy).toBe('RSI')
+        expect(result.spec.parameters).toMatchObject({ oversold: 30, overbought: 70 })
+        expect(result.period.start).toBe('2025-01-15')
+    })
+
+    it('should fill on the next open in lots with slippage by default', () => {
+        const spec: StrategySpec = {
+            name: 'Next open',
+            entry: { left: { indicator: 'CLOSE' }, op: 'crossesAbove', right: 105 },
+            risk: { takeProfitPercent: 3 },
+        }
+        const quotes = quotesFrom([100, 100, 100, 110, 112, 116, 117, 118]).map(q => ({ ...q, volume: 10_000_000 }))
+        quotes[4].open = 111
+        quotes[6].open = 117
+        const result = backtestStrategy('TEST', quotes, spec)
+        const [buy, sell] = result.trades
+
+        // Signal on the 110 close, fill at the next open (111) plus one tick
+        expect([buy.date, buy.price, buy.shares % 100]).toEqual(['2025-01-05', 112, 0])
+        // Target hit on the 116 close, sold at the next open (117) less one tick
+        expect([sell.date, sell.price]).toEqual(['2025-01-07', 116])
+        expect(result.execution.description).toBe(
+            'IDX realistic: fills at next open, 100-share lots, 1 tick slippage, max 10% of bar volume, no fills at ARA/ARB'
+        )
+    })
+})
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest'
+import { anchoredVwap } from '../series'
+import { analyzeVolumeLevels, buildVolumeProfile, findAnchoredVwaps, type VolumeBars } from '../volumeProfile'
+
+/** One-point-wide candles around each close */
+const barsFrom = (closes: number[], volumes: number[]): VolumeBars => ({
+    highs: closes.map(c => c + 0.5),
+    lows: closes.map(c => c - 0.5),
+    closes,
+    volumes,
+})
+
+// Price spends most of its volume around 105, with thin trade at the extremes
+const CLOSES = [100.5, 102, 104, 105, 105, 105, 106, 105, 104, 108, 109.5]
+const VOLUMES = [10, 20, 50, 200, 300, 250, 60, 200, 50, 20, 10]
+
+describe('Volume Profile', () => {
+
+    it('should put the point of control in the heaviest price zone', () => {
+        // Five 2-point bins over 100-110: the 104-106 bin carries the 105 cluster
+        const profile = buildVolumeProfile(barsFrom(CLOSES, VOLUMES), { bins: 5 })
+
+        expect(profile).not.toBeNull()
+        expect(profile!.poc).toBeCloseTo(105, 6)
+        expect(profile!.totalVolume).toBeCloseTo(VOLUMES.reduce((a, b) => a + b, 0), 6)
+    })
+
+    it('should hold at least 70% of volume inside the value area', () => {
+        const profile = buildVolumeProfile(barsFrom(CLOSES, VOLUMES), { bins: 10 })!
+        const inside = profile.bins
+            .filter(b => b.low >= profile.val - 1e-9 && b.high <= profile.vah + 1e-9)
+            .reduce((sum, b) => sum + b.volume, 0)
+
+        expect(profile.val).toBeLessThan(profile.poc)
+        expect(profile.vah).toBeGreaterThan(profile.poc)
+        expect(inside / profile.totalVolume).toBeGreaterThanOrEqual(0.7)
+    })
+
+    it('should return null without range or volume', () => {
+        expect(buildVolumeProfile({ highs: [5, 5], lows: [5, 5], closes: [5, 5], volumes: [1, 1] })).toBeNull()
+        expect(buildVolumeProfile(barsFrom(CLOSES, CLOSES.map(() => 0)))).toBeNull()
+    })
+
+    it('should start anchored VWAP at the anchor bar', () => {
+        const { highs, lows, closes, volumes } = barsFrom([10, 12, 14, 16], [1, 1, 1, 3])
+        const series = anchoredVwap(highs, lows, closes, volumes, 2)
+
+        expect(series.slice(0, 2)).toEqual([null, null])
+        expect(series[2]).toBeCloseTo(14, 6)
+        expect(series[3]).toBeCloseTo((14 + 16 * 3) / 4, 6)
+    })
+
+    it('should anchor VWAPs on the extreme swings and split levels around price', () => {
+        // Up to a swing high at bar 10, down to a swing low at bar 22, then a bounce
+        const closes = [
+            ...Array.from({ length: 11 }, (_, i) => 100 + i * 2),
+            ...Array.from({ length: 12 }, (_, i) => 118 - i * 2),
+            ...Array.from({ length: 8 }, (_, i) => 98 + i),
+        ]
+        const bars = barsFrom(closes, closes.map(() => 100))
+        const anchors = findAnchoredVwaps(bars)
+
+        expect(anchors.map(a => [a.anchorType, a.anchorIndex])).toEqual([['HIGH', 10], ['LOW', 22]])
+
+        const price = closes[closes.length - 1]
+        const levels = analyzeVolumeLevels(bars, price)
+        expect(levels.support.every(p => p < price)).toBe(true)
+        expect(levels.resistance.every(p => p > price)).toBe(true)
+        expect(levels.resistance).toContain(anchors[0].value)
+        expect(levels.support).toContain(anchors[1].value)
+    })
+})
@@ -2,21 +2,62 @@
  * Simple Backtesting Framework for IDX Trading Assistant
  * 
  * Validates strategy performance on historical data with:
- * - RSI, MACD, Bollinger Bands, Multi-indicator strategies
+ * - Declarative strategy specs (see `shared/strategySpec`); the RSI, MACD,
+ *   Bollinger Bands and Multi-indicator strategies are built-in specs
+ * - Stop-loss / take-profit / trailing / ATR stops and position sizing rules
+ * - Exit management: scale-outs at TP1/TP2/TP3, breakeven, ATR and chandelier
+ *   trailing stops, time stops; every SELL records the rule that closed it
  * - IDX transaction fees (0.15% buy, 0.25% sell)
- * - Key metrics: Win rate, Profit factor, Max drawdown, Sharpe ratio
+ * - Pluggable execution models (see `shared/executionModel`): close or
+ *   next-open fills on valid IDX ticks, lots, slippage, volume caps, ARA/ARB
+ * - Intraday bars (1m/5m/15m) for scalping: trades only inside the IDX
+ *   sessions, flat by the close (BPJS: buy in session 1, sell by the close),
+ *   with holding-time and time-of-day metrics
+ * - Key metrics: Win rate, Profit factor, Max drawdown, Sharpe, Sortino and
+ *   Calmar ratios, market exposure
+ * - Benchmark-relative metrics against IHSG (and optionally LQ45): alpha,
+ *   beta, correlation, information ratio, tracking error
  */
 
-import YahooFinance from "yahoo-finance2";
-const yahooFinance = new YahooFinance();
+import { fetchChart, type HistoricalQuote } from "@/backend/data/marketData";
+import type { ChartInterval } from "@/backend/data/types";
+import { BENCHMARK_INDICES } from "@/shared/constants";
 import {
-    calculateRSI,
-    calculateMACD,
-    calculateBollingerBands,
-    type IndicatorResult,
-    type MACDResult,
-    type BollingerBandsResult,
-} from "./indicators";
+    BACKTEST_TIMEFRAMES,
+    DEFAULT_INTRADAY_INTERVAL,
+    clampBacktestDays,
+    type BacktestInterval,
+    type IntradayInterval,
+} from "@/shared/backtestTimeframes";
+import {
+    DEFAULT_EXECUTION_MODEL,
+    EXECUTION_MODELS,
+    describeExecutionModel,
+    fillableShares,
+    quoteFill,
+    type ExecutionModel,
+    type FillBar,
+} from "@/shared/executionModel";
+import { roundToTick } from "@/shared/idxMarketRules";
+import {
+    formatJakartaTime,
+    getJakartaDateKey,
+    getJakartaMinutes,
+    getTradingSchedule,
+} from "@/shared/marketClock";
+import {
+    BUILT_IN_STRATEGIES,
+    isBuiltInStrategy,
+    resolveParam,
+    validateStrategySpec,
+    type BuiltInStrategyId,
+    type ParamValue,
+    type PositionSizing,
+    type StrategySpec,
+} from "@/shared/strategySpec";
+import { closedPositions } from "@/shared/roundTrips";
+import { mean, pearsonCorrelation } from "@/shared/statistics";
+import { compileStrategy, toStrategyBars, type CompiledStrategy } from "./strategyEngine";
 
 // ============================================================================
 // Type Definitions
@@ -32,13 +73,24 @@ export interface Trade {
     profit?: number;
     profitPercent?: number;
     reason: string;
+    /** Rule that closed this (part of the) position; SELLs only */
+    exitRule?: ExitRule;
+}
+
+export interface EquityPoint {
+    date: string;
+    /** Cash plus open position marked to the bar's close (IDR) */
+    equity: number;
 }
 
 export interface BacktestResult {
     strategy: string;
+    /** The spec that produced this result (rerun it as-is) */
+    spec: StrategySpec;
     symbol: string;
     period: { start: string; end: string };
     totalTrades: number;
+    /** Closed round trips; all SELLs of one entry count once */
     winningTrades: number;
     losingTrades: number;
     winRate: number;
@@ -46,14 +98,85 @@ export interface BacktestResult {
     profitFactor: number;
     maxDrawdown: number;
     sharpeRatio: number;
+    /** Like Sharpe, but only downside volatility counts as risk (null without down days) */
+    sortinoRatio: number | null;
+    /** CAGR over max drawdown (null without a drawdown) */
+    calmarRatio: number | null;
+    /** Percent of bars with an open position */
+    exposurePercent: number;
+    /** Total return per unit of time in the market (total return ÷ exposure) */
+    exposureAdjustedReturn: number;
     averageWin: number;
     averageLoss: number;
     largestWin: number;
     largestLoss: number;
     trades: Trade[];
+    /** Equity at every bar from the first tradable bar on */
+    equityCurve: EquityPoint[];
     buyAndHoldReturn: number;
     outperformsBuyHold: boolean;
+    /** The strategy against each index it was compared with */
+    benchmarks: BenchmarkComparison[];
     isViable: boolean;
+    /** The execution model the fills were simulated with */
+    execution: {
+        model: ExecutionModel;
+        description: string;
+        /** Orders refused at ARA/ARB or cut to nothing by lot/volume limits */
+        rejectedOrders: number;
+    };
+    /** Session metrics, present for intraday backtests */
+    intraday?: IntradayStats;
+}
+
+export type BenchmarkIndex = keyof typeof BENCHMARK_INDICES;
+
+/**
+ * Strategy vs index over the days both have a close. Daily returns are used
+ * for intraday runs too.
+ */
+export interface BenchmarkComparison {
+    index: BenchmarkIndex;
+    symbol: string;
+    /** Days both series have a close */
+    days: number;
+    /** Index buy-and-hold over those days, % */
+    totalReturn: number;
+    /** Strategy return minus the index return over those days, percentage points */
+    excessReturn: number;
+    /** Annualized Jensen's alpha over the risk-free rate, % */
+    alpha: number;
+    beta: number;
+    /** Correlation of daily returns */
+    correlation: number;
+    /** Annualized excess return over tracking error */
+    informationRatio: number;
+    /** Annualized volatility of the daily excess returns, % */
+    trackingError: number;
+}
+
+/** Index candles to compare a run with */
+export interface BenchmarkSeries {
+    index: BenchmarkIndex;
+    quotes: HistoricalQuote[];
+}
+
+export interface TimeOfDayStats {
+    /** Hour the trades were entered, HH:00 WIB */
+    slot: string;
+    trades: number;
+    winRate: number;
+    averageReturn: number;
+}
+
+export interface IntradayStats {
+    interval: IntradayInterval;
+    /** Trading days in the tested period */
+    sessions: number;
+    averageHoldingMinutes: number;
+    /** Positions closed by the end-of-day flat rule */
+    flatAtCloseExits: number;
+    timeOfDay: TimeOfDayStats[];
 }
 
 export interface StrategyRanking {
@@ -70,20 +193,50 @@ export interface StrategyRanking {
     worstStrategy: string;
 }
 
-interface HistoricalQuote {
-    date: Date;
-    open: number | null;
-    high: number | null;
-    low: number | null;
-    close: number | null;
-    volume: number | null;
+export type StrategyType = BuiltInStrategyId;
+
+export interface BacktestOptions {
+    /**
+     * First bar allowed to trade. Earlier bars only warm up the indicators
+     * (used to test a window without losing its start to the warm-up).
+     */
+    startIndex?: number;
+    /** How orders fill (default: the IDX realistic model) */
+    execution?: ExecutionModel;
+    /** Treat the candles as intraday bars and respect the IDX sessions */
+    intraday?: IntradayOptions;
+    /** Daily index candles for the benchmark-relative metrics */
+    benchmarks?: BenchmarkSeries[];
 }
 
-interface ChartResult {
-    quotes: HistoricalQuote[];
+export interface IntradayOptions {
+    interval: IntradayInterval;
+    /** Close every position on the trading day's last bar (default true) */
+    flatAtClose?: boolean;
+    /** BPJS (beli pagi, jual sore): enter only in session 1, always flat by the close */
+    bpjs?: boolean;
+}
+
+export interface RunBacktestOptions {
+    execution?: ExecutionModel;
+    /** Bar size (default: 5m for scalping, daily for swing) */
+    interval?: BacktestInterval;
+    bpjs?: boolean;
+    /** Close intraday positions at the end of each day (default true) */
+    flatAtClose?: boolean;
+    /** Indices to compare against (default: IHSG) */
+    benchmarks?: BenchmarkIndex[];
 }
 
-type StrategyType = "RSI" | "MACD" | "BOLLINGER" | "MULTI";
+/** Order raised on a bar's close, filled on the same close or the next open */
+interface PendingOrder {
+    side: "BUY" | "SELL";
+    reason: string;
+    signalIndex: number;
+    rule?: ExitRule;
+    /** Percent of the original position for partial SELLs; full exit when absent */
+    sizePercent?: number | null;
+}
 
 // ============================================================================
 // Constants
@@ -95,8 +248,9 @@ const IDX_FEES = {
 };
 
 const INITIAL_CAPITAL = 100_000_000; // 100M IDR
-const POSITION_SIZE = 0.95; // 95% of available capital per trade
-const STOP_LOSS_PERCENT = 0.02; // 2% stop loss
+const RISK_FREE_RATE = 0.06; // 6% annual (Indonesia rate)
+const TRADING_DAYS = 252;
+const POSITION_SIZE = 0.95; // 95% of available capital per trade (default sizing)
 
 // ============================================================================
 // Helper Functions
@@ -105,25 +259,19 @@ const STOP_LOSS_PERCENT = 0.02; // 2% stop loss
 /**
  * Fetch historical data for backtesting
  */
-async function fetchHistoricalData(
+export async function fetchHistoricalData(
     symbol: string,
-    daysBack: number
+    daysBack: number,
+    interval: ChartInterval = "1d"
 ): Promise<HistoricalQuote[]> {
     try {
         const symbolWithSuffix = symbol.toUpperCase().endsWith(".JK")
             ? symbol
             : `${symbol.toUpperCase()}.JK`;
 
-        const endDate = new Date();
-        const startDate = new Date(Date.now() - daysBack * 24 * 60 * 60 * 1000);
+        const quotes = await fetchChart(symbolWithSuffix, interval, daysBack);
 
-        const chartResult = await yahooFinance.chart(symbolWithSuffix, {
-            period1: startDate,
-            period2: endDate,
-            interval: "1d",
-        }) as ChartResult;
-
-        return chartResult.quotes.filter(
+        return quotes.filter(
             (q) => q.close !== null && q.date !== null
         );
     } catch (error) {
@@ -142,7 +290,7 @@ function calculateFees(value: number, type: "BUY" | "SELL"): number {
 /**
  * Calculate Sharpe Ratio
  */
-function calculateSharpeRatio(returns: number[]): number {
+export function calculateSharpeRatio(returns: number[]): number {
     if (returns.length === 0) return 0;
 
     const avgReturn = returns.reduce((sum, r) => sum + r, 0) / returns.length;
@@ -154,17 +302,114 @@ function calculateSharpeRatio(returns: number[]): number {
     if (stdDev === 0) return 0;
 
     // Annualized (assuming daily returns)
-    const annualizedReturn = avgReturn * 252;
-    const annualizedStdDev = stdDev * Math.sqrt(252);
-    const riskFreeRate = 0.06; // 6% annual (Indonesia rate)
+    const annualizedReturn = avgReturn * TRADING_DAYS;
+    const annualizedStdDev = stdDev * Math.sqrt(TRADING_DAYS);
 
-    return (annualizedReturn - riskFreeRate) / annualizedStdDev;
+    return (annualizedReturn - RISK_FREE_RATE) / annualizedStdDev;
+}
+
+/**
+ * Calculate Sortino Ratio (downside deviation below a 0% daily return)
+ *
+ * @returns null when no day lost money (no downside to divide by)
+ */
+export function calculateSortinoRatio(returns: number[]): number | null {
+    const downsideDeviation = Math.sqrt(mean(returns.map((r) => Math.min(r, 0) ** 2)));
+    if (returns.length === 0 || downsideDeviation === 0) return null;
+
+    return (mean(returns) * TRADING_DAYS - RISK_FREE_RATE) / (downsideDeviation * Math.sqrt(TRADING_DAYS));
+}
+
+/**
+ * Calculate Calmar Ratio: CAGR of the daily returns over the max drawdown (%)
+ *
+ * @returns null when there was no drawdown
+ */
+export function calculateCalmarRatio(returns: number[], maxDrawdownPercent: number): number | null {
+    if (returns.length === 0 || maxDrawdownPercent === 0) return null;
+
+    const growth = returns.reduce((equity, r) => equity * (1 + r), 1);
+    const cagr = growth > 0 ? growth ** (TRADING_DAYS / returns.length) - 1 : -1;
+    return (cagr * 100) / maxDrawdownPercent;
+}
+
+/**
+ * Compare an equity curve with an index over the days both have a close.
+ *
+ * @param equity Equity points; intraday points ("YYYY-MM-DD HH:MM") are
+ *   reduced to the day's last one
+ * @param indexCloses Index close per day ("YYYY-MM-DD")
+ * @returns null with fewer than three shared days
+ */
+export function compareWithBenchmark(
+    index: BenchmarkIndex,
+    equity: EquityPoint[],
+    indexCloses: Map<string, number>
+): BenchmarkComparison | null {
+    const equityByDay = new Map<string, number>();
+    for (const point of equity) equityByDay.set(point.date.slice(0, 10), point.equity);
+
+    const days = Array.from(equityByDay.keys()).filter((day) => indexCloses.has(day));
+    if (days.length < 3) return null;
+
+    const strategyReturns: number[] = [];
+    const indexReturns: number[] = [];
+    for (let k = 1; k < days.length; k++) {
+        strategyReturns.push(equityByDay.get(days[k])! / equityByDay.get(days[k - 1])! - 1);
+        indexReturns.push(indexCloses.get(days[k])! / indexCloses.get(days[k - 1])! - 1);
+    }
+
+    const meanStrategy = mean(strategyReturns);
+    const meanIndex = mean(indexReturns);
+    const indexVariance = mean(indexReturns.map((r) => (r - meanIndex) ** 2));
+    const covariance = mean(strategyReturns.map((r, k) => (r - meanStrategy) * (indexReturns[k] - meanIndex)));
+    const beta = indexVariance > 0 ? covariance / indexVariance : 0;
+
+    const dailyRiskFree = RISK_FREE_RATE / TRADING_DAYS;
+    const alpha = (meanStrategy - dailyRiskFree - beta * (meanIndex - dailyRiskFree)) * TRADING_DAYS * 100;
+
+    const excess = strategyReturns.map((r, k) => r - indexReturns[k]);
+    const meanExcess = mean(excess);
+    const excessDeviation = Math.sqrt(mean(excess.map((r) => (r - meanExcess) ** 2)));
+
+    const first = days[0];
+    const last = days[days.length - 1];
+    const strategyReturn = (equityByDay.get(last)! / equityByDay.get(first)! - 1) * 100;
+    const totalReturn = (indexCloses.get(last)! / indexCloses.get(first)! - 1) * 100;
+
+    return {
+        index,
+        symbol: BENCHMARK_INDICES[index],
+        days: days.length,
+        totalReturn,
+        excessReturn: strategyReturn - totalReturn,
+        alpha,
+        beta,
+        correlation: pearsonCorrelation(strategyReturns, indexReturns),
+        informationRatio: excessDeviation > 0 ? (meanExcess / excessDeviation) * Math.sqrt(TRADING_DAYS) : 0,
+        trackingError: excessDeviation * Math.sqrt(TRADING_DAYS) * 100,
+    };
+}
+
+/**
+ * Fetch daily index candles; a failed index is left out of the comparison
+ */
+async function fetchBenchmarks(indices: BenchmarkIndex[], daysBack: number): Promise<BenchmarkSeries[]> {
+    const series = await Promise.all(indices.map(async (index) => {
+        try {
+            return { index, quotes: await fetchChart(BENCHMARK_INDICES[index], "1d", daysBack) };
+        } catch (error) {
+            console.warn(`[Backtest] Failed to fetch ${index} benchmark:`, error);
+            return null;
+        }
+    }));
+    return series.filter((s): s is BenchmarkSeries => s !== null);
 }
 
 /**
  * Calculate Maximum Drawdown
  */
-function calculateMaxDrawdown(equityCurve: number[]): number {
+export function calculateMaxDrawdown(equityCurve: number[]): number {
     if (equityCurve.length === 0) return 0;
 
     let maxDrawdown = 0;
@@ -180,181 +425,368 @@ function calculateMaxDrawdown(equityCurve: number[]): number {
 }
 
 // ============================================================================
-// Strategy Implementations
+// Strategy Resolution
 // ============================================================================
 
-interface StrategySignal {
-    action: "BUY" | "SELL" | "HOLD";
-    reason: string;
-}
-
 /**
- * RSI Strategy: Buy when RSI < 30, Sell when RSI > 70
+ * Built-in strategy id or custom spec → validated spec.
+ *
+ * @throws Error for unknown ids and invalid specs
  */
-function rsiStrategy(
-    rsi: IndicatorResult | null,
-    index: number,
-    inPosition: boolean,
-    entryPrice: number,
-    currentPrice: number
-): StrategySignal {
-    if (!rsi || index >= rsi.values.length) {
-        return { action: "HOLD", reason: "Insufficient data" };
+export function resolveStrategySpec(strategy: StrategyType | StrategySpec): StrategySpec {
+    if (typeof strategy === "string") {
+        if (!isBuiltInStrategy(strategy)) throw new Error(`Unknown strategy: ${strategy}`);
+        return BUILT_IN_STRATEGIES[strategy];
     }
 
-    const rsiValue = rsi.values[index];
-
-    // Stop loss check
-    if (inPosition && currentPrice <= entryPrice * (1 - STOP_LOSS_PERCENT)) {
-        return { action: "SELL", reason: `Stop loss triggered at ${STOP_LOSS_PERCENT * 100}%` };
+    const errors = validateStrategySpec(strategy);
+    if (errors.length > 0) {
+        throw new Error(`Invalid strategy "${strategy.name ?? "unnamed"}": ${errors.join("; ")}`);
     }
-
-    if (!inPosition && rsiValue < 30) {
-        return { action: "BUY", reason: `RSI oversold at ${rsiValue.toFixed(2)}` };
-    }
-
-    if (inPosition && rsiValue > 70) {
-        return { action: "SELL", reason: `RSI overbought at ${rsiValue.toFixed(2)}` };
-    }
-
-    return { action: "HOLD", reason: "No signal" };
+    return strategy;
 }
 
 /**
- * MACD Strategy: Buy on bullish crossover, Sell on bearish crossover
+ * Rupiah to allocate to a new position under the spec's sizing rule.
  */
-function macdStrategy(
-    macd: MACDResult | null,
-    index: number,
-    inPosition: boolean,
-    entryPrice: number,
-    currentPrice: number
-): StrategySignal {
-    if (!macd || index >= macd.histogram.length || index < 1) {
-        return { action: "HOLD", reason: "Insufficient data" };
-    }
-
-    // Stop loss check
-    if (inPosition && currentPrice <= entryPrice * (1 - STOP_LOSS_PERCENT)) {
-        return { action: "SELL", reason: `Stop loss triggered at ${STOP_LOSS_PERCENT * 100}%` };
+function positionValue(
+    sizing: PositionSizing,
+    parameters: Record<string, number>,
+    capital: number,
+    fillPrice: number,
+    stopPrice: number | null
+): number {
+    switch (sizing.type) {
+        case "FIXED_AMOUNT":
+            return Math.min(capital, resolveParam(sizing.amount, parameters));
+        case "RISK_PERCENT": {
+            if (stopPrice === null || stopPrice >= fillPrice) return capital * POSITION_SIZE;
+            const riskBudget = capital * (resolveParam(sizing.riskPercent, parameters) / 100);
+            return Math.min(capital, (riskBudget / (fillPrice - stopPrice)) * fillPrice);
+        }
+        case "PERCENT_EQUITY":
+        default:
+            return capital * Math.min(1, resolveParam(sizing.percent, parameters) / 100);
     }
+}
 
-    const currentHist = macd.histogram[index];
-    const prevHist = macd.histogram[index - 1];
+/**
+ * Which exit rule closed (part of) a position
+ */
+export type ExitRule =
+    | "STOP_LOSS"
+    | "ATR_STOP"
+    | "BREAKEVEN_STOP"
+    | "TRAILING_STOP"
+    | "ATR_TRAILING_STOP"
+    | "CHANDELIER_STOP"
+    | "TAKE_PROFIT"
+    | "SCALE_OUT"
+    | "TIME_STOP"
+    | "MAX_HOLDING"
+    | "SIGNAL"
+    | "END_OF_DAY"
+    | "END_OF_PERIOD";
+
+export interface ExitDecision {
+    rule: ExitRule;
+    reason: string;
+    /** Percent of the original position to sell; null sells everything left */
+    sizePercent: number | null;
+}
 
-    // Bullish crossover
-    if (!inPosition && prevHist < 0 && currentHist >= 0) {
-        return { action: "BUY", reason: "Bullish MACD crossover" };
-    }
+/** A scale-out level of an open position */
+export interface ScaleOutTarget {
+    label: string;
+    price: number;
+    /** Percent of the original position; null sells everything left */
+    sizePercent: number | null;
+}
 
-    // Bearish crossover
-    if (inPosition && prevHist > 0 && currentHist <= 0) {
-        return { action: "SELL", reason: "Bearish MACD crossover" };
-    }
+/**
+ * Protective levels of an open position
+ */
+export interface PositionState {
+    entryPrice: number;
+    entryIndex: number;
+    stopPrice: number | null;
+    stopReason: string;
+    stopRule: ExitRule;
+    targetPrice: number | null;
+    highestClose: number;
+    /** Scale-out targets, nearest first */
+    targets: ScaleOutTarget[];
+    /** Targets already reached */
+    targetsHit: number;
+    /** ATR or chandelier trailing level; only ever rises */
+    trailingStop: { price: number; rule: ExitRule; reason: string } | null;
+}
 
-    return { action: "HOLD", reason: "No signal" };
+export interface PositionRules {
+    /**
+     * Levels for a position filled at `fillPrice` on bar `index` (closing at
+     * `close`); ATR stops use the signal bar, which precedes next-open fills.
+     */
+    open(fillPrice: number, index: number, close: number, signalIndex?: number): PositionState;
+    /**
+     * Exit for the bar's close, or null to keep holding. Risk exits take
+     * precedence over the spec's exit signal, in this order: stop (fixed, ATR
+     * or breakeven) → trailing stops → take profit / scale-out targets → time
+     * stop → max bars. Updates the position's highest close, trailing level
+     * and targets reached.
+     */
+    exit(position: PositionState, price: number, index: number): ExitDecision | null;
 }
 
 /**
- * Bollinger Bands Strategy: Buy at lower band, Sell at upper band
+ * The spec's risk rules bound to a compiled strategy (shared by the single
+ * symbol and the portfolio backtester).
  */
-function bollingerStrategy(
-    bb: BollingerBandsResult | null,
-    index: number,
-    inPosition: boolean,
-    entryPrice: number,
-    currentPrice: number
-): StrategySignal {
-    if (!bb || index >= bb.lower.length) {
-        return { action: "HOLD", reason: "Insufficient data" };
-    }
+export function createPositionRules(compiled: CompiledStrategy): PositionRules {
+    const { spec, parameters } = compiled;
+    const risk = spec.risk ?? {};
+    const optional = (value: ParamValue | undefined) => (value === undefined ? null : resolveParam(value, parameters));
+    const stopLossPercent = optional(risk.stopLossPercent);
+    const takeProfitPercent = optional(risk.takeProfitPercent);
+    const trailingStopPercent = optional(risk.trailingStopPercent);
+    const maxHoldingBars = optional(risk.maxHoldingBars);
+    const atrOperand = risk.atrStop
+        ? { indicator: "ATR" as const, params: { period: risk.atrStop.period ?? 14 } }
+        : null;
+    const atrMultiplier = risk.atrStop ? resolveParam(risk.atrStop.multiplier, parameters) : 0;
+
+    const atrTrail = risk.atrTrailingStop
+        ? {
+            atr: { indicator: "ATR" as const, params: { period: risk.atrTrailingStop.period ?? 14 } },
+            multiplier: resolveParam(risk.atrTrailingStop.multiplier, parameters),
+        }
+        : null;
+    const chandelier = risk.chandelierStop
+        ? {
+            atr: { indicator: "ATR" as const, params: { period: risk.chandelierStop.period ?? 22 } },
+            highest: { indicator: "DONCHIAN" as const, params: { period: risk.chandelierStop.period ?? 22 }, field: "upper" },
+            multiplier: resolveParam(risk.chandelierStop.multiplier, parameters),
+        }
+        : null;
+    const timeStop = risk.timeStop
+        ? { bars: resolveParam(risk.timeStop.bars, parameters), minProfitPercent: optional(risk.timeStop.minProfitPercent) ?? 0 }
+        : null;
+    const levels = (risk.takeProfitLevels ?? []).map((level, i, all) => ({
+        percent: optional(level.percent),
+        rMultiple: optional(level.rMultiple),
+        // Unsized levels split the position evenly; the last one takes the rest
+        sizePercent: i === all.length - 1 && level.sizePercent === undefined
+            ? null
+            : optional(level.sizePercent) ?? 100 / all.length,
+    }));
+
+    /** Raise the trailing level when `price` is above it */
+    const ratchet = (position: PositionState, price: number | null, rule: ExitRule, reason: string) => {
+        if (price === null || !Number.isFinite(price)) return;
+        if (!position.trailingStop || price > position.trailingStop.price) {
+            position.trailingStop = { price, rule, reason };
+        }
+    };
 
-    // Stop loss check
-    if (inPosition && currentPrice <= entryPrice * (1 - STOP_LOSS_PERCENT)) {
-        return { action: "SELL", reason: `Stop loss triggered at ${STOP_LOSS_PERCENT * 100}%` };
-    }
+    return {
+        open(fillPrice, index, close, signalIndex = index) {
+            const stops: { price: number; reason: string; rule: ExitRule }[] = [];
+            if (stopLossPercent !== null) {
+                stops.push({ price: fillPrice * (1 - stopLossPercent / 100), reason: `Stop loss triggered at ${stopLossPercent}%`, rule: "STOP_LOSS" });
+            }
+            const atrValue = atrOperand ? compiled.valueOf(atrOperand, signalIndex) : null;
+            if (atrValue !== null) {
+                stops.push({ price: fillPrice - atrMultiplier * atrValue, reason: `ATR stop triggered (${atrMultiplier}× ATR)`, rule: "ATR_STOP" });
+            }
+            // The tightest stop wins
+            const stop = stops.reduce<{ price: number; reason: string; rule: ExitRule } | null>(
+                (best, s) => (!best || s.price > best.price ? s : best),
+                null
+            );
+
+            // R-multiple targets need a stop below the entry to measure 1R
+            const initialRisk = stop && stop.price < fillPrice ? fillPrice - stop.price : null;
+            const targets = levels
+                .map((level) => ({
+                    price: level.percent !== null
+                        ? fillPrice * (1 + level.percent / 100)
+                        : initialRisk !== null && level.rMultiple !== null ? fillPrice + level.rMultiple * initialRisk : NaN,
+                    sizePercent: level.sizePercent,
+                }))
+                .filter((t) => Number.isFinite(t.price) && t.price > fillPrice)
+                .sort((a, b) => a.price - b.price)
+                .map((t, i) => ({ label: `TP${i + 1}`, ...t }));
+
+            return {
+                entryPrice: fillPrice,
+                entryIndex: index,
+                stopPrice: stop?.price ?? null,
+                stopReason: stop?.reason ?? "",
+                stopRule: stop?.rule ?? "STOP_LOSS",
+                targetPrice: takeProfitPercent !== null ? fillPrice * (1 + takeProfitPercent / 100) : null,
+                highestClose: close,
+                targets,
+                targetsHit: 0,
+                trailingStop: null,
+            };
+        },
 
-    const lowerBand = bb.lower[index];
-    const upperBand = bb.upper[index];
+        exit(position, price, index) {
+            position.highestClose = Math.max(position.highestClose, price);
+            const full = (rule: ExitRule, reason: string): ExitDecision => ({ rule, reason, sizePercent: null });
+
+            if (atrTrail) {
+                const atr = compiled.valueOf(atrTrail.atr, index);
+                ratchet(
+                    position,
+                    atr === null ? null : position.highestClose - atrTrail.multiplier * atr,
+                    "ATR_TRAILING_STOP",
+                    `ATR trailing stop triggered (${atrTrail.multiplier}× ATR below ${position.highestClose.toFixed(0)})`
+                );
+            }
+            if (chandelier) {
+                const atr = compiled.valueOf(chandelier.atr, index);
+                const highest = compiled.valueOf(chandelier.highest, index);
+                ratchet(
+                    position,
+                    atr === null || highest === null ? null : highest - chandelier.multiplier * atr,
+                    "CHANDELIER_STOP",
+                    `Chandelier stop triggered (${chandelier.multiplier}× ATR below the ${chandelier.highest.params.period}-bar high)`
+                );
+            }
+
+            if (position.stopPrice !== null && price <= position.stopPrice) {
+                return full(position.stopRule, position.stopReason);
+            }
+            if (trailingStopPercent !== null && price <= position.highestClose * (1 - trailingStopPercent / 100)) {
+                return full("TRAILING_STOP", `Trailing stop triggered at ${trailingStopPercent}% below ${position.highestClose.toFixed(0)}`);
+            }
+            if (position.trailingStop && price <= position.trailingStop.price) {
+                return full(position.trailingStop.rule, position.trailingStop.reason);
+            }
+            if (position.targetPrice !== null && price >= position.targetPrice) {
+                return full("TAKE_PROFIT", `Take profit reached at ${takeProfitPercent}%`);
+            }
+
+            // Every target the close has reached goes in one order
+            const reached = position.targets.slice(position.targetsHit).filter((t) => price >= t.price);
+            if (reached.length > 0) {
+                position.targetsHit += reached.length;
+                if (risk.breakEvenAfterFirstTarget && (position.stopPrice === null || position.stopPrice < position.entryPrice)) {
+                    position.stopPrice = position.entryPrice;
+                    position.stopRule = "BREAKEVEN_STOP";
+                    position.stopReason = "Breakeven stop triggered after TP1";
+                }
+                const last = position.targetsHit === position.targets.length || reached.some((t) => t.sizePercent === null);
+                return {
+                    rule: "SCALE_OUT",
+                    reason: `${reached.map((t) => t.label).join(" + ")} reached at ${reached[reached.length - 1].price.toFixed(0)}`,
+                    sizePercent: last ? null : reached.reduce((sum, t) => sum + (t.sizePercent ?? 0), 0),
+                };
+            }
+
+            const held = index - position.entryIndex;
+            if (timeStop && held >= timeStop.bars &&
+                ((price - position.entryPrice) / position.entryPrice) * 100 < timeStop.minProfitPercent) {
+                return full("TIME_STOP", `Time stop: under ${timeStop.minProfitPercent}% after ${timeStop.bars} bars`);
+            }
+            if (maxHoldingBars !== null && held >= maxHoldingBars) {
+                return full("MAX_HOLDING", `Max holding period of ${maxHoldingBars} bars reached`);
+            }
+            const exit = compiled.exit(index);
+            return exit.passed ? full("SIGNAL", `Exit: ${exit.reasons.join(", ")}`) : null;
+        },
+    };
+}
 
-    if (!inPosition && currentPrice <= lowerBand) {
-        return { action: "BUY", reason: `Price at lower Bollinger Band (${lowerBand.toFixed(0)})` };
-    }
+// ============================================================================
+// Intraday Sessions
+// ============================================================================
 
-    if (inPosition && currentPrice >= upperBand) {
-        return { action: "SELL", reason: `Price at upper Bollinger Band (${upperBand.toFixed(0)})` };
-    }
+/** Where an intraday bar sits in the IDX trading day */
+interface SessionBar {
+    /** Jakarta date, YYYY-MM-DD */
+    day: string;
+    /** Inside session 1 or 2 (continuous trading, not the auctions or the break) */
+    tradable: boolean;
+    /** Inside session 1 */
+    morning: boolean;
+    lastOfDay: boolean;
+    /** Previous trading day's last close, the ARA/ARB reference */
+    previousDayClose: number | null;
+}
 
-    return { action: "HOLD", reason: "No signal" };
+/** A closed position (all SELL legs of one entry), for the intraday metrics */
+interface RoundTrip {
+    entryTime: number;
+    /** Time of the last leg */
+    exitTime: number;
+    profit: number;
+    /** Entry cost of the shares sold so far */
+    cost: number;
+    profitPercent: number;
+    /** Reason of the last leg */
+    reason: string;
 }
 
-/**
- * Multi-indicator Strategy: Requires 2+ indicators to agree
- */
-function multiIndicatorStrategy(
-    rsi: IndicatorResult | null,
-    macd: MACDResult | null,
-    bb: BollingerBandsResult | null,
-    index: number,
-    inPosition: boolean,
-    entryPrice: number,
-    currentPrice: number
-): StrategySignal {
-    // Stop loss check
-    if (inPosition && currentPrice <= entryPrice * (1 - STOP_LOSS_PERCENT)) {
-        return { action: "SELL", reason: `Stop loss triggered at ${STOP_LOSS_PERCENT * 100}%` };
-    }
+const END_OF_DAY_FLAT = "End of day flat";
 
-    let buySignals = 0;
-    let sellSignals = 0;
-    const reasons: string[] = [];
-
-    // RSI signal
-    if (rsi && index < rsi.values.length) {
-        const rsiValue = rsi.values[index];
-        if (rsiValue < 30) {
-            buySignals++;
-            reasons.push(`RSI oversold (${rsiValue.toFixed(2)})`);
-        } else if (rsiValue > 70) {
-            sellSignals++;
-            reasons.push(`RSI overbought (${rsiValue.toFixed(2)})`);
-        }
-    }
+function describeSessions(quotes: HistoricalQuote[], closes: number[]): SessionBar[] {
+    const days = quotes.map((q) => getJakartaDateKey(q.date));
+    let previousDayClose: number | null = null;
 
-    // MACD signal
-    if (macd && index < macd.histogram.length && index >= 1) {
-        const currentHist = macd.histogram[index];
-        const prevHist = macd.histogram[index - 1];
-        if (prevHist < 0 && currentHist >= 0) {
-            buySignals++;
-            reasons.push("Bullish MACD crossover");
-        } else if (prevHist > 0 && currentHist <= 0) {
-            sellSignals++;
-            reasons.push("Bearish MACD crossover");
-        }
-    }
+    return quotes.map((q, i) => {
+        if (i > 0 && days[i] !== days[i - 1]) previousDayClose = closes[i - 1];
 
-    // Bollinger Bands signal
-    if (bb && index < bb.lower.length) {
-        if (currentPrice <= bb.lower[index]) {
-            buySignals++;
-            reasons.push("Price at lower BB");
-        } else if (currentPrice >= bb.upper[index]) {
-            sellSignals++;
-            reasons.push("Price at upper BB");
-        }
-    }
+        const minutes = getJakartaMinutes(q.date);
+        const schedule = getTradingSchedule(q.date);
+        const within = (phase: "SESSION_1" | "SESSION_2") =>
+            schedule.some((s) => s.phase === phase && minutes >= s.start && minutes < s.end);
+        const morning = within("SESSION_1");
 
-    // Require 2+ signals to agree
-    if (!inPosition && buySignals >= 2) {
-        return { action: "BUY", reason: `Multi-indicator BUY: ${reasons.join(", ")}` };
-    }
+        return {
+            day: days[i],
+            tradable: morning || within("SESSION_2"),
+            morning,
+            lastOfDay: i === quotes.length - 1 || days[i + 1] !== days[i],
+            previousDayClose,
+        };
+    });
+}
 
-    if (inPosition && sellSignals >= 2) {
-        return { action: "SELL", reason: `Multi-indicator SELL: ${reasons.join(", ")}` };
+/**
+ * Holding time and win rate by entry hour (WIB) of an intraday run.
+ */
+function summarizeIntraday(
+    interval: IntradayInterval,
+    sessions: SessionBar[],
+    startIndex: number,
+    roundTrips: RoundTrip[]
+): IntradayStats {
+    const slots = new Map<string, RoundTrip[]>();
+    for (const trip of roundTrips) {
+        const slot = `${formatJakartaTime(new Date(trip.entryTime)).slice(0, 2)}:00`;
+        slots.set(slot, [...(slots.get(slot) ?? []), trip]);
     }
 
-    return { action: "HOLD", reason: "Insufficient signal confluence" };
+    const holdingMinutes = roundTrips.map((t) => (t.exitTime - t.entryTime) / 60000);
+
+    return {
+        interval,
+        sessions: new Set(sessions.slice(startIndex).map((s) => s.day)).size,
+        averageHoldingMinutes: holdingMinutes.length > 0
+            ? holdingMinutes.reduce((a, b) => a + b, 0) / holdingMinutes.length
+            : 0,
+        flatAtCloseExits: roundTrips.filter((t) => t.reason.startsWith(END_OF_DAY_FLAT)).length,
+        timeOfDay: [...slots.entries()]
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([slot, trips]) => ({
+                slot,
+                trades: trips.length,
+                winRate: (trips.filter((t) => t.profitPercent > 0).length / trips.length) * 100,
+                averageReturn: trips.reduce((sum, t) => sum + t.profitPercent, 0) / trips.length,
+            })),
+    };
 }
 
 // ============================================================================
@@ -362,142 +794,286 @@ function multiIndicatorStrategy(
 // ============================================================================
 
 /**
- * Run backtest for a specific strategy
+ * Run backtest for a built-in strategy or a custom spec
  */
 export async function runBacktest(
     symbol: string,
-    strategy: StrategyType,
+    strategy: StrategyType | StrategySpec,
     mode: "scalping" | "swing",
-    customDays?: number
+    customDays?: number,
+    options: RunBacktestOptions = {}
 ): Promise<BacktestResult> {
-    const daysBack = customDays || (mode === "scalping" ? 30 : 90);
-    const historical = await fetchHistoricalData(symbol, daysBack);
+    const spec = resolveStrategySpec(strategy);
+    const interval = options.interval ?? (mode === "scalping" ? DEFAULT_INTRADAY_INTERVAL : "1d");
+    if (options.bpjs && interval === "1d") {
+        throw new Error("BPJS backtests need intraday bars (1m, 5m or 15m)");
+    }
+
+    const daysBack = clampBacktestDays(interval, customDays || (mode === "scalping" ? 30 : 90));
+    const historical = await fetchHistoricalData(symbol, daysBack, interval);
 
     if (historical.length < 30) {
-        throw new Error(`Insufficient data for backtest: ${historical.length} days`);
+        const unit = interval === "1d" ? "days" : `${interval} bars`;
+        throw new Error(`Insufficient data for backtest: ${historical.length} ${unit}`);
+    }
+
+    if (interval !== "1d") {
+        console.log(`[Backtest] ${symbol} on ${BACKTEST_TIMEFRAMES[interval].label} bars: ${historical.length} bars over ${daysBack} days`);
     }
 
-    // Extract price data
-    const closes = historical
-        .map((q) => q.close)
-        .filter((c): c is number => c !== null);
+    const benchmarks = await fetchBenchmarks(options.benchmarks ?? ["IHSG"], daysBack);
+
+    return backtestStrategy(symbol, historical, spec, {
+        execution: options.execution,
+        benchmarks,
+        intraday: interval === "1d"
+            ? undefined
+            : { interval, bpjs: options.bpjs, flatAtClose: options.flatAtClose },
+    });
+}
+
+/**
+ * Simulate a strategy spec over already-fetched candles (oldest to newest).
+ *
+ * Signals and risk exits are evaluated on each close; buys fill on the tick
+ * at/above the close, sells on the tick at/below.
+ *
+ * Intraday runs only open positions inside sessions 1 and 2, never carry a
+ * next-open entry into another day, and (unless disabled) sell everything at
+ * the day's last close. BPJS runs also restrict entries to session 1.
+ */
+export function backtestStrategy(
+    symbol: string,
+    historical: HistoricalQuote[],
+    spec: StrategySpec,
+    options: BacktestOptions = {}
+): BacktestResult {
+    const quotes = historical.filter((q) => q.close !== null);
+    const bars = toStrategyBars(quotes);
+    const closes = bars.closes;
+    const compiled = compileStrategy(spec, bars);
+    const { parameters } = compiled;
+
+    // Indicators need a warm-up period before the first signal
+    const startIndex = Math.max(1, compiled.warmup, options.startIndex ?? 0);
+    if (startIndex >= closes.length - 1) {
+        throw new Error(`Insufficient data for strategy warm-up: ${closes.length} bars, need more than ${startIndex + 1}`);
+    }
 
-    // Calculate indicators
-    const rsi = calculateRSI(closes);
-    const macd = calculateMACD(closes);
-    const bb = calculateBollingerBands(closes);
+    const risk = createPositionRules(compiled);
+    const execution = options.execution ?? EXECUTION_MODELS[DEFAULT_EXECUTION_MODEL];
+    const sizing = spec.sizing ?? { type: "PERCENT_EQUITY", percent: POSITION_SIZE * 100 };
+    const intraday = options.intraday;
+    const sessions = intraday ? describeSessions(quotes, closes) : null;
+    const flatAtClose = intraday ? intraday.bpjs === true || intraday.flatAtClose !== false : false;
+    const barMs = intraday ? Number.parseInt(intraday.interval, 10) * 60_000 : 0;
 
     // Initialize trading state
     let capital = INITIAL_CAPITAL;
     let shares = 0;
-    let entryPrice = 0;
-    let inPosition = false;
+    /** Shares bought; scale-out sizes are percents of this */
+    let entryShares = 0;
+    let position: PositionState | null = null;
+    /** Order waiting for the next bar's open (NEXT_OPEN fills) */
+    let pending: PendingOrder | null = null;
+    /** Full exit that could not (fully) fill yet; retried every bar until it does */
+    let unfilledExit: ExitDecision | null = null;
+    let rejectedOrders = 0;
     const trades: Trade[] = [];
     const equityCurve: number[] = [capital];
+    const equityPoints: EquityPoint[] = [];
     const dailyReturns: number[] = [];
-
-    // Calculate indicator offset (indicators need warm-up period)
-    const startIndex = 26; // MACD needs 26 periods minimum
-
-    // Run backtest
-    for (let i = startIndex; i < closes.length; i++) {
-        const currentPrice = closes[i];
-        const date = historical[i].date.toISOString().split("T")[0];
-
-        // Align indicator index
-        const rsiIndex = rsi ? i - (closes.length - rsi.values.length) : -1;
-        const macdIndex = macd ? i - (closes.length - macd.histogram.length) : -1;
-        const bbIndex = bb ? i - (closes.length - bb.lower.length) : -1;
-
-        // Get strategy signal
-        let signal: StrategySignal;
-
-        switch (strategy) {
-            case "RSI":
-                signal = rsiStrategy(rsi, rsiIndex, inPosition, entryPrice, currentPrice);
-                break;
-            case "MACD":
-                signal = macdStrategy(macd, macdIndex, inPosition, entryPrice, currentPrice);
-                break;
-            case "BOLLINGER":
-                signal = bollingerStrategy(bb, bbIndex, inPosition, entryPrice, currentPrice);
-                break;
-            case "MULTI":
-                signal = multiIndicatorStrategy(rsi, macd, bb, Math.min(rsiIndex, macdIndex, bbIndex), inPosition, entryPrice, currentPrice);
-                break;
-            default:
-                signal = { action: "HOLD", reason: "Unknown strategy" };
+    const roundTrips: RoundTrip[] = [];
+    let dayStartEquity = capital;
+    let entryTime = 0;
+    let barsInMarket = 0;
+
+    /** Add a SELL leg to the round trip of the current entry (scale-outs share one) */
+    const recordExit = (exitTime: number, profit: number, cost: number, reason: string) => {
+        let trip = roundTrips[roundTrips.length - 1];
+        if (!trip || trip.entryTime !== entryTime) {
+            trip = { entryTime, exitTime, profit: 0, cost: 0, profitPercent: 0, reason };
+            roundTrips.push(trip);
         }
+        trip.exitTime = exitTime;
+        trip.profit += profit;
+        trip.cost += cost;
+        trip.profitPercent = (trip.profit / trip.cost) * 100;
+        trip.reason = reason;
+    };
 
-        // Execute trades
-        if (signal.action === "BUY" && !inPosition) {
-            const buyValue = capital * POSITION_SIZE;
-            const fees = calculateFees(buyValue, "BUY");
-            const netValue = buyValue - fees;
-            shares = Math.floor(netValue / currentPrice);
-            entryPrice = currentPrice;
-            capital -= shares * currentPrice + fees;
-            inPosition = true;
+    const dateOf = (i: number) => sessions
+        ? `${sessions[i].day} ${formatJakartaTime(quotes[i].date)}`
+        : quotes[i].date.toISOString().split("T")[0];
+    const fillBar = (i: number): FillBar => ({
+        open: quotes[i].open ?? closes[i],
+        high: quotes[i].high,
+        low: quotes[i].low,
+        close: closes[i],
+        volume: quotes[i].volume,
+        previousClose: sessions ? sessions[i].previousDayClose : i > 0 ? closes[i - 1] : null,
+    });
+    /** Intraday bars are stamped with their start; a close fill happens one bar later */
+    const fillTime = (i: number, timing: ExecutionModel["fillTiming"]) =>
+        quotes[i].date.getTime() + (timing === "CLOSE" ? barMs : 0);
+    const canEnter = (i: number) => !sessions || (
+        sessions[i].tradable &&
+        (!intraday?.bpjs || sessions[i].morning) &&
+        !(flatAtClose && sessions[i].lastOfDay)
+    );
+
+    /** `atClose` forces a close fill whatever the model (end-of-day flat) */
+    const execute = (order: PendingOrder, i: number, atClose = false) => {
+        const model: ExecutionModel = atClose ? { ...execution, fillTiming: "CLOSE" } : execution;
+        const bar = fillBar(i);
+        const quote = quoteFill(model, order.side, bar);
+        // Only full exits are retried; a missed scale-out waits for the next rule
+        const retry = (): ExitDecision | null => order.side === "SELL" && !order.sizePercent
+            ? { rule: order.rule ?? "SIGNAL", reason: order.reason, sizePercent: null }
+            : null;
+        if (!quote.filled) {
+            rejectedOrders++;
+            if (order.side === "SELL") unfilledExit = retry();
+            return;
+        }
 
-            trades.push({
-                type: "BUY",
-                date,
-                price: currentPrice,
-                shares,
-                value: shares * currentPrice,
-                fees,
-                reason: signal.reason,
-            });
-        } else if (signal.action === "SELL" && inPosition) {
-            const sellValue = shares * currentPrice;
+        if (order.side === "SELL") {
+            if (!position) return;
+            const desired = order.sizePercent
+                ? Math.min(shares, (entryShares * order.sizePercent) / 100)
+                : shares;
+            const sold = fillableShares(model, bar, desired);
+            if (sold <= 0) {
+                // A scale-out smaller than one lot is skipped, not rejected
+                if (!order.sizePercent) rejectedOrders++;
+                unfilledExit = retry();
+                return;
+            }
+
+            const sellValue = sold * quote.price;
             const fees = calculateFees(sellValue, "SELL");
-            const profit = sellValue - fees - (shares * entryPrice);
-            const profitPercent = (profit / (shares * entryPrice)) * 100;
+            const profit = sellValue - fees - (sold * position.entryPrice);
+            const profitPercent = (profit / (sold * position.entryPrice)) * 100;
 
             capital += sellValue - fees;
+            shares -= sold;
 
             trades.push({
                 type: "SELL",
-                date,
-                price: currentPrice,
-                shares,
+                date: dateOf(i),
+                price: quote.price,
+                shares: sold,
                 value: sellValue,
                 fees,
                 profit,
                 profitPercent,
-                reason: signal.reason,
+                reason: sold < fillableShares({ ...model, maxVolumeParticipation: null }, bar, desired)
+                    ? `${order.reason} (partial fill)`
+                    : order.reason,
+                exitRule: order.rule,
             });
+            recordExit(fillTime(i, model.fillTiming), profit, sold * position.entryPrice, order.reason);
+
+            // A partial fill keeps the rest of the position for the next bar
+            unfilledExit = shares > 0 ? retry() : null;
+            if (shares === 0) position = null;
+            return;
+        }
 
-            shares = 0;
-            entryPrice = 0;
-            inPosition = false;
+        const opened = risk.open(quote.price, i, execution.fillTiming === "CLOSE" ? closes[i] : quote.price, order.signalIndex);
+        const buyValue = positionValue(sizing, parameters, capital, quote.price, opened.stopPrice);
+        const bought = fillableShares(execution, bar, (buyValue - calculateFees(buyValue, "BUY")) / quote.price);
+        if (bought <= 0) {
+            rejectedOrders++;
+            return;
+        }
+
+        const value = bought * quote.price;
+        const fees = calculateFees(value, "BUY");
+        shares = bought;
+        entryShares = bought;
+        position = opened;
+        entryTime = fillTime(i, model.fillTiming);
+        capital -= value + fees;
+
+        trades.push({
+            type: "BUY",
+            date: dateOf(i),
+            price: quote.price,
+            shares,
+            value,
+            fees,
+            reason: order.reason,
+        });
+    };
+
+    // Run backtest
+    for (let i = startIndex; i < closes.length; i++) {
+        const currentPrice = closes[i];
+
+        // Orders signalled on the previous close fill at this bar's open
+        // (intraday entries lapse rather than fill on another day's open)
+        if (pending) {
+            const order = pending;
+            pending = null;
+            const lapsed = sessions !== null && order.side === "BUY" && sessions[order.signalIndex].day !== sessions[i].day;
+            if (!lapsed) execute(order, i);
+        }
+
+        let order: PendingOrder | null = null;
+        if (position) {
+            const exit = unfilledExit ?? risk.exit(position, currentPrice, i);
+            if (exit) order = { side: "SELL", reason: exit.reason, signalIndex: i, rule: exit.rule, sizePercent: exit.sizePercent };
+        } else if (canEnter(i)) {
+            const entry = compiled.entry(i);
+            if (entry.passed) order = { side: "BUY", reason: `Entry: ${entry.reasons.join(", ")}`, signalIndex: i };
+        }
+
+        if (order) {
+            if (execution.fillTiming === "CLOSE") execute(order, i);
+            else if (i + 1 < closes.length) pending = order;
+        }
+
+        // Nothing is held overnight: sell the rest on the day's last close
+        if (sessions?.[i].lastOfDay && flatAtClose && position) {
+            if (pending?.side === "SELL") pending = null;
+            execute({ side: "SELL", reason: END_OF_DAY_FLAT, signalIndex: i, rule: "END_OF_DAY" }, i, true);
         }
 
         // Track equity curve
-        const currentEquity = capital + (inPosition ? shares * currentPrice : 0);
+        if (position) barsInMarket++;
+        const currentEquity = capital + (position ? shares * currentPrice : 0);
         equityCurve.push(currentEquity);
-
-        // Track daily returns
-        if (equityCurve.length > 1) {
+        equityPoints.push({ date: dateOf(i), equity: currentEquity });
+
+        // Intraday Sharpe uses one return per trading day, like the daily runs
+        if (sessions) {
+            if (sessions[i].lastOfDay) {
+                dailyReturns.push((currentEquity - dayStartEquity) / dayStartEquity);
+                dayStartEquity = currentEquity;
+            }
+        } else if (equityCurve.length > 1) {
             const prevEquity = equityCurve[equityCurve.length - 2];
             const dailyReturn = (currentEquity - prevEquity) / prevEquity;
             dailyReturns.push(dailyReturn);
         }
     }
 
-    // Close any open position at end
-    if (inPosition) {
-        const finalPrice = closes[closes.length - 1];
+    // Close any open position at end (marked to the last close, no execution costs beyond fees)
+    // (`execute` assigns the position inside a closure, which narrowing can't see)
+    const openPosition = position as PositionState | null;
+    if (openPosition) {
+        const finalPrice = roundToTick(closes[closes.length - 1], "down");
         const sellValue = shares * finalPrice;
         const fees = calculateFees(sellValue, "SELL");
-        const profit = sellValue - fees - (shares * entryPrice);
-        const profitPercent = (profit / (shares * entryPrice)) * 100;
+        const profit = sellValue - fees - (shares * openPosition.entryPrice);
+        const profitPercent = (profit / (shares * openPosition.entryPrice)) * 100;
 
         capital += sellValue - fees;
 
         trades.push({
             type: "SELL",
-            date: historical[historical.length - 1].date.toISOString().split("T")[0],
+            date: dateOf(quotes.length - 1),
             price: finalPrice,
             shares,
             value: sellValue,
@@ -505,49 +1081,79 @@ export async function runBacktest(
             profit,
             profitPercent,
             reason: "End of backtest period",
+            exitRule: "END_OF_PERIOD",
         });
+        recordExit(fillTime(quotes.length - 1, "CLOSE"), profit, shares * openPosition.entryPrice, "End of backtest period");
+
+        // The last point reflects the closing sale's fees
+        equityPoints[equityPoints.length - 1] = { date: dateOf(quotes.length - 1), equity: capital };
     }
 
-    // Calculate metrics
-    const sellTrades = trades.filter((t) => t.type === "SELL" && t.profit !== undefined);
-    const winningTrades = sellTrades.filter((t) => (t.profit || 0) > 0);
-    const losingTrades = sellTrades.filter((t) => (t.profit || 0) <= 0);
+    // Calculate metrics per round trip (scale-outs of one entry are one trade)
+    const closed = closedPositions(trades);
+    const winningTrades = closed.filter((p) => p.profit > 0);
+    const losingTrades = closed.filter((p) => p.profit <= 0);
 
-    const totalWins = winningTrades.reduce((sum, t) => sum + (t.profit || 0), 0);
-    const totalLosses = Math.abs(losingTrades.reduce((sum, t) => sum + (t.profit || 0), 0));
+    const totalWins = winningTrades.reduce((sum, p) => sum + p.profit, 0);
+    const totalLosses = Math.abs(losingTrades.reduce((sum, p) => sum + p.profit, 0));
 
-    const winProfits = winningTrades.map((t) => t.profit || 0);
-    const lossProfits = losingTrades.map((t) => Math.abs(t.profit || 0));
+    const winProfits = winningTrades.map((p) => p.profit);
+    const lossProfits = losingTrades.map((p) => Math.abs(p.profit));
 
     // Buy and hold comparison
     const buyAndHoldReturn =
         ((closes[closes.length - 1] - closes[startIndex]) / closes[startIndex]) * 100;
 
     const totalReturn = ((capital - INITIAL_CAPITAL) / INITIAL_CAPITAL) * 100;
+    const maxDrawdown = calculateMaxDrawdown(equityCurve);
+    const exposurePercent = (barsInMarket / (closes.length - startIndex)) * 100;
+
+    // Index candles keyed like the equity points' days
+    const dayKey = (date: Date) => (sessions ? getJakartaDateKey(date) : date.toISOString().split("T")[0]);
+    const benchmarks = (options.benchmarks ?? [])
+        .map(({ index, quotes: indexQuotes }) => compareWithBenchmark(
+            index,
+            equityPoints,
+            new Map(indexQuotes.filter((q) => q.close !== null).map((q) => [dayKey(q.date), q.close as number]))
+        ))
+        .filter((b): b is BenchmarkComparison => b !== null);
 
     const result: BacktestResult = {
-        strategy,
+        strategy: spec.name,
+        spec,
         symbol: symbol.toUpperCase().replace(".JK", ""),
         period: {
-            start: historical[startIndex].date.toISOString().split("T")[0],
-            end: historical[historical.length - 1].date.toISOString().split("T")[0],
+            start: dateOf(startIndex),
+            end: dateOf(quotes.length - 1),
         },
         totalTrades: trades.length,
         winningTrades: winningTrades.length,
         losingTrades: losingTrades.length,
-        winRate: sellTrades.length > 0 ? (winningTrades.length / sellTrades.length) * 100 : 0,
+        winRate: closed.length > 0 ? (winningTrades.length / closed.length) * 100 : 0,
         totalReturn,
         profitFactor: totalLosses > 0 ? totalWins / totalLosses : totalWins > 0 ? Infinity : 0,
-        maxDrawdown: calculateMaxDrawdown(equityCurve),
+        maxDrawdown,
         sharpeRatio: calculateSharpeRatio(dailyReturns),
+        sortinoRatio: calculateSortinoRatio(dailyReturns),
+        calmarRatio: calculateCalmarRatio(dailyReturns, maxDrawdown),
+        exposurePercent,
+        exposureAdjustedReturn: exposurePercent > 0 ? totalReturn / (exposurePercent / 100) : 0,
         averageWin: winProfits.length > 0 ? winProfits.reduce((a, b) => a + b, 0) / winProfits.length : 0,
         averageLoss: lossProfits.length > 0 ? lossProfits.reduce((a, b) => a + b, 0) / lossProfits.length : 0,
         largestWin: winProfits.length > 0 ? Math.max(...winProfits) : 0,
         largestLoss: lossProfits.length > 0 ? Math.max(...lossProfits) : 0,
         trades,
+        equityCurve: equityPoints,
         buyAndHoldReturn,
         outperformsBuyHold: totalReturn > buyAndHoldReturn,
-        isViable: (winningTrades.length / (sellTrades.length || 1)) >= 0.5 && calculateSharpeRatio(dailyReturns) > 0,
+        benchmarks,
+        isViable: (winningTrades.length / (closed.length || 1)) >= 0.5 && calculateSharpeRatio(dailyReturns) > 0,
+        execution: {
+            model: execution,
+            description: describeExecutionModel(execution),
+            rejectedOrders,
+        },
+        intraday: intraday && sessions ? summarizeIntraday(intraday.interval, sessions, startIndex, roundTrips) : undefined,
     };
 
     return result;
@@ -563,7 +1169,7 @@ export async function runAllStrategies(
     results: BacktestResult[];
     ranking: StrategyRanking;
 }> {
-    const strategies: StrategyType[] = ["RSI", "MACD", "BOLLINGER", "MULTI"];
+    const strategies = Object.keys(BUILT_IN_STRATEGIES) as StrategyType[];
     const results: BacktestResult[] = [];
 
     for (const strategy of strategies) {
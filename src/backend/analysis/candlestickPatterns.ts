@@ -0,0 +1,315 @@
+/**
+ * Candlestick Pattern Recognition
+ *
+ * Deterministic detector for the classic one-, two- and three-bar candlestick
+ * patterns over OHLC arrays (oldest to newest). Each hit reports the bar it
+ * completes on, its direction and a reliability grade, so scorers and signal
+ * generators can use the same facts instead of ad-hoc wick checks.
+ *
+ * Reversal patterns (hammer, shooting star, engulfing, stars) are only
+ * reported, or only graded higher, when the preceding bars actually trend
+ * the other way.
+ *
+ * @module backend/analysis/candlestickPatterns
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type CandlestickPatternName =
+    | 'BULLISH_ENGULFING'
+    | 'BEARISH_ENGULFING'
+    | 'HAMMER'
+    | 'SHOOTING_STAR'
+    | 'DOJI'
+    | 'MORNING_STAR'
+    | 'EVENING_STAR'
+    | 'THREE_WHITE_SOLDIERS'
+    | 'THREE_BLACK_CROWS'
+    | 'INSIDE_BAR'
+    | 'OUTSIDE_BAR'
+    | 'BULLISH_MARUBOZU'
+    | 'BEARISH_MARUBOZU';
+
+export type PatternDirection = 'BULLISH' | 'BEARISH' | 'NEUTRAL';
+export type PatternReliability = 'LOW' | 'MEDIUM' | 'HIGH';
+
+export interface CandlestickPattern {
+    name: CandlestickPatternName;
+    label: string;
+    /** Index of the bar that completes the pattern */
+    index: number;
+    /** Number of bars the pattern spans */
+    bars: number;
+    direction: PatternDirection;
+    reliability: PatternReliability;
+}
+
+export interface OHLCBars {
+    opens: number[];
+    highs: number[];
+    lows: number[];
+    closes: number[];
+}
+
+/** Client-facing view of a pattern: `barsAgo` instead of an absolute index */
+export interface PatternSummary {
+    name: CandlestickPatternName;
+    label: string;
+    direction: PatternDirection;
+    reliability: PatternReliability;
+    /** 0 = completed on the latest bar */
+    barsAgo: number;
+}
+
+export interface PatternDetectionOptions {
+    /** Only report patterns completing in the last N bars (default: all) */
+    lookback?: number;
+    /** Bars used to judge the prior trend (default: 5) */
+    trendBars?: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const LABELS: Record<CandlestickPatternName, string> = {
+    BULLISH_ENGULFING: 'Bullish Engulfing',
+    BEARISH_ENGULFING: 'Bearish Engulfing',
+    HAMMER: 'Hammer',
+    SHOOTING_STAR: 'Shooting Star',
+    DOJI: 'Doji',
+    MORNING_STAR: 'Morning Star',
+    EVENING_STAR: 'Evening Star',
+    THREE_WHITE_SOLDIERS: 'Three White Soldiers',
+    THREE_BLACK_CROWS: 'Three Black Crows',
+    INSIDE_BAR: 'Inside Bar',
+    OUTSIDE_BAR: 'Outside Bar',
+    BULLISH_MARUBOZU: 'Bullish Marubozu',
+    BEARISH_MARUBOZU: 'Bearish Marubozu',
+};
+
+/** Bars used for the "average body" that long/small candles are measured against */
+const AVG_BODY_PERIOD = 10;
+
+const RELIABILITY_WEIGHT: Record<PatternReliability, number> = {
+    LOW: 1,
+    MEDIUM: 2,
+    HIGH: 3,
+};
+
+// ============================================================================
+// Candle Geometry
+// ============================================================================
+
+interface Candle {
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+    body: number;
+    range: number;
+    upperWick: number;
+    lowerWick: number;
+    bullish: boolean;
+    bearish: boolean;
+}
+
+function candleAt(bars: OHLCBars, i: number): Candle {
+    const open = bars.opens[i];
+    const high = bars.highs[i];
+    const low = bars.lows[i];
+    const close = bars.closes[i];
+    return {
+        open,
+        high,
+        low,
+        close,
+        body: Math.abs(close - open),
+        range: high - low,
+        upperWick: high - Math.max(open, close),
+        lowerWick: Math.min(open, close) - low,
+        bullish: close > open,
+        bearish: close < open,
+    };
+}
+
+function averageBody(bars: OHLCBars, i: number): number {
+    const start = Math.max(0, i - AVG_BODY_PERIOD);
+    if (i <= start) return Math.abs(bars.closes[i] - bars.opens[i]);
+
+    let sum = 0;
+    for (let j = start; j < i; j++) sum += Math.abs(bars.closes[j] - bars.opens[j]);
+    return sum / (i - start);
+}
+
+/**
+ * Direction of the closes leading into bar `i` (exclusive).
+ */
+function priorTrend(bars: OHLCBars, i: number, trendBars: number): PatternDirection {
+    const end = i - 1;
+    const start = end - trendBars;
+    if (start < 0) return 'NEUTRAL';
+
+    const change = (bars.closes[end] - bars.closes[start]) / bars.closes[start];
+    if (change > 0.01) return 'BULLISH';
+    if (change < -0.01) return 'BEARISH';
+    return 'NEUTRAL';
+}
+
+// ============================================================================
+// Detection
+// ============================================================================
+
+/**
+ * Detect candlestick patterns over OHLC bars.
+ *
+ * @param bars - Aligned open/high/low/close arrays (oldest to newest)
+ * @param options - Lookback window and prior-trend length
+ * @returns Patterns ordered by completing bar
+ */
+export function detectCandlestickPatterns(
+    bars: OHLCBars,
+    options: PatternDetectionOptions = {}
+): CandlestickPattern[] {
+    const len = Math.min(bars.opens.length, bars.highs.length, bars.lows.length, bars.closes.length);
+    const trendBars = options.trendBars ?? 5;
+    const from = options.lookback ? Math.max(0, len - options.lookback) : 0;
+    const patterns: CandlestickPattern[] = [];
+
+    const add = (
+        name: CandlestickPatternName,
+        index: number,
+        span: number,
+        direction: PatternDirection,
+        reliability: PatternReliability
+    ) => {
+        patterns.push({ name, label: LABELS[name], index, bars: span, direction, reliability });
+    };
+
+    for (let i = from; i < len; i++) {
+        const c = candleAt(bars, i);
+        if (!(c.range > 0)) continue;
+
+        const avgBody = averageBody(bars, i);
+        const trend = priorTrend(bars, i, trendBars);
+
+        // --- Single bar ---
+        if (c.body <= c.range * 0.1) {
+            add('DOJI', i, 1, 'NEUTRAL', 'LOW');
+        } else if (c.body >= c.range * 0.9 && c.body > avgBody) {
+            add(c.bullish ? 'BULLISH_MARUBOZU' : 'BEARISH_MARUBOZU', i, 1, c.bullish ? 'BULLISH' : 'BEARISH', 'MEDIUM');
+        } else if (c.lowerWick >= c.body * 2 && c.upperWick <= c.body * 0.5 && trend === 'BEARISH') {
+            add('HAMMER', i, 1, 'BULLISH', 'MEDIUM');
+        } else if (c.upperWick >= c.body * 2 && c.lowerWick <= c.body * 0.5 && trend === 'BULLISH') {
+            add('SHOOTING_STAR', i, 1, 'BEARISH', 'MEDIUM');
+        }
+
+        if (i < 1) continue;
+        const p = candleAt(bars, i - 1);
+        const trendBeforePrev = priorTrend(bars, i - 1, trendBars);
+
+        // --- Two bars ---
+        if (p.bearish && c.bullish && c.open <= p.close && c.close >= p.open && c.body > p.body) {
+            add('BULLISH_ENGULFING', i, 2, 'BULLISH', trendBeforePrev === 'BEARISH' ? 'HIGH' : 'MEDIUM');
+        } else if (p.bullish && c.bearish && c.open >= p.close && c.close <= p.open && c.body > p.body) {
+            add('BEARISH_ENGULFING', i, 2, 'BEARISH', trendBeforePrev === 'BULLISH' ? 'HIGH' : 'MEDIUM');
+        }
+
+        if (c.high < p.high && c.low > p.low) {
+            add('INSIDE_BAR', i, 2, 'NEUTRAL', 'LOW');
+        } else if (c.high > p.high && c.low < p.low && c.body > 0) {
+            add('OUTSIDE_BAR', i, 2, c.bullish ? 'BULLISH' : 'BEARISH', 'LOW');
+        }
+
+        if (i < 2) continue;
+        const first = candleAt(bars, i - 2);
+        const firstMid = (first.open + first.close) / 2;
+        const trendBeforeFirst = priorTrend(bars, i - 2, trendBars);
+
+        // --- Three bars ---
+        const smallMiddle = p.body < first.body * 0.5 && p.body < avgBody;
+        if (first.bearish && first.body > avgBody && smallMiddle && c.bullish && c.close > firstMid) {
+            add('MORNING_STAR', i, 3, 'BULLISH', trendBeforeFirst === 'BEARISH' ? 'HIGH' : 'MEDIUM');
+        } else if (first.bullish && first.body > avgBody && smallMiddle && c.bearish && c.close < firstMid) {
+            add('EVENING_STAR', i, 3, 'BEARISH', trendBeforeFirst === 'BULLISH' ? 'HIGH' : 'MEDIUM');
+        }
+
+        const three = [first, p, c];
+        const longBodies = three.every((k) => k.body > avgBody * 0.6);
+        const opensInsidePrior = (k: Candle, prev: Candle) =>
+            k.open >= Math.min(prev.open, prev.close) && k.open <= Math.max(prev.open, prev.close);
+
+        if (
+            longBodies &&
+            three.every((k) => k.bullish && k.upperWick <= k.body * 0.3) &&
+            p.close > first.close && c.close > p.close &&
+            opensInsidePrior(p, first) && opensInsidePrior(c, p)
+        ) {
+            add('THREE_WHITE_SOLDIERS', i, 3, 'BULLISH', 'HIGH');
+        } else if (
+            longBodies &&
+            three.every((k) => k.bearish && k.lowerWick <= k.body * 0.3) &&
+            p.close < first.close && c.close < p.close &&
+            opensInsidePrior(p, first) && opensInsidePrior(c, p)
+        ) {
+            add('THREE_BLACK_CROWS', i, 3, 'BEARISH', 'HIGH');
+        }
+    }
+
+    return patterns;
+}
+
+/**
+ * Patterns completing within the last `withinBars` bars.
+ */
+export function getRecentPatterns(bars: OHLCBars, withinBars: number = 3): CandlestickPattern[] {
+    // Earlier bars still feed multi-bar patterns and the prior trend
+    return detectCandlestickPatterns(bars, { lookback: withinBars });
+}
+
+/**
+ * Recent patterns for API responses, newest first.
+ */
+export function summarizeRecentPatterns(bars: OHLCBars, withinBars: number = 3): PatternSummary[] {
+    const last = bars.closes.length - 1;
+    return getRecentPatterns(bars, withinBars)
+        .map(({ name, label, direction, reliability, index }) => ({
+            name,
+            label,
+            direction,
+            reliability,
+            barsAgo: last - index,
+        }))
+        .sort((a, b) => a.barsAgo - b.barsAgo);
+}
+
+/**
+ * Aligned OHLC arrays from quotes, skipping bars with a missing field.
+ */
+export function toOHLCBars(
+    quotes: { open: number | null; high: number | null; low: number | null; close: number | null }[]
+): OHLCBars {
+    const bars: OHLCBars = { opens: [], highs: [], lows: [], closes: [] };
+    for (const q of quotes) {
+        if (q.open == null || q.high == null || q.low == null || q.close == null) continue;
+        bars.opens.push(q.open);
+        bars.highs.push(q.high);
+        bars.lows.push(q.low);
+        bars.closes.push(q.close);
+    }
+    return bars;
+}
+
+/**
+ * Net directional weight of a set of patterns: bullish reliability weights
+ * minus bearish ones (LOW = 1, MEDIUM = 2, HIGH = 3). Neutral patterns count 0.
+ */
+export function getPatternBias(patterns: Pick<CandlestickPattern, 'direction' | 'reliability'>[]): number {
+    return patterns.reduce((sum, p) => {
+        if (p.direction === 'NEUTRAL') return sum;
+        const weight = RELIABILITY_WEIGHT[p.reliability];
+        return sum + (p.direction === 'BULLISH' ? weight : -weight);
+    }, 0);
+}
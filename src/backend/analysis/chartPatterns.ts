@@ -0,0 +1,533 @@
+/**
+ * Chart Pattern Detection
+ *
+ * Structural patterns built from confirmed swing points: triangles,
+ * rectangles, channels, double tops/bottoms, head and shoulders and
+ * flags/pennants. Every hit carries the objective trade facts of the
+ * pattern - breakout level, measured-move target and invalidation price -
+ * so screeners and AI prompts work from the same numbers.
+ *
+ * Patterns that already failed (closed through their invalidation) or broke
+ * out long ago are not reported.
+ *
+ * @module backend/analysis/chartPatterns
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ChartPatternType =
+    | 'ASCENDING_TRIANGLE'
+    | 'DESCENDING_TRIANGLE'
+    | 'SYMMETRICAL_TRIANGLE'
+    | 'RECTANGLE'
+    | 'RISING_CHANNEL'
+    | 'FALLING_CHANNEL'
+    | 'DOUBLE_TOP'
+    | 'DOUBLE_BOTTOM'
+    | 'HEAD_AND_SHOULDERS'
+    | 'INVERSE_HEAD_AND_SHOULDERS'
+    | 'BULL_FLAG'
+    | 'BEAR_FLAG'
+    | 'BULL_PENNANT'
+    | 'BEAR_PENNANT';
+
+export type ChartPatternDirection = 'BULLISH' | 'BEARISH' | 'NEUTRAL';
+
+/** FORMING = price still inside the pattern; BREAKOUT = closed through the breakout level */
+export type ChartPatternStatus = 'FORMING' | 'BREAKOUT';
+
+export interface SwingPoint {
+    index: number;
+    price: number;
+    type: 'HIGH' | 'LOW';
+}
+
+export interface ChartPattern {
+    type: ChartPatternType;
+    label: string;
+    direction: ChartPatternDirection;
+    status: ChartPatternStatus;
+    startIndex: number;
+    endIndex: number;
+    /** Price whose close-through confirms the pattern (neutral patterns quote the upside) */
+    breakoutLevel: number;
+    /** Measured-move objective from the breakout level */
+    target: number;
+    /** Close beyond this price negates the pattern */
+    invalidation: number;
+    /** Swing points (or pole/flag anchors) the pattern was built from */
+    pivots: SwingPoint[];
+}
+
+/** Client-facing view of a pattern, without bar indices */
+export interface ChartPatternSummary {
+    type: ChartPatternType;
+    label: string;
+    direction: ChartPatternDirection;
+    status: ChartPatternStatus;
+    breakoutLevel: number;
+    target: number;
+    invalidation: number;
+    /** Pattern length in bars */
+    bars: number;
+}
+
+export interface PriceBars {
+    highs: number[];
+    lows: number[];
+    closes: number[];
+}
+
+export interface ChartPatternOptions {
+    /** Only use swing points from the last N bars (default: 120) */
+    lookback?: number;
+    /** Bars on each side that a swing point must dominate (default: 3) */
+    pivotStrength?: number;
+    /** Relative tolerance for "equal" prices and "flat" lines (default: 0.02) */
+    tolerance?: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const LABELS: Record<ChartPatternType, string> = {
+    ASCENDING_TRIANGLE: 'Ascending Triangle',
+    DESCENDING_TRIANGLE: 'Descending Triangle',
+    SYMMETRICAL_TRIANGLE: 'Symmetrical Triangle',
+    RECTANGLE: 'Rectangle',
+    RISING_CHANNEL: 'Rising Channel',
+    FALLING_CHANNEL: 'Falling Channel',
+    DOUBLE_TOP: 'Double Top',
+    DOUBLE_BOTTOM: 'Double Bottom',
+    HEAD_AND_SHOULDERS: 'Head and Shoulders',
+    INVERSE_HEAD_AND_SHOULDERS: 'Inverse Head and Shoulders',
+    BULL_FLAG: 'Bull Flag',
+    BEAR_FLAG: 'Bear Flag',
+    BULL_PENNANT: 'Bull Pennant',
+    BEAR_PENNANT: 'Bear Pennant',
+};
+
+/** Breakouts older than this many bars are considered played out */
+const MAX_BREAKOUT_AGE = 5;
+
+/** Minimum peak-to-trough depth of a double top/bottom */
+const DOUBLE_MIN_DEPTH = 0.03;
+
+/** Flag pole: minimum move and the bars it may take */
+const FLAG_MIN_POLE = 0.08;
+const FLAG_POLE_BARS = 10;
+/** Flag body: bars between the pole tip and the latest bar */
+const FLAG_MIN_BARS = 3;
+const FLAG_MAX_BARS = 15;
+
+// ============================================================================
+// Swing Points & Lines
+// ============================================================================
+
+/**
+ * Confirmed swing highs and lows, oldest first. A bar is a swing high when its
+ * high exceeds the `strength` bars before it and is not exceeded by the
+ * `strength` bars after it (lows mirrored). The last `strength` bars can
+ * therefore never be swing points.
+ */
+export function findSwingPoints(highs: number[], lows: number[], strength: number = 3): SwingPoint[] {
+    const points: SwingPoint[] = [];
+    const len = Math.min(highs.length, lows.length);
+
+    for (let i = strength; i < len - strength; i++) {
+        let isHigh = true;
+        let isLow = true;
+        for (let j = 1; j <= strength; j++) {
+            if (!(highs[i] > highs[i - j]) || highs[i] < highs[i + j]) isHigh = false;
+            if (!(lows[i] < lows[i - j]) || lows[i] > lows[i + j]) isLow = false;
+        }
+        if (isHigh) points.push({ index: i, price: highs[i], type: 'HIGH' });
+        if (isLow) points.push({ index: i, price: lows[i], type: 'LOW' });
+    }
+
+    return points;
+}
+
+interface Line {
+    slope: number;
+    intercept: number;
+}
+
+const lineAt = (line: Line, index: number) => line.slope * index + line.intercept;
+
+/**
+ * Least-squares line through (index, price) points.
+ */
+function fitLine(points: { index: number; price: number }[]): Line {
+    const n = points.length;
+    const meanX = points.reduce((s, p) => s + p.index, 0) / n;
+    const meanY = points.reduce((s, p) => s + p.price, 0) / n;
+
+    let num = 0;
+    let den = 0;
+    for (const p of points) {
+        num += (p.index - meanX) * (p.price - meanY);
+        den += (p.index - meanX) ** 2;
+    }
+
+    const slope = den === 0 ? 0 : num / den;
+    return { slope, intercept: meanY - slope * meanX };
+}
+
+/** Relative change of a line between two bars */
+const lineChange = (line: Line, from: number, to: number) =>
+    (lineAt(line, to) - lineAt(line, from)) / lineAt(line, from);
+
+const fitsLine = (points: SwingPoint[], line: Line, tolerance: number) =>
+    points.every((p) => Math.abs(p.price - lineAt(line, p.index)) / lineAt(line, p.index) <= tolerance);
+
+/**
+ * First close after `from` through the upper or lower boundary.
+ */
+function findBreakout(
+    closes: number[],
+    from: number,
+    upper: (i: number) => number,
+    lower: (i: number) => number
+): { side: 'UP' | 'DOWN'; index: number } | null {
+    for (let i = from; i < closes.length; i++) {
+        if (closes[i] > upper(i)) return { side: 'UP', index: i };
+        if (closes[i] < lower(i)) return { side: 'DOWN', index: i };
+    }
+    return null;
+}
+
+// ============================================================================
+// Pattern Builders
+// ============================================================================
+
+function makePattern(
+    type: ChartPatternType,
+    direction: ChartPatternDirection,
+    status: ChartPatternStatus,
+    pivots: SwingPoint[],
+    endIndex: number,
+    levels: { breakoutLevel: number; target: number; invalidation: number }
+): ChartPattern {
+    return {
+        type,
+        label: LABELS[type],
+        direction,
+        status,
+        startIndex: pivots[0].index,
+        endIndex,
+        ...levels,
+        pivots,
+    };
+}
+
+/**
+ * Triangles, rectangles and channels from trendlines through the latest
+ * swing highs and lows.
+ */
+function detectBoundedPatterns(
+    bars: PriceBars,
+    highs: SwingPoint[],
+    lows: SwingPoint[],
+    tolerance: number
+): ChartPattern | null {
+    const last = bars.closes.length - 1;
+
+    for (const count of [3, 2]) {
+        if (highs.length < count || lows.length < count) continue;
+
+        const topPivots = highs.slice(-count);
+        const bottomPivots = lows.slice(-count);
+        const upper = fitLine(topPivots);
+        const lower = fitLine(bottomPivots);
+        if (!fitsLine(topPivots, upper, tolerance) || !fitsLine(bottomPivots, lower, tolerance)) continue;
+
+        const start = Math.min(topPivots[0].index, bottomPivots[0].index);
+        const height = lineAt(upper, start) - lineAt(lower, start);
+        if (height <= 0 || lineAt(upper, last) <= lineAt(lower, last)) continue;
+
+        const du = lineChange(upper, start, last);
+        const dl = lineChange(lower, start, last);
+        const flat = (d: number) => Math.abs(d) < tolerance;
+        const width = (i: number) => lineAt(upper, i) - lineAt(lower, i);
+        const parallel = Math.abs(width(last) - width(start)) / width(start) < 0.25;
+
+        let type: ChartPatternType | null = null;
+        let bias: ChartPatternDirection = 'NEUTRAL';
+        if (flat(du) && dl >= tolerance) { type = 'ASCENDING_TRIANGLE'; bias = 'BULLISH'; }
+        else if (du <= -tolerance && flat(dl)) { type = 'DESCENDING_TRIANGLE'; bias = 'BEARISH'; }
+        else if (du <= -tolerance && dl >= tolerance) type = 'SYMMETRICAL_TRIANGLE';
+        else if (flat(du) && flat(dl)) type = 'RECTANGLE';
+        else if (du >= tolerance && dl >= tolerance && parallel) { type = 'RISING_CHANNEL'; bias = 'BULLISH'; }
+        else if (du <= -tolerance && dl <= -tolerance && parallel) { type = 'FALLING_CHANNEL'; bias = 'BEARISH'; }
+        if (!type) continue;
+
+        const pivots = [...topPivots, ...bottomPivots].sort((a, b) => a.index - b.index);
+        const lastPivot = pivots[pivots.length - 1].index;
+        const breakout = findBreakout(bars.closes, lastPivot + 1, (i) => lineAt(upper, i), (i) => lineAt(lower, i));
+
+        if (breakout && last - breakout.index > MAX_BREAKOUT_AGE) return null;
+
+        // Triangles with a built-in bias fail when they break the other way;
+        // channels, rectangles and symmetrical triangles follow the break
+        let direction: ChartPatternDirection = bias;
+        if (breakout) {
+            const side = breakout.side === 'UP' ? 'BULLISH' : 'BEARISH';
+            const biased = type === 'ASCENDING_TRIANGLE' || type === 'DESCENDING_TRIANGLE';
+            if (biased && side !== bias) return null;
+            direction = side;
+        }
+
+        const up = direction !== 'BEARISH';
+        const breakoutLevel = up ? lineAt(upper, last) : lineAt(lower, last);
+        return makePattern(type, direction, breakout ? 'BREAKOUT' : 'FORMING', pivots, last, {
+            breakoutLevel,
+            target: up ? breakoutLevel + height : breakoutLevel - height,
+            invalidation: up ? lineAt(lower, last) : lineAt(upper, last),
+        });
+    }
+
+    return null;
+}
+
+/**
+ * Double top (two equal swing highs) or double bottom (two equal swing lows).
+ */
+function detectDouble(
+    bars: PriceBars,
+    pivots: SwingPoint[],
+    kind: 'TOP' | 'BOTTOM',
+    tolerance: number
+): ChartPattern | null {
+    const last = bars.closes.length - 1;
+    const isTop = kind === 'TOP';
+    if (pivots.length < 2) return null;
+
+    const [first, second] = pivots.slice(-2);
+    const peak = isTop ? Math.max(first.price, second.price) : Math.min(first.price, second.price);
+    if (Math.abs(first.price - second.price) / peak > tolerance || second.index - first.index < 5) return null;
+
+    // Neckline: the extreme between the two peaks
+    const between = (isTop ? bars.lows : bars.highs).slice(first.index + 1, second.index);
+    const neck = isTop ? Math.min(...between) : Math.max(...between);
+    const depth = Math.abs(peak - neck);
+    if (depth / peak < DOUBLE_MIN_DEPTH) return null;
+
+    const breakout = findBreakout(
+        bars.closes,
+        second.index + 1,
+        () => (isTop ? peak : neck),
+        () => (isTop ? neck : peak)
+    );
+    const confirmed = breakout && (isTop ? breakout.side === 'DOWN' : breakout.side === 'UP');
+    if (breakout && !confirmed) return null;
+    if (breakout && last - breakout.index > MAX_BREAKOUT_AGE) return null;
+
+    return makePattern(
+        isTop ? 'DOUBLE_TOP' : 'DOUBLE_BOTTOM',
+        isTop ? 'BEARISH' : 'BULLISH',
+        confirmed ? 'BREAKOUT' : 'FORMING',
+        [first, second],
+        last,
+        { breakoutLevel: neck, target: isTop ? neck - depth : neck + depth, invalidation: peak }
+    );
+}
+
+/**
+ * Head and shoulders (three swing highs, middle highest) or the inverse.
+ */
+function detectHeadAndShoulders(
+    bars: PriceBars,
+    pivots: SwingPoint[],
+    inverse: boolean,
+    tolerance: number
+): ChartPattern | null {
+    const last = bars.closes.length - 1;
+    if (pivots.length < 3) return null;
+
+    const [left, head, right] = pivots.slice(-3);
+    const beyond = (a: number, b: number) => (inverse ? a < b * (1 - tolerance) : a > b * (1 + tolerance));
+    if (!beyond(head.price, left.price) || !beyond(head.price, right.price)) return null;
+    if (Math.abs(left.price - right.price) / head.price > tolerance * 2) return null;
+
+    // Neckline through the reactions between the shoulders and the head
+    const reaction = (from: number, to: number): SwingPoint => {
+        const source = inverse ? bars.highs : bars.lows;
+        let index = from + 1;
+        for (let i = from + 1; i < to; i++) {
+            if (inverse ? source[i] > source[index] : source[i] < source[index]) index = i;
+        }
+        return { index, price: source[index], type: inverse ? 'HIGH' : 'LOW' };
+    };
+    if (head.index - left.index < 2 || right.index - head.index < 2) return null;
+    const neckPoints = [reaction(left.index, head.index), reaction(head.index, right.index)];
+    const neckline = fitLine(neckPoints);
+    const height = Math.abs(head.price - lineAt(neckline, head.index));
+
+    const neckAt = (i: number) => lineAt(neckline, i);
+    const breakout = findBreakout(
+        bars.closes,
+        right.index + 1,
+        (i) => (inverse ? neckAt(i) : right.price),
+        (i) => (inverse ? right.price : neckAt(i))
+    );
+    const confirmed = breakout && (inverse ? breakout.side === 'UP' : breakout.side === 'DOWN');
+    if (breakout && !confirmed) return null;
+    if (breakout && last - breakout.index > MAX_BREAKOUT_AGE) return null;
+
+    const breakoutLevel = neckAt(last);
+    return makePattern(
+        inverse ? 'INVERSE_HEAD_AND_SHOULDERS' : 'HEAD_AND_SHOULDERS',
+        inverse ? 'BULLISH' : 'BEARISH',
+        confirmed ? 'BREAKOUT' : 'FORMING',
+        [left, neckPoints[0], head, neckPoints[1], right],
+        last,
+        {
+            breakoutLevel,
+            target: inverse ? breakoutLevel + height : breakoutLevel - height,
+            invalidation: right.price,
+        }
+    );
+}
+
+/**
+ * Flag or pennant: a sharp pole into the recent extreme, then a short
+ * consolidation that drifts against the pole (flag) or converges (pennant).
+ */
+function detectFlag(bars: PriceBars, bullish: boolean, tolerance: number): ChartPattern | null {
+    const { highs, lows, closes } = bars;
+    const last = closes.length - 1;
+    const windowStart = Math.max(0, last - FLAG_MAX_BARS - 1);
+
+    // Pole tip: the extreme of the recent window
+    let tip = windowStart;
+    for (let i = windowStart; i < last; i++) {
+        if (bullish ? highs[i] > highs[tip] : lows[i] < lows[tip]) tip = i;
+    }
+    const bodyBars = last - tip - 1;
+    if (bodyBars < FLAG_MIN_BARS || bodyBars > FLAG_MAX_BARS) return null;
+
+    // Pole base: the opposite extreme in the bars leading into the tip
+    const poleFrom = Math.max(0, tip - FLAG_POLE_BARS);
+    if (poleFrom === tip) return null;
+    let base = poleFrom;
+    for (let i = poleFrom; i < tip; i++) {
+        if (bullish ? lows[i] < lows[base] : highs[i] > highs[base]) base = i;
+    }
+    const tipPrice = bullish ? highs[tip] : lows[tip];
+    const basePrice = bullish ? lows[base] : highs[base];
+    const pole = Math.abs(tipPrice - basePrice);
+    if (pole / basePrice < FLAG_MIN_POLE) return null;
+
+    // Body: bars after the tip, excluding the latest (the potential breakout bar)
+    const body = Array.from({ length: bodyBars }, (_, k) => tip + 1 + k);
+    const upper = fitLine([{ index: tip, price: highs[tip] }, ...body.map((i) => ({ index: i, price: highs[i] }))]);
+    const lower = fitLine([{ index: tip, price: lows[tip] }, ...body.map((i) => ({ index: i, price: lows[i] }))]);
+
+    // Shallow retracement only
+    const bodyExtreme = bullish ? Math.min(...body.map((i) => lows[i])) : Math.max(...body.map((i) => highs[i]));
+    if (Math.abs(tipPrice - bodyExtreme) > pole * 0.5) return null;
+
+    const du = lineChange(upper, tip, last);
+    const dl = lineChange(lower, tip, last);
+    const drift = tolerance / 2;
+
+    let type: ChartPatternType | null = null;
+    if (du < -drift && dl > drift) type = bullish ? 'BULL_PENNANT' : 'BEAR_PENNANT';
+    else if (bullish && du <= drift && dl <= drift) type = 'BULL_FLAG';
+    else if (!bullish && du >= -drift && dl >= -drift) type = 'BEAR_FLAG';
+    if (!type) return null;
+
+    const breakoutLevel = bullish ? lineAt(upper, last) : lineAt(lower, last);
+    const invalidation = bodyExtreme;
+    if (bullish ? closes[last] < invalidation : closes[last] > invalidation) return null;
+    const broke = bullish ? closes[last] > breakoutLevel : closes[last] < breakoutLevel;
+
+    return makePattern(
+        type,
+        bullish ? 'BULLISH' : 'BEARISH',
+        broke ? 'BREAKOUT' : 'FORMING',
+        [
+            { index: base, price: basePrice, type: bullish ? 'LOW' : 'HIGH' },
+            { index: tip, price: tipPrice, type: bullish ? 'HIGH' : 'LOW' },
+        ],
+        last,
+        { breakoutLevel, target: bullish ? breakoutLevel + pole : breakoutLevel - pole, invalidation }
+    );
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Detect chart patterns ending at the latest bar.
+ *
+ * @param bars - Aligned high/low/close arrays (oldest to newest)
+ * @param options - Lookback, swing-point strength and price tolerance
+ * @returns Live patterns, breakouts first
+ */
+export function detectChartPatterns(bars: PriceBars, options: ChartPatternOptions = {}): ChartPattern[] {
+    const lookback = options.lookback ?? 120;
+    const strength = options.pivotStrength ?? 3;
+    const tolerance = options.tolerance ?? 0.02;
+
+    const len = Math.min(bars.highs.length, bars.lows.length, bars.closes.length);
+    if (len < strength * 2 + 5) return [];
+
+    const aligned: PriceBars = {
+        highs: bars.highs.slice(0, len),
+        lows: bars.lows.slice(0, len),
+        closes: bars.closes.slice(0, len),
+    };
+
+    const from = len - lookback;
+    const swings = findSwingPoints(aligned.highs, aligned.lows, strength).filter((p) => p.index >= from);
+    const swingHighs = swings.filter((p) => p.type === 'HIGH');
+    const swingLows = swings.filter((p) => p.type === 'LOW');
+
+    const candidates = [
+        detectBoundedPatterns(aligned, swingHighs, swingLows, tolerance),
+        detectDouble(aligned, swingHighs, 'TOP', tolerance),
+        detectDouble(aligned, swingLows, 'BOTTOM', tolerance),
+        detectHeadAndShoulders(aligned, swingHighs, false, tolerance),
+        detectHeadAndShoulders(aligned, swingLows, true, tolerance),
+        detectFlag(aligned, true, tolerance),
+        detectFlag(aligned, false, tolerance),
+    ];
+
+    return candidates
+        .filter((p): p is ChartPattern => p !== null)
+        .sort((a, b) => (a.status === b.status ? b.startIndex - a.startIndex : a.status === 'BREAKOUT' ? -1 : 1));
+}
+
+/**
+ * Patterns without bar indices, for API responses and prompts.
+ */
+export function summarizeChartPatterns(patterns: ChartPattern[]): ChartPatternSummary[] {
+    return patterns.map(({ type, label, direction, status, breakoutLevel, target, invalidation, startIndex, endIndex }) => ({
+        type,
+        label,
+        direction,
+        status,
+        breakoutLevel,
+        target,
+        invalidation,
+        bars: endIndex - startIndex + 1,
+    }));
+}
+
+/**
+ * One-line description for reports and AI prompts, e.g.
+ * "Ascending Triangle (BULLISH, FORMING): breakout 110, target 121, invalidation 108".
+ */
+export function formatChartPattern(
+    pattern: Pick<ChartPatternSummary, 'label' | 'direction' | 'status' | 'breakoutLevel' | 'target' | 'invalidation'>
+): string {
+    const price = (value: number) => Math.round(value).toString();
+    return `${pattern.label} (${pattern.direction}, ${pattern.status}): breakout ${price(pattern.breakoutLevel)}, ` +
+        `target ${price(pattern.target)}, invalidation ${price(pattern.invalidation)}`;
+}
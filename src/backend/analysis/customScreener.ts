@@ -0,0 +1,250 @@
+/**
+ * Custom Screener
+ *
+ * Runs a filter expression (`shared/screenExpression`) over a universe of
+ * symbols: fetches daily bars, computes only the fields the expression (and
+ * the table) needs with the canonical series module, and keeps the symbols
+ * that pass.
+ *
+ * Universes: any name the universe registry knows (LQ45, KOMPAS100,
+ * SECTOR:FINANCIALS, TRENDING, saved lists, ...), or CUSTOM for symbols given
+ * with the request. Names and IDX-IC sectors come from the company master.
+ *
+ * @module backend/analysis/customScreener
+ */
+
+import { fetchChart, type HistoricalQuote } from "@/backend/data/marketData";
+import { calculateADX, calculateStochastic } from "@/backend/analysis/indicators";
+import * as series from "@/backend/analysis/series";
+import { toStrategyBars, type StrategyBars } from "@/backend/analysis/strategyEngine";
+import { getCompany, resolveUniverse as resolveRegistryUniverse } from "@/backend/data/universeRegistry";
+import { normalizeUniverseSymbol } from "@/backend/data/universeStore";
+import { CUSTOM_SCREENER } from "@/shared/constants";
+import {
+    evaluateScreenExpression,
+    parseScreenExpression,
+    resolveScreenField,
+    screenExpressionFields,
+    type ScreenFieldRef,
+    type ScreenRow,
+} from "@/shared/screenExpression";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** A universe registry name, or "CUSTOM" for the symbols sent with the request */
+export type ScreenUniverse = string;
+
+export interface ScreenRequest {
+    expression: string;
+    universe: ScreenUniverse;
+    /** Symbols for the CUSTOM universe */
+    symbols?: string[];
+}
+
+export interface ScreenMatch {
+    symbol: string;
+    name: string | null;
+    sector: string | null;
+    /** Value of every column, keyed by canonical field name */
+    values: Record<string, number | null>;
+}
+
+export interface ScreenResult {
+    expression: string;
+    universe: ScreenUniverse;
+    /** Numeric columns: price basics first, then the fields the expression reads */
+    columns: string[];
+    matches: ScreenMatch[];
+    scanned: number;
+    skipped: { symbol: string; reason: string }[];
+    /** ISO timestamp */
+    timestamp: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Always shown, whatever the expression */
+const BASE_COLUMNS = ["close", "change", "volRatio", "value"];
+
+/** Bars needed before the slowest default indicator (MACD, ADX) settles */
+const MIN_BARS = 35;
+
+// ============================================================================
+// Field Values
+// ============================================================================
+
+/**
+ * Numeric field values at the last bar. Fields without enough history are null.
+ */
+export function computeScreenValues(bars: StrategyBars, fields: ScreenFieldRef[]): Record<string, number | null> {
+    const { opens, highs, lows, closes, volumes } = bars;
+    const n = closes.length;
+    const at = (values: number[], offset: number) => (n - 1 - offset >= 0 ? values[n - 1 - offset] : null);
+    const percent = (value: number | null, base: number | null) =>
+        value !== null && base !== null && base !== 0 ? (value / base - 1) * 100 : null;
+
+    // Shared intermediate results, computed on first use
+    const memo = new Map<string, unknown>();
+    const once = <T>(key: string, compute: () => T): T => {
+        if (!memo.has(key)) memo.set(key, compute());
+        return memo.get(key) as T;
+    };
+    const macd = () => once("macd", () => series.macd(closes));
+    const bollinger = () => once("bollinger", () => series.bollinger(closes, 20, 2));
+    const adx = () => once("adx", () => calculateADX(highs, lows, closes, 14));
+    const stochastic = () => once("stochastic", () => calculateStochastic(highs, lows, closes));
+    const avgVolume = () => once("avgVolume", () => (n > 20 ? volumes.slice(n - 21, n - 1).reduce((a, b) => a + b, 0) / 20 : null));
+    const atr14 = () => once("atr14", () => series.valueAt(series.atr(highs, lows, closes, 14), 0));
+
+    const compute = (field: ScreenFieldRef): number | null => {
+        const p = field.period ?? 0;
+        switch (field.family ?? field.key) {
+            case "open": return at(opens, 0);
+            case "high": return at(highs, 0);
+            case "low": return at(lows, 0);
+            case "close": return at(closes, 0);
+            case "prevClose": return at(closes, 1);
+            case "volume": return at(volumes, 0);
+            case "avgVolume": return avgVolume();
+            case "volRatio": {
+                const average = avgVolume();
+                return average ? volumes[n - 1] / average : null;
+            }
+            case "value": return n > 0 ? closes[n - 1] * volumes[n - 1] : null;
+            case "change": return percent(at(closes, 0), at(closes, field.family ? p : 1));
+            case "gap": return percent(at(opens, 0), at(closes, 1));
+            case "macd": return series.valueAt(macd().macd, 0);
+            case "macdSignal": return series.valueAt(macd().signal, 0);
+            case "macdHist": return series.valueAt(macd().histogram, 0);
+            case "bbUpper": return series.valueAt(bollinger().upper, 0);
+            case "bbMiddle": return series.valueAt(bollinger().middle, 0);
+            case "bbLower": return series.valueAt(bollinger().lower, 0);
+            case "bbWidth": {
+                const [upper, middle, lower] = [bollinger().upper, bollinger().middle, bollinger().lower].map((s) => series.valueAt(s, 0));
+                return upper !== null && middle !== null && lower !== null && middle !== 0 ? ((upper - lower) / middle) * 100 : null;
+            }
+            case "adx": return adx()?.adx ?? null;
+            case "plusDi": return adx()?.plusDI ?? null;
+            case "minusDi": return adx()?.minusDI ?? null;
+            case "stochK": return stochastic()?.current.k ?? null;
+            case "stochD": return stochastic()?.current.d ?? null;
+            case "atrPct": {
+                const value = atr14();
+                return value !== null && n > 0 ? (value / closes[n - 1]) * 100 : null;
+            }
+            case "obv": return series.valueAt(series.obv(closes, volumes), 0);
+            case "sma": return series.valueAt(series.sma(closes, p), 0);
+            case "ema": return series.valueAt(series.ema(closes, p), 0);
+            case "rsi": return series.valueAt(series.rsi(closes, p), 0);
+            case "atr": return series.valueAt(series.atr(highs, lows, closes, p), 0);
+            case "mfi": return series.valueAt(series.mfi(highs, lows, closes, volumes, p), 0);
+            case "highest": return n >= p ? Math.max(...highs.slice(n - p)) : null;
+            case "lowest": return n >= p ? Math.min(...lows.slice(n - p)) : null;
+            default: return null;
+        }
+    };
+
+    const values: Record<string, number | null> = {};
+    for (const field of fields) {
+        if (field.type !== "number") continue;
+        const value = compute(field);
+        values[field.key] = value !== null && Number.isFinite(value) ? value : null;
+    }
+    return values;
+}
+
+// ============================================================================
+// Screening
+// ============================================================================
+
+async function resolveUniverse(request: ScreenRequest): Promise<string[]> {
+    const name = request.universe.trim().toUpperCase();
+    let symbols: string[];
+    if (name === "CUSTOM") {
+        symbols = request.symbols ?? [];
+    } else {
+        // TRENDING takes a few more gainers than the scalping screener does
+        symbols = (await resolveRegistryUniverse(name, { limit: name === "TRENDING" ? 30 : undefined })).symbols;
+    }
+
+    const normalized = Array.from(new Set(
+        symbols.map((s) => normalizeUniverseSymbol(s)).filter((s): s is string => s !== null)
+    ));
+    if (normalized.length === 0) throw new Error("The universe has no symbols");
+    return normalized.slice(0, CUSTOM_SCREENER.MAX_SYMBOLS);
+}
+
+/**
+ * Run a filter expression over a universe.
+ *
+ * @throws Error when the expression does not parse or the universe is empty
+ */
+export async function runScreen(request: ScreenRequest): Promise<ScreenResult> {
+    const expression = parseScreenExpression(request.expression);
+    const symbols = await resolveUniverse(request);
+
+    const referenced = screenExpressionFields(expression);
+    const columns = Array.from(new Set([
+        ...BASE_COLUMNS,
+        ...referenced.filter((f) => f.type === "number").map((f) => f.key),
+    ]));
+    const fields = columns.map((key) => resolveScreenField(key)).filter((f): f is ScreenFieldRef => f !== null);
+
+    console.log(`[CustomScreener] Screening ${symbols.length} symbols (${request.universe}): ${request.expression}`);
+
+    const matches: ScreenMatch[] = [];
+    const skipped: ScreenResult["skipped"] = [];
+
+    for (let i = 0; i < symbols.length; i += CUSTOM_SCREENER.BATCH_SIZE) {
+        const batch = symbols.slice(i, i + CUSTOM_SCREENER.BATCH_SIZE);
+        const histories = await Promise.all(batch.map(async (symbol) => {
+            try {
+                return await fetchChart(`${symbol}.JK`, "1d", CUSTOM_SCREENER.LOOKBACK_DAYS);
+            } catch (error) {
+                console.warn(`[CustomScreener] Failed to fetch ${symbol}:`, error);
+                return null;
+            }
+        }));
+
+        batch.forEach((symbol, b) => {
+            const history = histories[b];
+            if (history === null) {
+                skipped.push({ symbol, reason: "data unavailable" });
+                return;
+            }
+            const quotes = history.filter((q: HistoricalQuote) => q.close !== null && q.close > 0);
+            if (quotes.length < MIN_BARS) {
+                skipped.push({ symbol, reason: `only ${quotes.length} bars` });
+                return;
+            }
+
+            const info = getCompany(symbol);
+            const values = computeScreenValues(toStrategyBars(quotes), fields);
+            const row: ScreenRow = { ...values, symbol, name: info?.name ?? null, sector: info?.sector ?? null };
+            if (!evaluateScreenExpression(expression, row)) return;
+
+            matches.push({
+                symbol,
+                name: info?.name ?? null,
+                sector: info?.sector ?? null,
+                values: Object.fromEntries(columns.map((key) => [key, values[key] ?? null])),
+            });
+        });
+    }
+
+    console.log(`[CustomScreener] ${matches.length} of ${symbols.length} symbols matched (${skipped.length} skipped)`);
+
+    return {
+        expression: request.expression,
+        universe: request.universe,
+        columns,
+        matches,
+        scanned: symbols.length - skipped.length,
+        skipped,
+        timestamp: new Date().toISOString(),
+    };
+}
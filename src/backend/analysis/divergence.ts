@@ -0,0 +1,202 @@
+/**
+ * Divergence Detection
+ *
+ * Compares the two most recent price swing lows (and highs) against an
+ * oscillator at the same bars:
+ *
+ * - Regular bullish: price lower low, indicator higher low (reversal up)
+ * - Hidden bullish: price higher low, indicator lower low (uptrend continuation)
+ * - Regular bearish: price higher high, indicator lower high (reversal down)
+ * - Hidden bearish: price lower high, indicator higher high (downtrend continuation)
+ *
+ * Runs against RSI, the MACD histogram and OBV. Strength grows with how far
+ * the indicator moved against price, relative to its range over the pattern.
+ *
+ * @module backend/analysis/divergence
+ */
+
+import { macd, obv, rsi, type Series } from './series';
+import { findSwingPoints, type SwingPoint } from './chartPatterns';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type DivergenceIndicator = 'RSI' | 'MACD' | 'OBV';
+export type DivergenceType = 'REGULAR' | 'HIDDEN';
+export type DivergenceDirection = 'BULLISH' | 'BEARISH';
+export type DivergenceStrength = 'WEAK' | 'MEDIUM' | 'STRONG';
+
+export interface Divergence {
+    indicator: DivergenceIndicator;
+    type: DivergenceType;
+    direction: DivergenceDirection;
+    strength: DivergenceStrength;
+    /** Earlier and later price swing points */
+    from: SwingPoint;
+    to: SwingPoint;
+    indicatorFrom: number;
+    indicatorTo: number;
+}
+
+/** Client-facing view of a divergence */
+export interface DivergenceSummary {
+    indicator: DivergenceIndicator;
+    type: DivergenceType;
+    direction: DivergenceDirection;
+    strength: DivergenceStrength;
+    label: string;
+    /** Bars since the later swing point */
+    barsAgo: number;
+}
+
+export interface DivergenceBars {
+    highs: number[];
+    lows: number[];
+    closes: number[];
+    /** Required for OBV divergence */
+    volumes?: number[];
+}
+
+export interface DivergenceOptions {
+    /** Bars on each side that a swing point must dominate (default: 3) */
+    pivotStrength?: number;
+    /** Ignore divergences whose later swing is older than this (default: 10) */
+    maxAge?: number;
+    /** Bars allowed between the two swings (default: 5-60) */
+    minSpan?: number;
+    maxSpan?: number;
+}
+
+// ============================================================================
+// Detection
+// ============================================================================
+
+function gradeStrength(indicator: Series, from: number, to: number, change: number): DivergenceStrength {
+    let min = Infinity;
+    let max = -Infinity;
+    for (let i = from; i <= to; i++) {
+        const v = indicator[i];
+        if (v === null) continue;
+        if (v < min) min = v;
+        if (v > max) max = v;
+    }
+    const range = max - min;
+    const ratio = range > 0 ? Math.abs(change) / range : 0;
+
+    if (ratio >= 0.3) return 'STRONG';
+    if (ratio >= 0.15) return 'MEDIUM';
+    return 'WEAK';
+}
+
+/**
+ * Divergences between price swings and one indicator series.
+ *
+ * @param bars - Aligned high/low/close arrays (oldest to newest)
+ * @param indicator - Indicator series aligned with the bars
+ * @param name - Indicator reported on each hit
+ * @returns At most one bullish (swing lows) and one bearish (swing highs) divergence
+ */
+export function detectDivergence(
+    bars: DivergenceBars,
+    indicator: Series,
+    name: DivergenceIndicator,
+    options: DivergenceOptions = {}
+): Divergence[] {
+    const strength = options.pivotStrength ?? 3;
+    const maxAge = options.maxAge ?? 10;
+    const minSpan = options.minSpan ?? 5;
+    const maxSpan = options.maxSpan ?? 60;
+    const last = bars.closes.length - 1;
+
+    const swings = findSwingPoints(bars.highs, bars.lows, strength);
+    const divergences: Divergence[] = [];
+
+    for (const side of ['LOW', 'HIGH'] as const) {
+        const points = swings.filter((p) => p.type === side);
+        if (points.length < 2) continue;
+
+        const [from, to] = points.slice(-2);
+        const span = to.index - from.index;
+        if (last - to.index > maxAge || span < minSpan || span > maxSpan) continue;
+
+        const indicatorFrom = indicator[from.index];
+        const indicatorTo = indicator[to.index];
+        if (indicatorFrom == null || indicatorTo == null) continue;
+
+        const priceUp = to.price > from.price;
+        const priceDown = to.price < from.price;
+        const indicatorUp = indicatorTo > indicatorFrom;
+        const indicatorDown = indicatorTo < indicatorFrom;
+
+        let type: DivergenceType | null = null;
+        if (side === 'LOW') {
+            if (priceDown && indicatorUp) type = 'REGULAR';
+            else if (priceUp && indicatorDown) type = 'HIDDEN';
+        } else {
+            if (priceUp && indicatorDown) type = 'REGULAR';
+            else if (priceDown && indicatorUp) type = 'HIDDEN';
+        }
+        if (!type) continue;
+
+        divergences.push({
+            indicator: name,
+            type,
+            direction: side === 'LOW' ? 'BULLISH' : 'BEARISH',
+            strength: gradeStrength(indicator, from.index, to.index, indicatorTo - indicatorFrom),
+            from,
+            to,
+            indicatorFrom,
+            indicatorTo,
+        });
+    }
+
+    return divergences;
+}
+
+/**
+ * RSI(14), MACD histogram and OBV divergences ending near the latest bar.
+ */
+export function detectDivergences(bars: DivergenceBars, options: DivergenceOptions = {}): Divergence[] {
+    const results = [
+        ...detectDivergence(bars, rsi(bars.closes, 14), 'RSI', options),
+        ...detectDivergence(bars, macd(bars.closes).histogram, 'MACD', options),
+    ];
+
+    if (bars.volumes && bars.volumes.length === bars.closes.length) {
+        results.push(...detectDivergence(bars, obv(bars.closes, bars.volumes), 'OBV', options));
+    }
+
+    return results;
+}
+
+/**
+ * Divergences for API responses, with readable labels and `barsAgo`.
+ */
+export function summarizeDivergences(divergences: Divergence[], barCount: number): DivergenceSummary[] {
+    return divergences.map((d) => ({
+        indicator: d.indicator,
+        type: d.type,
+        direction: d.direction,
+        strength: d.strength,
+        label: `${d.type === 'REGULAR' ? 'Regular' : 'Hidden'} ${d.direction.toLowerCase()} ${d.indicator} divergence`,
+        barsAgo: barCount - 1 - d.to.index,
+    }));
+}
+
+/**
+ * Summarized divergences straight from quotes, skipping incomplete candles.
+ */
+export function summarizeQuoteDivergences(
+    quotes: { high: number | null; low: number | null; close: number | null; volume: number | null }[],
+    options: DivergenceOptions = {}
+): DivergenceSummary[] {
+    const complete = quotes.filter((q) => q.high != null && q.low != null && q.close != null);
+    const bars: DivergenceBars = {
+        highs: complete.map((q) => q.high as number),
+        lows: complete.map((q) => q.low as number),
+        closes: complete.map((q) => q.close as number),
+        volumes: complete.map((q) => q.volume ?? 0),
+    };
+    return summarizeDivergences(detectDivergences(bars, options), complete.length);
+}
@@ -8,8 +8,17 @@
  * - EMA (Exponential Moving Average)
  * - SMA (Simple Moving Average)
  * - Volume Analysis
+ * - VWAP, OBV and MFI (volume-weighted)
+ * - Ichimoku, Supertrend and Parabolic SAR (trend)
+ * - Keltner and Donchian Channels
+ *
+ * The raw math lives in `./series` (full-length, null-padded series); the
+ * functions here trim the warm-up and add signals on top.
  */
 
+import * as series from './series';
+import { getJakartaDateKey } from '@/shared/marketClock';
+
 // ============================================================================
 // Type Definitions
 // ============================================================================
@@ -73,6 +82,60 @@ export interface ATRResult {
     current: number;
 }
 
+export type TrendSide = 'UP' | 'DOWN';
+export type ChannelPosition = 'ABOVE_UPPER' | 'BELOW_LOWER' | 'WITHIN';
+
+export interface VWAPResult {
+    values: number[];
+    current: number;
+    /** Distance of the last close from VWAP, in percent */
+    distancePercent: number;
+    position: 'ABOVE' | 'BELOW';
+    crossover: MACDCrossover;
+    signal: Signal;
+}
+
+export interface OBVResult {
+    values: number[];
+    current: number;
+    trend: 'RISING' | 'FALLING' | 'FLAT';
+    /** OBV moving against price over the lookback (accumulation / distribution) */
+    divergence: 'BULLISH' | 'BEARISH' | 'NONE';
+    signal: Signal;
+}
+
+export interface IchimokuResult {
+    current: {
+        tenkan: number;
+        kijun: number;
+        senkouA: number;
+        senkouB: number;
+    };
+    cloudPosition: 'ABOVE' | 'BELOW' | 'INSIDE';
+    tkCross: MACDCrossover;
+    signal: Signal;
+}
+
+/** Supertrend and Parabolic SAR: a trailing stop that flips with the trend */
+export interface TrendStopResult {
+    values: number[];
+    current: number;
+    trend: TrendSide;
+    /** The trend flipped on the latest bar */
+    flipped: boolean;
+    signal: Signal;
+}
+
+export interface ChannelResult {
+    current: {
+        upper: number;
+        middle: number;
+        lower: number;
+    };
+    position: ChannelPosition;
+    signal: Signal;
+}
+
 // ============================================================================
 // Utility Functions
 // ============================================================================
@@ -116,15 +179,7 @@ export function calculateSMA(prices: number[], period: number): IndicatorResult
         return null;
     }
 
-    const values: number[] = [];
-
-    for (let i = period - 1; i < data.length; i++) {
-        let sum = 0;
-        for (let j = 0; j < period; j++) {
-            sum += data[i - j];
-        }
-        values.push(sum / period);
-    }
+    const values = series.compact(series.sma(data, period));
 
     const current = values[values.length - 1];
     const lastPrice = data[data.length - 1];
@@ -156,22 +211,8 @@ export function calculateEMA(prices: number[], period: number): IndicatorResult
         return null;
     }
 
-    const multiplier = 2 / (period + 1);
-    const values: number[] = [];
-
-    // First EMA value is SMA
-    let sum = 0;
-    for (let i = 0; i < period; i++) {
-        sum += data[i];
-    }
-    let ema = sum / period;
-    values.push(ema);
-
-    // Calculate remaining EMA values
-    for (let i = period; i < data.length; i++) {
-        ema = (data[i] - ema) * multiplier + ema;
-        values.push(ema);
-    }
+    // First EMA value is the SMA of the first period
+    const values = series.compact(series.ema(data, period));
 
     const current = values[values.length - 1];
     const lastPrice = data[data.length - 1];
@@ -210,40 +251,8 @@ export function calculateRSI(prices: number[], period: number = 14): IndicatorRe
         return null;
     }
 
-    const values: number[] = [];
-    const gains: number[] = [];
-    const losses: number[] = [];
-
-    // Calculate price changes
-    for (let i = 1; i < data.length; i++) {
-        const change = data[i] - data[i - 1];
-        gains.push(change > 0 ? change : 0);
-        losses.push(change < 0 ? Math.abs(change) : 0);
-    }
-
-    // Calculate first average gain and loss
-    let avgGain = 0;
-    let avgLoss = 0;
-    for (let i = 0; i < period; i++) {
-        avgGain += gains[i];
-        avgLoss += losses[i];
-    }
-    avgGain /= period;
-    avgLoss /= period;
-
-    // First RSI value
-    let rs = avgLoss === 0 ? 100 : avgGain / avgLoss;
-    let rsi = 100 - (100 / (1 + rs));
-    values.push(rsi);
-
-    // Calculate remaining RSI values using smoothed averages
-    for (let i = period; i < gains.length; i++) {
-        avgGain = (avgGain * (period - 1) + gains[i]) / period;
-        avgLoss = (avgLoss * (period - 1) + losses[i]) / period;
-        rs = avgLoss === 0 ? 100 : avgGain / avgLoss;
-        rsi = 100 - (100 / (1 + rs));
-        values.push(rsi);
-    }
+    // Wilder smoothing, seeded with the simple average of the first period
+    const values = series.compact(series.rsi(data, period));
 
     const current = values[values.length - 1];
 
@@ -301,35 +310,13 @@ export function calculateMACD(
         return null;
     }
 
-    // Calculate fast and slow EMAs
-    const fastEMA = calculateEMA(data, fastPeriod);
-    const slowEMA = calculateEMA(data, slowPeriod);
-
-    if (!fastEMA || !slowEMA) return null;
-
-    // Align arrays - slow EMA starts later
-    const offset = slowPeriod - fastPeriod;
-    const macdLine: number[] = [];
-
-    for (let i = 0; i < slowEMA.values.length; i++) {
-        macdLine.push(fastEMA.values[i + offset] - slowEMA.values[i]);
-    }
-
-    // Calculate signal line (EMA of MACD)
-    if (macdLine.length < signalPeriod) return null;
-
-    const signalEMA = calculateEMA(macdLine, signalPeriod);
-    if (!signalEMA) return null;
+    // MACD line starts with the slow EMA, signal and histogram one signal period later
+    const full = series.macd(data, fastPeriod, slowPeriod, signalPeriod);
+    const macdLine = series.compact(full.macd);
+    const signalLine = series.compact(full.signal);
+    const histogram = series.compact(full.histogram);
 
-    const signalLine = signalEMA.values;
-
-    // Calculate histogram
-    const histogramOffset = macdLine.length - signalLine.length;
-    const histogram: number[] = [];
-
-    for (let i = 0; i < signalLine.length; i++) {
-        histogram.push(macdLine[i + histogramOffset] - signalLine[i]);
-    }
+    if (signalLine.length === 0) return null;
 
     // Determine crossover
     let crossover: MACDCrossover = 'NONE';
@@ -398,29 +385,10 @@ export function calculateBollingerBands(
         return null;
     }
 
-    const upper: number[] = [];
-    const middle: number[] = [];
-    const lower: number[] = [];
-
-    for (let i = period - 1; i < data.length; i++) {
-        // Calculate SMA for this window
-        let sum = 0;
-        for (let j = 0; j < period; j++) {
-            sum += data[i - j];
-        }
-        const sma = sum / period;
-
-        // Calculate standard deviation
-        let squaredDiffSum = 0;
-        for (let j = 0; j < period; j++) {
-            squaredDiffSum += Math.pow(data[i - j] - sma, 2);
-        }
-        const stdDev = Math.sqrt(squaredDiffSum / period);
-
-        middle.push(sma);
-        upper.push(sma + stdDevMultiplier * stdDev);
-        lower.push(sma - stdDevMultiplier * stdDev);
-    }
+    const bands = series.bollinger(data, period, stdDevMultiplier);
+    const upper = series.compact(bands.upper);
+    const middle = series.compact(bands.middle);
+    const lower = series.compact(bands.lower);
 
     const currentUpper = upper[upper.length - 1];
     const currentMiddle = middle[middle.length - 1];
@@ -704,6 +672,343 @@ export function calculateADX(
     };
 }
 
+// ============================================================================
+// Volume-Weighted Indicators (VWAP, OBV, MFI)
+// ============================================================================
+
+/**
+ * Calculates VWAP (Volume Weighted Average Price)
+ *
+ * With intraday bar dates the VWAP restarts every Jakarta trading day (the
+ * usual reading); daily bars or no dates accumulate over the whole input,
+ * since a one-bar session would only reproduce the typical price.
+ *
+ * Signals:
+ * - BUY: price crosses above VWAP
+ * - SELL: price crosses below VWAP
+ *
+ * @param highs - Array of high prices
+ * @param lows - Array of low prices
+ * @param closes - Array of closing prices
+ * @param volumes - Array of volumes
+ * @param dates - Optional bar timestamps for per-session resets
+ * @returns VWAPResult
+ */
+export function calculateVWAP(
+    highs: number[],
+    lows: number[],
+    closes: number[],
+    volumes: number[],
+    dates?: Date[]
+): VWAPResult | null {
+    const len = closes.length;
+    if (len < 2 || highs.length !== len || lows.length !== len || volumes.length !== len) {
+        return null;
+    }
+
+    const sessions = dates && dates.length === len ? dates.map(getJakartaDateKey) : [];
+    const intraday = sessions.some((key, i) => i > 0 && key === sessions[i - 1]);
+    const values = series.compact(series.vwap(highs, lows, closes, volumes, intraday ? sessions : undefined));
+
+    const current = values[len - 1];
+    const previous = values[len - 2];
+    const price = closes[len - 1];
+    const prevPrice = closes[len - 2];
+
+    let crossover: MACDCrossover = 'NONE';
+    if (prevPrice <= previous && price > current) crossover = 'BULLISH';
+    else if (prevPrice >= previous && price < current) crossover = 'BEARISH';
+
+    const signal: Signal = crossover === 'BULLISH' ? 'BUY' : crossover === 'BEARISH' ? 'SELL' : 'NEUTRAL';
+
+    return {
+        values,
+        current,
+        distancePercent: ((price - current) / current) * 100,
+        position: price >= current ? 'ABOVE' : 'BELOW',
+        crossover,
+        signal,
+    };
+}
+
+/**
+ * Calculates OBV (On-Balance Volume)
+ *
+ * Trend compares OBV with its own moving average. Divergence compares the
+ * direction of OBV and price over the lookback:
+ * - BULLISH (BUY): price falling while OBV rises (accumulation)
+ * - BEARISH (SELL): price rising while OBV falls (distribution)
+ *
+ * @param closes - Array of closing prices
+ * @param volumes - Array of volumes
+ * @param lookback - Bars compared for divergence (default: 10)
+ * @param trendPeriod - OBV moving average period (default: 20)
+ * @returns OBVResult
+ */
+export function calculateOBV(
+    closes: number[],
+    volumes: number[],
+    lookback: number = 10,
+    trendPeriod: number = 20
+): OBVResult | null {
+    const len = closes.length;
+    if (volumes.length !== len || len < Math.max(lookback, trendPeriod) + 1) {
+        return null;
+    }
+
+    const full = series.obv(closes, volumes);
+    const values = series.compact(full);
+    const current = values[len - 1];
+    const average = series.last(series.sma(full, trendPeriod)) ?? current;
+
+    // Small deviations from the average are noise, not a trend
+    const band = Math.abs(average) * 0.02;
+    let trend: OBVResult['trend'] = 'FLAT';
+    if (current > average + band) trend = 'RISING';
+    else if (current < average - band) trend = 'FALLING';
+
+    const priceChange = closes[len - 1] - closes[len - 1 - lookback];
+    const obvChange = current - values[len - 1 - lookback];
+
+    let divergence: OBVResult['divergence'] = 'NONE';
+    if (priceChange < 0 && obvChange > 0) divergence = 'BULLISH';
+    else if (priceChange > 0 && obvChange < 0) divergence = 'BEARISH';
+
+    const signal: Signal = divergence === 'BULLISH' ? 'BUY' : divergence === 'BEARISH' ? 'SELL' : 'NEUTRAL';
+
+    return { values, current, trend, divergence, signal };
+}
+
+/**
+ * Calculates MFI (Money Flow Index)
+ *
+ * A volume-weighted RSI:
+ * - MFI > 80: Overbought (potential SELL signal)
+ * - MFI < 20: Oversold (potential BUY signal)
+ *
+ * @param highs - Array of high prices
+ * @param lows - Array of low prices
+ * @param closes - Array of closing prices
+ * @param volumes - Array of volumes
+ * @param period - MFI period (default: 14)
+ * @returns IndicatorResult with MFI values and signal
+ */
+export function calculateMFI(
+    highs: number[],
+    lows: number[],
+    closes: number[],
+    volumes: number[],
+    period: number = 14
+): IndicatorResult | null {
+    const len = closes.length;
+    if (len < period + 1 || highs.length !== len || lows.length !== len || volumes.length !== len) {
+        return null;
+    }
+
+    const values = series.compact(series.mfi(highs, lows, closes, volumes, period));
+    const current = values[values.length - 1];
+
+    let signal: Signal = 'NEUTRAL';
+    if (current < 20) signal = 'BUY';
+    else if (current > 80) signal = 'SELL';
+
+    return { values, current, signal, strength: Math.abs(current - 50) * 2 };
+}
+
+// ============================================================================
+// Trend Indicators (Ichimoku, Supertrend, Parabolic SAR)
+// ============================================================================
+
+/**
+ * Calculates Ichimoku Kinko Hyo (9 / 26 / 52, displaced 26)
+ *
+ * Signals:
+ * - BUY: price above the cloud with Tenkan above Kijun
+ * - SELL: price below the cloud with Tenkan below Kijun
+ *
+ * Needs 77 bars before the cloud under the latest bar exists.
+ *
+ * @param highs - Array of high prices
+ * @param lows - Array of low prices
+ * @param closes - Array of closing prices
+ * @returns IchimokuResult
+ */
+export function calculateIchimoku(
+    highs: number[],
+    lows: number[],
+    closes: number[]
+): IchimokuResult | null {
+    const len = closes.length;
+    if (highs.length !== len || lows.length !== len) return null;
+
+    const lines = series.ichimoku(highs, lows, closes);
+    const tenkan = series.valueAt(lines.tenkan, 0);
+    const kijun = series.valueAt(lines.kijun, 0);
+    const senkouA = series.valueAt(lines.senkouA, 0);
+    const senkouB = series.valueAt(lines.senkouB, 0);
+    if (tenkan === null || kijun === null || senkouA === null || senkouB === null) return null;
+
+    const price = closes[len - 1];
+    const cloudTop = Math.max(senkouA, senkouB);
+    const cloudBottom = Math.min(senkouA, senkouB);
+    const cloudPosition: IchimokuResult['cloudPosition'] =
+        price > cloudTop ? 'ABOVE' : price < cloudBottom ? 'BELOW' : 'INSIDE';
+
+    const prevTenkan = series.valueAt(lines.tenkan, 1);
+    const prevKijun = series.valueAt(lines.kijun, 1);
+    let tkCross: MACDCrossover = 'NONE';
+    if (prevTenkan !== null && prevKijun !== null) {
+        if (prevTenkan <= prevKijun && tenkan > kijun) tkCross = 'BULLISH';
+        else if (prevTenkan >= prevKijun && tenkan < kijun) tkCross = 'BEARISH';
+    }
+
+    let signal: Signal = 'NEUTRAL';
+    if (cloudPosition === 'ABOVE' && tenkan > kijun) signal = 'BUY';
+    else if (cloudPosition === 'BELOW' && tenkan < kijun) signal = 'SELL';
+
+    return { current: { tenkan, kijun, senkouA, senkouB }, cloudPosition, tkCross, signal };
+}
+
+/**
+ * Summarizes a trailing-stop series; signals only on the bar the trend flips.
+ */
+function toTrendStopResult(stop: series.TrendStopSeries): TrendStopResult | null {
+    const values = series.compact(stop.value);
+    const direction = stop.direction.filter((d): d is series.TrendDirection => d !== null);
+    if (values.length < 2) return null;
+
+    const trend: TrendSide = direction[direction.length - 1] === 1 ? 'UP' : 'DOWN';
+    const flipped = direction[direction.length - 1] !== direction[direction.length - 2];
+
+    let signal: Signal = 'NEUTRAL';
+    if (flipped) signal = trend === 'UP' ? 'BUY' : 'SELL';
+
+    return { values, current: values[values.length - 1], trend, flipped, signal };
+}
+
+/**
+ * Calculates Supertrend
+ *
+ * An ATR band around the bar midpoint that trails price and flips side when
+ * price closes through it. BUY/SELL on the flip bar only.
+ *
+ * @param highs - Array of high prices
+ * @param lows - Array of low prices
+ * @param closes - Array of closing prices
+ * @param period - ATR period (default: 10)
+ * @param multiplier - ATR multiplier (default: 3)
+ * @returns TrendStopResult
+ */
+export function calculateSupertrend(
+    highs: number[],
+    lows: number[],
+    closes: number[],
+    period: number = 10,
+    multiplier: number = 3
+): TrendStopResult | null {
+    const len = closes.length;
+    if (len < period + 2 || highs.length !== len || lows.length !== len) return null;
+
+    return toTrendStopResult(series.supertrend(highs, lows, closes, period, multiplier));
+}
+
+/**
+ * Calculates Parabolic SAR
+ *
+ * Stop-and-reverse points that accelerate toward price as the trend extends.
+ * BUY/SELL on the flip bar only.
+ *
+ * @param highs - Array of high prices
+ * @param lows - Array of low prices
+ * @param step - Acceleration step (default: 0.02)
+ * @param maxStep - Maximum acceleration (default: 0.2)
+ * @returns TrendStopResult
+ */
+export function calculateParabolicSAR(
+    highs: number[],
+    lows: number[],
+    step: number = 0.02,
+    maxStep: number = 0.2
+): TrendStopResult | null {
+    if (highs.length < 3 || lows.length !== highs.length) return null;
+
+    return toTrendStopResult(series.parabolicSar(highs, lows, step, maxStep));
+}
+
+// ============================================================================
+// Channels (Keltner, Donchian)
+// ============================================================================
+
+/**
+ * Calculates Keltner Channels (EMA 20 ± 2 × ATR 10)
+ *
+ * Unlike Bollinger Bands, closes outside a Keltner Channel are read as
+ * momentum: above the upper band is a BUY, below the lower band a SELL.
+ *
+ * @param highs - Array of high prices
+ * @param lows - Array of low prices
+ * @param closes - Array of closing prices
+ * @returns ChannelResult
+ */
+export function calculateKeltnerChannels(
+    highs: number[],
+    lows: number[],
+    closes: number[],
+    emaPeriod: number = 20,
+    atrPeriod: number = 10,
+    multiplier: number = 2
+): ChannelResult | null {
+    const len = closes.length;
+    if (len < Math.max(emaPeriod, atrPeriod + 1) || highs.length !== len || lows.length !== len) return null;
+
+    const channel = series.keltner(highs, lows, closes, emaPeriod, atrPeriod, multiplier);
+    const upper = series.valueAt(channel.upper, 0);
+    const middle = series.valueAt(channel.middle, 0);
+    const lower = series.valueAt(channel.lower, 0);
+    if (upper === null || middle === null || lower === null) return null;
+
+    const price = closes[len - 1];
+    const position: ChannelPosition = price > upper ? 'ABOVE_UPPER' : price < lower ? 'BELOW_LOWER' : 'WITHIN';
+    const signal: Signal = position === 'ABOVE_UPPER' ? 'BUY' : position === 'BELOW_LOWER' ? 'SELL' : 'NEUTRAL';
+
+    return { current: { upper, middle, lower }, position, signal };
+}
+
+/**
+ * Calculates Donchian Channels (20-bar high / low)
+ *
+ * Breakouts are measured against the channel of the previous bar, so a close
+ * above the prior 20-bar high is a BUY and below the prior low a SELL.
+ *
+ * @param highs - Array of high prices
+ * @param lows - Array of low prices
+ * @param closes - Array of closing prices
+ * @param period - Lookback (default: 20)
+ * @returns ChannelResult
+ */
+export function calculateDonchianChannels(
+    highs: number[],
+    lows: number[],
+    closes: number[],
+    period: number = 20
+): ChannelResult | null {
+    const len = closes.length;
+    if (len < period + 1 || highs.length !== len || lows.length !== len) return null;
+
+    const channel = series.donchian(highs, lows, period);
+    const upper = series.valueAt(channel.upper, 0) as number;
+    const middle = series.valueAt(channel.middle, 0) as number;
+    const lower = series.valueAt(channel.lower, 0) as number;
+    const prevUpper = series.valueAt(channel.upper, 1) as number;
+    const prevLower = series.valueAt(channel.lower, 1) as number;
+
+    const price = closes[len - 1];
+    const position: ChannelPosition = price > prevUpper ? 'ABOVE_UPPER' : price < prevLower ? 'BELOW_LOWER' : 'WITHIN';
+    const signal: Signal = position === 'ABOVE_UPPER' ? 'BUY' : position === 'BELOW_LOWER' ? 'SELL' : 'NEUTRAL';
+
+    return { current: { upper, middle, lower }, position, signal };
+}
+
 // ============================================================================
 // Composite Analysis
 // ============================================================================
@@ -723,6 +1028,14 @@ export interface TechnicalAnalysisResult {
     stochastic: StochasticResult | null;
     volume: VolumeAnalysisResult | null;
     atr: number | null;
+    vwap: VWAPResult | null;
+    obv: OBVResult | null;
+    mfi: IndicatorResult | null;
+    ichimoku: IchimokuResult | null;
+    supertrend: TrendStopResult | null;
+    parabolicSar: TrendStopResult | null;
+    keltner: ChannelResult | null;
+    donchian: ChannelResult | null;
     overallSignal: Signal;
     confidence: number;
 }
@@ -744,32 +1057,8 @@ export function calculateATR(
 ): ATRResult | null {
     if (!highs || !lows || !closes || highs.length < period + 1) return null;
 
-    const trueRanges: number[] = [];
-
-    // Calculate True Range for each day
-    // TR = Max(High-Low, Abs(High-PrevClose), Abs(Low-PrevClose))
-    for (let i = 1; i < highs.length; i++) {
-        const high = highs[i];
-        const low = lows[i];
-        const prevClose = closes[i - 1];
-
-        const tr = Math.max(
-            high - low,
-            Math.abs(high - prevClose),
-            Math.abs(low - prevClose)
-        );
-        trueRanges.push(tr);
-    }
-
-    // First ATR = Simple Average of TRs
-    let atr = trueRanges.slice(0, period).reduce((a, b) => a + b, 0) / period;
-    const values: number[] = [atr];
-
-    // Subsequent ATRs = ((Prior ATR * (period-1)) + Current TR) / period
-    for (let i = period; i < trueRanges.length; i++) {
-        atr = ((atr * (period - 1)) + trueRanges[i]) / period;
-        values.push(atr);
-    }
+    // First ATR = simple average of TRs, then Wilder smoothing
+    const values = series.compact(series.atr(highs, lows, closes, period));
 
     return {
         values,
@@ -782,13 +1071,17 @@ export function calculateATR(
  * 
  * @param prices - Array of closing prices (oldest to newest)
  * @param volumes - Array of volume data (oldest to newest)
+ * @param highs - Optional high prices, aligned with prices
+ * @param lows - Optional low prices, aligned with prices
+ * @param dates - Optional bar timestamps; lets intraday VWAP reset per session
  * @returns Complete technical analysis with overall signal
  */
 export function performTechnicalAnalysis(
     prices: number[],
     volumes: number[],
     highs?: number[],
-    lows?: number[]
+    lows?: number[],
+    dates?: Date[]
 ): TechnicalAnalysisResult {
     // Input validation
     if (!prices || !Array.isArray(prices)) {
@@ -857,6 +1150,31 @@ export function performTechnicalAnalysis(
         }
     }
 
+    // Extended set: needs bars aligned with prices (and volumes for VWAP/OBV/MFI)
+    let vwap = null;
+    let obv = null;
+    let mfi = null;
+    let ichimoku = null;
+    let supertrend = null;
+    let parabolicSar = null;
+    let keltner = null;
+    let donchian = null;
+    if (highs && lows && highs.length === prices.length && lows.length === prices.length) {
+        ichimoku = calculateIchimoku(highs, lows, prices);
+        supertrend = calculateSupertrend(highs, lows, prices);
+        parabolicSar = calculateParabolicSAR(highs, lows);
+        keltner = calculateKeltnerChannels(highs, lows, prices);
+        donchian = calculateDonchianChannels(highs, lows, prices);
+
+        if (volumes && volumes.length === prices.length) {
+            vwap = calculateVWAP(highs, lows, prices, volumes, dates);
+            mfi = calculateMFI(highs, lows, prices, volumes);
+        }
+    }
+    if (volumes && volumes.length === prices.length) {
+        obv = calculateOBV(prices, volumes);
+    }
+
     // Calculate overall signal based on all indicators
     let buyScore = 0;
     let sellScore = 0;
@@ -920,6 +1238,14 @@ export function performTechnicalAnalysis(
         adx,
         volume,
         atr,
+        vwap,
+        obv,
+        mfi,
+        ichimoku,
+        supertrend,
+        parabolicSar,
+        keltner,
+        donchian,
         overallSignal,
         confidence,
     };
@@ -6,8 +6,13 @@
  * - Swing Mode: 1h, 4h, 1d, 1w
  */
 
-import YahooFinance from "yahoo-finance2";
-const yahooFinance = new YahooFinance();
+import {
+    fetchChart,
+    getMarketDataProvider,
+    type ChartInterval,
+    type HistoricalQuote,
+} from "@/backend/data/marketData";
+import { getLimitWarnings, roundToTick } from "@/shared/idxMarketRules";
 import {
     calculateRSI,
     calculateMACD,
@@ -16,6 +21,7 @@ import {
     type IndicatorResult,
     type MACDResult,
 } from "./indicators";
+import { summarizeQuoteDivergences, type DivergenceSummary } from "./divergence";
 
 // ============================================================================
 // Type Definitions
@@ -39,6 +45,8 @@ export interface TimeframeAnalysis {
         emaAlignment: TrendDirection;
         volumeSignal: "HIGH" | "LOW" | "NORMAL";
     };
+    /** RSI / MACD / OBV divergences ending near the latest bar */
+    divergences: DivergenceSummary[];
 }
 
 export interface Confluence {
@@ -56,6 +64,8 @@ export interface Recommendation {
     };
     stop_loss: number;
     take_profit: number[];
+    /** Levels that fall outside today's ARA/ARB range */
+    limit_warnings: string[];
 }
 
 export interface MultiTimeframeAnalysis {
@@ -67,23 +77,6 @@ export interface MultiTimeframeAnalysis {
     timestamp: string;
 }
 
-interface HistoricalQuote {
-    date: Date;
-    open: number | null;
-    high: number | null;
-    low: number | null;
-    close: number | null;
-    volume: number | null;
-}
-
-interface ChartResult {
-    quotes: HistoricalQuote[];
-}
-
-interface QuoteResult {
-    regularMarketPrice?: number;
-}
-
 // ============================================================================
 // Constants
 // ============================================================================
@@ -153,7 +146,7 @@ function aggregateTo4h(hourly: HistoricalQuote[]): HistoricalQuote[] {
     return result;
 }
 
-function toYahooInterval(interval: InternalInterval): "1m" | "5m" | "15m" | "60m" | "1d" | "1wk" {
+function toChartInterval(interval: InternalInterval): ChartInterval {
     switch (interval) {
         case "1m":
         case "5m":
@@ -178,16 +171,7 @@ async function fetchTimeframeData(
     daysBack: number
 ): Promise<HistoricalQuote[]> {
     try {
-        const endDate = new Date();
-        const startDate = new Date(Date.now() - daysBack * 24 * 60 * 60 * 1000);
-
-        const chartResult = await yahooFinance.chart(symbol, {
-            period1: startDate,
-            period2: endDate,
-            interval: toYahooInterval(interval),
-        }) as ChartResult;
-
-        const quotes = chartResult.quotes || [];
+        const quotes = await fetchChart(symbol, toChartInterval(interval), daysBack);
         if (interval === "4h") {
             return aggregateTo4h(quotes);
         }
@@ -341,6 +325,9 @@ async function analyzeTimeframe(
     const currentPrice = closes[closes.length - 1];
     const emaAlignment = getEMAAlignment(currentPrice, ema20, ema50);
 
+    // RSI / MACD / OBV divergences
+    const divergences = summarizeQuoteDivergences(historical);
+
     // Volume signal
     let volumeSignal: "HIGH" | "LOW" | "NORMAL" = "NORMAL";
     if (volume) {
@@ -359,6 +346,7 @@ async function analyzeTimeframe(
             emaAlignment,
             volumeSignal,
         },
+        divergences,
     };
 }
 
@@ -407,7 +395,8 @@ function calculateConfluence(timeframes: TimeframeAnalysis[]): Confluence {
 function generateRecommendation(
     confluence: Confluence,
     timeframes: TimeframeAnalysis[],
-    currentPrice: number
+    currentPrice: number,
+    referencePrice: number
 ): Recommendation {
     // Find nearest support and resistance
     const supports = timeframes
@@ -432,9 +421,9 @@ function generateRecommendation(
         action = "SELL";
     }
 
-    // Calculate entry zone (0.5% range around current price)
-    const entryMin = currentPrice * 0.995;
-    const entryMax = currentPrice * 1.005;
+    // Calculate entry zone (0.5% range around current price, on valid ticks)
+    const entryMin = roundToTick(currentPrice * 0.995, "down");
+    const entryMax = roundToTick(currentPrice * 1.005, "up");
 
     // Calculate stop loss and take profits
     let stopLoss: number;
@@ -461,12 +450,24 @@ function generateRecommendation(
         takeProfits = [nearestResistance];
     }
 
+    // Targets round toward the entry so they are never further than planned
+    const isShort = action === "SELL";
+    const roundedStop = roundToTick(stopLoss, isShort ? "up" : "down");
+    const roundedTargets = takeProfits.map((tp) => roundToTick(tp, isShort ? "up" : "down"));
+
     return {
         action,
         confidence,
         entry_zone: { min: entryMin, max: entryMax },
-        stop_loss: Math.round(stopLoss),
-        take_profit: takeProfits.map((tp) => Math.round(tp)),
+        stop_loss: roundedStop,
+        take_profit: roundedTargets,
+        limit_warnings: getLimitWarnings(
+            [
+                { label: "Stop loss", price: roundedStop },
+                ...roundedTargets.map((price, idx) => ({ label: `TP${idx + 1}`, price })),
+            ],
+            referencePrice
+        ),
     };
 }
 
@@ -503,9 +504,8 @@ export async function analyzeMultipleTimeframes(
 
     // Analyze all timeframes in parallel (plus current quote price)
     const analysisPromises = timeframeIntervals.map((interval) => analyzeTimeframe(symbolWithSuffix, interval));
-    const quotePromise = yahooFinance
+    const quotePromise = getMarketDataProvider()
         .quote(symbolWithSuffix)
-        .then((q) => q as QuoteResult)
         .catch(() => null);
 
     const [results, quote] = await Promise.all([Promise.all(analysisPromises), quotePromise]);
@@ -536,7 +536,8 @@ export async function analyzeMultipleTimeframes(
     const recommendation = generateRecommendation(
         confluence,
         timeframes,
-        currentPrice
+        currentPrice,
+        quote?.regularMarketPreviousClose ?? currentPrice
     );
 
     return {
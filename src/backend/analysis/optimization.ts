@@ -0,0 +1,551 @@
+/**
+ * Strategy Parameter Optimization & Walk-Forward Analysis
+ *
+ * Searches a strategy spec's named parameters (grid or seeded random search)
+ * for the best value of an objective, and validates the search with a
+ * rolling walk-forward: optimize on each in-sample window, then trade the
+ * following out-of-sample window with the winning parameters.
+ *
+ * Every run ends with an overfitting assessment (few trades, isolated peak in
+ * the parameter space, weak out-of-sample efficiency, unstable parameters),
+ * because the best in-sample configuration is usually flattering.
+ *
+ * @module backend/analysis/optimization
+ */
+
+import type { HistoricalQuote } from "@/backend/data/marketData";
+import type { ExecutionModel } from "@/shared/executionModel";
+import { createRandom } from "@/shared/statistics";
+import type { StrategySpec } from "@/shared/strategySpec";
+import {
+    backtestStrategy,
+    fetchHistoricalData,
+    resolveStrategySpec,
+    type BacktestResult,
+    type StrategyType,
+} from "./backtesting";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type OptimizationObjective = "SHARPE" | "PROFIT_FACTOR" | "RETURN_DRAWDOWN" | "TOTAL_RETURN";
+export type SearchMethod = "GRID" | "RANDOM";
+
+export interface ParameterRange {
+    /** Name of a parameter declared in `spec.parameters` */
+    name: string;
+    min: number;
+    max: number;
+    step: number;
+}
+
+export interface OptimizationOptions {
+    ranges: ParameterRange[];
+    objective?: OptimizationObjective;
+    method?: SearchMethod;
+    /** Random search: number of distinct combinations to try (default: 60) */
+    samples?: number;
+    /** Seed for random search, so runs are reproducible (default: 1) */
+    seed?: number;
+    /** Grid search refuses to run more combinations than this (default: 400) */
+    maxCombinations?: number;
+    /** Configurations with fewer closed trades get no score (default: 3) */
+    minTrades?: number;
+    /** How trial orders fill (default: the backtester's default model) */
+    execution?: ExecutionModel;
+}
+
+export interface TrialMetrics {
+    totalReturn: number;
+    sharpeRatio: number;
+    profitFactor: number;
+    maxDrawdown: number;
+    winRate: number;
+    /** Closed (round-trip) trades */
+    trades: number;
+}
+
+export interface ParameterTrial extends TrialMetrics {
+    parameters: Record<string, number>;
+    /** Objective value; null when the configuration traded too little */
+    score: number | null;
+}
+
+export interface ParameterHeatmap {
+    xParam: string;
+    yParam: string | null;
+    xValues: number[];
+    yValues: number[];
+    /** cells[y][x]: best score with those two values (other parameters free) */
+    cells: (number | null)[][];
+}
+
+export type OverfittingRisk = "LOW" | "MEDIUM" | "HIGH";
+
+export interface OverfittingAssessment {
+    risk: OverfittingRisk;
+    warnings: string[];
+}
+
+export interface OptimizationResult {
+    objective: OptimizationObjective;
+    method: SearchMethod;
+    /** Sorted best first; unscored trials last */
+    trials: ParameterTrial[];
+    best: ParameterTrial | null;
+    /** Metrics of the spec's own parameter values, for comparison */
+    baseline: ParameterTrial | null;
+    heatmap: ParameterHeatmap | null;
+    overfitting: OverfittingAssessment;
+}
+
+export interface WalkForwardOptions {
+    /** Number of out-of-sample windows (default: 4) */
+    windows?: number;
+    /** Share of each train+test span used for optimization (default: 0.7) */
+    inSampleRatio?: number;
+}
+
+export interface WalkForwardWindow {
+    inSample: { start: string; end: string };
+    outOfSample: { start: string; end: string };
+    parameters: Record<string, number>;
+    inSampleScore: number | null;
+    inSampleReturn: number;
+    outOfSampleScore: number | null;
+    outOfSampleReturn: number;
+    outOfSampleTrades: number;
+}
+
+export interface WalkForwardResult {
+    objective: OptimizationObjective;
+    windows: WalkForwardWindow[];
+    /** Compounded return of all out-of-sample windows, % */
+    outOfSampleReturn: number;
+    /**
+     * Walk-forward efficiency: out-of-sample return per bar divided by
+     * in-sample return per bar (null when in-sample did not make money)
+     */
+    efficiency: number | null;
+    overfitting: OverfittingAssessment;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_SAMPLES = 60;
+const DEFAULT_MAX_COMBINATIONS = 400;
+const DEFAULT_MIN_TRADES = 3;
+/** Profit factor with no losing trade is capped so it stays comparable */
+const PROFIT_FACTOR_CAP = 10;
+
+const MIN_IN_SAMPLE_BARS = 40;
+const MIN_OUT_OF_SAMPLE_BARS = 10;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** Values of a range, inclusive of both ends (floating-point safe) */
+export function rangeValues(range: ParameterRange): number[] {
+    if (!(range.step > 0) || range.max < range.min) return [range.min];
+    const count = Math.floor((range.max - range.min) / range.step + 1e-9) + 1;
+    return Array.from({ length: count }, (_, k) => Number((range.min + k * range.step).toFixed(10)));
+}
+
+function gridSize(ranges: ParameterRange[]): number {
+    return ranges.reduce((size, r) => size * rangeValues(r).length, 1);
+}
+
+function* gridCombinations(ranges: ParameterRange[]): Generator<Record<string, number>> {
+    const values = ranges.map(rangeValues);
+    const indices = ranges.map(() => 0);
+    while (true) {
+        yield Object.fromEntries(ranges.map((r, k) => [r.name, values[k][indices[k]]]));
+        let k = ranges.length - 1;
+        while (k >= 0 && ++indices[k] === values[k].length) indices[k--] = 0;
+        if (k < 0) return;
+    }
+}
+
+function randomCombinations(ranges: ParameterRange[], samples: number, seed: number): Record<string, number>[] {
+    const values = ranges.map(rangeValues);
+    const target = Math.min(samples, gridSize(ranges));
+    const random = createRandom(seed);
+    const seen = new Set<string>();
+    const combos: Record<string, number>[] = [];
+
+    // Bounded attempts: duplicates get likelier as the sample nears the grid size
+    for (let attempt = 0; combos.length < target && attempt < target * 20; attempt++) {
+        const combo = Object.fromEntries(ranges.map((r, k) => [r.name, values[k][Math.floor(random() * values[k].length)]]));
+        const key = JSON.stringify(combo);
+        if (seen.has(key)) continue;
+        seen.add(key);
+        combos.push(combo);
+    }
+    return combos;
+}
+
+export function withParameters(spec: StrategySpec, parameters: Record<string, number>): StrategySpec {
+    return { ...spec, parameters: { ...spec.parameters, ...parameters } };
+}
+
+function metricsOf(result: BacktestResult): TrialMetrics {
+    return {
+        totalReturn: result.totalReturn,
+        sharpeRatio: result.sharpeRatio,
+        profitFactor: Math.min(result.profitFactor, PROFIT_FACTOR_CAP),
+        maxDrawdown: result.maxDrawdown,
+        winRate: result.winRate,
+        trades: result.winningTrades + result.losingTrades,
+    };
+}
+
+/**
+ * Objective value of a backtest; higher is better.
+ */
+export function scoreMetrics(metrics: TrialMetrics, objective: OptimizationObjective): number {
+    switch (objective) {
+        case "PROFIT_FACTOR":
+            return metrics.profitFactor;
+        case "RETURN_DRAWDOWN":
+            // Floor the drawdown at 1% so near-zero drawdowns don't explode the ratio
+            return metrics.totalReturn / Math.max(metrics.maxDrawdown, 1);
+        case "TOTAL_RETURN":
+            return metrics.totalReturn;
+        case "SHARPE":
+        default:
+            return metrics.sharpeRatio;
+    }
+}
+
+function compareTrials(a: ParameterTrial, b: ParameterTrial): number {
+    if (a.score === null) return b.score === null ? 0 : 1;
+    if (b.score === null) return -1;
+    return b.score - a.score;
+}
+
+function runTrial(
+    symbol: string,
+    historical: HistoricalQuote[],
+    spec: StrategySpec,
+    parameters: Record<string, number>,
+    objective: OptimizationObjective,
+    minTrades: number,
+    startIndex?: number,
+    execution?: ExecutionModel
+): ParameterTrial | null {
+    try {
+        const result = backtestStrategy(symbol, historical, withParameters(spec, parameters), { startIndex, execution });
+        const metrics = metricsOf(result);
+        return {
+            parameters,
+            ...metrics,
+            score: metrics.trades >= minTrades ? scoreMetrics(metrics, objective) : null,
+        };
+    } catch {
+        // Invalid combination (e.g. warm-up longer than the data); skip it
+        return null;
+    }
+}
+
+function buildHeatmap(ranges: ParameterRange[], trials: ParameterTrial[]): ParameterHeatmap | null {
+    if (ranges.length === 0) return null;
+    const [xRange, yRange] = ranges;
+    const xValues = rangeValues(xRange);
+    const yValues = yRange ? rangeValues(yRange) : [0];
+    const cells: (number | null)[][] = yValues.map(() => xValues.map(() => null));
+
+    for (const trial of trials) {
+        if (trial.score === null) continue;
+        const x = xValues.indexOf(trial.parameters[xRange.name]);
+        const y = yRange ? yValues.indexOf(trial.parameters[yRange.name]) : 0;
+        if (x < 0 || y < 0) continue;
+        const cell = cells[y][x];
+        if (cell === null || trial.score > cell) cells[y][x] = trial.score;
+    }
+
+    return { xParam: xRange.name, yParam: yRange?.name ?? null, xValues, yValues: yRange ? yValues : [], cells };
+}
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function riskFromWarnings(severe: number, total: number): OverfittingRisk {
+    if (severe > 0 || total >= 3) return "HIGH";
+    return total > 0 ? "MEDIUM" : "LOW";
+}
+
+/**
+ * Overfitting checks on a finished search.
+ */
+function assessSearch(ranges: ParameterRange[], trials: ParameterTrial[], best: ParameterTrial | null): OverfittingAssessment {
+    const warnings: string[] = [];
+    let severe = 0;
+
+    if (!best) {
+        return { risk: "HIGH", warnings: ["No configuration produced enough trades to score"] };
+    }
+
+    if (best.trades < 10) {
+        warnings.push(`Best configuration closed only ${best.trades} trades; the score is statistically weak`);
+    }
+
+    // Isolated peak: neighbours one step away in any parameter score far worse
+    const scored = trials.filter((t) => t.score !== null);
+    const neighbours = scored.filter((t) =>
+        t !== best &&
+        ranges.every((r) => Math.abs(t.parameters[r.name] - best.parameters[r.name]) <= r.step + 1e-9) &&
+        ranges.filter((r) => t.parameters[r.name] !== best.parameters[r.name]).length === 1
+    );
+    if (neighbours.length > 0 && best.score !== null && best.score > 0) {
+        const neighbourMedian = median(neighbours.map((t) => t.score as number));
+        if (neighbourMedian < best.score * 0.5) {
+            warnings.push("Best parameters sit on an isolated peak: adjacent values perform much worse");
+            severe++;
+        }
+    }
+
+    // A winner picked from many candidates, standing far above the typical one, is suspect
+    if (scored.length >= 20 && best.score !== null) {
+        const scores = scored.map((t) => t.score as number);
+        const typical = median(scores);
+        const spread = median(scores.map((s) => Math.abs(s - typical))) || 1e-9;
+        if ((best.score - typical) / spread > 6) {
+            warnings.push(`Best of ${scored.length} configurations is an outlier versus the rest; expect some luck in its score`);
+        }
+    }
+
+    if (scored.length > 0 && scored.filter((t) => t.totalReturn > 0).length / scored.length < 0.3) {
+        warnings.push("Fewer than 30% of tested configurations were profitable; the edge is fragile");
+    }
+
+    return { risk: riskFromWarnings(severe, warnings.length), warnings };
+}
+
+// ============================================================================
+// Optimization
+// ============================================================================
+
+/**
+ * Search the spec's parameters over already-fetched candles.
+ *
+ * @param startIndex - First bar allowed to trade (earlier bars warm up indicators)
+ * @throws Error for unknown parameters or a grid above `maxCombinations`
+ */
+export function optimizeStrategy(
+    symbol: string,
+    historical: HistoricalQuote[],
+    spec: StrategySpec,
+    options: OptimizationOptions,
+    startIndex?: number
+): OptimizationResult {
+    const objective = options.objective ?? "SHARPE";
+    const method = options.method ?? "GRID";
+    const minTrades = options.minTrades ?? DEFAULT_MIN_TRADES;
+    const { ranges } = options;
+
+    if (ranges.length === 0) throw new Error("Select at least one parameter to optimize");
+    for (const range of ranges) {
+        if (!(range.name in (spec.parameters ?? {}))) {
+            throw new Error(`Strategy "${spec.name}" has no parameter "${range.name}"`);
+        }
+    }
+
+    let combinations: Iterable<Record<string, number>>;
+    if (method === "GRID") {
+        const size = gridSize(ranges);
+        const limit = options.maxCombinations ?? DEFAULT_MAX_COMBINATIONS;
+        if (size > limit) {
+            throw new Error(`Grid has ${size} combinations (max ${limit}); widen the steps or use random search`);
+        }
+        combinations = gridCombinations(ranges);
+    } else {
+        combinations = randomCombinations(ranges, options.samples ?? DEFAULT_SAMPLES, options.seed ?? 1);
+    }
+
+    const trials: ParameterTrial[] = [];
+    for (const parameters of combinations) {
+        const trial = runTrial(symbol, historical, spec, parameters, objective, minTrades, startIndex, options.execution);
+        if (trial) trials.push(trial);
+    }
+    trials.sort(compareTrials);
+
+    const best = trials.length > 0 && trials[0].score !== null ? trials[0] : null;
+    const baseline = runTrial(symbol, historical, spec, {}, objective, minTrades, startIndex, options.execution);
+
+    console.log(`[Optimization] ${spec.name} on ${symbol}: ${trials.length} trials, best ${objective} ${best?.score?.toFixed(2) ?? "n/a"}`);
+
+    return {
+        objective,
+        method,
+        trials,
+        best,
+        baseline,
+        heatmap: buildHeatmap(ranges, trials),
+        overfitting: assessSearch(ranges, trials, best),
+    };
+}
+
+// ============================================================================
+// Walk-Forward Analysis
+// ============================================================================
+
+const dateOf = (q: HistoricalQuote) => q.date.toISOString().split("T")[0];
+
+/**
+ * Rolling walk-forward: for each window, optimize on the in-sample bars and
+ * trade the next out-of-sample bars with the winning parameters.
+ *
+ * @throws Error when there are too few bars for the requested windows
+ */
+export function walkForwardAnalysis(
+    symbol: string,
+    historical: HistoricalQuote[],
+    spec: StrategySpec,
+    options: OptimizationOptions,
+    walkForward: WalkForwardOptions = {}
+): WalkForwardResult {
+    const quotes = historical.filter((q) => q.close !== null);
+    const windowCount = Math.max(1, Math.floor(walkForward.windows ?? 4));
+    const ratio = Math.min(0.9, Math.max(0.5, walkForward.inSampleRatio ?? 0.7));
+    const objective = options.objective ?? "SHARPE";
+
+    // inSample + windows * outOfSample = bars, with inSample / (inSample + outOfSample) = ratio
+    const outOfSampleBars = Math.floor(quotes.length / (windowCount + ratio / (1 - ratio)));
+    const inSampleBars = quotes.length - windowCount * outOfSampleBars;
+    if (outOfSampleBars < MIN_OUT_OF_SAMPLE_BARS || inSampleBars < MIN_IN_SAMPLE_BARS) {
+        throw new Error(
+            `Not enough data for ${windowCount} walk-forward windows: ${quotes.length} bars ` +
+            `(need ${MIN_IN_SAMPLE_BARS} in-sample and ${MIN_OUT_OF_SAMPLE_BARS} out-of-sample bars per window)`
+        );
+    }
+
+    const windows: WalkForwardWindow[] = [];
+    for (let w = 0; w < windowCount; w++) {
+        const isStart = w * outOfSampleBars;
+        const oosStart = isStart + inSampleBars;
+        const oosEnd = oosStart + outOfSampleBars;
+
+        // In-sample bars may warm up on data before the window, never on data after it
+        const search = optimizeStrategy(symbol, quotes.slice(0, oosStart), spec, options, isStart);
+        const chosen = search.best ?? search.baseline;
+        const parameters = chosen?.parameters ?? {};
+
+        const outOfSample = runTrial(symbol, quotes.slice(0, oosEnd), spec, parameters, objective, 1, oosStart, options.execution);
+
+        windows.push({
+            inSample: { start: dateOf(quotes[isStart]), end: dateOf(quotes[oosStart - 1]) },
+            outOfSample: { start: dateOf(quotes[oosStart]), end: dateOf(quotes[oosEnd - 1]) },
+            parameters,
+            inSampleScore: chosen?.score ?? null,
+            inSampleReturn: chosen?.totalReturn ?? 0,
+            outOfSampleScore: outOfSample?.score ?? null,
+            outOfSampleReturn: outOfSample?.totalReturn ?? 0,
+            outOfSampleTrades: outOfSample?.trades ?? 0,
+        });
+    }
+
+    const outOfSampleReturn =
+        (windows.reduce((growth, w) => growth * (1 + w.outOfSampleReturn / 100), 1) - 1) * 100;
+    const inSamplePerBar = windows.reduce((sum, w) => sum + w.inSampleReturn, 0) / (windowCount * inSampleBars);
+    const outOfSamplePerBar = windows.reduce((sum, w) => sum + w.outOfSampleReturn, 0) / (windowCount * outOfSampleBars);
+    const efficiency = inSamplePerBar > 0 ? outOfSamplePerBar / inSamplePerBar : null;
+
+    return {
+        objective,
+        windows,
+        outOfSampleReturn,
+        efficiency,
+        overfitting: assessWalkForward(windows, efficiency, options.ranges),
+    };
+}
+
+function assessWalkForward(
+    windows: WalkForwardWindow[],
+    efficiency: number | null,
+    ranges: ParameterRange[]
+): OverfittingAssessment {
+    const warnings: string[] = [];
+    let severe = 0;
+
+    if (efficiency === null) {
+        warnings.push("In-sample optimization did not make money; there is nothing to validate");
+        severe++;
+    } else if (efficiency < 0.5) {
+        warnings.push(`Walk-forward efficiency is ${(efficiency * 100).toFixed(0)}%: out-of-sample results keep less than half of the in-sample edge`);
+        severe++;
+    }
+
+    const losing = windows.filter((w) => w.outOfSampleReturn < 0).length;
+    if (losing > windows.length / 2) {
+        warnings.push(`${losing} of ${windows.length} out-of-sample windows lost money`);
+    }
+
+    // Parameters that jump around between windows were fitted to noise
+    for (const range of ranges) {
+        const values = windows.map((w) => w.parameters[range.name]).filter((v) => v !== undefined);
+        if (values.length < 2) continue;
+        const span = Math.max(...values) - Math.min(...values);
+        const fullSpan = range.max - range.min;
+        if (fullSpan > 0 && span / fullSpan > 0.5) {
+            warnings.push(`"${range.name}" changes a lot between windows (${Math.min(...values)}–${Math.max(...values)}); the optimum is unstable`);
+        }
+    }
+
+    if (windows.some((w) => w.outOfSampleTrades === 0)) {
+        warnings.push("Some out-of-sample windows had no trades");
+    }
+
+    return { risk: riskFromWarnings(severe, warnings.length), warnings };
+}
+
+// ============================================================================
+// Entry Point
+// ============================================================================
+
+export interface OptimizationReport {
+    symbol: string;
+    strategy: string;
+    period: { start: string; end: string; days: number };
+    optimization: OptimizationResult;
+    /** Present when walk-forward validation was requested */
+    walkForward: WalkForwardResult | null;
+}
+
+/**
+ * Fetch daily candles and optimize a built-in or custom strategy, optionally
+ * validating the search with a walk-forward analysis.
+ */
+export async function runOptimization(
+    symbol: string,
+    strategy: StrategyType | StrategySpec,
+    days: number,
+    options: OptimizationOptions,
+    walkForward?: WalkForwardOptions
+): Promise<OptimizationReport> {
+    const spec = resolveStrategySpec(strategy);
+    const historical = await fetchHistoricalData(symbol, days);
+
+    if (historical.length < 60) {
+        throw new Error(`Insufficient data for optimization: ${historical.length} days`);
+    }
+
+    const optimization = optimizeStrategy(symbol, historical, spec, options);
+    const walkForwardResult = walkForward
+        ? walkForwardAnalysis(symbol, historical, spec, options, walkForward)
+        : null;
+
+    return {
+        symbol,
+        strategy: spec.name,
+        period: { start: dateOf(historical[0]), end: dateOf(historical[historical.length - 1]), days },
+        optimization,
+        walkForward: walkForwardResult,
+    };
+}
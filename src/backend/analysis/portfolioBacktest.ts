@@ -0,0 +1,609 @@
+/**
+ * Portfolio Backtesting
+ *
+ * Runs one strategy spec across a universe of symbols with shared capital:
+ * - At most `maxPositions` open positions; when more symbols signal on the
+ *   same day, the ones with the most satisfied entry conditions go first
+ * - Per-position risk sizing: risk `riskPerTradePercent` of equity between
+ *   the fill and the spec's stop (or `maxPositionPercent` without a stop),
+ *   capped by position and sector exposure limits, in whole IDX lots
+ * - Exits use the spec's risk rules and exit signal per symbol, exactly as
+ *   the single-symbol backtester does (the spec's own sizing is ignored)
+ * - Orders fill through the same execution model (close or next open,
+ *   slippage, volume caps, ARA/ARB refusal)
+ *
+ * Reports the portfolio equity curve, exposure over time, per-symbol
+ * contribution and a comparison with IHSG (^JKSE) buy-and-hold.
+ *
+ * @module backend/analysis/portfolioBacktest
+ */
+
+import { fetchChart, type HistoricalQuote } from "@/backend/data/marketData";
+import { getStockInfo } from "@/lib/bpjs/universe";
+import { IDX_FEE, IDX_MARKET } from "@/shared/constants";
+import {
+    DEFAULT_EXECUTION_MODEL,
+    EXECUTION_MODELS,
+    describeExecutionModel,
+    fillableShares,
+    quoteFill,
+    type ExecutionModel,
+    type FillBar,
+} from "@/shared/executionModel";
+import { roundToTick } from "@/shared/idxMarketRules";
+import { closedPositions } from "@/shared/roundTrips";
+import type { StrategySpec } from "@/shared/strategySpec";
+import {
+    calculateMaxDrawdown,
+    calculateSharpeRatio,
+    createPositionRules,
+    fetchHistoricalData,
+    resolveStrategySpec,
+    type ExitDecision,
+    type ExitRule,
+    type PositionRules,
+    type PositionState,
+    type StrategyType,
+    type Trade,
+} from "./backtesting";
+import { compileStrategy, toStrategyBars, type CompiledStrategy } from "./strategyEngine";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface PortfolioConfig {
+    /** Starting cash in IDR (default: 100M) */
+    initialCapital?: number;
+    /** Maximum simultaneously open positions (default: 5) */
+    maxPositions?: number;
+    /** Equity risked between entry and stop per position, % (default: 1) */
+    riskPerTradePercent?: number;
+    /** Largest single position, % of equity (default: 20) */
+    maxPositionPercent?: number;
+    /** Largest combined exposure to one sector, % of equity (default: 40) */
+    maxSectorPercent?: number;
+    /** Sector per symbol; defaults to the IDX-IC sector from the company master, else "Others" */
+    sectors?: Record<string, string>;
+    /** How orders fill (default: the IDX realistic model); positions are always whole lots */
+    execution?: ExecutionModel;
+}
+
+export interface PortfolioTrade extends Trade {
+    symbol: string;
+    sector: string;
+}
+
+export interface PortfolioPoint {
+    date: string;
+    equity: number;
+    cash: number;
+    /** Market value of open positions, % of equity */
+    exposurePercent: number;
+    openPositions: number;
+    /** IHSG buy-and-hold scaled to the initial capital (null before its first bar) */
+    benchmarkEquity: number | null;
+}
+
+export interface SymbolContribution {
+    symbol: string;
+    sector: string;
+    /** Closed round trips */
+    trades: number;
+    winRate: number;
+    /** Net profit in IDR after fees */
+    profit: number;
+    /** Profit as % of initial capital */
+    contributionPercent: number;
+}
+
+export interface SectorExposure {
+    sector: string;
+    averagePercent: number;
+    maxPercent: number;
+}
+
+export interface PortfolioBacktestResult {
+    strategy: string;
+    spec: StrategySpec;
+    symbols: string[];
+    /** Symbols left out, with the reason */
+    skipped: { symbol: string; reason: string }[];
+    period: { start: string; end: string };
+    config: Required<Omit<PortfolioConfig, "sectors" | "execution">>;
+    finalEquity: number;
+    totalReturn: number;
+    maxDrawdown: number;
+    sharpeRatio: number;
+    totalTrades: number;
+    winRate: number;
+    averageExposure: number;
+    /** Entry signals not taken because of position, sector or cash limits */
+    missedSignals: number;
+    /** The execution model the fills were simulated with */
+    execution: { model: ExecutionModel; description: string; rejectedOrders: number };
+    equityCurve: PortfolioPoint[];
+    sectorExposure: SectorExposure[];
+    contributions: SymbolContribution[];
+    trades: PortfolioTrade[];
+    benchmark: { symbol: string; totalReturn: number } | null;
+    outperformsBenchmark: boolean | null;
+}
+
+interface SymbolState {
+    symbol: string;
+    sector: string;
+    quotes: HistoricalQuote[];
+    indexByDate: Map<string, number>;
+    compiled: CompiledStrategy;
+    rules: PositionRules;
+    startIndex: number;
+}
+
+/** Order raised on a bar's close, filled on the same close or the next open */
+interface Order {
+    side: "BUY" | "SELL";
+    state: SymbolState;
+    /** Bar the order fills on (the signal bar until it is filled) */
+    i: number;
+    signalIndex: number;
+    reason: string;
+    /** Satisfied entry conditions, to rank competing entries */
+    strength?: number;
+    rule?: ExitRule;
+    /** Percent of the original position for partial SELLs; full exit when absent */
+    sizePercent?: number | null;
+}
+
+interface OpenPosition {
+    state: PositionState;
+    shares: number;
+    /** Shares bought; scale-out sizes are percents of this */
+    entryShares: number;
+    lastPrice: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const BENCHMARK_SYMBOL = "^JKSE";
+
+const DEFAULT_CONFIG: Required<Omit<PortfolioConfig, "sectors" | "execution">> = {
+    initialCapital: 100_000_000,
+    maxPositions: 5,
+    riskPerTradePercent: 1,
+    maxPositionPercent: 20,
+    maxSectorPercent: 40,
+};
+
+const FETCH_BATCH_SIZE = 10;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const dateKey = (date: Date) => date.toISOString().split("T")[0];
+const baseSymbol = (symbol: string) => symbol.toUpperCase().replace(".JK", "");
+
+function prepareSymbol(
+    symbol: string,
+    historical: HistoricalQuote[],
+    spec: StrategySpec,
+    sector: string
+): SymbolState | string {
+    const quotes = historical.filter((q) => q.close !== null);
+    if (quotes.length === 0) return "No price data";
+
+    try {
+        const compiled = compileStrategy(spec, toStrategyBars(quotes));
+        const startIndex = Math.max(1, compiled.warmup);
+        if (startIndex >= quotes.length - 1) {
+            return `Insufficient data for strategy warm-up: ${quotes.length} bars`;
+        }
+        return {
+            symbol,
+            sector,
+            quotes,
+            indexByDate: new Map(quotes.map((q, i) => [dateKey(q.date), i])),
+            compiled,
+            rules: createPositionRules(compiled),
+            startIndex,
+        };
+    } catch (error) {
+        return error instanceof Error ? error.message : "Strategy failed to compile";
+    }
+}
+
+// ============================================================================
+// Simulation
+// ============================================================================
+
+/**
+ * Simulate a strategy over several symbols' candles with shared capital.
+ *
+ * @param histories - Daily candles per symbol (oldest to newest)
+ * @param benchmark - IHSG candles for the buy-and-hold comparison
+ * @throws Error when no symbol has enough data to trade
+ */
+export function backtestPortfolio(
+    spec: StrategySpec,
+    histories: Record<string, HistoricalQuote[]>,
+    config: PortfolioConfig = {},
+    benchmark: HistoricalQuote[] = []
+): PortfolioBacktestResult {
+    const settings = {
+        initialCapital: config.initialCapital ?? DEFAULT_CONFIG.initialCapital,
+        maxPositions: Math.max(1, Math.floor(config.maxPositions ?? DEFAULT_CONFIG.maxPositions)),
+        riskPerTradePercent: config.riskPerTradePercent ?? DEFAULT_CONFIG.riskPerTradePercent,
+        maxPositionPercent: config.maxPositionPercent ?? DEFAULT_CONFIG.maxPositionPercent,
+        maxSectorPercent: config.maxSectorPercent ?? DEFAULT_CONFIG.maxSectorPercent,
+    };
+
+    const universe: SymbolState[] = [];
+    const skipped: { symbol: string; reason: string }[] = [];
+    for (const [rawSymbol, historical] of Object.entries(histories)) {
+        const symbol = baseSymbol(rawSymbol);
+        const sector = config.sectors?.[symbol] ?? getStockInfo(symbol)?.sector ?? "Others";
+        const prepared = prepareSymbol(symbol, historical, spec, sector);
+        if (typeof prepared === "string") skipped.push({ symbol, reason: prepared });
+        else universe.push(prepared);
+    }
+    if (universe.length === 0) {
+        throw new Error("No symbol has enough data for a portfolio backtest");
+    }
+    const bySymbol = new Map(universe.map((s) => [s.symbol, s]));
+
+    // Trade on the union of all trading days, from the first day any symbol is warmed up
+    const firstTradable = universe
+        .map((s) => dateKey(s.quotes[s.startIndex].date))
+        .sort()[0];
+    const dates = Array.from(new Set(universe.flatMap((s) => s.quotes.map((q) => dateKey(q.date)))))
+        .filter((d) => d >= firstTradable)
+        .sort();
+
+    const benchmarkCloses = new Map(
+        benchmark.filter((q) => q.close !== null).map((q) => [dateKey(q.date), q.close as number])
+    );
+    let benchmarkBase: number | null = null;
+    let benchmarkLast: number | null = null;
+
+    const execution = config.execution ?? EXECUTION_MODELS[DEFAULT_EXECUTION_MODEL];
+    let cash = settings.initialCapital;
+    let missedSignals = 0;
+    let rejectedOrders = 0;
+    /** Orders waiting for the next bar's open (NEXT_OPEN fills) */
+    let pending: Order[] = [];
+    /** Full exits refused or partially filled, retried every bar */
+    const unfilledExits = new Map<string, ExitDecision>();
+    const positions = new Map<string, OpenPosition>();
+    const trades: PortfolioTrade[] = [];
+    const equityCurve: PortfolioPoint[] = [];
+    const dailyReturns: number[] = [];
+    const sectorTotals = new Map<string, { sum: number; max: number }>();
+
+    const marketValue = () => Array.from(positions.values()).reduce((sum, p) => sum + p.shares * p.lastPrice, 0);
+
+    const fillBar = (state: SymbolState, i: number): FillBar => ({
+        open: state.quotes[i].open ?? (state.quotes[i].close as number),
+        high: state.quotes[i].high,
+        low: state.quotes[i].low,
+        close: state.quotes[i].close as number,
+        volume: state.quotes[i].volume,
+        previousClose: i > 0 ? (state.quotes[i - 1].close as number) : null,
+    });
+
+    const recordSell = (
+        state: SymbolState,
+        position: OpenPosition,
+        shares: number,
+        price: number,
+        date: string,
+        reason: string,
+        exitRule: ExitRule
+    ) => {
+        const value = shares * price;
+        const fees = value * IDX_FEE.SELL;
+        const cost = shares * position.state.entryPrice;
+        const profit = value - fees - cost;
+
+        cash += value - fees;
+        position.shares -= shares;
+        if (position.shares === 0) positions.delete(state.symbol);
+        trades.push({
+            symbol: state.symbol,
+            sector: state.sector,
+            type: "SELL",
+            date,
+            price,
+            shares,
+            value,
+            fees,
+            profit,
+            profitPercent: (profit / cost) * 100,
+            reason,
+            exitRule,
+        });
+    };
+
+    /**
+     * Sell through the execution model; whatever a full exit does not fill is
+     * retried next bar (a missed scale-out waits for the next rule)
+     */
+    const sell = (order: Order, date: string) => {
+        const { state, i, reason, sizePercent } = order;
+        const rule = order.rule ?? "SIGNAL";
+        const position = positions.get(state.symbol);
+        if (!position) return;
+
+        const bar = fillBar(state, i);
+        const quote = quoteFill(execution, "SELL", bar);
+        const desired = sizePercent
+            ? Math.min(position.shares, (position.entryShares * sizePercent) / 100)
+            : position.shares;
+        const shares = quote.filled ? fillableShares(execution, bar, desired) : 0;
+        if (!quote.filled || shares <= 0) {
+            // A scale-out smaller than one lot is skipped, not rejected
+            if (!quote.filled || !sizePercent) rejectedOrders++;
+            if (!sizePercent) unfilledExits.set(state.symbol, { rule, reason, sizePercent: null });
+            return;
+        }
+
+        const partial = shares < fillableShares({ ...execution, maxVolumeParticipation: null }, bar, desired);
+        recordSell(state, position, shares, quote.price, date, partial ? `${reason} (partial fill)` : reason, rule);
+        if (positions.has(state.symbol) && !sizePercent) unfilledExits.set(state.symbol, { rule, reason, sizePercent: null });
+        else unfilledExits.delete(state.symbol);
+    };
+
+    /** Buy through the execution model within the portfolio's position, sector and cash limits */
+    const buy = (order: Order, date: string) => {
+        const { state, i, signalIndex, reason } = order;
+        if (positions.has(state.symbol)) return;
+        if (positions.size >= settings.maxPositions) {
+            missedSignals++;
+            return;
+        }
+
+        const bar = fillBar(state, i);
+        const quote = quoteFill(execution, "BUY", bar);
+        if (!quote.filled) {
+            rejectedOrders++;
+            return;
+        }
+
+        const equity = cash + marketValue();
+        const fillPrice = quote.price;
+        const opened = state.rules.open(fillPrice, i, execution.fillTiming === "CLOSE" ? bar.close : fillPrice, signalIndex);
+
+        const maxPosition = equity * (settings.maxPositionPercent / 100);
+        const riskSized = opened.stopPrice !== null && opened.stopPrice < fillPrice
+            ? ((equity * settings.riskPerTradePercent) / 100 / (fillPrice - opened.stopPrice)) * fillPrice
+            : maxPosition;
+        const sectorUsed = Array.from(positions.entries())
+            .filter(([symbol]) => bySymbol.get(symbol)?.sector === state.sector)
+            .reduce((sum, [, p]) => sum + p.shares * p.lastPrice, 0);
+        const sectorRoom = equity * (settings.maxSectorPercent / 100) - sectorUsed;
+
+        const budget = Math.min(riskSized, maxPosition, sectorRoom, cash / (1 + IDX_FEE.BUY));
+        const shares = fillableShares(execution, bar, Math.floor(budget / (fillPrice * IDX_MARKET.LOT_SIZE)) * IDX_MARKET.LOT_SIZE);
+        if (shares <= 0) {
+            missedSignals++;
+            return;
+        }
+
+        const value = shares * fillPrice;
+        const fees = value * IDX_FEE.BUY;
+        cash -= value + fees;
+        positions.set(state.symbol, { state: opened, shares, entryShares: shares, lastPrice: bar.close });
+        trades.push({
+            symbol: state.symbol,
+            sector: state.sector,
+            type: "BUY",
+            date,
+            price: fillPrice,
+            shares,
+            value,
+            fees,
+            reason,
+        });
+    };
+
+    for (const date of dates) {
+        // Orders signalled on the previous close fill at today's open: exits first,
+        // so freed capital and slots are available to the entries
+        const queued = pending;
+        pending = [];
+        for (const order of queued) {
+            const i = order.state.indexByDate.get(date);
+            if (i === undefined) {
+                // No bar for the symbol today; exits wait, entries lapse
+                if (order.side === "SELL") pending.push(order);
+                continue;
+            }
+            const filled = { ...order, i };
+            if (order.side === "SELL") sell(filled, date);
+            else buy(filled, date);
+        }
+
+        // Mark open positions to today's close
+        for (const [symbol, position] of positions) {
+            const state = bySymbol.get(symbol) as SymbolState;
+            const i = state.indexByDate.get(date);
+            if (i !== undefined) position.lastPrice = state.quotes[i].close as number;
+        }
+
+        // Exit orders from today's close
+        const exits: Order[] = [];
+        for (const state of universe) {
+            const position = positions.get(state.symbol);
+            const i = state.indexByDate.get(date);
+            if (!position || i === undefined || pending.some((o) => o.state === state)) continue;
+            const exit = unfilledExits.get(state.symbol) ?? state.rules.exit(position.state, position.lastPrice, i);
+            if (exit) {
+                exits.push({ side: "SELL", state, i, signalIndex: i, reason: exit.reason, rule: exit.rule, sizePercent: exit.sizePercent });
+            }
+        }
+
+        // Entry orders, strongest confluence first
+        const entries: Order[] = universe
+            .map((state): Order | null => {
+                const i = state.indexByDate.get(date);
+                if (i === undefined || i < state.startIndex || positions.has(state.symbol)) return null;
+                const entry = state.compiled.entry(i);
+                return entry.passed
+                    ? { side: "BUY", state, i, signalIndex: i, reason: `Entry: ${entry.reasons.join(", ")}`, strength: entry.reasons.length }
+                    : null;
+            })
+            .filter((o): o is Order => o !== null)
+            .sort((a, b) => (b.strength ?? 0) - (a.strength ?? 0));
+
+        if (execution.fillTiming === "CLOSE") {
+            exits.forEach((order) => sell(order, date));
+            entries.forEach((order) => buy(order, date));
+        } else {
+            pending.push(...exits, ...entries);
+        }
+
+        // Record the day
+        const invested = marketValue();
+        const equity = cash + invested;
+        const previous = equityCurve[equityCurve.length - 1];
+        if (previous) dailyReturns.push((equity - previous.equity) / previous.equity);
+
+        const benchmarkClose = benchmarkCloses.get(date);
+        if (benchmarkClose !== undefined) {
+            benchmarkBase ??= benchmarkClose;
+            benchmarkLast = benchmarkClose;
+        }
+
+        equityCurve.push({
+            date,
+            equity,
+            cash,
+            exposurePercent: equity > 0 ? (invested / equity) * 100 : 0,
+            openPositions: positions.size,
+            benchmarkEquity: benchmarkBase !== null && benchmarkLast !== null
+                ? settings.initialCapital * (benchmarkLast / benchmarkBase)
+                : null,
+        });
+
+        const bySector = new Map<string, number>();
+        for (const [symbol, p] of positions) {
+            const sector = bySymbol.get(symbol)?.sector ?? "Others";
+            bySector.set(sector, (bySector.get(sector) ?? 0) + p.shares * p.lastPrice);
+        }
+        for (const sector of new Set([...sectorTotals.keys(), ...bySector.keys()])) {
+            const percent = equity > 0 ? ((bySector.get(sector) ?? 0) / equity) * 100 : 0;
+            const totals = sectorTotals.get(sector) ?? { sum: 0, max: 0 };
+            sectorTotals.set(sector, { sum: totals.sum + percent, max: Math.max(totals.max, percent) });
+        }
+    }
+
+    // Close whatever is still open on the last day
+    const lastDate = dates[dates.length - 1];
+    for (const state of universe) {
+        const position = positions.get(state.symbol);
+        if (position) {
+            recordSell(state, position, position.shares, roundToTick(position.lastPrice, "down"), lastDate, "End of backtest period", "END_OF_PERIOD");
+        }
+    }
+    if (equityCurve.length > 0) {
+        const last = equityCurve[equityCurve.length - 1];
+        equityCurve[equityCurve.length - 1] = { ...last, equity: cash, cash, exposurePercent: 0, openPositions: 0 };
+    }
+
+    // Metrics
+    const closedTrades = closedPositions(trades);
+    const wins = closedTrades.filter((p) => p.profit > 0);
+    const totalReturn = ((cash - settings.initialCapital) / settings.initialCapital) * 100;
+
+    const contributions: SymbolContribution[] = universe
+        .map((state) => {
+            const closed = closedTrades.filter((p) => p.symbol === state.symbol);
+            const profit = closed.reduce((sum, p) => sum + p.profit, 0);
+            return {
+                symbol: state.symbol,
+                sector: state.sector,
+                trades: closed.length,
+                winRate: closed.length > 0 ? (closed.filter((p) => p.profit > 0).length / closed.length) * 100 : 0,
+                profit,
+                contributionPercent: (profit / settings.initialCapital) * 100,
+            };
+        })
+        .filter((c) => c.trades > 0)
+        .sort((a, b) => b.profit - a.profit);
+
+    const sectorExposure: SectorExposure[] = Array.from(sectorTotals.entries())
+        .map(([sector, totals]) => ({
+            sector,
+            averagePercent: totals.sum / Math.max(1, equityCurve.length),
+            maxPercent: totals.max,
+        }))
+        .sort((a, b) => b.averagePercent - a.averagePercent);
+
+    const benchmarkResult = benchmarkBase !== null && benchmarkLast !== null
+        ? { symbol: BENCHMARK_SYMBOL, totalReturn: (benchmarkLast / benchmarkBase - 1) * 100 }
+        : null;
+
+    return {
+        strategy: spec.name,
+        spec,
+        symbols: universe.map((s) => s.symbol),
+        skipped,
+        period: { start: dates[0], end: lastDate },
+        config: settings,
+        finalEquity: cash,
+        totalReturn,
+        maxDrawdown: calculateMaxDrawdown([settings.initialCapital, ...equityCurve.map((p) => p.equity)]),
+        sharpeRatio: calculateSharpeRatio(dailyReturns),
+        totalTrades: trades.length,
+        winRate: closedTrades.length > 0 ? (wins.length / closedTrades.length) * 100 : 0,
+        averageExposure: equityCurve.reduce((sum, p) => sum + p.exposurePercent, 0) / Math.max(1, equityCurve.length),
+        missedSignals,
+        execution: { model: execution, description: describeExecutionModel(execution), rejectedOrders },
+        equityCurve,
+        sectorExposure,
+        contributions,
+        trades,
+        benchmark: benchmarkResult,
+        outperformsBenchmark: benchmarkResult ? totalReturn > benchmarkResult.totalReturn : null,
+    };
+}
+
+// ============================================================================
+// Entry Point
+// ============================================================================
+
+/**
+ * Fetch daily candles for every symbol (and IHSG) and run the portfolio
+ * backtest. Symbols that fail to load are reported in `skipped`.
+ */
+export async function runPortfolioBacktest(
+    strategy: StrategyType | StrategySpec,
+    symbols: string[],
+    days: number,
+    config: PortfolioConfig = {}
+): Promise<PortfolioBacktestResult> {
+    const spec = resolveStrategySpec(strategy);
+    const unique = Array.from(new Set(symbols.map(baseSymbol).filter(Boolean)));
+    if (unique.length === 0) throw new Error("Select at least one symbol");
+
+    console.log(`[Portfolio Backtest] ${spec.name} on ${unique.length} symbols (${days} days)`);
+
+    // Fetch in batches to stay friendly with the data provider
+    const histories: Record<string, HistoricalQuote[]> = {};
+    for (let i = 0; i < unique.length; i += FETCH_BATCH_SIZE) {
+        const batch = unique.slice(i, i + FETCH_BATCH_SIZE);
+        const results = await Promise.all(batch.map((symbol) => fetchHistoricalData(symbol, days)));
+        batch.forEach((symbol, k) => (histories[symbol] = results[k]));
+    }
+
+    let benchmark: HistoricalQuote[] = [];
+    try {
+        benchmark = await fetchChart(BENCHMARK_SYMBOL, "1d", days);
+    } catch (error) {
+        console.warn("[Portfolio Backtest] Failed to fetch IHSG benchmark:", error);
+    }
+
+    return backtestPortfolio(spec, histories, config, benchmark);
+}
@@ -0,0 +1,560 @@
+/**
+ * Indicator Series
+ *
+ * Canonical implementations of the indicators used across the app (SMA, EMA,
+ * RSI, MACD, Bollinger Bands, True Range, ATR, VWAP, OBV, MFI, Ichimoku,
+ * Supertrend, Parabolic SAR, Keltner and Donchian channels). Every function
+ * returns a series aligned 1:1 with its input: index `i` of the output belongs
+ * to bar `i`, and bars still inside the warm-up window are `null`.
+ *
+ * Conventions:
+ * - EMA is seeded with the SMA of its first `period` values
+ * - RSI and ATR use Wilder smoothing, seeded with a simple average
+ * - Bollinger Bands use the population standard deviation
+ * - Leading `null`s in an input (e.g. a MACD line) are treated as warm-up,
+ *   so indicators can be chained
+ *
+ * Everything else (`indicators.ts`, the swing scorer, the screeners) builds
+ * on these, so a change here changes every consumer.
+ *
+ * @module backend/analysis/series
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type Series = (number | null)[];
+
+export interface MACDSeries {
+    macd: Series;
+    signal: Series;
+    histogram: Series;
+}
+
+export interface BollingerSeries {
+    upper: Series;
+    middle: Series;
+    lower: Series;
+}
+
+/** Upper / middle / lower lines shared by Keltner and Donchian channels */
+export type ChannelSeries = BollingerSeries;
+
+export interface IchimokuSeries {
+    tenkan: Series;
+    kijun: Series;
+    /** Span A as drawn on bar i (computed `displacement` bars earlier) */
+    senkouA: Series;
+    /** Span B as drawn on bar i (computed `displacement` bars earlier) */
+    senkouB: Series;
+    /** Close of bar i + displacement, drawn back on bar i */
+    chikou: Series;
+}
+
+/** 1 = uptrend, -1 = downtrend */
+export type TrendDirection = 1 | -1;
+
+export interface TrendStopSeries {
+    value: Series;
+    direction: (TrendDirection | null)[];
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Index of the first usable value, or -1 when there is none.
+ */
+function firstValid(values: Series): number {
+    return values.findIndex((v) => v !== null && Number.isFinite(v));
+}
+
+function emptySeries(length: number): Series {
+    return new Array<number | null>(length).fill(null);
+}
+
+/**
+ * Latest non-null value of a series.
+ */
+export function last(series: Series): number | null {
+    for (let i = series.length - 1; i >= 0; i--) {
+        const v = series[i];
+        if (v !== null) return v;
+    }
+    return null;
+}
+
+/**
+ * Value `offset` bars back from the end (0 = last bar), null during warm-up.
+ */
+export function valueAt(series: Series, offset: number): number | null {
+    return series[series.length - 1 - offset] ?? null;
+}
+
+/**
+ * Drop the warm-up nulls, leaving only computed values.
+ */
+export function compact(series: Series): number[] {
+    return series.filter((v): v is number => v !== null);
+}
+
+// ============================================================================
+// Moving Averages
+// ============================================================================
+
+/**
+ * Simple moving average.
+ */
+export function sma(values: Series, period: number): Series {
+    const out = emptySeries(values.length);
+    const start = firstValid(values);
+    if (period < 1 || start < 0) return out;
+
+    // Sum each window directly; a running sum drifts on long series
+    for (let i = start + period - 1; i < values.length; i++) {
+        let sum = 0;
+        for (let j = i - period + 1; j <= i; j++) sum += values[j] as number;
+        out[i] = sum / period;
+    }
+    return out;
+}
+
+/**
+ * Exponential moving average, seeded with the SMA of the first `period` values.
+ */
+export function ema(values: Series, period: number): Series {
+    const out = emptySeries(values.length);
+    const start = firstValid(values);
+    if (period < 1 || start < 0 || values.length - start < period) return out;
+
+    const k = 2 / (period + 1);
+    let seed = 0;
+    for (let i = start; i < start + period; i++) seed += values[i] as number;
+
+    let prev = seed / period;
+    out[start + period - 1] = prev;
+    for (let i = start + period; i < values.length; i++) {
+        prev = ((values[i] as number) - prev) * k + prev;
+        out[i] = prev;
+    }
+    return out;
+}
+
+// ============================================================================
+// Momentum
+// ============================================================================
+
+/**
+ * Wilder RSI. The first value lands on bar `period` (it needs `period` changes).
+ * A window with no losses reads 100, one with no movement at all reads 50.
+ */
+export function rsi(closes: Series, period: number = 14): Series {
+    const out = emptySeries(closes.length);
+    const start = firstValid(closes);
+    if (period < 1 || start < 0 || closes.length - start < period + 1) return out;
+
+    const toRSI = (gain: number, loss: number): number => {
+        if (loss === 0) return gain === 0 ? 50 : 100;
+        return 100 - 100 / (1 + gain / loss);
+    };
+
+    let avgGain = 0;
+    let avgLoss = 0;
+    for (let i = start + 1; i <= start + period; i++) {
+        const change = (closes[i] as number) - (closes[i - 1] as number);
+        if (change > 0) avgGain += change;
+        else avgLoss -= change;
+    }
+    avgGain /= period;
+    avgLoss /= period;
+    out[start + period] = toRSI(avgGain, avgLoss);
+
+    for (let i = start + period + 1; i < closes.length; i++) {
+        const change = (closes[i] as number) - (closes[i - 1] as number);
+        avgGain = (avgGain * (period - 1) + Math.max(change, 0)) / period;
+        avgLoss = (avgLoss * (period - 1) + Math.max(-change, 0)) / period;
+        out[i] = toRSI(avgGain, avgLoss);
+    }
+    return out;
+}
+
+/**
+ * MACD line (fast EMA - slow EMA), its signal EMA and the histogram.
+ */
+export function macd(
+    closes: Series,
+    fastPeriod: number = 12,
+    slowPeriod: number = 26,
+    signalPeriod: number = 9
+): MACDSeries {
+    const fast = ema(closes, fastPeriod);
+    const slow = ema(closes, slowPeriod);
+
+    const line: Series = closes.map((_, i) => {
+        const f = fast[i];
+        const s = slow[i];
+        return f !== null && s !== null ? f - s : null;
+    });
+    const signal = ema(line, signalPeriod);
+    const histogram: Series = line.map((m, i) => {
+        const s = signal[i];
+        return m !== null && s !== null ? m - s : null;
+    });
+
+    return { macd: line, signal, histogram };
+}
+
+// ============================================================================
+// Volatility
+// ============================================================================
+
+/**
+ * Bollinger Bands around an SMA, using the population standard deviation.
+ */
+export function bollinger(values: Series, period: number = 20, stdDevMultiplier: number = 2): BollingerSeries {
+    const middle = sma(values, period);
+    const upper = emptySeries(values.length);
+    const lower = emptySeries(values.length);
+
+    for (let i = 0; i < values.length; i++) {
+        const mean = middle[i];
+        if (mean === null) continue;
+
+        let squared = 0;
+        for (let j = i - period + 1; j <= i; j++) {
+            squared += ((values[j] as number) - mean) ** 2;
+        }
+        const deviation = Math.sqrt(squared / period) * stdDevMultiplier;
+        upper[i] = mean + deviation;
+        lower[i] = mean - deviation;
+    }
+
+    return { upper, middle, lower };
+}
+
+/**
+ * True range. Bar 0 has no previous close and is null.
+ */
+export function trueRange(highs: number[], lows: number[], closes: number[]): Series {
+    const out = emptySeries(closes.length);
+    for (let i = 1; i < closes.length; i++) {
+        const prevClose = closes[i - 1];
+        out[i] = Math.max(
+            highs[i] - lows[i],
+            Math.abs(highs[i] - prevClose),
+            Math.abs(lows[i] - prevClose)
+        );
+    }
+    return out;
+}
+
+/**
+ * Wilder ATR, seeded with the average of the first `period` true ranges.
+ * The first value lands on bar `period`.
+ */
+export function atr(highs: number[], lows: number[], closes: number[], period: number = 14): Series {
+    const tr = trueRange(highs, lows, closes);
+    const out = emptySeries(closes.length);
+    if (period < 1 || closes.length < period + 1) return out;
+
+    let value = 0;
+    for (let i = 1; i <= period; i++) value += tr[i] as number;
+    value /= period;
+    out[period] = value;
+
+    for (let i = period + 1; i < closes.length; i++) {
+        value = (value * (period - 1) + (tr[i] as number)) / period;
+        out[i] = value;
+    }
+    return out;
+}
+
+/**
+ * Highest high and lowest low over the trailing `period` bars.
+ */
+function rollingExtremes(highs: number[], lows: number[], period: number): { high: Series; low: Series } {
+    const high = emptySeries(highs.length);
+    const low = emptySeries(lows.length);
+    for (let i = period - 1; i < highs.length; i++) {
+        let hh = -Infinity;
+        let ll = Infinity;
+        for (let j = i - period + 1; j <= i; j++) {
+            if (highs[j] > hh) hh = highs[j];
+            if (lows[j] < ll) ll = lows[j];
+        }
+        high[i] = hh;
+        low[i] = ll;
+    }
+    return { high, low };
+}
+
+/**
+ * Keltner Channels: EMA of closes with bands at a multiple of ATR.
+ */
+export function keltner(
+    highs: number[],
+    lows: number[],
+    closes: number[],
+    emaPeriod: number = 20,
+    atrPeriod: number = 10,
+    multiplier: number = 2
+): ChannelSeries {
+    const middle = ema(closes, emaPeriod);
+    const range = atr(highs, lows, closes, atrPeriod);
+    const band = (sign: number): Series => middle.map((m, i) => {
+        const r = range[i];
+        return m !== null && r !== null ? m + sign * multiplier * r : null;
+    });
+    return { upper: band(1), middle, lower: band(-1) };
+}
+
+/**
+ * Donchian Channels: highest high / lowest low of the last `period` bars,
+ * including the current one.
+ */
+export function donchian(highs: number[], lows: number[], period: number = 20): ChannelSeries {
+    const { high, low } = rollingExtremes(highs, lows, period);
+    const middle: Series = high.map((h, i) => {
+        const l = low[i];
+        return h !== null && l !== null ? (h + l) / 2 : null;
+    });
+    return { upper: high, middle, lower: low };
+}
+
+// ============================================================================
+// Volume
+// ============================================================================
+
+/**
+ * Volume-weighted average price of the typical price (H+L+C)/3. Accumulates
+ * from the first bar, or restarts whenever `sessions[i]` changes (pass the
+ * trading date of each bar for a per-session intraday VWAP).
+ */
+export function vwap(
+    highs: number[],
+    lows: number[],
+    closes: number[],
+    volumes: number[],
+    sessions?: string[]
+): Series {
+    const out = emptySeries(closes.length);
+    let pv = 0;
+    let vol = 0;
+    for (let i = 0; i < closes.length; i++) {
+        if (sessions && i > 0 && sessions[i] !== sessions[i - 1]) {
+            pv = 0;
+            vol = 0;
+        }
+        const typical = (highs[i] + lows[i] + closes[i]) / 3;
+        pv += typical * volumes[i];
+        vol += volumes[i];
+        // Until the session has traded, VWAP is just the typical price
+        out[i] = vol > 0 ? pv / vol : typical;
+    }
+    return out;
+}
+
+/**
+ * VWAP accumulated from `anchor` (e.g. a major swing high or low); null before it.
+ */
+export function anchoredVwap(
+    highs: number[],
+    lows: number[],
+    closes: number[],
+    volumes: number[],
+    anchor: number
+): Series {
+    const out = emptySeries(closes.length);
+    if (anchor < 0 || anchor >= closes.length) return out;
+
+    const tail = vwap(highs.slice(anchor), lows.slice(anchor), closes.slice(anchor), volumes.slice(anchor));
+    for (let i = 0; i < tail.length; i++) out[anchor + i] = tail[i];
+    return out;
+}
+
+/**
+ * On-Balance Volume, starting from 0 on the first bar.
+ */
+export function obv(closes: number[], volumes: number[]): Series {
+    const out = emptySeries(closes.length);
+    if (closes.length === 0) return out;
+
+    let total = 0;
+    out[0] = 0;
+    for (let i = 1; i < closes.length; i++) {
+        if (closes[i] > closes[i - 1]) total += volumes[i];
+        else if (closes[i] < closes[i - 1]) total -= volumes[i];
+        out[i] = total;
+    }
+    return out;
+}
+
+/**
+ * Money Flow Index (volume-weighted RSI over the typical price).
+ * The first value lands on bar `period`.
+ */
+export function mfi(
+    highs: number[],
+    lows: number[],
+    closes: number[],
+    volumes: number[],
+    period: number = 14
+): Series {
+    const out = emptySeries(closes.length);
+    if (period < 1 || closes.length < period + 1) return out;
+
+    const typical = closes.map((c, i) => (highs[i] + lows[i] + c) / 3);
+    for (let i = period; i < closes.length; i++) {
+        let positive = 0;
+        let negative = 0;
+        for (let j = i - period + 1; j <= i; j++) {
+            const flow = typical[j] * volumes[j];
+            if (typical[j] > typical[j - 1]) positive += flow;
+            else if (typical[j] < typical[j - 1]) negative += flow;
+        }
+        if (negative === 0) out[i] = positive === 0 ? 50 : 100;
+        else out[i] = 100 - 100 / (1 + positive / negative);
+    }
+    return out;
+}
+
+// ============================================================================
+// Trend
+// ============================================================================
+
+/**
+ * Ichimoku Kinko Hyo. Spans are shifted forward and the lagging span back by
+ * `displacement`, so every line is read at the bar it is drawn on.
+ */
+export function ichimoku(
+    highs: number[],
+    lows: number[],
+    closes: number[],
+    tenkanPeriod: number = 9,
+    kijunPeriod: number = 26,
+    senkouBPeriod: number = 52,
+    displacement: number = 26
+): IchimokuSeries {
+    const midpoint = (period: number): Series => {
+        const { high, low } = rollingExtremes(highs, lows, period);
+        return high.map((h, i) => {
+            const l = low[i];
+            return h !== null && l !== null ? (h + l) / 2 : null;
+        });
+    };
+
+    const tenkan = midpoint(tenkanPeriod);
+    const kijun = midpoint(kijunPeriod);
+    const spanB = midpoint(senkouBPeriod);
+    const spanA: Series = tenkan.map((t, i) => {
+        const k = kijun[i];
+        return t !== null && k !== null ? (t + k) / 2 : null;
+    });
+
+    const shift = (values: Series, by: number): Series =>
+        values.map((_, i) => values[i - by] ?? null);
+
+    return {
+        tenkan,
+        kijun,
+        senkouA: shift(spanA, displacement),
+        senkouB: shift(spanB, displacement),
+        chikou: shift(closes, -displacement),
+    };
+}
+
+/**
+ * Supertrend: an ATR trailing stop around the bar midpoint that flips side
+ * when price closes through it.
+ */
+export function supertrend(
+    highs: number[],
+    lows: number[],
+    closes: number[],
+    period: number = 10,
+    multiplier: number = 3
+): TrendStopSeries {
+    const range = atr(highs, lows, closes, period);
+    const value = emptySeries(closes.length);
+    const direction: (TrendDirection | null)[] = new Array(closes.length).fill(null);
+
+    let upper = 0;
+    let lower = 0;
+    let trend: TrendDirection = 1;
+    for (let i = period; i < closes.length; i++) {
+        const mid = (highs[i] + lows[i]) / 2;
+        const basicUpper = mid + multiplier * (range[i] as number);
+        const basicLower = mid - multiplier * (range[i] as number);
+
+        if (i === period) {
+            upper = basicUpper;
+            lower = basicLower;
+            trend = closes[i] >= mid ? 1 : -1;
+        } else {
+            const prevClose = closes[i - 1];
+            // Bands only tighten, unless price already broke through them
+            upper = basicUpper < upper || prevClose > upper ? basicUpper : upper;
+            lower = basicLower > lower || prevClose < lower ? basicLower : lower;
+            if (trend === 1 && closes[i] < lower) trend = -1;
+            else if (trend === -1 && closes[i] > upper) trend = 1;
+        }
+
+        value[i] = trend === 1 ? lower : upper;
+        direction[i] = trend;
+    }
+    return { value, direction };
+}
+
+/**
+ * Wilder's Parabolic SAR. Starts long on bar 0; the first value is on bar 1.
+ */
+export function parabolicSar(
+    highs: number[],
+    lows: number[],
+    step: number = 0.02,
+    maxStep: number = 0.2
+): TrendStopSeries {
+    const value = emptySeries(highs.length);
+    const direction: (TrendDirection | null)[] = new Array(highs.length).fill(null);
+    if (highs.length < 2) return { value, direction };
+
+    let trend: TrendDirection = 1;
+    let sar = lows[0];
+    let extreme = highs[0];
+    let af = step;
+
+    for (let i = 1; i < highs.length; i++) {
+        sar += af * (extreme - sar);
+
+        if (trend === 1) {
+            // SAR may not enter the previous two bars' range
+            sar = Math.min(sar, lows[i - 1], lows[Math.max(0, i - 2)]);
+            if (lows[i] < sar) {
+                trend = -1;
+                sar = extreme;
+                extreme = lows[i];
+                af = step;
+            } else if (highs[i] > extreme) {
+                extreme = highs[i];
+                af = Math.min(af + step, maxStep);
+            }
+        } else {
+            sar = Math.max(sar, highs[i - 1], highs[Math.max(0, i - 2)]);
+            if (highs[i] > sar) {
+                trend = 1;
+                sar = extreme;
+                extreme = highs[i];
+                af = step;
+            } else if (lows[i] < extreme) {
+                extreme = lows[i];
+                af = Math.min(af + step, maxStep);
+            }
+        }
+
+        value[i] = sar;
+        direction[i] = trend;
+    }
+    return { value, direction };
+}
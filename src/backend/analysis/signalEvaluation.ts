@@ -0,0 +1,289 @@
+/**
+ * Signal Performance Evaluation
+ *
+ * Follows each call in the signal ledger forward and scores it:
+ * - Return in the call's direction after 1 hour (four 15m bars) and after
+ *   1, 5 and 20 trading days (daily closes after the signal day)
+ * - Whether the suggested stop or target was touched first (a bar that
+ *   touches both counts as a stop: the intrabar order is unknown)
+ *
+ * `startSignalEvaluator` re-evaluates pending signals in the background;
+ * `summarizeSignals` turns the ledger into hit rates by source, indicator,
+ * confidence bucket and mode.
+ *
+ * @module backend/analysis/signalEvaluation
+ */
+
+import { fetchChartRange, type HistoricalQuote } from "@/backend/data/marketData";
+import {
+    getSignalLedger,
+    type SignalHorizon,
+    type SignalLedger,
+    type SignalOutcome,
+    type SignalRecord,
+} from "@/backend/data/signalLedger";
+import { SIGNAL_LEDGER } from "@/shared/constants";
+import { getJakartaDateKey } from "@/shared/marketClock";
+import { mean } from "@/shared/statistics";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SignalGroupStats {
+    key: string;
+    signals: number;
+    /** Signals that reached the horizon */
+    evaluated: number;
+    /** Percent of evaluated signals that moved in the called direction */
+    hitRate: number;
+    /** Average return in the called direction, % */
+    averageReturn: number;
+    /** Signals whose stop or target was touched */
+    resolved: number;
+    /** Percent of resolved signals that touched the target first (null when none resolved) */
+    targetFirstRate: number | null;
+}
+
+export interface SignalPerformance {
+    horizon: SignalHorizon;
+    total: number;
+    /** Signals still waiting for a horizon or level */
+    pending: number;
+    overall: SignalGroupStats;
+    bySource: SignalGroupStats[];
+    byIndicator: SignalGroupStats[];
+    byConfidence: SignalGroupStats[];
+    byMode: SignalGroupStats[];
+    /** Newest signals with their outcomes */
+    recent: SignalRecord[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Bars after the signal for each horizon */
+const HORIZON_BARS: Record<SignalHorizon, { interval: "15m" | "1d"; bars: number }> = {
+    "1h": { interval: "15m", bars: 4 },
+    "1d": { interval: "1d", bars: 1 },
+    "5d": { interval: "1d", bars: 5 },
+    "20d": { interval: "1d", bars: 20 },
+};
+
+/** Provider history limit for 15m bars, with a margin */
+const INTRADAY_REACH_DAYS = 55;
+
+/** Signals that still lack a horizon after this long (suspension, delisting) are closed */
+const GIVE_UP_DAYS = 45;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const CONFIDENCE_BUCKETS = [
+    { key: "80+", min: 80 },
+    { key: "70-79", min: 70 },
+    { key: "60-69", min: 60 },
+    { key: "50-59", min: 50 },
+    { key: "<50", min: -Infinity },
+];
+
+const RECENT_SIGNALS = 50;
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+/**
+ * Score one signal against the candles since it was emitted.
+ *
+ * @param intraday 15m candles covering the signal (may be empty)
+ * @param daily Daily candles covering the signal day and after
+ */
+export function evaluateSignal(
+    signal: SignalRecord,
+    intraday: HistoricalQuote[],
+    daily: HistoricalQuote[],
+    now: Date = new Date()
+): SignalOutcome {
+    const emittedAt = new Date(signal.emittedAt).getTime();
+    const signalDay = getJakartaDateKey(new Date(emittedAt));
+    const sign = signal.direction === "BUY" ? 1 : -1;
+    const directional = (close: number) => sign * (close / signal.price - 1) * 100;
+
+    const barsAfter = {
+        "15m": intraday.filter((q) => q.close !== null && q.date.getTime() >= emittedAt),
+        "1d": daily.filter((q) => q.close !== null && getJakartaDateKey(q.date) > signalDay),
+    };
+
+    const returns: SignalOutcome["returns"] = {};
+    for (const [horizon, { interval, bars }] of Object.entries(HORIZON_BARS) as [SignalHorizon, typeof HORIZON_BARS["1h"]][]) {
+        const bar = barsAfter[interval][bars - 1];
+        if (bar) returns[horizon] = directional(bar.close as number);
+    }
+
+    // Walk the 15m bars, then daily bars past them, up to the 20-day close
+    let firstHit: SignalOutcome["firstHit"] = null;
+    if (signal.stopLoss !== null && signal.target !== null) {
+        const lastDay = barsAfter["1d"][HORIZON_BARS["20d"].bars - 1];
+        const endDay = lastDay ? getJakartaDateKey(lastDay.date) : null;
+        const intradayPath = barsAfter["15m"].filter((q) => endDay === null || getJakartaDateKey(q.date) <= endDay);
+        const intradayEnd = intradayPath.length > 0 ? getJakartaDateKey(intradayPath[intradayPath.length - 1].date) : signalDay;
+        const dailyPath = barsAfter["1d"]
+            .slice(0, HORIZON_BARS["20d"].bars)
+            .filter((q) => getJakartaDateKey(q.date) > intradayEnd);
+
+        firstHit = lastDay ? "NEITHER" : "PENDING";
+        for (const bar of [...intradayPath, ...dailyPath]) {
+            const high = bar.high ?? (bar.close as number);
+            const low = bar.low ?? (bar.close as number);
+            const stopped = sign === 1 ? low <= signal.stopLoss : high >= signal.stopLoss;
+            const reached = sign === 1 ? high >= signal.target : low <= signal.target;
+            if (stopped || reached) {
+                firstHit = stopped ? "STOP" : "TARGET";
+                break;
+            }
+        }
+    }
+
+    // The 1h horizon can only be measured while 15m history reaches back
+    const intradayReachable = now.getTime() - emittedAt < INTRADAY_REACH_DAYS * DAY_MS;
+    const finished = returns["20d"] !== undefined &&
+        (returns["1h"] !== undefined || !intradayReachable) &&
+        firstHit !== "PENDING";
+
+    return {
+        returns,
+        firstHit,
+        complete: finished || now.getTime() - emittedAt > GIVE_UP_DAYS * DAY_MS,
+        evaluatedAt: now.toISOString(),
+    };
+}
+
+/**
+ * Evaluate every incomplete signal in the ledger, fetching candles once per
+ * symbol. A symbol whose data cannot be fetched is retried next time.
+ *
+ * @returns Number of signals evaluated
+ */
+export async function evaluatePendingSignals(
+    ledger: SignalLedger = getSignalLedger(),
+    now: Date = new Date()
+): Promise<number> {
+    const pending = (await ledger.list()).filter((s) => !s.outcome.complete);
+    if (pending.length === 0) return 0;
+
+    const bySymbol = new Map<string, SignalRecord[]>();
+    for (const signal of pending) {
+        bySymbol.set(signal.symbol, [...(bySymbol.get(signal.symbol) ?? []), signal]);
+    }
+
+    const outcomes = new Map<string, SignalOutcome>();
+    for (const [symbol, signals] of bySymbol) {
+        const oldest = Math.min(...signals.map((s) => new Date(s.emittedAt).getTime()));
+        const intradayFrom = new Date(Math.max(oldest - DAY_MS, now.getTime() - INTRADAY_REACH_DAYS * DAY_MS));
+        try {
+            const [daily, intraday] = await Promise.all([
+                fetchChartRange(`${symbol}.JK`, "1d", new Date(oldest - 2 * DAY_MS)),
+                fetchChartRange(`${symbol}.JK`, "15m", intradayFrom).catch(() => []),
+            ]);
+            for (const signal of signals) outcomes.set(signal.id, evaluateSignal(signal, intraday, daily, now));
+        } catch (error) {
+            console.warn(`[SignalEvaluator] Failed to fetch candles for ${symbol}:`, error);
+        }
+    }
+
+    await ledger.updateOutcomes(outcomes);
+    console.log(`[SignalEvaluator] Evaluated ${outcomes.size} of ${pending.length} pending signals`);
+    return outcomes.size;
+}
+
+let evaluatorTimer: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Evaluate pending signals on startup and then every
+ * SIGNAL_LEDGER.EVALUATE_EVERY_MS in the server process (started once from
+ * `instrumentation.ts`).
+ */
+export function startSignalEvaluator(intervalMs: number = SIGNAL_LEDGER.EVALUATE_EVERY_MS): void {
+    if (evaluatorTimer) return;
+
+    let running = false;
+    const run = async () => {
+        if (running) return;
+        running = true;
+        try {
+            await evaluatePendingSignals();
+        } catch (error) {
+            console.error("[SignalEvaluator] Evaluation failed:", error);
+        } finally {
+            running = false;
+        }
+    };
+
+    evaluatorTimer = setInterval(run, intervalMs);
+    // Never keep the process alive just for the evaluator
+    evaluatorTimer.unref?.();
+    // Catch up on signals that came due while the server was down
+    void run();
+    console.log(`[SignalEvaluator] Evaluating pending signals every ${Math.round(intervalMs / 60_000)} min`);
+}
+
+// ============================================================================
+// Summary
+// ============================================================================
+
+function groupStats(key: string, signals: SignalRecord[], horizon: SignalHorizon): SignalGroupStats {
+    const returns = signals
+        .map((s) => s.outcome.returns[horizon])
+        .filter((r): r is number => r !== undefined);
+    const resolved = signals.filter((s) => s.outcome.firstHit === "TARGET" || s.outcome.firstHit === "STOP");
+    const targets = resolved.filter((s) => s.outcome.firstHit === "TARGET").length;
+
+    return {
+        key,
+        signals: signals.length,
+        evaluated: returns.length,
+        hitRate: returns.length > 0 ? (returns.filter((r) => r > 0).length / returns.length) * 100 : 0,
+        averageReturn: mean(returns),
+        resolved: resolved.length,
+        targetFirstRate: resolved.length > 0 ? (targets / resolved.length) * 100 : null,
+    };
+}
+
+/** One group per key; a signal with several keys counts in each */
+function groupBy(
+    signals: SignalRecord[],
+    horizon: SignalHorizon,
+    keysOf: (signal: SignalRecord) => string[]
+): SignalGroupStats[] {
+    const groups = new Map<string, SignalRecord[]>();
+    for (const signal of signals) {
+        for (const key of keysOf(signal)) groups.set(key, [...(groups.get(key) ?? []), signal]);
+    }
+    return Array.from(groups, ([key, members]) => groupStats(key, members, horizon))
+        .sort((a, b) => b.signals - a.signals);
+}
+
+/**
+ * Hit rates and average returns at one horizon, overall and by source,
+ * indicator, confidence bucket and mode.
+ */
+export function summarizeSignals(signals: SignalRecord[], horizon: SignalHorizon): SignalPerformance {
+    const bucketOf = (confidence: number) =>
+        (CONFIDENCE_BUCKETS.find((b) => confidence >= b.min) ?? CONFIDENCE_BUCKETS[CONFIDENCE_BUCKETS.length - 1]).key;
+    const byConfidence = groupBy(signals, horizon, (s) => [bucketOf(s.confidence)]);
+
+    return {
+        horizon,
+        total: signals.length,
+        pending: signals.filter((s) => !s.outcome.complete).length,
+        overall: groupStats("All", signals, horizon),
+        bySource: groupBy(signals, horizon, (s) => [s.source]),
+        byIndicator: groupBy(signals, horizon, (s) => s.indicators),
+        byConfidence: CONFIDENCE_BUCKETS
+            .map((b) => byConfidence.find((g) => g.key === b.key))
+            .filter((g): g is SignalGroupStats => g !== undefined),
+        byMode: groupBy(signals, horizon, (s) => [s.mode]),
+        recent: signals.slice(0, RECENT_SIGNALS),
+    };
+}
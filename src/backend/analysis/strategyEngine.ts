@@ -0,0 +1,278 @@
+/**
+ * Strategy Engine
+ *
+ * Compiles a declarative `StrategySpec` against a bar set: every indicator
+ * the conditions reference is computed once (via the canonical series
+ * module) and the entry/exit trees are evaluated bar by bar.
+ *
+ * @module backend/analysis/strategyEngine
+ */
+
+import * as series from './series';
+import type { Series } from './series';
+import {
+    STRATEGY_INDICATORS,
+    describeCondition,
+    describeOperand,
+    isComparison,
+    isIndicatorOperand,
+    resolveParam,
+    type IndicatorOperand,
+    type Operand,
+    type PriceField,
+    type StrategyCondition,
+    type StrategySpec,
+} from '@/shared/strategySpec';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface StrategyBars {
+    opens: number[];
+    highs: number[];
+    lows: number[];
+    closes: number[];
+    volumes: number[];
+}
+
+export interface ConditionResult {
+    passed: boolean;
+    /** Descriptions of the comparisons that held */
+    reasons: string[];
+}
+
+export interface CompiledStrategy {
+    spec: StrategySpec;
+    parameters: Record<string, number>;
+    /** First bar where every referenced indicator has a value */
+    warmup: number;
+    entry(index: number): ConditionResult;
+    /** Always fails when the spec has no exit condition */
+    exit(index: number): ConditionResult;
+    /** Value of an operand at a bar (null during warm-up) */
+    valueOf(operand: Operand, index: number): number | null;
+}
+
+// ============================================================================
+// Bars
+// ============================================================================
+
+/**
+ * Strategy bars from quotes. Quotes must already be complete (non-null close);
+ * missing open/high/low fall back to the close and missing volume to 0.
+ */
+export function toStrategyBars(
+    quotes: { open: number | null; high: number | null; low: number | null; close: number | null; volume: number | null }[]
+): StrategyBars {
+    return {
+        opens: quotes.map((q) => q.open ?? (q.close as number)),
+        highs: quotes.map((q) => q.high ?? (q.close as number)),
+        lows: quotes.map((q) => q.low ?? (q.close as number)),
+        closes: quotes.map((q) => q.close as number),
+        volumes: quotes.map((q) => q.volume ?? 0),
+    };
+}
+
+function priceSeries(bars: StrategyBars, field: PriceField): number[] {
+    switch (field) {
+        case 'OPEN': return bars.opens;
+        case 'HIGH': return bars.highs;
+        case 'LOW': return bars.lows;
+        case 'VOLUME': return bars.volumes;
+        case 'CLOSE':
+        default: return bars.closes;
+    }
+}
+
+// ============================================================================
+// Indicator Computation
+// ============================================================================
+
+function computeIndicator(bars: StrategyBars, ref: IndicatorOperand, p: Record<string, number>): Record<string, Series> {
+    const { highs, lows, closes, volumes } = bars;
+
+    switch (ref.indicator) {
+        case 'OPEN':
+        case 'HIGH':
+        case 'LOW':
+        case 'CLOSE':
+        case 'VOLUME':
+            return { value: priceSeries(bars, ref.indicator) };
+        case 'SMA':
+            return { value: series.sma(priceSeries(bars, ref.source ?? 'CLOSE'), p.period) };
+        case 'EMA':
+            return { value: series.ema(priceSeries(bars, ref.source ?? 'CLOSE'), p.period) };
+        case 'RSI':
+            return { value: series.rsi(closes, p.period) };
+        case 'MACD': {
+            const m = series.macd(closes, p.fast, p.slow, p.signal);
+            return { macd: m.macd, signal: m.signal, histogram: m.histogram };
+        }
+        case 'BOLLINGER': {
+            const b = series.bollinger(closes, p.period, p.stdDev);
+            return { middle: b.middle, upper: b.upper, lower: b.lower };
+        }
+        case 'ATR':
+            return { value: series.atr(highs, lows, closes, p.period) };
+        case 'OBV':
+            return { value: series.obv(closes, volumes) };
+        case 'MFI':
+            return { value: series.mfi(highs, lows, closes, volumes, p.period) };
+        case 'SUPERTREND': {
+            const s = series.supertrend(highs, lows, closes, p.period, p.multiplier);
+            return { value: s.value, direction: s.direction };
+        }
+        case 'KELTNER': {
+            const k = series.keltner(highs, lows, closes, p.emaPeriod, p.atrPeriod, p.multiplier);
+            return { middle: k.middle, upper: k.upper, lower: k.lower };
+        }
+        case 'DONCHIAN': {
+            const d = series.donchian(highs, lows, p.period);
+            return { middle: d.middle, upper: d.upper, lower: d.lower };
+        }
+        default:
+            throw new Error(`Unsupported indicator "${(ref as IndicatorOperand).indicator}"`);
+    }
+}
+
+function firstValueIndex(values: Series): number {
+    const index = values.findIndex((v) => v !== null);
+    return index === -1 ? values.length : index;
+}
+
+// ============================================================================
+// Compilation
+// ============================================================================
+
+/**
+ * Compile a spec against bars. Indicator series are computed eagerly so
+ * evaluation per bar is only lookups and comparisons.
+ *
+ * @throws Error when the spec references an unknown parameter or indicator
+ */
+export function compileStrategy(spec: StrategySpec, bars: StrategyBars): CompiledStrategy {
+    const parameters = spec.parameters ?? {};
+    const cache = new Map<string, Record<string, Series>>();
+    const resolved = new Map<IndicatorOperand, Series>();
+
+    const seriesFor = (ref: IndicatorOperand): Series => {
+        const known = resolved.get(ref);
+        if (known) return known;
+
+        const definition = STRATEGY_INDICATORS[ref.indicator];
+        if (!definition) throw new Error(`Unsupported indicator "${ref.indicator}"`);
+
+        const p: Record<string, number> = {};
+        for (const [name, fallback] of Object.entries(definition.params)) {
+            const value = ref.params?.[name];
+            p[name] = value === undefined ? fallback : resolveParam(value, parameters);
+        }
+
+        const key = JSON.stringify([ref.indicator, ref.source ?? null, p]);
+        let outputs = cache.get(key);
+        if (!outputs) {
+            outputs = computeIndicator(bars, ref, p);
+            cache.set(key, outputs);
+        }
+
+        const field = ref.field ?? definition.fields?.[0] ?? 'value';
+        const values = outputs[field];
+        if (!values) throw new Error(`${definition.label} has no output "${field}"`);
+        resolved.set(ref, values);
+        return values;
+    };
+
+    const valueOf = (operand: Operand, index: number): number | null => {
+        if (!isIndicatorOperand(operand)) return resolveParam(operand, parameters);
+        const at = index - (operand.offset ?? 0);
+        if (at < 0) return null;
+        return seriesFor(operand)[at] ?? null;
+    };
+
+    // Warm-up: every referenced series (shifted by its offset, one more bar for crosses)
+    let warmup = 0;
+    const visit = (condition: StrategyCondition): void => {
+        if (isComparison(condition)) {
+            const lookback = condition.op === 'crossesAbove' || condition.op === 'crossesBelow' ? 1 : 0;
+            for (const operand of [condition.left, condition.right]) {
+                const ready = isIndicatorOperand(operand)
+                    ? firstValueIndex(seriesFor(operand)) + (operand.offset ?? 0)
+                    : 0;
+                warmup = Math.max(warmup, ready + lookback);
+            }
+            return;
+        }
+        children(condition).forEach(visit);
+    };
+    visit(spec.entry);
+    if (spec.exit) visit(spec.exit);
+
+    const evaluate = (condition: StrategyCondition, index: number): ConditionResult => {
+        if (isComparison(condition)) {
+            const left = valueOf(condition.left, index);
+            const right = valueOf(condition.right, index);
+            if (left === null || right === null) return { passed: false, reasons: [] };
+
+            let passed: boolean;
+            switch (condition.op) {
+                case '>': passed = left > right; break;
+                case '>=': passed = left >= right; break;
+                case '<': passed = left < right; break;
+                case '<=': passed = left <= right; break;
+                case 'crossesAbove':
+                case 'crossesBelow': {
+                    const prevLeft = valueOf(condition.left, index - 1);
+                    const prevRight = valueOf(condition.right, index - 1);
+                    if (prevLeft === null || prevRight === null) return { passed: false, reasons: [] };
+                    passed = condition.op === 'crossesAbove'
+                        ? prevLeft < prevRight && left >= right
+                        : prevLeft > prevRight && left <= right;
+                    break;
+                }
+                default:
+                    passed = false;
+            }
+
+            if (!passed) return { passed, reasons: [] };
+            const text = condition.label ?? describeCondition(condition, parameters);
+            const shown = isIndicatorOperand(condition.left) ? ` (${describeOperand(condition.left, parameters)} = ${formatValue(left)})` : '';
+            return { passed, reasons: [`${text}${shown}`] };
+        }
+
+        if ('not' in condition) {
+            const inner = evaluate(condition.not, index);
+            return { passed: !inner.passed, reasons: inner.passed ? [] : [describeCondition(condition, parameters)] };
+        }
+
+        const results = children(condition).map((child) => evaluate(child, index));
+        const hits = results.filter((r) => r.passed);
+        const passed = 'all' in condition
+            ? hits.length === results.length
+            : 'any' in condition
+                ? hits.length > 0
+                : hits.length >= condition.atLeast;
+        return { passed, reasons: passed ? hits.flatMap((r) => r.reasons) : [] };
+    };
+
+    return {
+        spec,
+        parameters,
+        warmup,
+        entry: (index) => evaluate(spec.entry, index),
+        exit: (index) => (spec.exit ? evaluate(spec.exit, index) : { passed: false, reasons: [] }),
+        valueOf,
+    };
+}
+
+function children(condition: StrategyCondition): StrategyCondition[] {
+    if ('all' in condition) return condition.all;
+    if ('any' in condition) return condition.any;
+    if ('atLeast' in condition) return condition.of;
+    if ('not' in condition) return [condition.not];
+    return [];
+}
+
+function formatValue(value: number): string {
+    return Math.abs(value) >= 1000 ? value.toFixed(0) : value.toFixed(2);
+}
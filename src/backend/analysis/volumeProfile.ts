@@ -0,0 +1,244 @@
+/**
+ * Volume Profile & Anchored VWAP Levels
+ *
+ * Volume-by-price from (preferably intraday) candles: each candle's volume is
+ * spread evenly over the price bins its high-low range covers. From the
+ * profile come the point of control (POC), the 70% value area (VAH/VAL) and
+ * high/low volume nodes. Anchored VWAPs from the most significant swing
+ * points add volume-weighted cost levels of the buyers/sellers since then.
+ *
+ * `analyzeVolumeLevels` folds both into support/resistance lists around the
+ * current price.
+ *
+ * @module backend/analysis/volumeProfile
+ */
+
+import { anchoredVwap, last } from './series';
+import { findSwingPoints, type SwingPoint } from './chartPatterns';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface VolumeBars {
+    highs: number[];
+    lows: number[];
+    closes: number[];
+    volumes: number[];
+}
+
+export interface VolumeProfileBin {
+    low: number;
+    high: number;
+    /** Bin midpoint */
+    price: number;
+    volume: number;
+}
+
+export interface VolumeProfile {
+    bins: VolumeProfileBin[];
+    totalVolume: number;
+    /** Point of control: midpoint of the highest-volume bin */
+    poc: number;
+    /** Value area high / low (default 70% of volume around the POC) */
+    vah: number;
+    val: number;
+    /** High / low volume node prices, most pronounced first */
+    hvn: number[];
+    lvn: number[];
+}
+
+export interface VolumeProfileOptions {
+    /** Number of price bins (default: 24) */
+    bins?: number;
+    /** Share of volume inside the value area (default: 0.7) */
+    valueAreaPct?: number;
+}
+
+export interface AnchoredVWAPLevel {
+    anchorIndex: number;
+    anchorType: 'HIGH' | 'LOW';
+    anchorPrice: number;
+    /** Current anchored VWAP value */
+    value: number;
+}
+
+export interface VolumeLevels {
+    profile: VolumeProfile | null;
+    anchoredVwaps: AnchoredVWAPLevel[];
+    /** Profile and AVWAP levels below the current price, nearest first */
+    support: number[];
+    /** Profile and AVWAP levels above the current price, nearest first */
+    resistance: number[];
+}
+
+// ============================================================================
+// Volume Profile
+// ============================================================================
+
+/**
+ * Build a volume-by-price profile.
+ *
+ * @returns null when there is no range or no volume
+ */
+export function buildVolumeProfile(bars: VolumeBars, options: VolumeProfileOptions = {}): VolumeProfile | null {
+    const binCount = options.bins ?? 24;
+    const valueAreaPct = options.valueAreaPct ?? 0.7;
+    const len = Math.min(bars.highs.length, bars.lows.length, bars.closes.length, bars.volumes.length);
+    if (len === 0) return null;
+
+    const minPrice = Math.min(...bars.lows.slice(0, len));
+    const maxPrice = Math.max(...bars.highs.slice(0, len));
+    const span = maxPrice - minPrice;
+    if (!(span > 0)) return null;
+
+    const size = span / binCount;
+    const bins: VolumeProfileBin[] = Array.from({ length: binCount }, (_, k) => ({
+        low: minPrice + k * size,
+        high: minPrice + (k + 1) * size,
+        price: minPrice + (k + 0.5) * size,
+        volume: 0,
+    }));
+    const binOf = (price: number) => Math.min(binCount - 1, Math.max(0, Math.floor((price - minPrice) / size)));
+
+    for (let i = 0; i < len; i++) {
+        const volume = bars.volumes[i];
+        if (!(volume > 0)) continue;
+
+        const low = bars.lows[i];
+        const high = bars.highs[i];
+        if (!(high > low)) {
+            bins[binOf(bars.closes[i])].volume += volume;
+            continue;
+        }
+        for (let k = binOf(low); k <= binOf(high); k++) {
+            const overlap = Math.min(high, bins[k].high) - Math.max(low, bins[k].low);
+            if (overlap > 0) bins[k].volume += (volume * overlap) / (high - low);
+        }
+    }
+
+    const totalVolume = bins.reduce((sum, b) => sum + b.volume, 0);
+    if (totalVolume <= 0) return null;
+
+    let pocIndex = 0;
+    bins.forEach((b, k) => {
+        if (b.volume > bins[pocIndex].volume) pocIndex = k;
+    });
+
+    // Value area: grow from the POC toward the heavier neighbour
+    let lo = pocIndex;
+    let hi = pocIndex;
+    let areaVolume = bins[pocIndex].volume;
+    while (areaVolume < totalVolume * valueAreaPct && (lo > 0 || hi < binCount - 1)) {
+        const below = lo > 0 ? bins[lo - 1].volume : -1;
+        const above = hi < binCount - 1 ? bins[hi + 1].volume : -1;
+        if (above >= below) areaVolume += bins[++hi].volume;
+        else areaVolume += bins[--lo].volume;
+    }
+
+    // Nodes: local peaks / troughs of the profile (POC excluded from HVNs)
+    const average = totalVolume / binCount;
+    const hvn: VolumeProfileBin[] = [];
+    const lvn: VolumeProfileBin[] = [];
+    for (let k = 1; k < binCount - 1; k++) {
+        const v = bins[k].volume;
+        if (k !== pocIndex && v > bins[k - 1].volume && v > bins[k + 1].volume && v >= average) hvn.push(bins[k]);
+        if (v < bins[k - 1].volume && v < bins[k + 1].volume && v < average) lvn.push(bins[k]);
+    }
+    hvn.sort((a, b) => b.volume - a.volume);
+    lvn.sort((a, b) => a.volume - b.volume);
+
+    return {
+        bins,
+        totalVolume,
+        poc: bins[pocIndex].price,
+        vah: bins[hi].high,
+        val: bins[lo].low,
+        hvn: hvn.map((b) => b.price),
+        lvn: lvn.map((b) => b.price),
+    };
+}
+
+// ============================================================================
+// Anchored VWAP
+// ============================================================================
+
+/**
+ * Anchored VWAPs from the highest swing high and lowest swing low, plus the
+ * most recent swing high and low when they differ.
+ */
+export function findAnchoredVwaps(bars: VolumeBars, pivotStrength: number = 5): AnchoredVWAPLevel[] {
+    const swings = findSwingPoints(bars.highs, bars.lows, pivotStrength);
+    const highs = swings.filter((p) => p.type === 'HIGH');
+    const lows = swings.filter((p) => p.type === 'LOW');
+
+    const anchors = [
+        highs.reduce<SwingPoint | null>((best, p) => (!best || p.price > best.price ? p : best), null),
+        lows.reduce<SwingPoint | null>((best, p) => (!best || p.price < best.price ? p : best), null),
+        highs[highs.length - 1] ?? null,
+        lows[lows.length - 1] ?? null,
+    ];
+
+    const seen = new Set<string>();
+    const levels: AnchoredVWAPLevel[] = [];
+    for (const anchor of anchors) {
+        if (!anchor) continue;
+        const key = `${anchor.type}-${anchor.index}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        const value = last(anchoredVwap(bars.highs, bars.lows, bars.closes, bars.volumes, anchor.index));
+        if (value === null) continue;
+        levels.push({ anchorIndex: anchor.index, anchorType: anchor.type, anchorPrice: anchor.price, value });
+    }
+    return levels;
+}
+
+// ============================================================================
+// Combined Levels
+// ============================================================================
+
+/**
+ * Volume bars from quotes, skipping incomplete candles (missing volume counts as 0).
+ */
+export function toVolumeBars(
+    quotes: { high: number | null; low: number | null; close: number | null; volume: number | null }[]
+): VolumeBars {
+    const complete = quotes.filter((q) => q.high != null && q.low != null && q.close != null);
+    return {
+        highs: complete.map((q) => q.high as number),
+        lows: complete.map((q) => q.low as number),
+        closes: complete.map((q) => q.close as number),
+        volumes: complete.map((q) => q.volume ?? 0),
+    };
+}
+
+/**
+ * Volume profile and anchored VWAP levels split into support and resistance.
+ *
+ * @param profileBars - Candles for the profile (intraday for session-level detail)
+ * @param currentPrice - Price the levels are split around
+ * @param anchorBars - Candles for the anchored VWAPs (defaults to `profileBars`)
+ */
+export function analyzeVolumeLevels(
+    profileBars: VolumeBars,
+    currentPrice: number,
+    anchorBars: VolumeBars = profileBars,
+    options: VolumeProfileOptions = {}
+): VolumeLevels {
+    const profile = buildVolumeProfile(profileBars, options);
+    const anchoredVwaps = findAnchoredVwaps(anchorBars);
+
+    const levels = [
+        ...(profile ? [profile.poc, profile.vah, profile.val, ...profile.hvn] : []),
+        ...anchoredVwaps.map((a) => a.value),
+    ];
+    const byDistance = (a: number, b: number) => Math.abs(currentPrice - a) - Math.abs(currentPrice - b);
+
+    return {
+        profile,
+        anchoredVwaps,
+        support: levels.filter((p) => p < currentPrice).sort(byDistance),
+        resistance: levels.filter((p) => p > currentPrice).sort(byDistance),
+    };
+}
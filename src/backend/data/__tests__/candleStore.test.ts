@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { createCandleStore, mergeCandles } from '../candleStore'
+import type { ChartOptions, HistoricalQuote, MarketDataProvider } from '../types'
+
+const DAY = 24 * 60 * 60 * 1000
+
+function bar(time: number, close: number): HistoricalQuote {
+    return { date: new Date(time), open: close, high: close, low: close, close, volume: 1000 }
+}
+
+// Provider serving one bar per day for the last 400 days, recording every chart request
+function createFakeProvider() {
+    const today = Math.floor(Date.now() / DAY) * DAY
+    const history = Array.from({ length: 400 }, (_, i) => bar(today - (399 - i) * DAY, 100 + i))
+    const requests: ChartOptions[] = []
+
+    const provider: MarketDataProvider = {
+        name: 'fake',
+        quote: async (symbol) => ({ symbol }),
+        chart: async (_symbol, options) => {
+            requests.push(options)
+            const end = (options.period2 ?? new Date()).getTime()
+            return history.filter(q => q.date.getTime() >= options.period1.getTime() && q.date.getTime() <= end)
+        },
+        quoteSummary: async () => ({}),
+        search: async () => ({ news: [] }),
+        dailyGainers: async () => [],
+    }
+
+    return { provider, requests, history }
+}
+
+describe('Candle Store', () => {
+    let dir: string
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'candles-'))
+    })
+
+    afterEach(async () => {
+        await fs.rm(dir, { recursive: true, force: true })
+    })
+
+    it('should download once and serve repeated ranges from disk', async () => {
+        const { provider, requests } = createFakeProvider()
+        const store = createCandleStore(dir)
+        const from = new Date(Date.now() - 90 * DAY)
+
+        const first = await store.getCandles(provider, 'BBCA.JK', '1d', { from })
+        const second = await store.getCandles(provider, 'BBCA.JK', '1d', { from })
+
+        expect(first.length).toBeGreaterThan(80)
+        expect(second).toHaveLength(first.length)
+        // Second call is inside the sync TTL, so nothing is re-downloaded
+        expect(requests).toHaveLength(1)
+    })
+
+    it('should only fetch the missing head when a longer range is requested', async () => {
+        const { provider, requests } = createFakeProvider()
+        const store = createCandleStore(dir)
+
+        await store.getCandles(provider, 'BBCA.JK', '1d', { from: new Date(Date.now() - 90 * DAY) })
+        const longer = await store.getCandles(provider, 'BBCA.JK', '1d', { from: new Date(Date.now() - 365 * DAY) })
+
+        expect(requests).toHaveLength(2)
+        // The head request stops where the stored coverage begins
+        expect(requests[1].period2!.getTime()).toBeLessThanOrEqual(Date.now() - 89 * DAY)
+        expect(longer.length).toBeGreaterThan(350)
+
+        const stats = await store.stats('BBCA.JK', '1d')
+        expect(stats.bars).toBe(longer.length)
+    })
+
+    it('should persist history across store instances', async () => {
+        const { provider, requests } = createFakeProvider()
+        const from = new Date(Date.now() - 30 * DAY)
+
+        await createCandleStore(dir).getCandles(provider, 'TLKM.JK', '1d', { from })
+        const stored = await createCandleStore(dir).readCandles('TLKM.JK', '1d', { from })
+
+        expect(requests).toHaveLength(1)
+        expect(stored.length).toBeGreaterThan(25)
+        expect(stored[0].date).toBeInstanceOf(Date)
+    })
+
+    it('should merge bars by timestamp and drop empty bars', () => {
+        const merged = mergeCandles(
+            [bar(1000, 1), bar(2000, 2)],
+            [bar(2000, 5), { ...bar(3000, 3), close: null }, bar(4000, 4)]
+        )
+
+        expect(merged.map(q => q.close)).toEqual([1, 5, 4])
+    })
+})
@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { createFixtureProvider } from '../fixtureProvider'
+
+const day = (n: number) => new Date(Date.UTC(2025, 0, n))
+
+const CANDLES = [1, 2, 3, 4, 5].map(n => ({
+    date: day(n).toISOString(),
+    open: 100 + n,
+    high: 102 + n,
+    low: 99 + n,
+    close: 101 + n,
+    volume: 1_000_000,
+}))
+
+describe('Fixture Provider', () => {
+    let dir: string
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'fixtures-'))
+        await fs.mkdir(path.join(dir, 'BBRI.JK'))
+        await fs.writeFile(path.join(dir, 'BBRI.JK', 'quote.json'), JSON.stringify({ symbol: 'BBRI.JK', regularMarketPrice: 4500 }))
+        await fs.writeFile(path.join(dir, 'BBRI.JK', 'chart-1d.json'), JSON.stringify(CANDLES))
+    })
+
+    afterEach(async () => {
+        await fs.rm(dir, { recursive: true, force: true })
+    })
+
+    it('should serve recorded quotes by symbol, case-insensitively', async () => {
+        const provider = createFixtureProvider(dir)
+
+        expect(await provider.quote('bbri.jk')).toEqual({ symbol: 'BBRI.JK', regularMarketPrice: 4500 })
+    })
+
+    it('should revive chart dates and select the requested window', async () => {
+        const provider = createFixtureProvider(dir)
+
+        const window = await provider.chart('BBRI.JK', { interval: '1d', period1: day(2), period2: day(4) })
+        expect(window.map(q => q.close)).toEqual([103, 104, 105])
+        expect(window[0].date).toBeInstanceOf(Date)
+
+        // A window after the recording is anchored to its last bar
+        const later = await provider.chart('BBRI.JK', { interval: '1d', period1: day(30), period2: day(31) })
+        expect(later.map(q => q.date.getTime())).toEqual([day(4).getTime(), day(5).getTime()])
+    })
+
+    it('should reject symbols that were never recorded', async () => {
+        const provider = createFixtureProvider(dir)
+
+        await expect(provider.quote('XXXX.JK')).rejects.toThrow('Not Found: no recorded quote for XXXX.JK')
+        await expect(provider.chart('XXXX.JK', { interval: '1d', period1: day(1) })).rejects.toThrow('no recorded 1d chart for XXXX.JK')
+        expect(await provider.search('XXXX.JK', { newsCount: 5 })).toEqual({ news: [] })
+    })
+})
@@ -0,0 +1,47 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { createWriteQueue, readJsonFile, slugify, writeJsonFile } from '../jsonFileStore'
+
+describe('JSON File Persistence', () => {
+    let dir: string
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'json-store-'))
+    })
+
+    afterEach(async () => {
+        await fs.rm(dir, { recursive: true, force: true })
+    })
+
+    it('should write atomically and read missing or broken files as null', async () => {
+        const file = path.join(dir, 'nested', 'data.json')
+        expect(await readJsonFile(file, 'Test')).toBeNull()
+
+        await writeJsonFile(file, { items: [1, 2] }, true)
+        expect(await readJsonFile(file, 'Test')).toEqual({ items: [1, 2] })
+        expect(await fs.readdir(path.dirname(file))).toEqual(['data.json'])
+
+        await fs.writeFile(file, '{ not json', 'utf-8')
+        expect(await readJsonFile(file, 'Test')).toBeNull()
+    })
+
+    it('should run queued updates one after another, past failures', async () => {
+        const enqueue = createWriteQueue()
+        const file = path.join(dir, 'counter.json')
+        const increment = () => enqueue(async () => {
+            const count = ((await readJsonFile(file, 'Test')) as number | null) ?? 0
+            await writeJsonFile(file, count + 1)
+            return count + 1
+        })
+
+        const failing = enqueue(async () => { throw new Error('boom') })
+        const counts = await Promise.all([increment(), increment(), increment()])
+
+        await expect(failing).rejects.toThrow('boom')
+        expect(counts).toEqual([1, 2, 3])
+        expect(slugify('  My RSI Screen!  ', 'screen')).toBe('my-rsi-screen')
+        expect(slugify('***', 'screen')).toBe('screen')
+    })
+})
@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { createRunHistoryStore, formatRunAsCsv } from '../runHistoryStore'
+import { backtestStrategy, resolveStrategySpec } from '@/backend/analysis/backtesting'
+import type { HistoricalQuote } from '../types'
+import { EXECUTION_MODELS } from '@/shared/executionModel'
+
+// Oscillating market: RSI mean reversion trades a few times
+const WAVE: HistoricalQuote[] = Array.from({ length: 160 }, (_, i) => {
+    const close = 1000 + i + Math.round(120 * Math.sin(i / 4))
+    return { date: new Date(Date.UTC(2025, 0, 1 + i)), open: close, high: close + 5, low: close - 5, close, volume: 1000 }
+})
+
+const result = backtestStrategy('BBRI.JK', WAVE, resolveStrategySpec('RSI'), { execution: EXECUTION_MODELS.IDEAL_CLOSE })
+const REQUEST = { days: 160, interval: '1d' as const, bpjs: false }
+
+describe('Backtest Run History', () => {
+    let dir: string
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'runs-'))
+    })
+
+    afterEach(async () => {
+        await fs.rm(dir, { recursive: true, force: true })
+    })
+
+    it('should save full runs and list their summaries newest first', async () => {
+        const store = createRunHistoryStore(dir)
+        const first = await store.save(REQUEST, result)
+        const second = await store.save({ ...REQUEST, days: 90 }, result)
+
+        expect(second.id).not.toBe(first.id)
+        expect((await store.list()).map(r => r.id)).toEqual([second.id, first.id])
+        expect(first).toMatchObject({ symbol: 'BBRI', strategy: result.strategy, totalReturn: result.totalReturn, days: 160 })
+
+        // A fresh store over the same directory sees the same runs
+        const run = await createRunHistoryStore(dir).get(first.id)
+        expect(run?.result.trades).toEqual(result.trades)
+        expect(run?.result.equityCurve).toEqual(result.equityCurve)
+        expect(run?.result.spec).toEqual(result.spec)
+
+        expect(await store.remove(first.id)).toBe(true)
+        expect(await store.get(first.id)).toBeNull()
+        expect(await store.remove(first.id)).toBe(false)
+        expect(await store.get('../index')).toBeNull()
+    })
+
+    it('should drop the oldest runs beyond the limit', async () => {
+        const store = createRunHistoryStore(dir, 2)
+        const oldest = await store.save(REQUEST, result)
+        await store.save(REQUEST, result)
+        await store.save(REQUEST, result)
+
+        expect(await store.list()).toHaveLength(2)
+        expect(await store.get(oldest.id)).toBeNull()
+        expect(await fs.readdir(dir)).toHaveLength(3)
+    })
+
+    it('should export metrics, trades and the equity curve as CSV', async () => {
+        const store = createRunHistoryStore(dir)
+        const run = (await store.get((await store.save(REQUEST, result)).id))!
+        const lines = formatRunAsCsv(run).trimEnd().split('\n')
+
+        expect(lines[0]).toBe('Metric,Value')
+        expect(lines).toContain('Symbol,BBRI')
+        const tradeHeader = lines.indexOf('Date,Type,Price,Shares,Value,Fees,Profit,Profit %,Reason,Exit Rule')
+        const equityHeader = lines.indexOf('Date,Equity')
+        expect(equityHeader - tradeHeader - 2).toBe(result.trades.length)
+        expect(lines.length - equityHeader - 1).toBe(result.equityCurve.length)
+    })
+})
@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { createSignalLedger, type SignalInput } from '../signalLedger'
+
+const INPUT: SignalInput = {
+    source: 'STOCK_API',
+    symbol: 'bbri.jk',
+    mode: 'scalping',
+    direction: 'BUY',
+    action: 'STRONG_BUY',
+    price: 4500,
+    confidence: 70,
+    reasons: ['RSI oversold'],
+    indicators: ['RSI'],
+    stopLoss: 4400,
+    target: 4700,
+}
+
+const minutesAfter = (start: Date, minutes: number) => new Date(start.getTime() + minutes * 60_000)
+
+describe('Signal Ledger', () => {
+    let dir: string
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'signals-'))
+    })
+
+    afterEach(async () => {
+        await fs.rm(dir, { recursive: true, force: true })
+    })
+
+    it('should record each call once per dedupe window and keep outcomes', async () => {
+        const file = path.join(dir, 'signals.json')
+        const ledger = createSignalLedger(file)
+        const start = new Date(Date.UTC(2026, 2, 2, 2))
+
+        const first = await ledger.record(INPUT, start)
+        expect(first).toMatchObject({ symbol: 'BBRI', outcome: { firstHit: 'PENDING', complete: false } })
+
+        // Same call 10 minutes later is a refresh; the opposite call is new
+        expect(await ledger.record(INPUT, minutesAfter(start, 10))).toBeNull()
+        expect(await ledger.record({ ...INPUT, direction: 'SELL' }, minutesAfter(start, 10))).not.toBeNull()
+        expect(await ledger.record(INPUT, minutesAfter(start, 31))).not.toBeNull()
+
+        const outcome = { returns: { '1h': 1.5 }, firstHit: 'TARGET' as const, complete: false, evaluatedAt: start.toISOString() }
+        await ledger.updateOutcomes(new Map([[first!.id, outcome]]))
+
+        // A fresh ledger over the same file sees the same signals, newest first
+        const signals = await createSignalLedger(file).list()
+        expect(signals).toHaveLength(3)
+        expect(signals[2]).toMatchObject({ id: first!.id, outcome })
+    })
+
+    it('should drop the oldest signals beyond the limit', async () => {
+        const ledger = createSignalLedger(path.join(dir, 'signals.json'), 2)
+        const start = new Date(Date.UTC(2026, 2, 2, 2))
+        for (const symbol of ['BBRI', 'BBCA', 'TLKM']) await ledger.record({ ...INPUT, symbol }, start)
+
+        expect((await ledger.list()).map((s) => s.symbol)).toEqual(['TLKM', 'BBCA'])
+    })
+
+    it('should record a batch in one write, skipping duplicates within it', async () => {
+        const file = path.join(dir, 'signals.json')
+        const ledger = createSignalLedger(file)
+        const start = new Date(Date.UTC(2026, 2, 2, 2))
+
+        const recorded = await ledger.recordMany([INPUT, { ...INPUT, symbol: 'BBCA' }, INPUT], start)
+        expect(recorded.map((s) => s.symbol)).toEqual(['BBRI', 'BBCA'])
+        expect((await createSignalLedger(file).list()).map((s) => s.symbol)).toEqual(['BBCA', 'BBRI'])
+        expect(await ledger.recordMany([INPUT], minutesAfter(start, 5))).toEqual([])
+    })
+})
@@ -0,0 +1,105 @@
+import { describe, it, expect, vi } from 'vitest'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { getCompany, getUniverseSymbols, listCompanies, lookupCompany, resolveUniverse, saveCustomUniverse } from '../universeRegistry'
+import { setMarketDataProvider } from '../marketData'
+import type { MarketDataProvider } from '../types'
+import { createUniverseStore } from '../universeStore'
+import { isIdxSector } from '@/shared/idxSectors'
+
+describe('Universe Registry', () => {
+    it('should nest the index lists and cover them with the company master', () => {
+        const lq45 = getUniverseSymbols('LQ45')
+        const idx80 = getUniverseSymbols('idx80')
+        const kompas100 = getUniverseSymbols('KOMPAS100')
+
+        expect(lq45).toHaveLength(45)
+        expect(getUniverseSymbols('IDX30')).toHaveLength(30)
+        expect(idx80).toHaveLength(80)
+        expect(kompas100).toHaveLength(100)
+        expect(getUniverseSymbols('IDX30').every(s => lq45.includes(s))).toBe(true)
+        expect(idx80.slice(0, 45)).toEqual(lq45)
+        expect(getUniverseSymbols('BPJS')).toHaveLength(50)
+
+        for (const symbol of [...kompas100, ...getUniverseSymbols('SWING')]) {
+            expect(getCompany(symbol), symbol).not.toBeNull()
+        }
+        expect(listCompanies().every(c => isIdxSector(c.sector))).toBe(true)
+    })
+
+    it('should pin versions and reject unknown names', async () => {
+        const pinned = await resolveUniverse('lq45@2025-02', { limit: 10 })
+        expect(pinned).toMatchObject({ id: 'LQ45', kind: 'INDEX', version: '2025-02' })
+        expect(pinned.symbols).toHaveLength(10)
+
+        // A date before every review still gets the oldest list
+        expect((await resolveUniverse('LQ45', { asOf: '2001-01-01' })).version).toBe('2025-02')
+
+        await expect(resolveUniverse('LQ45@1999-08')).rejects.toThrow('has no version "1999-08"')
+        expect(() => getUniverseSymbols('SECTOR:SHIPPING')).toThrow('Unknown sector')
+    })
+
+    it('should build sector universes from the company master', async () => {
+        const financials = await resolveUniverse('sector:financials')
+
+        expect(financials).toMatchObject({ id: 'SECTOR:FINANCIALS', name: 'Financials', kind: 'SECTOR' })
+        expect(financials.symbols).toEqual(expect.arrayContaining(['BBCA', 'BBRI', 'BMRI']))
+        expect(financials.symbols.every(s => getCompany(s)?.sector === 'Financials')).toBe(true)
+        expect(getCompany('bbri.jk')).toMatchObject({ symbol: 'BBRI', sector: 'Financials' })
+    })
+
+    it('should look up companies the master does not hold through the provider', async () => {
+        const quote = vi.fn(async (symbol: string) => (symbol === 'WXYZ.JK' ? { symbol, longName: 'Wahana Xylo Tbk' } : { symbol }))
+        setMarketDataProvider({ name: 'test', quote } as unknown as MarketDataProvider)
+        try {
+            expect(await lookupCompany('bbri.jk')).toMatchObject({ symbol: 'BBRI', sector: 'Financials', source: 'MASTER' })
+            expect(getCompany('WXYZ')).toBeNull()
+
+            const found = { symbol: 'WXYZ', name: 'Wahana Xylo Tbk', sector: null, source: 'PROVIDER' }
+            expect(await lookupCompany('wxyz')).toEqual(found)
+            expect(await lookupCompany('WXYZ.JK')).toEqual(found)
+            expect(await lookupCompany('QQQQ')).toBeNull()
+            expect(await lookupCompany('NOT A TICKER')).toBeNull()
+
+            // Remembered hits and malformed symbols never reach the provider
+            expect(quote.mock.calls.map(([symbol]) => symbol)).toEqual(['WXYZ.JK', 'QQQQ.JK'])
+        } finally {
+            setMarketDataProvider(null)
+        }
+    })
+
+    it('should version custom lists and refuse malformed symbols', async () => {
+        const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'universes-'))
+        try {
+            const store = createUniverseStore(path.join(dir, 'universes.json'))
+
+            const saved = await store.save({ name: 'My Banks', symbols: ['bbri.jk', 'BMRI', 'BBRI'] })
+            expect(saved).toMatchObject({ id: 'MY-BANKS', version: 1, symbols: ['BBRI', 'BMRI'] })
+
+            const updated = await store.save({ id: 'my-banks', name: 'My Banks', symbols: ['BBCA'] })
+            expect(updated).toMatchObject({ id: 'MY-BANKS', version: 2, symbols: ['BBCA'], createdAt: saved.createdAt })
+
+            await expect(store.save({ name: 'My Banks', symbols: ['BBNI'] })).rejects.toThrow('already exists')
+            await expect(store.save({ name: 'Bad', symbols: ['NOT A TICKER'] })).rejects.toThrow('malformed symbols')
+            expect(await store.remove('MY-BANKS')).toBe(true)
+            expect(await store.list()).toEqual([])
+        } finally {
+            await fs.rm(dir, { recursive: true, force: true })
+        }
+    })
+
+    it('should refuse built-in names for the id the list would be saved under', async () => {
+        const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'universes-'))
+        process.env.UNIVERSE_STORE_FILE = path.join(dir, 'universes.json')
+        try {
+            // An unknown id falls back to the name's slug
+            await expect(saveCustomUniverse({ id: 'X', name: 'LQ45', symbols: ['BBRI'] })).rejects.toThrow('LQ45 is a built-in universe name')
+            await expect(saveCustomUniverse({ name: 'Trending', symbols: ['BBRI'] })).rejects.toThrow('built-in universe name')
+            expect(await saveCustomUniverse({ id: 'X', name: 'LQ45 Banks', symbols: ['BBRI'] })).toMatchObject({ id: 'LQ45-BANKS' })
+        } finally {
+            delete process.env.UNIVERSE_STORE_FILE
+            await fs.rm(dir, { recursive: true, force: true })
+        }
+    })
+})
@@ -0,0 +1,255 @@
+/**
+ * Local OHLCV Candle Store
+ *
+ * Persists candles per symbol/interval on disk and keeps them in sync with the
+ * active market data provider. Only the missing head (older than anything
+ * stored) and the tail (from the last stored bar up to now) are downloaded;
+ * everything in between is served from the local file.
+ *
+ * Layout:
+ *   <dir>/<SYMBOL>/<interval>.json  →  { symbol, interval, syncedAt, coveredFrom, candles[] }
+ *
+ * The last stored bar is always re-fetched because Yahoo publishes the
+ * current session's bar while it is still forming.
+ *
+ * @module backend/data/candleStore
+ */
+
+import path from "path";
+import { readJsonFile, writeJsonFile } from "./jsonFileStore";
+import type { ChartInterval, HistoricalQuote, MarketDataProvider } from "./types";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface CandleFile {
+    symbol: string;
+    interval: ChartInterval;
+    /** ISO timestamp of the last successful tail sync */
+    syncedAt: string;
+    /**
+     * Earliest date already requested from the provider. Can precede the first
+     * bar (listing date, provider limits), so the head is not re-fetched forever.
+     */
+    coveredFrom: string;
+    candles: HistoricalQuote[];
+}
+
+export interface CandleRange {
+    from: Date;
+    to?: Date;
+}
+
+export interface CandleStoreStats {
+    symbol: string;
+    interval: ChartInterval;
+    bars: number;
+    firstBar: Date | null;
+    lastBar: Date | null;
+    syncedAt: Date | null;
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * How far back the provider serves each intraday interval. Requests for older
+ * intraday bars are clamped instead of failing the whole sync.
+ */
+const MAX_LOOKBACK_DAYS: Partial<Record<ChartInterval, number>> = {
+    "1m": 7,
+    "2m": 59,
+    "5m": 59,
+    "15m": 59,
+    "30m": 59,
+    "60m": 729,
+};
+
+/**
+ * Minimum time between tail syncs. Within this window the store answers from
+ * disk without touching the provider.
+ */
+const SYNC_TTL_MS: Partial<Record<ChartInterval, number>> = {
+    "1m": 30 * 1000,
+    "2m": 60 * 1000,
+    "5m": 60 * 1000,
+    "15m": 2 * 60 * 1000,
+    "30m": 5 * 60 * 1000,
+    "60m": 5 * 60 * 1000,
+};
+const DEFAULT_SYNC_TTL_MS = 15 * 60 * 1000;
+
+/** "1h" and "60m" are the same bars; store them once. */
+function normalizeInterval(interval: ChartInterval): ChartInterval {
+    return interval === "1h" ? "60m" : interval;
+}
+
+// ============================================================================
+// Persistence
+// ============================================================================
+
+function candlePath(baseDir: string, symbol: string, interval: ChartInterval): string {
+    return path.join(baseDir, encodeURIComponent(symbol.toUpperCase()), `${interval}.json`);
+}
+
+async function readCandleFile(filePath: string): Promise<CandleFile | null> {
+    const raw = (await readJsonFile(filePath, "CandleStore")) as (Omit<CandleFile, "candles"> & {
+        candles?: (HistoricalQuote & { date: string })[];
+    }) | null;
+    if (!raw) return null;
+    return {
+        ...raw,
+        candles: (raw.candles || []).map((q) => ({ ...q, date: new Date(q.date) })),
+    };
+}
+
+const writeCandleFile = (filePath: string, file: CandleFile) => writeJsonFile(filePath, file);
+
+/**
+ * Merge bars by timestamp; bars from `incoming` win over stored ones.
+ */
+export function mergeCandles(existing: HistoricalQuote[], incoming: HistoricalQuote[]): HistoricalQuote[] {
+    const byTime = new Map<number, HistoricalQuote>();
+    for (const q of existing) byTime.set(q.date.getTime(), q);
+    for (const q of incoming) {
+        if (q.close === null || q.close === undefined) continue;
+        byTime.set(q.date.getTime(), q);
+    }
+    return Array.from(byTime.values()).sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+function sliceRange(candles: HistoricalQuote[], range: CandleRange): HistoricalQuote[] {
+    const from = range.from.getTime();
+    const to = (range.to ?? new Date()).getTime();
+    return candles.filter((q) => q.date.getTime() >= from && q.date.getTime() <= to);
+}
+
+// ============================================================================
+// Store
+// ============================================================================
+
+export interface CandleStore {
+    /**
+     * Return candles for the range, downloading only what is missing locally.
+     */
+    getCandles(
+        provider: MarketDataProvider,
+        symbol: string,
+        interval: ChartInterval,
+        range: CandleRange
+    ): Promise<HistoricalQuote[]>;
+    /** Read stored candles without contacting the provider */
+    readCandles(symbol: string, interval: ChartInterval, range?: CandleRange): Promise<HistoricalQuote[]>;
+    stats(symbol: string, interval: ChartInterval): Promise<CandleStoreStats>;
+}
+
+export function createCandleStore(baseDir: string): CandleStore {
+    // Syncs for the same symbol/interval run one after another, so concurrent
+    // callers never download the same bars twice or race on the file
+    const queues = new Map<string, Promise<unknown>>();
+
+    async function sync(
+        provider: MarketDataProvider,
+        symbol: string,
+        interval: ChartInterval,
+        range: CandleRange
+    ): Promise<CandleFile | null> {
+        const filePath = candlePath(baseDir, symbol, interval);
+        const stored = await readCandleFile(filePath);
+        const now = new Date();
+
+        const maxLookback = MAX_LOOKBACK_DAYS[interval];
+        const earliestAvailable = maxLookback ? new Date(now.getTime() - maxLookback * DAY_MS) : null;
+        const wantedFrom =
+            earliestAvailable && range.from < earliestAvailable ? earliestAvailable : range.from;
+
+        let candles = stored?.candles ?? [];
+        let syncedAt = stored ? new Date(stored.syncedAt) : null;
+        let coveredFrom = stored ? new Date(stored.coveredFrom ?? candles[0]?.date ?? now) : null;
+        let changed = false;
+
+        // Head: requested range starts before anything we have asked for
+        if (!coveredFrom || wantedFrom < coveredFrom) {
+            const fetched = await provider.chart(symbol, {
+                period1: wantedFrom,
+                period2: coveredFrom ?? now,
+                interval,
+            });
+            candles = mergeCandles(candles, fetched);
+            syncedAt = coveredFrom ? syncedAt : now;
+            coveredFrom = wantedFrom;
+            changed = true;
+        }
+
+        // Tail: refresh from the last stored bar once the TTL has passed
+        const ttl = SYNC_TTL_MS[interval] ?? DEFAULT_SYNC_TTL_MS;
+        const lastBar = candles[candles.length - 1]?.date;
+        const needsTail = range.to === undefined || (lastBar !== undefined && range.to > lastBar);
+        if (lastBar && needsTail && (!syncedAt || now.getTime() - syncedAt.getTime() >= ttl)) {
+            const fetched = await provider.chart(symbol, { period1: lastBar, period2: now, interval });
+            candles = mergeCandles(candles, fetched);
+            syncedAt = now;
+            changed = true;
+        }
+
+        if (candles.length === 0) return stored;
+
+        const file: CandleFile = {
+            symbol: symbol.toUpperCase(),
+            interval,
+            syncedAt: (syncedAt ?? now).toISOString(),
+            coveredFrom: (coveredFrom ?? wantedFrom).toISOString(),
+            candles,
+        };
+        if (changed) {
+            try {
+                await writeCandleFile(filePath, file);
+            } catch (error) {
+                console.warn(`[CandleStore] Failed to persist ${symbol} ${interval}:`, error);
+            }
+        }
+        return file;
+    }
+
+    return {
+        async getCandles(provider, symbol, interval, range) {
+            const normalized = normalizeInterval(interval);
+            const key = `${symbol.toUpperCase()}|${normalized}`;
+            const previous = queues.get(key) ?? Promise.resolve();
+            const pending = previous
+                .catch(() => undefined)
+                .then(() => sync(provider, symbol, normalized, range));
+            queues.set(key, pending);
+            pending.finally(() => {
+                if (queues.get(key) === pending) queues.delete(key);
+            }).catch(() => undefined);
+
+            const file = await pending;
+            return file ? sliceRange(file.candles, range) : [];
+        },
+
+        async readCandles(symbol, interval, range) {
+            const file = await readCandleFile(candlePath(baseDir, symbol, normalizeInterval(interval)));
+            if (!file) return [];
+            return range ? sliceRange(file.candles, range) : file.candles;
+        },
+
+        async stats(symbol, interval) {
+            const normalized = normalizeInterval(interval);
+            const file = await readCandleFile(candlePath(baseDir, symbol, normalized));
+            const candles = file?.candles ?? [];
+            return {
+                symbol: symbol.toUpperCase(),
+                interval: normalized,
+                bars: candles.length,
+                firstBar: candles[0]?.date ?? null,
+                lastBar: candles[candles.length - 1]?.date ?? null,
+                syncedAt: file ? new Date(file.syncedAt) : null,
+            };
+        },
+    };
+}
@@ -0,0 +1,248 @@
+/**
+ * File-backed Market Data Providers
+ *
+ * - Fixture provider: serves previously recorded JSON so the whole app can run
+ *   offline (demos, tests, development without Yahoo access).
+ * - Recording provider: wraps a live provider and writes every response into
+ *   the same layout, which is how fixtures are produced.
+ *
+ * Layout (one directory per symbol):
+ *   <dir>/<SYMBOL>/quote.json
+ *   <dir>/<SYMBOL>/chart-<interval>.json
+ *   <dir>/<SYMBOL>/summary.json
+ *   <dir>/<SYMBOL>/news.json
+ *   <dir>/_screens/daily-gainers-<region>.json
+ *
+ * @module backend/data/fixtureProvider
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import type {
+    ChartInterval,
+    ChartOptions,
+    HistoricalQuote,
+    MarketDataProvider,
+    MarketNewsItem,
+    MarketQuote,
+    MarketSearchResult,
+    QuoteSummaryModule,
+    QuoteSummaryResult,
+} from "./types";
+
+// ============================================================================
+// Paths & Serialization
+// ============================================================================
+
+function symbolDir(baseDir: string, symbol: string): string {
+    return path.join(baseDir, encodeURIComponent(symbol.toUpperCase()));
+}
+
+function quotePath(baseDir: string, symbol: string): string {
+    return path.join(symbolDir(baseDir, symbol), "quote.json");
+}
+
+function chartPath(baseDir: string, symbol: string, interval: ChartInterval): string {
+    return path.join(symbolDir(baseDir, symbol), `chart-${interval}.json`);
+}
+
+function summaryPath(baseDir: string, symbol: string): string {
+    return path.join(symbolDir(baseDir, symbol), "summary.json");
+}
+
+function newsPath(baseDir: string, symbol: string): string {
+    return path.join(symbolDir(baseDir, symbol), "news.json");
+}
+
+function gainersPath(baseDir: string, region: string): string {
+    return path.join(baseDir, "_screens", `daily-gainers-${region.toUpperCase()}.json`);
+}
+
+async function readJson<T>(filePath: string, description: string): Promise<T> {
+    try {
+        const raw = await fs.readFile(filePath, "utf-8");
+        return JSON.parse(raw) as T;
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+            throw new Error(`Not Found: no recorded ${description} (${filePath})`);
+        }
+        throw error;
+    }
+}
+
+async function writeJson(filePath: string, data: unknown): Promise<void> {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, JSON.stringify(data, null, 2), "utf-8");
+}
+
+function reviveCandles(raw: (Omit<HistoricalQuote, "date"> & { date: string })[]): HistoricalQuote[] {
+    return raw.map((q) => ({ ...q, date: new Date(q.date) }));
+}
+
+function reviveNews(raw: (Omit<MarketNewsItem, "providerPublishTime"> & { providerPublishTime?: string })[]): MarketNewsItem[] {
+    return raw.map((n) => ({
+        ...n,
+        providerPublishTime: n.providerPublishTime ? new Date(n.providerPublishTime) : undefined,
+    }));
+}
+
+function reviveSummary(raw: QuoteSummaryResult): QuoteSummaryResult {
+    const history = raw.incomeStatementHistory?.incomeStatementHistory;
+    if (!history) return raw;
+    return {
+        ...raw,
+        incomeStatementHistory: {
+            incomeStatementHistory: history.map((item) => ({
+                ...item,
+                endDate: item.endDate ? new Date(item.endDate) : undefined,
+            })),
+        },
+    };
+}
+
+/**
+ * Select the requested window from a recording.
+ *
+ * Recordings age, so a "last 90 days" request made today usually falls after
+ * the last recorded bar. In that case the same window length is anchored to
+ * the end of the recording instead, which replays the data as if it were live.
+ */
+function selectWindow(candles: HistoricalQuote[], options: ChartOptions): HistoricalQuote[] {
+    if (candles.length === 0) return candles;
+
+    const start = options.period1.getTime();
+    const end = (options.period2 ?? new Date()).getTime();
+    const inWindow = candles.filter((q) => q.date.getTime() >= start && q.date.getTime() <= end);
+    if (inWindow.length > 0) return inWindow;
+
+    const lastRecorded = candles[candles.length - 1].date.getTime();
+    const anchoredStart = lastRecorded - (end - start);
+    return candles.filter((q) => q.date.getTime() >= anchoredStart);
+}
+
+// ============================================================================
+// Fixture Provider
+// ============================================================================
+
+export function createFixtureProvider(baseDir: string): MarketDataProvider {
+    return {
+        name: "fixture",
+
+        async quote(symbol: string): Promise<MarketQuote> {
+            return readJson<MarketQuote>(quotePath(baseDir, symbol), `quote for ${symbol}`);
+        },
+
+        async chart(symbol: string, options: ChartOptions): Promise<HistoricalQuote[]> {
+            const raw = await readJson<(Omit<HistoricalQuote, "date"> & { date: string })[]>(
+                chartPath(baseDir, symbol, options.interval),
+                `${options.interval} chart for ${symbol}`
+            );
+            return selectWindow(reviveCandles(raw), options);
+        },
+
+        async quoteSummary(symbol: string, modules: QuoteSummaryModule[]): Promise<QuoteSummaryResult> {
+            const raw = await readJson<QuoteSummaryResult>(summaryPath(baseDir, symbol), `summary for ${symbol}`);
+            const summary = reviveSummary(raw);
+            const selected: QuoteSummaryResult = {};
+            for (const moduleName of modules) {
+                if (summary[moduleName] !== undefined) {
+                    Object.assign(selected, { [moduleName]: summary[moduleName] });
+                }
+            }
+            return selected;
+        },
+
+        async search(query: string, options: { newsCount: number }): Promise<MarketSearchResult> {
+            try {
+                const raw = await readJson<Parameters<typeof reviveNews>[0]>(newsPath(baseDir, query), `news for ${query}`);
+                return { news: reviveNews(raw).slice(0, options.newsCount) };
+            } catch {
+                return { news: [] };
+            }
+        },
+
+        async dailyGainers(options: { count: number; region: string }): Promise<MarketQuote[]> {
+            const quotes = await readJson<MarketQuote[]>(gainersPath(baseDir, options.region), `daily gainers for ${options.region}`);
+            return quotes.slice(0, options.count);
+        },
+    };
+}
+
+// ============================================================================
+// Recording Provider
+// ============================================================================
+
+/**
+ * Merge a fresh chart response into an existing recording (by bar timestamp),
+ * so repeated sessions keep extending the recorded history.
+ */
+async function mergeChartRecording(filePath: string, candles: HistoricalQuote[]): Promise<void> {
+    let existing: HistoricalQuote[] = [];
+    try {
+        const raw = await fs.readFile(filePath, "utf-8");
+        existing = reviveCandles(JSON.parse(raw));
+    } catch {
+        existing = [];
+    }
+
+    const byTime = new Map<number, HistoricalQuote>();
+    for (const q of existing) byTime.set(q.date.getTime(), q);
+    for (const q of candles) byTime.set(q.date.getTime(), q);
+
+    const merged = Array.from(byTime.values()).sort((a, b) => a.date.getTime() - b.date.getTime());
+    await writeJson(filePath, merged);
+}
+
+export function createRecordingProvider(inner: MarketDataProvider, baseDir: string): MarketDataProvider {
+    const record = async (description: string, write: () => Promise<void>) => {
+        try {
+            await write();
+        } catch (error) {
+            console.warn(`[MarketData] Failed to record ${description}:`, error);
+        }
+    };
+
+    return {
+        name: `record(${inner.name})`,
+
+        async quote(symbol: string): Promise<MarketQuote> {
+            const result = await inner.quote(symbol);
+            await record(`quote ${symbol}`, () => writeJson(quotePath(baseDir, symbol), result));
+            return result;
+        },
+
+        async chart(symbol: string, options: ChartOptions): Promise<HistoricalQuote[]> {
+            const result = await inner.chart(symbol, options);
+            await record(`${options.interval} chart ${symbol}`, () =>
+                mergeChartRecording(chartPath(baseDir, symbol, options.interval), result)
+            );
+            return result;
+        },
+
+        async quoteSummary(symbol: string, modules: QuoteSummaryModule[]): Promise<QuoteSummaryResult> {
+            const result = await inner.quoteSummary(symbol, modules);
+            await record(`summary ${symbol}`, async () => {
+                let existing: QuoteSummaryResult = {};
+                try {
+                    existing = JSON.parse(await fs.readFile(summaryPath(baseDir, symbol), "utf-8"));
+                } catch {
+                    existing = {};
+                }
+                await writeJson(summaryPath(baseDir, symbol), { ...existing, ...result });
+            });
+            return result;
+        },
+
+        async search(query: string, options: { newsCount: number }): Promise<MarketSearchResult> {
+            const result = await inner.search(query, options);
+            await record(`news ${query}`, () => writeJson(newsPath(baseDir, query), result.news));
+            return result;
+        },
+
+        async dailyGainers(options: { count: number; region: string }): Promise<MarketQuote[]> {
+            const result = await inner.dailyGainers(options);
+            await record(`daily gainers ${options.region}`, () => writeJson(gainersPath(baseDir, options.region), result));
+            return result;
+        },
+    };
+}
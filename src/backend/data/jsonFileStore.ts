@@ -0,0 +1,72 @@
+/**
+ * JSON File Persistence
+ *
+ * The plumbing every file-backed store shares (candles, strategies, screens,
+ * run history, signal ledger, custom universes): tolerant reads, atomic
+ * writes and a queue that serializes read-modify-write updates. Each store
+ * keeps its own layout and validation on top.
+ *
+ * @module backend/data/jsonFileStore
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+
+// ============================================================================
+// Files
+// ============================================================================
+
+/**
+ * Parsed contents of a JSON file.
+ *
+ * @param tag Log prefix of the calling store, e.g. "ScreenStore"
+ * @returns null when the file does not exist or does not parse (the latter
+ *   is logged and the file is left for the next write to replace)
+ */
+export async function readJsonFile(filePath: string, tag: string): Promise<unknown> {
+    try {
+        return JSON.parse(await fs.readFile(filePath, "utf-8"));
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+            console.warn(`[${tag}] Ignoring unreadable file ${filePath}:`, error);
+        }
+        return null;
+    }
+}
+
+/**
+ * Write-then-rename so a crash mid-write never leaves a truncated file.
+ *
+ * @param pretty Indent for files people edit or diff by hand
+ */
+export async function writeJsonFile(filePath: string, data: unknown, pretty: boolean = false): Promise<void> {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tmpPath, pretty ? JSON.stringify(data, null, 2) : JSON.stringify(data), "utf-8");
+    await fs.rename(tmpPath, filePath);
+}
+
+/**
+ * A queue that runs tasks one after another, so concurrent read-modify-write
+ * updates of the same file never drop each other. A failed task rejects its
+ * own promise without blocking the ones behind it.
+ */
+export function createWriteQueue(): <T>(task: () => Promise<T>) => Promise<T> {
+    let queue: Promise<unknown> = Promise.resolve();
+    return <T>(task: () => Promise<T>): Promise<T> => {
+        const next = queue.then(task, task);
+        queue = next.catch(() => undefined);
+        return next;
+    };
+}
+
+// ============================================================================
+// Ids
+// ============================================================================
+
+/**
+ * Lower-case id prefix for a name: "My RSI screen" → "my-rsi-screen".
+ */
+export function slugify(name: string, fallback: string): string {
+    return name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 40) || fallback;
+}
@@ -0,0 +1,137 @@
+/**
+ * Market Data Access
+ *
+ * Single entry point for quotes, candles, fundamentals and news. Routes and
+ * backend modules call `getMarketDataProvider()` (or the `fetchChart` helper)
+ * instead of instantiating a vendor client themselves.
+ *
+ * Provider selection (environment):
+ * - MARKET_DATA_PROVIDER: "yahoo" (default) | "fixture" | "record"
+ * - MARKET_DATA_FIXTURE_DIR: recording directory (default: fixtures/market-data)
+ * - CANDLE_STORE_DIR: local candle history (default: .data/candles)
+ * - CANDLE_STORE=off: always download candles instead of syncing the store
+ *
+ * @module backend/data/marketData
+ */
+
+import path from "path";
+import { CANDLE_STORE, MARKET_DATA } from "@/shared/constants";
+import { createYahooProvider } from "./yahooProvider";
+import { createFixtureProvider, createRecordingProvider } from "./fixtureProvider";
+import { createCandleStore, type CandleStore } from "./candleStore";
+import type {
+    ChartInterval,
+    HistoricalQuote,
+    MarketDataProvider,
+    MarketDataProviderName,
+} from "./types";
+
+export type * from "./types";
+
+let activeProvider: MarketDataProvider | null = null;
+let candleStore: CandleStore | null = null;
+
+function resolveProviderName(): MarketDataProviderName {
+    const configured = (process.env.MARKET_DATA_PROVIDER || MARKET_DATA.DEFAULT_PROVIDER).toLowerCase();
+    if (configured === "yahoo" || configured === "fixture" || configured === "record") {
+        return configured;
+    }
+    console.warn(`[MarketData] Unknown provider "${configured}", falling back to ${MARKET_DATA.DEFAULT_PROVIDER}`);
+    return MARKET_DATA.DEFAULT_PROVIDER;
+}
+
+function resolveFixtureDir(): string {
+    return path.resolve(process.cwd(), process.env.MARKET_DATA_FIXTURE_DIR || MARKET_DATA.FIXTURE_DIR);
+}
+
+/**
+ * Build a provider by name. Exposed for scripts that need a specific source
+ * regardless of the process configuration.
+ */
+export function createMarketDataProvider(name: MarketDataProviderName): MarketDataProvider {
+    switch (name) {
+        case "fixture":
+            return createFixtureProvider(resolveFixtureDir());
+        case "record":
+            return createRecordingProvider(createYahooProvider(), resolveFixtureDir());
+        case "yahoo":
+        default:
+            return createYahooProvider();
+    }
+}
+
+/**
+ * Get the configured provider (created once per server process).
+ */
+export function getMarketDataProvider(): MarketDataProvider {
+    if (!activeProvider) {
+        activeProvider = createMarketDataProvider(resolveProviderName());
+        console.log(`[MarketData] Using provider: ${activeProvider.name}`);
+    }
+    return activeProvider;
+}
+
+/**
+ * Override the active provider (e.g. a paid IDX feed or a test double).
+ * Pass `null` to return to environment-based selection.
+ */
+export function setMarketDataProvider(provider: MarketDataProvider | null): void {
+    activeProvider = provider;
+}
+
+/**
+ * Get the local candle store (created once per server process).
+ */
+export function getCandleStore(): CandleStore {
+    if (!candleStore) {
+        candleStore = createCandleStore(
+            path.resolve(process.cwd(), process.env.CANDLE_STORE_DIR || CANDLE_STORE.DIR)
+        );
+    }
+    return candleStore;
+}
+
+function isCandleStoreEnabled(provider: MarketDataProvider): boolean {
+    // Fixtures are already local; caching them would mix replayed and live bars
+    if (provider.name === "fixture") return false;
+    return (process.env.CANDLE_STORE || "").toLowerCase() !== "off";
+}
+
+/**
+ * Fetch candles between two dates, served from the local candle store when
+ * enabled (only the missing bars are downloaded).
+ */
+export async function fetchChartRange(
+    symbol: string,
+    interval: ChartInterval,
+    from: Date,
+    to?: Date
+): Promise<HistoricalQuote[]> {
+    const provider = getMarketDataProvider();
+
+    if (isCandleStoreEnabled(provider)) {
+        try {
+            return await getCandleStore().getCandles(provider, symbol, interval, { from, to });
+        } catch (error) {
+            console.warn(`[MarketData] Candle store failed for ${symbol} ${interval}, fetching directly:`, error);
+        }
+    }
+
+    return provider.chart(symbol, {
+        period1: from,
+        period2: to ?? new Date(),
+        interval,
+    });
+}
+
+/**
+ * Fetch candles for the last `daysBack` calendar days.
+ */
+export async function fetchChart(
+    symbol: string,
+    interval: ChartInterval,
+    daysBack: number
+): Promise<HistoricalQuote[]> {
+    const startDate = new Date(Date.now() - daysBack * 24 * 60 * 60 * 1000);
+    return fetchChartRange(symbol, interval, startDate);
+}
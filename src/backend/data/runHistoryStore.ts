@@ -0,0 +1,252 @@
+/**
+ * Backtest Run History
+ *
+ * Keeps every single-symbol backtest run on disk so results survive a page
+ * reload and can be compared or exported later.
+ *
+ * Layout:
+ *   <dir>/index.json   →  { runs: BacktestRunSummary[] }   (newest first)
+ *   <dir>/<id>.json    →  BacktestRun                      (spec, trades, equity curve)
+ *
+ * The index keeps the history list cheap to load; full runs are read one at
+ * a time. Only the newest BACKTEST_HISTORY.MAX_RUNS are kept.
+ *
+ * Override the location with BACKTEST_HISTORY_DIR (default: .data/backtest-runs).
+ *
+ * @module backend/data/runHistoryStore
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import type { BacktestResult } from "@/backend/analysis/backtesting";
+import { createWriteQueue, readJsonFile, writeJsonFile } from "@/backend/data/jsonFileStore";
+import type { BacktestInterval } from "@/shared/backtestTimeframes";
+import { BACKTEST_HISTORY } from "@/shared/constants";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** What was asked for, next to what came out (`result`) */
+export interface BacktestRunRequest {
+    /** Lookback in days */
+    days: number;
+    interval: BacktestInterval;
+    bpjs: boolean;
+}
+
+export interface BacktestRun extends BacktestRunRequest {
+    id: string;
+    /** ISO timestamp */
+    createdAt: string;
+    result: BacktestResult;
+}
+
+/** Index entry: enough to list and pick runs without loading trades */
+export interface BacktestRunSummary extends BacktestRunRequest {
+    id: string;
+    createdAt: string;
+    symbol: string;
+    strategy: string;
+    period: { start: string; end: string };
+    executionModel: string;
+    totalTrades: number;
+    winRate: number;
+    totalReturn: number;
+    maxDrawdown: number;
+    sharpeRatio: number;
+    /** null when there were no losing trades (Infinity does not survive JSON) */
+    profitFactor: number | null;
+}
+
+interface IndexFile {
+    runs: BacktestRunSummary[];
+}
+
+export interface RunHistoryStore {
+    /** Newest first */
+    list(): Promise<BacktestRunSummary[]>;
+    get(id: string): Promise<BacktestRun | null>;
+    save(request: BacktestRunRequest, result: BacktestResult): Promise<BacktestRunSummary>;
+    /** @returns false when no run had this id */
+    remove(id: string): Promise<boolean>;
+}
+
+// ============================================================================
+// Persistence
+// ============================================================================
+
+const RUN_ID_PATTERN = /^[a-z0-9-]+$/;
+
+async function readIndex(dir: string): Promise<IndexFile> {
+    const raw = (await readJsonFile(path.join(dir, "index.json"), "RunHistory")) as Partial<IndexFile> | null;
+    return { runs: Array.isArray(raw?.runs) ? raw.runs : [] };
+}
+
+function summarize(run: BacktestRun): BacktestRunSummary {
+    const { result } = run;
+    return {
+        id: run.id,
+        createdAt: run.createdAt,
+        days: run.days,
+        interval: run.interval,
+        bpjs: run.bpjs,
+        symbol: result.symbol,
+        strategy: result.strategy,
+        period: result.period,
+        executionModel: result.execution.model.name,
+        totalTrades: result.totalTrades,
+        winRate: result.winRate,
+        totalReturn: result.totalReturn,
+        maxDrawdown: result.maxDrawdown,
+        sharpeRatio: result.sharpeRatio,
+        profitFactor: Number.isFinite(result.profitFactor) ? result.profitFactor : null,
+    };
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+function csvField(value: string | number | undefined): string {
+    const text = value === undefined ? "" : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvRow(values: (string | number | undefined)[]): string {
+    return values.map(csvField).join(",");
+}
+
+/**
+ * A run as CSV for spreadsheets: a metrics block, the trade log and the
+ * equity curve, separated by blank lines.
+ */
+export function formatRunAsCsv(run: BacktestRun): string {
+    const { result } = run;
+    const round = (value: number | null) => value === null
+        ? "n/a"
+        : Number.isFinite(value) ? Number(value.toFixed(4)) : String(value);
+
+    const metrics: [string, string | number][] = [
+        ["Symbol", result.symbol],
+        ["Strategy", result.strategy],
+        ["Period", `${result.period.start} - ${result.period.end}`],
+        ["Interval", run.interval],
+        ["Days", run.days],
+        ["BPJS Rules", run.bpjs ? "yes" : "no"],
+        ["Execution", result.execution.description],
+        ["Parameters", Object.entries(result.spec.parameters ?? {}).map(([k, v]) => `${k}=${v}`).join(" ")],
+        ["Total Return %", round(result.totalReturn)],
+        ["Buy & Hold %", round(result.buyAndHoldReturn)],
+        ["Win Rate %", round(result.winRate)],
+        ["Max Drawdown %", round(result.maxDrawdown)],
+        ["Sharpe Ratio", round(result.sharpeRatio)],
+        ["Profit Factor", round(result.profitFactor)],
+        ["Total Trades", result.totalTrades],
+    ];
+    // Runs saved before the benchmark metrics existed lack them
+    if (result.benchmarks) {
+        metrics.push(
+            ["Sortino Ratio", round(result.sortinoRatio)],
+            ["Calmar Ratio", round(result.calmarRatio)],
+            ["Time in Market %", round(result.exposurePercent)],
+            ["Exposure-Adjusted Return %", round(result.exposureAdjustedReturn)],
+            ...result.benchmarks.flatMap((b): [string, string | number][] => [
+                [`${b.index} Return %`, round(b.totalReturn)],
+                [`Alpha vs ${b.index} %`, round(b.alpha)],
+                [`Beta vs ${b.index}`, round(b.beta)],
+                [`Correlation vs ${b.index}`, round(b.correlation)],
+                [`Information Ratio vs ${b.index}`, round(b.informationRatio)],
+            ])
+        );
+    }
+
+    return [
+        csvRow(["Metric", "Value"]),
+        ...metrics.map((m) => csvRow(m)),
+        "",
+        csvRow(["Date", "Type", "Price", "Shares", "Value", "Fees", "Profit", "Profit %", "Reason", "Exit Rule"]),
+        ...result.trades.map((t) => csvRow([
+            t.date, t.type, t.price, t.shares, round(t.value), round(t.fees),
+            t.profit === undefined ? undefined : round(t.profit),
+            t.profitPercent === undefined ? undefined : round(t.profitPercent),
+            t.reason,
+            t.exitRule,
+        ])),
+        "",
+        csvRow(["Date", "Equity"]),
+        ...result.equityCurve.map((p) => csvRow([p.date, round(p.equity)])),
+    ].join("\n") + "\n";
+}
+
+// ============================================================================
+// Store
+// ============================================================================
+
+export function createRunHistoryStore(dir: string, maxRuns: number = BACKTEST_HISTORY.MAX_RUNS): RunHistoryStore {
+    const runPath = (id: string) => path.join(dir, `${id}.json`);
+    // Strictly increasing, so two runs saved in the same millisecond get distinct ids
+    let lastStamp = 0;
+
+    const enqueue = createWriteQueue();
+
+    return {
+        async list() {
+            return (await readIndex(dir)).runs;
+        },
+
+        async get(id) {
+            if (!RUN_ID_PATTERN.test(id)) return null;
+            const run = (await readJsonFile(runPath(id), "RunHistory")) as BacktestRun | null;
+            // JSON turns an infinite profit factor into null
+            if (run) run.result.profitFactor ??= Infinity;
+            return run;
+        },
+
+        save(request, result) {
+            return enqueue(async () => {
+                lastStamp = Math.max(Date.now(), lastStamp + 1);
+                const createdAt = new Date(lastStamp).toISOString();
+                const id = `${result.symbol.toLowerCase().replace(/[^a-z0-9]+/g, "")}-${lastStamp.toString(36)}`;
+                const run: BacktestRun = { ...request, id, createdAt, result };
+                const summary = summarize(run);
+
+                await writeJsonFile(runPath(id), run);
+
+                const index = await readIndex(dir);
+                const runs = [summary, ...index.runs.filter((r) => r.id !== id)];
+                const dropped = runs.splice(maxRuns);
+                await writeJsonFile(path.join(dir, "index.json"), { runs });
+                await Promise.all(dropped.map((r) => fs.rm(runPath(r.id), { force: true })));
+
+                console.log(`[RunHistory] Saved run ${id} (${summary.strategy} on ${summary.symbol})`);
+                return summary;
+            });
+        },
+
+        remove(id) {
+            return enqueue(async () => {
+                const index = await readIndex(dir);
+                const runs = index.runs.filter((r) => r.id !== id);
+                if (runs.length === index.runs.length) return false;
+                await writeJsonFile(path.join(dir, "index.json"), { runs });
+                await fs.rm(runPath(id), { force: true });
+                return true;
+            });
+        },
+    };
+}
+
+let defaultStore: RunHistoryStore | null = null;
+
+/**
+ * Store at BACKTEST_HISTORY_DIR (created once per server process).
+ */
+export function getRunHistoryStore(): RunHistoryStore {
+    if (!defaultStore) {
+        defaultStore = createRunHistoryStore(
+            path.resolve(process.cwd(), process.env.BACKTEST_HISTORY_DIR || BACKTEST_HISTORY.DIR)
+        );
+    }
+    return defaultStore;
+}
@@ -0,0 +1,164 @@
+/**
+ * Saved Screen Store
+ *
+ * Persists custom screener filters in a single JSON file. The file lives on
+ * the server, so a screen saved by one person shows up for the whole team.
+ *
+ * Layout:
+ *   <file>  →  { screens: SavedScreen[] }
+ *
+ * Override the location with SCREEN_STORE_FILE (default: .data/screens.json).
+ *
+ * @module backend/data/screenStore
+ */
+
+import path from "path";
+import type { ScreenUniverse } from "@/backend/analysis/customScreener";
+import { createWriteQueue, readJsonFile, slugify, writeJsonFile } from "@/backend/data/jsonFileStore";
+import { CUSTOM_SCREENER } from "@/shared/constants";
+import { parseScreenExpression } from "@/shared/screenExpression";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** What the screener form holds */
+export interface ScreenDefinition {
+    /** Set to update an existing screen */
+    id?: string;
+    name: string;
+    description?: string;
+    expression: string;
+    universe: ScreenUniverse;
+    /** Symbols for the CUSTOM universe */
+    symbols?: string[];
+    /** Who saved it (free text) */
+    author?: string;
+}
+
+export interface SavedScreen extends ScreenDefinition {
+    id: string;
+    /** ISO timestamps */
+    createdAt: string;
+    updatedAt: string;
+}
+
+interface ScreenFile {
+    screens: SavedScreen[];
+}
+
+export interface ScreenStore {
+    /** Most recently updated first */
+    list(): Promise<SavedScreen[]>;
+    get(id: string): Promise<SavedScreen | null>;
+    /**
+     * Insert or update (by `id`) a screen.
+     *
+     * @throws Error when the name is missing or the expression does not parse
+     */
+    save(definition: ScreenDefinition): Promise<SavedScreen>;
+    /** @returns false when no screen had this id */
+    remove(id: string): Promise<boolean>;
+}
+
+// ============================================================================
+// Persistence
+// ============================================================================
+
+async function readScreenFile(filePath: string): Promise<ScreenFile> {
+    const raw = (await readJsonFile(filePath, "ScreenStore")) as Partial<ScreenFile> | null;
+    return { screens: Array.isArray(raw?.screens) ? raw.screens : [] };
+}
+
+const writeScreenFile = (filePath: string, file: ScreenFile) => writeJsonFile(filePath, file, true);
+
+/**
+ * Problems that stop a screen from being saved (empty when valid).
+ */
+export function validateScreenDefinition(definition: ScreenDefinition): string[] {
+    const errors: string[] = [];
+    if (!definition.name?.trim()) errors.push("name is required");
+    if (typeof definition.universe !== "string" || !definition.universe.trim()) errors.push("universe is required");
+    else if (definition.universe.toUpperCase() === "CUSTOM" && !definition.symbols?.length) errors.push("a custom universe needs symbols");
+    try {
+        parseScreenExpression(definition.expression ?? "");
+    } catch (error) {
+        errors.push(`expression: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return errors;
+}
+
+// ============================================================================
+// Store
+// ============================================================================
+
+export function createScreenStore(filePath: string): ScreenStore {
+    const enqueue = createWriteQueue();
+
+    return {
+        async list() {
+            const file = await readScreenFile(filePath);
+            return file.screens.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+        },
+
+        async get(id) {
+            const file = await readScreenFile(filePath);
+            return file.screens.find((s) => s.id === id) ?? null;
+        },
+
+        save(definition) {
+            const errors = validateScreenDefinition(definition);
+            if (errors.length > 0) {
+                return Promise.reject(new Error(`Invalid screen: ${errors.join("; ")}`));
+            }
+
+            return enqueue(async () => {
+                const file = await readScreenFile(filePath);
+                const now = new Date().toISOString();
+                const existing = definition.id ? file.screens.find((s) => s.id === definition.id) : undefined;
+
+                const id = existing?.id ?? `${slugify(definition.name, "screen")}-${Date.now().toString(36)}`;
+                const saved: SavedScreen = {
+                    id,
+                    name: definition.name.trim(),
+                    description: definition.description?.trim() || undefined,
+                    expression: definition.expression.trim(),
+                    universe: definition.universe.trim().toUpperCase(),
+                    symbols: definition.universe.toUpperCase() === "CUSTOM" ? definition.symbols : undefined,
+                    author: definition.author?.trim() || existing?.author,
+                    createdAt: existing?.createdAt ?? now,
+                    updatedAt: now,
+                };
+
+                file.screens = [...file.screens.filter((s) => s.id !== id), saved];
+                await writeScreenFile(filePath, file);
+                console.log(`[ScreenStore] Saved screen ${id}`);
+                return saved;
+            });
+        },
+
+        remove(id) {
+            return enqueue(async () => {
+                const file = await readScreenFile(filePath);
+                const remaining = file.screens.filter((s) => s.id !== id);
+                if (remaining.length === file.screens.length) return false;
+                await writeScreenFile(filePath, { screens: remaining });
+                return true;
+            });
+        },
+    };
+}
+
+let defaultStore: ScreenStore | null = null;
+
+/**
+ * Store at SCREEN_STORE_FILE (created once per server process).
+ */
+export function getScreenStore(): ScreenStore {
+    if (!defaultStore) {
+        defaultStore = createScreenStore(
+            path.resolve(process.cwd(), process.env.SCREEN_STORE_FILE || CUSTOM_SCREENER.STORE_FILE)
+        );
+    }
+    return defaultStore;
+}
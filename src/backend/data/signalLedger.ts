@@ -0,0 +1,194 @@
+/**
+ * Signal Ledger
+ *
+ * Records every BUY/SELL call the app emits (stock analysis, multi-timeframe
+ * confluence, scalping screener) so its forward performance can be measured
+ * later (see `backend/analysis/signalEvaluation`).
+ *
+ * Layout:
+ *   <file>  →  { signals: SignalRecord[] }   (newest first)
+ *
+ * The same call (source, symbol, mode, direction) is recorded once per
+ * SIGNAL_LEDGER.DEDUPE_MINUTES window, so refreshing a page does not stack
+ * copies. Only the newest SIGNAL_LEDGER.MAX_SIGNALS are kept.
+ *
+ * Override the location with SIGNAL_LEDGER_FILE (default: .data/signals.json).
+ *
+ * @module backend/data/signalLedger
+ */
+
+import path from "path";
+import { createWriteQueue, readJsonFile, writeJsonFile } from "@/backend/data/jsonFileStore";
+import { SIGNAL_LEDGER } from "@/shared/constants";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type SignalSource = "STOCK_API" | "MULTI_TIMEFRAME" | "SCALPING_SCREENER";
+
+export type SignalMode = "scalping" | "swing";
+
+export type SignalDirection = "BUY" | "SELL";
+
+export type SignalHorizon = "1h" | "1d" | "5d" | "20d";
+
+/** A call as emitted */
+export interface SignalInput {
+    source: SignalSource;
+    symbol: string;
+    mode: SignalMode;
+    direction: SignalDirection;
+    /** The emitter's own label, e.g. STRONG_BUY */
+    action: string;
+    price: number;
+    /** 0-100 */
+    confidence: number;
+    reasons: string[];
+    /** Indicators that voted for the call */
+    indicators: string[];
+    stopLoss: number | null;
+    target: number | null;
+}
+
+export interface SignalOutcome {
+    /** Return in the signal's direction at each horizon reached so far, % */
+    returns: Partial<Record<SignalHorizon, number>>;
+    /**
+     * Which level the price touched first; PENDING until one is touched or
+     * the 20-day horizon passes, null when the call had no stop and target
+     */
+    firstHit: "TARGET" | "STOP" | "NEITHER" | "PENDING" | null;
+    /** Nothing left to evaluate */
+    complete: boolean;
+    /** ISO timestamp of the last evaluation */
+    evaluatedAt: string | null;
+}
+
+export interface SignalRecord extends SignalInput {
+    id: string;
+    /** ISO timestamp */
+    emittedAt: string;
+    outcome: SignalOutcome;
+}
+
+interface LedgerFile {
+    signals: SignalRecord[];
+}
+
+export interface SignalLedger {
+    /** Newest first */
+    list(): Promise<SignalRecord[]>;
+    /** @returns null when the same call was recorded within the dedupe window */
+    record(input: SignalInput, now?: Date): Promise<SignalRecord | null>;
+    /** Record several calls in one write; @returns the ones not deduplicated */
+    recordMany(inputs: SignalInput[], now?: Date): Promise<SignalRecord[]>;
+    /** Replace the outcomes of the given signals */
+    updateOutcomes(outcomes: Map<string, SignalOutcome>): Promise<void>;
+}
+
+// ============================================================================
+// Persistence
+// ============================================================================
+
+async function readLedgerFile(filePath: string): Promise<LedgerFile> {
+    const raw = (await readJsonFile(filePath, "SignalLedger")) as Partial<LedgerFile> | null;
+    return { signals: Array.isArray(raw?.signals) ? raw.signals : [] };
+}
+
+const writeLedgerFile = (filePath: string, file: LedgerFile) => writeJsonFile(filePath, file);
+
+const dedupeMs = (mode: SignalMode) =>
+    (mode === "scalping" ? SIGNAL_LEDGER.DEDUPE_MINUTES.SCALPING : SIGNAL_LEDGER.DEDUPE_MINUTES.SWING) * 60_000;
+
+// ============================================================================
+// Store
+// ============================================================================
+
+export function createSignalLedger(filePath: string, maxSignals: number = SIGNAL_LEDGER.MAX_SIGNALS): SignalLedger {
+    // Strictly increasing, so two signals recorded in the same millisecond get distinct ids
+    let lastStamp = 0;
+
+    const enqueue = createWriteQueue();
+
+    const recordMany = (inputs: SignalInput[], now: Date = new Date()): Promise<SignalRecord[]> =>
+        enqueue(async () => {
+            const file = await readLedgerFile(filePath);
+            const recorded: SignalRecord[] = [];
+
+            for (const input of inputs) {
+                const symbol = input.symbol.toUpperCase().replace(".JK", "");
+                const duplicate = file.signals.some((s) =>
+                    s.source === input.source &&
+                    s.symbol === symbol &&
+                    s.mode === input.mode &&
+                    s.direction === input.direction &&
+                    now.getTime() - new Date(s.emittedAt).getTime() < dedupeMs(input.mode)
+                );
+                if (duplicate) continue;
+
+                lastStamp = Math.max(now.getTime(), lastStamp + 1);
+                const signal: SignalRecord = {
+                    ...input,
+                    symbol,
+                    id: `${symbol.toLowerCase()}-${lastStamp.toString(36)}`,
+                    emittedAt: now.toISOString(),
+                    outcome: {
+                        returns: {},
+                        firstHit: input.stopLoss !== null && input.target !== null ? "PENDING" : null,
+                        complete: false,
+                        evaluatedAt: null,
+                    },
+                };
+                file.signals.unshift(signal);
+                recorded.push(signal);
+            }
+
+            if (recorded.length === 0) return recorded;
+            file.signals = file.signals.slice(0, maxSignals);
+            await writeLedgerFile(filePath, file);
+            for (const signal of recorded) {
+                console.log(`[SignalLedger] Recorded ${signal.direction} ${signal.symbol} from ${signal.source}`);
+            }
+            return recorded;
+        });
+
+    return {
+        async list() {
+            return (await readLedgerFile(filePath)).signals;
+        },
+
+        async record(input, now = new Date()) {
+            const [signal] = await recordMany([input], now);
+            return signal ?? null;
+        },
+
+        recordMany,
+
+        updateOutcomes(outcomes) {
+            return enqueue(async () => {
+                if (outcomes.size === 0) return;
+                const file = await readLedgerFile(filePath);
+                file.signals = file.signals.map((s) => {
+                    const outcome = outcomes.get(s.id);
+                    return outcome ? { ...s, outcome } : s;
+                });
+                await writeLedgerFile(filePath, file);
+            });
+        },
+    };
+}
+
+let defaultLedger: SignalLedger | null = null;
+
+/**
+ * Ledger at SIGNAL_LEDGER_FILE (created once per server process).
+ */
+export function getSignalLedger(): SignalLedger {
+    if (!defaultLedger) {
+        defaultLedger = createSignalLedger(
+            path.resolve(process.cwd(), process.env.SIGNAL_LEDGER_FILE || SIGNAL_LEDGER.FILE)
+        );
+    }
+    return defaultLedger;
+}
@@ -0,0 +1,130 @@
+/**
+ * Saved Strategy Store
+ *
+ * Persists custom strategy specs in a single JSON file so the team can build
+ * a rule variant once and rerun it from the backtest page.
+ *
+ * Layout:
+ *   <file>  →  { strategies: SavedStrategy[] }
+ *
+ * Override the location with STRATEGY_STORE_FILE (default: .data/strategies.json).
+ *
+ * @module backend/data/strategyStore
+ */
+
+import path from "path";
+import { createWriteQueue, readJsonFile, slugify, writeJsonFile } from "@/backend/data/jsonFileStore";
+import { STRATEGY_STORE } from "@/shared/constants";
+import { isBuiltInStrategy, validateStrategySpec, type StrategySpec } from "@/shared/strategySpec";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SavedStrategy {
+    id: string;
+    spec: StrategySpec;
+    /** ISO timestamps */
+    createdAt: string;
+    updatedAt: string;
+}
+
+interface StrategyFile {
+    strategies: SavedStrategy[];
+}
+
+export interface StrategyStore {
+    list(): Promise<SavedStrategy[]>;
+    get(id: string): Promise<SavedStrategy | null>;
+    /**
+     * Insert or update (by `spec.id`) a strategy.
+     *
+     * @throws Error when the spec is invalid
+     */
+    save(spec: StrategySpec): Promise<SavedStrategy>;
+    /** @returns false when no strategy had this id */
+    remove(id: string): Promise<boolean>;
+}
+
+// ============================================================================
+// Persistence
+// ============================================================================
+
+async function readStrategyFile(filePath: string): Promise<StrategyFile> {
+    const raw = (await readJsonFile(filePath, "StrategyStore")) as Partial<StrategyFile> | null;
+    return { strategies: Array.isArray(raw?.strategies) ? raw.strategies : [] };
+}
+
+const writeStrategyFile = (filePath: string, file: StrategyFile) => writeJsonFile(filePath, file, true);
+
+// ============================================================================
+// Store
+// ============================================================================
+
+export function createStrategyStore(filePath: string): StrategyStore {
+    const enqueue = createWriteQueue();
+
+    return {
+        async list() {
+            const file = await readStrategyFile(filePath);
+            return file.strategies.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+        },
+
+        async get(id) {
+            const file = await readStrategyFile(filePath);
+            return file.strategies.find((s) => s.id === id) ?? null;
+        },
+
+        save(spec) {
+            const errors = validateStrategySpec(spec);
+            if (errors.length > 0) {
+                return Promise.reject(new Error(`Invalid strategy: ${errors.join("; ")}`));
+            }
+
+            return enqueue(async () => {
+                const file = await readStrategyFile(filePath);
+                const now = new Date().toISOString();
+                const existing = spec.id ? file.strategies.find((s) => s.id === spec.id) : undefined;
+
+                // Built-in ids are reserved; edits of a built-in are saved as a new strategy
+                const id = existing?.id
+                    ?? (spec.id && !isBuiltInStrategy(spec.id) ? spec.id : `${slugify(spec.name, "strategy")}-${Date.now().toString(36)}`);
+                const saved: SavedStrategy = {
+                    id,
+                    spec: { ...spec, id },
+                    createdAt: existing?.createdAt ?? now,
+                    updatedAt: now,
+                };
+
+                file.strategies = [...file.strategies.filter((s) => s.id !== id), saved];
+                await writeStrategyFile(filePath, file);
+                console.log(`[StrategyStore] Saved strategy ${id}`);
+                return saved;
+            });
+        },
+
+        remove(id) {
+            return enqueue(async () => {
+                const file = await readStrategyFile(filePath);
+                const remaining = file.strategies.filter((s) => s.id !== id);
+                if (remaining.length === file.strategies.length) return false;
+                await writeStrategyFile(filePath, { strategies: remaining });
+                return true;
+            });
+        },
+    };
+}
+
+let defaultStore: StrategyStore | null = null;
+
+/**
+ * Store at STRATEGY_STORE_FILE (created once per server process).
+ */
+export function getStrategyStore(): StrategyStore {
+    if (!defaultStore) {
+        defaultStore = createStrategyStore(
+            path.resolve(process.cwd(), process.env.STRATEGY_STORE_FILE || STRATEGY_STORE.FILE)
+        );
+    }
+    return defaultStore;
+}
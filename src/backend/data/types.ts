@@ -0,0 +1,130 @@
+/**
+ * Market Data Types
+ *
+ * Provider-agnostic shapes for quotes, candles, fundamentals and news.
+ * Field names follow the Yahoo Finance conventions the rest of the app
+ * already consumes, so swapping providers never touches call sites.
+ *
+ * @module backend/data/types
+ */
+
+// ============================================================================
+// Candles
+// ============================================================================
+
+export type ChartInterval =
+    | "1m"
+    | "2m"
+    | "5m"
+    | "15m"
+    | "30m"
+    | "60m"
+    | "1h"
+    | "1d"
+    | "1wk"
+    | "1mo";
+
+export interface HistoricalQuote {
+    date: Date;
+    open: number | null;
+    high: number | null;
+    low: number | null;
+    close: number | null;
+    volume: number | null;
+}
+
+export interface ChartOptions {
+    period1: Date;
+    period2?: Date;
+    interval: ChartInterval;
+}
+
+// ============================================================================
+// Quotes
+// ============================================================================
+
+export interface MarketQuote {
+    symbol: string;
+    regularMarketPrice?: number;
+    regularMarketChange?: number;
+    regularMarketChangePercent?: number;
+    regularMarketVolume?: number;
+    regularMarketOpen?: number;
+    regularMarketDayHigh?: number;
+    regularMarketDayLow?: number;
+    regularMarketPreviousClose?: number;
+    averageDailyVolume3Month?: number;
+    marketCap?: number;
+    trailingPE?: number;
+    priceToBook?: number;
+    bid?: number;
+    ask?: number;
+    tradeable?: boolean;
+    longName?: string;
+    shortName?: string;
+}
+
+// ============================================================================
+// Fundamentals
+// ============================================================================
+
+export type QuoteSummaryModule =
+    | "incomeStatementHistory"
+    | "financialData"
+    | "defaultKeyStatistics"
+    | "summaryProfile";
+
+export interface QuoteSummaryResult {
+    incomeStatementHistory?: {
+        incomeStatementHistory: {
+            endDate?: Date;
+            totalRevenue?: number;
+            netIncome?: number;
+        }[];
+    };
+    financialData?: {
+        profitMargins?: number;
+        revenueGrowth?: number;
+    };
+    defaultKeyStatistics?: Record<string, unknown>;
+    summaryProfile?: {
+        sector?: string;
+        industry?: string;
+    };
+}
+
+// ============================================================================
+// News & Screens
+// ============================================================================
+
+export interface MarketNewsItem {
+    title: string;
+    publisher: string;
+    link: string;
+    providerPublishTime?: Date;
+}
+
+export interface MarketSearchResult {
+    news: MarketNewsItem[];
+}
+
+// ============================================================================
+// Provider Contract
+// ============================================================================
+
+/**
+ * Contract every market data source implements.
+ *
+ * Symbols are passed exactly as the exchange/provider expects them
+ * (e.g. "BBCA.JK", "^JKSE", "USDIDR=X"); suffix handling stays with callers.
+ */
+export interface MarketDataProvider {
+    readonly name: string;
+    quote(symbol: string): Promise<MarketQuote>;
+    chart(symbol: string, options: ChartOptions): Promise<HistoricalQuote[]>;
+    quoteSummary(symbol: string, modules: QuoteSummaryModule[]): Promise<QuoteSummaryResult>;
+    search(query: string, options: { newsCount: number }): Promise<MarketSearchResult>;
+    dailyGainers(options: { count: number; region: string }): Promise<MarketQuote[]>;
+}
+
+export type MarketDataProviderName = "yahoo" | "fixture" | "record";
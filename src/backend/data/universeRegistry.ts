@@ -0,0 +1,406 @@
+/**
+ * Stock Universe Registry
+ *
+ * One place that answers "which symbols does universe X hold?" for every
+ * screener, replay and backtest. Universes are looked up by name:
+ *
+ * - LQ45, IDX30, IDX80, KOMPAS100   index constituents, versioned per review
+ *                                   (`LQ45@2025-02` pins a version)
+ * - BPJS, PENNY, SWING              curated lists the screeners started from
+ * - SECTOR:<slug>                   company-master names in an IDX-IC sector,
+ *                                   e.g. SECTOR:FINANCIALS
+ * - TRENDING                        today's gainers from the data provider
+ * - <custom id>                     lists saved by users (`universeStore`)
+ *
+ * Index and curated lists live in `universes/*.json`; a new index review is a
+ * new entry in that file's `versions`, so older replays can still ask for the
+ * list that was in force. The company master (`universes/companies.json`)
+ * holds names and IDX-IC sectors for symbol search and sector lookups. It is
+ * partial: every member of the index and curated lists plus other liquid
+ * names, not all ~950 listed companies. Sector universes only reach the
+ * companies it holds; `lookupCompany` asks the data provider for the rest.
+ *
+ * @module backend/data/universeRegistry
+ */
+
+import companiesFile from "./universes/companies.json";
+import bpjsFile from "./universes/bpjs.json";
+import idx30File from "./universes/idx30.json";
+import idx80File from "./universes/idx80.json";
+import kompas100File from "./universes/kompas100.json";
+import lq45File from "./universes/lq45.json";
+import pennyFile from "./universes/penny.json";
+import swingFile from "./universes/swing.json";
+import {
+    getUniverseStore,
+    type CustomUniverse,
+    type CustomUniverseDefinition,
+} from "@/backend/data/universeStore";
+import { UNIVERSES } from "@/shared/constants";
+import { IDX_SECTORS, findIdxSector, type IdxSector } from "@/shared/idxSectors";
+import { getJakartaDateKey } from "@/shared/marketClock";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ListedCompany {
+    symbol: string;
+    name: string;
+    sector: IdxSector;
+}
+
+/** A company found by symbol, in the master or through the market data provider */
+export interface CompanyLookup {
+    symbol: string;
+    name: string;
+    /** Null for companies outside the master: the provider has no IDX-IC sector */
+    sector: IdxSector | null;
+    source: "MASTER" | "PROVIDER";
+}
+
+export type UniverseKind = "INDEX" | "CURATED" | "SECTOR" | "DYNAMIC" | "CUSTOM";
+
+interface UniverseVersion {
+    version: string;
+    /** YYYY-MM-DD the list took effect */
+    effectiveFrom: string;
+    source?: string;
+    symbols?: string[];
+    /** Other universes (`ID` or `ID@version`) whose symbols come first */
+    include?: string[];
+}
+
+interface UniverseDataFile {
+    id: string;
+    name: string;
+    kind: "INDEX" | "CURATED";
+    description: string;
+    versions: UniverseVersion[];
+}
+
+interface CompanyDataFile {
+    version: string;
+    source: string;
+    companies: ListedCompany[];
+}
+
+/** One entry of the universe picker */
+export interface UniverseSummary {
+    id: string;
+    name: string;
+    kind: UniverseKind;
+    description: string;
+    /** Version in force (null for TRENDING) */
+    version: string | null;
+    effectiveFrom: string | null;
+    /** Every version, oldest first (index and curated lists only) */
+    versions: string[];
+    /** Null when it is only known at scan time */
+    size: number | null;
+}
+
+export interface ResolvedUniverse {
+    id: string;
+    name: string;
+    kind: UniverseKind;
+    version: string | null;
+    symbols: string[];
+}
+
+export interface ResolveUniverseOptions {
+    /** Pick the index version in force on this date (default: today) */
+    asOf?: Date | string;
+    /** Keep at most this many symbols (TRENDING asks the provider for this many; default 20) */
+    limit?: number;
+}
+
+// ============================================================================
+// Data
+// ============================================================================
+
+const COMPANY_MASTER = companiesFile as CompanyDataFile;
+
+const COMPANIES = new Map(COMPANY_MASTER.companies.map((c) => [c.symbol, c]));
+
+const BUILT_IN: UniverseDataFile[] = [
+    lq45File, idx30File, idx80File, kompas100File, bpjsFile, pennyFile, swingFile,
+].map((file) => file as UniverseDataFile);
+
+const TRENDING_ID = "TRENDING";
+
+/** Companies outside the master already found through the provider, by symbol */
+const PROVIDER_COMPANIES = new Map<string, CompanyLookup>();
+
+/** Names the screeners use for ad-hoc symbol lists; custom lists may not take them */
+const RESERVED_IDS = new Set([TRENDING_ID, "CUSTOM", "SECTOR"]);
+
+// ============================================================================
+// Companies
+// ============================================================================
+
+/**
+ * Company name and IDX-IC sector for a symbol (with or without ".JK").
+ */
+export function getCompany(symbol: string): ListedCompany | null {
+    return COMPANIES.get(symbol.trim().toUpperCase().replace(/\.JK$/, "")) ?? null;
+}
+
+/**
+ * The (partial) company master, sorted by symbol.
+ */
+export function listCompanies(): ListedCompany[] {
+    return [...COMPANY_MASTER.companies].sort((a, b) => a.symbol.localeCompare(b.symbol));
+}
+
+export function getCompanyMasterVersion(): string {
+    return COMPANY_MASTER.version;
+}
+
+/**
+ * Company for any listed symbol: the master entry when there is one, else the
+ * name the market data provider quotes for it. Provider hits are remembered
+ * for the life of the process.
+ *
+ * @returns null when the symbol is malformed or the provider does not know it
+ */
+export async function lookupCompany(symbol: string): Promise<CompanyLookup | null> {
+    const normalized = symbol.trim().toUpperCase().replace(/\.JK$/, "");
+    const listed = COMPANIES.get(normalized);
+    if (listed) return { ...listed, source: "MASTER" };
+    if (!/^[A-Z0-9]{4}$/.test(normalized)) return null;
+
+    const cached = PROVIDER_COMPANIES.get(normalized);
+    if (cached) return cached;
+
+    try {
+        const { getMarketDataProvider } = await import("@/backend/data/marketData");
+        const quote = await getMarketDataProvider().quote(`${normalized}.JK`);
+        const name = quote.longName ?? quote.shortName;
+        if (!name) return null;
+
+        const company: CompanyLookup = { symbol: normalized, name, sector: null, source: "PROVIDER" };
+        PROVIDER_COMPANIES.set(normalized, company);
+        return company;
+    } catch (error) {
+        console.warn(`[Universe] Company lookup failed for ${normalized}:`, error);
+        return null;
+    }
+}
+
+// ============================================================================
+// Built-in lists
+// ============================================================================
+
+function parseUniverseName(name: string): { id: string; version: string | null } {
+    const [id, version] = name.trim().toUpperCase().split("@");
+    return { id: id.trim(), version: version?.trim() || null };
+}
+
+/** Reviews take effect on the Jakarta date, so today is today in WIB */
+function toDateKey(asOf: Date | string | undefined): string {
+    if (typeof asOf === "string") return asOf ? asOf.slice(0, 10) : getJakartaDateKey(new Date());
+    return getJakartaDateKey(asOf ?? new Date());
+}
+
+/**
+ * The requested version, else the latest one in force on `asOf`
+ * (the oldest one when `asOf` predates them all).
+ */
+function pickVersion(file: UniverseDataFile, version: string | null, asOf: string): UniverseVersion {
+    if (version) {
+        const found = file.versions.find((v) => v.version.toUpperCase() === version);
+        if (!found) {
+            throw new Error(
+                `Universe ${file.id} has no version "${version}" (available: ${file.versions.map((v) => v.version).join(", ")})`
+            );
+        }
+        return found;
+    }
+    const byDate = [...file.versions].sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+    return byDate.filter((v) => v.effectiveFrom <= asOf).pop() ?? byDate[0];
+}
+
+function sectorSymbols(sector: IdxSector): string[] {
+    return listCompanies().filter((c) => c.sector === sector).map((c) => c.symbol);
+}
+
+function resolveStatic(name: string, asOf: string, seen: Set<string>): ResolvedUniverse | null {
+    const { id, version } = parseUniverseName(name);
+
+    if (id.startsWith("SECTOR:")) {
+        const sector = findIdxSector(id.slice("SECTOR:".length));
+        if (!sector) throw new Error(`Unknown sector "${id.slice("SECTOR:".length)}"`);
+        return {
+            id: `SECTOR:${sector.slug}`,
+            name: sector.name,
+            kind: "SECTOR",
+            version: COMPANY_MASTER.version,
+            symbols: sectorSymbols(sector.name),
+        };
+    }
+
+    const file = BUILT_IN.find((f) => f.id === id);
+    if (!file) return null;
+    if (seen.has(file.id)) throw new Error(`Universe ${file.id} includes itself`);
+
+    const picked = pickVersion(file, version, asOf);
+    const nested = new Set([...seen, file.id]);
+    const included = (picked.include ?? []).flatMap((inner) => resolveStatic(inner, asOf, nested)?.symbols ?? []);
+
+    return {
+        id: file.id,
+        name: file.name,
+        kind: file.kind,
+        version: picked.version,
+        symbols: Array.from(new Set([...included, ...(picked.symbols ?? [])])),
+    };
+}
+
+/**
+ * Symbols of an index, curated or sector universe, without touching the
+ * network or the custom list store.
+ *
+ * @throws Error for TRENDING, custom lists and unknown names
+ */
+export function getUniverseSymbols(name: string, asOf?: Date | string): string[] {
+    const resolved = resolveStatic(name, toDateKey(asOf), new Set());
+    if (!resolved) throw new Error(`Unknown built-in universe "${name}"`);
+    return resolved.symbols;
+}
+
+// ============================================================================
+// Trending
+// ============================================================================
+
+/**
+ * Today's gainers from the market data provider, falling back to the most
+ * liquid index names when the provider's screen is unavailable.
+ */
+export async function getTrendingSymbols(limit: number = 20): Promise<string[]> {
+    try {
+        const { getMarketDataProvider } = await import("@/backend/data/marketData");
+        const quotes = await getMarketDataProvider().dailyGainers({ count: limit, region: "ID" });
+        const symbols = quotes
+            .filter((q) => q.symbol.endsWith(".JK"))
+            .map((q) => q.symbol.replace(".JK", ""));
+
+        if (symbols.length > 5) return symbols.slice(0, limit);
+    } catch (error) {
+        console.warn("[Universe] Failed to fetch daily gainers, using the fallback list:", error);
+    }
+    return getUniverseSymbols(UNIVERSES.TRENDING_FALLBACK).slice(0, limit);
+}
+
+// ============================================================================
+// Lookup
+// ============================================================================
+
+/**
+ * Symbols of any universe by name (case-insensitive).
+ *
+ * @throws Error when the name (or the pinned version) is unknown
+ */
+export async function resolveUniverse(name: string, options: ResolveUniverseOptions = {}): Promise<ResolvedUniverse> {
+    const { id } = parseUniverseName(name);
+    const limit = options.limit ?? Infinity;
+
+    let resolved: ResolvedUniverse | null;
+    if (id === TRENDING_ID) {
+        resolved = {
+            id: TRENDING_ID,
+            name: "Trending",
+            kind: "DYNAMIC",
+            version: null,
+            symbols: await getTrendingSymbols(Number.isFinite(limit) ? limit : 20),
+        };
+    } else {
+        resolved = resolveStatic(name, toDateKey(options.asOf), new Set());
+    }
+
+    if (!resolved) {
+        const custom = await getUniverseStore().get(id);
+        if (!custom) throw new Error(`Unknown universe "${name}"`);
+        resolved = { id: custom.id, name: custom.name, kind: "CUSTOM", version: String(custom.version), symbols: custom.symbols };
+    }
+
+    return { ...resolved, symbols: resolved.symbols.slice(0, limit) };
+}
+
+/**
+ * Every universe a screener can scan: index lists, curated lists, IDX-IC
+ * sectors, TRENDING and the saved custom lists.
+ */
+export async function listUniverses(asOf?: Date | string): Promise<UniverseSummary[]> {
+    const dateKey = toDateKey(asOf);
+
+    const builtIn = BUILT_IN.map((file): UniverseSummary => {
+        const picked = pickVersion(file, null, dateKey);
+        return {
+            id: file.id,
+            name: file.name,
+            kind: file.kind,
+            description: file.description,
+            version: picked.version,
+            effectiveFrom: picked.effectiveFrom,
+            versions: file.versions.map((v) => v.version),
+            size: getUniverseSymbols(file.id, dateKey).length,
+        };
+    });
+
+    const sectors = IDX_SECTORS.map((sector): UniverseSummary => ({
+        id: `SECTOR:${sector.slug}`,
+        name: sector.name,
+        kind: "SECTOR",
+        description: `Company-master names in IDX-IC sector ${sector.code} (${sector.name})`,
+        version: COMPANY_MASTER.version,
+        effectiveFrom: null,
+        versions: [],
+        size: sectorSymbols(sector.name).length,
+    }));
+
+    const trending: UniverseSummary = {
+        id: TRENDING_ID,
+        name: "Trending",
+        kind: "DYNAMIC",
+        description: "Today's top gainers from the data provider",
+        version: null,
+        effectiveFrom: null,
+        versions: [],
+        size: null,
+    };
+
+    const custom = (await getUniverseStore().list()).map((u): UniverseSummary => ({
+        id: u.id,
+        name: u.name,
+        kind: "CUSTOM",
+        description: u.description ?? (u.author ? `Saved by ${u.author}` : "Custom list"),
+        version: String(u.version),
+        effectiveFrom: u.updatedAt.slice(0, 10),
+        versions: [],
+        size: u.symbols.length,
+    }));
+
+    return [...builtIn, ...sectors, trending, ...custom];
+}
+
+// ============================================================================
+// Custom lists
+// ============================================================================
+
+/**
+ * Save a user-defined list, refusing ids that belong to built-in universes.
+ *
+ * @throws Error when the list is invalid or its id is taken
+ */
+export async function saveCustomUniverse(definition: CustomUniverseDefinition): Promise<CustomUniverse> {
+    // Checked on the id the store derives, which may differ from `definition.id`
+    return getUniverseStore().save(definition, (id) => RESERVED_IDS.has(id) || BUILT_IN.some((f) => f.id === id));
+}
+
+/**
+ * @returns false when no custom list had this id
+ */
+export async function removeCustomUniverse(id: string): Promise<boolean> {
+    return getUniverseStore().remove(id);
+}
@@ -0,0 +1,190 @@
+/**
+ * Custom Universe Store
+ *
+ * Persists user-defined stock lists (watchlists, themes) in a single JSON
+ * file. Like saved screens, a list saved by one person shows up for the whole
+ * team and can be scanned by name from every screener.
+ *
+ * Layout:
+ *   <file>  →  { universes: CustomUniverse[] }
+ *
+ * Override the location with UNIVERSE_STORE_FILE (default: .data/universes.json).
+ *
+ * @module backend/data/universeStore
+ */
+
+import path from "path";
+import { createWriteQueue, readJsonFile, writeJsonFile } from "@/backend/data/jsonFileStore";
+import { UNIVERSES } from "@/shared/constants";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** What the list editor holds */
+export interface CustomUniverseDefinition {
+    /** Set to update an existing list */
+    id?: string;
+    name: string;
+    description?: string;
+    symbols: string[];
+    /** Who saved it (free text) */
+    author?: string;
+}
+
+export interface CustomUniverse extends CustomUniverseDefinition {
+    /** Upper-case slug of the first name, e.g. MY-WATCHLIST */
+    id: string;
+    /** Bumped on every save */
+    version: number;
+    /** ISO timestamps */
+    createdAt: string;
+    updatedAt: string;
+}
+
+interface UniverseFile {
+    universes: CustomUniverse[];
+}
+
+export interface UniverseStore {
+    /** Sorted by id */
+    list(): Promise<CustomUniverse[]>;
+    get(id: string): Promise<CustomUniverse | null>;
+    /**
+     * Insert or update (by `id`) a list.
+     *
+     * @param isReservedId Refuses ids other universes already answer to
+     * @throws Error when the name is missing, a symbol is malformed or a new
+     * list would take a reserved id or the id of an existing one
+     */
+    save(definition: CustomUniverseDefinition, isReservedId?: (id: string) => boolean): Promise<CustomUniverse>;
+    /** @returns false when no list had this id */
+    remove(id: string): Promise<boolean>;
+}
+
+// ============================================================================
+// Persistence
+// ============================================================================
+
+async function readUniverseFile(filePath: string): Promise<UniverseFile> {
+    const raw = (await readJsonFile(filePath, "UniverseStore")) as Partial<UniverseFile> | null;
+    return { universes: Array.isArray(raw?.universes) ? raw.universes : [] };
+}
+
+const writeUniverseFile = (filePath: string, file: UniverseFile) => writeJsonFile(filePath, file, true);
+
+/**
+ * List id for a name: "My watchlist" → "MY-WATCHLIST".
+ */
+export function customUniverseId(name: string): string {
+    return name.toUpperCase().replace(/[^A-Z0-9]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 40);
+}
+
+/**
+ * "bbri.jk " → "BBRI"; null when it cannot be an IDX ticker.
+ */
+export function normalizeUniverseSymbol(symbol: string): string | null {
+    const normalized = symbol.trim().toUpperCase().replace(/\.JK$/, "");
+    return /^[A-Z0-9]{2,6}$/.test(normalized) ? normalized : null;
+}
+
+/**
+ * Problems that stop a list from being saved (empty when valid).
+ */
+export function validateCustomUniverse(definition: CustomUniverseDefinition): string[] {
+    const errors: string[] = [];
+    if (!definition.name?.trim() || !customUniverseId(definition.name)) errors.push("name is required");
+    if (!Array.isArray(definition.symbols) || definition.symbols.length === 0) {
+        errors.push("at least one symbol is required");
+    } else {
+        const malformed = definition.symbols.filter((s) => typeof s !== "string" || normalizeUniverseSymbol(s) === null);
+        if (malformed.length > 0) errors.push(`malformed symbols: ${malformed.join(", ")}`);
+        if (definition.symbols.length > UNIVERSES.MAX_CUSTOM_SYMBOLS) {
+            errors.push(`at most ${UNIVERSES.MAX_CUSTOM_SYMBOLS} symbols`);
+        }
+    }
+    return errors;
+}
+
+// ============================================================================
+// Store
+// ============================================================================
+
+export function createUniverseStore(filePath: string): UniverseStore {
+    const enqueue = createWriteQueue();
+
+    return {
+        async list() {
+            const file = await readUniverseFile(filePath);
+            return file.universes.sort((a, b) => a.id.localeCompare(b.id));
+        },
+
+        async get(id) {
+            const file = await readUniverseFile(filePath);
+            return file.universes.find((u) => u.id === id.toUpperCase()) ?? null;
+        },
+
+        save(definition, isReservedId = () => false) {
+            const errors = validateCustomUniverse(definition);
+            if (errors.length > 0) {
+                return Promise.reject(new Error(`Invalid universe: ${errors.join("; ")}`));
+            }
+
+            return enqueue(async () => {
+                const file = await readUniverseFile(filePath);
+                const now = new Date().toISOString();
+                const existing = definition.id
+                    ? file.universes.find((u) => u.id === definition.id?.toUpperCase())
+                    : undefined;
+
+                const id = existing?.id ?? customUniverseId(definition.name);
+                if (isReservedId(id)) {
+                    throw new Error(`Invalid universe: ${id} is a built-in universe name`);
+                }
+                if (!existing && file.universes.some((u) => u.id === id)) {
+                    throw new Error(`Invalid universe: a list with id ${id} already exists`);
+                }
+
+                const saved: CustomUniverse = {
+                    id,
+                    name: definition.name.trim(),
+                    description: definition.description?.trim() || undefined,
+                    symbols: Array.from(new Set(definition.symbols.map((s) => normalizeUniverseSymbol(s) as string))),
+                    author: definition.author?.trim() || existing?.author,
+                    version: (existing?.version ?? 0) + 1,
+                    createdAt: existing?.createdAt ?? now,
+                    updatedAt: now,
+                };
+
+                file.universes = [...file.universes.filter((u) => u.id !== id), saved];
+                await writeUniverseFile(filePath, file);
+                console.log(`[UniverseStore] Saved universe ${id} v${saved.version} (${saved.symbols.length} symbols)`);
+                return saved;
+            });
+        },
+
+        remove(id) {
+            return enqueue(async () => {
+                const file = await readUniverseFile(filePath);
+                const remaining = file.universes.filter((u) => u.id !== id.toUpperCase());
+                if (remaining.length === file.universes.length) return false;
+                await writeUniverseFile(filePath, { universes: remaining });
+                return true;
+            });
+        },
+    };
+}
+
+let defaultStore: UniverseStore | null = null;
+
+/**
+ * Store at UNIVERSE_STORE_FILE (created once per server process).
+ */
+export function getUniverseStore(): UniverseStore {
+    if (!defaultStore) {
+        defaultStore = createUniverseStore(
+            path.resolve(process.cwd(), process.env.UNIVERSE_STORE_FILE || UNIVERSES.STORE_FILE)
+        );
+    }
+    return defaultStore;
+}
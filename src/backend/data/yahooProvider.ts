@@ -0,0 +1,86 @@
+/**
+ * Yahoo Finance Market Data Provider
+ *
+ * Thin adapter over yahoo-finance2 that maps its responses onto the
+ * provider-agnostic shapes in `./types`.
+ *
+ * @module backend/data/yahooProvider
+ */
+
+import YahooFinance from "yahoo-finance2";
+import type {
+    ChartOptions,
+    HistoricalQuote,
+    MarketDataProvider,
+    MarketNewsItem,
+    MarketQuote,
+    MarketSearchResult,
+    QuoteSummaryModule,
+    QuoteSummaryResult,
+} from "./types";
+
+interface YahooNewsItem {
+    title: string;
+    publisher: string;
+    link: string;
+    providerPublishTime?: number | Date;
+}
+
+function toNewsItem(item: YahooNewsItem): MarketNewsItem {
+    const publishTime = item.providerPublishTime;
+    return {
+        title: item.title,
+        publisher: item.publisher,
+        link: item.link,
+        providerPublishTime:
+            publishTime instanceof Date
+                ? publishTime
+                : typeof publishTime === "number"
+                    ? new Date(publishTime * 1000)
+                    : undefined,
+    };
+}
+
+export function createYahooProvider(): MarketDataProvider {
+    const yahooFinance = new YahooFinance();
+
+    return {
+        name: "yahoo",
+
+        async quote(symbol: string): Promise<MarketQuote> {
+            const result = await yahooFinance.quote(symbol);
+            return result as MarketQuote;
+        },
+
+        async chart(symbol: string, options: ChartOptions): Promise<HistoricalQuote[]> {
+            const result = await yahooFinance.chart(symbol, {
+                period1: options.period1,
+                period2: options.period2 ?? new Date(),
+                interval: options.interval,
+            });
+            return (result.quotes || []) as HistoricalQuote[];
+        },
+
+        async quoteSummary(symbol: string, modules: QuoteSummaryModule[]): Promise<QuoteSummaryResult> {
+            const result = await yahooFinance.quoteSummary(symbol, { modules });
+            return result as QuoteSummaryResult;
+        },
+
+        async search(query: string, options: { newsCount: number }): Promise<MarketSearchResult> {
+            const result = await yahooFinance.search(query, { newsCount: options.newsCount });
+            const news = (result.news || []) as YahooNewsItem[];
+            return { news: news.map(toNewsItem) };
+        },
+
+        async dailyGainers(options: { count: number; region: string }): Promise<MarketQuote[]> {
+            // The standalone dailyGainers module is deprecated upstream; the
+            // predefined "day_gainers" screen returns the same list.
+            const result = await yahooFinance.screener({
+                scrIds: "day_gainers",
+                count: options.count,
+                region: options.region,
+            });
+            return (result.quotes || []) as MarketQuote[];
+        },
+    };
+}
@@ -90,7 +90,7 @@ export default function AnalysisSidebar({
                 {/* Fundamentals / Calculator Tab */}
                 <div className={`absolute inset-0 transition-opacity duration-300 overflow-auto ${activeTab === "fundamentals" ? "opacity-100 z-10" : "opacity-0 pointer-events-none"}`}>
                     {tradingMode === 'SCALPING' ? (
-                        <ScalpingCalculator currentPrice={stockData?.price || 0} />
+                        <ScalpingCalculator currentPrice={stockData?.price || 0} previousClose={stockData?.previousClose} />
                     ) : (
                         // Swing Mode: Fundamentals Content
                         stockData ? (
@@ -141,6 +141,15 @@ export function BPJSCandidateCard({ result }: Props) {
                     </div>
                 </div>
 
+                {/* Auto Rejection Warnings */}
+                {aiAnalysis.strategy.limitWarnings?.length > 0 && (
+                    <div className="p-3 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg">
+                        {aiAnalysis.strategy.limitWarnings.map((warning: string, idx: number) => (
+                            <p key={idx} className="text-xs text-yellow-700 dark:text-yellow-400">⚠️ {warning}</p>
+                        ))}
+                    </div>
+                )}
+
                 {/* Risks */}
                 <div>
                     <p className="text-sm font-semibold text-red-600 mb-2">⚠️ Risiko:</p>
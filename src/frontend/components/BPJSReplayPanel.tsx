@@ -0,0 +1,238 @@
+"use client";
+
+import React, { useState } from "react";
+import { toast } from "sonner";
+import { RefreshCw, Sunrise } from "lucide-react";
+import { executeBPJSReplay } from "@/app/backtest/actions";
+import type { BPJSReplayResult, BreakdownComponent, ReplayPortfolioPoint } from "@/lib/bpjs/replay";
+import type { ExecutionModel } from "@/shared/executionModel";
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+interface BPJSReplayPanelProps {
+    execution: ExecutionModel;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const INPUT_CLASS = "w-full bg-background/50 border border-border/20 rounded-md px-2 py-1.5 text-xs text-white focus:border-primary outline-none disabled:opacity-50";
+const LABEL_CLASS = "text-[10px] font-bold uppercase text-muted-foreground tracking-wider block mb-1";
+
+const formatPercent = (value: number) => `${value >= 0 ? "+" : ""}${value.toFixed(2)}%`;
+
+const COMPONENT_LABELS: Record<BreakdownComponent, string> = {
+    gapPerformance: "Gap (0-20)",
+    volumeSurge: "Volume surge (0-20)",
+    rsiPosition: "RSI (0-15)",
+    macdSignal: "MACD (0-15)",
+    bollingerPosition: "Bollinger (0-10)",
+    emaTrend: "EMA trend (0-10)",
+    newsSentiment: "News (0-5)",
+    sectorMomentum: "Sector (0-5)",
+    candlestickPattern: "Candles (-5 to +5)",
+};
+
+// ============================================================================
+// Sub-components
+// ============================================================================
+
+function EquityLine({ points }: { points: ReplayPortfolioPoint[] }) {
+    if (points.length < 2) return null;
+
+    const width = 800;
+    const height = 120;
+    const padding = 10;
+    const values = points.map((p) => p.equity);
+    const min = Math.min(...values);
+    const range = Math.max(...values) - min || 1;
+    const line = points
+        .map((p, i) => `${padding + (i / (points.length - 1)) * (width - 2 * padding)},${height - padding - ((p.equity - min) / range) * (height - 2 * padding)}`)
+        .join(" ");
+
+    return (
+        <div className="w-full">
+            <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-[120px] overflow-visible">
+                <polyline points={line} fill="none" stroke={values[values.length - 1] >= values[0] ? "#22c55e" : "#ef4444"} strokeWidth="2" strokeLinejoin="round" />
+            </svg>
+            <div className="flex justify-between text-[10px] text-muted-foreground px-2 font-mono">
+                <span>{points[0].date}</span>
+                <span>{points[points.length - 1].date}</span>
+            </div>
+        </div>
+    );
+}
+
+function Stat({ label, value, tone }: { label: string; value: string; tone?: "up" | "down" }) {
+    const color = tone === "up" ? "text-green-400" : tone === "down" ? "text-red-400" : "text-white";
+    return (
+        <div className="bg-background/40 rounded-lg p-3">
+            <span className={LABEL_CLASS}>{label}</span>
+            <span className={`font-mono font-bold ${color}`}>{value}</span>
+        </div>
+    );
+}
+
+// ============================================================================
+// Main Component
+// ============================================================================
+
+/**
+ * Historical replay of the BPJS score: does a higher morning score make a
+ * better open → close trade, and which components carry the edge?
+ */
+export function BPJSReplayPanel({ execution }: BPJSReplayPanelProps) {
+    const [days, setDays] = useState(120);
+    const [topN, setTopN] = useState(5);
+    const [minScore, setMinScore] = useState(50);
+    const [universeSize, setUniverseSize] = useState(50);
+    const [result, setResult] = useState<BPJSReplayResult | null>(null);
+    const [isRunning, setIsRunning] = useState(false);
+
+    const handleRun = async () => {
+        setIsRunning(true);
+        const loadingToast = toast.loading(`Replaying BPJS scores for ${universeSize} stocks over ${days} days...`);
+        try {
+            setResult(await executeBPJSReplay({ days, topN, minScore, universeSize, execution }));
+            toast.success("BPJS replay completed", { id: loadingToast });
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : "BPJS replay failed", { id: loadingToast });
+        } finally {
+            setIsRunning(false);
+        }
+    };
+
+    const numberInput = (label: string, value: number, onChange: (value: number) => void, step = 1) => (
+        <div>
+            <label className={LABEL_CLASS}>{label}</label>
+            <input type="number" className={INPUT_CLASS} value={value} step={step} min={0} onChange={(e) => onChange(Number(e.target.value))} disabled={isRunning} />
+        </div>
+    );
+
+    const maxBucketReturn = result ? Math.max(...result.buckets.map((b) => Math.abs(b.averageReturn)), 0.01) : 1;
+
+    return (
+        <div className="bg-background/30 border border-border/10 rounded-xl p-6 shadow-lg backdrop-blur-sm space-y-6">
+            <h2 className="text-lg font-semibold flex items-center gap-2 text-white">
+                <Sunrise className="w-4 h-4 text-primary" /> BPJS Score Replay
+            </h2>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                <div className="space-y-2">
+                    <label className={LABEL_CLASS}>History</label>
+                    <select className={INPUT_CLASS} value={days} onChange={(e) => setDays(Number(e.target.value))} disabled={isRunning}>
+                        <option value={60}>Last 60 Days</option>
+                        <option value={120}>Last 120 Days</option>
+                        <option value={250}>Last 250 Days</option>
+                    </select>
+                    <label className={LABEL_CLASS}>Universe</label>
+                    <select className={INPUT_CLASS} value={universeSize} onChange={(e) => setUniverseSize(Number(e.target.value))} disabled={isRunning}>
+                        <option value={10}>Top 10 BPJS stocks</option>
+                        <option value={25}>Top 25 BPJS stocks</option>
+                        <option value={50}>All 50 BPJS stocks</option>
+                    </select>
+                </div>
+
+                <div className="grid grid-cols-2 gap-2 content-start">
+                    {numberInput("Picks / day", topN, setTopN)}
+                    {numberInput("Min score", minScore, setMinScore, 5)}
+                    <p className="col-span-2 text-[10px] text-muted-foreground">
+                        Every stock is re-scored each morning from the data known at the open and traded open → close.
+                        The highest scores at or above the minimum form the daily picks.
+                    </p>
+                </div>
+
+                <div className="flex flex-col justify-end">
+                    <button
+                        type="button"
+                        onClick={handleRun}
+                        disabled={isRunning}
+                        className="w-full text-xs font-medium bg-primary/20 hover:bg-primary/30 text-primary rounded-md py-2 flex items-center justify-center gap-1 disabled:opacity-50"
+                    >
+                        {isRunning ? <RefreshCw className="w-3 h-3 animate-spin" /> : <Sunrise className="w-3 h-3" />}
+                        {isRunning ? "Replaying..." : "Replay BPJS Scores"}
+                    </button>
+                </div>
+            </div>
+
+            {result && (
+                <div className="space-y-4 border-t border-white/10 pt-4 animate-in fade-in">
+                    <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+                        <Stat label="Picks return" value={formatPercent(result.portfolio.totalReturn)} tone={result.portfolio.totalReturn >= 0 ? "up" : "down"} />
+                        <Stat label="Picks hit rate" value={`${result.portfolio.hitRate.toFixed(1)}%`} />
+                        <Stat label="Avg pick return" value={formatPercent(result.portfolio.averageReturn)} tone={result.portfolio.averageReturn >= 0 ? "up" : "down"} />
+                        <Stat label="Stock-days scored" value={result.samples.toLocaleString("id-ID")} />
+                        <Stat label="Trading days" value={String(result.tradingDays)} />
+                    </div>
+
+                    <p className="text-xs text-muted-foreground font-mono">
+                        {result.period.start} — {result.period.end} · {result.symbols.length} symbols · {result.portfolio.trades.length} picks
+                        {result.refusedEntries > 0 && ` · ${result.refusedEntries} opens locked at ARA`}
+                    </p>
+                    <p className="text-[10px] text-muted-foreground">Execution: {result.execution.description}</p>
+
+                    <EquityLine points={result.portfolio.equityCurve} />
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-xs">
+                        <div className="space-y-1">
+                            <span className={LABEL_CLASS}>By score bucket (all scored stock-days)</span>
+                            <table className="w-full font-mono">
+                                <thead className="text-muted-foreground text-[10px] text-left">
+                                    <tr><th>Score</th><th>Samples</th><th>Hit rate</th><th>Avg return</th><th></th></tr>
+                                </thead>
+                                <tbody className="text-white">
+                                    {result.buckets.map((b) => (
+                                        <tr key={b.label} className="border-t border-white/5">
+                                            <td className="py-1">{b.label}</td>
+                                            <td>{b.samples}</td>
+                                            <td>{b.samples > 0 ? `${b.hitRate.toFixed(0)}%` : "—"}</td>
+                                            <td className={b.averageReturn >= 0 ? "text-green-400" : "text-red-400"}>{b.samples > 0 ? formatPercent(b.averageReturn) : "—"}</td>
+                                            <td className="w-1/4">
+                                                <div
+                                                    className={`h-2 rounded ${b.averageReturn >= 0 ? "bg-green-500/60" : "bg-red-500/60"}`}
+                                                    style={{ width: `${(Math.abs(b.averageReturn) / maxBucketReturn) * 100}%` }}
+                                                />
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+
+                        <div className="space-y-1">
+                            <span className={LABEL_CLASS}>By component (points → hit rate / avg return)</span>
+                            <table className="w-full font-mono">
+                                <thead className="text-muted-foreground text-[10px] text-left">
+                                    <tr><th>Component</th><th>Corr.</th><th>Levels</th></tr>
+                                </thead>
+                                <tbody className="text-white">
+                                    {result.components.map((c) => (
+                                        <tr key={c.component} className="border-t border-white/5 align-top">
+                                            <td className="py-1 pr-2">{COMPONENT_LABELS[c.component]}</td>
+                                            <td className={c.correlation >= 0 ? "text-green-400" : "text-red-400"}>{c.correlation.toFixed(2)}</td>
+                                            <td className="text-[10px] text-muted-foreground">
+                                                {c.levels.map((l) => `${l.points}: ${l.hitRate.toFixed(0)}% / ${formatPercent(l.averageReturn)} (${l.samples})`).join(" · ")}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    </div>
+
+                    <ul className="text-[10px] text-muted-foreground list-disc pl-4">
+                        {result.assumptions.map((a) => <li key={a}>{a}</li>)}
+                    </ul>
+                    {result.skipped.length > 0 && (
+                        <p className="text-[10px] text-yellow-500/70">
+                            Skipped: {result.skipped.map((s) => `${s.symbol} (${s.reason})`).join(", ")}
+                        </p>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -1,54 +1,67 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { scanProgressPercent, type ScanProgress } from '@/shared/scanStream';
 
-export function BPJSScanProgress() {
-    const [progress, setProgress] = useState(0);
-
-    useEffect(() => {
-        const interval = setInterval(() => {
-            setProgress((prev) => {
-                if (prev >= 95) return 95;
-                return prev + 5;
-            });
-        }, 200);
+interface BPJSScanProgressProps {
+    progress: ScanProgress;
+    onCancel: () => void;
+    /** Part of the bar for AI analysis (BPJS only) */
+    analysisShare?: number;
+    title?: string;
+}
 
-        return () => clearInterval(interval);
-    }, []);
+export function BPJSScanProgress({ progress, onCancel, analysisShare = 0.3, title = '🔍 Scanning BPJS Candidates...' }: BPJSScanProgressProps) {
+    const percent = scanProgressPercent(progress, analysisShare);
+    const stage = progress.total === 0
+        ? 'Preparing scan...'
+        : progress.phase === 'analysis'
+            ? `AI analysis: ${progress.completed}/${progress.total} candidates`
+            : `Scoring: ${progress.completed}/${progress.total} stocks`;
 
     return (
         <div className="bg-white dark:bg-gray-800 rounded-xl p-6 shadow-lg border border-gray-200 dark:border-gray-700">
             <div className="text-center mb-4">
-                <p className="text-lg font-semibold mb-2">🔍 Scanning BPJS Candidates...</p>
-                <p className="text-sm text-gray-600 dark:text-gray-400">
-                    Analyzing technical indicators and generating AI recommendations
-                </p>
+                <p className="text-lg font-semibold mb-2">{title}</p>
+                <p className="text-sm text-gray-600 dark:text-gray-400">{stage}</p>
             </div>
 
             <div className="relative pt-1">
                 <div className="flex mb-2 items-center justify-between">
                     <div>
                         <span className="text-xs font-semibold inline-block text-blue-600">
-                            Progress
+                            {progress.scored} passed • {progress.rejected} rejected
+                            {analysisShare > 0 && ` • ${progress.analyzed} analyzed`}
                         </span>
                     </div>
                     <div className="text-right">
                         <span className="text-xs font-semibold inline-block text-blue-600">
-                            {progress}%
+                            {percent}%
                         </span>
                     </div>
                 </div>
                 <div className="overflow-hidden h-3 mb-4 text-xs flex rounded-full bg-gray-200 dark:bg-gray-700">
                     <div
-                        style={{ width: `${progress}%` }}
+                        style={{ width: `${percent}%` }}
                         className="shadow-none flex flex-col text-center whitespace-nowrap text-white justify-center bg-gradient-to-r from-blue-500 to-purple-600 transition-all duration-300"
                     />
                 </div>
             </div>
 
-            <div className="flex items-center justify-center gap-2 text-sm text-gray-600 dark:text-gray-400">
-                <div className="animate-pulse">⚡</div>
-                <p>Estimated time: {Math.ceil((100 - progress) / 10)} seconds</p>
+            {progress.log.length > 0 && (
+                <ul className="text-xs font-mono text-gray-600 dark:text-gray-400 space-y-0.5 mb-4">
+                    {progress.log.map((line, i) => (
+                        <li key={`${i}-${line}`} className={i === 0 ? 'text-gray-900 dark:text-gray-200' : ''}>{line}</li>
+                    ))}
+                </ul>
+            )}
+
+            <div className="flex items-center justify-center">
+                <button
+                    onClick={onCancel}
+                    className="text-sm px-4 py-1.5 rounded-lg border border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                >
+                    Cancel scan
+                </button>
             </div>
         </div>
     );
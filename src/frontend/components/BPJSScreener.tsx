@@ -1,9 +1,12 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { BPJSCandidateCard } from './BPJSCandidateCard';
 import { BPJSScanProgress } from './BPJSScanProgress';
 import { toast } from 'sonner';
+import { getMarketStatus, type MarketStatus } from '@/shared/marketClock';
+import { fetchScanStream, initialScanProgress, reduceScanProgress } from '@/shared/scanStream';
+import { UniverseSelect } from './UniverseSelect';
 
 interface ScanResult {
     rank: number;
@@ -11,6 +14,17 @@ interface ScanResult {
     aiAnalysis: any;
 }
 
+interface ScanResponse {
+    success: boolean;
+    timestamp: string;
+    scanDuration: number;
+    stocksScanned: number;
+    candidatesFound: number;
+    results: ScanResult[];
+    timingNote?: string;
+    error?: string;
+}
+
 export function BPJSScreener() {
     const [isScanning, setIsScanning] = useState(false);
     const [results, setResults] = useState<ScanResult[]>([]);
@@ -21,24 +35,50 @@ export function BPJSScreener() {
         candidatesFound: 0,
     });
     const [error, setError] = useState('');
+    const [timingNote, setTimingNote] = useState('');
+    const [progress, setProgress] = useState(initialScanProgress);
+    const [universe, setUniverse] = useState('BPJS');
+    const abortRef = useRef<AbortController | null>(null);
+    // Read the clock after mount so the server render cannot disagree with the client's
+    const [market, setMarket] = useState<MarketStatus | null>(null);
+
+    useEffect(() => {
+        const update = () => setMarket(getMarketStatus());
+        update();
+        const timer = setInterval(update, 60_000);
+        return () => clearInterval(timer);
+    }, []);
+
+    // Stop a running scan when leaving the screener
+    useEffect(() => () => abortRef.current?.abort(), []);
 
     const handleScan = async () => {
+        const controller = new AbortController();
+        abortRef.current = controller;
         setIsScanning(true);
         setError('');
+        setResults([]);
+        setProgress(initialScanProgress());
 
         try {
-            const response = await fetch('/api/screener/bpjs/scan', {
+            const data = await fetchScanStream<ScanResult, ScanResponse>('/api/screener/bpjs/scan', {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({
-                    universeSize: 50,
+                    universe,
+                    universeSize: 100,
                     minScore: 60,
                     maxResults: 10,
                 }),
+                signal: controller.signal,
+            }, (event) => {
+                setProgress((prev) => reduceScanProgress(prev, event));
+                if (event.type === 'candidate') {
+                    // Show each candidate as soon as its AI analysis is in
+                    setResults((prev) => [...prev, event.result].sort((a, b) => a.rank - b.rank));
+                }
             });
 
-            const data = await response.json();
-
             if (data.success) {
                 setResults(data.results);
                 setScanInfo({
@@ -47,6 +87,7 @@ export function BPJSScreener() {
                     stocksScanned: data.stocksScanned,
                     candidatesFound: data.candidatesFound,
                 });
+                setTimingNote(data.timingNote || '');
 
                 toast.success(`Scan selesai! ${data.candidatesFound} kandidat ditemukan`, {
                     description: `Waktu scan: ${(data.scanDuration / 1000).toFixed(1)} detik`,
@@ -58,6 +99,10 @@ export function BPJSScreener() {
                 });
             }
         } catch (err) {
+            if (controller.signal.aborted) {
+                toast.info('Scan dibatalkan');
+                return;
+            }
             const errorMsg = err instanceof Error ? err.message : 'Network error';
             setError(errorMsg);
             toast.error('Error', {
@@ -83,11 +128,13 @@ export function BPJSScreener() {
                 <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
                     <div>
                         <p className="text-sm text-gray-600 dark:text-gray-400">Market Status</p>
-                        <p className="text-lg font-semibold text-green-600">OPEN</p>
+                        <p className={`text-lg font-semibold ${market?.isContinuousTrading ? 'text-green-600' : market?.isActive ? 'text-yellow-600' : 'text-gray-500'}`}>
+                            {market ? market.label.toUpperCase() : '-'}
+                        </p>
                     </div>
                     <div>
                         <p className="text-sm text-gray-600 dark:text-gray-400">Waktu Saat Ini</p>
-                        <p className="text-lg font-semibold">{new Date().toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' })} WIB</p>
+                        <p className="text-lg font-semibold">{market ? `${market.jakartaTime} WIB` : '-'}</p>
                     </div>
                     <div>
                         <p className="text-sm text-gray-600 dark:text-gray-400">Last Scan</p>
@@ -103,6 +150,20 @@ export function BPJSScreener() {
                     </div>
                 </div>
 
+                {timingNote && (
+                    <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">⏰ {timingNote}</p>
+                )}
+
+                <div className="mb-4">
+                    <label className="block text-sm text-gray-600 dark:text-gray-400 mb-1">Universe</label>
+                    <UniverseSelect
+                        className="w-full rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 px-3 py-2 text-sm"
+                        value={universe}
+                        onChange={setUniverse}
+                        disabled={isScanning}
+                    />
+                </div>
+
                 <button
                     onClick={handleScan}
                     disabled={isScanning}
@@ -120,15 +181,17 @@ export function BPJSScreener() {
             )}
 
             {/* Scanning Progress */}
-            {isScanning && <BPJSScanProgress />}
+            {isScanning && <BPJSScanProgress progress={progress} onCancel={() => abortRef.current?.abort()} />}
 
-            {/* Results */}
-            {!isScanning && results.length > 0 && (
+            {/* Results (filled in as candidates arrive) */}
+            {results.length > 0 && (
                 <div className="space-y-4">
                     <div className="flex items-center justify-between">
                         <h3 className="text-xl font-bold">🏆 TOP {results.length} BPJS CANDIDATES</h3>
                         <p className="text-sm text-gray-600 dark:text-gray-400">
-                            Sorted by Score • Scan time: {(scanInfo.duration / 1000).toFixed(1)}s
+                            {isScanning
+                                ? 'Sorted by Score • more candidates on the way...'
+                                : `Sorted by Score • Scan time: ${(scanInfo.duration / 1000).toFixed(1)}s`}
                         </p>
                     </div>
 
@@ -0,0 +1,273 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Download, Eye, GitCompare, History, Trash2 } from "lucide-react";
+import { deleteBacktestRun, exportBacktestRun, getBacktestRun, listBacktestRuns } from "@/app/backtest/actions";
+import type { BacktestResult } from "@/backend/analysis/backtesting";
+import type { BacktestRun, BacktestRunSummary } from "@/backend/data/runHistoryStore";
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+interface BacktestHistoryPanelProps {
+    /** Bumped after every new run so the list reloads */
+    refreshKey: number;
+    /** Show a saved run in the main results view */
+    onOpen: (result: BacktestResult) => void;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const LABEL_CLASS = "text-[10px] font-bold uppercase text-muted-foreground tracking-wider block mb-1";
+
+const formatPercent = (value: number) => `${value >= 0 ? "+" : ""}${value.toFixed(2)}%`;
+
+const formatRunDate = (iso: string) =>
+    new Date(iso).toLocaleString("id-ID", { dateStyle: "short", timeStyle: "short", timeZone: "Asia/Jakarta" });
+
+/** One color per compared run */
+const RUN_COLORS = ["#3b82f6", "#f59e0b", "#22c55e", "#ec4899", "#a855f7", "#14b8a6"];
+
+const MAX_COMPARED = RUN_COLORS.length;
+
+function downloadFile(filename: string, content: string, type: string) {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+// ============================================================================
+// Sub-components
+// ============================================================================
+
+/**
+ * Equity curves of several runs as % return, each stretched over the full
+ * width so runs of different lengths or bar sizes line up start to end.
+ */
+function ComparisonChart({ runs }: { runs: BacktestRun[] }) {
+    const width = 800;
+    const height = 220;
+    const padding = 20;
+
+    const series = runs.map((run) => {
+        const curve = run.result.equityCurve;
+        const start = curve[0]?.equity || 1;
+        return curve.map((p) => ((p.equity - start) / start) * 100);
+    });
+    const values = series.flat().concat(0);
+    const min = Math.min(...values);
+    const range = Math.max(...values) - min || 1;
+    const y = (value: number) => height - padding - ((value - min) / range) * (height - 2 * padding);
+
+    return (
+        <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-[220px] overflow-visible">
+            <line x1={padding} y1={y(0)} x2={width - padding} y2={y(0)} stroke="currentColor" strokeOpacity="0.2" strokeDasharray="4" />
+            {series.map((points, r) => points.length > 1 && (
+                <polyline
+                    key={runs[r].id}
+                    points={points.map((v, i) => `${padding + (i / (points.length - 1)) * (width - 2 * padding)},${y(v)}`).join(" ")}
+                    fill="none"
+                    stroke={RUN_COLORS[r % RUN_COLORS.length]}
+                    strokeWidth="2"
+                    strokeLinejoin="round"
+                />
+            ))}
+        </svg>
+    );
+}
+
+function ComparisonTable({ runs }: { runs: BacktestRun[] }) {
+    const rows: { label: string; value: (r: BacktestResult) => string }[] = [
+        { label: "Period", value: (r) => `${r.period.start} — ${r.period.end}` },
+        { label: "Execution", value: (r) => r.execution.model.name },
+        { label: "Parameters", value: (r) => Object.entries(r.spec.parameters ?? {}).map(([k, v]) => `${k}=${v}`).join(" ") || "—" },
+        { label: "Total Return", value: (r) => formatPercent(r.totalReturn) },
+        { label: "Buy & Hold", value: (r) => formatPercent(r.buyAndHoldReturn) },
+        { label: "Win Rate", value: (r) => `${r.winRate.toFixed(1)}%` },
+        { label: "Profit Factor", value: (r) => (Number.isFinite(r.profitFactor) ? r.profitFactor.toFixed(2) : "∞") },
+        { label: "Max Drawdown", value: (r) => `-${r.maxDrawdown.toFixed(2)}%` },
+        { label: "Sharpe Ratio", value: (r) => r.sharpeRatio.toFixed(2) },
+        { label: "Trades", value: (r) => String(r.totalTrades) },
+    ];
+
+    return (
+        <div className="overflow-x-auto">
+            <table className="w-full text-xs font-mono">
+                <thead className="text-left text-[10px]">
+                    <tr>
+                        <th></th>
+                        {runs.map((run, i) => (
+                            <th key={run.id} className="pb-1 pr-4" style={{ color: RUN_COLORS[i % RUN_COLORS.length] }}>
+                                {run.result.strategy} · {run.result.symbol} ({run.interval}, {run.days}d)
+                            </th>
+                        ))}
+                    </tr>
+                </thead>
+                <tbody className="text-white">
+                    {rows.map((row) => (
+                        <tr key={row.label} className="border-t border-white/5">
+                            <td className="py-1 pr-4 text-muted-foreground">{row.label}</td>
+                            {runs.map((run) => <td key={run.id} className="pr-4">{row.value(run.result)}</td>)}
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+}
+
+// ============================================================================
+// Main Component
+// ============================================================================
+
+/**
+ * Saved backtest runs: reopen, export, delete, or tick two or more to
+ * compare their metrics and equity curves side by side.
+ */
+export function BacktestHistoryPanel({ refreshKey, onOpen }: BacktestHistoryPanelProps) {
+    const [runs, setRuns] = useState<BacktestRunSummary[]>([]);
+    const [selected, setSelected] = useState<string[]>([]);
+    const [compared, setCompared] = useState<BacktestRun[]>([]);
+    const [isComparing, setIsComparing] = useState(false);
+
+    useEffect(() => {
+        listBacktestRuns()
+            .then(setRuns)
+            .catch((err) => console.error("Failed to load backtest history:", err));
+    }, [refreshKey]);
+
+    const toggle = (id: string) => {
+        setSelected((prev) => {
+            if (prev.includes(id)) return prev.filter((s) => s !== id);
+            if (prev.length >= MAX_COMPARED) {
+                toast.error(`Compare up to ${MAX_COMPARED} runs at a time`);
+                return prev;
+            }
+            return [...prev, id];
+        });
+    };
+
+    const loadRun = async (id: string): Promise<BacktestRun> => {
+        const run = await getBacktestRun(id);
+        if (!run) throw new Error("Run no longer exists");
+        return run;
+    };
+
+    const handleOpen = async (id: string) => {
+        try {
+            onOpen((await loadRun(id)).result);
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : "Failed to open run");
+        }
+    };
+
+    const handleCompare = async () => {
+        setIsComparing(true);
+        try {
+            setCompared(await Promise.all(selected.map(loadRun)));
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : "Failed to load runs");
+        } finally {
+            setIsComparing(false);
+        }
+    };
+
+    const handleExport = async (id: string, format: "csv" | "json") => {
+        try {
+            const file = await exportBacktestRun(id, format);
+            if (!file) throw new Error("Run no longer exists");
+            downloadFile(file.filename, file.content, format === "csv" ? "text/csv" : "application/json");
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : "Export failed");
+        }
+    };
+
+    const handleDelete = async (id: string) => {
+        try {
+            await deleteBacktestRun(id);
+            setRuns((prev) => prev.filter((r) => r.id !== id));
+            setSelected((prev) => prev.filter((s) => s !== id));
+            setCompared((prev) => prev.filter((r) => r.id !== id));
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : "Failed to delete run");
+        }
+    };
+
+    return (
+        <div className="bg-background/30 border border-border/10 rounded-xl p-6 shadow-lg backdrop-blur-sm space-y-4">
+            <div className="flex items-center justify-between">
+                <h2 className="text-lg font-semibold flex items-center gap-2 text-white">
+                    <History className="w-4 h-4 text-primary" /> Run History
+                    <span className="text-xs font-normal text-muted-foreground">({runs.length})</span>
+                </h2>
+                <button
+                    type="button"
+                    onClick={handleCompare}
+                    disabled={selected.length < 2 || isComparing}
+                    className="text-xs font-medium bg-primary/20 hover:bg-primary/30 text-primary rounded-md px-3 py-1.5 flex items-center gap-1 disabled:opacity-50"
+                >
+                    <GitCompare className="w-3 h-3" /> Compare {selected.length > 0 && `(${selected.length})`}
+                </button>
+            </div>
+
+            {runs.length === 0 ? (
+                <p className="text-xs text-muted-foreground">Every backtest you run is saved here.</p>
+            ) : (
+                <div className="overflow-x-auto max-h-[320px] overflow-y-auto">
+                    <table className="w-full text-xs font-mono">
+                        <thead className="text-muted-foreground text-[10px] text-left sticky top-0 bg-background/80 backdrop-blur-sm">
+                            <tr>
+                                <th></th><th>Run</th><th>Symbol</th><th>Strategy</th><th>Bars</th>
+                                <th className="text-right">Return</th><th className="text-right">Win</th>
+                                <th className="text-right">Max DD</th><th className="text-right">Sharpe</th><th></th>
+                            </tr>
+                        </thead>
+                        <tbody className="text-white">
+                            {runs.map((run) => (
+                                <tr key={run.id} className="border-t border-white/5 hover:bg-white/5">
+                                    <td className="py-1 pr-2">
+                                        <input type="checkbox" checked={selected.includes(run.id)} onChange={() => toggle(run.id)} />
+                                    </td>
+                                    <td className="text-muted-foreground pr-2">{formatRunDate(run.createdAt)}</td>
+                                    <td className="pr-2">{run.symbol}</td>
+                                    <td className="pr-2 truncate max-w-[160px]" title={`${run.strategy} · ${run.executionModel}`}>{run.strategy}</td>
+                                    <td className="pr-2 text-muted-foreground">{run.interval} · {run.days}d{run.bpjs && " · BPJS"}</td>
+                                    <td className={`text-right ${run.totalReturn >= 0 ? "text-profit" : "text-loss"}`}>{formatPercent(run.totalReturn)}</td>
+                                    <td className="text-right">{run.winRate.toFixed(0)}%</td>
+                                    <td className="text-right text-loss">-{run.maxDrawdown.toFixed(1)}%</td>
+                                    <td className="text-right">{run.sharpeRatio.toFixed(2)}</td>
+                                    <td className="pl-2">
+                                        <div className="flex items-center justify-end gap-2 text-muted-foreground">
+                                            <button type="button" title="Open" onClick={() => handleOpen(run.id)} className="hover:text-white"><Eye className="w-3 h-3" /></button>
+                                            <button type="button" title="Export CSV" onClick={() => handleExport(run.id, "csv")} className="hover:text-white flex items-center gap-0.5"><Download className="w-3 h-3" />CSV</button>
+                                            <button type="button" title="Export JSON" onClick={() => handleExport(run.id, "json")} className="hover:text-white flex items-center gap-0.5"><Download className="w-3 h-3" />JSON</button>
+                                            <button type="button" title="Delete" onClick={() => handleDelete(run.id)} className="hover:text-red-400"><Trash2 className="w-3 h-3" /></button>
+                                        </div>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {compared.length >= 2 && (
+                <div className="space-y-3 border-t border-white/10 pt-4 animate-in fade-in">
+                    <div className="flex items-center justify-between">
+                        <span className={LABEL_CLASS}>Comparison (equity as % return, start to end)</span>
+                        <button type="button" onClick={() => setCompared([])} className="text-[10px] text-muted-foreground hover:text-white">Close</button>
+                    </div>
+                    <ComparisonChart runs={compared} />
+                    <ComparisonTable runs={compared} />
+                </div>
+            )}
+        </div>
+    );
+}
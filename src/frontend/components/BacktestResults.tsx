@@ -1,7 +1,9 @@
 "use client";
 
 import React, { useMemo, useState } from "react";
-import { BacktestResult } from "@/backend/analysis/backtesting";
+import { BacktestResult, type BenchmarkComparison } from "@/backend/analysis/backtesting";
+import { useSettings } from "@/frontend/contexts/SettingsContext";
+import { runMonteCarlo, tradeReturns, type MonteCarloResult, type PercentileBand, type ResampleMethod } from "@/shared/monteCarlo";
 import {
     ArrowUpRight,
     ArrowDownRight,
@@ -12,7 +14,10 @@ import {
     Calendar,
     DollarSign,
     ChevronDown,
-    ChevronUp
+    ChevronUp,
+    Clock,
+    Landmark,
+    Shuffle
 } from "lucide-react";
 
 interface BacktestResultsProps {
@@ -32,6 +37,17 @@ const formatPercent = (value: number) => {
     return `${value >= 0 ? "+" : ""}${value.toFixed(2)}%`;
 };
 
+const formatMinutes = (minutes: number) => {
+    if (minutes < 60) return `${Math.round(minutes)} min`;
+    return `${Math.floor(minutes / 60)}h ${Math.round(minutes % 60)}m`;
+};
+
+/** Ratios without a denominator (no down days, no drawdown) are null */
+const formatRatio = (value: number | null) => (value === null ? "n/a" : value.toFixed(2));
+
+/** Capital every backtest starts with (see `backtestStrategy`) */
+const BACKTEST_CAPITAL = 100_000_000;
+
 const MetricCard = ({
     label,
     value,
@@ -84,6 +100,194 @@ const MetricCard = ({
     );
 };
 
+// ============================================================================
+// Monte Carlo
+// ============================================================================
+
+const BAND_LABELS: { key: keyof PercentileBand; label: string }[] = [
+    { key: "p5", label: "5th" },
+    { key: "p50", label: "Median" },
+    { key: "p95", label: "95th" },
+];
+
+function FanChart({ result, actual }: { result: MonteCarloResult; actual: number[] }) {
+    const width = 800;
+    const height = 200;
+    const padding = 20;
+    const values = result.fan.flatMap((b) => [b.p5, b.p95]).concat(actual);
+    const min = Math.min(...values);
+    const range = Math.max(...values) - min || 1;
+    const x = (i: number) => padding + (i / Math.max(1, result.fan.length - 1)) * (width - 2 * padding);
+    const y = (v: number) => height - padding - ((v - min) / range) * (height - 2 * padding);
+
+    const area = (lower: keyof PercentileBand, upper: keyof PercentileBand) =>
+        result.fan.map((b, i) => `${x(i)},${y(b[upper])}`)
+            .concat([...result.fan].reverse().map((b, i) => `${x(result.fan.length - 1 - i)},${y(b[lower])}`))
+            .join(" ");
+    const line = (series: number[]) => series.map((v, i) => `${x(i)},${y(v)}`).join(" ");
+
+    return (
+        <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-[200px] overflow-visible">
+            <line x1={padding} y1={y(result.capital)} x2={width - padding} y2={y(result.capital)} stroke="currentColor" strokeOpacity="0.2" strokeDasharray="4" />
+            <polygon points={area("p5", "p95")} fill="#3b82f6" fillOpacity="0.12" />
+            <polygon points={area("p25", "p75")} fill="#3b82f6" fillOpacity="0.25" />
+            <polyline points={line(result.fan.map((b) => b.p50))} fill="none" stroke="#3b82f6" strokeWidth="2" strokeLinejoin="round" />
+            <polyline points={line(actual)} fill="none" stroke="#f59e0b" strokeWidth="1.5" strokeDasharray="4 3" strokeLinejoin="round" />
+        </svg>
+    );
+}
+
+function MonteCarloSection({ results }: { results: BacktestResult }) {
+    const { capital } = useSettings();
+    const [method, setMethod] = useState<ResampleMethod>("SHUFFLE");
+    const [ruinPercent, setRuinPercent] = useState(50);
+
+    const returns = useMemo(() => tradeReturns(results.trades, BACKTEST_CAPITAL), [results]);
+    const simulation = useMemo(
+        () => (returns.length >= 2 ? runMonteCarlo(returns, { method, capital, ruinPercent }) : null),
+        [returns, method, capital, ruinPercent]
+    );
+    const actualPath = useMemo(() => {
+        const path = [capital];
+        for (const r of returns) path.push(path[path.length - 1] * (1 + r));
+        return path;
+    }, [returns, capital]);
+
+    if (!simulation) return null;
+
+    const rows: { label: string; band: PercentileBand; actual: number; format: (v: number) => string }[] = [
+        { label: "Final Return", band: simulation.finalReturn, actual: simulation.actual.finalReturn, format: formatPercent },
+        { label: "Max Drawdown", band: simulation.maxDrawdown, actual: simulation.actual.maxDrawdown, format: (v) => `-${v.toFixed(2)}%` },
+        { label: "Losing Streak", band: simulation.longestLosingStreak, actual: simulation.actual.longestLosingStreak, format: (v) => `${Math.round(v)} trades` },
+    ];
+
+    return (
+        <div className="bg-background/30 rounded-xl p-4 border border-border/10 space-y-4">
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-2">
+                <h3 className="text-sm font-semibold flex items-center gap-2">
+                    <Shuffle className="w-4 h-4 text-primary" /> Monte Carlo ({simulation.simulations.toLocaleString("id-ID")} paths, {simulation.trades} trades)
+                </h3>
+                <div className="flex items-center gap-2 text-xs">
+                    {(["SHUFFLE", "BOOTSTRAP"] as ResampleMethod[]).map((m) => (
+                        <button
+                            key={m}
+                            type="button"
+                            onClick={() => setMethod(m)}
+                            className={`px-2 py-1 rounded-md ${method === m ? "bg-primary/20 text-primary" : "text-muted-foreground hover:text-white"}`}
+                        >
+                            {m === "SHUFFLE" ? "Shuffle" : "Bootstrap"}
+                        </button>
+                    ))}
+                    <label className="text-muted-foreground ml-2">Ruin at -</label>
+                    <input
+                        type="number"
+                        min={1}
+                        max={100}
+                        value={ruinPercent}
+                        onChange={(e) => setRuinPercent(Math.min(100, Math.max(1, Number(e.target.value))))}
+                        className="w-14 bg-background/50 border border-border/20 rounded-md px-2 py-1 text-white outline-none"
+                    />
+                    <span className="text-muted-foreground">%</span>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                <div className="lg:col-span-2">
+                    <FanChart result={simulation} actual={actualPath} />
+                    <div className="flex justify-between text-[10px] text-muted-foreground px-2 font-mono">
+                        <span>Start: {formatCurrency(capital)}</span>
+                        <span>5-95% / 25-75% bands · median · <span className="text-amber-500">backtest order</span></span>
+                        <span>Trade {simulation.trades}</span>
+                    </div>
+                </div>
+
+                <div className="space-y-3 text-sm">
+                    <div className="flex justify-between items-center">
+                        <span className="text-muted-foreground">Risk of Ruin (-{simulation.ruinPercent}%)</span>
+                        <span className={`font-mono font-bold ${simulation.riskOfRuin > 5 ? "text-loss" : simulation.riskOfRuin > 1 ? "text-yellow-400" : "text-profit"}`}>
+                            {simulation.riskOfRuin.toFixed(1)}%
+                        </span>
+                    </div>
+                    <div className="flex justify-between items-center">
+                        <span className="text-muted-foreground">Chance of Loss</span>
+                        <span className="font-mono">{simulation.probabilityOfLoss.toFixed(1)}%</span>
+                    </div>
+                    <div className="flex justify-between items-center">
+                        <span className="text-muted-foreground">Median Final Equity</span>
+                        <span className="font-mono">{formatCurrency(simulation.fan[simulation.fan.length - 1].p50)}</span>
+                    </div>
+                    <div className="h-px bg-border/10"></div>
+                    <table className="w-full text-xs font-mono">
+                        <thead>
+                            <tr className="text-muted-foreground">
+                                <th className="text-left font-semibold pb-1"></th>
+                                {BAND_LABELS.map((b) => <th key={b.key} className="text-right font-semibold pb-1">{b.label}</th>)}
+                                <th className="text-right font-semibold pb-1 text-amber-500">Actual</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {rows.map((row) => (
+                                <tr key={row.label}>
+                                    <td className="py-0.5 text-muted-foreground">{row.label}</td>
+                                    {BAND_LABELS.map((b) => <td key={b.key} className="py-0.5 text-right">{row.format(row.band[b.key])}</td>)}
+                                    <td className="py-0.5 text-right">{row.format(row.actual)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    <p className="text-[10px] text-muted-foreground">
+                        {method === "SHUFFLE"
+                            ? "Same trades in random order: the final return is fixed, drawdowns and streaks show how lucky the sequence was."
+                            : "Trades drawn with replacement: a different draw of the same trade distribution."}
+                    </p>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+/**
+ * Strategy vs each index: does it add anything over holding the index?
+ */
+function BenchmarkSection({ results }: { results: BacktestResult }) {
+    if (!results.benchmarks?.length) return null;
+
+    const rows: { label: string; value: (b: BenchmarkComparison) => string; tooltip: string }[] = [
+        { label: "Index Return", value: (b) => formatPercent(b.totalReturn), tooltip: "Buy-and-hold of the index over the same days" },
+        { label: "Excess Return", value: (b) => formatPercent(b.excessReturn), tooltip: "Strategy return minus index return" },
+        { label: "Alpha (ann.)", value: (b) => formatPercent(b.alpha), tooltip: "Return not explained by market exposure (Jensen's alpha)" },
+        { label: "Beta", value: (b) => b.beta.toFixed(2), tooltip: "Sensitivity to the index's daily moves" },
+        { label: "Correlation", value: (b) => b.correlation.toFixed(2), tooltip: "Correlation of daily returns" },
+        { label: "Information Ratio", value: (b) => b.informationRatio.toFixed(2), tooltip: "Excess return per unit of tracking error" },
+        { label: "Tracking Error", value: (b) => `${b.trackingError.toFixed(1)}%`, tooltip: "Annualized volatility of the daily excess returns" },
+    ];
+
+    return (
+        <div className="bg-background/30 rounded-xl p-4 border border-border/10">
+            <h3 className="text-sm font-semibold mb-4 flex items-center gap-2"><Landmark className="w-4 h-4 text-primary" /> vs Index</h3>
+            <table className="w-full text-xs font-mono">
+                <thead>
+                    <tr className="text-muted-foreground">
+                        <th className="text-left font-semibold pb-1"></th>
+                        {results.benchmarks.map((b) => <th key={b.index} className="text-right font-semibold pb-1">{b.index}</th>)}
+                    </tr>
+                </thead>
+                <tbody>
+                    {rows.map((row) => (
+                        <tr key={row.label} title={row.tooltip}>
+                            <td className="py-0.5 text-muted-foreground">{row.label}</td>
+                            {results.benchmarks.map((b) => <td key={b.index} className="py-0.5 text-right">{row.value(b)}</td>)}
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+            <p className="text-[10px] text-muted-foreground mt-2">
+                Daily returns over {results.benchmarks[0].days} shared trading days; alpha is over a 6% risk-free rate.
+            </p>
+        </div>
+    );
+}
+
 export function BacktestResults({ results }: BacktestResultsProps) {
     const [showAllTrades, setShowAllTrades] = useState(false);
 
@@ -184,6 +388,10 @@ export function BacktestResults({ results }: BacktestResultsProps) {
                         <span className="flex items-center gap-1"><Calendar className="w-3 h-3" /> {results.period.start} — {results.period.end}</span>
                         <span className="flex items-center gap-1"><DollarSign className="w-3 h-3" /> Initial Cap: {formatCurrency(100_000_000)}</span>
                     </div>
+                    <p className="text-[10px] text-muted-foreground mt-1">
+                        Execution: {results.execution.description}
+                        {results.execution.rejectedOrders > 0 && ` · ${results.execution.rejectedOrders} orders refused`}
+                    </p>
                 </div>
 
                 <div className="flex items-center gap-4">
@@ -194,6 +402,14 @@ export function BacktestResults({ results }: BacktestResultsProps) {
                             {formatPercent(results.totalReturn - results.buyAndHoldReturn)}
                         </div>
                     </div>
+                    {results.benchmarks?.[0] && (
+                        <div className="text-right">
+                            <div className="text-[10px] uppercase text-muted-foreground tracking-wider mb-1">vs {results.benchmarks[0].index}</div>
+                            <div className={`font-mono font-bold ${results.benchmarks[0].excessReturn >= 0 ? 'text-profit' : 'text-loss'}`}>
+                                {formatPercent(results.benchmarks[0].excessReturn)}
+                            </div>
+                        </div>
+                    )}
                 </div>
             </div>
 
@@ -245,6 +461,29 @@ export function BacktestResults({ results }: BacktestResultsProps) {
                                     {results.sharpeRatio.toFixed(2)}
                                 </span>
                             </div>
+                            {/* Runs saved before these metrics existed lack them */}
+                            {results.sortinoRatio !== undefined && (
+                                <>
+                                    <div className="flex justify-between items-center text-sm">
+                                        <span className="text-muted-foreground">Sortino Ratio</span>
+                                        <span className="font-mono">{formatRatio(results.sortinoRatio)}</span>
+                                    </div>
+                                    <div className="flex justify-between items-center text-sm">
+                                        <span className="text-muted-foreground">Calmar Ratio</span>
+                                        <span className="font-mono">{formatRatio(results.calmarRatio)}</span>
+                                    </div>
+                                    <div className="flex justify-between items-center text-sm">
+                                        <span className="text-muted-foreground">Time in Market</span>
+                                        <span className="font-mono">{results.exposurePercent.toFixed(1)}%</span>
+                                    </div>
+                                    <div className="flex justify-between items-center text-sm" title="Total return ÷ time in market">
+                                        <span className="text-muted-foreground">Exposure-Adj. Return</span>
+                                        <span className={`font-mono ${results.exposureAdjustedReturn >= 0 ? "text-profit" : "text-loss"}`}>
+                                            {formatPercent(results.exposureAdjustedReturn)}
+                                        </span>
+                                    </div>
+                                </>
+                            )}
                             <div className="h-px bg-border/10"></div>
                             <div className="flex justify-between items-center text-sm">
                                 <span className="text-muted-foreground">Avg Win</span>
@@ -265,6 +504,53 @@ export function BacktestResults({ results }: BacktestResultsProps) {
                             </div>
                         </div>
                     </div>
+
+                    <BenchmarkSection results={results} />
+
+                    {results.intraday && (
+                        <div className="bg-background/30 rounded-xl p-4 border border-border/10">
+                            <h3 className="text-sm font-semibold mb-4 flex items-center gap-2"><Clock className="w-4 h-4 text-primary" /> Intraday ({results.intraday.interval})</h3>
+                            <div className="space-y-3">
+                                <div className="flex justify-between items-center text-sm">
+                                    <span className="text-muted-foreground">Trading Days</span>
+                                    <span className="font-mono">{results.intraday.sessions}</span>
+                                </div>
+                                <div className="flex justify-between items-center text-sm">
+                                    <span className="text-muted-foreground">Avg Holding</span>
+                                    <span className="font-mono">{formatMinutes(results.intraday.averageHoldingMinutes)}</span>
+                                </div>
+                                <div className="flex justify-between items-center text-sm">
+                                    <span className="text-muted-foreground">End-of-Day Exits</span>
+                                    <span className="font-mono">{results.intraday.flatAtCloseExits}</span>
+                                </div>
+                                {results.intraday.timeOfDay.length > 0 && (
+                                    <>
+                                        <div className="h-px bg-border/10"></div>
+                                        <table className="w-full text-xs font-mono">
+                                            <thead>
+                                                <tr className="text-muted-foreground">
+                                                    <th className="text-left font-semibold pb-1">Entry (WIB)</th>
+                                                    <th className="text-right font-semibold pb-1">Trades</th>
+                                                    <th className="text-right font-semibold pb-1">Win Rate</th>
+                                                    <th className="text-right font-semibold pb-1">Avg</th>
+                                                </tr>
+                                            </thead>
+                                            <tbody>
+                                                {results.intraday.timeOfDay.map((slot) => (
+                                                    <tr key={slot.slot}>
+                                                        <td className="py-0.5">{slot.slot}</td>
+                                                        <td className="py-0.5 text-right">{slot.trades}</td>
+                                                        <td className={`py-0.5 text-right ${slot.winRate >= 50 ? "text-profit" : "text-loss"}`}>{slot.winRate.toFixed(0)}%</td>
+                                                        <td className={`py-0.5 text-right ${slot.averageReturn >= 0 ? "text-profit" : "text-loss"}`}>{formatPercent(slot.averageReturn)}</td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    </>
+                                )}
+                            </div>
+                        </div>
+                    )}
                 </div>
 
                 {/* Equity Chart */}
@@ -277,6 +563,8 @@ export function BacktestResults({ results }: BacktestResultsProps) {
                 </div>
             </div>
 
+            <MonteCarloSection results={results} />
+
             {/* Trade Log */}
             <div className="bg-background/20 rounded-xl border border-border/10 overflow-hidden">
                 <div className="p-4 border-b border-border/10 flex justify-between items-center">
@@ -310,7 +598,12 @@ export function BacktestResults({ results }: BacktestResultsProps) {
                                     <td className={`p-3 text-right font-bold ${trade.profit && trade.profit > 0 ? 'text-profit' : trade.profit && trade.profit < 0 ? 'text-loss' : 'text-muted-foreground'}`}>
                                         {trade.profit ? formatCurrency(trade.profit) : "-"}
                                     </td>
-                                    <td className="p-3 text-muted-foreground truncate max-w-[200px]" title={trade.reason}>
+                                    <td className="p-3 text-muted-foreground truncate max-w-[240px]" title={trade.reason}>
+                                        {trade.exitRule && (
+                                            <span className="mr-1.5 px-1.5 py-0.5 rounded bg-white/10 text-[10px] font-bold text-white">
+                                                {trade.exitRule.replace(/_/g, " ")}
+                                            </span>
+                                        )}
                                         {trade.reason}
                                     </td>
                                 </tr>
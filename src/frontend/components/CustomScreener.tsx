@@ -0,0 +1,352 @@
+"use client";
+
+import { Fragment, useEffect, useMemo, useState } from "react";
+import { ArrowDown, ArrowUp, BookOpen, Filter, ListPlus, RefreshCw, Save, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import type { ScreenMatch, ScreenResult, ScreenUniverse } from "@/backend/analysis/customScreener";
+import type { SavedScreen } from "@/backend/data/screenStore";
+import {
+    SCREEN_FIELDS,
+    SCREEN_FIELD_FAMILIES,
+    parseScreenExpression,
+    screenFieldLabel,
+} from "@/shared/screenExpression";
+import { UniverseSelect } from "./UniverseSelect";
+
+interface CustomScreenerProps {
+    onSelectStock?: (symbol: string) => void;
+}
+
+const EXAMPLE = "rsi14 < 35 AND close > ema50 AND volRatio > 1.5 AND sector IN ('Financials', 'Energy')";
+
+const INPUT_CLASS = "w-full bg-background/50 border border-border rounded-lg px-3 py-2 text-sm focus:border-primary outline-none";
+
+type SortKey = "symbol" | "sector" | string;
+
+function formatValue(key: string, value: number | null): string {
+    if (value === null) return "—";
+    if (key === "value") return `${(value / 1e9).toFixed(1)}B`;
+    if (key === "volume" || key === "avgVolume" || key === "obv") return `${(value / 1e6).toFixed(1)}M`;
+    if (key.startsWith("change") || key === "gap" || key === "atrPct" || key === "bbWidth") return `${value >= 0 && key !== "atrPct" && key !== "bbWidth" ? "+" : ""}${value.toFixed(2)}%`;
+    if (key === "volRatio") return `${value.toFixed(2)}x`;
+    return Math.abs(value) >= 1000 ? value.toLocaleString("id-ID", { maximumFractionDigits: 0 }) : value.toFixed(2);
+}
+
+/**
+ * Screen any universe with a filter expression, sort the matches by any
+ * column, and save screens for the whole team.
+ */
+export function CustomScreener({ onSelectStock }: CustomScreenerProps) {
+    const [expression, setExpression] = useState(EXAMPLE);
+    const [universe, setUniverse] = useState<ScreenUniverse>("BPJS");
+    const [symbols, setSymbols] = useState("");
+    const [listName, setListName] = useState("");
+    const [universeVersion, setUniverseVersion] = useState(0);
+    const [result, setResult] = useState<ScreenResult | null>(null);
+    const [isRunning, setIsRunning] = useState(false);
+    const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({ key: "value", descending: true });
+    const [screens, setScreens] = useState<SavedScreen[]>([]);
+    const [loaded, setLoaded] = useState<SavedScreen | null>(null);
+    const [name, setName] = useState("");
+    const [author, setAuthor] = useState("");
+    const [showFields, setShowFields] = useState(false);
+
+    const parseError = useMemo(() => {
+        try {
+            parseScreenExpression(expression);
+            return null;
+        } catch (error) {
+            return error instanceof Error ? error.message : String(error);
+        }
+    }, [expression]);
+
+    const customSymbols = symbols.split(/[\s,]+/).filter(Boolean);
+
+    const loadScreens = async () => {
+        try {
+            const data = await (await fetch("/api/screener/custom/screens")).json();
+            if (data.success) setScreens(data.screens);
+        } catch (error) {
+            console.error("Failed to load saved screens:", error);
+        }
+    };
+
+    useEffect(() => {
+        loadScreens();
+    }, []);
+
+    const handleRun = async () => {
+        setIsRunning(true);
+        try {
+            const response = await fetch("/api/screener/custom", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ expression, universe, symbols: customSymbols }),
+            });
+            const data = await response.json();
+            if (data.success) {
+                setResult(data);
+            } else {
+                toast.error(data.details || data.error || "Screen failed");
+            }
+        } catch {
+            toast.error("Network error running screen");
+        } finally {
+            setIsRunning(false);
+        }
+    };
+
+    const handleLoad = (screen: SavedScreen) => {
+        setLoaded(screen);
+        setName(screen.name);
+        setExpression(screen.expression);
+        setUniverse(screen.universe);
+        setSymbols(screen.symbols?.join(", ") ?? "");
+        setResult(null);
+    };
+
+    const handleSave = async (asNew: boolean) => {
+        try {
+            const response = await fetch("/api/screener/custom/screens", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                    id: asNew ? undefined : loaded?.id,
+                    name,
+                    expression,
+                    universe,
+                    symbols: customSymbols,
+                    author: author || undefined,
+                }),
+            });
+            const data = await response.json();
+            if (!data.success) throw new Error(data.details || data.error);
+            setLoaded(data.screen);
+            toast.success(`Saved "${data.screen.name}" for the team`);
+            loadScreens();
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to save screen");
+        }
+    };
+
+    // Keep the custom symbols as a named universe every screener can scan
+    const handleSaveList = async () => {
+        try {
+            const response = await fetch("/api/universes", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ name: listName, symbols: customSymbols, author: author || undefined }),
+            });
+            const data = await response.json();
+            if (!data.success) throw new Error(data.details || data.error);
+            toast.success(`Saved list ${data.universe.id} (${data.universe.symbols.length} symbols)`);
+            setUniverseVersion((v) => v + 1);
+            setUniverse(data.universe.id);
+            setListName("");
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to save list");
+        }
+    };
+
+    const handleDelete = async (screen: SavedScreen) => {
+        try {
+            const data = await (await fetch(`/api/screener/custom/screens/${encodeURIComponent(screen.id)}`, { method: "DELETE" })).json();
+            if (!data.success) throw new Error(data.error);
+            setScreens((prev) => prev.filter((s) => s.id !== screen.id));
+            if (loaded?.id === screen.id) setLoaded(null);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to delete screen");
+        }
+    };
+
+    const toggleSort = (key: SortKey) => {
+        setSort((prev) => ({ key, descending: prev.key === key ? !prev.descending : key !== "symbol" && key !== "sector" }));
+    };
+
+    const sorted = useMemo(() => {
+        if (!result) return [];
+        const valueOf = (m: ScreenMatch) =>
+            sort.key === "symbol" ? m.symbol : sort.key === "sector" ? m.sector ?? "" : m.values[sort.key];
+        return [...result.matches].sort((a, b) => {
+            const [x, y] = [valueOf(a), valueOf(b)];
+            // Missing values always last
+            if (x === null || x === undefined) return 1;
+            if (y === null || y === undefined) return -1;
+            const order = typeof x === "string" ? x.localeCompare(y as string) : x - (y as number);
+            return sort.descending ? -order : order;
+        });
+    }, [result, sort]);
+
+    const header = (key: SortKey, label: string, align = "text-right") => (
+        <th className={`py-2 px-2 ${align} cursor-pointer select-none hover:text-foreground`} onClick={() => toggleSort(key)}>
+            <span className="inline-flex items-center gap-1">
+                {label}
+                {sort.key === key && (sort.descending ? <ArrowDown className="w-3 h-3" /> : <ArrowUp className="w-3 h-3" />)}
+            </span>
+        </th>
+    );
+
+    return (
+        <div className="w-full max-w-6xl mx-auto space-y-4 p-4 mt-6">
+            <div className="bg-card/50 backdrop-blur-sm border border-border p-6 rounded-2xl shadow-xl space-y-4">
+                <div className="flex items-start justify-between gap-4">
+                    <div>
+                        <h2 className="text-2xl font-bold flex items-center gap-2">
+                            <Filter className="w-6 h-6 text-primary" />
+                            Custom Screener
+                        </h2>
+                        <p className="text-muted-foreground text-sm mt-1">
+                            Filter any universe with your own rules on daily bars. Saved screens are shared with the team.
+                        </p>
+                    </div>
+                    <button
+                        type="button"
+                        onClick={() => setShowFields(!showFields)}
+                        className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+                    >
+                        <BookOpen className="w-4 h-4" /> Fields
+                    </button>
+                </div>
+
+                {showFields && (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-1 text-xs bg-background/40 border border-border rounded-lg p-3 max-h-64 overflow-y-auto">
+                        {Object.entries(SCREEN_FIELDS).map(([key, field]) => (
+                            <div key={key}><code className="text-primary">{key}</code> <span className="text-muted-foreground">{field.description}</span></div>
+                        ))}
+                        {Object.entries(SCREEN_FIELD_FAMILIES).map(([key, family]) => (
+                            <div key={key}><code className="text-primary">{key}N</code> <span className="text-muted-foreground">{family.description}</span></div>
+                        ))}
+                        <div className="md:col-span-2 text-muted-foreground pt-2">
+                            Combine with AND, OR, NOT and parentheses; compare with &lt; &lt;= &gt; &gt;= = !=; use + - * / on numbers and
+                            <code className="text-primary"> IN (&apos;a&apos;, &apos;b&apos;)</code> for lists.
+                        </div>
+                    </div>
+                )}
+
+                <div className="grid grid-cols-1 lg:grid-cols-4 gap-4">
+                    <div className="lg:col-span-3 space-y-1">
+                        <textarea
+                            className={`${INPUT_CLASS} font-mono min-h-[72px]`}
+                            value={expression}
+                            onChange={(e) => setExpression(e.target.value)}
+                            spellCheck={false}
+                        />
+                        <p className={`text-xs ${parseError ? "text-red-400" : "text-muted-foreground"}`}>
+                            {parseError ?? "Expression OK"}
+                        </p>
+                    </div>
+                    <div className="space-y-2">
+                        <UniverseSelect className={INPUT_CLASS} value={universe} onChange={setUniverse} allowAdHoc refreshKey={universeVersion} />
+                        {universe === "CUSTOM" && (
+                            <>
+                                <input className={INPUT_CLASS} placeholder="BBRI, TLKM, ASII" value={symbols} onChange={(e) => setSymbols(e.target.value)} />
+                                <div className="flex gap-2">
+                                    <input className={INPUT_CLASS} placeholder="List name" value={listName} onChange={(e) => setListName(e.target.value)} />
+                                    <button
+                                        type="button"
+                                        onClick={handleSaveList}
+                                        disabled={!listName.trim() || customSymbols.length === 0}
+                                        title="Save these symbols as a list for every screener"
+                                        className="flex items-center gap-1 text-xs font-medium bg-primary/20 hover:bg-primary/30 text-primary rounded-lg px-3 disabled:opacity-50"
+                                    >
+                                        <ListPlus className="w-3 h-3" />
+                                    </button>
+                                </div>
+                            </>
+                        )}
+                        <button
+                            type="button"
+                            onClick={handleRun}
+                            disabled={isRunning || parseError !== null || (universe === "CUSTOM" && customSymbols.length === 0)}
+                            className="w-full flex items-center justify-center gap-2 bg-primary hover:bg-primary/90 text-primary-foreground px-4 py-2 rounded-lg font-medium transition-all active:scale-95 disabled:opacity-50"
+                        >
+                            <RefreshCw className={`w-4 h-4 ${isRunning ? "animate-spin" : ""}`} />
+                            {isRunning ? "Screening..." : "Run Screen"}
+                        </button>
+                    </div>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-2 border-t border-border pt-4">
+                    <input className={`${INPUT_CLASS} max-w-[220px]`} placeholder="Screen name" value={name} onChange={(e) => setName(e.target.value)} />
+                    <input className={`${INPUT_CLASS} max-w-[160px]`} placeholder="Your name (optional)" value={author} onChange={(e) => setAuthor(e.target.value)} />
+                    <button
+                        type="button"
+                        onClick={() => handleSave(false)}
+                        disabled={!name.trim() || parseError !== null}
+                        className="flex items-center gap-1 text-xs font-medium bg-primary/20 hover:bg-primary/30 text-primary rounded-lg px-3 py-2 disabled:opacity-50"
+                    >
+                        <Save className="w-3 h-3" /> {loaded ? "Update" : "Save"}
+                    </button>
+                    {loaded && (
+                        <button type="button" onClick={() => handleSave(true)} disabled={!name.trim() || parseError !== null} className="text-xs text-muted-foreground hover:text-foreground disabled:opacity-50">
+                            Save as new
+                        </button>
+                    )}
+                </div>
+
+                {screens.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                        {screens.map((screen) => (
+                            <div
+                                key={screen.id}
+                                className={`flex items-center gap-2 text-xs border rounded-full pl-3 pr-2 py-1 ${loaded?.id === screen.id ? "border-primary text-primary" : "border-border text-muted-foreground"}`}
+                                title={`${screen.expression}\n${screen.universe}${screen.author ? ` · by ${screen.author}` : ""}`}
+                            >
+                                <button type="button" onClick={() => handleLoad(screen)} className="hover:text-foreground">{screen.name}</button>
+                                <button type="button" onClick={() => handleDelete(screen)} className="hover:text-red-400" title="Delete for everyone">
+                                    <Trash2 className="w-3 h-3" />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            {result && (
+                <div className="bg-card/50 border border-border rounded-2xl p-4 space-y-2 animate-in fade-in">
+                    <p className="text-xs text-muted-foreground font-mono">
+                        {result.matches.length} of {result.scanned} matched · {new Date(result.timestamp).toLocaleTimeString()}
+                        {result.skipped.length > 0 && ` · ${result.skipped.length} skipped`}
+                    </p>
+                    {result.matches.length === 0 ? (
+                        <p className="text-sm text-muted-foreground py-6 text-center">No symbol passes this filter.</p>
+                    ) : (
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-sm font-mono">
+                                <thead className="text-xs text-muted-foreground border-b border-border">
+                                    <tr>
+                                        {header("symbol", "Symbol", "text-left")}
+                                        {header("sector", "Sector", "text-left")}
+                                        {result.columns.map((key) => <Fragment key={key}>{header(key, screenFieldLabel(key))}</Fragment>)}
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {sorted.map((m) => (
+                                        <tr
+                                            key={m.symbol}
+                                            onClick={() => onSelectStock?.(m.symbol)}
+                                            className={`border-b border-border/40 hover:bg-secondary/20 ${onSelectStock ? "cursor-pointer" : ""}`}
+                                        >
+                                            <td className="py-2 px-2 font-bold" title={m.name ?? undefined}>{m.symbol}</td>
+                                            <td className="py-2 px-2 text-muted-foreground">{m.sector ?? "—"}</td>
+                                            {result.columns.map((key) => (
+                                                <td key={key} className={`py-2 px-2 text-right ${key.startsWith("change") ? ((m.values[key] ?? 0) >= 0 ? "text-emerald-400" : "text-red-400") : ""}`}>
+                                                    {formatValue(key, m.values[key])}
+                                                </td>
+                                            ))}
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                    {result.skipped.length > 0 && (
+                        <p className="text-[10px] text-yellow-500/70">
+                            Skipped: {result.skipped.map((s) => `${s.symbol} (${s.reason})`).join(", ")}
+                        </p>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -3,6 +3,7 @@
 import { useEffect, useState } from "react";
 import { TradingMode } from "@/shared/types";
 import { REFRESH_INTERVAL } from "@/shared/constants";
+import { getMarketStatus, getPhaseLabel, type MarketStatus } from "@/shared/marketClock";
 
 interface DataFreshnessIndicatorProps {
     lastUpdated: number | null;
@@ -11,6 +12,15 @@ interface DataFreshnessIndicatorProps {
     onRefresh?: () => void;
 }
 
+function formatTime(date: Date): string {
+    return date.toLocaleString("id-ID", {
+        timeZone: "Asia/Jakarta",
+        weekday: "short",
+        hour: "2-digit",
+        minute: "2-digit",
+    });
+}
+
 export default function DataFreshnessIndicator({
     lastUpdated,
     tradingMode,
@@ -19,6 +29,7 @@ export default function DataFreshnessIndicator({
 }: DataFreshnessIndicatorProps) {
     const [timeAgo, setTimeAgo] = useState<string>("Just now");
     const [nextRefreshIn, setNextRefreshIn] = useState<number>(0);
+    const [market, setMarket] = useState<MarketStatus>(() => getMarketStatus());
 
     const refreshInterval =
         tradingMode === "SCALPING"
@@ -39,6 +50,7 @@ export default function DataFreshnessIndicator({
             const elapsed = Date.now() - lastUpdated;
             const remaining = Math.max(0, refreshInterval - elapsed);
             setNextRefreshIn(Math.ceil(remaining / 1000));
+            setMarket(getMarketStatus());
         };
 
         updateTimeAgo();
@@ -64,8 +76,26 @@ export default function DataFreshnessIndicator({
                 </span>
             </div>
 
+            {/* Market Session */}
+            <div
+                className={`px-2 py-0.5 rounded-full text-[10px] font-bold ${market.isContinuousTrading
+                        ? "bg-profit/10 text-profit"
+                        : market.isActive
+                            ? "bg-yellow-500/10 text-yellow-500"
+                            : "bg-secondary/50 text-muted-foreground"
+                    }`}
+                title={`Next: ${getPhaseLabel(market.nextPhase)} at ${formatTime(market.nextChangeAt)}`}
+            >
+                {market.label} · {market.jakartaTime} WIB
+            </div>
+
+            {/* Auto-refresh paused outside the session */}
+            {!isRefreshing && !market.isActive && (
+                <span className="text-muted-foreground/70">Auto-refresh paused</span>
+            )}
+
             {/* Next Refresh Countdown */}
-            {!isRefreshing && nextRefreshIn > 0 && (
+            {!isRefreshing && market.isActive && nextRefreshIn > 0 && (
                 <div className="flex items-center gap-1.5 text-muted-foreground/70">
                     <svg
                         className="w-3 h-3"
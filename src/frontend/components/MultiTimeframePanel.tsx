@@ -116,6 +116,21 @@ export default function MultiTimeframePanel({ analysis }: MultiTimeframePanelPro
                                 <span className="font-mono">{formatPrice(tf.key_levels.resistance)}</span>
                             </div>
                         </div>
+
+                        {/* Divergences */}
+                        {tf.divergences?.length > 0 && (
+                            <div className="text-[10px] space-y-0.5 border-t border-gray-700 pt-2 mt-2">
+                                {tf.divergences.map((d, i) => (
+                                    <div
+                                        key={i}
+                                        className={d.direction === "BULLISH" ? "text-green-400" : "text-red-400"}
+                                        title={`${d.strength} - ${d.barsAgo} bar(s) ago`}
+                                    >
+                                        {d.direction === "BULLISH" ? "▲" : "▼"} {d.label}
+                                    </div>
+                                ))}
+                            </div>
+                        )}
                     </div>
                 ))}
             </div>
@@ -215,6 +230,16 @@ export default function MultiTimeframePanel({ analysis }: MultiTimeframePanelPro
                                 </div>
                             ))}
                         </div>
+
+                        {/* Price Limit Warnings */}
+                        {analysis.recommendation.limit_warnings?.length > 0 && (
+                            <div className="bg-yellow-500/10 border border-yellow-500/30 rounded-lg p-3 space-y-1">
+                                <div className="text-xs text-yellow-400 uppercase">Auto Rejection</div>
+                                {analysis.recommendation.limit_warnings.map((warning, idx) => (
+                                    <div key={idx} className="text-xs text-yellow-200">{warning}</div>
+                                ))}
+                            </div>
+                        )}
                     </div>
                 </div>
             </div>
@@ -0,0 +1,388 @@
+"use client";
+
+import React, { useState } from "react";
+import { toast } from "sonner";
+import { AlertTriangle, FlaskConical, RefreshCw } from "lucide-react";
+import { executeOptimization } from "@/app/backtest/actions";
+import type {
+    OptimizationObjective,
+    OptimizationReport,
+    OverfittingAssessment,
+    ParameterHeatmap,
+    ParameterRange,
+    SearchMethod,
+} from "@/backend/analysis/optimization";
+import type { ExecutionModel } from "@/shared/executionModel";
+import type { StrategySpec } from "@/shared/strategySpec";
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+interface OptimizationPanelProps {
+    /** Symbol with exchange suffix; empty disables the run button */
+    symbol: string;
+    /** Built-in/saved strategy id, or the unsaved builder spec */
+    strategy: string | StrategySpec;
+    spec: StrategySpec;
+    execution: ExecutionModel;
+}
+
+interface RangeDraft extends ParameterRange {
+    enabled: boolean;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const INPUT_CLASS = "w-full bg-background/50 border border-border/20 rounded-md px-2 py-1.5 text-xs text-white focus:border-primary outline-none disabled:opacity-50";
+const LABEL_CLASS = "text-[10px] font-bold uppercase text-muted-foreground tracking-wider block mb-1";
+
+const OBJECTIVES: { value: OptimizationObjective; label: string }[] = [
+    { value: "SHARPE", label: "Sharpe ratio" },
+    { value: "PROFIT_FACTOR", label: "Profit factor" },
+    { value: "RETURN_DRAWDOWN", label: "Return / max drawdown" },
+    { value: "TOTAL_RETURN", label: "Total return" },
+];
+
+const RISK_STYLES: Record<OverfittingAssessment["risk"], string> = {
+    LOW: "border-green-500/30 bg-green-500/10 text-green-400",
+    MEDIUM: "border-yellow-500/30 bg-yellow-500/10 text-yellow-400",
+    HIGH: "border-red-500/30 bg-red-500/10 text-red-400",
+};
+
+/** Default search range: roughly half to one-and-a-half times the current value */
+function defaultRange(name: string, value: number): RangeDraft {
+    const integer = Number.isInteger(value);
+    const rawStep = Math.max(Math.abs(value) / 5, integer ? 1 : 0.1);
+    const step = integer ? Math.round(rawStep) : Number(rawStep.toFixed(1));
+    return {
+        name,
+        enabled: true,
+        min: Number((value - 2 * step).toFixed(4)),
+        max: Number((value + 2 * step).toFixed(4)),
+        step,
+    };
+}
+
+const formatScore = (score: number | null) => (score === null ? "—" : score.toFixed(2));
+const formatParameters = (parameters: Record<string, number>) =>
+    Object.entries(parameters).map(([name, value]) => `${name}=${value}`).join(", ");
+
+// ============================================================================
+// Sub-components
+// ============================================================================
+
+function Heatmap({ heatmap }: { heatmap: ParameterHeatmap }) {
+    const scores = heatmap.cells.flat().filter((s): s is number => s !== null);
+    const min = Math.min(...scores);
+    const max = Math.max(...scores);
+    const rows = heatmap.yParam ? heatmap.yValues : [null];
+
+    const color = (score: number | null) => {
+        if (score === null || scores.length === 0) return "rgba(255,255,255,0.04)";
+        const t = max === min ? 1 : (score - min) / (max - min);
+        return t >= 0.5
+            ? `rgba(34,197,94,${0.15 + (t - 0.5) * 1.3})`
+            : `rgba(239,68,68,${0.15 + (0.5 - t) * 1.3})`;
+    };
+
+    return (
+        <div className="overflow-x-auto">
+            <table className="text-[10px] font-mono border-separate border-spacing-0.5">
+                <thead>
+                    <tr>
+                        <th className="text-muted-foreground text-left pr-2">{heatmap.yParam ? `${heatmap.yParam} ↓ / ${heatmap.xParam} →` : heatmap.xParam}</th>
+                        {heatmap.xValues.map((x) => <th key={x} className="text-muted-foreground px-1">{x}</th>)}
+                    </tr>
+                </thead>
+                <tbody>
+                    {rows.map((y, row) => (
+                        <tr key={y ?? "single"}>
+                            <td className="text-muted-foreground pr-2">{y ?? ""}</td>
+                            {heatmap.cells[row].map((score, col) => (
+                                <td
+                                    key={col}
+                                    className="text-center text-white px-1.5 py-1 rounded-sm min-w-10"
+                                    style={{ backgroundColor: color(score) }}
+                                >
+                                    {formatScore(score)}
+                                </td>
+                            ))}
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+}
+
+function OverfittingWarning({ title, assessment }: { title: string; assessment: OverfittingAssessment }) {
+    return (
+        <div className={`border rounded-lg p-3 text-xs space-y-1 ${RISK_STYLES[assessment.risk]}`}>
+            <p className="font-semibold flex items-center gap-1">
+                <AlertTriangle className="w-3.5 h-3.5" /> {title}: {assessment.risk} overfitting risk
+            </p>
+            {assessment.warnings.length > 0 ? (
+                <ul className="list-disc pl-5 space-y-0.5">
+                    {assessment.warnings.map((warning) => <li key={warning}>{warning}</li>)}
+                </ul>
+            ) : (
+                <p>No overfitting signs detected.</p>
+            )}
+        </div>
+    );
+}
+
+// ============================================================================
+// Main Component
+// ============================================================================
+
+/**
+ * Parameter optimization and walk-forward validation for the selected strategy.
+ * Remount (via `key`) when the strategy changes so the ranges follow its parameters.
+ */
+export function OptimizationPanel({ symbol, strategy, spec, execution }: OptimizationPanelProps) {
+    const [ranges, setRanges] = useState<RangeDraft[]>(() =>
+        Object.entries(spec.parameters ?? {}).map(([name, value]) => defaultRange(name, value))
+    );
+    const [objective, setObjective] = useState<OptimizationObjective>("SHARPE");
+    const [method, setMethod] = useState<SearchMethod>("GRID");
+    const [samples, setSamples] = useState(60);
+    const [days, setDays] = useState(365);
+    const [useWalkForward, setUseWalkForward] = useState(true);
+    const [windows, setWindows] = useState(4);
+    const [report, setReport] = useState<OptimizationReport | null>(null);
+    const [isRunning, setIsRunning] = useState(false);
+
+    const updateRange = (index: number, patch: Partial<RangeDraft>) =>
+        setRanges((prev) => prev.map((r, i) => (i === index ? { ...r, ...patch } : r)));
+
+    const selected = ranges.filter((r) => r.enabled);
+    const gridSize = selected.reduce((size, r) => size * (r.step > 0 ? Math.floor((r.max - r.min) / r.step + 1e-9) + 1 : 1), 1);
+
+    const handleRun = async () => {
+        if (selected.length === 0) {
+            toast.error("Select at least one parameter to optimize");
+            return;
+        }
+
+        setIsRunning(true);
+        const loadingToast = toast.loading(`Optimizing ${spec.name} on ${symbol}...`);
+        try {
+            const result = await executeOptimization(
+                symbol,
+                strategy,
+                days,
+                {
+                    ranges: selected.map(({ name, min, max, step }) => ({ name, min, max, step })),
+                    objective,
+                    method,
+                    samples,
+                    execution,
+                },
+                useWalkForward ? { windows } : undefined
+            );
+            setReport(result);
+            toast.success("Optimization completed", { id: loadingToast });
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : "Optimization failed", { id: loadingToast });
+        } finally {
+            setIsRunning(false);
+        }
+    };
+
+    const optimization = report?.optimization;
+    const walkForward = report?.walkForward;
+
+    return (
+        <div className="bg-background/30 border border-border/10 rounded-xl p-6 shadow-lg backdrop-blur-sm space-y-6">
+            <h2 className="text-lg font-semibold flex items-center gap-2 text-white">
+                <FlaskConical className="w-4 h-4 text-primary" /> Parameter Optimization
+            </h2>
+
+            {ranges.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                    {spec.name} has no named parameters. Add parameters in the builder and reference them from its rules to optimize them.
+                </p>
+            ) : (
+                <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                    {/* Ranges */}
+                    <div className="lg:col-span-2 space-y-2">
+                        <span className={LABEL_CLASS}>Parameter ranges</span>
+                        <div className="grid grid-cols-[auto_1fr_5rem_5rem_5rem] gap-1 items-center text-xs">
+                            <span />
+                            <span className="text-[10px] text-muted-foreground">Parameter</span>
+                            <span className="text-[10px] text-muted-foreground">Min</span>
+                            <span className="text-[10px] text-muted-foreground">Max</span>
+                            <span className="text-[10px] text-muted-foreground">Step</span>
+                            {ranges.map((range, index) => (
+                                <React.Fragment key={range.name}>
+                                    <input
+                                        type="checkbox"
+                                        checked={range.enabled}
+                                        onChange={(e) => updateRange(index, { enabled: e.target.checked })}
+                                        disabled={isRunning}
+                                    />
+                                    <span className="font-mono text-white">{range.name}</span>
+                                    {(["min", "max", "step"] as const).map((field) => (
+                                        <input
+                                            key={field}
+                                            type="number"
+                                            className={INPUT_CLASS}
+                                            value={range[field]}
+                                            onChange={(e) => updateRange(index, { [field]: Number(e.target.value) })}
+                                            disabled={isRunning || !range.enabled}
+                                        />
+                                    ))}
+                                </React.Fragment>
+                            ))}
+                        </div>
+                        <p className="text-[10px] text-muted-foreground">
+                            {gridSize} combination{gridSize === 1 ? "" : "s"} in the grid
+                            {method === "RANDOM" ? `; random search samples ${Math.min(samples, gridSize)}` : ""}.
+                            The heatmap uses the first two selected parameters.
+                        </p>
+                    </div>
+
+                    {/* Search settings */}
+                    <div className="space-y-3">
+                        <div>
+                            <label className={LABEL_CLASS}>Objective</label>
+                            <select className={INPUT_CLASS} value={objective} onChange={(e) => setObjective(e.target.value as OptimizationObjective)} disabled={isRunning}>
+                                {OBJECTIVES.map((o) => <option key={o.value} value={o.value}>{o.label}</option>)}
+                            </select>
+                        </div>
+                        <div className="grid grid-cols-2 gap-2">
+                            <div>
+                                <label className={LABEL_CLASS}>Search</label>
+                                <select className={INPUT_CLASS} value={method} onChange={(e) => setMethod(e.target.value as SearchMethod)} disabled={isRunning}>
+                                    <option value="GRID">Grid</option>
+                                    <option value="RANDOM">Random</option>
+                                </select>
+                            </div>
+                            <div>
+                                <label className={LABEL_CLASS}>Samples</label>
+                                <input type="number" className={INPUT_CLASS} value={samples} min={1} onChange={(e) => setSamples(Number(e.target.value))} disabled={isRunning || method !== "RANDOM"} />
+                            </div>
+                        </div>
+                        <div>
+                            <label className={LABEL_CLASS}>History</label>
+                            <select className={INPUT_CLASS} value={days} onChange={(e) => setDays(Number(e.target.value))} disabled={isRunning}>
+                                <option value={180}>Last 180 Days</option>
+                                <option value={365}>Last 365 Days (1 Year)</option>
+                                <option value={730}>Last 730 Days (2 Years)</option>
+                            </select>
+                        </div>
+                        <div className="flex items-center gap-2">
+                            <label className="flex items-center gap-1 text-xs text-white">
+                                <input type="checkbox" checked={useWalkForward} onChange={(e) => setUseWalkForward(e.target.checked)} disabled={isRunning} />
+                                Walk-forward
+                            </label>
+                            <input type="number" className={`${INPUT_CLASS} w-16`} value={windows} min={1} max={10} onChange={(e) => setWindows(Number(e.target.value))} disabled={isRunning || !useWalkForward} />
+                            <span className="text-[10px] text-muted-foreground">windows</span>
+                        </div>
+                        <button
+                            type="button"
+                            onClick={handleRun}
+                            disabled={isRunning || !symbol}
+                            className="w-full text-xs font-medium bg-primary/20 hover:bg-primary/30 text-primary rounded-md py-2 flex items-center justify-center gap-1 disabled:opacity-50"
+                        >
+                            {isRunning ? <RefreshCw className="w-3 h-3 animate-spin" /> : <FlaskConical className="w-3 h-3" />}
+                            {isRunning ? "Optimizing..." : symbol ? "Run Optimization" : "Enter a symbol first"}
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {optimization && (
+                <div className="space-y-4 border-t border-white/10 pt-4 animate-in fade-in">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-xs">
+                        <div className="bg-background/40 rounded-lg p-3 space-y-1">
+                            <span className={LABEL_CLASS}>Best parameters</span>
+                            {optimization.best ? (
+                                <>
+                                    <p className="font-mono text-white">{formatParameters(optimization.best.parameters)}</p>
+                                    <p className="text-muted-foreground">
+                                        Score {formatScore(optimization.best.score)} · Return {optimization.best.totalReturn.toFixed(2)}% ·
+                                        Drawdown {optimization.best.maxDrawdown.toFixed(2)}% · {optimization.best.trades} trades
+                                    </p>
+                                </>
+                            ) : (
+                                <p className="text-muted-foreground">No configuration traded often enough to score.</p>
+                            )}
+                            {optimization.baseline && (
+                                <p className="text-muted-foreground">
+                                    Current parameters: score {formatScore(optimization.baseline.score)}, return {optimization.baseline.totalReturn.toFixed(2)}%
+                                </p>
+                            )}
+                        </div>
+                        <OverfittingWarning title="In-sample search" assessment={optimization.overfitting} />
+                    </div>
+
+                    {optimization.heatmap && (
+                        <div className="space-y-1">
+                            <span className={LABEL_CLASS}>Score heatmap</span>
+                            <Heatmap heatmap={optimization.heatmap} />
+                        </div>
+                    )}
+
+                    <div className="space-y-1">
+                        <span className={LABEL_CLASS}>Top configurations ({optimization.trials.length} tested)</span>
+                        <table className="w-full text-xs font-mono">
+                            <thead className="text-muted-foreground text-[10px] text-left">
+                                <tr><th>Parameters</th><th>Score</th><th>Return</th><th>Sharpe</th><th>PF</th><th>DD</th><th>Trades</th></tr>
+                            </thead>
+                            <tbody className="text-white">
+                                {optimization.trials.slice(0, 10).map((trial) => (
+                                    <tr key={JSON.stringify(trial.parameters)} className="border-t border-white/5">
+                                        <td className="py-1">{formatParameters(trial.parameters)}</td>
+                                        <td>{formatScore(trial.score)}</td>
+                                        <td>{trial.totalReturn.toFixed(2)}%</td>
+                                        <td>{trial.sharpeRatio.toFixed(2)}</td>
+                                        <td>{trial.profitFactor.toFixed(2)}</td>
+                                        <td>{trial.maxDrawdown.toFixed(2)}%</td>
+                                        <td>{trial.trades}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            )}
+
+            {walkForward && (
+                <div className="space-y-3 border-t border-white/10 pt-4 animate-in fade-in">
+                    <div className="flex flex-wrap items-center gap-4 text-xs">
+                        <span className={LABEL_CLASS}>Walk-forward validation</span>
+                        <span className="text-muted-foreground">
+                            Out-of-sample return <span className={`font-mono ${walkForward.outOfSampleReturn >= 0 ? "text-green-400" : "text-red-400"}`}>{walkForward.outOfSampleReturn.toFixed(2)}%</span>
+                        </span>
+                        <span className="text-muted-foreground">
+                            Efficiency <span className="font-mono text-white">{walkForward.efficiency === null ? "—" : `${(walkForward.efficiency * 100).toFixed(0)}%`}</span>
+                        </span>
+                    </div>
+                    <table className="w-full text-xs font-mono">
+                        <thead className="text-muted-foreground text-[10px] text-left">
+                            <tr><th>In-sample</th><th>Out-of-sample</th><th>Parameters</th><th>IS return</th><th>OOS return</th><th>OOS trades</th></tr>
+                        </thead>
+                        <tbody className="text-white">
+                            {walkForward.windows.map((w) => (
+                                <tr key={w.outOfSample.start} className="border-t border-white/5">
+                                    <td className="py-1">{w.inSample.start} → {w.inSample.end}</td>
+                                    <td>{w.outOfSample.start} → {w.outOfSample.end}</td>
+                                    <td>{formatParameters(w.parameters)}</td>
+                                    <td>{w.inSampleReturn.toFixed(2)}%</td>
+                                    <td className={w.outOfSampleReturn >= 0 ? "text-green-400" : "text-red-400"}>{w.outOfSampleReturn.toFixed(2)}%</td>
+                                    <td>{w.outOfSampleTrades}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    <OverfittingWarning title="Walk-forward" assessment={walkForward.overfitting} />
+                </div>
+            )}
+        </div>
+    );
+}
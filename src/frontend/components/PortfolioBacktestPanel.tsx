@@ -0,0 +1,281 @@
+"use client";
+
+import React, { useState } from "react";
+import { toast } from "sonner";
+import { Layers, RefreshCw } from "lucide-react";
+import { executePortfolioBacktest } from "@/app/backtest/actions";
+import type { PortfolioBacktestResult, PortfolioPoint } from "@/backend/analysis/portfolioBacktest";
+import type { ExecutionModel } from "@/shared/executionModel";
+import type { StrategySpec } from "@/shared/strategySpec";
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+interface PortfolioBacktestPanelProps {
+    /** Built-in/saved strategy id, or the unsaved builder spec */
+    strategy: string | StrategySpec;
+    spec: StrategySpec;
+    execution: ExecutionModel;
+}
+
+type UniverseChoice = "BPJS" | "CUSTOM";
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const INPUT_CLASS = "w-full bg-background/50 border border-border/20 rounded-md px-2 py-1.5 text-xs text-white focus:border-primary outline-none disabled:opacity-50";
+const LABEL_CLASS = "text-[10px] font-bold uppercase text-muted-foreground tracking-wider block mb-1";
+
+const formatCurrency = (value: number) =>
+    new Intl.NumberFormat("id-ID", { style: "currency", currency: "IDR", maximumFractionDigits: 0 }).format(value);
+const formatPercent = (value: number) => `${value >= 0 ? "+" : ""}${value.toFixed(2)}%`;
+
+/** Split "BBRI, TLKM\nASII" style input into symbols */
+function parseSymbols(text: string): string[] {
+    return text.split(/[\s,;]+/).map((s) => s.trim().toUpperCase()).filter(Boolean);
+}
+
+// ============================================================================
+// Sub-components
+// ============================================================================
+
+function EquityChart({ points }: { points: PortfolioPoint[] }) {
+    if (points.length < 2) return null;
+
+    const width = 800;
+    const height = 220;
+    const padding = 20;
+    const exposureHeight = 40;
+    const chartBottom = height - padding - exposureHeight;
+
+    const values = points.flatMap((p) => (p.benchmarkEquity === null ? [p.equity] : [p.equity, p.benchmarkEquity]));
+    const min = Math.min(...values);
+    const range = Math.max(...values) - min || 1;
+    const x = (i: number) => padding + (i / (points.length - 1)) * (width - 2 * padding);
+    const y = (value: number) => chartBottom - ((value - min) / range) * (chartBottom - padding);
+
+    const equityLine = points.map((p, i) => `${x(i)},${y(p.equity)}`).join(" ");
+    const benchmarkLine = points
+        .map((p, i) => (p.benchmarkEquity === null ? null : `${x(i)},${y(p.benchmarkEquity)}`))
+        .filter(Boolean)
+        .join(" ");
+    const exposureArea = [
+        `${x(0)},${height - padding}`,
+        ...points.map((p, i) => `${x(i)},${height - padding - (p.exposurePercent / 100) * exposureHeight}`),
+        `${x(points.length - 1)},${height - padding}`,
+    ].join(" ");
+
+    return (
+        <div className="w-full">
+            <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-[220px] overflow-visible">
+                <line x1={padding} y1={chartBottom} x2={width - padding} y2={chartBottom} stroke="currentColor" strokeOpacity="0.1" strokeDasharray="4" />
+                {benchmarkLine && <polyline points={benchmarkLine} fill="none" stroke="#94a3b8" strokeWidth="1.5" strokeDasharray="4" />}
+                <polyline points={equityLine} fill="none" stroke="#22c55e" strokeWidth="2" strokeLinejoin="round" />
+                <polygon points={exposureArea} fill="#3b82f6" fillOpacity="0.3" />
+            </svg>
+            <div className="flex justify-between text-[10px] text-muted-foreground px-2 font-mono">
+                <span>{points[0].date}</span>
+                <span className="flex gap-3">
+                    <span className="text-green-400">— Portfolio</span>
+                    <span className="text-slate-400">- - IHSG</span>
+                    <span className="text-blue-400">▮ Exposure</span>
+                </span>
+                <span>{points[points.length - 1].date}</span>
+            </div>
+        </div>
+    );
+}
+
+function Stat({ label, value, tone }: { label: string; value: string; tone?: "up" | "down" }) {
+    const color = tone === "up" ? "text-green-400" : tone === "down" ? "text-red-400" : "text-white";
+    return (
+        <div className="bg-background/40 rounded-lg p-3">
+            <span className={LABEL_CLASS}>{label}</span>
+            <span className={`font-mono font-bold ${color}`}>{value}</span>
+        </div>
+    );
+}
+
+// ============================================================================
+// Main Component
+// ============================================================================
+
+/**
+ * Portfolio backtest of the selected strategy across a symbol universe with
+ * shared capital, position limits and sector caps.
+ */
+export function PortfolioBacktestPanel({ strategy, spec, execution }: PortfolioBacktestPanelProps) {
+    const [universe, setUniverse] = useState<UniverseChoice>("BPJS");
+    const [symbolText, setSymbolText] = useState("BBRI, BBCA, BMRI, TLKM, ASII, ANTM, ADRO, UNVR");
+    const [days, setDays] = useState(365);
+    const [maxPositions, setMaxPositions] = useState(5);
+    const [riskPerTradePercent, setRiskPerTradePercent] = useState(1);
+    const [maxPositionPercent, setMaxPositionPercent] = useState(20);
+    const [maxSectorPercent, setMaxSectorPercent] = useState(40);
+    const [result, setResult] = useState<PortfolioBacktestResult | null>(null);
+    const [isRunning, setIsRunning] = useState(false);
+
+    const handleRun = async () => {
+        const symbols = universe === "CUSTOM" ? parseSymbols(symbolText) : null;
+        if (symbols && symbols.length === 0) {
+            toast.error("Enter at least one symbol");
+            return;
+        }
+
+        setIsRunning(true);
+        const loadingToast = toast.loading(`Running ${spec.name} across ${symbols ? `${symbols.length} symbols` : "the BPJS universe"}...`);
+        try {
+            const portfolio = await executePortfolioBacktest(strategy, symbols, days, {
+                maxPositions,
+                riskPerTradePercent,
+                maxPositionPercent,
+                maxSectorPercent,
+                execution,
+            });
+            setResult(portfolio);
+            toast.success("Portfolio backtest completed", { id: loadingToast });
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : "Portfolio backtest failed", { id: loadingToast });
+        } finally {
+            setIsRunning(false);
+        }
+    };
+
+    const numberInput = (label: string, value: number, onChange: (value: number) => void, step = 1) => (
+        <div>
+            <label className={LABEL_CLASS}>{label}</label>
+            <input type="number" className={INPUT_CLASS} value={value} step={step} min={0} onChange={(e) => onChange(Number(e.target.value))} disabled={isRunning} />
+        </div>
+    );
+
+    return (
+        <div className="bg-background/30 border border-border/10 rounded-xl p-6 shadow-lg backdrop-blur-sm space-y-6">
+            <h2 className="text-lg font-semibold flex items-center gap-2 text-white">
+                <Layers className="w-4 h-4 text-primary" /> Portfolio Backtest
+            </h2>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                <div className="space-y-2">
+                    <label className={LABEL_CLASS}>Universe</label>
+                    <select className={INPUT_CLASS} value={universe} onChange={(e) => setUniverse(e.target.value as UniverseChoice)} disabled={isRunning}>
+                        <option value="BPJS">BPJS universe (50 liquid stocks)</option>
+                        <option value="CUSTOM">Custom symbol list</option>
+                    </select>
+                    {universe === "CUSTOM" && (
+                        <textarea
+                            className={`${INPUT_CLASS} font-mono h-20 resize-y uppercase`}
+                            value={symbolText}
+                            onChange={(e) => setSymbolText(e.target.value)}
+                            placeholder="BBRI, TLKM, ASII"
+                            disabled={isRunning}
+                        />
+                    )}
+                    <label className={LABEL_CLASS}>History</label>
+                    <select className={INPUT_CLASS} value={days} onChange={(e) => setDays(Number(e.target.value))} disabled={isRunning}>
+                        <option value={180}>Last 180 Days</option>
+                        <option value={365}>Last 365 Days (1 Year)</option>
+                        <option value={730}>Last 730 Days (2 Years)</option>
+                    </select>
+                </div>
+
+                <div className="grid grid-cols-2 gap-2 content-start">
+                    {numberInput("Max positions", maxPositions, setMaxPositions)}
+                    {numberInput("Risk / trade %", riskPerTradePercent, setRiskPerTradePercent, 0.25)}
+                    {numberInput("Max position %", maxPositionPercent, setMaxPositionPercent, 5)}
+                    {numberInput("Sector cap %", maxSectorPercent, setMaxSectorPercent, 5)}
+                    <p className="col-span-2 text-[10px] text-muted-foreground">
+                        Positions risk a share of equity down to the strategy&apos;s stop (full position cap without a stop), in whole lots.
+                        The strategy&apos;s own sizing rule is not used here.
+                    </p>
+                </div>
+
+                <div className="flex flex-col justify-end">
+                    <button
+                        type="button"
+                        onClick={handleRun}
+                        disabled={isRunning}
+                        className="w-full text-xs font-medium bg-primary/20 hover:bg-primary/30 text-primary rounded-md py-2 flex items-center justify-center gap-1 disabled:opacity-50"
+                    >
+                        {isRunning ? <RefreshCw className="w-3 h-3 animate-spin" /> : <Layers className="w-3 h-3" />}
+                        {isRunning ? "Running..." : `Run ${spec.name} as Portfolio`}
+                    </button>
+                </div>
+            </div>
+
+            {result && (
+                <div className="space-y-4 border-t border-white/10 pt-4 animate-in fade-in">
+                    <div className="grid grid-cols-2 md:grid-cols-6 gap-2">
+                        <Stat label="Total return" value={formatPercent(result.totalReturn)} tone={result.totalReturn >= 0 ? "up" : "down"} />
+                        <Stat
+                            label={`vs ${result.benchmark?.symbol ?? "IHSG"}`}
+                            value={result.benchmark ? formatPercent(result.totalReturn - result.benchmark.totalReturn) : "n/a"}
+                            tone={result.outperformsBenchmark === null ? undefined : result.outperformsBenchmark ? "up" : "down"}
+                        />
+                        <Stat label="Max drawdown" value={`${result.maxDrawdown.toFixed(2)}%`} tone="down" />
+                        <Stat label="Sharpe" value={result.sharpeRatio.toFixed(2)} />
+                        <Stat label="Win rate" value={`${result.winRate.toFixed(1)}%`} />
+                        <Stat label="Avg exposure" value={`${result.averageExposure.toFixed(1)}%`} />
+                    </div>
+
+                    <p className="text-xs text-muted-foreground font-mono">
+                        {result.period.start} — {result.period.end} · {result.symbols.length} symbols · final equity {formatCurrency(result.finalEquity)}
+                        {result.missedSignals > 0 && ` · ${result.missedSignals} signals skipped by limits`}
+                        {result.benchmark && ` · IHSG ${formatPercent(result.benchmark.totalReturn)}`}
+                    </p>
+                    <p className="text-[10px] text-muted-foreground">
+                        Execution: {result.execution.description}
+                        {result.execution.rejectedOrders > 0 && ` · ${result.execution.rejectedOrders} orders refused`}
+                    </p>
+
+                    <EquityChart points={result.equityCurve} />
+
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-xs">
+                        <div className="md:col-span-2 space-y-1">
+                            <span className={LABEL_CLASS}>Contribution by symbol</span>
+                            <table className="w-full font-mono">
+                                <thead className="text-muted-foreground text-[10px] text-left">
+                                    <tr><th>Symbol</th><th>Sector</th><th>Trades</th><th>Win rate</th><th>Profit</th><th>Contribution</th></tr>
+                                </thead>
+                                <tbody className="text-white">
+                                    {result.contributions.map((c) => (
+                                        <tr key={c.symbol} className="border-t border-white/5">
+                                            <td className="py-1">{c.symbol}</td>
+                                            <td className="text-muted-foreground">{c.sector}</td>
+                                            <td>{c.trades}</td>
+                                            <td>{c.winRate.toFixed(0)}%</td>
+                                            <td>{formatCurrency(c.profit)}</td>
+                                            <td className={c.contributionPercent >= 0 ? "text-green-400" : "text-red-400"}>{formatPercent(c.contributionPercent)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                            {result.contributions.length === 0 && <p className="text-muted-foreground">No trades were taken.</p>}
+                        </div>
+
+                        <div className="space-y-1">
+                            <span className={LABEL_CLASS}>Sector exposure (avg / max % of equity)</span>
+                            <table className="w-full font-mono">
+                                <tbody className="text-white">
+                                    {result.sectorExposure.map((s) => (
+                                        <tr key={s.sector} className="border-t border-white/5">
+                                            <td className="py-1">{s.sector}</td>
+                                            <td>{s.averagePercent.toFixed(1)}%</td>
+                                            <td className="text-muted-foreground">{s.maxPercent.toFixed(1)}%</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                            {result.skipped.length > 0 && (
+                                <p className="text-[10px] text-yellow-500/70 pt-2">
+                                    Skipped: {result.skipped.map((s) => `${s.symbol} (${s.reason})`).join(", ")}
+                                </p>
+                            )}
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -1,12 +1,15 @@
 "use client";
 
 import { useState } from "react";
+import { checkPriceLimits, roundToTick } from "@/shared/idxMarketRules";
 
 interface ScalpingCalculatorProps {
     currentPrice: number;
+    /** Previous close, used as the ARA/ARB reference price */
+    previousClose?: number;
 }
 
-export default function ScalpingCalculator({ currentPrice }: ScalpingCalculatorProps) {
+export default function ScalpingCalculator({ currentPrice, previousClose }: ScalpingCalculatorProps) {
     const [entryPrice, setEntryPrice] = useState<string>(() => currentPrice.toString());
     const [lots, setLots] = useState<string>("1");
     const [tpPercent, setTpPercent] = useState<string>("2.0");
@@ -28,20 +31,25 @@ export default function ScalpingCalculator({ currentPrice }: ScalpingCalculatorP
         const modal = entry * shares;
         const feeBuyRp = modal * FEE_BUY;
 
-        // Target Calculation
-        const targetPrice = Math.round(entry * (1 + tpPct / 100));
+        // Target Calculation (snapped to a tick you can actually queue at)
+        const targetPrice = roundToTick(entry * (1 + tpPct / 100), "down");
         const grossSaleTP = targetPrice * shares;
         const feeSellTP = grossSaleTP * FEE_SELL;
         const netProfit = grossSaleTP - modal - feeBuyRp - feeSellTP;
 
         // Stop Consideration
-        const stopPrice = Math.round(entry * (1 - slPct / 100));
+        const stopPrice = roundToTick(entry * (1 - slPct / 100), "down");
         const grossSaleSL = stopPrice * shares;
         const feeSellSL = grossSaleSL * FEE_SELL;
         const netLoss = grossSaleSL - modal - feeBuyRp - feeSellSL;
 
         // Break Even point (approx)
-        const breakEvenPrice = Math.ceil((entry * (1 + FEE_BUY)) / (1 - FEE_SELL));
+        const breakEvenPrice = roundToTick((entry * (1 + FEE_BUY)) / (1 - FEE_SELL), "up");
+
+        // Auto rejection: today's range is anchored to the previous close
+        const reference = previousClose || currentPrice;
+        const targetCheck = reference > 0 ? checkPriceLimits(targetPrice, reference) : null;
+        const stopCheck = reference > 0 ? checkPriceLimits(stopPrice, reference) : null;
 
         return {
             modal,
@@ -50,7 +58,11 @@ export default function ScalpingCalculator({ currentPrice }: ScalpingCalculatorP
             netProfit,
             netLoss,
             breakEvenPrice,
-            rewardRisk: Math.abs(netProfit / netLoss).toFixed(2)
+            rewardRisk: Math.abs(netProfit / netLoss).toFixed(2),
+            targetBeyondARA: targetCheck?.beyondARA ?? false,
+            stopBeyondARB: stopCheck?.beyondARB ?? false,
+            ara: targetCheck?.limits.upper,
+            arb: stopCheck?.limits.lower,
         };
     };
 
@@ -141,6 +153,13 @@ export default function ScalpingCalculator({ currentPrice }: ScalpingCalculatorP
                         <span className="text-muted-foreground">Break Even: <span className="text-foreground font-mono">{result.breakEvenPrice}</span></span>
                         <span className="text-muted-foreground">R:R <span className="text-foreground font-mono">1:{result.rewardRisk}</span></span>
                     </div>
+
+                    {(result.targetBeyondARA || result.stopBeyondARB) && (
+                        <div className="text-[10px] text-yellow-500 font-mono space-y-0.5">
+                            {result.targetBeyondARA && <div>Target above today&apos;s ARA ({result.ara}) — cannot fill today</div>}
+                            {result.stopBeyondARB && <div>Stop below today&apos;s ARB ({result.arb}) — cannot fill today</div>}
+                        </div>
+                    )}
                 </div>
             )}
 
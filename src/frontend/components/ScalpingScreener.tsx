@@ -1,8 +1,10 @@
 "use client";
 
-import { useState, useEffect } from "react";
-import { TrendingUp, RefreshCw, AlertTriangle, ArrowRight, Zap, Activity } from "lucide-react";
+import { useState, useEffect, useRef } from "react";
+import { TrendingUp, RefreshCw, AlertTriangle, ArrowRight, Zap, Activity, X } from "lucide-react";
 import { toast } from "sonner";
+import { fetchScanStream, initialScanProgress, reduceScanProgress, scanProgressPercent } from "@/shared/scanStream";
+import { UniverseSelect } from "./UniverseSelect";
 
 interface ScalpingResult {
     symbol: string;
@@ -20,6 +22,12 @@ interface ScalpingResult {
     };
 }
 
+interface ScalpingScanResponse {
+    success: boolean;
+    results: ScalpingResult[];
+    error?: string;
+}
+
 interface ScalpingScreenerProps {
     onSelectStock: (symbol: string) => void;
 }
@@ -29,12 +37,32 @@ export function ScalpingScreener({ onSelectStock }: ScalpingScreenerProps) {
     const [isLoading, setIsLoading] = useState(false);
     const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
     const [autoRefresh, setAutoRefresh] = useState(false);
+    const [progress, setProgress] = useState(initialScanProgress);
+    const [universe, setUniverse] = useState("TRENDING");
+    const abortRef = useRef<AbortController | null>(null);
+    // Read by auto-refresh scans, which keep the first render's closure
+    const universeRef = useRef(universe);
 
     const fetchScanner = async () => {
+        // A new scan (e.g. auto-refresh) replaces one still running
+        abortRef.current?.abort();
+        const controller = new AbortController();
+        abortRef.current = controller;
         setIsLoading(true);
+        setProgress(initialScanProgress());
         try {
-            const response = await fetch("/api/screener/scalping", { method: "POST" });
-            const data = await response.json();
+            const data = await fetchScanStream<ScalpingResult, ScalpingScanResponse>("/api/screener/scalping", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ universe: universeRef.current }),
+                signal: controller.signal,
+            }, (event) => {
+                setProgress((prev) => reduceScanProgress(prev, event));
+                if (event.type === "candidate") {
+                    // Update cards in place so a refresh does not blank the grid
+                    setResults((prev) => [...prev.filter((r) => r.symbol !== event.result.symbol), event.result].sort((a, b) => b.score - a.score));
+                }
+            });
 
             if (data.success) {
                 setResults(data.results);
@@ -43,12 +71,17 @@ export function ScalpingScreener({ onSelectStock }: ScalpingScreenerProps) {
                 toast.error("Scanner failed: " + data.error);
             }
         } catch (error) {
-            toast.error("Network error scanning market");
+            if (!controller.signal.aborted) {
+                toast.error(error instanceof Error ? error.message : "Network error scanning market");
+            }
         } finally {
-            setIsLoading(false);
+            if (abortRef.current === controller) setIsLoading(false);
         }
     };
 
+    // Stop a running scan when leaving the screener
+    useEffect(() => () => abortRef.current?.abort(), []);
+
     useEffect(() => {
         // Initial scan
         fetchScanner();
@@ -88,11 +121,23 @@ export function ScalpingScreener({ onSelectStock }: ScalpingScreenerProps) {
                         </span>
                     </h2>
                     <p className="text-muted-foreground text-sm mt-1">
-                        Momentum Engine: Scanning top active stocks for rapid setups.
+                        Momentum Engine: Scanning top active stocks (or any universe) for rapid setups.
                     </p>
                 </div>
 
                 <div className="flex items-center gap-3">
+                    <UniverseSelect
+                        className="bg-secondary/20 border border-border rounded-lg px-3 py-2 text-sm outline-none focus:border-primary max-w-[200px]"
+                        value={universe}
+                        onChange={(next) => {
+                            universeRef.current = next;
+                            setUniverse(next);
+                            // Cards from the previous universe would mix with the new scan
+                            setResults([]);
+                            fetchScanner();
+                        }}
+                    />
+
                     <div className="text-right hidden md:block">
                         <div className="text-xs text-muted-foreground">Last Scan</div>
                         <div className="text-sm font-mono">{lastUpdated ? lastUpdated.toLocaleTimeString() : "--:--:--"}</div>
@@ -117,6 +162,27 @@ export function ScalpingScreener({ onSelectStock }: ScalpingScreenerProps) {
                 </div>
             </div>
 
+            {/* Scan Progress */}
+            {isLoading && (
+                <div className="bg-card/50 border border-border rounded-xl px-4 py-3 space-y-2">
+                    <div className="flex items-center justify-between gap-4 text-xs font-mono text-muted-foreground">
+                        <span>
+                            {progress.total > 0 ? `${progress.completed}/${progress.total} stocks` : "Loading trending stocks..."}
+                            {progress.log[0] && <span className="ml-3 text-foreground">{progress.log[0]}</span>}
+                        </span>
+                        <button
+                            onClick={() => abortRef.current?.abort()}
+                            className="flex items-center gap-1 hover:text-red-400 transition-colors"
+                        >
+                            <X className="w-3 h-3" /> Cancel
+                        </button>
+                    </div>
+                    <div className="h-1.5 rounded-full bg-secondary/40 overflow-hidden">
+                        <div className="h-full bg-primary transition-all duration-300" style={{ width: `${scanProgressPercent(progress)}%` }} />
+                    </div>
+                </div>
+            )}
+
             {/* Grid Results */}
             {results.length === 0 && !isLoading ? (
                 <div className="text-center py-20 bg-card/30 rounded-2xl border border-dashed border-border">
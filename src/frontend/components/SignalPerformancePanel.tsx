@@ -0,0 +1,201 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Activity, RefreshCw } from "lucide-react";
+import { evaluateSignalsNow, getSignalPerformance } from "@/app/backtest/actions";
+import type { SignalGroupStats, SignalPerformance } from "@/backend/analysis/signalEvaluation";
+import type { SignalHorizon, SignalSource } from "@/backend/data/signalLedger";
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const LABEL_CLASS = "text-[10px] font-bold uppercase text-muted-foreground tracking-wider block mb-1";
+
+const HORIZONS: SignalHorizon[] = ["1h", "1d", "5d", "20d"];
+
+const SOURCE_LABELS: Record<SignalSource, string> = {
+    STOCK_API: "Stock analysis",
+    MULTI_TIMEFRAME: "Multi-timeframe",
+    SCALPING_SCREENER: "Scalping screener",
+};
+
+const formatPercent = (value: number) => `${value >= 0 ? "+" : ""}${value.toFixed(2)}%`;
+
+const formatSignalTime = (iso: string) =>
+    new Date(iso).toLocaleString("id-ID", { dateStyle: "short", timeStyle: "short", timeZone: "Asia/Jakarta" });
+
+// ============================================================================
+// Sub-components
+// ============================================================================
+
+function GroupTable({ title, groups, label = (key) => key }: {
+    title: string;
+    groups: SignalGroupStats[];
+    label?: (key: string) => string;
+}) {
+    return (
+        <div className="space-y-1">
+            <span className={LABEL_CLASS}>{title}</span>
+            {groups.length === 0 ? (
+                <p className="text-[10px] text-muted-foreground">No signals yet.</p>
+            ) : (
+                <table className="w-full font-mono">
+                    <thead className="text-muted-foreground text-[10px] text-left">
+                        <tr><th></th><th>Signals</th><th>Hit</th><th>Avg</th><th>Target 1st</th></tr>
+                    </thead>
+                    <tbody className="text-white">
+                        {groups.map((g) => (
+                            <tr key={g.key} className="border-t border-white/5">
+                                <td className="py-1 pr-2 truncate max-w-[160px]" title={label(g.key)}>{label(g.key)}</td>
+                                <td>{g.evaluated}/{g.signals}</td>
+                                <td>{g.evaluated > 0 ? `${g.hitRate.toFixed(0)}%` : "—"}</td>
+                                <td className={g.averageReturn >= 0 ? "text-green-400" : "text-red-400"}>{g.evaluated > 0 ? formatPercent(g.averageReturn) : "—"}</td>
+                                <td>{g.targetFirstRate !== null ? `${g.targetFirstRate.toFixed(0)}% (${g.resolved})` : "—"}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    );
+}
+
+// ============================================================================
+// Main Component
+// ============================================================================
+
+/**
+ * Live track record of every BUY/SELL call the app has made: hit rate and
+ * forward return by source, indicator, confidence and mode.
+ */
+export function SignalPerformancePanel() {
+    const [horizon, setHorizon] = useState<SignalHorizon>("1d");
+    const [performance, setPerformance] = useState<SignalPerformance | null>(null);
+    const [refreshKey, setRefreshKey] = useState(0);
+    const [isEvaluating, setIsEvaluating] = useState(false);
+
+    useEffect(() => {
+        getSignalPerformance(horizon)
+            .then(setPerformance)
+            .catch((err) => console.error("Failed to load signal performance:", err));
+    }, [horizon, refreshKey]);
+
+    const handleEvaluate = async () => {
+        setIsEvaluating(true);
+        try {
+            const evaluated = await evaluateSignalsNow();
+            toast.success(`Evaluated ${evaluated} pending signal${evaluated === 1 ? "" : "s"}`);
+            setRefreshKey((k) => k + 1);
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : "Signal evaluation failed");
+        } finally {
+            setIsEvaluating(false);
+        }
+    };
+
+    const sourceLabel = (key: string) => SOURCE_LABELS[key as SignalSource] ?? key;
+
+    return (
+        <div className="bg-background/30 border border-border/10 rounded-xl p-6 shadow-lg backdrop-blur-sm space-y-4">
+            <div className="flex items-center justify-between gap-4 flex-wrap">
+                <h2 className="text-lg font-semibold flex items-center gap-2 text-white">
+                    <Activity className="w-4 h-4 text-primary" /> Signal Performance
+                    {performance && (
+                        <span className="text-xs font-normal text-muted-foreground">
+                            ({performance.total} signals, {performance.pending} pending)
+                        </span>
+                    )}
+                </h2>
+                <div className="flex items-center gap-2">
+                    <div className="flex rounded-md border border-border/20 overflow-hidden text-xs">
+                        {HORIZONS.map((h) => (
+                            <button
+                                key={h}
+                                type="button"
+                                onClick={() => setHorizon(h)}
+                                className={`px-2 py-1 ${horizon === h ? "bg-primary/30 text-primary" : "text-muted-foreground hover:text-white"}`}
+                            >
+                                {h}
+                            </button>
+                        ))}
+                    </div>
+                    <button
+                        type="button"
+                        onClick={handleEvaluate}
+                        disabled={isEvaluating}
+                        className="text-xs font-medium bg-primary/20 hover:bg-primary/30 text-primary rounded-md px-3 py-1.5 flex items-center gap-1 disabled:opacity-50"
+                    >
+                        <RefreshCw className={`w-3 h-3 ${isEvaluating ? "animate-spin" : ""}`} /> Evaluate now
+                    </button>
+                </div>
+            </div>
+
+            {!performance || performance.total === 0 ? (
+                <p className="text-xs text-muted-foreground">
+                    Every BUY/SELL call from stock analysis, multi-timeframe analysis and the scalping screener is recorded
+                    here and scored after 1 hour and 1, 5 and 20 trading days.
+                </p>
+            ) : (
+                <div className="space-y-4 animate-in fade-in">
+                    <p className="text-xs text-muted-foreground font-mono">
+                        {performance.horizon}: {performance.overall.evaluated} evaluated ·{" "}
+                        hit {performance.overall.evaluated > 0 ? `${performance.overall.hitRate.toFixed(0)}%` : "—"} ·{" "}
+                        avg {performance.overall.evaluated > 0 ? formatPercent(performance.overall.averageReturn) : "—"} ·{" "}
+                        target first {performance.overall.targetFirstRate !== null ? `${performance.overall.targetFirstRate.toFixed(0)}%` : "—"}
+                    </p>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-xs">
+                        <GroupTable title="By source" groups={performance.bySource} label={sourceLabel} />
+                        <GroupTable title="By confidence" groups={performance.byConfidence} />
+                        <GroupTable title="By mode" groups={performance.byMode} />
+                        <GroupTable title="By indicator" groups={performance.byIndicator} />
+                    </div>
+
+                    <div className="space-y-1 text-xs">
+                        <span className={LABEL_CLASS}>Latest signals</span>
+                        <div className="overflow-x-auto max-h-[320px] overflow-y-auto">
+                            <table className="w-full font-mono">
+                                <thead className="text-muted-foreground text-[10px] text-left sticky top-0 bg-background/80 backdrop-blur-sm">
+                                    <tr>
+                                        <th>Time</th><th>Symbol</th><th>Call</th><th>Source</th><th>Conf.</th><th>Price</th>
+                                        {HORIZONS.map((h) => <th key={h}>{h}</th>)}
+                                        <th>First hit</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="text-white">
+                                    {performance.recent.map((s) => (
+                                        <tr key={s.id} className="border-t border-white/5">
+                                            <td className="py-1 pr-2 text-muted-foreground">{formatSignalTime(s.emittedAt)}</td>
+                                            <td className="pr-2">{s.symbol}</td>
+                                            <td className={`pr-2 ${s.direction === "BUY" ? "text-green-400" : "text-red-400"}`} title={s.reasons.join("\n")}>{s.action}</td>
+                                            <td className="pr-2 text-muted-foreground">{sourceLabel(s.source)} · {s.mode}</td>
+                                            <td className="pr-2">{s.confidence.toFixed(0)}</td>
+                                            <td className="pr-2">{s.price.toLocaleString("id-ID")}</td>
+                                            {HORIZONS.map((h) => {
+                                                const value = s.outcome.returns[h];
+                                                return (
+                                                    <td key={h} className={`pr-2 ${value === undefined ? "text-muted-foreground" : value >= 0 ? "text-green-400" : "text-red-400"}`}>
+                                                        {value === undefined ? "—" : formatPercent(value)}
+                                                    </td>
+                                                );
+                                            })}
+                                            <td>{s.outcome.firstHit ?? "—"}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    </div>
+
+                    <p className="text-[10px] text-muted-foreground">
+                        Returns are measured in the direction of the call from the price at the time. Hit = moved the
+                        right way at the selected horizon. Target 1st = touched the suggested target before the stop
+                        (calls without levels are left out).
+                    </p>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -2,7 +2,7 @@
 
 import React, { useState, useEffect, useRef, useMemo } from "react";
 import { Search, X, TrendingUp } from "lucide-react";
-import { POPULAR_IDX_STOCKS } from "@/frontend/data/stockList";
+import { POPULAR_IDX_STOCKS, type StockOption } from "@/frontend/data/stockList";
 
 interface StockSearchProps {
     onSelect: (symbol: string) => void;
@@ -10,12 +10,73 @@ interface StockSearchProps {
     initialValue?: string;
 }
 
+// The company master is fetched once per page load and shared by every search box
+let companiesRequest: Promise<StockOption[]> | null = null;
+
+function loadCompanies(): Promise<StockOption[]> {
+    if (!companiesRequest) {
+        companiesRequest = fetch("/api/companies")
+            .then((response) => response.json())
+            .then((data) => (data.success ? data.companies as StockOption[] : []))
+            .catch(() => {
+                companiesRequest = null; // try again next time
+                return [];
+            });
+    }
+    return companiesRequest;
+}
+
+// Symbols the master does not hold are looked up one at a time, once each
+const lookupRequests = new Map<string, Promise<StockOption | null>>();
+
+function lookupCompany(symbol: string): Promise<StockOption | null> {
+    let request = lookupRequests.get(symbol);
+    if (!request) {
+        request = fetch(`/api/companies/${encodeURIComponent(symbol)}`)
+            .then((response) => response.json())
+            .then((data) => (data.success ? { ...data.company, sector: data.company.sector ?? undefined } as StockOption : null))
+            .catch(() => {
+                lookupRequests.delete(symbol); // try again next time
+                return null;
+            });
+        lookupRequests.set(symbol, request);
+    }
+    return request;
+}
+
 export function StockSearch({ onSelect, isLoading = false, initialValue = "" }: StockSearchProps) {
     const [query, setQuery] = useState(initialValue);
     const [isOpen, setIsOpen] = useState(false);
     const [selectedIndex, setSelectedIndex] = useState(-1);
     const wrapperRef = useRef<HTMLDivElement>(null);
     const inputRef = useRef<HTMLInputElement>(null);
+    const [companies, setCompanies] = useState<StockOption[]>(POPULAR_IDX_STOCKS);
+    const [lookedUp, setLookedUp] = useState<StockOption | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        loadCompanies().then((list) => {
+            if (!cancelled && list.length > 0) setCompanies(list);
+        });
+        return () => { cancelled = true; };
+    }, []);
+
+    // A full ticker the master does not hold: ask the provider for its name
+    useEffect(() => {
+        const symbol = query.trim();
+        if (symbol.length < 4 || companies.some(stock => stock.symbol === symbol)) return;
+
+        let cancelled = false;
+        const timer = setTimeout(() => {
+            lookupCompany(symbol).then((company) => {
+                if (!cancelled && company) setLookedUp(company);
+            });
+        }, 250);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [query, companies]);
 
     // Filter suggestions based on query
     const suggestions = useMemo(() => {
@@ -24,13 +85,19 @@ export function StockSearch({ onSelect, isLoading = false, initialValue = "" }:
         // If exact match doesn't exist in our list but user typed 4 chars, show it as generic top option
         const normalizedQuery = query.toUpperCase().trim();
 
-        const matches = POPULAR_IDX_STOCKS.filter(stock =>
+        // Ticker prefix first, then ticker anywhere, then company name
+        const rank = (stock: StockOption) =>
+            stock.symbol.startsWith(normalizedQuery) ? 0 : stock.symbol.includes(normalizedQuery) ? 1 : 2;
+        const matches = companies.filter(stock =>
             stock.symbol.includes(normalizedQuery) ||
             stock.name.toUpperCase().includes(normalizedQuery)
-        ).slice(0, 8);
+        ).sort((a, b) => rank(a) - rank(b)).slice(0, 8);
 
+        if (lookedUp?.symbol === normalizedQuery && !matches.some(stock => stock.symbol === normalizedQuery)) {
+            return [lookedUp, ...matches.slice(0, 7)];
+        }
         return matches;
-    }, [query]);
+    }, [query, companies, lookedUp]);
 
     // Handle outside click to close dropdown
     useEffect(() => {
@@ -174,7 +241,7 @@ export function StockSearch({ onSelect, isLoading = false, initialValue = "" }:
                             </li>
                         )}
 
-                        {/* Popular Matches */}
+                        {/* Company Matches */}
                         {suggestions.map((stock, index) => (
                             <li
                                 key={stock.symbol}
@@ -191,9 +258,11 @@ export function StockSearch({ onSelect, isLoading = false, initialValue = "" }:
                                     <div>
                                         <div className="font-bold text-foreground font-mono flex items-center gap-2">
                                             {stock.symbol}
-                                            <span className="text-[10px] px-1.5 py-0.5 rounded bg-secondary/50 text-muted-foreground font-sans font-normal">
-                                                {stock.sector}
-                                            </span>
+                                            {stock.sector && (
+                                                <span className="text-[10px] px-1.5 py-0.5 rounded bg-secondary/50 text-muted-foreground font-sans font-normal">
+                                                    {stock.sector}
+                                                </span>
+                                            )}
                                         </div>
                                         <div className="text-xs text-muted-foreground line-clamp-1">{stock.name}</div>
                                     </div>
@@ -204,7 +273,7 @@ export function StockSearch({ onSelect, isLoading = false, initialValue = "" }:
                         {/* No results */}
                         {suggestions.length === 0 && query.length < 4 && (
                             <li className="px-4 py-8 text-center text-muted-foreground text-sm">
-                                No popular suggestions found.<br />
+                                No matching company found.<br />
                                 <span className="text-xs opacity-50">Press Enter to search anyway.</span>
                             </li>
                         )}
@@ -0,0 +1,565 @@
+"use client";
+
+import React, { useState } from "react";
+import { Plus, Trash2, Code2, SlidersHorizontal } from "lucide-react";
+import {
+    COMPARATORS,
+    STRATEGY_INDICATORS,
+    SWING_SCALE_OUT,
+    describeCondition,
+    isComparison,
+    isIndicatorOperand,
+    validateStrategySpec,
+    type Comparator,
+    type ComparisonCondition,
+    type IndicatorOperand,
+    type Operand,
+    type ParamValue,
+    type StrategyCondition,
+    type StrategyIndicator,
+    type StrategySpec,
+} from "@/shared/strategySpec";
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+interface StrategyBuilderProps {
+    spec: StrategySpec;
+    onChange: (spec: StrategySpec) => void;
+    disabled?: boolean;
+}
+
+type GroupMode = "all" | "any";
+
+interface FlatGroup {
+    mode: GroupMode;
+    rules: ComparisonCondition[];
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const INPUT_CLASS = "w-full bg-background/50 border border-border/20 rounded-md px-2 py-1.5 text-xs text-white focus:border-primary outline-none disabled:opacity-50";
+const LABEL_CLASS = "text-[10px] font-bold uppercase text-muted-foreground tracking-wider block mb-1";
+
+const COMPARATOR_LABELS: Record<Comparator, string> = {
+    ">": ">",
+    ">=": "≥",
+    "<": "<",
+    "<=": "≤",
+    crossesAbove: "crosses above",
+    crossesBelow: "crosses below",
+};
+
+/** Split a condition into an editable flat ALL/ANY group; null when it is nested */
+function toFlatGroup(condition: StrategyCondition | undefined): FlatGroup | null {
+    if (!condition) return { mode: "all", rules: [] };
+    if (isComparison(condition)) return { mode: "all", rules: [condition] };
+    const list = "all" in condition ? condition.all : "any" in condition ? condition.any : null;
+    if (!list || !list.every(isComparison)) return null;
+    return { mode: "all" in condition ? "all" : "any", rules: list as ComparisonCondition[] };
+}
+
+function fromFlatGroup(group: FlatGroup): StrategyCondition | undefined {
+    if (group.rules.length === 0) return undefined;
+    if (group.rules.length === 1) return group.rules[0];
+    return group.mode === "all" ? { all: group.rules } : { any: group.rules };
+}
+
+function numberOrUndefined(value: string): number | undefined {
+    if (value.trim() === "") return undefined;
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function literal(value: ParamValue | undefined): string {
+    return typeof value === "number" ? String(value) : "";
+}
+
+const NEW_RULE: ComparisonCondition = { left: { indicator: "RSI" }, op: "<", right: 30 };
+
+// ============================================================================
+// Sub-Components
+// ============================================================================
+
+const OperandEditor = ({
+    operand,
+    parameters,
+    onChange,
+    disabled,
+}: {
+    operand: Operand;
+    parameters: string[];
+    onChange: (operand: Operand) => void;
+    disabled?: boolean;
+}) => {
+    const kind = isIndicatorOperand(operand) ? "indicator" : typeof operand === "number" ? "number" : "param";
+
+    const switchKind = (next: string) => {
+        if (next === "indicator") onChange({ indicator: "CLOSE" });
+        else if (next === "param") onChange({ param: parameters[0] ?? "" });
+        else onChange(0);
+    };
+
+    return (
+        <div className="flex flex-wrap items-center gap-1">
+            <select className={`${INPUT_CLASS} w-auto`} value={kind} onChange={(e) => switchKind(e.target.value)} disabled={disabled}>
+                <option value="indicator">Indicator</option>
+                <option value="number">Value</option>
+                <option value="param" disabled={parameters.length === 0}>Parameter</option>
+            </select>
+
+            {kind === "number" && (
+                <input
+                    type="number"
+                    className={`${INPUT_CLASS} w-20`}
+                    value={operand as number}
+                    onChange={(e) => onChange(numberOrUndefined(e.target.value) ?? 0)}
+                    disabled={disabled}
+                />
+            )}
+
+            {kind === "param" && (
+                <select
+                    className={`${INPUT_CLASS} w-auto`}
+                    value={(operand as { param: string }).param}
+                    onChange={(e) => onChange({ param: e.target.value })}
+                    disabled={disabled}
+                >
+                    {parameters.map((name) => <option key={name} value={name}>{name}</option>)}
+                </select>
+            )}
+
+            {kind === "indicator" && (
+                <IndicatorEditor operand={operand as IndicatorOperand} onChange={onChange} disabled={disabled} />
+            )}
+        </div>
+    );
+};
+
+const IndicatorEditor = ({
+    operand,
+    onChange,
+    disabled,
+}: {
+    operand: IndicatorOperand;
+    onChange: (operand: IndicatorOperand) => void;
+    disabled?: boolean;
+}) => {
+    const definition = STRATEGY_INDICATORS[operand.indicator];
+
+    return (
+        <>
+            <select
+                className={`${INPUT_CLASS} w-auto`}
+                value={operand.indicator}
+                onChange={(e) => onChange({ indicator: e.target.value as StrategyIndicator })}
+                disabled={disabled}
+            >
+                {(Object.keys(STRATEGY_INDICATORS) as StrategyIndicator[]).map((name) => (
+                    <option key={name} value={name}>{STRATEGY_INDICATORS[name].label}</option>
+                ))}
+            </select>
+            {definition.fields && (
+                <select
+                    className={`${INPUT_CLASS} w-auto`}
+                    value={operand.field ?? definition.fields[0]}
+                    onChange={(e) => onChange({ ...operand, field: e.target.value })}
+                    disabled={disabled}
+                >
+                    {definition.fields.map((field) => <option key={field} value={field}>{field}</option>)}
+                </select>
+            )}
+            {Object.entries(definition.params).map(([name, fallback]) => (
+                <input
+                    key={name}
+                    type="number"
+                    title={name}
+                    placeholder={name}
+                    className={`${INPUT_CLASS} w-16`}
+                    value={literal(operand.params?.[name]) || String(fallback)}
+                    onChange={(e) => {
+                        const value = numberOrUndefined(e.target.value);
+                        const params = { ...operand.params };
+                        if (value === undefined) delete params[name];
+                        else params[name] = value;
+                        onChange({ ...operand, params });
+                    }}
+                    disabled={disabled}
+                />
+            ))}
+        </>
+    );
+};
+
+const RuleGroupEditor = ({
+    title,
+    condition,
+    parameters,
+    onChange,
+    disabled,
+}: {
+    title: string;
+    condition: StrategyCondition | undefined;
+    parameters: string[];
+    onChange: (condition: StrategyCondition | undefined) => void;
+    disabled?: boolean;
+}) => {
+    const group = toFlatGroup(condition);
+
+    if (!group) {
+        return (
+            <div className="space-y-1">
+                <span className={LABEL_CLASS}>{title}</span>
+                <p className="text-xs text-muted-foreground bg-background/40 rounded-md p-2 font-mono">
+                    {describeCondition(condition as StrategyCondition)}
+                </p>
+                <p className="text-[10px] text-yellow-500/70">Nested condition — edit it in the JSON view.</p>
+            </div>
+        );
+    }
+
+    const update = (next: FlatGroup) => onChange(fromFlatGroup(next));
+    const updateRule = (index: number, rule: ComparisonCondition) =>
+        update({ ...group, rules: group.rules.map((r, k) => (k === index ? rule : r)) });
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center justify-between">
+                <span className={LABEL_CLASS}>{title}</span>
+                <select
+                    className={`${INPUT_CLASS} w-auto`}
+                    value={group.mode}
+                    onChange={(e) => update({ ...group, mode: e.target.value as GroupMode })}
+                    disabled={disabled || group.rules.length < 2}
+                >
+                    <option value="all">All rules (AND)</option>
+                    <option value="any">Any rule (OR)</option>
+                </select>
+            </div>
+
+            {group.rules.map((rule, index) => (
+                <div key={index} className="bg-background/30 border border-border/10 rounded-md p-2 space-y-1">
+                    <OperandEditor
+                        operand={rule.left}
+                        parameters={parameters}
+                        onChange={(left) => updateRule(index, { ...rule, left, label: undefined })}
+                        disabled={disabled}
+                    />
+                    <div className="flex items-center gap-1">
+                        <select
+                            className={`${INPUT_CLASS} w-auto`}
+                            value={rule.op}
+                            onChange={(e) => updateRule(index, { ...rule, op: e.target.value as Comparator, label: undefined })}
+                            disabled={disabled}
+                        >
+                            {COMPARATORS.map((op) => <option key={op} value={op}>{COMPARATOR_LABELS[op]}</option>)}
+                        </select>
+                        <button
+                            type="button"
+                            className="ml-auto text-muted-foreground hover:text-red-400 disabled:opacity-50"
+                            onClick={() => update({ ...group, rules: group.rules.filter((_, k) => k !== index) })}
+                            disabled={disabled}
+                            title="Remove rule"
+                        >
+                            <Trash2 className="w-3.5 h-3.5" />
+                        </button>
+                    </div>
+                    <OperandEditor
+                        operand={rule.right}
+                        parameters={parameters}
+                        onChange={(right) => updateRule(index, { ...rule, right, label: undefined })}
+                        disabled={disabled}
+                    />
+                </div>
+            ))}
+
+            <button
+                type="button"
+                className="text-xs text-primary hover:text-primary/80 flex items-center gap-1 disabled:opacity-50"
+                onClick={() => update({ ...group, rules: [...group.rules, NEW_RULE] })}
+                disabled={disabled}
+            >
+                <Plus className="w-3 h-3" /> Add rule
+            </button>
+        </div>
+    );
+};
+
+// ============================================================================
+// Main Component
+// ============================================================================
+
+export function StrategyBuilder({ spec, onChange, disabled = false }: StrategyBuilderProps) {
+    const [view, setView] = useState<"form" | "json">("form");
+    const [jsonText, setJsonText] = useState("");
+    const [jsonErrors, setJsonErrors] = useState<string[]>([]);
+
+    const parameters = Object.keys(spec.parameters ?? {});
+    const risk = spec.risk ?? {};
+    const sizingPercent = spec.sizing?.type === "PERCENT_EQUITY" ? literal(spec.sizing.percent) : "";
+    const errors = validateStrategySpec(spec);
+
+    const setRisk = (key: "stopLossPercent" | "takeProfitPercent" | "trailingStopPercent" | "maxHoldingBars", value: string) => {
+        const next = { ...risk };
+        const parsed = numberOrUndefined(value);
+        if (parsed === undefined) delete next[key];
+        else next[key] = parsed;
+        onChange({ ...spec, risk: next });
+    };
+
+    /** ATR multiple of a trailing stop; clearing it removes the stop */
+    const setAtrDistance = (key: "atrTrailingStop" | "chandelierStop", value: string) => {
+        const next = { ...risk };
+        const parsed = numberOrUndefined(value);
+        if (parsed === undefined) delete next[key];
+        else next[key] = { ...next[key], multiplier: parsed };
+        onChange({ ...spec, risk: next });
+    };
+
+    const setTimeStop = (value: string) => {
+        const next = { ...risk };
+        const parsed = numberOrUndefined(value);
+        if (parsed === undefined) delete next.timeStop;
+        else next.timeStop = { ...next.timeStop, bars: parsed };
+        onChange({ ...spec, risk: next });
+    };
+
+    const setSwingScaleOut = (enabled: boolean) => {
+        const next = { ...risk };
+        if (enabled) {
+            next.takeProfitLevels = SWING_SCALE_OUT;
+            next.breakEvenAfterFirstTarget = true;
+        } else {
+            delete next.takeProfitLevels;
+            delete next.breakEvenAfterFirstTarget;
+        }
+        onChange({ ...spec, risk: next });
+    };
+
+    const renameParameter = (from: string, to: string) => {
+        if (!to || to === from || to in (spec.parameters ?? {})) return;
+        const next: Record<string, number> = {};
+        for (const [name, value] of Object.entries(spec.parameters ?? {})) next[name === from ? to : name] = value;
+        onChange({ ...spec, parameters: next });
+    };
+
+    const applyJson = () => {
+        try {
+            const parsed = JSON.parse(jsonText);
+            const problems = validateStrategySpec(parsed);
+            setJsonErrors(problems);
+            if (problems.length === 0) onChange(parsed as StrategySpec);
+        } catch (err) {
+            setJsonErrors([err instanceof Error ? err.message : "Invalid JSON"]);
+        }
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="flex gap-1 bg-background/40 rounded-lg p-1">
+                {(["form", "json"] as const).map((mode) => (
+                    <button
+                        key={mode}
+                        type="button"
+                        onClick={() => {
+                            // Start the JSON view from the latest form edits
+                            if (mode === "json" && view !== "json") {
+                                setJsonText(JSON.stringify(spec, null, 2));
+                                setJsonErrors([]);
+                            }
+                            setView(mode);
+                        }}
+                        className={`flex-1 text-xs py-1.5 rounded-md flex items-center justify-center gap-1 transition-colors ${view === mode ? "bg-primary/20 text-primary" : "text-muted-foreground hover:text-white"}`}
+                    >
+                        {mode === "form" ? <SlidersHorizontal className="w-3 h-3" /> : <Code2 className="w-3 h-3" />}
+                        {mode === "form" ? "Builder" : "JSON"}
+                    </button>
+                ))}
+            </div>
+
+            {view === "json" ? (
+                <div className="space-y-2">
+                    <textarea
+                        className={`${INPUT_CLASS} font-mono h-80 resize-y`}
+                        value={jsonText}
+                        onChange={(e) => setJsonText(e.target.value)}
+                        spellCheck={false}
+                        disabled={disabled}
+                    />
+                    {jsonErrors.length > 0 && (
+                        <ul className="text-[10px] text-red-400 space-y-0.5 list-disc pl-4">
+                            {jsonErrors.map((e) => <li key={e}>{e}</li>)}
+                        </ul>
+                    )}
+                    <button
+                        type="button"
+                        onClick={applyJson}
+                        disabled={disabled}
+                        className="w-full text-xs font-medium bg-primary/20 hover:bg-primary/30 text-primary rounded-md py-2 disabled:opacity-50"
+                    >
+                        Apply JSON
+                    </button>
+                </div>
+            ) : (
+                <>
+                    <div className="space-y-2">
+                        <label className={LABEL_CLASS}>Name</label>
+                        <input
+                            className={INPUT_CLASS}
+                            value={spec.name}
+                            onChange={(e) => onChange({ ...spec, name: e.target.value })}
+                            disabled={disabled}
+                        />
+                    </div>
+
+                    {/* Parameters */}
+                    <div className="space-y-2">
+                        <span className={LABEL_CLASS}>Parameters</span>
+                        {parameters.map((name) => (
+                            <div key={name} className="flex items-center gap-1">
+                                <input
+                                    className={`${INPUT_CLASS} font-mono`}
+                                    defaultValue={name}
+                                    onBlur={(e) => renameParameter(name, e.target.value.trim())}
+                                    disabled={disabled}
+                                />
+                                <input
+                                    type="number"
+                                    className={`${INPUT_CLASS} w-24`}
+                                    value={spec.parameters?.[name] ?? 0}
+                                    onChange={(e) => onChange({ ...spec, parameters: { ...spec.parameters, [name]: numberOrUndefined(e.target.value) ?? 0 } })}
+                                    disabled={disabled}
+                                />
+                                <button
+                                    type="button"
+                                    className="text-muted-foreground hover:text-red-400 disabled:opacity-50"
+                                    onClick={() => {
+                                        const next = { ...spec.parameters };
+                                        delete next[name];
+                                        onChange({ ...spec, parameters: next });
+                                    }}
+                                    disabled={disabled}
+                                    title="Remove parameter"
+                                >
+                                    <Trash2 className="w-3.5 h-3.5" />
+                                </button>
+                            </div>
+                        ))}
+                        <button
+                            type="button"
+                            className="text-xs text-primary hover:text-primary/80 flex items-center gap-1 disabled:opacity-50"
+                            onClick={() => onChange({ ...spec, parameters: { ...spec.parameters, [`param${parameters.length + 1}`]: 0 } })}
+                            disabled={disabled}
+                        >
+                            <Plus className="w-3 h-3" /> Add parameter
+                        </button>
+                    </div>
+
+                    <RuleGroupEditor
+                        title="Entry"
+                        condition={spec.entry}
+                        parameters={parameters}
+                        onChange={(entry) => onChange({ ...spec, entry: entry ?? NEW_RULE })}
+                        disabled={disabled}
+                    />
+                    <RuleGroupEditor
+                        title="Exit"
+                        condition={spec.exit}
+                        parameters={parameters}
+                        onChange={(exit) => onChange({ ...spec, exit })}
+                        disabled={disabled}
+                    />
+
+                    {/* Risk & Sizing */}
+                    <div className="grid grid-cols-2 gap-2">
+                        {([
+                            ["stopLossPercent", "Stop Loss %"],
+                            ["takeProfitPercent", "Take Profit %"],
+                            ["trailingStopPercent", "Trailing Stop %"],
+                            ["maxHoldingBars", "Max Bars Held"],
+                        ] as const).map(([key, label]) => (
+                            <div key={key}>
+                                <label className={LABEL_CLASS}>{label}</label>
+                                {typeof risk[key] === "object" ? (
+                                    <p className="text-xs font-mono text-muted-foreground py-1.5">
+                                        {`{${(risk[key] as { param: string }).param}}`}
+                                    </p>
+                                ) : (
+                                    <input
+                                        type="number"
+                                        className={INPUT_CLASS}
+                                        value={literal(risk[key])}
+                                        onChange={(e) => setRisk(key, e.target.value)}
+                                        disabled={disabled}
+                                    />
+                                )}
+                            </div>
+                        ))}
+                        <div className="col-span-2">
+                            <label className={LABEL_CLASS}>Position Size (% of equity)</label>
+                            <input
+                                type="number"
+                                className={INPUT_CLASS}
+                                value={sizingPercent}
+                                placeholder={spec.sizing && spec.sizing.type !== "PERCENT_EQUITY" ? spec.sizing.type : "95"}
+                                onChange={(e) => {
+                                    const percent = numberOrUndefined(e.target.value);
+                                    onChange({ ...spec, sizing: percent === undefined ? undefined : { type: "PERCENT_EQUITY", percent } });
+                                }}
+                                disabled={disabled}
+                            />
+                        </div>
+                    </div>
+
+                    {/* Exit Management */}
+                    <div className="grid grid-cols-3 gap-2">
+                        {([
+                            ["atrTrailingStop", "ATR Trail ×"],
+                            ["chandelierStop", "Chandelier ×"],
+                        ] as const).map(([key, label]) => (
+                            <div key={key}>
+                                <label className={LABEL_CLASS}>{label}</label>
+                                <input
+                                    type="number"
+                                    step="0.5"
+                                    className={INPUT_CLASS}
+                                    value={literal(risk[key]?.multiplier)}
+                                    onChange={(e) => setAtrDistance(key, e.target.value)}
+                                    disabled={disabled}
+                                />
+                            </div>
+                        ))}
+                        <div>
+                            <label className={LABEL_CLASS}>Time Stop Bars</label>
+                            <input
+                                type="number"
+                                className={INPUT_CLASS}
+                                value={literal(risk.timeStop?.bars)}
+                                onChange={(e) => setTimeStop(e.target.value)}
+                                disabled={disabled}
+                            />
+                        </div>
+                        <label className="col-span-3 flex items-center gap-2 text-xs text-muted-foreground">
+                            <input
+                                type="checkbox"
+                                checked={risk.takeProfitLevels !== undefined}
+                                onChange={(e) => setSwingScaleOut(e.target.checked)}
+                                disabled={disabled}
+                            />
+                            Swing scale-out: 30% at 1.5R, 50% at 2R, rest at 3R; stop to breakeven after TP1
+                        </label>
+                    </div>
+
+                    {errors.length > 0 && (
+                        <ul className="text-[10px] text-red-400 space-y-0.5 list-disc pl-4">
+                            {errors.map((e) => <li key={e}>{e}</li>)}
+                        </ul>
+                    )}
+                </>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,227 @@
+"use client";
+
+import React, { useState } from "react";
+import { toast } from "sonner";
+import { History, RefreshCw } from "lucide-react";
+import { executeSwingReplay } from "@/app/backtest/actions";
+import type { ScreenerStage, SwingFactor, SwingReplayResult } from "@/lib/swing/replay";
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const INPUT_CLASS = "w-full bg-background/50 border border-border/20 rounded-md px-2 py-1.5 text-xs text-white focus:border-primary outline-none disabled:opacity-50";
+const LABEL_CLASS = "text-[10px] font-bold uppercase text-muted-foreground tracking-wider block mb-1";
+
+const formatPercent = (value: number) => `${value >= 0 ? "+" : ""}${value.toFixed(2)}%`;
+const formatRate = (value: number, count: number) => (count > 0 ? `${value.toFixed(0)}%` : "—");
+
+const STAGE_LABELS: Record<ScreenerStage, string> = {
+    LAYER_1: "Rejected: liquidity",
+    LAYER_2: "Rejected: price action",
+    LAYER_3: "Rejected: quality",
+    QUALIFIED: "Qualified",
+};
+
+const FACTOR_LABELS: Record<SwingFactor, string> = {
+    trend: "Trend",
+    momentum: "Momentum",
+    macd: "MACD",
+    volume: "Volume",
+    support_resistance: "Support / resistance",
+    patterns: "Patterns",
+    multi_timeframe: "Multi-timeframe",
+};
+
+// ============================================================================
+// Main Component
+// ============================================================================
+
+/**
+ * Historical replay of the swing screener: how often did qualified signals
+ * reach their targets before the stop, and what did rejected stocks do?
+ */
+export function SwingReplayPanel() {
+    const [days, setDays] = useState(180);
+    const [stepDays, setStepDays] = useState(5);
+    const [horizonDays, setHorizonDays] = useState(20);
+    const [result, setResult] = useState<SwingReplayResult | null>(null);
+    const [isRunning, setIsRunning] = useState(false);
+
+    const handleRun = async () => {
+        setIsRunning(true);
+        const loadingToast = toast.loading(`Replaying the swing screener over ${days} days...`);
+        try {
+            setResult(await executeSwingReplay({ days, stepDays, horizonDays }));
+            toast.success("Swing replay completed", { id: loadingToast });
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : "Swing replay failed", { id: loadingToast });
+        } finally {
+            setIsRunning(false);
+        }
+    };
+
+    const numberInput = (label: string, value: number, onChange: (value: number) => void) => (
+        <div>
+            <label className={LABEL_CLASS}>{label}</label>
+            <input type="number" className={INPUT_CLASS} value={value} min={1} onChange={(e) => onChange(Number(e.target.value))} disabled={isRunning} />
+        </div>
+    );
+
+    const tracked = result ? result.signals.filter((s) => s.tracking !== null) : [];
+
+    return (
+        <div className="bg-background/30 border border-border/10 rounded-xl p-6 shadow-lg backdrop-blur-sm space-y-6">
+            <h2 className="text-lg font-semibold flex items-center gap-2 text-white">
+                <History className="w-4 h-4 text-primary" /> Swing Screener Replay
+            </h2>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                <div className="space-y-2">
+                    <label className={LABEL_CLASS}>History</label>
+                    <select className={INPUT_CLASS} value={days} onChange={(e) => setDays(Number(e.target.value))} disabled={isRunning}>
+                        <option value={90}>Last 90 Days</option>
+                        <option value={180}>Last 180 Days</option>
+                        <option value={365}>Last 1 Year</option>
+                    </select>
+                </div>
+
+                <div className="grid grid-cols-2 gap-2 content-start">
+                    {numberInput("Screen every (days)", stepDays, setStepDays)}
+                    {numberInput("Follow for (days)", horizonDays, setHorizonDays)}
+                    <p className="col-span-2 text-[10px] text-muted-foreground">
+                        The screener runs on past dates from the data known at that close. Each qualified signal is
+                        followed forward to see whether TP1/TP2/TP3 or the stop came first.
+                    </p>
+                </div>
+
+                <div className="flex flex-col justify-end">
+                    <button
+                        type="button"
+                        onClick={handleRun}
+                        disabled={isRunning}
+                        className="w-full text-xs font-medium bg-primary/20 hover:bg-primary/30 text-primary rounded-md py-2 flex items-center justify-center gap-1 disabled:opacity-50"
+                    >
+                        {isRunning ? <RefreshCw className="w-3 h-3 animate-spin" /> : <History className="w-3 h-3" />}
+                        {isRunning ? "Replaying..." : "Replay Swing Screener"}
+                    </button>
+                </div>
+            </div>
+
+            {result && (
+                <div className="space-y-4 border-t border-white/10 pt-4 animate-in fade-in">
+                    <p className="text-xs text-muted-foreground font-mono">
+                        {result.period.start} — {result.period.end} · {result.symbols.length} symbols · {result.evaluations} screens ·{" "}
+                        {result.signals.length} qualified · {tracked.length} tracked
+                    </p>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-xs">
+                        <div className="space-y-1">
+                            <span className={LABEL_CLASS}>By grade (tracked signals)</span>
+                            <table className="w-full font-mono">
+                                <thead className="text-muted-foreground text-[10px] text-left">
+                                    <tr><th>Grade</th><th>Signals</th><th>TP1</th><th>TP2</th><th>TP3</th><th>Stop</th><th>Expired</th><th>Avg</th><th>Days</th></tr>
+                                </thead>
+                                <tbody className="text-white">
+                                    {result.grades.map((g) => (
+                                        <tr key={g.grade} className="border-t border-white/5">
+                                            <td className="py-1">{g.grade}</td>
+                                            <td>{g.tracked}/{g.signals}</td>
+                                            <td>{formatRate(g.tp1Rate, g.tracked)}</td>
+                                            <td>{formatRate(g.tp2Rate, g.tracked)}</td>
+                                            <td>{formatRate(g.tp3Rate, g.tracked)}</td>
+                                            <td className="text-red-400">{formatRate(g.stopRate, g.tracked)}</td>
+                                            <td>{formatRate(g.expiredRate, g.tracked)}</td>
+                                            <td className={g.averageReturn >= 0 ? "text-green-400" : "text-red-400"}>{g.tracked > 0 ? formatPercent(g.averageReturn) : "—"}</td>
+                                            <td>{g.tracked > 0 ? g.averageBarsHeld.toFixed(1) : "—"}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+
+                        <div className="space-y-1">
+                            <span className={LABEL_CLASS}>By screener stage ({result.config.horizonDays}-day forward return)</span>
+                            <table className="w-full font-mono">
+                                <thead className="text-muted-foreground text-[10px] text-left">
+                                    <tr><th>Stage</th><th>Screens</th><th>Up</th><th>Avg</th><th>Top reasons</th></tr>
+                                </thead>
+                                <tbody className="text-white">
+                                    {result.stages.map((s) => (
+                                        <tr key={s.stage} className="border-t border-white/5 align-top">
+                                            <td className="py-1 pr-2">{STAGE_LABELS[s.stage]}</td>
+                                            <td>{s.evaluations}</td>
+                                            <td>{formatRate(s.positiveRate, s.evaluations)}</td>
+                                            <td className={s.averageForwardReturn >= 0 ? "text-green-400" : "text-red-400"}>{s.evaluations > 0 ? formatPercent(s.averageForwardReturn) : "—"}</td>
+                                            <td className="text-[10px] text-muted-foreground">
+                                                {s.topReasons.map((r) => `${r.reason} (${r.count})`).join(" · ")}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    </div>
+
+                    <div className="space-y-1 text-xs">
+                        <span className={LABEL_CLASS}>By factor score (TP1 rate / stop rate / avg return)</span>
+                        <table className="w-full font-mono">
+                            <thead className="text-muted-foreground text-[10px] text-left">
+                                <tr><th>Factor</th><th>Corr.</th>{result.factors[0]?.bands.map((b) => <th key={b.label}>{b.label}</th>)}</tr>
+                            </thead>
+                            <tbody className="text-white">
+                                {result.factors.map((f) => (
+                                    <tr key={f.factor} className="border-t border-white/5">
+                                        <td className="py-1 pr-2">{FACTOR_LABELS[f.factor]}</td>
+                                        <td className={f.correlation >= 0 ? "text-green-400" : "text-red-400"}>{f.correlation.toFixed(2)}</td>
+                                        {f.bands.map((b) => (
+                                            <td key={b.label} className="text-[10px] text-muted-foreground">
+                                                {b.tracked > 0
+                                                    ? `${b.tp1Rate.toFixed(0)}% / ${b.stopRate.toFixed(0)}% / ${formatPercent(b.averageReturn)} (${b.tracked})`
+                                                    : "—"}
+                                            </td>
+                                        ))}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+
+                    {tracked.length > 0 && (
+                        <div className="space-y-1 text-xs">
+                            <span className={LABEL_CLASS}>Latest tracked signals</span>
+                            <table className="w-full font-mono">
+                                <thead className="text-muted-foreground text-[10px] text-left">
+                                    <tr><th>Date</th><th>Symbol</th><th>Grade</th><th>Entry</th><th>Stop</th><th>TP1</th><th>First hit</th><th>Return</th></tr>
+                                </thead>
+                                <tbody className="text-white">
+                                    {tracked.slice(-10).reverse().map((s) => (
+                                        <tr key={`${s.date}-${s.symbol}`} className="border-t border-white/5">
+                                            <td className="py-1">{s.date}</td>
+                                            <td>{s.symbol}</td>
+                                            <td>{s.grade} ({s.score})</td>
+                                            <td>{s.price.toLocaleString("id-ID")}</td>
+                                            <td>{s.stop?.toLocaleString("id-ID")}</td>
+                                            <td>{s.targets?.[0].toLocaleString("id-ID")}</td>
+                                            <td>{s.tracking!.firstHit === "NONE" ? "Expired" : s.tracking!.firstHit}</td>
+                                            <td className={s.tracking!.returnPercent >= 0 ? "text-green-400" : "text-red-400"}>{formatPercent(s.tracking!.returnPercent)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+
+                    <ul className="text-[10px] text-muted-foreground list-disc pl-4">
+                        {result.assumptions.map((a) => <li key={a}>{a}</li>)}
+                    </ul>
+                    {result.skipped.length > 0 && (
+                        <p className="text-[10px] text-yellow-500/70">
+                            Skipped: {result.skipped.map((s) => `${s.symbol} (${s.reason})`).join(", ")}
+                        </p>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
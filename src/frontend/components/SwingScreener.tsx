@@ -1,8 +1,11 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { AlertCircle, CheckCircle, TrendingUp, TrendingDown, Activity, DollarSign, Shield, BarChart2 } from 'lucide-react';
 import { toast } from 'sonner';
+import { BPJSScanProgress } from './BPJSScanProgress';
+import { fetchScanStream, initialScanProgress, reduceScanProgress } from '@/shared/scanStream';
+import { UniverseSelect } from './UniverseSelect';
 
 interface SwingConfluence {
     factor: string;
@@ -12,6 +15,15 @@ interface SwingConfluence {
     details: string;
 }
 
+interface SwingChartPattern {
+    label: string;
+    direction: 'BULLISH' | 'BEARISH' | 'NEUTRAL';
+    status: 'FORMING' | 'BREAKOUT';
+    breakoutLevel: number;
+    target: number;
+    invalidation: number;
+}
+
 interface SwingSignal {
     symbol: string;
     companyName: string;
@@ -19,6 +31,7 @@ interface SwingSignal {
     score: number;
     riskRewardRatio: number;
     confluenceFactors: SwingConfluence[];
+    chart_patterns?: SwingChartPattern[];
     recommendation: {
         action: 'BUY' | 'WAIT';
         entryZone: [number, number];
@@ -30,15 +43,35 @@ interface SwingSignal {
     timestamp: string;
 }
 
+interface SwingScanResponse {
+    success: boolean;
+    count: number;
+    data: SwingSignal[];
+}
+
 export function SwingScreener() {
     const [signals, setSignals] = useState<SwingSignal[]>([]);
     const [loading, setLoading] = useState(false);
+    const [progress, setProgress] = useState(initialScanProgress);
+    const [universe, setUniverse] = useState('SWING');
+    const abortRef = useRef<AbortController | null>(null);
+
+    // Stop a running scan when leaving the screener
+    useEffect(() => () => abortRef.current?.abort(), []);
 
     const runScan = async () => {
+        const controller = new AbortController();
+        abortRef.current = controller;
         setLoading(true);
+        setSignals([]);
+        setProgress(initialScanProgress());
         try {
-            const res = await fetch('/api/screener/swing');
-            const data = await res.json();
+            const data = await fetchScanStream<SwingSignal, SwingScanResponse>(`/api/screener/swing?universe=${encodeURIComponent(universe)}`, { signal: controller.signal }, (event) => {
+                setProgress((prev) => reduceScanProgress(prev, event));
+                if (event.type === 'candidate') {
+                    setSignals((prev) => [...prev, event.result].sort((a, b) => b.score - a.score));
+                }
+            });
             if (data.success) {
                 setSignals(data.data);
                 toast.success(`Found ${data.count} swing setups!`);
@@ -46,7 +79,11 @@ export function SwingScreener() {
                 toast.error('Scan failed');
             }
         } catch (e) {
-            toast.error('Error running scan');
+            if (controller.signal.aborted) {
+                toast.info('Scan cancelled');
+            } else {
+                toast.error(e instanceof Error ? e.message : 'Error running scan');
+            }
         } finally {
             setLoading(false);
         }
@@ -63,23 +100,40 @@ export function SwingScreener() {
                         High-Probability Setups (100-500 IDR) • 7-Factor Confluence
                     </p>
                 </div>
-                <button
-                    onClick={runScan}
-                    disabled={loading}
-                    className="flex items-center gap-2 px-5 py-2.5 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg shadow-lg shadow-indigo-500/30 transition-all hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed font-medium"
-                >
-                    {loading ? (
-                        <>
-                            <Activity className="animate-spin h-4 w-4" /> Scanning Market...
-                        </>
-                    ) : (
-                        <>
-                            Start AI Scan <Activity className="h-4 w-4" />
-                        </>
-                    )}
-                </button>
+                <div className="flex items-center gap-3">
+                    <UniverseSelect
+                        className="rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 px-3 py-2.5 text-sm max-w-[220px]"
+                        value={universe}
+                        onChange={setUniverse}
+                        disabled={loading}
+                    />
+                    <button
+                        onClick={runScan}
+                        disabled={loading}
+                        className="flex items-center gap-2 px-5 py-2.5 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg shadow-lg shadow-indigo-500/30 transition-all hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed font-medium"
+                    >
+                        {loading ? (
+                            <>
+                                <Activity className="animate-spin h-4 w-4" /> Scanning Market...
+                            </>
+                        ) : (
+                            <>
+                                Start AI Scan <Activity className="h-4 w-4" />
+                            </>
+                        )}
+                    </button>
+                </div>
             </div>
 
+            {loading && (
+                <BPJSScanProgress
+                    progress={progress}
+                    onCancel={() => abortRef.current?.abort()}
+                    analysisShare={0}
+                    title="🌊 Scanning swing universe..."
+                />
+            )}
+
             {signals.length === 0 && !loading && (
                 <div className="text-center py-20 bg-gray-50 dark:bg-gray-800/50 rounded-2xl border border-dashed border-gray-300 dark:border-gray-700">
                     <Activity className="h-16 w-16 mx-auto text-gray-400 mb-4" />
@@ -180,6 +234,25 @@ function SwingCard({ signal }: { signal: SwingSignal }) {
                     </div>
                 </div>
 
+                {/* Chart Patterns */}
+                {signal.chart_patterns && signal.chart_patterns.length > 0 && (
+                    <div className="px-5 pt-5 space-y-2">
+                        <h4 className="text-xs font-bold text-gray-400 uppercase tracking-wider">
+                            Chart Patterns
+                        </h4>
+                        {signal.chart_patterns.map((p, idx) => (
+                            <div key={idx} className="flex justify-between items-center text-xs">
+                                <span className={`font-medium ${p.direction === 'BULLISH' ? 'text-green-600' : p.direction === 'BEARISH' ? 'text-red-500' : 'text-gray-500'}`}>
+                                    {p.label}{p.status === 'BREAKOUT' ? ' ✓' : ''}
+                                </span>
+                                <span className="font-mono text-gray-500">
+                                    {Math.round(p.breakoutLevel)} → {Math.round(p.target)} / ✕ {Math.round(p.invalidation)}
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
                 {/* Confluence List */}
                 <div className="p-5">
                     <h4 className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-4">
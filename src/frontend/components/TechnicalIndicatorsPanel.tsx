@@ -1,5 +1,15 @@
 "use client";
 
+import type {
+    VWAPSummary,
+    OBVSummary,
+    IchimokuSummary,
+    TrendStopSummary,
+    ChannelSummary,
+    VolumeProfileSummary,
+    AnchoredVWAPSummary,
+} from "@/shared/types";
+
 // ============================================================================
 // Type Definitions (mirroring from API for frontend use)
 // ============================================================================
@@ -40,11 +50,21 @@ interface Indicators {
     ema50: number | null;
     sma20: number | null;
     volumeAnalysis: VolumeAnalysisResult | null; // Changed type as per instruction
+    vwap?: VWAPSummary | null;
+    obv?: OBVSummary | null;
+    mfi?: IndicatorResult | null;
+    ichimoku?: IchimokuSummary | null;
+    supertrend?: TrendStopSummary | null;
+    parabolicSar?: TrendStopSummary | null;
+    keltner?: ChannelSummary | null;
+    donchian?: ChannelSummary | null;
 }
 
 interface TechnicalIndicatorsPanelProps {
     indicators: Indicators | null;
     currentPrice: number;
+    volumeProfile?: VolumeProfileSummary | null;
+    anchoredVwaps?: AnchoredVWAPSummary[];
     error?: string | null;
     isLoading?: boolean;
 }
@@ -310,6 +330,207 @@ const SMACard = ({ sma20, currentPrice }: { sma20: number | null; currentPrice:
     );
 };
 
+const VWAPCard = ({ vwap }: { vwap: VWAPSummary | null | undefined }) => {
+    if (!vwap) return <IndicatorCard title="VWAP"><span className="text-gray-500">No data</span></IndicatorCard>;
+
+    const isAbove = vwap.position === "ABOVE";
+    const color = isAbove ? "text-green-500" : "text-red-500";
+
+    return (
+        <IndicatorCard title="VWAP">
+            <div className="flex items-center justify-between">
+                <span className="text-2xl font-mono font-bold text-white">{formatNumber(vwap.value, 0)}</span>
+                <span className="text-xl">{isAbove ? "🟢" : "🔴"}</span>
+            </div>
+            <p className={`text-xs mt-2 ${color}`}>
+                Price {isAbove ? "above" : "below"} VWAP ({vwap.distancePercent >= 0 ? "+" : ""}{formatNumber(vwap.distancePercent, 2)}%)
+            </p>
+        </IndicatorCard>
+    );
+};
+
+const OBVCard = ({ obv, mfi }: { obv: OBVSummary | null | undefined; mfi: IndicatorResult | null | undefined }) => {
+    if (!obv && !mfi) return <IndicatorCard title="OBV / MFI"><span className="text-gray-500">No data</span></IndicatorCard>;
+
+    const trendColor = obv?.trend === "RISING" ? "text-green-400" : obv?.trend === "FALLING" ? "text-red-400" : "text-gray-300";
+    const mfiColor = mfi && mfi.value < 20 ? "text-green-400" : mfi && mfi.value > 80 ? "text-red-400" : "text-yellow-500";
+
+    return (
+        <IndicatorCard title="OBV / MFI">
+            <div className="space-y-1.5 text-xs">
+                <div className="flex justify-between">
+                    <span className="text-gray-500">OBV:</span>
+                    <span className="font-mono text-gray-300">{formatVolume(obv?.value)}</span>
+                </div>
+                <div className="flex justify-between">
+                    <span className="text-gray-500">OBV Trend:</span>
+                    <span className={`font-mono ${trendColor}`}>{obv?.trend ?? "N/A"}</span>
+                </div>
+                <div className="flex justify-between border-t border-gray-700 pt-1 mt-1">
+                    <span className="text-gray-500">MFI (14):</span>
+                    <span className={`font-mono ${mfiColor}`}>{formatNumber(mfi?.value, 1)}</span>
+                </div>
+            </div>
+            {obv && obv.divergence !== "NONE" && (
+                <p className={`text-xs mt-2 ${obv.divergence === "BULLISH" ? "text-green-400" : "text-red-400"}`}>
+                    {obv.divergence === "BULLISH" ? "Accumulation (OBV up, price down)" : "Distribution (OBV down, price up)"}
+                </p>
+            )}
+        </IndicatorCard>
+    );
+};
+
+const IchimokuCard = ({ ichimoku }: { ichimoku: IchimokuSummary | null | undefined }) => {
+    if (!ichimoku) return <IndicatorCard title="Ichimoku"><span className="text-gray-500">No data</span></IndicatorCard>;
+
+    let color = "text-yellow-500";
+    let label = "Inside Cloud";
+    if (ichimoku.cloudPosition === "ABOVE") {
+        color = "text-green-500";
+        label = "Above Cloud";
+    } else if (ichimoku.cloudPosition === "BELOW") {
+        color = "text-red-500";
+        label = "Below Cloud";
+    }
+
+    return (
+        <IndicatorCard title="Ichimoku">
+            <div className="flex items-center justify-between mb-2">
+                <span className={`text-sm font-bold ${color}`}>{label}</span>
+                {ichimoku.tkCross !== "NONE" && (
+                    <span className={`text-xs ${ichimoku.tkCross === "BULLISH" ? "text-green-400" : "text-red-400"}`}>
+                        TK {ichimoku.tkCross === "BULLISH" ? "▲" : "▼"}
+                    </span>
+                )}
+            </div>
+            <div className="grid grid-cols-2 gap-1 text-xs">
+                <div>
+                    <span className="text-gray-500">Tenkan:</span>
+                    <span className="ml-1 font-mono text-gray-300">{formatNumber(ichimoku.tenkan, 0)}</span>
+                </div>
+                <div>
+                    <span className="text-gray-500">Kijun:</span>
+                    <span className="ml-1 font-mono text-gray-300">{formatNumber(ichimoku.kijun, 0)}</span>
+                </div>
+                <div>
+                    <span className="text-gray-500">Span A:</span>
+                    <span className="ml-1 font-mono text-gray-300">{formatNumber(ichimoku.senkouA, 0)}</span>
+                </div>
+                <div>
+                    <span className="text-gray-500">Span B:</span>
+                    <span className="ml-1 font-mono text-gray-300">{formatNumber(ichimoku.senkouB, 0)}</span>
+                </div>
+            </div>
+        </IndicatorCard>
+    );
+};
+
+const TrendStopRow = ({ label, stop }: { label: string; stop: TrendStopSummary | null | undefined }) => (
+    <div className="flex justify-between items-center">
+        <span className="text-gray-500">{label}:</span>
+        {stop ? (
+            <div className="flex items-center gap-2">
+                <span className="font-mono text-gray-300">{formatNumber(stop.value, 0)}</span>
+                <span className={stop.trend === "UP" ? "text-green-400" : "text-red-400"}>
+                    {stop.trend === "UP" ? "▲" : "▼"}{stop.flipped ? " flip" : ""}
+                </span>
+            </div>
+        ) : (
+            <span className="font-mono text-gray-500">N/A</span>
+        )}
+    </div>
+);
+
+const TrendStopsCard = ({ supertrend, parabolicSar }: { supertrend: TrendStopSummary | null | undefined; parabolicSar: TrendStopSummary | null | undefined }) => {
+    if (!supertrend && !parabolicSar) return <IndicatorCard title="Supertrend / SAR"><span className="text-gray-500">No data</span></IndicatorCard>;
+
+    const trend = supertrend?.trend ?? parabolicSar?.trend;
+
+    return (
+        <IndicatorCard title="Supertrend / SAR">
+            <div className="flex items-center justify-between mb-2">
+                <span className={`text-sm font-bold ${trend === "UP" ? "text-green-500" : "text-red-500"}`}>
+                    {trend === "UP" ? "Uptrend" : "Downtrend"}
+                </span>
+                <span className="text-lg">{trend === "UP" ? "🟢" : "🔴"}</span>
+            </div>
+            <div className="space-y-1.5 text-xs">
+                <TrendStopRow label="Supertrend" stop={supertrend} />
+                <TrendStopRow label="Parabolic SAR" stop={parabolicSar} />
+            </div>
+        </IndicatorCard>
+    );
+};
+
+const ChannelRow = ({ label, channel }: { label: string; channel: ChannelSummary | null | undefined }) => {
+    const color = channel?.position === "ABOVE_UPPER" ? "text-green-400" : channel?.position === "BELOW_LOWER" ? "text-red-400" : "text-gray-400";
+    return (
+        <div className="space-y-0.5">
+            <div className="flex justify-between">
+                <span className="text-gray-500">{label}:</span>
+                <span className={`font-mono ${color}`}>
+                    {channel ? channel.position.replace("_", " ") : "N/A"}
+                </span>
+            </div>
+            {channel && (
+                <div className="flex justify-between font-mono text-gray-400">
+                    <span>{formatNumber(channel.lower, 0)}</span>
+                    <span>{formatNumber(channel.middle, 0)}</span>
+                    <span>{formatNumber(channel.upper, 0)}</span>
+                </div>
+            )}
+        </div>
+    );
+};
+
+const ChannelsCard = ({ keltner, donchian }: { keltner: ChannelSummary | null | undefined; donchian: ChannelSummary | null | undefined }) => {
+    if (!keltner && !donchian) return <IndicatorCard title="Keltner / Donchian"><span className="text-gray-500">No data</span></IndicatorCard>;
+
+    return (
+        <IndicatorCard title="Keltner / Donchian">
+            <div className="space-y-2 text-xs">
+                <ChannelRow label="Keltner (20, 2×ATR)" channel={keltner} />
+                <ChannelRow label="Donchian (20)" channel={donchian} />
+            </div>
+        </IndicatorCard>
+    );
+};
+
+const VolumeProfileCard = ({ profile, anchoredVwaps, currentPrice }: {
+    profile: VolumeProfileSummary | null | undefined;
+    anchoredVwaps: AnchoredVWAPSummary[] | undefined;
+    currentPrice: number;
+}) => {
+    if (!profile && !anchoredVwaps?.length) return <IndicatorCard title="Volume Profile"><span className="text-gray-500">No data</span></IndicatorCard>;
+
+    const levelColor = (price: number) => price < currentPrice ? "text-green-400" : price > currentPrice ? "text-red-400" : "text-gray-300";
+
+    return (
+        <IndicatorCard title="Volume Profile / AVWAP">
+            <div className="space-y-1.5 text-xs">
+                {profile && (
+                    <>
+                        <div className="flex justify-between">
+                            <span className="text-gray-500">POC:</span>
+                            <span className={`font-mono font-bold ${levelColor(profile.poc)}`}>{formatNumber(profile.poc, 0)}</span>
+                        </div>
+                        <div className="flex justify-between">
+                            <span className="text-gray-500">VAH / VAL:</span>
+                            <span className="font-mono text-gray-300">{formatNumber(profile.vah, 0)} / {formatNumber(profile.val, 0)}</span>
+                        </div>
+                    </>
+                )}
+                {anchoredVwaps?.map((a) => (
+                    <div key={`${a.anchorType}-${a.anchorPrice}`} className="flex justify-between border-t border-gray-700 pt-1 mt-1">
+                        <span className="text-gray-500">AVWAP {a.anchorType === "HIGH" ? "▼" : "▲"} {formatNumber(a.anchorPrice, 0)}:</span>
+                        <span className={`font-mono ${levelColor(a.value)}`}>{formatNumber(a.value, 0)}</span>
+                    </div>
+                ))}
+            </div>
+        </IndicatorCard>
+    );
+};
+
 // ============================================================================
 // Main Component
 // ============================================================================
@@ -317,6 +538,8 @@ const SMACard = ({ sma20, currentPrice }: { sma20: number | null; currentPrice:
 export function TechnicalIndicatorsPanel({
     indicators,
     currentPrice,
+    volumeProfile,
+    anchoredVwaps,
     error,
     isLoading = false
 }: TechnicalIndicatorsPanelProps) {
@@ -423,6 +646,12 @@ export function TechnicalIndicatorsPanel({
                 <EMACard ema20={indicators.ema20} ema50={indicators.ema50} currentPrice={currentPrice} />
                 <VolumeCard volumeAnalysis={indicators.volumeAnalysis} />
                 <SMACard sma20={indicators.sma20} currentPrice={currentPrice} />
+                <VWAPCard vwap={indicators.vwap} />
+                <OBVCard obv={indicators.obv} mfi={indicators.mfi} />
+                <IchimokuCard ichimoku={indicators.ichimoku} />
+                <TrendStopsCard supertrend={indicators.supertrend} parabolicSar={indicators.parabolicSar} />
+                <ChannelsCard keltner={indicators.keltner} donchian={indicators.donchian} />
+                <VolumeProfileCard profile={volumeProfile} anchoredVwaps={anchoredVwaps} currentPrice={currentPrice} />
             </div>
         </div>
     );
@@ -1,5 +1,7 @@
 "use client";
 
+import type { CandlestickPatternSummary } from "@/shared/types";
+
 // ============================================================================
 // Type Definitions
 // ============================================================================
@@ -21,6 +23,7 @@ interface Recommendation {
 interface TradingSignalsPanelProps {
     signals: Signal[];
     recommendation: Recommendation | null;
+    patterns?: CandlestickPatternSummary[];
     isLoading?: boolean;
 }
 
@@ -147,6 +150,26 @@ const SignalCard = ({ signal }: { signal: Signal }) => {
     );
 };
 
+const PatternChips = ({ patterns }: { patterns: CandlestickPatternSummary[] }) => (
+    <div className="flex flex-wrap gap-2">
+        {patterns.map((pattern, index) => {
+            const color = pattern.direction === "BULLISH"
+                ? "bg-green-500/10 text-green-400 border-green-500/30"
+                : pattern.direction === "BEARISH"
+                    ? "bg-red-500/10 text-red-400 border-red-500/30"
+                    : "bg-gray-500/10 text-gray-400 border-gray-600";
+            return (
+                <span key={index} className={`px-2 py-1 rounded border text-xs font-medium ${color}`}>
+                    {pattern.label}
+                    <span className="ml-1 text-[10px] opacity-70">
+                        {pattern.barsAgo === 0 ? "now" : `-${pattern.barsAgo}`} · {pattern.reliability}
+                    </span>
+                </span>
+            );
+        })}
+    </div>
+);
+
 const EmptySignals = () => (
     <div className="bg-gray-900 border border-gray-800 rounded-lg p-6 text-center">
         <div className="text-3xl mb-2">🔍</div>
@@ -159,7 +182,7 @@ const EmptySignals = () => (
 // Main Component
 // ============================================================================
 
-export function TradingSignalsPanel({ signals, recommendation, isLoading = false }: TradingSignalsPanelProps) {
+export function TradingSignalsPanel({ signals, recommendation, patterns = [], isLoading = false }: TradingSignalsPanelProps) {
     if (isLoading) {
         return (
             <div className="w-full">
@@ -192,6 +215,16 @@ export function TradingSignalsPanel({ signals, recommendation, isLoading = false
                     </div>
                 )}
 
+                {/* Candlestick Patterns */}
+                {patterns.length > 0 && (
+                    <div>
+                        <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-3">
+                            Pola Candlestick
+                        </h3>
+                        <PatternChips patterns={patterns} />
+                    </div>
+                )}
+
                 {/* Individual Signals Section */}
                 <div>
                     <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-3">
@@ -0,0 +1,69 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { UniverseKind, UniverseSummary } from "@/backend/data/universeRegistry";
+
+interface UniverseSelectProps {
+    value: string;
+    onChange: (universe: string) => void;
+    className?: string;
+    disabled?: boolean;
+    /** Add a "Custom symbols" entry (value CUSTOM) for ad-hoc lists */
+    allowAdHoc?: boolean;
+    /** Change to reload the list, e.g. after saving a custom list */
+    refreshKey?: number;
+}
+
+const GROUPS: { kind: UniverseKind; label: string }[] = [
+    { kind: "INDEX", label: "Indices" },
+    { kind: "CURATED", label: "Screener lists" },
+    { kind: "DYNAMIC", label: "Dynamic" },
+    { kind: "SECTOR", label: "IDX-IC sectors" },
+    { kind: "CUSTOM", label: "Saved lists" },
+];
+
+function optionLabel(u: UniverseSummary): string {
+    const size = u.size === null ? "" : ` · ${u.size}`;
+    const version = u.kind === "INDEX" && u.version ? ` (${u.version})` : "";
+    return `${u.name}${version}${size}`;
+}
+
+/**
+ * Picker for any universe of the registry (`/api/universes`), grouped by kind.
+ */
+export function UniverseSelect({ value, onChange, className, disabled, allowAdHoc = false, refreshKey = 0 }: UniverseSelectProps) {
+    const [universes, setUniverses] = useState<UniverseSummary[]>([]);
+
+    useEffect(() => {
+        const load = async () => {
+            try {
+                const data = await (await fetch("/api/universes")).json();
+                if (data.success) setUniverses(data.universes);
+            } catch (error) {
+                console.error("Failed to load universes:", error);
+            }
+        };
+        load();
+    }, [refreshKey]);
+
+    // Keep the current value selectable while the list loads (or if it was removed)
+    const known = value === "CUSTOM" || universes.some((u) => u.id === value);
+
+    return (
+        <select className={className} value={value} disabled={disabled} onChange={(e) => onChange(e.target.value)}>
+            {!known && <option value={value}>{value}</option>}
+            {GROUPS.map((group) => {
+                const members = universes.filter((u) => u.kind === group.kind);
+                if (members.length === 0) return null;
+                return (
+                    <optgroup key={group.kind} label={group.label}>
+                        {members.map((u) => (
+                            <option key={u.id} value={u.id} title={u.description}>{optionLabel(u)}</option>
+                        ))}
+                    </optgroup>
+                );
+            })}
+            {allowAdHoc && <option value="CUSTOM">Custom symbols…</option>}
+        </select>
+    );
+}
@@ -1,4 +1,4 @@
-import { describe, it, expect, vi } from 'vitest'
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import { render, screen, fireEvent } from '@testing-library/react'
 import { StockSearch } from '../StockSearch'
 
@@ -43,3 +43,60 @@ describe('StockSearch Component', () => {
         expect(handleSelect).toHaveBeenCalledWith('BBCA')
     })
 })
+
+describe('StockSearch with the company master', () => {
+    const companies = [
+        { symbol: 'ABBA', name: 'Mahaka Media', sector: 'Consumer Cyclicals' },
+        { symbol: 'BBRI', name: 'Bank Rakyat Indonesia', sector: 'Financials' },
+        { symbol: 'SBBB', name: 'Sample BB Holdings', sector: 'Industrials' },
+        { symbol: 'ZZZZ', name: 'BB Prima', sector: 'Technology' },
+    ]
+    let fetchMock: ReturnType<typeof vi.fn>
+
+    beforeEach(() => {
+        // The component caches its requests per module, so load a fresh copy per test
+        vi.resetModules()
+        fetchMock = vi.fn(async (url: string) => {
+            if (url === '/api/companies') {
+                return { json: async () => ({ success: true, version: 'test', companies }) }
+            }
+            if (url === '/api/companies/WXYZ') {
+                return { json: async () => ({ success: true, company: { symbol: 'WXYZ', name: 'Wahana Xylo Tbk', sector: null, source: 'PROVIDER' } }) }
+            }
+            return { json: async () => ({ error: 'Company not found' }) }
+        })
+        vi.stubGlobal('fetch', fetchMock)
+    })
+
+    afterEach(() => {
+        vi.unstubAllGlobals()
+    })
+
+    it('should search the fetched master, ticker prefixes first', async () => {
+        const { StockSearch } = await import('../StockSearch')
+        render(<StockSearch onSelect={() => { }} />)
+        const input = screen.getByPlaceholderText(/search ticker/i)
+
+        // BBRI is not in the popular list, so it only shows once the master has loaded
+        fireEvent.change(input, { target: { value: 'BB' } })
+        await screen.findByText('BBRI')
+        expect(fetchMock).toHaveBeenCalledWith('/api/companies')
+
+        const symbols = screen.getAllByRole('listitem').map(item => item.textContent?.slice(0, 4))
+        expect(symbols).toEqual(['BBRI', 'ABBA', 'SBBB', 'ZZZZ'])
+    })
+
+    it('should look up a typed ticker the master does not hold', async () => {
+        const handleSelect = vi.fn()
+        const { StockSearch } = await import('../StockSearch')
+        render(<StockSearch onSelect={handleSelect} />)
+        const input = screen.getByPlaceholderText(/search ticker/i)
+
+        fireEvent.change(input, { target: { value: 'WXYZ' } })
+        fireEvent.click(await screen.findByText('Wahana Xylo Tbk'))
+
+        expect(fetchMock).toHaveBeenCalledWith('/api/companies/WXYZ')
+        expect(handleSelect).toHaveBeenCalledWith('WXYZ')
+        expect(screen.queryByText('Search for this ticker')).not.toBeInTheDocument()
+    })
+})
@@ -4,13 +4,14 @@ export interface StockOption {
     sector?: string;
 }
 
+/** Shown by symbol search until the company master (`/api/companies`) has loaded */
 export const POPULAR_IDX_STOCKS: StockOption[] = [
-    { symbol: "BBCA", name: "Bank Central Asia Tbk", sector: "Finance" },
-    { symbol: "BBRI", name: "Bank Rakyat Indonesia (Persero) Tbk", sector: "Finance" },
-    { symbol: "BMRI", name: "Bank Mandiri (Persero) Tbk", sector: "Finance" },
-    { symbol: "BBNI", name: "Bank Negara Indonesia (Persero) Tbk", sector: "Finance" },
-    { symbol: "TLKM", name: "Telkom Indonesia (Persero) Tbk", sector: "Infrastructure" },
-    { symbol: "ASII", name: "Astra International Tbk", sector: "Consumer Cyclicals" },
+    { symbol: "BBCA", name: "Bank Central Asia Tbk", sector: "Financials" },
+    { symbol: "BBRI", name: "Bank Rakyat Indonesia (Persero) Tbk", sector: "Financials" },
+    { symbol: "BMRI", name: "Bank Mandiri (Persero) Tbk", sector: "Financials" },
+    { symbol: "BBNI", name: "Bank Negara Indonesia (Persero) Tbk", sector: "Financials" },
+    { symbol: "TLKM", name: "Telkom Indonesia (Persero) Tbk", sector: "Infrastructures" },
+    { symbol: "ASII", name: "Astra International Tbk", sector: "Industrials" },
     { symbol: "UNVR", name: "Unilever Indonesia Tbk", sector: "Consumer Non-Cyclicals" },
     { symbol: "GOTO", name: "GoTo Gojek Tokopedia Tbk", sector: "Technology" },
     { symbol: "BUKA", name: "Bukalapak.com Tbk", sector: "Technology" },
@@ -21,7 +22,7 @@ export const POPULAR_IDX_STOCKS: StockOption[] = [
     { symbol: "INDF", name: "Indofood Sukses Makmur Tbk", sector: "Consumer Non-Cyclicals" },
     { symbol: "ICBP", name: "Indofood CBP Sukses Makmur Tbk", sector: "Consumer Non-Cyclicals" },
     { symbol: "KLBF", name: "Kalbe Farma Tbk", sector: "Healthcare" },
-    { symbol: "BRIS", name: "Bank Syariah Indonesia Tbk", sector: "Finance" },
+    { symbol: "BRIS", name: "Bank Syariah Indonesia Tbk", sector: "Financials" },
     { symbol: "ANTM", name: "Aneka Tambang Tbk", sector: "Basic Materials" },
     { symbol: "MDKA", name: "Merdeka Copper Gold Tbk", sector: "Basic Materials" },
     { symbol: "INKP", name: "Indah Kiat Pulp & Paper Tbk", sector: "Basic Materials" },
@@ -0,0 +1,16 @@
+/**
+ * Server Instrumentation
+ *
+ * Runs once when the Next.js server starts: launches the background signal
+ * evaluator (disable with SIGNAL_EVALUATOR=off).
+ *
+ * @module instrumentation
+ */
+
+export async function register() {
+    if (process.env.NEXT_RUNTIME !== "nodejs") return;
+    if ((process.env.SIGNAL_EVALUATOR || "").toLowerCase() === "off") return;
+
+    const { startSignalEvaluator } = await import("@/backend/analysis/signalEvaluation");
+    startSignalEvaluator();
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest'
+import { replayBPJSScores } from '../replay'
+import type { HistoricalQuote } from '@/backend/data/marketData'
+import { EXECUTION_MODELS } from '@/shared/executionModel'
+
+/** Daily candles that open `gap` above the previous close and close `drift` above the open */
+const trending = (start: number, gap: number, drift: number, count: number): HistoricalQuote[] => {
+    const quotes: HistoricalQuote[] = []
+    let previousClose = start
+    for (let i = 0; i < count; i++) {
+        const open = previousClose * (1 + gap)
+        const close = open * (1 + drift)
+        quotes.push({
+            date: new Date(Date.UTC(2025, 0, 1 + i, 2)),
+            open, high: Math.max(open, close), low: Math.min(open, close), close, volume: 1_000_000,
+        })
+        previousClose = close
+    }
+    return quotes
+}
+
+const CONFIG = { days: 30, topN: 1, minScore: 0, execution: EXECUTION_MODELS.IDEAL_CLOSE }
+
+describe('BPJS Score Replay', () => {
+
+    it('should pick the top score each morning and attribute returns to the components', () => {
+        const result = replayBPJSScores({
+            GAPUP: trending(1000, 0.02, 0.02, 80),     // +2% gaps that keep running
+            FADE: trending(5000, -0.01, -0.01, 80),    // gaps down and keeps falling
+        }, CONFIG)
+
+        expect(result.symbols).toEqual(['GAPUP', 'FADE'])
+        expect(result.tradingDays).toBe(31)
+        expect(result.samples).toBe(62)
+
+        expect(result.portfolio.trades.every(t => t.symbol === 'GAPUP')).toBe(true)
+        expect(result.portfolio.hitRate).toBe(100)
+        expect(result.portfolio.totalReturn).toBeGreaterThan(0)
+
+        const gap = result.components.find(c => c.component === 'gapPerformance')!
+        expect(gap.levels.map(l => [l.points, l.hitRate])).toEqual([[0, 0], [20, 100]])
+        expect(gap.correlation).toBeGreaterThan(0.9)
+        // News has no history: constant points, no correlation
+        expect(result.components.find(c => c.component === 'newsSentiment')!.correlation).toBe(0)
+
+        const scored = result.buckets.filter(b => b.samples > 0)
+        expect(scored.reduce((sum, b) => sum + b.samples, 0)).toBe(62)
+    })
+
+    it('should score from the open only and skip entries locked at ARA', () => {
+        const history = trending(1000, 0.02, 0.02, 60)
+        const base = replayBPJSScores({ GAPUP: history }, { ...CONFIG, topN: 5 })
+
+        // A different close on the last day changes the trade, not the morning score
+        const last = history[history.length - 1]
+        const reversed = [...history.slice(0, -1), { ...last, close: last.open! * 0.95 }]
+        const replayed = replayBPJSScores({ GAPUP: reversed }, { ...CONFIG, topN: 5 })
+        const [before, after] = [base, replayed].map(r => r.portfolio.trades[r.portfolio.trades.length - 1])
+        expect(after.score).toBe(before.score)
+        expect(after.returnPercent).toBeLessThan(0)
+
+        // A 40% gap opens above the auto-rejection limit and stays there: nobody sells, no entry
+        const gap = last.open! * 1.4
+        const locked = [...history.slice(0, -1), { ...last, open: gap, high: gap, low: gap, close: gap }]
+        const lockedRun = replayBPJSScores({ GAPUP: locked }, { ...CONFIG, execution: EXECUTION_MODELS.IDX_REALISTIC })
+        expect(lockedRun.refusedEntries).toBe(1)
+        expect(lockedRun.samples).toBe(base.samples - 1)
+    })
+})
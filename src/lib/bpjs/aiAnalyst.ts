@@ -16,6 +16,8 @@
 import Groq from 'groq-sdk';
 import type { BPJSScore } from './scoring';
 import type { EnhancedStockData, MarketContext } from '@/shared/types';
+import { getLimitWarnings, roundToTick } from '@/shared/idxMarketRules';
+import { formatChartPattern } from '@/backend/analysis/chartPatterns';
 
 const groq = new Groq({
     apiKey: process.env.GROQ_API_KEY || '',
@@ -30,6 +32,8 @@ export interface AIRecommendation {
         targetProfit: { price: number; percent: number };
         stopLoss: { price: number; percent: number };
         riskReward: number;
+        /** Levels outside today's ARA/ARB range */
+        limitWarnings: string[];
     };
     risks: string[];
     additionalNotes: string;
@@ -88,7 +92,7 @@ export async function generateAIAnalysis(
 
         const responseText = completion.choices[0]?.message?.content || '';
 
-        return parseAIResponse(responseText, score.quote.currentPrice);
+        return parseAIResponse(responseText, score.quote.currentPrice, score.quote.prevClose);
     } catch (error) {
         console.error('[AI Analyst] Error:', error);
         // Return fallback recommendation
@@ -118,6 +122,12 @@ function createUserPrompt(score: BPJSScore, stockData: EnhancedStockData, market
     const atrValue = stockData.atr || (score.quote.currentPrice * 0.01);
     const volatilityPercent = (atrValue / score.quote.currentPrice) * 100;
 
+    const patterns = stockData.candlestickPatterns || [];
+    const patternText = patterns.length > 0
+        ? patterns.map(p => `${p.label}${p.barsAgo > 0 ? ` ${p.barsAgo} hari lalu` : ''}`).join(', ')
+        : 'Tidak ada pola';
+    const chartPatterns = stockData.chartPatterns || [];
+
     let marketContextText = "";
     if (marketContext) {
         marketContextText = `
@@ -146,6 +156,7 @@ RSI Position: ${score.breakdown.rsiPosition}/15 (RSI: ${rsiValue.toFixed(1)})
 MACD Signal: ${score.breakdown.macdSignal}/15 (${macdData?.crossover || 'NEUTRAL'})
 Bollinger Position: ${score.breakdown.bollingerPosition}/10
 EMA Trend: ${score.breakdown.emaTrend}/10 (Harga vs EMA20: ${score.quote.currentPrice > ema20 ? 'Di Atas' : 'Di Bawah'})
+Candlestick Pattern: ${score.breakdown.candlestickPattern > 0 ? '+' : ''}${score.breakdown.candlestickPattern} (${patternText})
 
 === DETAIL TEKNIKAL ===
 - Volume: ${score.quote.volume.toLocaleString('id-ID')} shares (${score.quote.volumeRatio.toFixed(1)}x avg)
@@ -153,6 +164,7 @@ EMA Trend: ${score.breakdown.emaTrend}/10 (Harga vs EMA20: ${score.quote.current
 - MACD: ${macdData?.macd.toFixed(2) || 'N/A'} (Signal: ${macdData?.signal.toFixed(2) || 'N/A'})
 - Bollinger Bands: Upper ${bbData?.upper.toFixed(0) || 'N/A'} | Mid ${bbData?.middle.toFixed(0) || 'N/A'} | Lower ${bbData?.lower.toFixed(0) || 'N/A'}
 - EMA20: ${ema20.toFixed(0)} | EMA50: ${ema50.toFixed(0)}
+- Pola Chart: ${chartPatterns.length > 0 ? chartPatterns.map(formatChartPattern).join('; ') : 'Tidak ada pola'}
 - Support: ${score.supportResistance.support.length > 0 ? score.supportResistance.support.map(s => `Rp ${s.toFixed(0)}`).join(', ') : 'Belum teridentifikasi'}
 - Resistance: ${score.supportResistance.resistance.length > 0 ? score.supportResistance.resistance.map(r => `Rp ${r.toFixed(0)}`).join(', ') : 'Belum teridentifikasi'}
 
@@ -191,7 +203,7 @@ PENTING: Gunakan data ATR (Rp ${atrValue.toFixed(0)}) untuk menghitung jarak SL
 /**
  * Parse AI response text into structured recommendation
  */
-function parseAIResponse(text: string, currentPrice: number): AIRecommendation {
+function parseAIResponse(text: string, currentPrice: number, prevClose: number): AIRecommendation {
     // Extract recommendation
     const recMatch = text.match(/REKOMENDASI:\s*(BUY|HOLD|AVOID)/i);
     const recommendation = (recMatch ? recMatch[1].toUpperCase() : 'HOLD') as 'BUY' | 'HOLD' | 'AVOID';
@@ -216,20 +228,29 @@ function parseAIResponse(text: string, currentPrice: number): AIRecommendation {
 
     const parseNumber = (str: string) => parseFloat(str.replace(/,/g, '').replace(/\./g, ''));
 
+    const fallback = createFallbackStrategy(currentPrice, prevClose);
+    const entryMin = entryMatch ? roundToTick(parseNumber(entryMatch[1]), 'down') : fallback.entryZone.min;
+    const entryMax = entryMatch ? roundToTick(parseNumber(entryMatch[2]), 'up') : fallback.entryZone.max;
+    const targetPrice = tpMatch ? roundToTick(parseNumber(tpMatch[1]), 'down') : fallback.targetProfit.price;
+    const stopPrice = slMatch ? roundToTick(parseNumber(slMatch[1]), 'down') : fallback.stopLoss.price;
+
     const strategy = {
-        entryZone: {
-            min: entryMatch ? parseNumber(entryMatch[1]) : currentPrice * 0.99,
-            max: entryMatch ? parseNumber(entryMatch[2]) : currentPrice * 1.01,
-        },
+        entryZone: { min: entryMin, max: entryMax },
         targetProfit: {
-            price: tpMatch ? parseNumber(tpMatch[1]) : currentPrice * 1.025,
-            percent: tpMatch ? parseFloat(tpMatch[2]) : 2.5,
+            price: targetPrice,
+            percent: tpMatch ? parseFloat(tpMatch[2]) : fallback.targetProfit.percent,
         },
         stopLoss: {
-            price: slMatch ? parseNumber(slMatch[1]) : currentPrice * 0.99,
-            percent: slMatch ? parseFloat(slMatch[2]) : 1.0,
+            price: stopPrice,
+            percent: slMatch ? parseFloat(slMatch[2]) : fallback.stopLoss.percent,
         },
         riskReward: rrMatch ? parseFloat(rrMatch[1]) : 2.5,
+        // The model is not aware of auto rejection, so flag anything it cannot place today
+        limitWarnings: getLimitWarnings([
+            { label: 'Entry', price: entryMax },
+            { label: 'Target', price: targetPrice },
+            { label: 'Stop loss', price: stopPrice },
+        ], prevClose),
     };
 
     // Extract risks
@@ -256,6 +277,32 @@ function parseAIResponse(text: string, currentPrice: number): AIRecommendation {
     };
 }
 
+/**
+ * Default BPJS levels (±1% entry, +2.5% target, -1% stop) snapped to valid
+ * ticks, with percentages recomputed from the rounded prices.
+ */
+export function createFallbackStrategy(currentPrice: number, prevClose: number): AIRecommendation['strategy'] {
+    const entryZone = {
+        min: roundToTick(currentPrice * 0.99, 'down'),
+        max: roundToTick(currentPrice * 1.01, 'up'),
+    };
+    const targetPrice = roundToTick(currentPrice * 1.025, 'down');
+    const stopPrice = roundToTick(currentPrice * 0.99, 'down');
+    const toPercent = (price: number) =>
+        currentPrice > 0 ? Number((Math.abs(price - currentPrice) / currentPrice * 100).toFixed(2)) : 0;
+
+    return {
+        entryZone,
+        targetProfit: { price: targetPrice, percent: toPercent(targetPrice) },
+        stopLoss: { price: stopPrice, percent: toPercent(stopPrice) },
+        riskReward: 2.5,
+        limitWarnings: getLimitWarnings([
+            { label: 'Target', price: targetPrice },
+            { label: 'Stop loss', price: stopPrice },
+        ], prevClose),
+    };
+}
+
 /**
  * Create fallback recommendation when AI is unavailable
  */
@@ -275,12 +322,7 @@ function createFallbackRecommendation(score: BPJSScore): AIRecommendation {
             `Volume ${score.quote.volumeRatio.toFixed(1)}x rata-rata menandakan ${score.quote.volumeRatio > 1.5 ? 'minat kuat' : 'minat normal'}`,
             `Gap ${score.quote.gapPercent.toFixed(2)}% dari penutupan kemarin`,
         ],
-        strategy: {
-            entryZone: { min: currentPrice * 0.99, max: currentPrice * 1.01 },
-            targetProfit: { price: currentPrice * 1.025, percent: 2.5 },
-            stopLoss: { price: currentPrice * 0.99, percent: 1.0 },
-            riskReward: 2.5,
-        },
+        strategy: createFallbackStrategy(currentPrice, score.quote.prevClose),
         risks: [
             'Analisis AI tidak tersedia, gunakan pertimbangan Anda sendiri',
             'Selalu pantau kondisi market dan volume',
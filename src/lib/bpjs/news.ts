@@ -2,15 +2,13 @@
  * BPJS News Service
  * 
  * Lightweight news fetcher and sentiment analyzer for BPJS Screener.
- * Uses Yahoo Finance to get recent headlines and performs basic keyword analysis
+ * Uses the configured market data provider to get recent headlines and performs basic keyword analysis
  * to assign a sentiment score (0-5) for the preliminary screening.
  * 
  * @module lib/bpjs/news
  */
 
-import YahooFinance from 'yahoo-finance2';
-
-const yahooFinance = new YahooFinance();
+import { getMarketDataProvider } from '@/backend/data/marketData';
 
 export interface StockNewsItem {
     title: string;
@@ -47,10 +45,10 @@ export async function fetchStockNews(symbol: string): Promise<NewsSentimentResul
     try {
         const symbolWithSuffix = symbol.includes('.JK') ? symbol : `${symbol}.JK`;
 
-        // Fetch news from Yahoo Finance
-        const result = await yahooFinance.search(symbolWithSuffix, { newsCount: 3 });
+        // Fetch news from the market data provider
+        const result = await getMarketDataProvider().search(symbolWithSuffix, { newsCount: 3 });
 
-        const headlines: StockNewsItem[] = (result.news || []).map((item: any) => ({
+        const headlines: StockNewsItem[] = result.news.map((item) => ({
             title: item.title,
             publisher: item.publisher,
             link: item.link,
@@ -0,0 +1,379 @@
+/**
+ * BPJS Score Replay
+ *
+ * Replays the BPJS scorer over past trading days to check whether a higher
+ * score actually makes a better "beli pagi, jual sore" trade.
+ *
+ * For every universe stock and day the score is recomputed from what was
+ * known at the open: the daily candles before that day (the same 90-day
+ * window the live scan uses), the previous day's volume and the day's opening
+ * price (the gap). Every scored stock-day is then traded open → close with
+ * IDX fees and the execution model's tick rounding, slippage and ARA/ARB
+ * limits, and the outcomes are grouped by score bucket and by the points of
+ * each breakdown component. The top-N scores per day form the replayed
+ * BPJS portfolio.
+ *
+ * News has no usable history, so news sentiment is held at the scorer's
+ * neutral default.
+ *
+ * @module lib/bpjs/replay
+ */
+
+import type { HistoricalQuote } from '@/backend/data/marketData';
+import { fetchChart } from '@/backend/data/marketData';
+import { IDX_FEE } from '@/shared/constants';
+import {
+    DEFAULT_EXECUTION_MODEL,
+    EXECUTION_MODELS,
+    describeExecutionModel,
+    quoteFill,
+    type ExecutionModel,
+    type FillBar,
+} from '@/shared/executionModel';
+import { getJakartaDateKey } from '@/shared/marketClock';
+import { pearsonCorrelation } from '@/shared/statistics';
+import { calculateBPJSScore, type BPJSScore } from './scoring';
+import { buildStockSnapshot } from './snapshot';
+import { BPJS_UNIVERSE } from './universe';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type BreakdownComponent = keyof BPJSScore['breakdown'];
+
+export interface BPJSReplayConfig {
+    /** Calendar days to replay, counted back from the latest candle */
+    days: number;
+    /** Highest-scoring stocks bought each morning */
+    topN: number;
+    /** Scores below this are never bought */
+    minScore: number;
+    /** First N stocks of the BPJS universe (`runBPJSReplay` only) */
+    universeSize: number;
+    execution?: ExecutionModel;
+}
+
+/** One stock-day: the score at the open and the open → close trade */
+export interface ReplayOutcome {
+    date: string;
+    symbol: string;
+    score: number;
+    breakdown: BPJSScore['breakdown'];
+    entryPrice: number;
+    exitPrice: number;
+    /** Net of buy and sell fees */
+    returnPercent: number;
+    /** The close was locked at ARB; the exit assumes it filled anyway */
+    lockedExit: boolean;
+}
+
+export interface ReplayGroupStats {
+    samples: number;
+    /** Share of trades with a positive net return */
+    hitRate: number;
+    averageReturn: number;
+}
+
+export interface ScoreBucketStats extends ReplayGroupStats {
+    label: string;
+    /** Inclusive lower bound */
+    min: number;
+    /** Exclusive upper bound */
+    max: number;
+}
+
+export interface ComponentStats {
+    component: BreakdownComponent;
+    /** Outcomes grouped by the points the component scored */
+    levels: (ReplayGroupStats & { points: number })[];
+    /** Pearson correlation of the component's points with the trade return */
+    correlation: number;
+}
+
+export interface ReplayPortfolioPoint {
+    date: string;
+    equity: number;
+    picks: number;
+}
+
+export interface BPJSReplayResult {
+    period: { start: string; end: string };
+    tradingDays: number;
+    symbols: string[];
+    skipped: { symbol: string; reason: string }[];
+    /** Scored stock-days that could be bought at the open */
+    samples: number;
+    /** Stock-days whose open was locked at ARA (no fill) */
+    refusedEntries: number;
+    buckets: ScoreBucketStats[];
+    components: ComponentStats[];
+    /** The top-N picks per day, equal weight, compounded */
+    portfolio: ReplayGroupStats & {
+        topN: number;
+        minScore: number;
+        trades: ReplayOutcome[];
+        totalReturn: number;
+        equityCurve: ReplayPortfolioPoint[];
+    };
+    execution: { model: ExecutionModel; description: string };
+    assumptions: string[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_CONFIG: BPJSReplayConfig = {
+    days: 120,
+    topN: 5,
+    minScore: 50,
+    universeSize: 50,
+};
+
+/** Indicator window before each replayed day, as in the live scan */
+const LOOKBACK_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_LOOKBACK_BARS = 20;
+const INITIAL_EQUITY = 100_000_000;
+
+const SCORE_BUCKETS: { label: string; min: number; max: number }[] = [
+    { label: '<40', min: 0, max: 40 },
+    { label: '40-49', min: 40, max: 50 },
+    { label: '50-59', min: 50, max: 60 },
+    { label: '60-69', min: 60, max: 70 },
+    { label: '70-79', min: 70, max: 80 },
+    { label: '80+', min: 80, max: 101 },
+];
+
+const ASSUMPTIONS = [
+    'Scores use the candles before each day, the previous day\'s volume and that day\'s opening price',
+    'News sentiment has no history and is held at the neutral 3 points',
+    'Each trade buys at the open and sells at the close of the same day, net of IDX fees',
+];
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function summarize(outcomes: ReplayOutcome[]): ReplayGroupStats {
+    if (outcomes.length === 0) return { samples: 0, hitRate: 0, averageReturn: 0 };
+    return {
+        samples: outcomes.length,
+        hitRate: (outcomes.filter(o => o.returnPercent > 0).length / outcomes.length) * 100,
+        averageReturn: outcomes.reduce((sum, o) => sum + o.returnPercent, 0) / outcomes.length,
+    };
+}
+
+function componentStats(outcomes: ReplayOutcome[]): ComponentStats[] {
+    if (outcomes.length === 0) return [];
+    const components = Object.keys(outcomes[0].breakdown) as BreakdownComponent[];
+
+    return components.map(component => {
+        const levels = new Map<number, ReplayOutcome[]>();
+        for (const outcome of outcomes) {
+            const points = outcome.breakdown[component];
+            const group = levels.get(points);
+            if (group) group.push(outcome);
+            else levels.set(points, [outcome]);
+        }
+
+        return {
+            component,
+            levels: [...levels.entries()]
+                .sort(([a], [b]) => a - b)
+                .map(([points, group]) => ({ points, ...summarize(group) })),
+            correlation: pearsonCorrelation(
+                outcomes.map(o => o.breakdown[component]),
+                outcomes.map(o => o.returnPercent)
+            ),
+        };
+    });
+}
+
+/**
+ * Score one symbol on every replayed day and trade each score open → close.
+ */
+function replaySymbol(
+    symbol: string,
+    history: HistoricalQuote[],
+    fromTime: number,
+    execution: ExecutionModel
+): { outcomes: ReplayOutcome[]; refused: number } {
+    const quotes = history.filter(q => q.open !== null && q.close !== null && q.close > 0);
+    const outcomes: ReplayOutcome[] = [];
+    let refused = 0;
+    let windowStart = 0;
+
+    for (let d = 1; d < quotes.length; d++) {
+        const day = quotes[d];
+        if (day.date.getTime() < fromTime) continue;
+
+        while (quotes[windowStart].date.getTime() < day.date.getTime() - LOOKBACK_DAYS * DAY_MS) windowStart++;
+        const lookback = quotes.slice(windowStart, d);
+        if (lookback.length < MIN_LOOKBACK_BARS) continue;
+
+        const previous = quotes[d - 1];
+        const open = day.open as number;
+        const close = day.close as number;
+
+        let score: BPJSScore;
+        try {
+            score = calculateBPJSScore(buildStockSnapshot(symbol, lookback, {
+                price: open,
+                previousClose: previous.close as number,
+                volume: previous.volume ?? 0,
+            }));
+        } catch {
+            continue;
+        }
+
+        const bar: FillBar = { open, high: day.high, low: day.low, close, volume: day.volume, previousClose: previous.close };
+        const entry = quoteFill({ ...execution, fillTiming: 'NEXT_OPEN' }, 'BUY', bar);
+        if (!entry.filled) {
+            refused++;
+            continue;
+        }
+        const exit = quoteFill({ ...execution, fillTiming: 'CLOSE' }, 'SELL', bar);
+        const exitPrice = exit.filled ? exit.price : close;
+
+        const cost = entry.price * (1 + IDX_FEE.BUY);
+        const proceeds = exitPrice * (1 - IDX_FEE.SELL);
+
+        outcomes.push({
+            date: getJakartaDateKey(day.date),
+            symbol,
+            score: score.totalScore,
+            breakdown: score.breakdown,
+            entryPrice: entry.price,
+            exitPrice,
+            returnPercent: ((proceeds - cost) / cost) * 100,
+            lockedExit: !exit.filled,
+        });
+    }
+
+    return { outcomes, refused };
+}
+
+// ============================================================================
+// Replay
+// ============================================================================
+
+/**
+ * Replay the BPJS score over already-fetched daily candles (oldest first).
+ *
+ * Histories need `days` of candles plus the 90-day indicator window before
+ * them; symbols with nothing to replay are reported in `skipped`.
+ */
+export function replayBPJSScores(
+    histories: Record<string, HistoricalQuote[]>,
+    config: Partial<BPJSReplayConfig> = {}
+): BPJSReplayResult {
+    const { days, topN, minScore } = { ...DEFAULT_CONFIG, ...config };
+    const execution = config.execution ?? EXECUTION_MODELS[DEFAULT_EXECUTION_MODEL];
+
+    const latest = Math.max(...Object.values(histories).flatMap(h => h.map(q => q.date.getTime())), 0);
+    const fromTime = latest - days * DAY_MS;
+
+    const outcomes: ReplayOutcome[] = [];
+    const symbols: string[] = [];
+    const skipped: { symbol: string; reason: string }[] = [];
+    let refusedEntries = 0;
+
+    for (const [symbol, history] of Object.entries(histories)) {
+        const replayed = replaySymbol(symbol, history, fromTime, execution);
+        if (replayed.outcomes.length === 0 && replayed.refused === 0) {
+            skipped.push({ symbol, reason: `Fewer than ${MIN_LOOKBACK_BARS} candles before the replay window` });
+            continue;
+        }
+        symbols.push(symbol);
+        outcomes.push(...replayed.outcomes);
+        refusedEntries += replayed.refused;
+    }
+
+    // The morning's picks: the top-N scores at or above the minimum
+    const byDate = new Map<string, ReplayOutcome[]>();
+    for (const outcome of outcomes) {
+        const group = byDate.get(outcome.date);
+        if (group) group.push(outcome);
+        else byDate.set(outcome.date, [outcome]);
+    }
+    const dates = [...byDate.keys()].sort();
+
+    let equity = INITIAL_EQUITY;
+    const trades: ReplayOutcome[] = [];
+    const equityCurve: ReplayPortfolioPoint[] = [];
+    for (const date of dates) {
+        const picks = byDate.get(date)!
+            .filter(o => o.score >= minScore)
+            .sort((a, b) => b.score - a.score || a.symbol.localeCompare(b.symbol))
+            .slice(0, topN);
+
+        if (picks.length > 0) {
+            const dayReturn = picks.reduce((sum, o) => sum + o.returnPercent, 0) / picks.length;
+            equity *= 1 + dayReturn / 100;
+            trades.push(...picks);
+        }
+        equityCurve.push({ date, equity, picks: picks.length });
+    }
+
+    console.log(`[BPJS Replay] ${outcomes.length} stock-days over ${dates.length} days, ${trades.length} picks`);
+
+    return {
+        period: { start: dates[0] ?? '', end: dates[dates.length - 1] ?? '' },
+        tradingDays: dates.length,
+        symbols,
+        skipped,
+        samples: outcomes.length,
+        refusedEntries,
+        buckets: SCORE_BUCKETS.map(bucket => ({
+            ...bucket,
+            ...summarize(outcomes.filter(o => o.score >= bucket.min && o.score < bucket.max)),
+        })),
+        components: componentStats(outcomes),
+        portfolio: {
+            topN,
+            minScore,
+            trades,
+            totalReturn: ((equity - INITIAL_EQUITY) / INITIAL_EQUITY) * 100,
+            equityCurve,
+            ...summarize(trades),
+        },
+        execution: { model: execution, description: describeExecutionModel(execution) },
+        assumptions: ASSUMPTIONS,
+    };
+}
+
+/**
+ * Fetch the BPJS universe's daily candles and replay the score over them.
+ */
+export async function runBPJSReplay(config: Partial<BPJSReplayConfig> = {}): Promise<BPJSReplayResult> {
+    const merged = { ...DEFAULT_CONFIG, ...config };
+    const universe = BPJS_UNIVERSE.slice(0, merged.universeSize);
+    const histories: Record<string, HistoricalQuote[]> = {};
+
+    console.log(`[BPJS Replay] Fetching ${universe.length} stocks, ${merged.days} days`);
+
+    // Batches of 10, like the live scan
+    const batchSize = 10;
+    for (let i = 0; i < universe.length; i += batchSize) {
+        const batch = universe.slice(i, i + batchSize);
+        const results = await Promise.allSettled(
+            batch.map(stock => fetchChart(`${stock.symbol}.JK`, '1d', merged.days + LOOKBACK_DAYS))
+        );
+
+        results.forEach((result, idx) => {
+            if (result.status === 'fulfilled') {
+                histories[batch[idx].symbol] = result.value;
+            } else {
+                console.warn(`[BPJS Replay] Failed to fetch ${batch[idx].symbol}:`, result.reason);
+            }
+        });
+    }
+
+    if (Object.keys(histories).length === 0) {
+        throw new Error('No price history available for the BPJS universe');
+    }
+
+    return replayBPJSScores(histories, merged);
+}
@@ -12,12 +12,16 @@
  * - EMA Trend: 0-10 points (trend strength)
  * - News Sentiment: 0-5 points (market sentiment)
  * - Sector Momentum: 0-5 points (sector strength)
+ * - Candlestick Pattern: -5 to +5 points (recent daily candle patterns)
+ *
+ * The total is clamped to 0-100.
  * 
  * @module lib/bpjs/scoring
  */
 
 import type { EnhancedStockData } from '@/shared/types';
 import { getStockInfo } from './universe';
+import { getPatternBias } from '@/backend/analysis/candlestickPatterns';
 
 export interface BPJSScore {
     symbol: string;
@@ -33,6 +37,7 @@ export interface BPJSScore {
         emaTrend: number;          // 0-10
         newsSentiment: number;     // 0-5
         sectorMomentum: number;    // 0-5
+        candlestickPattern: number; // -5 to +5
     };
     quote: {
         currentPrice: number;
@@ -82,10 +87,12 @@ export function calculateBPJSScore(stockData: EnhancedStockData, newsScore: numb
         ),
         newsSentiment: newsScore, // Real sentiment 0-5
         sectorMomentum: 3, // Placeholder - would need sector index data
+        candlestickPattern: scoreCandlestickPatterns(stockData.candlestickPatterns || []),
     };
 
     // Calculate total score
-    const totalScore = Object.values(breakdown).reduce((sum, score) => sum + score, 0);
+    const rawScore = Object.values(breakdown).reduce((sum, score) => sum + score, 0);
+    const totalScore = Math.max(0, Math.min(100, rawScore));
 
     // Get stock metadata
     const stockInfo = getStockInfo(stockData.symbol);
@@ -261,6 +268,18 @@ function scoreEMATrend(price: number, ema20: number, ema50: number): number {
     return Math.min(score, 10);
 }
 
+/**
+ * Score recent candlestick patterns (-5 to +5 points)
+ *
+ * Logic:
+ * - Net reliability-weighted bias of directional patterns (bullish minus bearish)
+ * - e.g. a high-reliability bullish engulfing = +3, a bearish one = -3
+ */
+function scoreCandlestickPatterns(patterns: NonNullable<EnhancedStockData['candlestickPatterns']>): number {
+    const bias = getPatternBias(patterns);
+    return Math.max(-5, Math.min(5, bias));
+}
+
 /**
  * Batch calculate scores for multiple stocks
  * @param stocksData Array of enhanced stock data
@@ -0,0 +1,134 @@
+/**
+ * BPJS Stock Snapshot
+ *
+ * Builds the `EnhancedStockData` the BPJS scorer reads from a quote and the
+ * daily candles before it. Shared by the live scan (Yahoo quote + last 90
+ * days) and the historical replay (the day's open + the candles before it),
+ * so both score exactly the same inputs.
+ *
+ * @module lib/bpjs/snapshot
+ */
+
+import type { EnhancedStockData } from '@/shared/types';
+import type { HistoricalQuote } from '@/backend/data/marketData';
+import { performTechnicalAnalysis } from '@/backend/analysis/indicators';
+import { summarizeRecentPatterns, toOHLCBars } from '@/backend/analysis/candlestickPatterns';
+import { getStockInfo } from './universe';
+
+export interface SnapshotQuote {
+    price: number;
+    previousClose: number;
+    /** Volume compared against the average of the candles' volumes */
+    volume: number;
+    change?: number;
+    changePercent?: number;
+    marketCap?: number | null;
+    pe?: number | null;
+    pb?: number | null;
+    dayHigh?: number;
+    dayLow?: number;
+    name?: string;
+}
+
+/**
+ * Snapshot of a stock for scoring.
+ *
+ * @param historicalData Daily candles the indicators are computed on (oldest first)
+ * @throws Error when fewer than 20 valid closes are available
+ */
+export function buildStockSnapshot(
+    symbol: string,
+    historicalData: HistoricalQuote[],
+    quote: SnapshotQuote
+): EnhancedStockData {
+    // Extract price arrays
+    const closes = historicalData
+        .map(q => q.close)
+        .filter((c): c is number => c !== null && c !== undefined && !isNaN(c) && c > 0);
+
+    const volumes = historicalData
+        .map(q => q.volume)
+        .filter((v): v is number => v !== null && v !== undefined && !isNaN(v) && v >= 0);
+
+    const highs = historicalData
+        .map(q => q.high)
+        .filter((h): h is number => h !== null && h !== undefined && !isNaN(h) && h > 0);
+
+    const lows = historicalData
+        .map(q => q.low)
+        .filter((l): l is number => l !== null && l !== undefined && !isNaN(l) && l > 0);
+
+    if (closes.length < 20) {
+        throw new Error(`Insufficient valid price data for ${symbol}`);
+    }
+
+    // Perform technical analysis
+    const analysis = performTechnicalAnalysis(closes, volumes, highs, lows);
+
+    // Candlestick patterns on the last few daily bars
+    const candlestickPatterns = summarizeRecentPatterns(toOHLCBars(historicalData));
+
+    const stockInfo = getStockInfo(symbol);
+    const averageVolume = volumes.length > 0 ? volumes.reduce((a, b) => a + b) / volumes.length : 1;
+
+    return {
+        symbol: symbol,
+        name: stockInfo?.name || quote.name || symbol,
+        quote: {
+            price: quote.price,
+            change: quote.change ?? quote.price - quote.previousClose,
+            changePercent: quote.changePercent ?? ((quote.price - quote.previousClose) / quote.previousClose) * 100,
+            volume: quote.volume,
+            marketCap: quote.marketCap ?? null,
+            pe: quote.pe ?? null,
+            pb: quote.pb ?? null,
+            sector: stockInfo?.sector || null,
+            previousClose: quote.previousClose,
+            dayHigh: quote.dayHigh ?? quote.price,
+            dayLow: quote.dayLow ?? quote.price,
+        },
+        indicators: {
+            rsi: analysis.rsi ? {
+                value: analysis.rsi.current,
+                interpretation: analysis.rsi.current < 30 ? 'OVERSOLD' as const :
+                    analysis.rsi.current > 70 ? 'OVERBOUGHT' as const : 'NEUTRAL' as const,
+            } : { value: 50, interpretation: 'NEUTRAL' as const },
+            macd: analysis.macd ? {
+                macd: analysis.macd.current.macd,
+                signal: analysis.macd.current.signal,
+                histogram: analysis.macd.current.histogram,
+                crossover: analysis.macd.crossover,
+            } : { macd: 0, signal: 0, histogram: 0, crossover: 'NONE' as const },
+            bollingerBands: analysis.bollingerBands ? {
+                upper: analysis.bollingerBands.current.upper,
+                middle: analysis.bollingerBands.current.middle,
+                lower: analysis.bollingerBands.current.lower,
+                bandwidth: analysis.bollingerBands.current.bandwidth,
+                position: quote.price > analysis.bollingerBands.current.upper ? 'ABOVE_UPPER' as const :
+                    quote.price < analysis.bollingerBands.current.lower ? 'BELOW_LOWER' as const : 'WITHIN' as const,
+            } : null,
+            ema20: closes.length >= 20 ? closes.slice(-20).reduce((a, b) => a + b) / 20 : quote.price,
+            ema50: closes.length >= 50 ? closes.slice(-50).reduce((a, b) => a + b) / 50 : quote.price,
+            sma20: closes.length >= 20 ? closes.slice(-20).reduce((a, b) => a + b) / 20 : null,
+            volumeAnalysis: {
+                current: quote.volume,
+                average: averageVolume,
+                ratio: volumes.length > 0 ? quote.volume / averageVolume : 1,
+                isSpike: false,
+                trend: 'STABLE' as const,
+            },
+        },
+        signals: [],
+        candlestickPatterns,
+        supportResistance: {
+            support: [],
+            resistance: [],
+        },
+        atr: analysis.atr || 0,
+        recommendation: {
+            action: 'HOLD' as const,
+            confidence: 50,
+            reasoning: [],
+        },
+    };
+}
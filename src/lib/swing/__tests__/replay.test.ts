@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest'
+import { replaySwingScreener, trackSignal } from '../replay'
+import type { HistoricalQuote } from '@/backend/data/marketData'
+
+const bar = (day: number, high: number, low: number, close: number): HistoricalQuote => ({
+    date: new Date(Date.UTC(2025, 0, 1 + day, 9)), open: close, high, low, close, volume: 2_000_000,
+})
+
+/** Daily candles swinging ±8% around a slow uptrend, in the screener's 100-500 price band */
+const swinging = (count: number, volume = 2_000_000): HistoricalQuote[] =>
+    Array.from({ length: count }, (_, i) => {
+        const close = Math.round(300 + i * 0.5 + 24 * Math.sin(i / 3))
+        return {
+            date: new Date(Date.UTC(2025, 0, 1 + i, 9)),
+            open: close * 0.99, high: close * 1.02, low: close * 0.98, close, volume,
+        }
+    })
+
+/** Five hourly candles inside each daily candle */
+const hourlyFrom = (daily: HistoricalQuote[]): HistoricalQuote[] =>
+    daily.flatMap(d => Array.from({ length: 5 }, (_, h) => ({
+        ...d, date: new Date(d.date.getTime() - (5 - h) * 60 * 60 * 1000), volume: (d.volume ?? 0) / 5,
+    })))
+
+describe('Swing Screener Replay', () => {
+
+    describe('trackSignal', () => {
+        const targets: [number, number, number] = [110, 120, 130]
+
+        it('should count targets reached before the stop', () => {
+            const tracking = trackSignal(100, 90, targets, [
+                bar(1, 105, 98, 104),
+                bar(2, 112, 101, 111),  // TP1
+                bar(3, 121, 108, 118),  // TP2
+                bar(4, 119, 89, 90),    // stop after TP2
+            ])
+            expect(tracking).toEqual({ firstHit: 'TP1', targetsHit: 2, returnPercent: 10, barsHeld: 2 })
+        })
+
+        it('should count the stop first when one bar spans the stop and a target', () => {
+            const tracking = trackSignal(100, 90, targets, [bar(1, 115, 85, 100)])
+            expect(tracking.firstHit).toBe('STOP')
+            expect(tracking.targetsHit).toBe(0)
+            expect(tracking.returnPercent).toBe(-10)
+        })
+
+        it('should mark to the last close when nothing is hit', () => {
+            const tracking = trackSignal(100, 90, targets, [bar(1, 105, 95, 103), bar(2, 106, 97, 98)])
+            expect(tracking).toEqual({ firstHit: 'NONE', targetsHit: 0, returnPercent: -2, barsHeld: 2 })
+        })
+    })
+
+    it('should screen past dates and attribute outcomes to layers and grades', () => {
+        const daily = swinging(160)
+        const result = replaySwingScreener({
+            SWING: { daily, hourly: hourlyFrom(daily), sharesOutstanding: 1_000_000_000 },
+            // Same candles, but no share count: the market cap check rejects every date
+            NOCAP: { daily, hourly: [], sharesOutstanding: null },
+            SHORT: { daily: daily.slice(0, 40), hourly: [], sharesOutstanding: 1_000_000_000 },
+        }, { days: 60, stepDays: 5, horizonDays: 10 })
+
+        expect(result.symbols).toEqual(['SWING', 'NOCAP'])
+        expect(result.skipped.map(s => s.symbol)).toEqual(['SHORT'])
+
+        const layer1 = result.stages.find(s => s.stage === 'LAYER_1')!
+        const perSymbol = result.evaluations / 2
+        expect(layer1.evaluations).toBe(perSymbol)
+        expect(layer1.topReasons).toEqual([{ reason: 'Market Cap too small', count: perSymbol }])
+
+        expect(result.signals.length).toBeGreaterThan(0)
+        expect(result.signals.every(s => s.symbol === 'SWING')).toBe(true)
+        const tracked = result.signals.filter(s => s.tracking)
+        expect(tracked.length).toBeGreaterThan(0)
+        for (const s of tracked) {
+            expect(s.stop!).toBeLessThan(s.price)
+            expect(s.targets![0]).toBeGreaterThan(s.price)
+        }
+
+        const gradeTotal = result.grades.reduce((sum, g) => sum + g.signals, 0)
+        expect(gradeTotal).toBe(result.signals.length)
+        for (const f of result.factors) {
+            expect(f.bands.reduce((sum, b) => sum + b.signals, 0)).toBe(result.signals.length)
+        }
+    })
+})
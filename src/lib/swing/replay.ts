@@ -0,0 +1,498 @@
+/**
+ * Swing Screener Replay
+ *
+ * Runs the swing screener pipeline (`lib/swing/screener`) as of past dates
+ * and follows every qualified signal forward to see whether TP1/TP2/TP3 or
+ * the stop was hit first. Results are grouped by grade, by the layer that
+ * rejected a stock (with the forward return the rejected stocks went on to
+ * make) and by each technical factor's score.
+ *
+ * As-of inputs mirror the live route: the 180 days of daily candles up to the
+ * date, the last 20 days of hourly candles for support/resistance and ATR, the
+ * date's close as the quote price and the 3-month average volume. Market cap
+ * is today's share count at that day's price; bid/ask spreads have no history
+ * and are skipped, as the live screener does without bid/ask data.
+ *
+ * @module lib/swing/replay
+ */
+
+import type { HistoricalQuote } from '@/backend/data/marketData';
+import { fetchChart, getMarketDataProvider } from '@/backend/data/marketData';
+import { atr as atrSeries, last } from '@/backend/analysis/series';
+import { getJakartaDateKey } from '@/shared/marketClock';
+import { mean, pearsonCorrelation } from '@/shared/statistics';
+import { calculateTechnicalScore, type TechnicalScore } from './scoring';
+import {
+    analyzeHourlyFrame,
+    applyQualityPenalties,
+    generateTradePlan,
+    getSwingUniverse,
+    gradeSwingScore,
+    runStrictFiltering,
+    type FilteringResult,
+    type ScreeningQuote,
+    type SwingGrade,
+} from './screener';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type SwingFactor = keyof TechnicalScore['factor_breakdown'];
+
+export type ScreenerStage = 'LAYER_1' | 'LAYER_2' | 'LAYER_3' | 'QUALIFIED';
+
+export type FirstHit = 'TP1' | 'TP2' | 'TP3' | 'STOP' | 'NONE';
+
+export interface SwingReplayConfig {
+    /** Calendar days of as-of dates, counted back from the last date with a full horizon */
+    days: number;
+    /** Run the screener every N trading days (avoids counting one setup daily) */
+    stepDays: number;
+    /** Trading days each signal is followed for */
+    horizonDays: number;
+    /** Symbols to replay (`runSwingReplay` only; default: the swing universe) */
+    symbols?: string[];
+}
+
+export interface SwingReplayInput {
+    daily: HistoricalQuote[];
+    hourly: HistoricalQuote[];
+    /** Shares outstanding, for the market cap check (null: unknown, fails layer 1 like the live route) */
+    sharesOutstanding: number | null;
+}
+
+export interface SignalTracking {
+    /** The target (highest on that day) or stop reached first */
+    firstHit: FirstHit;
+    /** Targets reached before the stop, 0-3 */
+    targetsHit: number;
+    /** Return at the first hit, or at the last followed close when nothing was hit */
+    returnPercent: number;
+    /** Trading days until the first hit (the horizon when nothing was hit) */
+    barsHeld: number;
+}
+
+export interface ReplaySwingSignal {
+    date: string;
+    symbol: string;
+    price: number;
+    score: number;
+    grade: SwingGrade;
+    /** Each factor's share of its maximum, 0-100 */
+    factors: Record<SwingFactor, number>;
+    stop: number | null;
+    targets: [number, number, number] | null;
+    tracking: SignalTracking | null;
+    untrackedReason?: string;
+}
+
+export interface StageStats {
+    stage: ScreenerStage;
+    evaluations: number;
+    /** Close-to-close return over the horizon, tracked or not */
+    averageForwardReturn: number;
+    positiveRate: number;
+    topReasons: { reason: string; count: number }[];
+}
+
+export interface OutcomeStats {
+    signals: number;
+    tracked: number;
+    tp1Rate: number;
+    tp2Rate: number;
+    tp3Rate: number;
+    /** Share whose stop came before any target */
+    stopRate: number;
+    /** Share that hit nothing within the horizon */
+    expiredRate: number;
+    averageReturn: number;
+}
+
+export interface GradeStats extends OutcomeStats {
+    grade: SwingGrade;
+    averageBarsHeld: number;
+}
+
+export interface FactorStats {
+    factor: SwingFactor;
+    bands: (OutcomeStats & { label: string })[];
+    /** Pearson correlation of the factor's percentage with the signal return */
+    correlation: number;
+}
+
+export interface SwingReplayResult {
+    period: { start: string; end: string };
+    config: Omit<SwingReplayConfig, 'symbols'>;
+    symbols: string[];
+    skipped: { symbol: string; reason: string }[];
+    evaluations: number;
+    stages: StageStats[];
+    grades: GradeStats[];
+    factors: FactorStats[];
+    signals: ReplaySwingSignal[];
+    assumptions: string[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_CONFIG: SwingReplayConfig = {
+    days: 180,
+    stepDays: 5,
+    horizonDays: 20,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Daily window the live route fetches */
+const DAILY_LOOKBACK_DAYS = 180;
+/** Hourly window the live route fetches */
+const HOURLY_LOOKBACK_DAYS = 20;
+const MIN_DAILY_BARS = 50;
+const AVERAGE_VOLUME_BARS = 63;
+
+const FACTORS: SwingFactor[] = ['trend', 'momentum', 'macd', 'volume', 'support_resistance', 'patterns', 'multi_timeframe'];
+
+const FACTOR_BANDS: { label: string; min: number; max: number }[] = [
+    { label: 'Low (<40%)', min: -Infinity, max: 40 },
+    { label: 'Mid (40-70%)', min: 40, max: 70 },
+    { label: 'High (≥70%)', min: 70, max: Infinity },
+];
+
+const ASSUMPTIONS = [
+    'Signals enter at the as-of close and are followed on daily highs and lows',
+    'A day that reaches both the stop and a target counts the stop first',
+    'Every qualified stock gets a trade plan (the live screener only prints plans for BUYs), so grades can be compared',
+    'Market cap uses today\'s share count; bid/ask spreads are not checked',
+];
+
+// ============================================================================
+// Tracking
+// ============================================================================
+
+/**
+ * Follow a trade plan over the bars after entry: which target or the stop is
+ * reached first, and how many targets are reached before the stop.
+ */
+export function trackSignal(
+    entry: number,
+    stop: number,
+    targets: [number, number, number],
+    bars: HistoricalQuote[]
+): SignalTracking {
+    let firstHit: FirstHit = 'NONE';
+    let firstReturn = 0;
+    let barsHeld = bars.length;
+    let targetsHit = 0;
+
+    for (let i = 0; i < bars.length; i++) {
+        const high = bars[i].high ?? bars[i].close ?? entry;
+        const low = bars[i].low ?? bars[i].close ?? entry;
+
+        // Conservative: a bar spanning both the stop and a target stops out
+        if (low <= stop) {
+            if (firstHit === 'NONE') {
+                firstHit = 'STOP';
+                firstReturn = ((stop - entry) / entry) * 100;
+                barsHeld = i + 1;
+            }
+            break;
+        }
+
+        const reached = targets.filter(t => high >= t).length;
+        if (reached > 0 && firstHit === 'NONE') {
+            firstHit = `TP${reached}` as FirstHit;
+            firstReturn = ((targets[reached - 1] - entry) / entry) * 100;
+            barsHeld = i + 1;
+        }
+        targetsHit = Math.max(targetsHit, reached);
+        if (targetsHit === targets.length) break;
+    }
+
+    if (firstHit === 'NONE' && bars.length > 0) {
+        const lastClose = bars[bars.length - 1].close ?? entry;
+        firstReturn = ((lastClose - entry) / entry) * 100;
+    }
+
+    return { firstHit, targetsHit, returnPercent: firstReturn, barsHeld };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function stageOf(filtering: FilteringResult): ScreenerStage {
+    if (filtering.qualified) return 'QUALIFIED';
+    if (!filtering.layer1.passed) return 'LAYER_1';
+    if (!filtering.layer2.passed) return 'LAYER_2';
+    return 'LAYER_3';
+}
+
+/** "RSI Extreme (12.3)" → "RSI Extreme", "Vol 512000 < 1M" → "Vol < 1M" */
+function normalizeReason(reason: string): string {
+    return reason.replace(/\s*\([^)]*\)/g, '').replace(/^Vol [\d.e+]+/, 'Vol');
+}
+
+function outcomeStats(signals: ReplaySwingSignal[]): OutcomeStats {
+    const tracked = signals.map(s => s.tracking).filter((t): t is SignalTracking => t !== null);
+    const share = (count: number) => (tracked.length > 0 ? (count / tracked.length) * 100 : 0);
+
+    return {
+        signals: signals.length,
+        tracked: tracked.length,
+        tp1Rate: share(tracked.filter(t => t.targetsHit >= 1).length),
+        tp2Rate: share(tracked.filter(t => t.targetsHit >= 2).length),
+        tp3Rate: share(tracked.filter(t => t.targetsHit >= 3).length),
+        stopRate: share(tracked.filter(t => t.firstHit === 'STOP').length),
+        expiredRate: share(tracked.filter(t => t.firstHit === 'NONE').length),
+        averageReturn: mean(tracked.map(t => t.returnPercent)),
+    };
+}
+
+/**
+ * Screen one symbol on one as-of bar, the way the live route would have.
+ */
+function screenAsOf(
+    symbol: string,
+    input: SwingReplayInput,
+    t: number,
+    horizonDays: number
+): { stage: ScreenerStage; reason: string | null; forwardReturn: number; signal: ReplaySwingSignal | null } | null {
+    const { daily } = input;
+    const asOf = daily[t];
+    const history = daily.slice(0, t + 1).filter(q => q.date.getTime() > asOf.date.getTime() - DAILY_LOOKBACK_DAYS * DAY_MS);
+    if (history.length < MIN_DAILY_BARS) return null;
+
+    const price = asOf.close as number;
+    const forward = daily.slice(t + 1, t + 1 + horizonDays);
+    const forwardReturn = (((forward[forward.length - 1].close ?? price) - price) / price) * 100;
+
+    const previousClose = daily[t - 1]?.close ?? price;
+    const quote: ScreeningQuote = {
+        regularMarketPrice: price,
+        regularMarketPreviousClose: previousClose,
+        averageDailyVolume3Month: mean(history.slice(-AVERAGE_VOLUME_BARS).map(q => q.volume ?? 0)),
+        marketCap: input.sharesOutstanding !== null ? input.sharesOutstanding * price : 0,
+        tradeable: true,
+    };
+
+    const filtering = runStrictFiltering(quote, history);
+    const stage = stageOf(filtering);
+    if (!filtering.qualified) {
+        return { stage, reason: filtering.rejection_reason, forwardReturn, signal: null };
+    }
+
+    const technical = calculateTechnicalScore(
+        symbol,
+        history.map(q => q.close || 0),
+        history.map(q => q.volume || 0),
+        history.map(q => q.high || 0),
+        history.map(q => q.low || 0),
+        history.map(q => q.open || 0)
+    );
+    const { adjustedScore } = applyQualityPenalties(technical, filtering);
+
+    const signal: ReplaySwingSignal = {
+        date: getJakartaDateKey(asOf.date),
+        symbol,
+        price,
+        score: adjustedScore,
+        grade: gradeSwingScore(adjustedScore),
+        factors: Object.fromEntries(
+            FACTORS.map(f => [f, technical.factor_breakdown[f].percentage])
+        ) as Record<SwingFactor, number>,
+        stop: null,
+        targets: null,
+        tracking: null,
+    };
+
+    // Hourly candles known at the as-of close
+    const dayKey = signal.date;
+    const hourly = input.hourly.filter(q =>
+        q.close !== null &&
+        getJakartaDateKey(q.date) <= dayKey &&
+        q.date.getTime() > asOf.date.getTime() - HOURLY_LOOKBACK_DAYS * DAY_MS
+    );
+    if (hourly.length <= 20) {
+        signal.untrackedReason = 'Not enough hourly history';
+        return { stage, reason: null, forwardReturn, signal };
+    }
+
+    const hCloses = hourly.map(q => q.close as number);
+    const hHighs = hourly.map(q => q.high ?? (q.close as number));
+    const hLows = hourly.map(q => q.low ?? (q.close as number));
+    const hourlyAn = analyzeHourlyFrame(hCloses, hHighs, hLows);
+    const atr = last(atrSeries(hHighs, hLows, hCloses)) ?? (hHighs[hHighs.length - 1] - hLows[hLows.length - 1]);
+    const plan = generateTradePlan(price, 'BUY', hourlyAn, atr, previousClose);
+
+    const stop = plan.stop_loss.recommended;
+    const targets: [number, number, number] = [
+        plan.take_profit.tp1.price,
+        plan.take_profit.tp2.price,
+        plan.take_profit.tp3.price,
+    ];
+    signal.stop = stop;
+    signal.targets = targets;
+
+    if (!Number.isFinite(stop) || stop >= price) {
+        signal.untrackedReason = 'No valid stop below the entry';
+    } else if (targets[0] <= price) {
+        signal.untrackedReason = 'TP1 at or below the entry';
+    } else {
+        signal.tracking = trackSignal(price, stop, targets, forward);
+    }
+
+    return { stage, reason: null, forwardReturn, signal };
+}
+
+// ============================================================================
+// Replay
+// ============================================================================
+
+/**
+ * Replay the screener over already-fetched candles (oldest first).
+ */
+export function replaySwingScreener(
+    inputs: Record<string, SwingReplayInput>,
+    config: Partial<SwingReplayConfig> = {}
+): SwingReplayResult {
+    const { days, stepDays, horizonDays } = { ...DEFAULT_CONFIG, ...config };
+    const step = Math.max(1, Math.floor(stepDays));
+
+    const evaluations: { stage: ScreenerStage; reason: string | null; forwardReturn: number }[] = [];
+    const signals: ReplaySwingSignal[] = [];
+    const symbols: string[] = [];
+    const skipped: { symbol: string; reason: string }[] = [];
+    const dates: string[] = [];
+
+    for (const [symbol, input] of Object.entries(inputs)) {
+        const daily = input.daily.filter(q => q.close !== null && q.close > 0);
+        const lastAsOf = daily.length - 1 - horizonDays;
+        if (lastAsOf < MIN_DAILY_BARS) {
+            skipped.push({ symbol, reason: `Needs ${MIN_DAILY_BARS + horizonDays + 1} daily candles, has ${daily.length}` });
+            continue;
+        }
+
+        const fromTime = daily[lastAsOf].date.getTime() - days * DAY_MS;
+        let evaluated = 0;
+
+        // Step back from the latest as-of date so every run ends on it
+        for (let t = lastAsOf; t >= 1 && daily[t].date.getTime() >= fromTime; t -= step) {
+            const result = screenAsOf(symbol, { ...input, daily }, t, horizonDays);
+            if (!result) continue;
+
+            evaluated++;
+            dates.push(getJakartaDateKey(daily[t].date));
+            evaluations.push({ stage: result.stage, reason: result.reason, forwardReturn: result.forwardReturn });
+            if (result.signal) signals.push(result.signal);
+        }
+
+        if (evaluated > 0) symbols.push(symbol);
+        else skipped.push({ symbol, reason: 'No as-of date with enough history' });
+    }
+
+    signals.sort((a, b) => a.date.localeCompare(b.date) || b.score - a.score);
+    dates.sort();
+
+    const stages: StageStats[] = (['LAYER_1', 'LAYER_2', 'LAYER_3', 'QUALIFIED'] as ScreenerStage[]).map(stage => {
+        const group = evaluations.filter(e => e.stage === stage);
+        const reasons = new Map<string, number>();
+        for (const e of group) {
+            if (e.reason) reasons.set(normalizeReason(e.reason), (reasons.get(normalizeReason(e.reason)) ?? 0) + 1);
+        }
+        return {
+            stage,
+            evaluations: group.length,
+            averageForwardReturn: mean(group.map(e => e.forwardReturn)),
+            positiveRate: group.length > 0 ? (group.filter(e => e.forwardReturn > 0).length / group.length) * 100 : 0,
+            topReasons: [...reasons.entries()]
+                .sort((a, b) => b[1] - a[1])
+                .slice(0, 5)
+                .map(([reason, count]) => ({ reason, count })),
+        };
+    });
+
+    const grades: GradeStats[] = (['A', 'B', 'C'] as SwingGrade[]).map(grade => {
+        const group = signals.filter(s => s.grade === grade);
+        return {
+            grade,
+            ...outcomeStats(group),
+            averageBarsHeld: mean(group.flatMap(s => (s.tracking ? [s.tracking.barsHeld] : []))),
+        };
+    });
+
+    const tracked = signals.filter(s => s.tracking !== null);
+    const factors: FactorStats[] = FACTORS.map(factor => ({
+        factor,
+        bands: FACTOR_BANDS.map(band => ({
+            label: band.label,
+            ...outcomeStats(signals.filter(s => s.factors[factor] >= band.min && s.factors[factor] < band.max)),
+        })),
+        correlation: pearsonCorrelation(
+            tracked.map(s => s.factors[factor]),
+            tracked.map(s => s.tracking!.returnPercent)
+        ),
+    }));
+
+    console.log(`[Swing Replay] ${evaluations.length} screens, ${signals.length} qualified, ${tracked.length} tracked`);
+
+    return {
+        period: { start: dates[0] ?? '', end: dates[dates.length - 1] ?? '' },
+        config: { days, stepDays: step, horizonDays },
+        symbols,
+        skipped,
+        evaluations: evaluations.length,
+        stages,
+        grades,
+        factors,
+        signals,
+        assumptions: ASSUMPTIONS,
+    };
+}
+
+/**
+ * Fetch daily and hourly candles plus share counts, then replay the screener.
+ */
+export async function runSwingReplay(config: Partial<SwingReplayConfig> = {}): Promise<SwingReplayResult> {
+    const merged = { ...DEFAULT_CONFIG, ...config };
+    const symbols = merged.symbols && merged.symbols.length > 0 ? merged.symbols : getSwingUniverse();
+    const inputs: Record<string, SwingReplayInput> = {};
+
+    // Daily: the as-of window, the 180-day lookback and the horizon (≈1.5 calendar days per trading day)
+    const dailyDays = merged.days + DAILY_LOOKBACK_DAYS + Math.ceil(merged.horizonDays * 1.5);
+    // Hourly history only reaches back ~730 days
+    const hourlyDays = Math.min(729, merged.days + HOURLY_LOOKBACK_DAYS + Math.ceil(merged.horizonDays * 1.5));
+
+    console.log(`[Swing Replay] Fetching ${symbols.length} symbols (${dailyDays}d daily, ${hourlyDays}d hourly)`);
+
+    // Batches of 5 with a pause, like the live screener
+    const batchSize = 5;
+    for (let i = 0; i < symbols.length; i += batchSize) {
+        const batch = symbols.slice(i, i + batchSize);
+        await Promise.all(batch.map(async symbol => {
+            const fullSymbol = symbol.endsWith('.JK') ? symbol : `${symbol}.JK`;
+            try {
+                const [daily, hourly, quote] = await Promise.all([
+                    fetchChart(fullSymbol, '1d', dailyDays),
+                    fetchChart(fullSymbol, '60m', hourlyDays).catch(() => []),
+                    getMarketDataProvider().quote(fullSymbol).catch(() => null),
+                ]);
+                const shares = quote?.marketCap && quote.regularMarketPrice
+                    ? quote.marketCap / quote.regularMarketPrice
+                    : null;
+                inputs[symbol.replace('.JK', '')] = { daily, hourly, sharesOutstanding: shares };
+            } catch (error) {
+                console.warn(`[Swing Replay] Failed to fetch ${symbol}:`, error);
+            }
+        }));
+
+        if (i + batchSize < symbols.length) await new Promise(r => setTimeout(r, 200));
+    }
+
+    if (Object.keys(inputs).length === 0) {
+        throw new Error('No price history available for the swing universe');
+    }
+
+    return replaySwingScreener(inputs, merged);
+}
@@ -1,3 +1,5 @@
+import { ema, rsi, macd } from '@/backend/analysis/series';
+import { getPatternBias, getRecentPatterns } from '@/backend/analysis/candlestickPatterns';
 
 export interface TechnicalScore {
     symbol: string;
@@ -16,56 +18,6 @@ export interface TechnicalScore {
     confidence_level: 'HIGH' | 'MEDIUM' | 'LOW';
 }
 
-function calculateEMA(prices: number[], period: number): number[] {
-    if (prices.length === 0) return [];
-    const k = 2 / (period + 1);
-    const emaArray = [prices[0]];
-    for (let i = 1; i < prices.length; i++) {
-        emaArray.push(prices[i] * k + emaArray[i - 1] * (1 - k));
-    }
-    return emaArray;
-}
-
-function calculateRSI(prices: number[], period = 14): number[] {
-    if (prices.length < period + 1) return Array(prices.length).fill(50);
-    const rsiArray: number[] = [];
-    let gains = 0, losses = 0;
-
-    // First RSI
-    for (let i = 1; i <= period; i++) {
-        const change = prices[i] - prices[i - 1];
-        if (change > 0) gains += change;
-        else losses += Math.abs(change);
-    }
-    let avgGain = gains / period;
-    let avgLoss = losses / period;
-
-    rsiArray[period] = avgLoss === 0 ? 100 : 100 - (100 / (1 + (avgGain / avgLoss)));
-
-    // Subsequent RSI
-    for (let i = period + 1; i < prices.length; i++) {
-        const change = prices[i] - prices[i - 1];
-        const gain = change > 0 ? change : 0;
-        const loss = change < 0 ? Math.abs(change) : 0;
-        avgGain = (avgGain * (period - 1) + gain) / period;
-        avgLoss = (avgLoss * (period - 1) + loss) / period;
-        rsiArray[i] = avgLoss === 0 ? 100 : 100 - (100 / (1 + (avgGain / avgLoss)));
-    }
-
-    // Fill initial values
-    for (let i = 0; i < period; i++) rsiArray[i] = 50;
-
-    return rsiArray;
-}
-
-function calculateSimpleMACD(prices: number[]) {
-    const shortEMA = calculateEMA(prices, 12);
-    const longEMA = calculateEMA(prices, 26);
-    const macdLine = prices.map((_, i) => shortEMA[i] - longEMA[i]);
-    const signalLine = calculateEMA(macdLine, 9);
-    return { macd: macdLine, signal: signalLine, histogram: macdLine.map((m, i) => m - signalLine[i]) };
-}
-
 export function calculateTechnicalScore(
     symbol: string,
     prices: number[],
@@ -78,10 +30,10 @@ export function calculateTechnicalScore(
     const currentPrice = prices[len - 1];
 
     // --- 1. TREND ANALYSIS (Max 35) ---
-    const ema20 = calculateEMA(prices, 20);
-    const ema50 = calculateEMA(prices, 50);
-    const lastEma20 = ema20[len - 1];
-    const lastEma50 = ema50[len - 1];
+    const ema20 = ema(prices, 20);
+    const ema50 = ema(prices, 50);
+    const lastEma20 = ema20[len - 1] ?? currentPrice;
+    const lastEma50 = ema50[len - 1] ?? currentPrice;
 
     let trendScore = 0;
     const trendDetails: any = {};
@@ -114,7 +66,9 @@ export function calculateTechnicalScore(
     // Bonus: Recent crossover (last 5 days)
     let recentCross = false;
     for (let i = 1; i <= 5; i++) {
-        if (len - i > 0 && ema20[len - i - 1] <= ema50[len - i - 1] && ema20[len - i] > ema50[len - i]) {
+        const prev20 = ema20[len - i - 1], prev50 = ema50[len - i - 1];
+        const cur20 = ema20[len - i], cur50 = ema50[len - i];
+        if (prev20 != null && prev50 != null && cur20 != null && cur50 != null && prev20 <= prev50 && cur20 > cur50) {
             recentCross = true;
             break;
         }
@@ -130,8 +84,8 @@ export function calculateTechnicalScore(
     else if (trendScore >= 6) trendAssess = 'NEUTRAL';
 
     // --- 2. MOMENTUM ANALYSIS (Max 25) ---
-    const rsiArr = calculateRSI(prices, 14);
-    const lastRsi = rsiArr[len - 1];
+    const rsiArr = rsi(prices, 14);
+    const lastRsi = rsiArr[len - 1] ?? 50;
     let momScore = 0;
     const momDetails: any = {};
 
@@ -191,10 +145,10 @@ export function calculateTechnicalScore(
     else if (momScore >= 5) momAssess = 'WEAK';
 
     // --- 3. MACD (Max 20) ---
-    const macdData = calculateSimpleMACD(prices);
-    const lastMacd = macdData.macd[len - 1];
-    const lastSig = macdData.signal[len - 1];
-    const lastHist = macdData.histogram[len - 1];
+    const macdData = macd(prices);
+    const lastMacd = macdData.macd[len - 1] ?? 0;
+    const lastSig = macdData.signal[len - 1] ?? 0;
+    const lastHist = macdData.histogram[len - 1] ?? 0;
     let macdScore = 0;
     const macdDetails: any = {};
 
@@ -203,7 +157,9 @@ export function calculateTechnicalScore(
     let xAge = 0;
     let crossFound = false;
     for (let i = 1; i <= 5; i++) {
-        if (macdData.histogram[len - i - 1] <= 0 && macdData.histogram[len - i] > 0) {
+        const before = macdData.histogram[len - i - 1];
+        const after = macdData.histogram[len - i];
+        if (before != null && after != null && before <= 0 && after > 0) {
             crossFound = true;
             xAge = i;
             break;
@@ -221,7 +177,7 @@ export function calculateTechnicalScore(
     // 3.2 Histogram (5 pts)
     let hScore = 0;
     // Check reversing
-    const prevHist = macdData.histogram[len - 2];
+    const prevHist = macdData.histogram[len - 2] ?? 0;
     if (prevHist < 0 && lastHist > 0) hScore = 5;
     else if (lastHist > 0 && lastHist > prevHist) hScore = 4;
     else if (lastHist > 0) hScore = 2;
@@ -312,20 +268,17 @@ export function calculateTechnicalScore(
     else if (supScore >= 4) supAssess = 'MODERATE';
 
     // --- 6. PATTERNS (Max 5) ---
-    // Simple checks for last candle
-    let patScore = 0;
-    let pattern = 'NONE';
-    const body = Math.abs(currentPrice - dailyOpens[len - 1]);
-    const range = highs[len - 1] - lows[len - 1];
-    const upperWick = highs[len - 1] - Math.max(currentPrice, dailyOpens[len - 1]);
-    const lowerWick = Math.min(currentPrice, dailyOpens[len - 1]) - lows[len - 1];
-
-    // Hammer
-    if (lowerWick > body * 2 && upperWick < body * 0.5) { patScore = 5; pattern = 'HAMMER'; }
-    // Bullish Marubozu (Big body, small wicks)
-    else if (body > range * 0.8 && range > currentPrice * 0.02) { patScore = 3; pattern = 'MARUBOZU'; }
-
-    let patAssess = patScore >= 3 ? 'PATTERN DETECTED' : 'NO PATTERN';
+    // Candlestick patterns completing in the last 3 sessions, weighted by reliability
+    const recentPatterns = getRecentPatterns({ opens: dailyOpens, highs, lows, closes: prices }, 3);
+    const patternBias = getPatternBias(recentPatterns);
+    const patScore = Math.max(0, Math.min(5, patternBias));
+    const directional = recentPatterns.filter(p => p.direction !== 'NEUTRAL');
+    const pattern = directional.length > 0 ? directional.map(p => p.label).join(', ') : 'NONE';
+
+    let patAssess = 'NO PATTERN';
+    if (patternBias >= 3) patAssess = 'STRONG BULLISH PATTERN';
+    else if (patternBias > 0) patAssess = 'BULLISH PATTERN';
+    else if (patternBias < 0) patAssess = 'BEARISH PATTERN';
 
     // --- 7. MULTI-TF (Max 5) ---
     // Since this function runs on daily/historical, we can check Daily Alignment here
@@ -333,7 +286,7 @@ export function calculateTechnicalScore(
     let conditions = 0;
     if (currentPrice > lastEma20) conditions++;
     if (lastRsi > 45) conditions++;
-    if (lastMacd > 0 || lastMacd > macdData.macd[len - 6]) conditions++; // rising
+    if (lastMacd > 0 || lastMacd > (macdData.macd[len - 6] ?? lastMacd)) conditions++; // rising
 
     if (conditions === 3) alignScore = 5;
     else if (conditions === 2) alignScore = 3;
@@ -364,7 +317,7 @@ export function calculateTechnicalScore(
             macd: { score: macdScore, max: 20, percentage: (macdScore / 20) * 100, assessment: macdAssess, details: macdDetails },
             volume: { score: volScore, max: 15, percentage: (volScore / 15) * 100, assessment: volAssess, details: volDetails },
             support_resistance: { score: supScore, max: 10, percentage: (supScore / 10) * 100, assessment: supAssess, details: supDetails },
-            patterns: { score: patScore, max: 5, percentage: (patScore / 5) * 100, assessment: patAssess, details: { pattern } },
+            patterns: { score: patScore, max: 5, percentage: (patScore / 5) * 100, assessment: patAssess, details: { pattern, bias: patternBias, detected: recentPatterns } },
             multi_timeframe: { score: alignScore, max: 5, percentage: (alignScore / 5) * 100, assessment: alignAssess, details: { conditions } }
         },
         overall_technical_assessment: overallVerdict,
@@ -0,0 +1,407 @@
+/**
+ * Swing Screener Pipeline
+ *
+ * The stages behind `/api/screener/swing`: three filtering layers (basic,
+ * quality, technical), hourly/daily frame analysis, quality-tag penalties,
+ * grades and the trade plan. Kept free of fetching so the live route and the
+ * historical replay (`lib/swing/replay`) run exactly the same rules.
+ *
+ * @module lib/swing/screener
+ */
+
+import type { TechnicalScore } from './scoring';
+import type { HistoricalQuote, MarketQuote } from '@/backend/data/marketData';
+import { getUniverseSymbols } from '@/backend/data/universeRegistry';
+import { ema, last, rsi as rsiSeries } from '@/backend/analysis/series';
+import { addTicks, getAutoRejectionLimits, getLimitWarnings, roundToTick } from '@/shared/idxMarketRules';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type SwingGrade = 'A' | 'B' | 'C';
+
+/** The quote fields the filters and the trade plan read */
+export type ScreeningQuote = Pick<
+    MarketQuote,
+    'regularMarketPrice' | 'regularMarketPreviousClose' | 'averageDailyVolume3Month' | 'marketCap' | 'tradeable' | 'bid' | 'ask'
+>;
+
+export interface FilteringResult {
+    qualified: boolean;
+    rejection_reason: string | null;
+    quality_tags: string[];
+    layer1: {
+        passed: boolean;
+        /** Filled in as the checks run; a rejection leaves the later ones unset */
+        checks: Partial<{
+            price: { passed: boolean; value: number; msg?: string };
+            liquidity: { passed: boolean; value: number; msg?: string };
+            market_cap: { passed: boolean; value: number; msg?: string };
+            trading: { passed: boolean; status: string; msg?: string };
+        }>;
+    };
+    layer2: {
+        passed: boolean;
+        warnings: string[];
+        checks: Partial<{
+            volatility: { passed: boolean; max_change: number; msg?: string };
+            spread: { passed: boolean; spread_pct: number; msg?: string };
+            consistency: { passed: boolean; active_pct: number; msg?: string };
+            range: { passed: boolean; range_pct: number; msg?: string };
+        }>;
+    };
+    layer3: {
+        passed: boolean;
+        warnings: string[];
+        checks: Partial<{
+            rsi: { passed: boolean; value: number; msg?: string };
+            death_cross: { passed: boolean; msg?: string };
+            volume_collapse: { passed: boolean; ratio: number; msg?: string };
+        }>;
+    };
+}
+
+export interface TimeframeAnalysis {
+    trend: 'UPTREND' | 'DOWNTREND' | 'CONSOLIDATION';
+    score: number;
+    verdict: string;
+    details?: { setup?: string; rsi?: number };
+    support?: number;
+    resistance?: number;
+    momentum?: string;
+    signal?: string;
+}
+
+export interface TradePlan {
+    entry: { primary: number; alternative: number; range: string; timing: string };
+    stop_loss: { technical: number; percentage: number; atr: number; recommended: number; method: string; rationale: string };
+    take_profit: { tp1: { price: number; rr_ratio: string; action: string }; tp2: { price: number; rr_ratio: string; action: string }; tp3: { price: number; rr_ratio: string; action: string } };
+    position_sizing: { capital: number; max_risk_pct: number; max_risk_idr: number; entry_price: number; stop_loss: number; risk_per_share: number; max_shares: number; recommended_lots: number; shares: number; required_capital: number; actual_risk: number };
+    risk_reward: { tp1_rr: number; tp2_rr: number; tp3_rr: number; weighted_avg: number; assessment: string };
+    management_plan: { entry_rules: string[]; stop_rules: string[]; exit_rules: string[] };
+    trade_summary: { action: string; stop: string; targets: string; capital: string; risk: string; potential: string; verdict: string };
+    price_limits: { ara: number; arb: number; warnings: string[] };
+}
+
+// ============================================================================
+// 3-Layer Strict Filtering
+// ============================================================================
+
+export function runStrictFiltering(quote: ScreeningQuote, quotes: HistoricalQuote[]): FilteringResult {
+    const result: FilteringResult = {
+        qualified: true,
+        rejection_reason: null,
+        quality_tags: [],
+        layer1: { passed: true, checks: {} },
+        layer2: { passed: true, warnings: [], checks: {} },
+        layer3: { passed: true, warnings: [], checks: {} }
+    };
+
+    // --- LAYER 1: BASIC FILTERS ---
+    const price = quote.regularMarketPrice || 0;
+    const avgVol = quote.averageDailyVolume3Month || 0;
+    const marketCap = quote.marketCap || 0;
+    const isSuspended = quote.tradeable === false;
+
+    // 1.1 Price: 100-500 IDR
+    const pricePass = price >= 100 && price <= 500;
+    result.layer1.checks.price = { passed: pricePass, value: price, msg: pricePass ? undefined : (price < 100 ? 'Price < 100' : 'Price > 500') };
+    if (!pricePass) {
+        result.qualified = false;
+        result.rejection_reason = result.layer1.checks.price.msg || 'Price Out of Range';
+        result.layer1.passed = false;
+        return result;
+    }
+
+    // 1.2 Liquidity: > 1M shares avg
+    const volPass = avgVol >= 1_000_000;
+    result.layer1.checks.liquidity = { passed: volPass, value: avgVol, msg: volPass ? undefined : `Vol ${avgVol} < 1M` };
+    if (!volPass) {
+        result.qualified = false;
+        result.rejection_reason = result.layer1.checks.liquidity.msg || 'Low Liquidity';
+        result.layer1.passed = false;
+        return result;
+    }
+
+    // 1.3 Market Cap: > 100M IDR
+    const mcapPass = marketCap >= 100_000_000;
+    result.layer1.checks.market_cap = { passed: mcapPass, value: marketCap, msg: mcapPass ? undefined : 'Market Cap too small' };
+    if (!mcapPass) {
+        result.qualified = false;
+        result.rejection_reason = result.layer1.checks.market_cap.msg || 'Small Cap';
+        result.layer1.passed = false;
+        return result;
+    }
+
+    // 1.4 Status
+    result.layer1.checks.trading = { passed: !isSuspended, status: isSuspended ? 'SUSPENDED' : 'ACTIVE' };
+    if (isSuspended) {
+        result.qualified = false;
+        result.rejection_reason = 'Stock Suspended';
+        result.layer1.passed = false;
+        return result;
+    }
+
+    // --- LAYER 2: QUALITY FILTERS ---
+    const last30 = quotes.slice(-30);
+    const last10 = quotes.slice(-10);
+
+    // 2.1 Volatility
+    let maxChange = 0;
+    for (const q of last30) {
+        if (q.open && q.close) {
+            const chg = Math.abs((q.close - q.open) / q.open * 100);
+            if (chg > maxChange) maxChange = chg;
+        }
+    }
+    if (maxChange > 50) {
+        result.qualified = false;
+        result.rejection_reason = `Extreme Volatility (${maxChange.toFixed(1)}%)`;
+        result.layer2.passed = false;
+        result.layer2.checks.volatility = { passed: false, max_change: maxChange, msg: 'Extreme' };
+        return result;
+    } else if (maxChange > 30) {
+        result.quality_tags.push('HIGH_VOLATILITY');
+        result.layer2.warnings.push('High Volatility');
+        result.layer2.checks.volatility = { passed: true, max_change: maxChange, msg: 'High' };
+    } else {
+        result.layer2.checks.volatility = { passed: true, max_change: maxChange };
+    }
+
+    // 2.2 Spread
+    let spreadPct = 0;
+    if (quote.bid && quote.ask) {
+        spreadPct = ((quote.ask - quote.bid) / quote.bid) * 100;
+        if (spreadPct >= 10) {
+            result.qualified = false;
+            result.rejection_reason = `Wide Spread (${spreadPct.toFixed(1)}%)`;
+            result.layer2.passed = false;
+            result.layer2.checks.spread = { passed: false, spread_pct: spreadPct };
+            return result;
+        } else if (spreadPct >= 5) {
+            result.quality_tags.push('WIDE_SPREAD');
+            result.layer2.warnings.push('Wide Spread');
+            result.layer2.checks.spread = { passed: true, spread_pct: spreadPct, msg: 'Wide' };
+        } else {
+            result.layer2.checks.spread = { passed: true, spread_pct: spreadPct };
+        }
+    } else {
+        result.layer2.checks.spread = { passed: true, spread_pct: 0, msg: 'No Bid/Ask Data' };
+    }
+
+    // 2.3 Consistency
+    let activeDays = 0;
+    for (const q of last30) { if (q.volume && q.volume > 0) activeDays++; }
+    const consistency = (activeDays / 30) * 100;
+    if (consistency < 60) {
+        result.qualified = false;
+        result.rejection_reason = `Inconsistent Trading (${consistency.toFixed(0)}%)`;
+        result.layer2.passed = false;
+        result.layer2.checks.consistency = { passed: false, active_pct: consistency };
+        return result;
+    } else if (consistency < 80) {
+        result.quality_tags.push('INCONSISTENT_TRADING');
+        result.layer2.warnings.push('Sporadic Trading');
+        result.layer2.checks.consistency = { passed: true, active_pct: consistency, msg: 'Sporadic' };
+    } else {
+        result.layer2.checks.consistency = { passed: true, active_pct: consistency };
+    }
+
+    // 2.4 Range
+    const highs10 = last10.map(q => q.high || 0);
+    const lows10 = last10.map(q => q.low || Infinity);
+    const maxP = Math.max(...highs10);
+    const minP = Math.min(...lows10);
+    const rangePct = minP > 0 ? ((maxP - minP) / minP) * 100 : 0;
+    if (rangePct < 5) {
+        result.qualified = false;
+        result.rejection_reason = `Stagnant Price (Range ${rangePct.toFixed(1)}%)`;
+        result.layer2.passed = false;
+        result.layer2.checks.range = { passed: false, range_pct: rangePct };
+        return result;
+    } else {
+        result.layer2.checks.range = { passed: true, range_pct: rangePct };
+    }
+
+    // --- LAYER 3: TECHNICAL FILTERS ---
+    const closes = quotes.map(q => q.close || 0);
+    if (!closes.length) return result;
+
+    // 3.1 RSI
+    const rsi = last(rsiSeries(closes, 14)) ?? 50;
+    if (rsi <= 15 || rsi >= 85) {
+        result.qualified = false;
+        result.rejection_reason = `RSI Extreme (${rsi.toFixed(1)})`;
+        result.layer3.passed = false;
+        result.layer3.checks.rsi = { passed: false, value: rsi };
+        return result;
+    } else {
+        result.layer3.checks.rsi = { passed: true, value: rsi };
+    }
+
+    // 3.2 Death Cross
+    const ema20 = ema(closes, 20);
+    const ema50 = ema(closes, 50);
+    let deathCross = false;
+    const checkDays = Math.min(5, closes.length);
+    for (let i = quotes.length - checkDays; i < quotes.length; i++) {
+        const prev20 = ema20[i - 1], prev50 = ema50[i - 1], cur20 = ema20[i], cur50 = ema50[i];
+        if (prev20 != null && prev50 != null && cur20 != null && cur50 != null && prev20 >= prev50 && cur20 < cur50) {
+            deathCross = true;
+            break;
+        }
+    }
+    if (deathCross) {
+        result.qualified = false;
+        result.rejection_reason = 'Death Cross Detected';
+        result.layer3.passed = false;
+        result.layer3.checks.death_cross = { passed: false };
+        return result;
+    } else {
+        result.layer3.checks.death_cross = { passed: true };
+    }
+
+    // 3.3 Volume Collapse
+    const currentVol = quotes[quotes.length - 1].volume || 0;
+    const avgVol20 = quotes.slice(-20).reduce((acc, q) => acc + (q.volume || 0), 0) / 20;
+    const volRatio = avgVol20 > 0 ? currentVol / avgVol20 : 0;
+    if (volRatio < 0.3) {
+        result.qualified = false;
+        result.rejection_reason = `Volume Collapse (${volRatio.toFixed(2)}x)`;
+        result.layer3.passed = false;
+        result.layer3.checks.volume_collapse = { passed: false, ratio: volRatio };
+        return result;
+    } else if (volRatio < 0.5) {
+        result.quality_tags.push('LOW_VOLUME');
+        result.layer3.warnings.push('Low Volume');
+        result.layer3.checks.volume_collapse = { passed: true, ratio: volRatio, msg: 'Low Vol' };
+    } else {
+        result.layer3.checks.volume_collapse = { passed: true, ratio: volRatio };
+    }
+
+    return result;
+}
+
+// ============================================================================
+// Timeframe Analysis
+// ============================================================================
+
+function checkTrend(prices: number[]): { direction: 'UPTREND' | 'DOWNTREND' | 'CONSOLIDATION', ema20: number, ema50: number } {
+    const price = prices[prices.length - 1];
+    const ema20 = last(ema(prices, 20)) ?? price;
+    const ema50 = last(ema(prices, 50)) ?? price;
+
+    if (price > ema20 && ema20 > ema50) return { direction: 'UPTREND', ema20, ema50 };
+    if (price < ema20 || ema20 < ema50) return { direction: 'DOWNTREND', ema20, ema50 };
+    return { direction: 'CONSOLIDATION', ema20, ema50 };
+}
+
+export function analyzeHourlyFrame(prices: number[], highPrices: number[], lowPrices: number[]): TimeframeAnalysis {
+    let score = 0;
+    const trend = checkTrend(prices);
+    if (trend.direction === 'UPTREND') score += 10;
+    else if (trend.direction === 'CONSOLIDATION') score += 5;
+
+    const currentPrice = prices[prices.length - 1];
+    const recentLow = Math.min(...lowPrices.slice(-20));
+    const recentHigh = Math.max(...highPrices.slice(-20));
+
+    const distToSupport = (currentPrice - recentLow) / recentLow * 100;
+    const distToRes = (recentHigh - currentPrice) / recentHigh * 100;
+
+    let setup = 'No clear setup';
+    if (distToSupport < 3 && trend.direction !== 'DOWNTREND') { score += 10; setup = 'Near support'; }
+    else if (distToRes < 2) { score += 3; setup = 'Near resistance'; }
+
+    let verdict = 'NO SETUP';
+    if (score >= 15) verdict = 'IMMEDIATE BUY';
+    else if (score >= 10) verdict = 'BUY ON DIP';
+
+    return { trend: trend.direction, score, verdict, support: recentLow, resistance: recentHigh, details: { setup } };
+}
+
+export function analyzeDailyFrame(prices: number[]): TimeframeAnalysis {
+    // Simplified daily analysis for MTF object since we have detailed 7-factor scoring elsewhere
+    const trend = checkTrend(prices);
+    const rsi = last(rsiSeries(prices, 14)) ?? 50;
+    return { trend: trend.direction, score: 0, verdict: trend.direction === 'UPTREND' ? 'BULLISH' : 'BEARISH', details: { rsi } };
+}
+
+export function generateTradePlan(price: number, action: string, hourly: TimeframeAnalysis, atr1h: number, referencePrice: number): TradePlan {
+    const capital = 50000;
+    const riskPct = 0.02;
+    const maxRisk = capital * riskPct;
+
+    let primary = price;
+    let alternative = hourly.support || price * 0.98;
+    if (action.includes('PULLBACK')) { primary = hourly.support || price * 0.98; alternative = addTicks(hourly.resistance || price * 1.02, 1); }
+
+    primary = roundToTick(primary);
+    alternative = roundToTick(alternative);
+
+    const slTech = (hourly.support || price * 0.95) * 0.98;
+    const stops = [slTech, price * 0.95, price - (2 * atr1h)].filter(s => s < price);
+    const recommendedSL = roundToTick(Math.max(...stops), 'down');
+
+    const tp1 = roundToTick(hourly.resistance || price * 1.05, 'down');
+    const tp2 = roundToTick(tp1 * 1.05, 'down');
+    const tp3 = roundToTick(price + ((price - recommendedSL) * 3), 'down');
+
+    const limits = getAutoRejectionLimits(referencePrice);
+    const limitWarnings = getLimitWarnings([
+        { label: 'Entry', price: Math.max(primary, alternative) },
+        { label: 'Stop', price: recommendedSL },
+        { label: 'TP1', price: tp1 },
+        { label: 'TP2', price: tp2 },
+        { label: 'TP3', price: tp3 },
+    ], referencePrice);
+
+    const riskPerShare = price - recommendedSL;
+    const maxShares = riskPerShare > 0 ? Math.floor(maxRisk / riskPerShare) : 0;
+    const lots = Math.floor(maxShares / 100);
+    const avgRR = riskPerShare > 0 ? Number((((tp1 - price) / (riskPerShare) + (tp2 - price) / (riskPerShare)) / 2).toFixed(2)) : 0;
+
+    return {
+        entry: { primary, alternative, range: `${Math.min(primary, alternative)}-${Math.max(primary, alternative)}`, timing: action },
+        stop_loss: { technical: roundToTick(slTech, 'down'), percentage: roundToTick(price * 0.95, 'down'), atr: roundToTick(price - 2 * atr1h, 'down'), recommended: recommendedSL, method: 'Best Fit', rationale: 'Tightest valid stop' },
+        take_profit: { tp1: { price: tp1, rr_ratio: '1:1.5', action: 'Sell 30%' }, tp2: { price: tp2, rr_ratio: '1:2.0', action: 'Sell 50%' }, tp3: { price: tp3, rr_ratio: '1:3.0', action: 'Trail' } },
+        position_sizing: { capital, max_risk_pct: riskPct * 100, max_risk_idr: maxRisk, entry_price: price, stop_loss: recommendedSL, risk_per_share: riskPerShare, max_shares: maxShares, recommended_lots: lots, shares: lots * 100, required_capital: lots * 100 * price, actual_risk: lots * 100 * riskPerShare },
+        risk_reward: { tp1_rr: 1.5, tp2_rr: 2.0, tp3_rr: 3.0, weighted_avg: avgRR, assessment: avgRR > 1.5 ? 'Good' : 'Fair' },
+        management_plan: { entry_rules: ['Limit Order'], stop_rules: ['Hard Stop'], exit_rules: ['Scale Out'] },
+        trade_summary: { action: `BUY ${lots} lots`, stop: `${recommendedSL}`, targets: `${tp1}/${tp2}`, capital: `${(lots * 100 * price).toLocaleString()}`, risk: `${(lots * 100 * riskPerShare).toLocaleString()}`, potential: 'High', verdict: 'VALID' },
+        price_limits: { ara: limits.upper, arb: limits.lower, warnings: limitWarnings }
+    };
+}
+
+// ============================================================================
+// Scoring & Universe
+// ============================================================================
+
+/** Score deductions for the quality tags raised by the filtering layers */
+const QUALITY_PENALTIES: Record<string, number> = {
+    HIGH_VOLATILITY: -10,
+    WIDE_SPREAD: -5,
+    INCONSISTENT_TRADING: -10,
+    LOW_VOLUME: -5,
+};
+
+/**
+ * Technical score after the quality-tag penalties, clamped to 0-100.
+ */
+export function applyQualityPenalties(technical: TechnicalScore, filtering: FilteringResult): { penalty: number; adjustedScore: number } {
+    const penalty = filtering.quality_tags.reduce((sum, tag) => sum + (QUALITY_PENALTIES[tag] ?? 0), 0);
+    return { penalty, adjustedScore: Math.max(0, Math.min(100, technical.normalized_score + penalty)) };
+}
+
+export function gradeSwingScore(score: number): SwingGrade {
+    return score > 80 ? 'A' : (score > 60 ? 'B' : 'C');
+}
+
+/**
+ * Symbols the swing screener scans: by default the SWING list of the universe
+ * registry (the penny list plus the BPJS universe).
+ */
+export function getSwingUniverse(name: string = 'SWING'): string[] {
+    return getUniverseSymbols(name);
+}
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest'
+import { EXECUTION_MODELS, fillableShares, quoteFill, type ExecutionModel } from '../executionModel'
+
+const REALISTIC = EXECUTION_MODELS.IDX_REALISTIC
+
+describe('Execution Models', () => {
+
+    it('should refuse buys locked at ARA and sells locked at ARB', () => {
+        // Reference 1000: ARA 1250, ARB 850
+        expect(quoteFill(REALISTIC, 'BUY', { open: 1250, close: 1250, volume: 1e6, previousClose: 1000 }))
+            .toEqual({ filled: false, reason: 'Locked at ARA (1250)' })
+        expect(quoteFill(REALISTIC, 'SELL', { open: 850, close: 850, volume: 1e6, previousClose: 1000 }))
+            .toEqual({ filled: false, reason: 'Locked at ARB (850)' })
+        // Slippage never pushes a fill past the limit
+        expect(quoteFill(REALISTIC, 'BUY', { open: 1245, close: 1200, volume: 1e6, previousClose: 1000 }))
+            .toEqual({ filled: true, price: 1250 })
+    })
+
+    it('should fill an open at ARA once the bar trades off the limit', () => {
+        // Opens at ARA but trades down to 1200: buyers get filled at the limit
+        expect(quoteFill(REALISTIC, 'BUY', { open: 1250, high: 1250, low: 1200, close: 1210, volume: 1e6, previousClose: 1000 }))
+            .toEqual({ filled: true, price: 1250 })
+        // Never leaves ARA all bar: still locked
+        expect(quoteFill(REALISTIC, 'BUY', { open: 1250, high: 1250, low: 1250, close: 1250, volume: 1e6, previousClose: 1000 }))
+            .toEqual({ filled: false, reason: 'Locked at ARA (1250)' })
+        // Opens at ARB and bounces: sellers get out at the limit
+        expect(quoteFill(REALISTIC, 'SELL', { open: 850, high: 900, low: 850, close: 880, volume: 1e6, previousClose: 1000 }))
+            .toEqual({ filled: true, price: 850 })
+    })
+
+    it('should apply basis-point slippage on valid ticks', () => {
+        const bps: ExecutionModel = { ...EXECUTION_MODELS.IDEAL_CLOSE, slippage: { type: 'BPS', bps: 50 } }
+        const bar = { open: 1000, close: 2000, volume: null, previousClose: null }
+
+        expect(quoteFill(bps, 'BUY', bar)).toEqual({ filled: true, price: 2010 })
+        expect(quoteFill(bps, 'SELL', bar)).toEqual({ filled: true, price: 1990 })
+    })
+
+    it('should cap shares by volume participation and round to lots', () => {
+        const bar = { open: 1000, close: 1000, volume: 5_000, previousClose: 1000 }
+
+        expect(fillableShares(REALISTIC, bar, 12_345)).toBe(500)
+        expect(fillableShares(REALISTIC, { ...bar, volume: 900 }, 12_345)).toBe(0)
+        expect(fillableShares(EXECUTION_MODELS.IDEAL_CLOSE, bar, 12_345.6)).toBe(12_345)
+    })
+})
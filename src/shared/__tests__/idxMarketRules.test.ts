@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest'
+import {
+    getTickSize,
+    roundToTick,
+    addTicks,
+    isValidTick,
+    getAutoRejectionLimits,
+    checkPriceLimits,
+    toTradablePrice,
+    getLimitWarnings,
+} from '../idxMarketRules'
+
+describe('IDX Market Rules', () => {
+
+    describe('getTickSize', () => {
+        it('should return the tick for each price band', () => {
+            expect(getTickSize(150)).toBe(1)
+            expect(getTickSize(200)).toBe(2)
+            expect(getTickSize(499)).toBe(2)
+            expect(getTickSize(500)).toBe(5)
+            expect(getTickSize(1995)).toBe(5)
+            expect(getTickSize(2000)).toBe(10)
+            expect(getTickSize(4990)).toBe(10)
+            expect(getTickSize(5000)).toBe(25)
+            expect(getTickSize(9875)).toBe(25)
+        })
+    })
+
+    describe('roundToTick', () => {
+        it('should snap raw multiplications to valid prices', () => {
+            // 9250 * 1.025 = 9481.25 → 25-rupiah grid
+            expect(roundToTick(9250 * 1.025)).toBe(9475)
+            expect(roundToTick(9250 * 1.025, 'up')).toBe(9500)
+            expect(roundToTick(1234)).toBe(1235)
+            expect(roundToTick(1234, 'down')).toBe(1230)
+            expect(roundToTick(333.3)).toBe(334)
+        })
+
+        it('should stay on the grid when crossing a band boundary', () => {
+            expect(roundToTick(4996, 'up')).toBe(5000)
+            expect(roundToTick(5010, 'down')).toBe(5000)
+            expect(roundToTick(199.6)).toBe(200)
+        })
+
+        it('should treat invalid input as zero', () => {
+            expect(roundToTick(NaN)).toBe(0)
+            expect(roundToTick(-5)).toBe(0)
+        })
+    })
+
+    describe('addTicks', () => {
+        it('should step through band changes', () => {
+            expect(addTicks(198, 3)).toBe(202)
+            expect(addTicks(500, -1)).toBe(498)
+            expect(addTicks(5000, -2)).toBe(4980)
+        })
+    })
+
+    it('should validate tick alignment', () => {
+        expect(isValidTick(9475)).toBe(true)
+        expect(isValidTick(9480)).toBe(false)
+        expect(isValidTick(199)).toBe(true)
+    })
+
+    describe('getAutoRejectionLimits', () => {
+        it('should apply the percentage for each reference band', () => {
+            // ≤ 200: 35%
+            expect(getAutoRejectionLimits(100)).toMatchObject({ upper: 135, upperPercent: 35 })
+            // 200 - 5000: 25%
+            expect(getAutoRejectionLimits(1000)).toMatchObject({ upper: 1250, upperPercent: 25 })
+            // > 5000: 20%, rounded down onto the 25-rupiah grid
+            expect(getAutoRejectionLimits(9250).upper).toBe(11100)
+            expect(getAutoRejectionLimits(9260).upper).toBe(11100)
+        })
+
+        it('should floor ARB at the minimum price', () => {
+            expect(getAutoRejectionLimits(1000).lower).toBe(850)
+            expect(getAutoRejectionLimits(55).lower).toBe(50)
+        })
+    })
+
+    describe('checkPriceLimits', () => {
+        it('should flag targets beyond ARA and ARB', () => {
+            expect(checkPriceLimits(1300, 1000).beyondARA).toBe(true)
+            expect(checkPriceLimits(800, 1000).beyondARB).toBe(true)
+            expect(checkPriceLimits(1100, 1000).withinLimits).toBe(true)
+        })
+
+        it('should describe levels outside the daily range', () => {
+            const warnings = getLimitWarnings([
+                { label: 'TP1', price: 1100 },
+                { label: 'TP2', price: 1300 },
+                { label: 'SL', price: 800 },
+            ], 1000)
+
+            expect(warnings).toHaveLength(2)
+            expect(warnings[0]).toContain('ARA (1250)')
+            expect(warnings[1]).toContain('ARB (850)')
+        })
+    })
+
+    describe('toTradablePrice', () => {
+        it('should round and clamp into the daily range', () => {
+            expect(toTradablePrice(1301, 1000)).toBe(1250)
+            expect(toTradablePrice(1023)).toBe(1025)
+            expect(toTradablePrice(30)).toBe(50)
+        })
+    })
+})
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest'
+import { getMarketStatus, isTradingDay, getNextTradingDay, getHoliday } from '../marketClock'
+
+// All instants are UTC; WIB = UTC+7
+describe('IDX Market Clock', () => {
+
+    describe('getMarketStatus', () => {
+        it('should follow the Monday-Thursday sessions', () => {
+            expect(getMarketStatus(new Date('2026-10-19T01:50:00Z')).phase).toBe('PRE_OPENING') // 08:50
+            expect(getMarketStatus(new Date('2026-10-19T03:00:00Z')).phase).toBe('SESSION_1')   // 10:00
+            expect(getMarketStatus(new Date('2026-10-19T05:30:00Z')).phase).toBe('LUNCH_BREAK') // 12:30
+            expect(getMarketStatus(new Date('2026-10-19T07:00:00Z')).phase).toBe('SESSION_2')   // 14:00
+            expect(getMarketStatus(new Date('2026-10-19T08:55:00Z')).phase).toBe('PRE_CLOSING') // 15:55
+            expect(getMarketStatus(new Date('2026-10-19T09:10:00Z')).phase).toBe('POST_TRADING') // 16:10
+        })
+
+        it('should use the longer Friday break', () => {
+            // 11:45 WIB: still session 1 on Monday, already the break on Friday
+            expect(getMarketStatus(new Date('2026-10-19T04:45:00Z')).phase).toBe('SESSION_1')
+            expect(getMarketStatus(new Date('2026-10-23T04:45:00Z')).phase).toBe('LUNCH_BREAK')
+            // 13:45 WIB Friday is still the break
+            expect(getMarketStatus(new Date('2026-10-23T06:45:00Z')).phase).toBe('LUNCH_BREAK')
+        })
+
+        it('should report phase transitions', () => {
+            const status = getMarketStatus(new Date('2026-10-19T03:00:00Z'))
+
+            expect(status.isContinuousTrading).toBe(true)
+            expect(status.jakartaTime).toBe('10:00')
+            expect(status.nextPhase).toBe('LUNCH_BREAK')
+            expect(status.nextChangeAt.toISOString()).toBe('2026-10-19T05:00:00.000Z')
+        })
+
+        it('should be closed on weekends until Monday pre-opening', () => {
+            const status = getMarketStatus(new Date('2026-10-24T03:00:00Z'))
+
+            expect(status.phase).toBe('CLOSED')
+            expect(status.closedReason).toBe('WEEKEND')
+            expect(status.isActive).toBe(false)
+            expect(status.nextChangeAt.toISOString()).toBe('2026-10-26T01:45:00.000Z')
+        })
+
+        it('should skip exchange holidays', () => {
+            // Wednesday after close; Dec 24-25 are holidays, then the weekend
+            const status = getMarketStatus(new Date('2026-12-23T10:00:00Z'))
+
+            expect(status.closedReason).toBe('AFTER_CLOSE')
+            expect(status.nextChangeAt.toISOString()).toBe('2026-12-28T01:45:00.000Z')
+
+            const christmas = getMarketStatus(new Date('2026-12-25T03:00:00Z'))
+            expect(christmas.closedReason).toBe('HOLIDAY')
+            expect(christmas.holidayName).toBe('Hari Raya Natal')
+        })
+
+        it('should use the Jakarta date near midnight UTC', () => {
+            // 2026-10-23T18:00Z is Saturday 01:00 WIB
+            expect(getMarketStatus(new Date('2026-10-23T18:00:00Z')).closedReason).toBe('WEEKEND')
+        })
+    })
+
+    describe('calendar queries', () => {
+        it('should identify trading days', () => {
+            expect(isTradingDay(new Date('2026-10-19T03:00:00Z'))).toBe(true)
+            expect(isTradingDay(new Date('2026-10-25T03:00:00Z'))).toBe(false)
+            expect(isTradingDay(new Date('2026-01-01T03:00:00Z'))).toBe(false)
+            expect(getHoliday(new Date('2026-01-01T03:00:00Z'))).toBe('Tahun Baru Masehi')
+        })
+
+        it('should find the next trading day', () => {
+            // Friday → Monday (00:00 WIB)
+            expect(getNextTradingDay(new Date('2026-10-23T03:00:00Z')).toISOString()).toBe('2026-10-25T17:00:00.000Z')
+        })
+    })
+})
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest'
+import { runMonteCarlo, tradeReturns } from '../monteCarlo'
+
+// Four +10% wins then four -10% losses: the worst possible ordering
+const RETURNS = [0.1, 0.1, 0.1, 0.1, -0.1, -0.1, -0.1, -0.1]
+
+describe('Monte Carlo', () => {
+
+    it('should turn closed trades into returns on the equity at the time', () => {
+        const leg = (type: 'BUY' | 'SELL', profit?: number) => ({ type, date: '2025-01-02', price: 1000, shares: 1000, profit })
+        const returns = tradeReturns([
+            leg('BUY'),
+            leg('SELL', 10_000_000),
+            leg('BUY'),
+            leg('SELL', -11_000_000),
+        ], 100_000_000)
+        expect(returns).toEqual([0.1, -0.1])
+
+        // Scale-outs of one entry are one return
+        expect(tradeReturns([leg('BUY'), leg('SELL', 4_000_000), leg('SELL', 6_000_000)], 100_000_000)).toEqual([0.1])
+    })
+
+    it('should keep the final return when shuffling and vary the drawdown', () => {
+        const result = runMonteCarlo(RETURNS, { simulations: 500, capital: 10_000_000 })
+
+        const final = (1.1 ** 4 * 0.9 ** 4 - 1) * 100
+        expect(result.finalReturn.p5).toBeCloseTo(final, 8)
+        expect(result.finalReturn.p95).toBeCloseTo(final, 8)
+        expect(result.probabilityOfLoss).toBe(100)
+
+        // The backtest order has the deepest drawdown and the longest streak
+        expect(result.actual.maxDrawdown).toBeCloseTo((1 - 0.9 ** 4) * 100, 8)
+        expect(result.actual.longestLosingStreak).toBe(4)
+        expect(result.maxDrawdown.p50).toBeLessThan(result.actual.maxDrawdown)
+        expect(result.longestLosingStreak.p95).toBeLessThanOrEqual(4)
+
+        // Fan starts at the capital and ends at the same equity on every path
+        expect(result.fan).toHaveLength(RETURNS.length + 1)
+        expect(result.fan[0]).toEqual({ p5: 10_000_000, p25: 10_000_000, p50: 10_000_000, p75: 10_000_000, p95: 10_000_000 })
+        expect(result.fan[RETURNS.length].p50).toBeCloseTo(10_000_000 * (1 + final / 100), 2)
+    })
+
+    it('should spread final returns and count ruin when bootstrapping', () => {
+        const options = { method: 'BOOTSTRAP' as const, simulations: 2000, ruinPercent: 30, seed: 7 }
+        const result = runMonteCarlo(RETURNS, options)
+
+        expect(result.finalReturn.p5).toBeLessThan(result.finalReturn.p50)
+        expect(result.finalReturn.p50).toBeLessThan(result.finalReturn.p95)
+        // Ruin needs at least four more losses than wins: rare but possible
+        expect(result.riskOfRuin).toBeGreaterThan(0)
+        expect(result.riskOfRuin).toBeLessThan(20)
+
+        // Seeded: the same run gives the same bands
+        expect(runMonteCarlo(RETURNS, options).finalReturn).toEqual(result.finalReturn)
+        expect(() => runMonteCarlo([])).toThrow('at least one closed trade')
+    })
+})
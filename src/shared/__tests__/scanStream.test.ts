@@ -0,0 +1,69 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import {
+    createScanStreamResponse,
+    fetchScanStream,
+    initialScanProgress,
+    parseScanEvents,
+    reduceScanProgress,
+    scanProgressPercent,
+    type ScanEvent,
+} from '../scanStream'
+
+afterEach(() => {
+    vi.unstubAllGlobals()
+})
+
+describe('Scan Streams', () => {
+
+    it('should stream progress and partial results before the final body', async () => {
+        const response = createScanStreamResponse<string, { count: number }>(async (emit) => {
+            emit({ type: 'start', total: 2 })
+            emit({ type: 'scored', symbol: 'BBRI', score: 72 })
+            emit({ type: 'candidate', result: 'BBRI' })
+            emit({ type: 'rejected', symbol: 'GOTO', layer: 1, reason: 'Price Out of Range' })
+            emit({ type: 'batch', phase: 'scoring', batch: 1, batches: 1, completed: 2, total: 2 })
+            return { count: 1 }
+        })
+        expect(response.headers.get('content-type')).toContain('text/event-stream')
+        vi.stubGlobal('fetch', vi.fn(async () => response))
+
+        const events: ScanEvent<string, { count: number }>[] = []
+        const result = await fetchScanStream<string, { count: number }>('/api/scan', {}, (event) => events.push(event))
+
+        expect(result).toEqual({ count: 1 })
+        expect(events.map((e) => e.type)).toEqual(['start', 'scored', 'candidate', 'rejected', 'batch', 'done'])
+
+        const progress = events.reduce(reduceScanProgress, initialScanProgress())
+        expect(progress).toMatchObject({ completed: 2, total: 2, scored: 1, rejected: 1 })
+        expect(progress.log).toEqual(['GOTO rejected (layer 1: Price Out of Range)', 'BBRI scored 72'])
+        expect(scanProgressPercent(progress)).toBe(100)
+        expect(scanProgressPercent({ ...progress, completed: 1 }, 0.3)).toBe(35)
+    })
+
+    it('should turn a failed scan into an error and stop when the client leaves', async () => {
+        vi.stubGlobal('fetch', vi.fn(async () => createScanStreamResponse(async () => {
+            throw new Error('provider down')
+        })))
+        await expect(fetchScanStream('/api/scan', {}, () => undefined)).rejects.toThrow('provider down')
+
+        const client = new AbortController()
+        let seen: AbortSignal | null = null
+        const response = createScanStreamResponse(async (_emit, signal) => {
+            seen = signal
+            await new Promise((resolve) => signal.addEventListener('abort', resolve))
+            throw new Error('Scan cancelled')
+        }, client.signal)
+        client.abort()
+        expect(await response.text()).toBe('')
+        expect(seen!.aborted).toBe(true)
+    })
+
+    it('should keep incomplete messages buffered', () => {
+        const first = parseScanEvents('event: start\ndata: {"type":"start","total":3}\n\nevent: sco')
+        expect(first.events).toEqual([{ type: 'start', total: 3 }])
+
+        const second = parseScanEvents(`${first.rest}red\r\ndata: {"type":"scored","symbol":"TLKM","score":64}\r\n\r\n`)
+        expect(second.events).toEqual([{ type: 'scored', symbol: 'TLKM', score: 64 }])
+        expect(second.rest).toBe('')
+    })
+})
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest'
+import {
+    evaluateScreenExpression,
+    parseScreenExpression,
+    resolveScreenField,
+    screenExpressionFields,
+} from '../screenExpression'
+
+const ROW = {
+    symbol: 'BBRI',
+    sector: 'Banking',
+    close: 4200,
+    ema50: 4000,
+    rsi14: 30,
+    volRatio: 2,
+    change1: -1.5,
+}
+
+const passes = (text: string, row: Record<string, number | string | null> = ROW) =>
+    evaluateScreenExpression(parseScreenExpression(text), row)
+
+describe('Screen Expressions', () => {
+
+    it('should evaluate comparisons, lists and logic', () => {
+        expect(passes("rsi14 < 35 AND close > ema50 AND volRatio > 1.5 AND sector IN ('Banking','Energy')")).toBe(true)
+        expect(passes("sector not in ('banking')")).toBe(false)
+        expect(passes('rsi < 25 OR close >= ema50 * 1.05')).toBe(true)
+        // AND binds tighter than OR
+        expect(passes('rsi14 > 50 AND volRatio > 1 OR close > 0')).toBe(true)
+        expect(passes('rsi14 > 50 AND (volRatio > 1 OR close > 0)')).toBe(false)
+        expect(passes('NOT change1 > 0 AND -change1 = 1.5')).toBe(true)
+
+        // Missing values and division by zero fail the comparison
+        expect(passes('rsi14 < 35', { ...ROW, rsi14: null })).toBe(false)
+        expect(passes('close / (volRatio - 2) > 0')).toBe(false)
+    })
+
+    it('should keep a missing value unknown through NOT', () => {
+        const short = { ...ROW, rsi14: null }
+        expect(passes('NOT rsi14 < 30', short)).toBe(false)
+        expect(passes("sector NOT IN ('Energy')", { ...ROW, sector: null })).toBe(false)
+        // Unless the other side of AND/OR settles it
+        expect(passes('NOT (rsi14 < 30 AND close < 0)', short)).toBe(true)
+        expect(passes('NOT (rsi14 < 30 OR close > 0)', short)).toBe(false)
+        expect(passes('NOT (rsi14 < 30 OR close < 0)', short)).toBe(false)
+    })
+
+    it('should resolve period families and list the referenced fields', () => {
+        expect(resolveScreenField('EMA50')).toEqual({ key: 'ema50', type: 'number', family: 'ema', period: 50 })
+        expect(resolveScreenField('rsi')?.key).toBe('rsi14')
+        expect(resolveScreenField('constructor')).toBeNull()
+
+        const fields = screenExpressionFields(parseScreenExpression('close > ema50 AND Close > sma20 AND sector = "Energy"'))
+        expect(fields.map((f) => f.key)).toEqual(['close', 'ema50', 'sma20', 'sector'])
+    })
+
+    it('should report the position of the first problem', () => {
+        expect(() => parseScreenExpression('rsi14 < 35 AND foo > 1')).toThrow('Unknown field "foo" at position 16')
+        expect(() => parseScreenExpression('close > ')).toThrow('Expression ends too early at the end')
+        expect(() => parseScreenExpression("sector > 'Banking'")).toThrow('at position 8')
+        expect(() => parseScreenExpression("close = 'Banking'")).toThrow('Cannot compare text with a number')
+        expect(() => parseScreenExpression('close + 1')).toThrow('must be a condition')
+        expect(() => parseScreenExpression('rsi14 < 35 close')).toThrow('Unexpected "close" at position 12')
+    })
+})
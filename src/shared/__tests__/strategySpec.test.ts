@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest'
+import {
+    BUILT_IN_STRATEGIES,
+    describeCondition,
+    validateStrategySpec,
+} from '../strategySpec'
+
+describe('Strategy Specs', () => {
+
+    it('should accept every built-in strategy', () => {
+        for (const spec of Object.values(BUILT_IN_STRATEGIES)) {
+            expect(validateStrategySpec(spec)).toEqual([])
+        }
+    })
+
+    it('should report structural problems with their path', () => {
+        const errors = validateStrategySpec({
+            name: '',
+            parameters: { level: 30 },
+            entry: {
+                all: [
+                    { left: { indicator: 'RSI', params: { length: 14 } }, op: '<', right: { param: 'lvl' } },
+                    { left: { indicator: 'MACD', field: 'lower' }, op: 'above', right: 0 },
+                ],
+            },
+            sizing: { type: 'RISK_PERCENT', riskPercent: 1 },
+        })
+
+        expect(errors).toEqual([
+            'name is required',
+            'entry.all[0].left.params.length is not a RSI parameter',
+            'entry.all[0].right references unknown parameter "lvl"',
+            'entry.all[1].op "above" is not a comparator',
+            'entry.all[1].left.field "lower" is not an output of MACD',
+            'sizing RISK_PERCENT needs risk.stopLossPercent or risk.atrStop',
+            'strategy needs an exit condition or at least one risk exit',
+        ])
+    })
+
+    it('should check scale-out targets and trailing exits', () => {
+        const errors = validateStrategySpec({
+            name: 'Scale-out',
+            entry: { left: { indicator: 'CLOSE' }, op: '>', right: 100 },
+            risk: {
+                takeProfitLevels: [{ rMultiple: 2 }, { percent: 5, rMultiple: 1 }],
+                chandelierStop: { multiplier: { param: 'k' } },
+                timeStop: { bars: 10 },
+            },
+        })
+
+        expect(errors).toEqual([
+            'risk.chandelierStop.multiplier references unknown parameter "k"',
+            'risk.takeProfitLevels[0].rMultiple needs risk.stopLossPercent or risk.atrStop',
+            'risk.takeProfitLevels[1] needs exactly one of percent or rMultiple',
+            'risk.takeProfitLevels[1].rMultiple needs risk.stopLossPercent or risk.atrStop',
+        ])
+    })
+
+    it('should describe conditions in readable form', () => {
+        expect(describeCondition(BUILT_IN_STRATEGIES.MULTI.entry)).toBe(
+            'at least 2 of [RSI({rsiPeriod}) < {oversold}; MACD({macdFast}, {macdSlow}, {macdSignal}).histogram crosses above 0; ' +
+            'Close ≤ Bollinger({bbPeriod}, {bbStdDev}).lower]'
+        )
+        expect(describeCondition({
+            any: [
+                { left: { indicator: 'EMA', params: { period: 9 } }, op: 'crossesAbove', right: { indicator: 'EMA', params: { period: 21 } } },
+                { not: { left: { indicator: 'SMA', source: 'VOLUME' }, op: '<', right: 1e6 } },
+            ],
+        })).toBe('EMA(9) crosses above EMA(21) OR NOT (SMA(volume, 20) < 1000000)')
+    })
+})
@@ -0,0 +1,50 @@
+/**
+ * Backtest Timeframes
+ *
+ * Bar sizes a backtest can run on. Intraday bars come from Yahoo, which only
+ * serves 1-minute bars for the last 7 days and 5/15-minute bars for the last
+ * 60, so each timeframe caps the lookback it accepts.
+ *
+ * Pure constants only; safe to import from client components.
+ *
+ * @module shared/backtestTimeframes
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type IntradayInterval = "1m" | "5m" | "15m";
+
+export type BacktestInterval = "1d" | IntradayInterval;
+
+export interface BacktestTimeframe {
+    label: string;
+    /** Longest lookback (calendar days) the data source serves for this bar size */
+    maxDays: number;
+}
+
+// ============================================================================
+// Timeframes
+// ============================================================================
+
+export const BACKTEST_TIMEFRAMES: Record<BacktestInterval, BacktestTimeframe> = {
+    "1d": { label: "Daily", maxDays: 3650 },
+    "15m": { label: "15 minutes", maxDays: 59 },
+    "5m": { label: "5 minutes", maxDays: 59 },
+    "1m": { label: "1 minute", maxDays: 7 },
+};
+
+/** Bar size scalping backtests run on when none is given */
+export const DEFAULT_INTRADAY_INTERVAL: IntradayInterval = "5m";
+
+export function isIntradayInterval(value: string): value is IntradayInterval {
+    return value === "1m" || value === "5m" || value === "15m";
+}
+
+/**
+ * Lookback clamped to what the timeframe's data source serves.
+ */
+export function clampBacktestDays(interval: BacktestInterval, days: number): number {
+    return Math.max(1, Math.min(days, BACKTEST_TIMEFRAMES[interval].maxDays));
+}
@@ -5,6 +5,12 @@ export const IDX_FEE = {
     TOTAL: 0.004,      // 0.40% round trip
 } as const;
 
+// IDX Trading Units
+export const IDX_MARKET = {
+    LOT_SIZE: 100,     // shares per lot
+    MIN_PRICE: 50,     // lowest price on Main/Development boards
+} as const;
+
 // TradingView Configuration
 export const TRADINGVIEW = {
     EXCHANGE_PREFIX: 'IDX',
@@ -28,6 +34,68 @@ export const YAHOO_FINANCE = {
     NEWS_COUNT: 5,
 } as const;
 
+// Market Data Provider Configuration
+// Selected via MARKET_DATA_PROVIDER ("yahoo" | "fixture" | "record")
+export const MARKET_DATA = {
+    DEFAULT_PROVIDER: 'yahoo',
+    FIXTURE_DIR: 'fixtures/market-data',
+} as const;
+
+// Local Candle Store Configuration
+// Override the directory with CANDLE_STORE_DIR, disable with CANDLE_STORE=off
+export const CANDLE_STORE = {
+    DIR: '.data/candles',
+} as const;
+
+// Saved Backtest Strategies
+// Override the file with STRATEGY_STORE_FILE
+export const STRATEGY_STORE = {
+    FILE: '.data/strategies.json',
+} as const;
+
+// Backtest Run History
+// Override the directory with BACKTEST_HISTORY_DIR; the oldest runs beyond MAX_RUNS are dropped
+export const BACKTEST_HISTORY = {
+    DIR: '.data/backtest-runs',
+    MAX_RUNS: 200,
+} as const;
+
+// Signal Ledger
+// Override the file with SIGNAL_LEDGER_FILE, disable the background evaluator with SIGNAL_EVALUATOR=off
+export const SIGNAL_LEDGER = {
+    FILE: '.data/signals.json',
+    MAX_SIGNALS: 5000,
+    EVALUATE_EVERY_MS: 30 * 60 * 1000,  // 30 minutes
+    // The same call from the same source is recorded once per window
+    DEDUPE_MINUTES: {
+        SCALPING: 30,
+        SWING: 24 * 60,
+    },
+} as const;
+
+// Custom Screener
+// Saved screens are shared by everyone using this server; override the file with SCREEN_STORE_FILE
+export const CUSTOM_SCREENER = {
+    STORE_FILE: '.data/screens.json',
+    LOOKBACK_DAYS: 400,     // calendar days of daily bars (enough for ema200)
+    MAX_SYMBOLS: 200,
+    BATCH_SIZE: 5,          // symbols fetched in parallel
+} as const;
+
+// Stock Universes
+// Custom lists are shared by everyone using this server; override the file with UNIVERSE_STORE_FILE
+export const UNIVERSES = {
+    STORE_FILE: '.data/universes.json',
+    MAX_CUSTOM_SYMBOLS: 300,
+    TRENDING_FALLBACK: 'LQ45',  // used when the provider's gainers screen fails
+} as const;
+
+// Benchmark Indices (Yahoo symbols) that backtests are compared against
+export const BENCHMARK_INDICES = {
+    IHSG: '^JKSE',
+    LQ45: '^JKLQ45',
+} as const;
+
 // Auto-Refresh Configuration
 export const REFRESH_INTERVAL = {
     SCALPING: 30 * 1000,      // 30 seconds
@@ -0,0 +1,178 @@
+/**
+ * Backtest Execution Models
+ *
+ * How simulated orders turn into fills: when they fill (signal bar close or
+ * next bar open), lot rounding, slippage in ticks or basis points, a cap on
+ * the share of bar volume an order may take, and refusal to fill while the
+ * price is locked at the ARA/ARB auto-rejection limits (no sellers at ARA,
+ * no buyers at ARB).
+ *
+ * Pure functions only; safe to import from client components.
+ *
+ * @module shared/executionModel
+ */
+
+import { IDX_MARKET } from "./constants";
+import { addTicks, getAutoRejectionLimits, roundToTick } from "./idxMarketRules";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type FillTiming = "CLOSE" | "NEXT_OPEN";
+
+export type Slippage =
+    | { type: "TICKS"; ticks: number }
+    | { type: "BPS"; bps: number };
+
+export interface ExecutionModel {
+    name: string;
+    /** CLOSE fills on the signal bar's close; NEXT_OPEN on the following bar's open */
+    fillTiming: FillTiming;
+    /** Round share counts down to whole IDX lots (100 shares) */
+    lotRounding: boolean;
+    /** Adverse price move applied to every fill */
+    slippage: Slippage;
+    /** Largest share of the fill bar's volume one order may take, e.g. 0.1 (null = unlimited) */
+    maxVolumeParticipation: number | null;
+    /** Refuse buys at ARA and sells at ARB */
+    respectAutoRejection: boolean;
+}
+
+export type ExecutionModelId = "IDEAL_CLOSE" | "IDX_REALISTIC";
+
+export interface FillBar {
+    open: number;
+    /** Bar range; without it an open at ARA/ARB is assumed locked all bar */
+    high?: number | null;
+    low?: number | null;
+    close: number;
+    volume: number | null;
+    /** Previous bar's close, the reference for ARA/ARB (null on the first bar) */
+    previousClose: number | null;
+}
+
+export type PriceQuote =
+    | { filled: true; price: number }
+    | { filled: false; reason: string };
+
+// ============================================================================
+// Presets
+// ============================================================================
+
+export const EXECUTION_MODELS: Record<ExecutionModelId, ExecutionModel> = {
+    IDEAL_CLOSE: {
+        name: "Ideal close fills",
+        fillTiming: "CLOSE",
+        lotRounding: false,
+        slippage: { type: "TICKS", ticks: 0 },
+        maxVolumeParticipation: null,
+        respectAutoRejection: false,
+    },
+    IDX_REALISTIC: {
+        name: "IDX realistic",
+        fillTiming: "NEXT_OPEN",
+        lotRounding: true,
+        slippage: { type: "TICKS", ticks: 1 },
+        maxVolumeParticipation: 0.1,
+        respectAutoRejection: true,
+    },
+};
+
+export const DEFAULT_EXECUTION_MODEL: ExecutionModelId = "IDX_REALISTIC";
+
+export function isExecutionModelId(value: string): value is ExecutionModelId {
+    return value in EXECUTION_MODELS;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * One-line summary of a model, e.g. for backtest reports.
+ */
+export function describeExecutionModel(model: ExecutionModel): string {
+    const parts = [
+        model.fillTiming === "CLOSE" ? "fills at signal close" : "fills at next open",
+        model.lotRounding ? "100-share lots" : "single shares",
+    ];
+
+    const slippage = model.slippage.type === "TICKS" ? model.slippage.ticks : model.slippage.bps;
+    if (slippage > 0) {
+        parts.push(model.slippage.type === "TICKS" ? `${slippage} tick slippage` : `${slippage} bps slippage`);
+    } else {
+        parts.push("no slippage");
+    }
+
+    if (model.maxVolumeParticipation !== null) {
+        parts.push(`max ${(model.maxVolumeParticipation * 100).toFixed(0)}% of bar volume`);
+    }
+    if (model.respectAutoRejection) parts.push("no fills at ARA/ARB");
+
+    return `${model.name}: ${parts.join(", ")}`;
+}
+
+function applySlippage(price: number, side: "BUY" | "SELL", slippage: Slippage): number {
+    if (slippage.type === "TICKS") {
+        return slippage.ticks > 0 ? addTicks(price, side === "BUY" ? slippage.ticks : -slippage.ticks) : price;
+    }
+    const factor = 1 + (side === "BUY" ? 1 : -1) * (slippage.bps / 10_000);
+    return roundToTick(price * factor, side === "BUY" ? "up" : "down");
+}
+
+/**
+ * Whether an order at `base` cannot trade on this bar because the price sits
+ * at the auto-rejection limit. A close at the limit is locked. An open at the
+ * limit is locked only when the bar never trades off it (low still at ARA, high
+ * still at ARB); a bar that opens at ARA and then trades lower fills at the
+ * limit. Without high/low the open is assumed locked for the whole bar.
+ */
+function isLockedAtLimit(side: "BUY" | "SELL", base: number, bar: FillBar, timing: FillTiming, limit: number): boolean {
+    const atLimit = side === "BUY" ? base >= limit : base <= limit;
+    if (!atLimit || timing === "CLOSE") return atLimit;
+
+    const farSide = side === "BUY" ? bar.low : bar.high;
+    if (farSide === null || farSide === undefined) return true;
+    return side === "BUY" ? farSide >= limit : farSide <= limit;
+}
+
+/**
+ * Fill price for an order on a bar, or the reason it cannot fill.
+ *
+ * Buys fill on the tick at/above the base price and sells at/below, then
+ * slippage moves the fill against the trader (never beyond ARA/ARB when the
+ * limits are respected).
+ */
+export function quoteFill(model: ExecutionModel, side: "BUY" | "SELL", bar: FillBar): PriceQuote {
+    const base = model.fillTiming === "CLOSE" ? bar.close : bar.open;
+    const price = applySlippage(roundToTick(base, side === "BUY" ? "up" : "down"), side, model.slippage);
+
+    if (!model.respectAutoRejection || bar.previousClose === null || bar.previousClose <= 0) {
+        return { filled: true, price };
+    }
+
+    const { upper, lower } = getAutoRejectionLimits(bar.previousClose);
+    if (side === "BUY" && isLockedAtLimit(side, base, bar, model.fillTiming, upper)) {
+        return { filled: false, reason: `Locked at ARA (${upper})` };
+    }
+    if (side === "SELL" && isLockedAtLimit(side, base, bar, model.fillTiming, lower)) {
+        return { filled: false, reason: `Locked at ARB (${lower})` };
+    }
+    return { filled: true, price: Math.min(upper, Math.max(lower, price)) };
+}
+
+/**
+ * Shares of a `shares`-sized order that can fill on the bar: cut to the
+ * volume cap and, with lot rounding, to whole lots.
+ */
+export function fillableShares(model: ExecutionModel, bar: FillBar, shares: number): number {
+    let size = Math.floor(shares);
+    if (model.maxVolumeParticipation !== null && bar.volume !== null) {
+        size = Math.min(size, Math.floor(bar.volume * model.maxVolumeParticipation));
+    }
+    if (model.lotRounding) {
+        size = Math.floor(size / IDX_MARKET.LOT_SIZE) * IDX_MARKET.LOT_SIZE;
+    }
+    return Math.max(0, size);
+}
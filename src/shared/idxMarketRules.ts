@@ -0,0 +1,205 @@
+/**
+ * IDX Market Rules
+ *
+ * Tick size (fraksi harga) and auto-rejection (ARA/ARB) limits for regular
+ * market orders on the Main and Development boards. Every price the app
+ * suggests (entries, stops, targets, simulated fills) should pass through
+ * here so it can actually be placed on the exchange.
+ *
+ * Pure functions only; safe to import from client components.
+ *
+ * @module shared/idxMarketRules
+ */
+
+import { IDX_MARKET } from "./constants";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type TickRounding = "nearest" | "down" | "up";
+
+export interface PriceBand {
+    /** Inclusive lower bound of the band */
+    min: number;
+    /** Exclusive upper bound of the band */
+    max: number;
+}
+
+export interface AutoRejectionLimits {
+    /** Reference price (previous close) the limits were computed from */
+    reference: number;
+    /** Highest price accepted today (ARA), already on a valid tick */
+    upper: number;
+    /** Lowest price accepted today (ARB), already on a valid tick */
+    lower: number;
+    upperPercent: number;
+    lowerPercent: number;
+}
+
+export interface PriceLimitCheck {
+    price: number;
+    withinLimits: boolean;
+    beyondARA: boolean;
+    beyondARB: boolean;
+    limits: AutoRejectionLimits;
+}
+
+// ============================================================================
+// Rule Tables
+// ============================================================================
+
+/** Tick size per price band (IDX fraksi harga) */
+const TICK_BANDS: (PriceBand & { tick: number })[] = [
+    { min: 0, max: 200, tick: 1 },
+    { min: 200, max: 500, tick: 2 },
+    { min: 500, max: 2000, tick: 5 },
+    { min: 2000, max: 5000, tick: 10 },
+    { min: 5000, max: Infinity, tick: 25 },
+];
+
+/**
+ * Auto-rejection upper limit per reference price band. Bands are inclusive of
+ * their upper bound (e.g. a reference of exactly 200 uses 35%).
+ */
+const ARA_BANDS: (PriceBand & { percent: number })[] = [
+    { min: 0, max: 200, percent: 0.35 },
+    { min: 200, max: 5000, percent: 0.25 },
+    { min: 5000, max: Infinity, percent: 0.2 },
+];
+
+/** Auto-rejection lower limit (flat across bands) */
+const ARB_PERCENT = 0.15;
+
+// ============================================================================
+// Tick Size
+// ============================================================================
+
+/**
+ * Tick size for a price.
+ */
+export function getTickSize(price: number): number {
+    const band = TICK_BANDS.find((b) => price >= b.min && price < b.max);
+    return band ? band.tick : TICK_BANDS[TICK_BANDS.length - 1].tick;
+}
+
+/**
+ * Snap a price to a legal tick. Rounding "down" suits targets and sell
+ * limits, "up" suits stops on short ideas and ARB floors.
+ */
+export function roundToTick(price: number, mode: TickRounding = "nearest"): number {
+    if (!Number.isFinite(price) || price <= 0) return 0;
+
+    const tick = getTickSize(price);
+    const ticks = price / tick;
+    // Guard against float noise such as 1234.9999999
+    const epsilon = 1e-9;
+    const rounded =
+        mode === "down"
+            ? Math.floor(ticks + epsilon)
+            : mode === "up"
+                ? Math.ceil(ticks - epsilon)
+                : Math.round(ticks);
+
+    const snapped = rounded * tick;
+    // Crossing into a lower band can leave the price off that band's grid
+    return getTickSize(snapped) === tick ? snapped : roundToTick(snapped, mode);
+}
+
+/**
+ * Move a price by whole ticks, respecting band changes on the way.
+ */
+export function addTicks(price: number, ticks: number): number {
+    let result = roundToTick(price);
+    const step = ticks >= 0 ? 1 : -1;
+    for (let i = 0; i < Math.abs(ticks); i++) {
+        const tick = step > 0 ? getTickSize(result) : getTickSize(result - 1);
+        result = Math.max(IDX_MARKET.MIN_PRICE, result + step * tick);
+    }
+    return result;
+}
+
+/**
+ * Whether a price sits exactly on the tick grid.
+ */
+export function isValidTick(price: number): boolean {
+    return price > 0 && roundToTick(price) === price;
+}
+
+// ============================================================================
+// Auto Rejection (ARA / ARB)
+// ============================================================================
+
+/**
+ * Daily auto-rejection limits for a reference price (previous close).
+ */
+export function getAutoRejectionLimits(reference: number): AutoRejectionLimits {
+    const band = ARA_BANDS.find((b) => reference > b.min && reference <= b.max) ?? ARA_BANDS[0];
+
+    const upper = roundToTick(reference * (1 + band.percent), "down");
+    const lower = Math.max(IDX_MARKET.MIN_PRICE, roundToTick(reference * (1 - ARB_PERCENT), "up"));
+
+    return {
+        reference,
+        upper,
+        lower,
+        upperPercent: band.percent * 100,
+        lowerPercent: ARB_PERCENT * 100,
+    };
+}
+
+/**
+ * Check whether a price can trade today given the reference price.
+ */
+export function checkPriceLimits(price: number, reference: number): PriceLimitCheck {
+    const limits = getAutoRejectionLimits(reference);
+    const beyondARA = price > limits.upper;
+    const beyondARB = price < limits.lower;
+    return { price, withinLimits: !beyondARA && !beyondARB, beyondARA, beyondARB, limits };
+}
+
+/**
+ * Human-readable warnings for levels that could not trade today, e.g. a
+ * target above ARA. Empty when every level is inside the daily range.
+ */
+export function getLimitWarnings(levels: { label: string; price: number }[], reference: number): string[] {
+    if (!reference || reference <= 0) return [];
+
+    const { upper, lower } = getAutoRejectionLimits(reference);
+    const warnings: string[] = [];
+    for (const level of levels) {
+        if (level.price > upper) {
+            warnings.push(`${level.label} ${level.price} is above today's ARA (${upper})`);
+        } else if (level.price < lower) {
+            warnings.push(`${level.label} ${level.price} is below today's ARB (${lower})`);
+        }
+    }
+    return warnings;
+}
+
+/**
+ * Snap a price to a valid tick and clamp it inside today's ARA/ARB range.
+ * Without a reference price only tick rounding is applied.
+ */
+export function toTradablePrice(price: number, reference?: number, mode: TickRounding = "nearest"): number {
+    const snapped = Math.max(IDX_MARKET.MIN_PRICE, roundToTick(price, mode));
+    if (!reference || reference <= 0) return snapped;
+
+    const { upper, lower } = getAutoRejectionLimits(reference);
+    return Math.min(upper, Math.max(lower, snapped));
+}
+
+// ============================================================================
+// Lots
+// ============================================================================
+
+/**
+ * Whole lots contained in a share count (odd shares are dropped).
+ */
+export function sharesToLots(shares: number): number {
+    return Math.floor(shares / IDX_MARKET.LOT_SIZE);
+}
+
+export function lotsToShares(lots: number): number {
+    return lots * IDX_MARKET.LOT_SIZE;
+}
@@ -0,0 +1,66 @@
+/**
+ * IDX-IC Sector Taxonomy
+ *
+ * The eleven sectors of the IDX Industrial Classification (IDX-IC) used by
+ * the company master, the sector universes, the custom screener's
+ * `sector` field and portfolio sector caps. Safe to import on the client.
+ *
+ * @module shared/idxSectors
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type IdxSector =
+    | "Energy"
+    | "Basic Materials"
+    | "Industrials"
+    | "Consumer Non-Cyclicals"
+    | "Consumer Cyclicals"
+    | "Healthcare"
+    | "Financials"
+    | "Properties & Real Estate"
+    | "Technology"
+    | "Infrastructures"
+    | "Transportation & Logistic";
+
+export interface IdxSectorInfo {
+    /** IDX-IC sector code (A-K) */
+    code: string;
+    name: IdxSector;
+    /** Upper-case slug used in universe names, e.g. SECTOR:BASIC-MATERIALS */
+    slug: string;
+}
+
+// ============================================================================
+// Taxonomy
+// ============================================================================
+
+export const IDX_SECTORS: readonly IdxSectorInfo[] = [
+    { code: "A", name: "Energy", slug: "ENERGY" },
+    { code: "B", name: "Basic Materials", slug: "BASIC-MATERIALS" },
+    { code: "C", name: "Industrials", slug: "INDUSTRIALS" },
+    { code: "D", name: "Consumer Non-Cyclicals", slug: "CONSUMER-NON-CYCLICALS" },
+    { code: "E", name: "Consumer Cyclicals", slug: "CONSUMER-CYCLICALS" },
+    { code: "F", name: "Healthcare", slug: "HEALTHCARE" },
+    { code: "G", name: "Financials", slug: "FINANCIALS" },
+    { code: "H", name: "Properties & Real Estate", slug: "PROPERTIES-REAL-ESTATE" },
+    { code: "I", name: "Technology", slug: "TECHNOLOGY" },
+    { code: "J", name: "Infrastructures", slug: "INFRASTRUCTURES" },
+    { code: "K", name: "Transportation & Logistic", slug: "TRANSPORTATION-LOGISTIC" },
+];
+
+export function isIdxSector(value: string): value is IdxSector {
+    return IDX_SECTORS.some((s) => s.name === value);
+}
+
+/**
+ * Look a sector up by slug, code or name (case-insensitive).
+ */
+export function findIdxSector(key: string): IdxSectorInfo | null {
+    const wanted = key.trim().toUpperCase();
+    return IDX_SECTORS.find((s) =>
+        s.slug === wanted || s.code === wanted || s.name.toUpperCase() === wanted
+    ) ?? null;
+}
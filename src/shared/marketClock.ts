@@ -0,0 +1,279 @@
+/**
+ * IDX Market Clock
+ *
+ * Session-aware clock for the Indonesia Stock Exchange in Asia/Jakarta (WIB).
+ * Knows the regular market phases, Friday's longer break and exchange
+ * holidays from `idxCalendar.json`.
+ *
+ * WIB has no daylight saving, so Jakarta wall time is a fixed UTC+7 shift and
+ * works the same on the server and in the browser regardless of local zone.
+ *
+ * Pure functions only; safe to import from client components.
+ *
+ * @module shared/marketClock
+ */
+
+import calendar from "./idxCalendar.json";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type MarketPhase =
+    | "PRE_OPENING"
+    | "SESSION_1"
+    | "LUNCH_BREAK"
+    | "SESSION_2"
+    | "PRE_CLOSING"
+    | "POST_TRADING"
+    | "CLOSED";
+
+export type ClosedReason = "BEFORE_OPEN" | "AFTER_CLOSE" | "WEEKEND" | "HOLIDAY";
+
+export interface SessionWindow {
+    phase: Exclude<MarketPhase, "CLOSED">;
+    /** Minutes since midnight WIB (inclusive) */
+    start: number;
+    /** Minutes since midnight WIB (exclusive) */
+    end: number;
+}
+
+export interface HolidayEntry {
+    date: string; // YYYY-MM-DD (WIB)
+    name: string;
+}
+
+export interface MarketStatus {
+    phase: MarketPhase;
+    label: string;
+    closedReason?: ClosedReason;
+    holidayName?: string;
+    isTradingDay: boolean;
+    /** Continuous auction is running (session 1 or 2) */
+    isContinuousTrading: boolean;
+    /** Any phase where prices can still move (pre-opening through pre-closing, excluding the break) */
+    isActive: boolean;
+    /** Current Jakarta wall time, HH:mm */
+    jakartaTime: string;
+    /** Jakarta calendar date, YYYY-MM-DD */
+    jakartaDate: string;
+    nextPhase: MarketPhase;
+    nextChangeAt: Date;
+}
+
+// ============================================================================
+// Sessions & Calendar
+// ============================================================================
+
+const WIB_OFFSET_MS = 7 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const hm = (hours: number, minutes: number) => hours * 60 + minutes;
+
+/** Monday–Thursday schedule */
+const REGULAR_SESSIONS: SessionWindow[] = [
+    { phase: "PRE_OPENING", start: hm(8, 45), end: hm(9, 0) },
+    { phase: "SESSION_1", start: hm(9, 0), end: hm(12, 0) },
+    { phase: "LUNCH_BREAK", start: hm(12, 0), end: hm(13, 30) },
+    { phase: "SESSION_2", start: hm(13, 30), end: hm(15, 50) },
+    { phase: "PRE_CLOSING", start: hm(15, 50), end: hm(16, 1) },
+    { phase: "POST_TRADING", start: hm(16, 1), end: hm(16, 15) },
+];
+
+/** Friday: session 1 ends earlier and the break runs past Friday prayers */
+const FRIDAY_SESSIONS: SessionWindow[] = [
+    { phase: "PRE_OPENING", start: hm(8, 45), end: hm(9, 0) },
+    { phase: "SESSION_1", start: hm(9, 0), end: hm(11, 30) },
+    { phase: "LUNCH_BREAK", start: hm(11, 30), end: hm(14, 0) },
+    { phase: "SESSION_2", start: hm(14, 0), end: hm(15, 50) },
+    { phase: "PRE_CLOSING", start: hm(15, 50), end: hm(16, 1) },
+    { phase: "POST_TRADING", start: hm(16, 1), end: hm(16, 15) },
+];
+
+const PHASE_LABELS: Record<MarketPhase, string> = {
+    PRE_OPENING: "Pre-Opening",
+    SESSION_1: "Session 1",
+    LUNCH_BREAK: "Lunch Break",
+    SESSION_2: "Session 2",
+    PRE_CLOSING: "Pre-Closing",
+    POST_TRADING: "Post-Trading",
+    CLOSED: "Closed",
+};
+
+let holidays = new Map<string, string>(
+    (calendar.holidays as HolidayEntry[]).map((h) => [h.date, h.name])
+);
+
+/**
+ * Replace the holiday calendar (e.g. with a newer exchange calendar or in tests).
+ */
+export function setHolidayCalendar(entries: HolidayEntry[]): void {
+    holidays = new Map(entries.map((h) => [h.date, h.name]));
+}
+
+// ============================================================================
+// Jakarta Time Helpers
+// ============================================================================
+
+interface JakartaParts {
+    dateKey: string;
+    weekday: number; // 0 = Sunday
+    minutes: number; // minutes since midnight, fractional
+    midnightUtc: number; // epoch ms of 00:00 WIB that day
+}
+
+function toJakartaParts(date: Date): JakartaParts {
+    const shifted = new Date(date.getTime() + WIB_OFFSET_MS);
+    const midnightShifted = Date.UTC(shifted.getUTCFullYear(), shifted.getUTCMonth(), shifted.getUTCDate());
+    return {
+        dateKey: shifted.toISOString().slice(0, 10),
+        weekday: shifted.getUTCDay(),
+        minutes: (shifted.getTime() - midnightShifted) / 60000,
+        midnightUtc: midnightShifted - WIB_OFFSET_MS,
+    };
+}
+
+function formatMinutes(minutes: number): string {
+    const h = Math.floor(minutes / 60);
+    const m = Math.floor(minutes % 60);
+    return `${String(h).padStart(2, "0")}:${String(m).padStart(2, "0")}`;
+}
+
+/**
+ * Jakarta wall time of an instant, HH:mm.
+ */
+export function formatJakartaTime(date: Date): string {
+    return formatMinutes(toJakartaParts(date).minutes);
+}
+
+/**
+ * Jakarta calendar date of an instant, YYYY-MM-DD (e.g. to group intraday bars
+ * by trading session).
+ */
+export function getJakartaDateKey(date: Date): string {
+    return toJakartaParts(date).dateKey;
+}
+
+/**
+ * Jakarta wall time of an instant in minutes since midnight WIB (comparable
+ * with `SessionWindow` bounds).
+ */
+export function getJakartaMinutes(date: Date): number {
+    return toJakartaParts(date).minutes;
+}
+
+// ============================================================================
+// Calendar Queries
+// ============================================================================
+
+/**
+ * Name of the exchange holiday on this (Jakarta) date, if any.
+ */
+export function getHoliday(date: Date = new Date()): string | null {
+    return holidays.get(toJakartaParts(date).dateKey) ?? null;
+}
+
+/**
+ * Whether IDX trades on this (Jakarta) date.
+ */
+export function isTradingDay(date: Date = new Date()): boolean {
+    const { dateKey, weekday } = toJakartaParts(date);
+    return weekday !== 0 && weekday !== 6 && !holidays.has(dateKey);
+}
+
+/**
+ * Session windows for a (Jakarta) date; empty on weekends and holidays.
+ */
+export function getTradingSchedule(date: Date = new Date()): SessionWindow[] {
+    if (!isTradingDay(date)) return [];
+    return toJakartaParts(date).weekday === 5 ? FRIDAY_SESSIONS : REGULAR_SESSIONS;
+}
+
+/**
+ * Start of the next trading day strictly after `date` (00:00 WIB).
+ */
+export function getNextTradingDay(date: Date = new Date()): Date {
+    let cursor = toJakartaParts(date).midnightUtc + DAY_MS;
+    // A year of consecutive holidays does not happen; the bound only guards bad calendars
+    for (let i = 0; i < 366; i++) {
+        if (isTradingDay(new Date(cursor))) return new Date(cursor);
+        cursor += DAY_MS;
+    }
+    return new Date(cursor);
+}
+
+// ============================================================================
+// Market Status
+// ============================================================================
+
+/**
+ * Current phase of the IDX regular market.
+ */
+export function getMarketStatus(now: Date = new Date()): MarketStatus {
+    const parts = toJakartaParts(now);
+    const schedule = getTradingSchedule(now);
+    const base = {
+        jakartaTime: formatMinutes(parts.minutes),
+        jakartaDate: parts.dateKey,
+        isTradingDay: schedule.length > 0,
+    };
+
+    const nextOpen = (): Date => {
+        const nextDay = getNextTradingDay(now);
+        const nextSchedule = getTradingSchedule(nextDay);
+        return new Date(nextDay.getTime() + nextSchedule[0].start * 60000);
+    };
+
+    if (schedule.length === 0) {
+        const holidayName = holidays.get(parts.dateKey);
+        return {
+            ...base,
+            phase: "CLOSED",
+            label: holidayName ? `Closed (${holidayName})` : "Closed (Weekend)",
+            closedReason: holidayName ? "HOLIDAY" : "WEEKEND",
+            holidayName,
+            isContinuousTrading: false,
+            isActive: false,
+            nextPhase: "PRE_OPENING",
+            nextChangeAt: nextOpen(),
+        };
+    }
+
+    const current = schedule.find((w) => parts.minutes >= w.start && parts.minutes < w.end);
+
+    if (!current) {
+        const beforeOpen = parts.minutes < schedule[0].start;
+        return {
+            ...base,
+            phase: "CLOSED",
+            label: beforeOpen ? "Closed (Before Open)" : "Closed",
+            closedReason: beforeOpen ? "BEFORE_OPEN" : "AFTER_CLOSE",
+            isContinuousTrading: false,
+            isActive: false,
+            nextPhase: "PRE_OPENING",
+            nextChangeAt: beforeOpen
+                ? new Date(parts.midnightUtc + schedule[0].start * 60000)
+                : nextOpen(),
+        };
+    }
+
+    const index = schedule.indexOf(current);
+    const next = schedule[index + 1];
+
+    return {
+        ...base,
+        phase: current.phase,
+        label: PHASE_LABELS[current.phase],
+        isContinuousTrading: current.phase === "SESSION_1" || current.phase === "SESSION_2",
+        isActive: current.phase !== "LUNCH_BREAK" && current.phase !== "POST_TRADING",
+        nextPhase: next ? next.phase : "CLOSED",
+        nextChangeAt: new Date(parts.midnightUtc + current.end * 60000),
+    };
+}
+
+/**
+ * Human-readable phase label (for badges and log lines).
+ */
+export function getPhaseLabel(phase: MarketPhase): string {
+    return PHASE_LABELS[phase];
+}
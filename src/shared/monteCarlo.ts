@@ -0,0 +1,224 @@
+/**
+ * Monte Carlo Robustness Analysis
+ *
+ * A backtest is one ordering of its trades. Resampling the trade list shows
+ * how much of its drawdown and losing streaks was luck of the sequence:
+ *
+ * - SHUFFLE: the same trades in random order. Final return is unchanged
+ *   (returns compound in any order); drawdown and streaks vary.
+ * - BOOTSTRAP: trades drawn with replacement. Final return varies too, as
+ *   if the strategy had a different draw of the same trade distribution.
+ *
+ * Trades are replayed as returns on the equity at the time, so the paths
+ * scale to any starting capital (the backtester sizes by percent of equity).
+ *
+ * Pure functions only; safe to import from client components.
+ *
+ * @module shared/monteCarlo
+ */
+
+import { closedPositions, type TradeLeg } from "./roundTrips";
+import { createRandom, percentile } from "./statistics";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ResampleMethod = "SHUFFLE" | "BOOTSTRAP";
+
+export interface MonteCarloOptions {
+    method?: ResampleMethod;
+    /** Number of resampled paths (default: 1000) */
+    simulations?: number;
+    /** Seed, so the same backtest always gets the same bands (default: 1) */
+    seed?: number;
+    /** Starting capital in IDR (default: 100M) */
+    capital?: number;
+    /** A path is ruined once it has lost this percent of the starting capital (default: 50) */
+    ruinPercent?: number;
+}
+
+/** 5th/25th/50th/75th/95th percentiles */
+export interface PercentileBand {
+    p5: number;
+    p25: number;
+    p50: number;
+    p75: number;
+    p95: number;
+}
+
+export interface PathStats {
+    /** Percent */
+    finalReturn: number;
+    /** Percent of the running peak */
+    maxDrawdown: number;
+    /** Consecutive trades without a profit */
+    longestLosingStreak: number;
+}
+
+export interface MonteCarloResult {
+    method: ResampleMethod;
+    simulations: number;
+    trades: number;
+    capital: number;
+    ruinPercent: number;
+    finalReturn: PercentileBand;
+    maxDrawdown: PercentileBand;
+    longestLosingStreak: PercentileBand;
+    /** Equity percentiles (IDR) after each trade, starting with the capital */
+    fan: PercentileBand[];
+    /** Percent of paths that lost `ruinPercent` of the capital at any point */
+    riskOfRuin: number;
+    /** Percent of paths that end below the starting capital */
+    probabilityOfLoss: number;
+    /** The backtest's own ordering, for comparison */
+    actual: PathStats;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_SIMULATIONS = 1000;
+const DEFAULT_CAPITAL = 100_000_000;
+const DEFAULT_RUIN_PERCENT = 50;
+const PERCENTILES = [5, 25, 50, 75, 95] as const;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function band(sorted: ArrayLike<number>): PercentileBand {
+    const [p5, p25, p50, p75, p95] = PERCENTILES.map((p) => percentile(sorted, p));
+    return { p5, p25, p50, p75, p95 };
+}
+
+function sortedBand(values: number[]): PercentileBand {
+    return band(Float64Array.from(values).sort());
+}
+
+/**
+ * Walk one ordering of trade returns from `capital`. `onEquity` sees the
+ * equity after each trade.
+ */
+function walkPath(
+    returns: number[],
+    capital: number,
+    ruinLevel: number,
+    onEquity?: (step: number, equity: number) => void
+): PathStats & { ruined: boolean } {
+    let equity = capital;
+    let peak = capital;
+    let maxDrawdown = 0;
+    let streak = 0;
+    let longestLosingStreak = 0;
+    let ruined = false;
+
+    for (let i = 0; i < returns.length; i++) {
+        equity *= 1 + returns[i];
+        onEquity?.(i + 1, equity);
+
+        peak = Math.max(peak, equity);
+        maxDrawdown = Math.max(maxDrawdown, ((peak - equity) / peak) * 100);
+        streak = returns[i] <= 0 ? streak + 1 : 0;
+        longestLosingStreak = Math.max(longestLosingStreak, streak);
+        if (equity <= ruinLevel) ruined = true;
+    }
+
+    return { finalReturn: ((equity - capital) / capital) * 100, maxDrawdown, longestLosingStreak, ruined };
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Closed round trips as returns on the equity before each one (0.02 = +2%).
+ * The SELLs of one entry (scale-outs) add up to a single return.
+ *
+ * @param trades Backtest trades in order
+ * @param initialCapital Capital the backtest started with
+ */
+export function tradeReturns(trades: TradeLeg[], initialCapital: number): number[] {
+    const returns: number[] = [];
+    let equity = initialCapital;
+    for (const position of closedPositions(trades)) {
+        returns.push(position.profit / equity);
+        equity += position.profit;
+    }
+    return returns;
+}
+
+/**
+ * Resample trade returns into `simulations` equity paths and summarize their
+ * spread.
+ *
+ * @throws Error when there are no trades to resample
+ */
+export function runMonteCarlo(returns: number[], options: MonteCarloOptions = {}): MonteCarloResult {
+    if (returns.length === 0) {
+        throw new Error("Monte Carlo needs at least one closed trade");
+    }
+
+    const method = options.method ?? "SHUFFLE";
+    const simulations = Math.max(1, Math.floor(options.simulations ?? DEFAULT_SIMULATIONS));
+    const capital = options.capital ?? DEFAULT_CAPITAL;
+    const ruinPercent = options.ruinPercent ?? DEFAULT_RUIN_PERCENT;
+    const ruinLevel = capital * (1 - ruinPercent / 100);
+    const random = createRandom(options.seed ?? 1);
+    const n = returns.length;
+
+    // steps[k][s]: equity of path s after k trades
+    const steps = Array.from({ length: n + 1 }, () => new Float64Array(simulations));
+    steps[0].fill(capital);
+
+    const finalReturns: number[] = [];
+    const drawdowns: number[] = [];
+    const streaks: number[] = [];
+    let ruined = 0;
+    let losing = 0;
+
+    const path = new Array<number>(n);
+    for (let s = 0; s < simulations; s++) {
+        if (method === "BOOTSTRAP") {
+            for (let i = 0; i < n; i++) path[i] = returns[Math.floor(random() * n)];
+        } else {
+            // Fisher-Yates
+            for (let i = 0; i < n; i++) path[i] = returns[i];
+            for (let i = n - 1; i > 0; i--) {
+                const j = Math.floor(random() * (i + 1));
+                [path[i], path[j]] = [path[j], path[i]];
+            }
+        }
+
+        const stats = walkPath(path, capital, ruinLevel, (step, equity) => {
+            steps[step][s] = equity;
+        });
+        finalReturns.push(stats.finalReturn);
+        drawdowns.push(stats.maxDrawdown);
+        streaks.push(stats.longestLosingStreak);
+        if (stats.ruined) ruined++;
+        if (stats.finalReturn < 0) losing++;
+    }
+
+    const actual = walkPath(returns, capital, ruinLevel);
+
+    return {
+        method,
+        simulations,
+        trades: n,
+        capital,
+        ruinPercent,
+        finalReturn: sortedBand(finalReturns),
+        maxDrawdown: sortedBand(drawdowns),
+        longestLosingStreak: sortedBand(streaks),
+        fan: steps.map((equities) => band(equities.sort())),
+        riskOfRuin: (ruined / simulations) * 100,
+        probabilityOfLoss: (losing / simulations) * 100,
+        actual: {
+            finalReturn: actual.finalReturn,
+            maxDrawdown: actual.maxDrawdown,
+            longestLosingStreak: actual.longestLosingStreak,
+        },
+    };
+}
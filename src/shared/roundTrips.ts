@@ -0,0 +1,79 @@
+/**
+ * Round Trips
+ *
+ * Folds a trade log into closed positions: one BUY plus every SELL that
+ * closed part of it (scale-outs, partial fills). Trade counts, win rates and
+ * per-trade returns are measured on these, so a position sold in three pieces
+ * is one trade, not three.
+ *
+ * Pure functions only; safe to import from client components.
+ *
+ * @module shared/roundTrips
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** The trade log fields the grouping reads */
+export interface TradeLeg {
+    type: "BUY" | "SELL";
+    date: string;
+    price: number;
+    shares: number;
+    profit?: number;
+    /** Portfolio logs hold several positions at once, one per symbol */
+    symbol?: string;
+}
+
+export interface ClosedPosition {
+    symbol: string | null;
+    entryDate: string;
+    /** Date of the last SELL */
+    exitDate: string;
+    /** Net profit of all its SELLs (IDR) */
+    profit: number;
+    /** Profit on the entry cost of the shares sold (%) */
+    profitPercent: number;
+}
+
+// ============================================================================
+// Grouping
+// ============================================================================
+
+/**
+ * Closed positions in the order they were opened. SELLs without a profit or
+ * without an earlier BUY are ignored, as are BUYs that were never sold.
+ */
+export function closedPositions(trades: TradeLeg[]): ClosedPosition[] {
+    const positions: ClosedPosition[] = [];
+    const open = new Map<string, { entry: TradeLeg; closed: ClosedPosition | null; cost: number }>();
+
+    for (const trade of trades) {
+        const key = trade.symbol ?? "";
+        if (trade.type === "BUY") {
+            open.set(key, { entry: trade, closed: null, cost: 0 });
+            continue;
+        }
+
+        const position = open.get(key);
+        if (!position || trade.profit === undefined) continue;
+        if (!position.closed) {
+            position.closed = {
+                symbol: trade.symbol ?? null,
+                entryDate: position.entry.date,
+                exitDate: trade.date,
+                profit: 0,
+                profitPercent: 0,
+            };
+            positions.push(position.closed);
+        }
+
+        position.cost += trade.shares * position.entry.price;
+        position.closed.exitDate = trade.date;
+        position.closed.profit += trade.profit;
+        position.closed.profitPercent = position.cost > 0 ? (position.closed.profit / position.cost) * 100 : 0;
+    }
+
+    return positions;
+}
@@ -0,0 +1,260 @@
+/**
+ * Screener Scan Streams
+ *
+ * Long screener scans (BPJS, swing, scalping) report progress over
+ * Server-Sent Events so the UI can show real progress, render candidates as
+ * they arrive and cancel mid-scan.
+ *
+ * Wire format, one event per message:
+ *
+ *   event: scored
+ *   data: {"type":"scored","symbol":"BBRI","score":72}
+ *
+ * A scan route streams when the request sends `Accept: text/event-stream`
+ * and answers with plain JSON otherwise. Closing the connection (aborting
+ * the fetch) aborts the scan's signal, and scans stop at the next batch.
+ *
+ * Uses only web APIs (ReadableStream, TextEncoder, fetch); safe to import
+ * from route handlers and client components.
+ *
+ * @module shared/scanStream
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Scoring every symbol, then (BPJS only) AI analysis of the best ones */
+export type ScanPhase = "scoring" | "analysis";
+
+export type ScanEvent<TResult = unknown, TDone = unknown> =
+    | { type: "start"; total: number }
+    /** A batch of symbols finished */
+    | { type: "batch"; phase: ScanPhase; batch: number; batches: number; completed: number; total: number }
+    | { type: "scored"; symbol: string; score: number }
+    /** `layer` is the swing filter layer (1-3) that rejected the symbol */
+    | { type: "rejected"; symbol: string; reason: string; layer?: number; score?: number }
+    /** AI analysis of a candidate finished */
+    | { type: "analysis"; symbol: string; recommendation: string }
+    /** A result the UI can render before the scan ends */
+    | { type: "candidate"; result: TResult }
+    /** Final response, same body as the JSON answer */
+    | { type: "done"; result: TDone }
+    | { type: "error"; message: string };
+
+export type ScanEmitter<TResult = unknown, TDone = unknown> = (event: ScanEvent<TResult, TDone>) => void;
+
+export interface ScanProgress {
+    phase: ScanPhase;
+    /** Symbols done in the current phase */
+    completed: number;
+    total: number;
+    scored: number;
+    rejected: number;
+    analyzed: number;
+    /** Most recent activity first */
+    log: string[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const LOG_SIZE = 8;
+
+const SSE_HEADERS = {
+    "Content-Type": "text/event-stream; charset=utf-8",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    // Stop reverse proxies from buffering the stream
+    "X-Accel-Buffering": "no",
+};
+
+// ============================================================================
+// Server
+// ============================================================================
+
+/**
+ * Whether the client asked for a streamed scan.
+ */
+export function wantsScanStream(request: Request): boolean {
+    return request.headers.get("accept")?.includes("text/event-stream") ?? false;
+}
+
+export function encodeScanEvent(event: ScanEvent): string {
+    return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Stream a scan as Server-Sent Events.
+ *
+ * `run` emits progress and resolves with the final body, which is sent as the
+ * `done` event. A thrown error becomes an `error` event. The signal passed to
+ * `run` aborts when the client disconnects (or `requestSignal` aborts).
+ */
+export function createScanStreamResponse<TResult, TDone>(
+    run: (emit: ScanEmitter<TResult, TDone>, signal: AbortSignal) => Promise<TDone>,
+    requestSignal?: AbortSignal
+): Response {
+    const controller = new AbortController();
+    requestSignal?.addEventListener("abort", () => controller.abort(), { once: true });
+    const encoder = new TextEncoder();
+
+    const stream = new ReadableStream<Uint8Array>({
+        start(sink) {
+            const emit: ScanEmitter<TResult, TDone> = (event) => {
+                if (controller.signal.aborted) return;
+                try {
+                    sink.enqueue(encoder.encode(encodeScanEvent(event as ScanEvent)));
+                } catch {
+                    // Stream already closed by the client
+                }
+            };
+
+            // Not awaited: events flow to the client while the scan runs
+            void (async () => {
+                try {
+                    emit({ type: "done", result: await run(emit, controller.signal) });
+                } catch (error) {
+                    emit({ type: "error", message: error instanceof Error ? error.message : String(error) });
+                } finally {
+                    try {
+                        sink.close();
+                    } catch {
+                        // Already cancelled
+                    }
+                }
+            })();
+        },
+        cancel() {
+            controller.abort();
+        },
+    });
+
+    return new Response(stream, { headers: SSE_HEADERS });
+}
+
+/**
+ * Stop a scan between batches once its client has gone.
+ *
+ * @throws Error when the signal has aborted
+ */
+export function throwIfScanCancelled(signal?: AbortSignal): void {
+    if (signal?.aborted) throw new Error("Scan cancelled");
+}
+
+// ============================================================================
+// Client
+// ============================================================================
+
+/**
+ * Split complete SSE messages off a text buffer.
+ *
+ * @returns the parsed events and the incomplete tail to keep buffering
+ */
+export function parseScanEvents(buffer: string): { events: ScanEvent[]; rest: string } {
+    const blocks = buffer.replace(/\r\n/g, "\n").split("\n\n");
+    const rest = blocks.pop() ?? "";
+    const events: ScanEvent[] = [];
+
+    for (const block of blocks) {
+        const data = block
+            .split("\n")
+            .filter((line) => line.startsWith("data:"))
+            .map((line) => line.slice(5).trimStart())
+            .join("\n");
+        if (!data) continue;
+        try {
+            events.push(JSON.parse(data));
+        } catch {
+            console.warn("[ScanStream] Ignoring malformed event:", data);
+        }
+    }
+    return { events, rest };
+}
+
+/**
+ * Run a scan route as a stream, calling `onEvent` for every event.
+ * Abort `init.signal` to cancel the scan.
+ *
+ * @returns the `done` result
+ * @throws Error for `error` events, failed requests or a stream that ends early
+ */
+export async function fetchScanStream<TResult, TDone>(
+    url: string,
+    init: RequestInit,
+    onEvent: (event: ScanEvent<TResult, TDone>) => void
+): Promise<TDone> {
+    const response = await fetch(url, {
+        ...init,
+        headers: { ...(init.headers as Record<string, string> | undefined), Accept: "text/event-stream" },
+    });
+
+    if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || `Scan failed (HTTP ${response.status})`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    for (;;) {
+        const { done, value } = await reader.read();
+        buffer += decoder.decode(value, { stream: !done });
+        const parsed = parseScanEvents(done ? `${buffer}\n\n` : buffer);
+        buffer = parsed.rest;
+
+        for (const event of parsed.events as ScanEvent<TResult, TDone>[]) {
+            onEvent(event);
+            if (event.type === "error") throw new Error(event.message);
+            if (event.type === "done") return event.result;
+        }
+        if (done) throw new Error("Scan ended before returning results");
+    }
+}
+
+// ============================================================================
+// Progress
+// ============================================================================
+
+export function initialScanProgress(): ScanProgress {
+    return { phase: "scoring", completed: 0, total: 0, scored: 0, rejected: 0, analyzed: 0, log: [] };
+}
+
+/**
+ * Fold an event into the progress shown while scanning.
+ */
+export function reduceScanProgress(progress: ScanProgress, event: ScanEvent): ScanProgress {
+    const log = (line: string) => [line, ...progress.log].slice(0, LOG_SIZE);
+
+    switch (event.type) {
+        case "start":
+            return { ...initialScanProgress(), total: event.total };
+        case "batch":
+            return { ...progress, phase: event.phase, completed: event.completed, total: event.total };
+        case "scored":
+            return { ...progress, scored: progress.scored + 1, log: log(`${event.symbol} scored ${event.score}`) };
+        case "rejected": {
+            const where = event.layer ? `layer ${event.layer}: ` : "";
+            return { ...progress, rejected: progress.rejected + 1, log: log(`${event.symbol} rejected (${where}${event.reason})`) };
+        }
+        case "analysis":
+            return { ...progress, analyzed: progress.analyzed + 1, log: log(`${event.symbol} AI analysis done: ${event.recommendation}`) };
+        default:
+            return progress;
+    }
+}
+
+/**
+ * Overall completion, 0-100.
+ *
+ * @param analysisShare Part of the bar given to the AI analysis phase
+ */
+export function scanProgressPercent(progress: ScanProgress, analysisShare = 0): number {
+    const fraction = progress.total > 0 ? Math.min(progress.completed / progress.total, 1) : 0;
+    const percent = progress.phase === "analysis"
+        ? 1 - analysisShare + fraction * analysisShare
+        : fraction * (1 - analysisShare);
+    return Math.round(percent * 100);
+}
@@ -0,0 +1,509 @@
+/**
+ * Screen Filter Expressions
+ *
+ * A small filter language for the custom screener:
+ *
+ *   rsi14 < 35 AND close > ema50 AND volRatio > 1.5 AND sector IN ('Financials', 'Energy')
+ *
+ * - Comparisons: <  <=  >  >=  =  !=  (also == and <>)
+ * - Logic: AND, OR, NOT and parentheses (AND binds tighter than OR)
+ * - Arithmetic on numbers: + - * /  (e.g. `close > ema20 * 1.02`)
+ * - Lists: `field IN (...)` and `field NOT IN (...)`
+ * - Keywords and field names are case-insensitive; strings use '...' or "..."
+ *
+ * Fields are the catalog below (`SCREEN_FIELDS`) plus period families such
+ * as `ema50`, `rsi7` or `change5` (`SCREEN_FIELD_FAMILIES`). A comparison with
+ * a missing value (not enough history, unknown sector) is unknown, as in SQL:
+ * NOT keeps it unknown, AND/OR decide only when the other side settles it,
+ * and a row whose filter ends up unknown fails.
+ *
+ * Pure parser and evaluator; safe to import from client components.
+ *
+ * @module shared/screenExpression
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ScreenFieldType = "number" | "string";
+
+export interface ScreenFieldDefinition {
+    label: string;
+    type: ScreenFieldType;
+    description: string;
+}
+
+export interface ScreenFieldFamily {
+    label: string;
+    description: string;
+    /** Period used when the name has no number (e.g. `rsi` → `rsi14`) */
+    defaultPeriod: number;
+    maxPeriod: number;
+}
+
+/** A field name resolved against the catalog */
+export interface ScreenFieldRef {
+    /** Canonical name, e.g. "volRatio" or "ema50" */
+    key: string;
+    type: ScreenFieldType;
+    /** Set for period families */
+    family?: string;
+    period?: number;
+}
+
+export type ScreenComparator = "<" | "<=" | ">" | ">=" | "=" | "!=";
+
+export type ScreenExpression =
+    | { kind: "number"; value: number }
+    | { kind: "string"; value: string }
+    | { kind: "field"; field: ScreenFieldRef }
+    | { kind: "negate"; operand: ScreenExpression }
+    | { kind: "arithmetic"; op: "+" | "-" | "*" | "/"; left: ScreenExpression; right: ScreenExpression }
+    | { kind: "compare"; op: ScreenComparator; left: ScreenExpression; right: ScreenExpression }
+    | { kind: "in"; operand: ScreenExpression; values: (string | number)[]; negated: boolean }
+    | { kind: "logical"; op: "AND" | "OR"; left: ScreenExpression; right: ScreenExpression }
+    | { kind: "not"; operand: ScreenExpression };
+
+/** Field values for one symbol, keyed by canonical field name */
+export type ScreenRow = Record<string, number | string | null | undefined>;
+
+// ============================================================================
+// Field Catalog
+// ============================================================================
+
+export const SCREEN_FIELDS: Record<string, ScreenFieldDefinition> = {
+    symbol: { label: "Symbol", type: "string", description: "Ticker without .JK" },
+    name: { label: "Name", type: "string", description: "Company name" },
+    sector: { label: "Sector", type: "string", description: "IDX-IC sector, e.g. 'Financials' (null when unknown)" },
+    open: { label: "Open", type: "number", description: "Last daily open" },
+    high: { label: "High", type: "number", description: "Last daily high" },
+    low: { label: "Low", type: "number", description: "Last daily low" },
+    close: { label: "Close", type: "number", description: "Last daily close" },
+    prevClose: { label: "Prev Close", type: "number", description: "Previous daily close" },
+    volume: { label: "Volume", type: "number", description: "Last daily volume (shares)" },
+    avgVolume: { label: "Avg Vol", type: "number", description: "Average volume of the previous 20 days" },
+    volRatio: { label: "Vol Ratio", type: "number", description: "Volume ÷ 20-day average volume" },
+    value: { label: "Value", type: "number", description: "Turnover: close × volume (IDR)" },
+    change: { label: "Chg %", type: "number", description: "Percent change from the previous close" },
+    gap: { label: "Gap %", type: "number", description: "Open vs previous close, %" },
+    macd: { label: "MACD", type: "number", description: "MACD line (12/26/9)" },
+    macdSignal: { label: "MACD Sig", type: "number", description: "MACD signal line" },
+    macdHist: { label: "MACD Hist", type: "number", description: "MACD histogram" },
+    bbUpper: { label: "BB Upper", type: "number", description: "Upper Bollinger Band (20, 2)" },
+    bbMiddle: { label: "BB Mid", type: "number", description: "Middle Bollinger Band" },
+    bbLower: { label: "BB Lower", type: "number", description: "Lower Bollinger Band" },
+    bbWidth: { label: "BB Width %", type: "number", description: "Band width as % of the middle band" },
+    adx: { label: "ADX", type: "number", description: "ADX (14)" },
+    plusDi: { label: "+DI", type: "number", description: "+DI (14)" },
+    minusDi: { label: "-DI", type: "number", description: "-DI (14)" },
+    stochK: { label: "Stoch %K", type: "number", description: "Stochastic %K (14, 3, 3)" },
+    stochD: { label: "Stoch %D", type: "number", description: "Stochastic %D" },
+    atrPct: { label: "ATR %", type: "number", description: "ATR (14) as % of the close" },
+    obv: { label: "OBV", type: "number", description: "On-balance volume" },
+};
+
+export const SCREEN_FIELD_FAMILIES: Record<string, ScreenFieldFamily> = {
+    sma: { label: "SMA", description: "Simple moving average of the close, e.g. sma20", defaultPeriod: 20, maxPeriod: 250 },
+    ema: { label: "EMA", description: "Exponential moving average of the close, e.g. ema50", defaultPeriod: 20, maxPeriod: 250 },
+    rsi: { label: "RSI", description: "Relative strength index, e.g. rsi14", defaultPeriod: 14, maxPeriod: 100 },
+    atr: { label: "ATR", description: "Average true range in rupiah, e.g. atr14", defaultPeriod: 14, maxPeriod: 100 },
+    mfi: { label: "MFI", description: "Money flow index, e.g. mfi14", defaultPeriod: 14, maxPeriod: 100 },
+    change: { label: "Chg", description: "Percent change over N days, e.g. change5", defaultPeriod: 1, maxPeriod: 250 },
+    highest: { label: "Highest", description: "Highest high of the last N days, e.g. highest20", defaultPeriod: 20, maxPeriod: 250 },
+    lowest: { label: "Lowest", description: "Lowest low of the last N days, e.g. lowest20", defaultPeriod: 20, maxPeriod: 250 },
+};
+
+const FIELDS_BY_LOWER = new Map(Object.keys(SCREEN_FIELDS).map((key) => [key.toLowerCase(), key]));
+
+/**
+ * Resolve a field name (case-insensitive) to its canonical form.
+ *
+ * @returns null for unknown names
+ */
+export function resolveScreenField(name: string): ScreenFieldRef | null {
+    const lower = name.toLowerCase();
+    const fixed = FIELDS_BY_LOWER.get(lower);
+    if (fixed) return { key: fixed, type: SCREEN_FIELDS[fixed].type };
+
+    const match = /^([a-z]+)(\d*)$/.exec(lower);
+    if (!match || !Object.prototype.hasOwnProperty.call(SCREEN_FIELD_FAMILIES, match[1])) return null;
+    const family = SCREEN_FIELD_FAMILIES[match[1]];
+
+    const period = match[2] ? Number(match[2]) : family.defaultPeriod;
+    if (period < 1 || period > family.maxPeriod) return null;
+    return { key: `${match[1]}${period}`, type: "number", family: match[1], period };
+}
+
+/**
+ * Column header for a canonical field name.
+ */
+export function screenFieldLabel(key: string): string {
+    const ref = resolveScreenField(key);
+    if (!ref) return key;
+    if (!ref.family) return SCREEN_FIELDS[ref.key].label;
+    return `${SCREEN_FIELD_FAMILIES[ref.family].label} ${ref.period}`;
+}
+
+// ============================================================================
+// Tokenizer
+// ============================================================================
+
+type TokenType = "number" | "string" | "identifier" | "keyword" | "operator" | "end";
+
+interface Token {
+    type: TokenType;
+    text: string;
+    /** 1-based column of the first character */
+    position: number;
+}
+
+const KEYWORDS = new Set(["AND", "OR", "NOT", "IN"]);
+
+const OPERATORS = ["<=", ">=", "<>", "!=", "==", "<", ">", "=", "(", ")", ",", "+", "-", "*", "/"];
+
+function tokenize(text: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < text.length) {
+        const char = text[i];
+        const position = i + 1;
+
+        if (/\s/.test(char)) {
+            i++;
+            continue;
+        }
+
+        if (/[0-9.]/.test(char)) {
+            const match = /^(\d[\d_]*(\.\d+)?|\.\d+)/.exec(text.slice(i));
+            if (!match) throw new Error(`Invalid number at position ${position}`);
+            tokens.push({ type: "number", text: match[0].replace(/_/g, ""), position });
+            i += match[0].length;
+            continue;
+        }
+
+        if (char === "'" || char === '"') {
+            const end = text.indexOf(char, i + 1);
+            if (end === -1) throw new Error(`Unterminated string at position ${position}`);
+            tokens.push({ type: "string", text: text.slice(i + 1, end), position });
+            i = end + 1;
+            continue;
+        }
+
+        if (/[A-Za-z_]/.test(char)) {
+            const word = /^[A-Za-z_][A-Za-z0-9_]*/.exec(text.slice(i))![0];
+            const upper = word.toUpperCase();
+            tokens.push(KEYWORDS.has(upper)
+                ? { type: "keyword", text: upper, position }
+                : { type: "identifier", text: word, position });
+            i += word.length;
+            continue;
+        }
+
+        const operator = OPERATORS.find((op) => text.startsWith(op, i));
+        if (!operator) throw new Error(`Unexpected "${char}" at position ${position}`);
+        tokens.push({ type: "operator", text: operator, position });
+        i += operator.length;
+    }
+
+    tokens.push({ type: "end", text: "", position: text.length + 1 });
+    return tokens;
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+const COMPARATOR_ALIASES: Record<string, ScreenComparator> = {
+    "<": "<", "<=": "<=", ">": ">", ">=": ">=", "=": "=", "==": "=", "!=": "!=", "<>": "!=",
+};
+
+type ValueType = ScreenFieldType | "boolean";
+
+function typeOf(expr: ScreenExpression): ValueType {
+    switch (expr.kind) {
+        case "number":
+        case "negate":
+        case "arithmetic":
+            return "number";
+        case "string":
+            return "string";
+        case "field":
+            return expr.field.type;
+        default:
+            return "boolean";
+    }
+}
+
+/**
+ * Parse and type-check a filter expression. Recursive descent, lowest
+ * precedence first: OR → AND → NOT → comparison / IN → + - → * / → unary
+ * minus → primary.
+ *
+ * @throws Error with the position of the first problem
+ */
+export function parseScreenExpression(text: string): ScreenExpression {
+    if (!text.trim()) throw new Error("Enter a filter expression");
+    const tokens = tokenize(text);
+    let index = 0;
+
+    const peek = () => tokens[index];
+    const take = () => tokens[index++];
+    const accept = (type: TokenType, value?: string): Token | null => {
+        const token = peek();
+        if (token.type !== type || (value !== undefined && token.text !== value)) return null;
+        index++;
+        return token;
+    };
+    const fail = (token: Token, message: string) =>
+        new Error(token.type === "end" ? `${message} at the end` : `${message} at position ${token.position}`);
+    const expect = (type: TokenType, value: string, what: string): Token => {
+        const token = accept(type, value);
+        if (!token) throw fail(peek(), `Expected ${what}`);
+        return token;
+    };
+    const expectType = (expr: ScreenExpression, type: ValueType, token: Token, message: string): ScreenExpression => {
+        if (typeOf(expr) !== type) throw fail(token, message);
+        return expr;
+    };
+
+    const parseOr = (): ScreenExpression => {
+        let left = parseAnd();
+        for (let token = accept("keyword", "OR"); token; token = accept("keyword", "OR")) {
+            const message = "OR needs a condition on both sides";
+            left = { kind: "logical", op: "OR", left: expectType(left, "boolean", token, message), right: expectType(parseAnd(), "boolean", token, message) };
+        }
+        return left;
+    };
+
+    const parseAnd = (): ScreenExpression => {
+        let left = parseNot();
+        for (let token = accept("keyword", "AND"); token; token = accept("keyword", "AND")) {
+            const message = "AND needs a condition on both sides";
+            left = { kind: "logical", op: "AND", left: expectType(left, "boolean", token, message), right: expectType(parseNot(), "boolean", token, message) };
+        }
+        return left;
+    };
+
+    const parseNot = (): ScreenExpression => {
+        const token = accept("keyword", "NOT");
+        if (!token) return parseComparison();
+        return { kind: "not", operand: expectType(parseNot(), "boolean", token, "NOT needs a condition") };
+    };
+
+    const parseList = (type: ScreenFieldType): (string | number)[] => {
+        expect("operator", "(", `"(" after IN`);
+        const values: (string | number)[] = [];
+        do {
+            const negative = accept("operator", "-");
+            const literal = take();
+            if (type === "string" && literal.type === "string" && !negative) {
+                values.push(literal.text);
+            } else if (type === "number" && literal.type === "number") {
+                values.push(Number(literal.text) * (negative ? -1 : 1));
+            } else {
+                throw fail(literal, `Expected a ${type === "string" ? "quoted text" : "number"} in the IN list`);
+            }
+        } while (accept("operator", ","));
+        expect("operator", ")", `")" to close the IN list`);
+        return values;
+    };
+
+    const parseComparison = (): ScreenExpression => {
+        const left = parseSum();
+        const token = peek();
+
+        if (token.type === "operator" && COMPARATOR_ALIASES[token.text]) {
+            take();
+            const op = COMPARATOR_ALIASES[token.text];
+            const right = parseSum();
+            const [leftType, rightType] = [typeOf(left), typeOf(right)];
+            if (leftType === "boolean" || rightType === "boolean") {
+                throw fail(token, `"${token.text}" compares values, not conditions`);
+            }
+            if (leftType !== rightType) throw fail(token, "Cannot compare text with a number");
+            if (leftType === "string" && op !== "=" && op !== "!=") {
+                throw fail(token, "Text can only be compared with = or !=");
+            }
+            return { kind: "compare", op, left, right };
+        }
+
+        const negated = token.type === "keyword" && token.text === "NOT" && tokens[index + 1]?.text === "IN";
+        if (negated) take();
+        const inToken = accept("keyword", "IN");
+        if (!inToken) return left;
+
+        const type = typeOf(left);
+        if (type === "boolean") throw fail(inToken, "IN needs a value on the left");
+        return { kind: "in", operand: left, values: parseList(type), negated };
+    };
+
+    const parseSum = (): ScreenExpression => {
+        let left = parseProduct();
+        for (let token = peek(); token.type === "operator" && (token.text === "+" || token.text === "-"); token = peek()) {
+            take();
+            const message = `"${token.text}" needs numbers on both sides`;
+            left = { kind: "arithmetic", op: token.text as "+" | "-", left: expectType(left, "number", token, message), right: expectType(parseProduct(), "number", token, message) };
+        }
+        return left;
+    };
+
+    const parseProduct = (): ScreenExpression => {
+        let left = parseUnary();
+        for (let token = peek(); token.type === "operator" && (token.text === "*" || token.text === "/"); token = peek()) {
+            take();
+            const message = `"${token.text}" needs numbers on both sides`;
+            left = { kind: "arithmetic", op: token.text as "*" | "/", left: expectType(left, "number", token, message), right: expectType(parseUnary(), "number", token, message) };
+        }
+        return left;
+    };
+
+    const parseUnary = (): ScreenExpression => {
+        const token = accept("operator", "-");
+        if (!token) return parsePrimary();
+        return { kind: "negate", operand: expectType(parseUnary(), "number", token, `"-" needs a number`) };
+    };
+
+    const parsePrimary = (): ScreenExpression => {
+        const token = take();
+        switch (token.type) {
+            case "number":
+                return { kind: "number", value: Number(token.text) };
+            case "string":
+                return { kind: "string", value: token.text };
+            case "identifier": {
+                const field = resolveScreenField(token.text);
+                if (!field) throw fail(token, `Unknown field "${token.text}"`);
+                return { kind: "field", field };
+            }
+            case "operator":
+                if (token.text === "(") {
+                    const inner = parseOr();
+                    expect("operator", ")", `")"`);
+                    return inner;
+                }
+                break;
+        }
+        throw fail(token, token.type === "end" ? "Expression ends too early" : `Unexpected "${token.text}"`);
+    };
+
+    const expr = parseOr();
+    if (peek().type !== "end") throw fail(peek(), `Unexpected "${peek().text}"`);
+    if (typeOf(expr) !== "boolean") throw new Error("The expression must be a condition, e.g. rsi14 < 35");
+    return expr;
+}
+
+/**
+ * Canonical names of every field the expression reads, in order of appearance.
+ */
+export function screenExpressionFields(expr: ScreenExpression): ScreenFieldRef[] {
+    const fields = new Map<string, ScreenFieldRef>();
+    const visit = (node: ScreenExpression): void => {
+        switch (node.kind) {
+            case "field":
+                fields.set(node.field.key, node.field);
+                return;
+            case "negate":
+            case "not":
+                visit(node.operand);
+                return;
+            case "in":
+                visit(node.operand);
+                return;
+            case "arithmetic":
+            case "compare":
+            case "logical":
+                visit(node.left);
+                visit(node.right);
+                return;
+        }
+    };
+    visit(expr);
+    return Array.from(fields.values());
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+function valueOf(expr: ScreenExpression, row: ScreenRow): number | string | null {
+    switch (expr.kind) {
+        case "number":
+        case "string":
+            return expr.value;
+        case "field": {
+            const value = row[expr.field.key];
+            return value === undefined || (typeof value === "number" && !Number.isFinite(value)) ? null : value;
+        }
+        case "negate": {
+            const value = valueOf(expr.operand, row);
+            return typeof value === "number" ? -value : null;
+        }
+        case "arithmetic": {
+            const left = valueOf(expr.left, row);
+            const right = valueOf(expr.right, row);
+            if (typeof left !== "number" || typeof right !== "number") return null;
+            switch (expr.op) {
+                case "+": return left + right;
+                case "-": return left - right;
+                case "*": return left * right;
+                case "/": return right === 0 ? null : left / right;
+            }
+        }
+    }
+    return null;
+}
+
+/** True, false or unknown (null) when a missing value decides the result */
+function truthOf(expr: ScreenExpression, row: ScreenRow): boolean | null {
+    switch (expr.kind) {
+        case "logical": {
+            const left = truthOf(expr.left, row);
+            const right = truthOf(expr.right, row);
+            if (expr.op === "AND") {
+                if (left === false || right === false) return false;
+                return left === null || right === null ? null : true;
+            }
+            if (left === true || right === true) return true;
+            return left === null || right === null ? null : false;
+        }
+        case "not": {
+            const operand = truthOf(expr.operand, row);
+            return operand === null ? null : !operand;
+        }
+        case "in": {
+            const value = valueOf(expr.operand, row);
+            if (value === null) return null;
+            const found = expr.values.some((v) =>
+                typeof v === "string" && typeof value === "string" ? v.toLowerCase() === value.toLowerCase() : v === value
+            );
+            return found !== expr.negated;
+        }
+        case "compare": {
+            let left = valueOf(expr.left, row);
+            let right = valueOf(expr.right, row);
+            if (left === null || right === null) return null;
+            if (typeof left === "string" && typeof right === "string") {
+                left = left.toLowerCase();
+                right = right.toLowerCase();
+            }
+            switch (expr.op) {
+                case "<": return left < right;
+                case "<=": return left <= right;
+                case ">": return left > right;
+                case ">=": return left >= right;
+                case "=": return left === right;
+                case "!=": return left !== right;
+            }
+        }
+    }
+    return null;
+}
+
+/**
+ * Whether a row passes the filter (unknown results fail).
+ */
+export function evaluateScreenExpression(expr: ScreenExpression, row: ScreenRow): boolean {
+    return truthOf(expr, row) === true;
+}
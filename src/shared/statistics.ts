@@ -0,0 +1,63 @@
+/**
+ * Descriptive Statistics
+ *
+ * Small helpers shared by the replay, validation and Monte Carlo reports.
+ *
+ * Pure functions only; safe to import from client components.
+ *
+ * @module shared/statistics
+ */
+
+/**
+ * Arithmetic mean (0 for an empty list).
+ */
+export function mean(values: number[]): number {
+    return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+/**
+ * Pearson correlation of two equally long series, in [-1, 1]. A series that
+ * never varies says nothing about the other, so it correlates 0.
+ */
+export function pearsonCorrelation(xs: number[], ys: number[]): number {
+    const n = Math.min(xs.length, ys.length);
+    if (n < 2) return 0;
+    const meanX = mean(xs.slice(0, n));
+    const meanY = mean(ys.slice(0, n));
+
+    let covariance = 0;
+    let varianceX = 0;
+    let varianceY = 0;
+    for (let i = 0; i < n; i++) {
+        covariance += (xs[i] - meanX) * (ys[i] - meanY);
+        varianceX += (xs[i] - meanX) ** 2;
+        varianceY += (ys[i] - meanY) ** 2;
+    }
+
+    if (varianceX === 0 || varianceY === 0) return 0;
+    return covariance / Math.sqrt(varianceX * varianceY);
+}
+
+/**
+ * Percentile of an ascending-sorted list (p in 0-100), interpolating between
+ * neighbours (0 for an empty list).
+ */
+export function percentile(sorted: ArrayLike<number>, p: number): number {
+    if (sorted.length === 0) return 0;
+    const rank = (Math.min(100, Math.max(0, p)) / 100) * (sorted.length - 1);
+    const lower = Math.floor(rank);
+    const upper = Math.ceil(rank);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/** Small seeded PRNG (mulberry32) so random runs are reproducible */
+export function createRandom(seed: number): () => number {
+    let a = seed >>> 0;
+    return () => {
+        a = (a + 0x6d2b79f5) >>> 0;
+        let t = a;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
@@ -0,0 +1,501 @@
+/**
+ * Declarative Strategy Specs
+ *
+ * A strategy is plain JSON: entry and exit conditions composed from indicator
+ * expressions, named parameters, exit management (stops, trailing stops,
+ * scale-out targets, time stops) and a position sizing rule. The backtester
+ * evaluates any spec, so rule variants are data instead of code.
+ *
+ * Example (RSI reversal):
+ *
+ *   {
+ *     "name": "RSI 30/70",
+ *     "parameters": { "oversold": 30, "overbought": 70 },
+ *     "entry": { "left": { "indicator": "RSI", "params": { "period": 14 } }, "op": "<", "right": { "param": "oversold" } },
+ *     "exit": { "left": { "indicator": "RSI" }, "op": ">", "right": { "param": "overbought" } },
+ *     "risk": { "stopLossPercent": 2 },
+ *     "sizing": { "type": "PERCENT_EQUITY", "percent": 95 }
+ *   }
+ *
+ * Pure types and helpers; safe to import from client components.
+ *
+ * @module shared/strategySpec
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type PriceField = "OPEN" | "HIGH" | "LOW" | "CLOSE" | "VOLUME";
+
+export type StrategyIndicator =
+    | PriceField
+    | "SMA"
+    | "EMA"
+    | "RSI"
+    | "MACD"
+    | "BOLLINGER"
+    | "ATR"
+    | "OBV"
+    | "MFI"
+    | "SUPERTREND"
+    | "KELTNER"
+    | "DONCHIAN";
+
+/** A literal number or a reference to one of the spec's named parameters */
+export type ParamValue = number | { param: string };
+
+export interface IndicatorOperand {
+    indicator: StrategyIndicator;
+    /** Indicator parameters; missing ones use the catalog defaults */
+    params?: Record<string, ParamValue>;
+    /** Output line for multi-line indicators (e.g. MACD "histogram", BOLLINGER "lower") */
+    field?: string;
+    /** Input series for SMA/EMA (default: CLOSE) */
+    source?: PriceField;
+    /** Bars ago (default: 0 = current bar) */
+    offset?: number;
+}
+
+export type Operand = number | { param: string } | IndicatorOperand;
+
+export type Comparator = ">" | ">=" | "<" | "<=" | "crossesAbove" | "crossesBelow";
+
+export interface ComparisonCondition {
+    left: Operand;
+    op: Comparator;
+    right: Operand;
+    /** Optional text used in trade reasons instead of the generated description */
+    label?: string;
+}
+
+export type StrategyCondition =
+    | ComparisonCondition
+    | { all: StrategyCondition[] }
+    | { any: StrategyCondition[] }
+    | { atLeast: number; of: StrategyCondition[] }
+    | { not: StrategyCondition };
+
+/** ATR-distance settings shared by the ATR stop and the ATR-based trailing stops */
+export interface AtrDistance {
+    period?: ParamValue;
+    multiplier: ParamValue;
+}
+
+/**
+ * One scale-out target: sell part of the position when the close reaches it.
+ * Give the target as `percent` above the entry or as `rMultiple` times the
+ * initial risk (entry − initial stop).
+ */
+export interface TakeProfitLevel {
+    percent?: ParamValue;
+    rMultiple?: ParamValue;
+    /**
+     * Percent of the original position to sell. Defaults to an equal share of
+     * the position, except on the last level, which sells everything left.
+     */
+    sizePercent?: ParamValue;
+}
+
+export interface StrategyRiskRules {
+    /** Exit when the close falls this many percent below the entry */
+    stopLossPercent?: ParamValue;
+    /** Exit when the close rises this many percent above the entry */
+    takeProfitPercent?: ParamValue;
+    /** Exit when the close falls this many percent below the highest close since entry */
+    trailingStopPercent?: ParamValue;
+    /** Stop placed `multiplier` ATRs below the entry */
+    atrStop?: AtrDistance;
+    /** Exit after this many bars in the trade */
+    maxHoldingBars?: ParamValue;
+    /** Scale out at TP1/TP2/TP3..., nearest first (see `SWING_SCALE_OUT`) */
+    takeProfitLevels?: TakeProfitLevel[];
+    /** Move the stop to the entry price once the first scale-out target is hit */
+    breakEvenAfterFirstTarget?: boolean;
+    /** Stop trailing `multiplier` ATRs below the highest close since entry (only ever rises) */
+    atrTrailingStop?: AtrDistance;
+    /** Chandelier exit: highest high of the last `period` bars − `multiplier` ATRs (only ever rises; period default 22) */
+    chandelierStop?: AtrDistance;
+    /** Exit after `bars` bars unless the close is at least `minProfitPercent` above the entry (default 0) */
+    timeStop?: { bars: ParamValue; minProfitPercent?: ParamValue };
+}
+
+export type PositionSizing =
+    | { type: "PERCENT_EQUITY"; percent: ParamValue }
+    | { type: "FIXED_AMOUNT"; amount: ParamValue }
+    /** Risk this percent of equity between entry and the initial stop */
+    | { type: "RISK_PERCENT"; riskPercent: ParamValue };
+
+export interface StrategySpec {
+    /** Stable identifier (assigned when the spec is saved) */
+    id?: string;
+    name: string;
+    description?: string;
+    /** Named numeric parameters referenced as `{ "param": "<name>" }` */
+    parameters?: Record<string, number>;
+    entry: StrategyCondition;
+    /** Signal exit; risk rules exit independently */
+    exit?: StrategyCondition;
+    risk?: StrategyRiskRules;
+    /** Default: 95% of equity */
+    sizing?: PositionSizing;
+}
+
+export interface IndicatorDefinition {
+    label: string;
+    /** Parameter names with their defaults */
+    params: Record<string, number>;
+    /** Output lines; the first one is used when `field` is omitted */
+    fields?: string[];
+}
+
+// ============================================================================
+// Indicator Catalog
+// ============================================================================
+
+export const STRATEGY_INDICATORS: Record<StrategyIndicator, IndicatorDefinition> = {
+    OPEN: { label: "Open", params: {} },
+    HIGH: { label: "High", params: {} },
+    LOW: { label: "Low", params: {} },
+    CLOSE: { label: "Close", params: {} },
+    VOLUME: { label: "Volume", params: {} },
+    SMA: { label: "SMA", params: { period: 20 } },
+    EMA: { label: "EMA", params: { period: 20 } },
+    RSI: { label: "RSI", params: { period: 14 } },
+    MACD: { label: "MACD", params: { fast: 12, slow: 26, signal: 9 }, fields: ["macd", "signal", "histogram"] },
+    BOLLINGER: { label: "Bollinger", params: { period: 20, stdDev: 2 }, fields: ["middle", "upper", "lower"] },
+    ATR: { label: "ATR", params: { period: 14 } },
+    OBV: { label: "OBV", params: {} },
+    MFI: { label: "MFI", params: { period: 14 } },
+    SUPERTREND: { label: "Supertrend", params: { period: 10, multiplier: 3 }, fields: ["value", "direction"] },
+    KELTNER: { label: "Keltner", params: { emaPeriod: 20, atrPeriod: 10, multiplier: 2 }, fields: ["middle", "upper", "lower"] },
+    DONCHIAN: { label: "Donchian", params: { period: 20 }, fields: ["middle", "upper", "lower"] },
+};
+
+export const PRICE_FIELDS: PriceField[] = ["OPEN", "HIGH", "LOW", "CLOSE", "VOLUME"];
+
+export const COMPARATORS: Comparator[] = [">", ">=", "<", "<=", "crossesAbove", "crossesBelow"];
+
+// ============================================================================
+// Built-in Strategies
+// ============================================================================
+
+export type BuiltInStrategyId = "RSI" | "MACD" | "BOLLINGER" | "MULTI";
+
+// Indicator settings are parameters too, so they can be optimized
+const RSI_OPERAND: IndicatorOperand = { indicator: "RSI", params: { period: { param: "rsiPeriod" } } };
+const MACD_PARAMS = { fast: { param: "macdFast" }, slow: { param: "macdSlow" }, signal: { param: "macdSignal" } };
+const MACD_HISTOGRAM: IndicatorOperand = { indicator: "MACD", params: MACD_PARAMS, field: "histogram" };
+const CLOSE: IndicatorOperand = { indicator: "CLOSE" };
+const BB_PARAMS = { period: { param: "bbPeriod" }, stdDev: { param: "bbStdDev" } };
+const BB_LOWER: IndicatorOperand = { indicator: "BOLLINGER", params: BB_PARAMS, field: "lower" };
+const BB_UPPER: IndicatorOperand = { indicator: "BOLLINGER", params: BB_PARAMS, field: "upper" };
+
+const RSI_OVERSOLD: ComparisonCondition = { left: RSI_OPERAND, op: "<", right: { param: "oversold" }, label: "RSI oversold" };
+const RSI_OVERBOUGHT: ComparisonCondition = { left: RSI_OPERAND, op: ">", right: { param: "overbought" }, label: "RSI overbought" };
+const MACD_BULL_CROSS: ComparisonCondition = { left: MACD_HISTOGRAM, op: "crossesAbove", right: 0, label: "Bullish MACD crossover" };
+const MACD_BEAR_CROSS: ComparisonCondition = { left: MACD_HISTOGRAM, op: "crossesBelow", right: 0, label: "Bearish MACD crossover" };
+const AT_LOWER_BAND: ComparisonCondition = { left: CLOSE, op: "<=", right: BB_LOWER, label: "Price at lower Bollinger Band" };
+const AT_UPPER_BAND: ComparisonCondition = { left: CLOSE, op: ">=", right: BB_UPPER, label: "Price at upper Bollinger Band" };
+
+const DEFAULT_RISK: StrategyRiskRules = { stopLossPercent: { param: "stopLoss" } };
+const DEFAULT_SIZING: PositionSizing = { type: "PERCENT_EQUITY", percent: 95 };
+
+/** The swing screener's trade plan: sell 30% at 1.5R, 50% at 2R and the rest at 3R */
+export const SWING_SCALE_OUT: TakeProfitLevel[] = [
+    { rMultiple: 1.5, sizePercent: 30 },
+    { rMultiple: 2, sizePercent: 50 },
+    { rMultiple: 3 },
+];
+
+/** The original hard-coded strategies, expressed as specs */
+export const BUILT_IN_STRATEGIES: Record<BuiltInStrategyId, StrategySpec> = {
+    RSI: {
+        id: "RSI",
+        name: "RSI",
+        description: "RSI Reversal (30/70)",
+        parameters: { rsiPeriod: 14, oversold: 30, overbought: 70, stopLoss: 2 },
+        entry: RSI_OVERSOLD,
+        exit: RSI_OVERBOUGHT,
+        risk: DEFAULT_RISK,
+        sizing: DEFAULT_SIZING,
+    },
+    MACD: {
+        id: "MACD",
+        name: "MACD",
+        description: "MACD Crossover",
+        parameters: { macdFast: 12, macdSlow: 26, macdSignal: 9, stopLoss: 2 },
+        entry: MACD_BULL_CROSS,
+        exit: MACD_BEAR_CROSS,
+        risk: DEFAULT_RISK,
+        sizing: DEFAULT_SIZING,
+    },
+    BOLLINGER: {
+        id: "BOLLINGER",
+        name: "BOLLINGER",
+        description: "Bollinger Bounce",
+        parameters: { bbPeriod: 20, bbStdDev: 2, stopLoss: 2 },
+        entry: AT_LOWER_BAND,
+        exit: AT_UPPER_BAND,
+        risk: DEFAULT_RISK,
+        sizing: DEFAULT_SIZING,
+    },
+    MULTI: {
+        id: "MULTI",
+        name: "MULTI",
+        description: "Multi-Indicator Confluence (2 of RSI, MACD, Bollinger)",
+        parameters: {
+            rsiPeriod: 14, oversold: 30, overbought: 70,
+            macdFast: 12, macdSlow: 26, macdSignal: 9,
+            bbPeriod: 20, bbStdDev: 2, stopLoss: 2,
+        },
+        entry: { atLeast: 2, of: [RSI_OVERSOLD, MACD_BULL_CROSS, AT_LOWER_BAND] },
+        exit: { atLeast: 2, of: [RSI_OVERBOUGHT, MACD_BEAR_CROSS, AT_UPPER_BAND] },
+        risk: DEFAULT_RISK,
+        sizing: DEFAULT_SIZING,
+    },
+};
+
+export function isBuiltInStrategy(id: string): id is BuiltInStrategyId {
+    return Object.prototype.hasOwnProperty.call(BUILT_IN_STRATEGIES, id);
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+export function isIndicatorOperand(operand: Operand): operand is IndicatorOperand {
+    return typeof operand === "object" && operand !== null && "indicator" in operand;
+}
+
+export function isComparison(condition: StrategyCondition): condition is ComparisonCondition {
+    return "op" in condition;
+}
+
+/**
+ * Resolve a literal or `{ param }` reference against the spec's parameters.
+ *
+ * @throws Error when the parameter is not defined
+ */
+export function resolveParam(value: ParamValue, parameters: Record<string, number> = {}): number {
+    if (typeof value === "number") return value;
+    const resolved = parameters[value.param];
+    if (typeof resolved !== "number" || !Number.isFinite(resolved)) {
+        throw new Error(`Unknown strategy parameter "${value.param}"`);
+    }
+    return resolved;
+}
+
+function describeValue(value: ParamValue, parameters?: Record<string, number>): string {
+    if (typeof value === "number") return String(value);
+    const resolved = parameters?.[value.param];
+    return resolved !== undefined ? String(resolved) : `{${value.param}}`;
+}
+
+/**
+ * Human-readable operand, e.g. "RSI(14)" or "MACD(12, 26, 9).histogram".
+ * Parameter references are shown as `{name}` unless `parameters` resolves them.
+ */
+export function describeOperand(operand: Operand, parameters?: Record<string, number>): string {
+    if (!isIndicatorOperand(operand)) return describeValue(operand, parameters);
+
+    const definition = STRATEGY_INDICATORS[operand.indicator];
+    const params = Object.keys(definition?.params ?? {}).map((name) =>
+        describeValue(operand.params?.[name] ?? definition.params[name], parameters)
+    );
+    if (operand.source && operand.source !== "CLOSE") params.unshift(operand.source.toLowerCase());
+
+    let text = definition?.label ?? operand.indicator;
+    if (params.length > 0) text += `(${params.join(", ")})`;
+    if (operand.field) text += `.${operand.field}`;
+    if (operand.offset) text += `[${operand.offset} ago]`;
+    return text;
+}
+
+const COMPARATOR_TEXT: Record<Comparator, string> = {
+    ">": ">",
+    ">=": "≥",
+    "<": "<",
+    "<=": "≤",
+    crossesAbove: "crosses above",
+    crossesBelow: "crosses below",
+};
+
+/**
+ * Human-readable description of a condition tree.
+ */
+export function describeCondition(condition: StrategyCondition, parameters?: Record<string, number>): string {
+    const describe = (c: StrategyCondition) => describeCondition(c, parameters);
+    const wrap = (c: StrategyCondition) => (isComparison(c) || "not" in c ? describe(c) : `(${describe(c)})`);
+
+    if (isComparison(condition)) {
+        return `${describeOperand(condition.left, parameters)} ${COMPARATOR_TEXT[condition.op]} ${describeOperand(condition.right, parameters)}`;
+    }
+    if ("all" in condition) return condition.all.map(wrap).join(" AND ");
+    if ("any" in condition) return condition.any.map(wrap).join(" OR ");
+    if ("atLeast" in condition) return `at least ${condition.atLeast} of [${condition.of.map(describe).join("; ")}]`;
+    return `NOT (${describe(condition.not)})`;
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+function validateParamValue(value: unknown, path: string, parameters: Record<string, number>, errors: string[]): void {
+    if (typeof value === "number") {
+        if (!Number.isFinite(value)) errors.push(`${path} must be a finite number`);
+        return;
+    }
+    if (value && typeof value === "object" && typeof (value as { param?: unknown }).param === "string") {
+        const name = (value as { param: string }).param;
+        if (!(name in parameters)) errors.push(`${path} references unknown parameter "${name}"`);
+        return;
+    }
+    errors.push(`${path} must be a number or { "param": "<name>" }`);
+}
+
+function validateOperand(operand: unknown, path: string, parameters: Record<string, number>, errors: string[]): void {
+    if (!operand || typeof operand !== "object" || !("indicator" in operand)) {
+        validateParamValue(operand, path, parameters, errors);
+        return;
+    }
+
+    const ref = operand as IndicatorOperand;
+    const definition = STRATEGY_INDICATORS[ref.indicator];
+    if (!definition) {
+        errors.push(`${path}.indicator "${ref.indicator}" is not supported`);
+        return;
+    }
+    for (const [name, value] of Object.entries(ref.params ?? {})) {
+        if (!(name in definition.params)) errors.push(`${path}.params.${name} is not a ${definition.label} parameter`);
+        else validateParamValue(value, `${path}.params.${name}`, parameters, errors);
+    }
+    if (ref.field !== undefined && !definition.fields?.includes(ref.field)) {
+        errors.push(`${path}.field "${ref.field}" is not an output of ${definition.label}`);
+    }
+    if (ref.source !== undefined && !PRICE_FIELDS.includes(ref.source)) {
+        errors.push(`${path}.source must be one of ${PRICE_FIELDS.join(", ")}`);
+    }
+    if (ref.offset !== undefined && !(Number.isInteger(ref.offset) && ref.offset >= 0)) {
+        errors.push(`${path}.offset must be a non-negative integer`);
+    }
+}
+
+function validateCondition(condition: unknown, path: string, parameters: Record<string, number>, errors: string[]): void {
+    if (!condition || typeof condition !== "object") {
+        errors.push(`${path} must be a condition object`);
+        return;
+    }
+
+    const c = condition as Record<string, unknown>;
+    if ("op" in c) {
+        if (!COMPARATORS.includes(c.op as Comparator)) errors.push(`${path}.op "${String(c.op)}" is not a comparator`);
+        validateOperand(c.left, `${path}.left`, parameters, errors);
+        validateOperand(c.right, `${path}.right`, parameters, errors);
+        return;
+    }
+
+    const listKey = "all" in c ? "all" : "any" in c ? "any" : "atLeast" in c ? "of" : null;
+    if (listKey) {
+        const list = c[listKey];
+        if (!Array.isArray(list) || list.length === 0) {
+            errors.push(`${path}.${listKey} must be a non-empty list of conditions`);
+            return;
+        }
+        if (listKey === "of" && !(Number.isInteger(c.atLeast) && (c.atLeast as number) >= 1 && (c.atLeast as number) <= list.length)) {
+            errors.push(`${path}.atLeast must be between 1 and ${list.length}`);
+        }
+        list.forEach((child, k) => validateCondition(child, `${path}.${listKey}[${k}]`, parameters, errors));
+        return;
+    }
+
+    if ("not" in c) {
+        validateCondition(c.not, `${path}.not`, parameters, errors);
+        return;
+    }
+
+    errors.push(`${path} must be a comparison or an all/any/atLeast/not group`);
+}
+
+/**
+ * Check a spec (typically parsed from JSON) before it is run or saved.
+ *
+ * @returns Error messages; empty when the spec is valid
+ */
+export function validateStrategySpec(spec: unknown): string[] {
+    const errors: string[] = [];
+    if (!spec || typeof spec !== "object") return ["Strategy must be an object"];
+
+    const s = spec as Partial<StrategySpec>;
+    if (typeof s.name !== "string" || s.name.trim() === "") errors.push("name is required");
+
+    const parameters = s.parameters ?? {};
+    if (typeof parameters !== "object") {
+        errors.push("parameters must be an object of numbers");
+    } else {
+        for (const [name, value] of Object.entries(parameters)) {
+            if (typeof value !== "number" || !Number.isFinite(value)) errors.push(`parameters.${name} must be a number`);
+        }
+    }
+
+    if (!s.entry) errors.push("entry condition is required");
+    else validateCondition(s.entry, "entry", parameters, errors);
+    if (s.exit !== undefined) validateCondition(s.exit, "exit", parameters, errors);
+
+    const risk = s.risk ?? {};
+    for (const key of ["stopLossPercent", "takeProfitPercent", "trailingStopPercent", "maxHoldingBars"] as const) {
+        if (risk[key] !== undefined) validateParamValue(risk[key], `risk.${key}`, parameters, errors);
+    }
+    for (const key of ["atrStop", "atrTrailingStop", "chandelierStop"] as const) {
+        const distance = risk[key];
+        if (!distance) continue;
+        validateParamValue(distance.multiplier, `risk.${key}.multiplier`, parameters, errors);
+        if (distance.period !== undefined) validateParamValue(distance.period, `risk.${key}.period`, parameters, errors);
+    }
+    if (risk.timeStop) {
+        validateParamValue(risk.timeStop.bars, "risk.timeStop.bars", parameters, errors);
+        if (risk.timeStop.minProfitPercent !== undefined) {
+            validateParamValue(risk.timeStop.minProfitPercent, "risk.timeStop.minProfitPercent", parameters, errors);
+        }
+    }
+    if (risk.takeProfitLevels !== undefined) {
+        if (!Array.isArray(risk.takeProfitLevels) || risk.takeProfitLevels.length === 0) {
+            errors.push("risk.takeProfitLevels must be a non-empty array");
+        } else {
+            risk.takeProfitLevels.forEach((level, i) => {
+                const path = `risk.takeProfitLevels[${i}]`;
+                if ((level.percent === undefined) === (level.rMultiple === undefined)) {
+                    errors.push(`${path} needs exactly one of percent or rMultiple`);
+                }
+                if (level.percent !== undefined) validateParamValue(level.percent, `${path}.percent`, parameters, errors);
+                if (level.rMultiple !== undefined) {
+                    validateParamValue(level.rMultiple, `${path}.rMultiple`, parameters, errors);
+                    if (risk.stopLossPercent === undefined && !risk.atrStop) {
+                        errors.push(`${path}.rMultiple needs risk.stopLossPercent or risk.atrStop`);
+                    }
+                }
+                if (level.sizePercent !== undefined) validateParamValue(level.sizePercent, `${path}.sizePercent`, parameters, errors);
+            });
+        }
+    }
+
+    const sizing = s.sizing;
+    if (sizing) {
+        if (sizing.type === "PERCENT_EQUITY") validateParamValue(sizing.percent, "sizing.percent", parameters, errors);
+        else if (sizing.type === "FIXED_AMOUNT") validateParamValue(sizing.amount, "sizing.amount", parameters, errors);
+        else if (sizing.type === "RISK_PERCENT") {
+            validateParamValue(sizing.riskPercent, "sizing.riskPercent", parameters, errors);
+            if (risk.stopLossPercent === undefined && !risk.atrStop) {
+                errors.push("sizing RISK_PERCENT needs risk.stopLossPercent or risk.atrStop");
+            }
+        } else errors.push(`sizing.type "${(sizing as { type?: string }).type}" is not supported`);
+    }
+
+    if (!s.exit && risk.stopLossPercent === undefined && risk.takeProfitPercent === undefined &&
+        risk.trailingStopPercent === undefined && !risk.atrStop && risk.maxHoldingBars === undefined &&
+        !risk.takeProfitLevels && !risk.atrTrailingStop && !risk.chandelierStop && !risk.timeStop) {
+        errors.push("strategy needs an exit condition or at least one risk exit");
+    }
+
+    return errors;
+}
@@ -51,6 +51,91 @@ export interface VolumeAnalysisResult {
     trend: "INCREASING" | "DECREASING" | "STABLE";
 }
 
+export interface VWAPSummary {
+    value: number;
+    distancePercent: number;
+    position: "ABOVE" | "BELOW";
+}
+
+export interface OBVSummary {
+    value: number;
+    trend: "RISING" | "FALLING" | "FLAT";
+    divergence: "BULLISH" | "BEARISH" | "NONE";
+}
+
+export interface IchimokuSummary {
+    tenkan: number;
+    kijun: number;
+    senkouA: number;
+    senkouB: number;
+    cloudPosition: "ABOVE" | "BELOW" | "INSIDE";
+    tkCross: "BULLISH" | "BEARISH" | "NONE";
+}
+
+/** Supertrend / Parabolic SAR */
+export interface TrendStopSummary {
+    value: number;
+    trend: "UP" | "DOWN";
+    flipped: boolean;
+}
+
+/** Keltner / Donchian */
+export interface ChannelSummary {
+    upper: number;
+    middle: number;
+    lower: number;
+    position: "ABOVE_UPPER" | "BELOW_LOWER" | "WITHIN";
+}
+
+export interface CandlestickPatternSummary {
+    name: string;
+    label: string;
+    direction: "BULLISH" | "BEARISH" | "NEUTRAL";
+    reliability: "LOW" | "MEDIUM" | "HIGH";
+    /** 0 = completed on the latest bar */
+    barsAgo: number;
+}
+
+export interface ChartPatternSummary {
+    type: string;
+    label: string;
+    direction: "BULLISH" | "BEARISH" | "NEUTRAL";
+    status: "FORMING" | "BREAKOUT";
+    breakoutLevel: number;
+    target: number;
+    invalidation: number;
+    /** Pattern length in bars */
+    bars: number;
+}
+
+export interface DivergenceSummary {
+    indicator: "RSI" | "MACD" | "OBV";
+    type: "REGULAR" | "HIDDEN";
+    direction: "BULLISH" | "BEARISH";
+    strength: "WEAK" | "MEDIUM" | "STRONG";
+    label: string;
+    /** Bars since the later swing point */
+    barsAgo: number;
+}
+
+export interface VolumeProfileSummary {
+    /** Point of control */
+    poc: number;
+    /** Value area high / low */
+    vah: number;
+    val: number;
+    /** High / low volume nodes */
+    hvn: number[];
+    lvn: number[];
+}
+
+export interface AnchoredVWAPSummary {
+    anchorType: "HIGH" | "LOW";
+    anchorPrice: number;
+    /** Current anchored VWAP value */
+    value: number;
+}
+
 export interface Signal {
     type: "BUY" | "SELL";
     indicator: string;
@@ -96,11 +181,24 @@ export interface EnhancedStockData {
         ema50: number | null;
         sma20: number | null;
         volumeAnalysis: VolumeAnalysisResult | null;
+        vwap?: VWAPSummary | null;
+        obv?: OBVSummary | null;
+        mfi?: IndicatorResult | null;
+        ichimoku?: IchimokuSummary | null;
+        supertrend?: TrendStopSummary | null;
+        parabolicSar?: TrendStopSummary | null;
+        keltner?: ChannelSummary | null;
+        donchian?: ChannelSummary | null;
     };
     signals: Signal[];
+    candlestickPatterns?: CandlestickPatternSummary[];
+    chartPatterns?: ChartPatternSummary[];
+    divergences?: DivergenceSummary[];
     supportResistance: {
         support: number[];
         resistance: number[];
+        volumeProfile?: VolumeProfileSummary | null;
+        anchoredVwaps?: AnchoredVWAPSummary[];
     };
     atr: number;
     news?: StockNews[];